@@ -0,0 +1,25 @@
+-- Normalize legacy outcome spelling
+UPDATE "Prediction" SET "outcome" = 'PARTIALLY_CORRECT' WHERE "outcome" = 'PARTIAL';
+
+-- CreateTable
+CREATE TABLE "ForecasterScore" (
+    "id" TEXT NOT NULL,
+    "forecasterId" TEXT NOT NULL,
+    "brierScore" DOUBLE PRECISION NOT NULL,
+    "reliability" DOUBLE PRECISION,
+    "resolution" DOUBLE PRECISION,
+    "uncertainty" DOUBLE PRECISION,
+    "calibration" DOUBLE PRECISION,
+    "multiCategoryBrier" DOUBLE PRECISION,
+    "sampleSize" INTEGER NOT NULL,
+    "partialCredit" DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+    "calculatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ForecasterScore_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ForecasterScore_forecasterId_calculatedAt_idx" ON "ForecasterScore"("forecasterId", "calculatedAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "ForecasterScore" ADD CONSTRAINT "ForecasterScore_forecasterId_fkey" FOREIGN KEY ("forecasterId") REFERENCES "Forecaster"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "RankingSnapshot" (
+    "id" TEXT NOT NULL,
+    "forecasterId" TEXT NOT NULL,
+    "snapshotDate" DATE NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "rankingScore" DOUBLE PRECISION NOT NULL,
+    "accuracy" DOUBLE PRECISION NOT NULL,
+    "brierScore" DOUBLE PRECISION,
+    "totalPredictions" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RankingSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RankingSnapshot_forecasterId_snapshotDate_key" ON "RankingSnapshot"("forecasterId", "snapshotDate");
+
+-- CreateIndex
+CREATE INDEX "RankingSnapshot_snapshotDate_rank_idx" ON "RankingSnapshot"("snapshotDate", "rank");
+
+-- AddForeignKey
+ALTER TABLE "RankingSnapshot" ADD CONSTRAINT "RankingSnapshot_forecasterId_fkey" FOREIGN KEY ("forecasterId") REFERENCES "Forecaster"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN "lockedBy" TEXT,
+ADD COLUMN "lockedUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Job_status_lockedUntil_idx" ON "Job"("status", "lockedUntil");
+
+-- CreateTable
+CREATE TABLE "JobSchedule" (
+    "type" TEXT NOT NULL,
+    "cron" TEXT NOT NULL,
+    "description" TEXT,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "isPaused" BOOLEAN NOT NULL DEFAULT false,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "JobSchedule_pkey" PRIMARY KEY ("type")
+);
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "PredictionReview" (
+    "id" TEXT NOT NULL,
+    "forecasterId" TEXT NOT NULL,
+    "contentId" TEXT,
+    "predictionId" TEXT,
+    "candidate" JSONB NOT NULL,
+    "source" JSONB NOT NULL DEFAULT '{"type":null,"url":null}',
+    "qualityScore" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "edits" JSONB,
+    "notes" TEXT,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PredictionReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PredictionReview_predictionId_key" ON "PredictionReview"("predictionId");
+
+-- CreateIndex
+CREATE INDEX "PredictionReview_status_createdAt_idx" ON "PredictionReview"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PredictionReview_contentId_idx" ON "PredictionReview"("contentId");
+
+-- AddForeignKey
+ALTER TABLE "PredictionReview" ADD CONSTRAINT "PredictionReview_forecasterId_fkey" FOREIGN KEY ("forecasterId") REFERENCES "Forecaster"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PredictionReview" ADD CONSTRAINT "PredictionReview_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "Content"("id") ON DELETE SET NULL ON UPDATE CASCADE;
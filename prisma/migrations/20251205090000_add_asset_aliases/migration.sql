@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "AssetAlias" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'NAME',
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AssetAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AssetAlias_alias_idx" ON "AssetAlias"("alias");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AssetAlias_alias_assetId_key" ON "AssetAlias"("alias", "assetId");
+
+-- AddForeignKey
+ALTER TABLE "AssetAlias" ADD CONSTRAINT "AssetAlias_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "PriceCandle" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "resolution" TEXT NOT NULL,
+    "openTime" TIMESTAMP(3) NOT NULL,
+    "open" DECIMAL(20,8) NOT NULL,
+    "high" DECIMAL(20,8) NOT NULL,
+    "low" DECIMAL(20,8) NOT NULL,
+    "close" DECIMAL(20,8) NOT NULL,
+    "volume" DECIMAL(30,8),
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceCandle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceCandle_assetId_resolution_openTime_key" ON "PriceCandle"("assetId", "resolution", "openTime");
+
+-- AddForeignKey
+ALTER TABLE "PriceCandle" ADD CONSTRAINT "PriceCandle_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PriceHistory" ADD COLUMN "quorum" JSONB;
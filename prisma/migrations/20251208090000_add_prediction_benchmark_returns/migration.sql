@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Prediction" ADD COLUMN "benchmarkSymbol" TEXT,
+ADD COLUMN "assetReturn" DECIMAL(14,6),
+ADD COLUMN "benchmarkReturn" DECIMAL(14,6),
+ADD COLUMN "excessReturn" DECIMAL(14,6);
+
+-- CreateIndex
+CREATE INDEX "Prediction_forecasterId_excessReturn_idx" ON "Prediction"("forecasterId", "excessReturn");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Prediction" ADD COLUMN "marketRegime" TEXT,
+ADD COLUMN "sentimentScore" INTEGER;
+
+-- CreateTable
+CREATE TABLE "MarketSentimentDay" (
+    "id" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "score" INTEGER NOT NULL,
+    "classification" TEXT NOT NULL,
+    "regime" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarketSentimentDay_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketSentimentDay_day_key" ON "MarketSentimentDay"("day");
+
+-- CreateIndex
+CREATE INDEX "Prediction_marketRegime_outcome_idx" ON "Prediction"("marketRegime", "outcome");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ConsensusSnapshot" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "horizon" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "direction" TEXT NOT NULL,
+    "agreement" DECIMAL(5,4) NOT NULL,
+    "bullishShare" DECIMAL(5,4) NOT NULL,
+    "bearishShare" DECIMAL(5,4) NOT NULL,
+    "neutralShare" DECIMAL(5,4) NOT NULL,
+    "calls" INTEGER NOT NULL,
+    "medianTarget" DECIMAL(20,8),
+    "price" DECIMAL(20,8),
+    "contrarians" JSONB NOT NULL DEFAULT '[]',
+    "evaluateAt" TIMESTAMP(3),
+    "outcome" TEXT NOT NULL DEFAULT 'PENDING',
+    "realizedChange" DECIMAL(14,6),
+    "evaluatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConsensusSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConsensusSnapshot_assetId_horizon_day_key" ON "ConsensusSnapshot"("assetId", "horizon", "day");
+
+-- CreateIndex
+CREATE INDEX "ConsensusSnapshot_outcome_evaluateAt_idx" ON "ConsensusSnapshot"("outcome", "evaluateAt");
+
+-- AddForeignKey
+ALTER TABLE "ConsensusSnapshot" ADD CONSTRAINT "ConsensusSnapshot_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deletionScheduledAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "statusChangedAt" TIMESTAMP(3),
+ADD COLUMN     "statusReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "User_status_idx" ON "User"("status");
+
+-- Accounts that predate verification keep full access
+UPDATE "User" SET "emailVerified" = "createdAt" WHERE "emailVerified" IS NULL;
+
+-- Users soft-deleted by an admin were flagged in settings
+UPDATE "User"
+SET "status" = 'SUSPENDED', "statusReason" = 'Deleted by an administrator', "statusChangedAt" = CURRENT_TIMESTAMP
+WHERE "settings"->>'suspended' = 'true';
@@ -0,0 +1,36 @@
+-- Comments outlive an erased author
+ALTER TABLE "Comment" DROP CONSTRAINT "Comment_authorId_fkey";
+ALTER TABLE "Comment" ALTER COLUMN "authorId" DROP NOT NULL;
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE "DataRequest" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "archive" BYTEA,
+    "tokenHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "downloadedAt" TIMESTAMP(3),
+    "summary" JSONB NOT NULL DEFAULT '{}',
+    "error" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DataRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DataRequest_tokenHash_key" ON "DataRequest"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "DataRequest_userId_type_idx" ON "DataRequest"("userId", "type");
+
+-- CreateIndex
+CREATE INDEX "DataRequest_type_status_idx" ON "DataRequest"("type", "status");
+
+-- Deletions already scheduled get their compliance record
+INSERT INTO "DataRequest" ("id", "userId", "type", "requestedAt")
+SELECT gen_random_uuid()::text, "id", 'ERASURE', COALESCE("statusChangedAt", CURRENT_TIMESTAMP)
+FROM "User" WHERE "status" = 'PENDING_DELETION';
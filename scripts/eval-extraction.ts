@@ -0,0 +1,97 @@
+/**
+ * Extraction golden-set evaluation.
+ *
+ *   Compare two recorded configurations (offline):
+ *     npm run eval:extraction -- --baseline seed --candidate my-prompt
+ *
+ *   Score a single recorded configuration:
+ *     npm run eval:extraction -- --baseline seed
+ *
+ *   Record a configuration against live providers (needs API keys):
+ *     npm run eval:extraction -- --record my-prompt --llm "gemini,openai:gpt-4o-mini"
+ *
+ *   Export review-queue decisions as draft golden cases (needs the database):
+ *     npm run eval:extraction -- --export-reviews eval/extraction/review-drafts.json
+ *
+ * Recordings live in eval/extraction/recordings/<name>.json.
+ */
+import "dotenv/config";
+import * as fs from "fs";
+import * as path from "path";
+
+const EVAL_DIR = path.join(process.cwd(), "eval", "extraction");
+
+function arg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function recordingPath(name: string) {
+  return path.join(EVAL_DIR, "recordings", `${name}.json`);
+}
+
+async function main() {
+  const exportPath = arg("export-reviews");
+  if (exportPath) {
+    const { ReviewQueueService } = await import("../src/server/services/reviewQueue");
+    const cases = await new ReviewQueueService().goldenCases();
+    const draft = {
+      version: 0,
+      description: "Draft cases from review-queue decisions. Check each transcript and annotate the unreviewed predictions before copying cases into a new golden set.",
+      cases,
+    };
+    fs.writeFileSync(exportPath, JSON.stringify(draft, null, 2) + "\n");
+    console.log(`Exported ${cases.length} draft cases to ${exportPath}`);
+    return;
+  }
+
+  const recordName = arg("record");
+
+  // Replaying recordings needs no database or API keys
+  if (!recordName) {
+    process.env.SKIP_ENV_VALIDATION ??= "true";
+  }
+
+  const evaluation = await import("../src/server/services/extractionEval");
+  const set = evaluation.loadGoldenSet(arg("set") ?? path.join(EVAL_DIR, "golden-v1.json"));
+
+  if (recordName) {
+    const { createLLMClient, defaultLLMTargets, parseLLMTargets } = await import("../src/server/services/llm");
+    const targets = arg("llm") ? parseLLMTargets(arg("llm")) : defaultLLMTargets();
+
+    const { recordings, report } = await evaluation.recordGoldenSet(set, recordName, createLLMClient(targets), targets);
+    fs.writeFileSync(recordingPath(recordName), JSON.stringify(recordings, null, 2) + "\n");
+
+    console.log(`Recorded ${Object.keys(recordings.responses).length} cases to ${recordingPath(recordName)}`);
+    console.log(JSON.stringify(report.metrics, null, 2));
+    return;
+  }
+
+  const baselineName = arg("baseline") ?? "seed";
+  const replay = async (name: string) => {
+    const recordings = evaluation.loadRecordingSet(recordingPath(name));
+    if (recordings.goldenVersion !== set.version) {
+      console.warn(`⚠️ ${name} was recorded against golden v${recordings.goldenVersion}, evaluating v${set.version}`);
+    }
+    return evaluation.evaluateGoldenSet(set, name, goldenCase => evaluation.replayClient(recordings, goldenCase));
+  };
+
+  const baseline = await replay(baselineName);
+  const candidateName = arg("candidate");
+  const candidate = candidateName ? await replay(candidateName) : baseline;
+
+  console.log(evaluation.formatComparison(evaluation.compareReports(baseline, candidate)));
+
+  const out = arg("out");
+  if (out) {
+    fs.writeFileSync(out, JSON.stringify({ baseline, candidate }, null, 2) + "\n");
+  }
+}
+
+// Timers started by imported services (security logging, rate limiting) keep the process alive
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
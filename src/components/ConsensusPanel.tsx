@@ -0,0 +1,122 @@
+import Link from "next/link";
+import { Loader2, Users } from "lucide-react";
+import { api, type RouterOutputs } from "@/utils/api";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+type HorizonConsensus = RouterOutputs["assets"]["getConsensus"]["horizons"][number];
+
+const DIRECTION_STYLES: Record<string, string> = {
+  BULLISH: "bg-green-100 text-green-700 border-green-200",
+  BEARISH: "bg-red-100 text-red-700 border-red-200",
+  NEUTRAL: "bg-gray-100 text-gray-700 border-gray-200",
+  MIXED: "bg-yellow-100 text-yellow-700 border-yellow-200",
+};
+
+const share = (value: number) => `${Math.round(value * 100)}%`;
+const price = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: value < 1 ? 6 : 2 })}`;
+
+function ShareBar({ consensus }: { consensus: HorizonConsensus }) {
+  return (
+    <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+      <div className="bg-green-500" style={{ width: share(consensus.shares.BULLISH) }} />
+      <div className="bg-gray-400" style={{ width: share(consensus.shares.NEUTRAL) }} />
+      <div className="bg-red-500" style={{ width: share(consensus.shares.BEARISH) }} />
+    </div>
+  );
+}
+
+function HorizonRow({ consensus, predictionId }: { consensus: HorizonConsensus; predictionId?: string }) {
+  const includesPrediction = !!predictionId && consensus.predictionIds.includes(predictionId);
+  const isContrarian = includesPrediction && consensus.contrarians.some(c => c.predictionId === predictionId);
+
+  return (
+    <div className={`rounded-lg p-3 space-y-2 ${includesPrediction ? "bg-blue-50 border border-blue-200" : "bg-gray-50"}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900">{consensus.label}</span>
+        <Badge className={DIRECTION_STYLES[consensus.direction]}>
+          {consensus.direction === "MIXED" ? "No consensus" : `${consensus.direction} ${share(consensus.agreement)}`}
+        </Badge>
+      </div>
+      <ShareBar consensus={consensus} />
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>
+          {consensus.calls} forecaster{consensus.calls === 1 ? "" : "s"}
+        </span>
+        {consensus.targets && (
+          <span>
+            Median target {price(consensus.targets.median)}
+            {consensus.impliedMove !== null && ` (${consensus.impliedMove >= 0 ? "+" : ""}${consensus.impliedMove}%)`}
+          </span>
+        )}
+      </div>
+      {consensus.targets && consensus.targets.count > 1 && (
+        <div className="text-xs text-gray-500">
+          Middle half {price(consensus.targets.p25)} – {price(consensus.targets.p75)}, range {price(consensus.targets.min)} –{" "}
+          {price(consensus.targets.max)}
+        </div>
+      )}
+      {consensus.contrarians.length > 0 && (
+        <div className="text-xs text-gray-600">
+          Against the crowd:{" "}
+          {consensus.contrarians.slice(0, 3).map((c, index) => (
+            <span key={c.predictionId}>
+              {index > 0 && ", "}
+              <Link href={`/forecasters/${c.forecasterId}`} className="text-blue-600 hover:underline">
+                {c.forecasterName}
+              </Link>
+            </span>
+          ))}
+          {consensus.contrarians.length > 3 && ` and ${consensus.contrarians.length - 3} more`}
+        </div>
+      )}
+      {isContrarian && <div className="text-xs font-medium text-orange-700">This call goes against the consensus</div>}
+    </div>
+  );
+}
+
+/**
+ * Accuracy-weighted crowd view for an asset; pass a prediction to highlight
+ * the horizon it counts towards
+ */
+export function ConsensusPanel({ assetId, predictionId, className }: { assetId: string; predictionId?: string; className?: string }) {
+  const { data, isLoading, error } = api.assets.getConsensus.useQuery({ assetId }, { enabled: !!assetId });
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Consensus
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          </div>
+        ) : error || !data ? (
+          <p className="text-sm text-gray-500">Consensus is not available for this asset.</p>
+        ) : data.horizons.length === 0 ? (
+          <p className="text-sm text-gray-500">No active predictions for {data.symbol}.</p>
+        ) : (
+          data.horizons.map(consensus => <HorizonRow key={consensus.horizon} consensus={consensus} predictionId={predictionId} />)
+        )}
+
+        {data && data.history.evaluated > 0 && (
+          <div className="pt-3 border-t text-xs text-gray-600 space-y-1">
+            <div>
+              Past consensus calls were right <span className="font-semibold">{data.history.accuracy}%</span> of the time (
+              {data.history.correct}/{data.history.evaluated}).
+            </div>
+            {data.history.contrarianWins > 0 && (
+              <div>
+                The crowd was wrong {data.history.contrarianWins} time{data.history.contrarianWins === 1 ? "" : "s"} when someone called the other side.
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
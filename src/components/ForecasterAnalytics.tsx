@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { api, type RouterOutputs } from "@/utils/api";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type Analytics = RouterOutputs["statistics"]["getForecasterAnalytics"];
+type AnalyticsWindow = Analytics["window"];
+type Dimension = keyof Analytics["segments"];
+type RollingPoint = Analytics["rolling"][number];
+
+const WINDOWS: Array<{ value: AnalyticsWindow; label: string }> = [
+  { value: "30d", label: "30 days" },
+  { value: "90d", label: "90 days" },
+  { value: "1y", label: "1 year" },
+  { value: "all", label: "All time" },
+];
+
+const DIMENSIONS: Array<{ value: Dimension; label: string }> = [
+  { value: "assetType", label: "Asset type" },
+  { value: "asset", label: "Asset" },
+  { value: "horizon", label: "Horizon" },
+  { value: "direction", label: "Direction" },
+  { value: "marketRegime", label: "Market regime" },
+  { value: "source", label: "Source" },
+];
+
+const ROLLING_METRICS: Array<{ value: "accuracy" | "hitRate" | "brierScore" | "avgReturn"; label: string }> = [
+  { value: "accuracy", label: "Accuracy" },
+  { value: "hitRate", label: "Hit rate" },
+  { value: "brierScore", label: "Brier score" },
+  { value: "avgReturn", label: "Avg. return" },
+];
+
+const percent = (value: number | null) => (value === null ? "—" : `${value}%`);
+const signed = (value: number | null, unit: string) => (value === null ? "—" : `${value >= 0 ? "+" : ""}${value}${unit}`);
+const brier = (value: number | null) => (value === null ? "—" : value.toFixed(3));
+
+function RollingChart({ points, metric }: { points: RollingPoint[]; metric: (typeof ROLLING_METRICS)[number]["value"] }) {
+  const width = 600;
+  const height = 120;
+  const padding = 4;
+  const values = points.map(p => p[metric]);
+  const known = values.filter((v): v is number => v !== null);
+
+  if (known.length < 2) {
+    return <div className="h-[120px] flex items-center justify-center text-sm text-gray-400">Not enough resolved calls yet</div>;
+  }
+
+  const min = Math.min(...known);
+  const span = Math.max(Math.max(...known) - min, 1e-9);
+
+  // Gaps (windows with nothing resolved) break the line rather than dropping to zero
+  const segments: string[][] = [[]];
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (segments[segments.length - 1]!.length) segments.push([]);
+      return;
+    }
+    const x = padding + (index / (values.length - 1)) * (width - padding * 2);
+    const y = height - padding - ((value - min) / span) * (height - padding * 2);
+    segments[segments.length - 1]!.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  });
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-[120px]" preserveAspectRatio="none" role="img">
+      {segments.filter(s => s.length > 1).map((segment, index) => (
+        <polyline
+          key={index}
+          points={segment.join(" ")}
+          fill="none"
+          stroke="#2563eb"
+          strokeWidth={2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+}
+
+export function ForecasterAnalyticsPanel({ forecasterId }: { forecasterId: string }) {
+  const [timeWindow, setTimeWindow] = useState<AnalyticsWindow>("all");
+  const [dimension, setDimension] = useState<Dimension>("assetType");
+  const [metric, setMetric] = useState<(typeof ROLLING_METRICS)[number]["value"]>("accuracy");
+
+  const { data, isLoading, error } = api.statistics.getForecasterAnalytics.useQuery(
+    { forecasterId, window: timeWindow },
+    { enabled: !!forecasterId }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-sm text-gray-500 py-8 text-center">Analytics are not available for this forecaster.</p>;
+  }
+
+  const { summary } = data;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {WINDOWS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setTimeWindow(option.value)}
+            className={`px-3 py-1 rounded-full text-sm border ${
+              timeWindow === option.value ? "bg-blue-600 text-white border-blue-600" : "bg-white text-gray-700 border-gray-200 hover:bg-gray-50"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="bg-gray-50 rounded-lg p-4 text-center">
+          <div className="text-2xl font-bold text-gray-900">{percent(summary.accuracy)}</div>
+          <div className="text-xs text-gray-500">Accuracy ({summary.resolved} resolved)</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 text-center">
+          <div className="text-2xl font-bold text-gray-900">{percent(summary.hitRate)}</div>
+          <div className="text-xs text-gray-500">Direction hit rate</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 text-center">
+          <div className="text-2xl font-bold text-gray-900">{brier(summary.brierScore)}</div>
+          <div className="text-xs text-gray-500">Brier score</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 text-center">
+          <div className="text-2xl font-bold text-gray-900">{signed(summary.avgReturn, "%")}</div>
+          <div className="text-xs text-gray-500">Avg. return per call</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 text-center">
+          <div className="text-2xl font-bold text-gray-900">{signed(summary.alpha, "pp")}</div>
+          <div className="text-xs text-gray-500">Alpha vs. benchmark</div>
+        </div>
+      </div>
+
+      {/* Rolling */}
+      <div className="bg-gray-50 rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="font-semibold text-gray-900">Rolling {data.rollingDays}-day {ROLLING_METRICS.find(m => m.value === metric)?.label.toLowerCase()}</h4>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as typeof metric)}
+            className="px-3 py-1 border border-gray-200 rounded-md bg-white text-sm"
+          >
+            {ROLLING_METRICS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <RollingChart points={data.rolling} metric={metric} />
+        {data.rolling.length >= 2 && (
+          <div className="flex justify-between text-xs text-gray-500 mt-2">
+            <span>{data.rolling[0]!.date}</span>
+            <span>{data.rolling[data.rolling.length - 1]!.date}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Segments */}
+      <div>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {DIMENSIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setDimension(option.value)}
+              className={`px-3 py-1 rounded-md text-sm border ${
+                dimension === option.value ? "bg-gray-900 text-white border-gray-900" : "bg-white text-gray-700 border-gray-200 hover:bg-gray-50"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {data.segments[dimension].length === 0 ? (
+          <p className="text-sm text-gray-500">No predictions in this window.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{DIMENSIONS.find(d => d.value === dimension)?.label}</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Accuracy</TableHead>
+                <TableHead className="text-right">Hit rate</TableHead>
+                <TableHead className="text-right">Brier</TableHead>
+                <TableHead className="text-right">Avg. return</TableHead>
+                <TableHead className="text-right">Alpha</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.segments[dimension].map(segment => (
+                <TableRow key={segment.key}>
+                  <TableCell className="font-medium">{segment.label}</TableCell>
+                  <TableCell className="text-right">
+                    {segment.resolved}/{segment.total}
+                  </TableCell>
+                  <TableCell className="text-right">{percent(segment.accuracy)}</TableCell>
+                  <TableCell className="text-right">{percent(segment.hitRate)}</TableCell>
+                  <TableCell className="text-right">{brier(segment.brierScore)}</TableCell>
+                  <TableCell className="text-right">{signed(segment.avgReturn, "%")}</TableCell>
+                  <TableCell className="text-right">{signed(segment.alpha, "pp")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import Link from "next/link";
+import { LineChart, Loader2 } from "lucide-react";
+import { api, type RouterOutputs } from "@/utils/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDate } from "@/lib/utils";
+
+type PricePath = RouterOutputs["predictions"]["getPricePath"];
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 56 };
+
+const OUTCOME_COLORS: Record<string, string> = {
+  CORRECT: "#16a34a",
+  PARTIALLY_CORRECT: "#ea580c",
+  INCORRECT: "#dc2626",
+};
+
+const DIRECTION_COLORS: Record<string, string> = {
+  BULLISH: "#16a34a",
+  BEARISH: "#dc2626",
+};
+
+const price = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: value < 1 ? 6 : 2 })}`;
+
+function Chart({ path }: { path: PricePath }) {
+  const start = path.from.getTime();
+  const end = Math.max(path.to.getTime(), path.horizonEnd?.getTime() ?? 0, start + 1);
+
+  // Scale to the path and this prediction's levels; other forecasters' targets only show when they fit
+  const levels = [
+    ...path.points.flatMap(p => [p.low, p.high]),
+    ...(path.baseline ? [path.baseline.price] : []),
+    ...(path.target ? [path.target.band.low, path.target.band.high] : []),
+    ...(path.resolved ? [path.resolved.price] : []),
+  ];
+  const rawMin = Math.min(...levels);
+  const rawMax = Math.max(...levels);
+  const margin = Math.max((rawMax - rawMin) * 0.08, rawMax * 0.005);
+  const min = rawMin - margin;
+  const max = rawMax + margin;
+
+  const x = (at: Date) => PADDING.left + ((at.getTime() - start) / (end - start)) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) => PADDING.top + (1 - (value - min) / (max - min)) * (HEIGHT - PADDING.top - PADDING.bottom);
+  const inRange = (value: number) => value >= min && value <= max;
+
+  const line = [
+    ...(path.baseline ? [`${x(path.baseline.at).toFixed(1)},${y(path.baseline.price).toFixed(1)}`] : []),
+    ...path.points.map(p => `${x(p.at).toFixed(1)},${y(p.price).toFixed(1)}`),
+  ].join(" ");
+  const ticks = [min + margin, (min + max) / 2, max - margin];
+  const others = path.others.filter(o => o.targetPrice !== null && inRange(o.targetPrice));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Price path over the prediction horizon">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#f1f5f9" />
+          <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize={10} fill="#6b7280">
+            {price(tick)}
+          </text>
+        </g>
+      ))}
+
+      {/* Target band: the prices that count as hitting the target */}
+      {path.target && (
+        <g>
+          <rect
+            x={x(path.from)}
+            width={Math.max((path.horizonEnd ? x(path.horizonEnd) : WIDTH - PADDING.right) - x(path.from), 1)}
+            y={y(path.target.band.high)}
+            height={Math.max(y(path.target.band.low) - y(path.target.band.high), 1)}
+            fill="#2563eb"
+            fillOpacity={0.12}
+          />
+          <line
+            x1={x(path.from)}
+            x2={path.horizonEnd ? x(path.horizonEnd) : WIDTH - PADDING.right}
+            y1={y(path.target.price)}
+            y2={y(path.target.price)}
+            stroke="#2563eb"
+            strokeDasharray="4 3"
+          />
+        </g>
+      )}
+
+      {path.baseline && (
+        <line
+          x1={x(path.from)}
+          x2={WIDTH - PADDING.right}
+          y1={y(path.baseline.price)}
+          y2={y(path.baseline.price)}
+          stroke="#9ca3af"
+          strokeDasharray="2 3"
+        />
+      )}
+
+      {path.horizonEnd && (
+        <line x1={x(path.horizonEnd)} x2={x(path.horizonEnd)} y1={PADDING.top} y2={HEIGHT - PADDING.bottom} stroke="#6b7280" strokeDasharray="4 3" />
+      )}
+
+      <polyline points={line} fill="none" stroke="#111827" strokeWidth={1.5} strokeLinejoin="round" />
+
+      {path.baseline && <circle cx={x(path.baseline.at)} cy={y(path.baseline.price)} r={4} fill="#6b7280" />}
+
+      {others.map(other => (
+        <circle
+          key={other.id}
+          cx={x(other.targetDate && other.targetDate.getTime() <= end ? other.targetDate : new Date(end))}
+          cy={y(other.targetPrice!)}
+          r={3.5}
+          fill="white"
+          stroke={DIRECTION_COLORS[other.direction ?? ""] ?? "#6b7280"}
+          strokeWidth={1.5}
+        >
+          <title>
+            {other.forecasterName}: {other.direction ?? "NEUTRAL"} to {price(other.targetPrice!)}
+            {other.targetDate ? ` by ${formatDate(other.targetDate)}` : ""}
+          </title>
+        </circle>
+      ))}
+
+      {path.resolved && (
+        <circle
+          cx={x(path.resolved.at)}
+          cy={y(path.resolved.price)}
+          r={6}
+          fill={OUTCOME_COLORS[path.resolved.outcome] ?? "#6b7280"}
+          stroke="white"
+          strokeWidth={2}
+        >
+          <title>{path.resolved.reason}</title>
+        </circle>
+      )}
+
+      <text x={PADDING.left} y={HEIGHT - 6} fontSize={10} fill="#6b7280">
+        {formatDate(path.from)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fontSize={10} fill="#6b7280" textAnchor="end">
+        {formatDate(new Date(end))}
+      </text>
+    </svg>
+  );
+}
+
+/**
+ * Price from the baseline through the target date (or today), with the
+ * target band, resolution point and other forecasters' calls on the asset
+ */
+export function PricePathChart({ predictionId, className }: { predictionId: string; className?: string }) {
+  const { data: path, isLoading, error } = api.predictions.getPricePath.useQuery({ predictionId }, { enabled: !!predictionId });
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LineChart className="h-5 w-5 text-finance-600" />
+          Price Path
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : error || !path ? (
+          <p className="text-sm text-gray-500">The price path is not available for this prediction.</p>
+        ) : path.points.length < 2 ? (
+          <p className="text-sm text-gray-500">
+            {path.asset ? `No price history for ${path.asset.symbol} over this horizon yet.` : "This prediction isn't linked to an asset."}
+          </p>
+        ) : (
+          <>
+            <Chart path={path} />
+
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-0.5 bg-gray-900" /> {path.asset?.symbol} ({path.resolution === "1h" ? "hourly" : "daily"} closes)
+              </span>
+              {path.baseline && (
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 rounded-full bg-gray-500" /> Baseline {price(path.baseline.price)}
+                </span>
+              )}
+              {path.target && (
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-3 h-2 bg-blue-600/20 border border-blue-600" />
+                  Target {price(path.target.price)}
+                  {path.target.semantics === "CLOSE" ? ` (counts from ${price(path.target.band.low)} to ${price(path.target.band.high)} at expiry)` : " (hit if touched)"}
+                </span>
+              )}
+              {path.others.length > 0 && (
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 rounded-full border border-gray-500" /> Other forecasters&apos; targets
+                </span>
+              )}
+            </div>
+
+            {path.resolved && (
+              <div className="text-sm text-gray-700 p-3 bg-gray-50 rounded-lg">
+                <span className="font-medium" style={{ color: OUTCOME_COLORS[path.resolved.outcome] }}>
+                  {path.resolved.outcome.replace("_", " ")}
+                </span>{" "}
+                on {formatDate(path.resolved.at)} at {price(path.resolved.price)}: {path.resolved.reason}
+              </div>
+            )}
+
+            {path.others.length > 0 && (
+              <div className="text-xs text-gray-600 space-y-1">
+                <div className="font-medium text-gray-700">Other calls on {path.asset?.symbol} in this window</div>
+                {path.others.slice(0, 5).map(other => (
+                  <div key={other.id} className="flex justify-between gap-2">
+                    <Link href={`/predictions/${other.id}`} className="text-blue-600 hover:underline truncate">
+                      {other.forecasterName}
+                    </Link>
+                    <span className="shrink-0">
+                      {other.direction ?? "NEUTRAL"}
+                      {other.targetPrice !== null && ` → ${price(other.targetPrice)}`} · {other.outcome.replace("_", " ").toLowerCase()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { ArrowDown, ArrowUp, Minus } from "lucide-react";
+
+interface RankSparklineProps {
+  ranks: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+// Rank 1 is drawn at the top, so a rising line means the forecaster climbed
+export function RankSparkline({ ranks, width = 96, height = 28, className }: RankSparklineProps) {
+  if (ranks.length < 2) {
+    return <span className="text-xs text-gray-400">No history</span>;
+  }
+
+  const best = Math.min(...ranks);
+  const worst = Math.max(...ranks);
+  const span = Math.max(worst - best, 1);
+  const padding = 2;
+
+  const points = ranks.map((rank, index) => {
+    const x = padding + (index / (ranks.length - 1)) * (width - padding * 2);
+    const y = padding + ((rank - best) / span) * (height - padding * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const first = ranks[0]!;
+  const last = ranks[ranks.length - 1]!;
+  const stroke = last < first ? "#16a34a" : last > first ? "#dc2626" : "#6b7280";
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      role="img"
+      aria-label={`Rank moved from #${first} to #${last}`}
+    >
+      <polyline
+        points={points.join(" ")}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
+
+interface RankMovementProps {
+  movement: number | null;
+}
+
+export function RankMovement({ movement }: RankMovementProps) {
+  if (movement === null) {
+    return <span className="text-xs text-gray-400">New</span>;
+  }
+
+  if (movement === 0) {
+    return (
+      <span className="inline-flex items-center gap-1 text-sm text-gray-500">
+        <Minus className="h-3 w-3" />
+        0
+      </span>
+    );
+  }
+
+  const Icon = movement > 0 ? ArrowUp : ArrowDown;
+  const color = movement > 0 ? "text-green-600" : "text-red-600";
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-sm font-semibold ${color}`}>
+      <Icon className="h-3 w-3" />
+      {Math.abs(movement)}
+    </span>
+  );
+}
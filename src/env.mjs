@@ -9,8 +9,21 @@ export const env = createEnv({
       .default("development"),
     NEXTAUTH_SECRET: z.string().min(1),
     NEXTAUTH_URL: z.string().url().optional(),
+    // OAuth sign-in providers
+    GOOGLE_CLIENT_ID: z.string().min(1).optional(),
+    GOOGLE_CLIENT_SECRET: z.string().min(1).optional(),
+    GITHUB_CLIENT_ID: z.string().min(1).optional(),
+    GITHUB_CLIENT_SECRET: z.string().min(1).optional(),
+    ENABLE_MAGIC_LINK: z.enum(["true", "false"]).optional(),
     GOOGLE_API_KEY: z.string().min(1),
     OPENAI_API_KEY: z.string().min(1),
+    // LLM providers for extraction ("provider" or "provider:model")
+    LLM_PROVIDER: z.string().min(1).optional(),
+    LLM_FALLBACKS: z.string().optional(),
+    ANTHROPIC_API_KEY: z.string().min(1).optional(),
+    LOCAL_LLM_BASE_URL: z.string().url().optional(),
+    LOCAL_LLM_MODEL: z.string().min(1).optional(),
+    LOCAL_LLM_API_KEY: z.string().min(1).optional(),
     RAPIDAPI_KEY: z.string().min(1),
     STRIPE_SECRET_KEY: z.string().min(1),
     STRIPE_WEBHOOK_SECRET: z.string().min(1),
@@ -32,8 +45,21 @@ export const env = createEnv({
     NODE_ENV: process.env.NODE_ENV,
     NEXTAUTH_SECRET: process.env.NEXTAUTH_SECRET,
     NEXTAUTH_URL: process.env.NEXTAUTH_URL,
+    // OAuth sign-in providers
+    GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
+    GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
+    GITHUB_CLIENT_ID: process.env.GITHUB_CLIENT_ID,
+    GITHUB_CLIENT_SECRET: process.env.GITHUB_CLIENT_SECRET,
+    ENABLE_MAGIC_LINK: process.env.ENABLE_MAGIC_LINK,
     GOOGLE_API_KEY: process.env.GOOGLE_API_KEY,
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    // LLM providers for extraction
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_FALLBACKS: process.env.LLM_FALLBACKS,
+    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+    LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL,
+    LOCAL_LLM_MODEL: process.env.LOCAL_LLM_MODEL,
+    LOCAL_LLM_API_KEY: process.env.LOCAL_LLM_API_KEY,
     RAPIDAPI_KEY: process.env.RAPIDAPI_KEY,
     STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
     STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
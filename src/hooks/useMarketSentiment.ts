@@ -16,6 +16,19 @@ export interface MarketSentimentData {
   };
 }
 
+export type MarketRegime = MarketSentimentData['marketContext'];
+
+// Fear to greed, the order regime breakdowns are shown in
+export const MARKET_REGIMES: MarketRegime[] = ['EXTREME_FEAR', 'FEAR', 'NEUTRAL', 'GREED', 'EXTREME_GREED'];
+
+export const MARKET_REGIME_LABELS: Record<MarketRegime, string> = {
+  EXTREME_FEAR: 'Extreme Fear',
+  FEAR: 'Fear',
+  NEUTRAL: 'Neutral',
+  GREED: 'Greed',
+  EXTREME_GREED: 'Extreme Greed',
+};
+
 export function useMarketSentiment() {
   return api.market.getSentiment.useQuery(undefined, {
     retry: 1,
@@ -0,0 +1,366 @@
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useState } from "react";
+import { api } from "@/utils/api";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/router";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  CandlestickChart,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  GitMerge,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Search,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+
+type AliasKind = "TICKER" | "NAME" | "PAIR" | "EXCHANGE";
+
+const KIND_COLORS: Record<AliasKind, string> = {
+  TICKER: "bg-blue-100 text-blue-800",
+  NAME: "bg-green-100 text-green-800",
+  PAIR: "bg-purple-100 text-purple-800",
+  EXCHANGE: "bg-amber-100 text-amber-800",
+};
+
+const AdminAssetsPage: NextPage = () => {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [newAlias, setNewAlias] = useState<{ assetId: string; alias: string; kind: AliasKind } | null>(null);
+  const [probe, setProbe] = useState({ symbol: "", context: "" });
+
+  const { data: catalog, refetch: refetchCatalog, isLoading } = api.admin.getAssetCatalog.useQuery({
+    search: search || undefined,
+    page,
+    limit: 25,
+  });
+  const { data: duplicates, refetch: refetchDuplicates } = api.admin.getDuplicateAssets.useQuery();
+  const resolution = api.admin.resolveAsset.useQuery(
+    { symbol: probe.symbol.trim(), context: probe.context || undefined },
+    { enabled: probe.symbol.trim().length > 0 }
+  );
+
+  const refetch = () => {
+    refetchCatalog();
+    refetchDuplicates();
+  };
+
+  const onChanged = (data: { message: string }) => {
+    toast.success(data.message);
+    refetch();
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(error.message);
+  };
+
+  const addAlias = api.admin.addAssetAlias.useMutation({
+    onSuccess: (data) => {
+      setNewAlias(null);
+      onChanged(data);
+    },
+    onError,
+  });
+  const removeAlias = api.admin.removeAssetAlias.useMutation({ onSuccess: onChanged, onError });
+  const importDefaults = api.admin.importDefaultAssetAliases.useMutation({ onSuccess: onChanged, onError });
+  const mergeAssets = api.admin.mergeAssets.useMutation({ onSuccess: onChanged, onError });
+  const backfillCandles = api.admin.backfillAssetCandles.useMutation({ onSuccess: onChanged, onError });
+
+  if (status === "loading") {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session || session.user.role !== "ADMIN") {
+    router.push("/");
+    return null;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Assets - Admin</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="container mx-auto px-4 py-8">
+          <div className="flex items-center justify-between mb-8">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" asChild>
+                <Link href="/admin">
+                  <ArrowLeft className="h-4 w-4" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Assets</h1>
+                <p className="text-gray-600">Aliases that map mentions onto assets, and duplicate cleanup</p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={importDefaults.isPending} onClick={() => importDefaults.mutate()}>
+                <Download className="h-4 w-4 mr-2" />
+                Import Default Aliases
+              </Button>
+              <Button variant="outline" onClick={refetch}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2 mb-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Try a Symbol</CardTitle>
+                <CardDescription>How a mention resolves, optionally with the text around it</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Input
+                  placeholder="e.g. SOLUSDT, Solana, LINK"
+                  value={probe.symbol}
+                  onChange={(e) => setProbe({ ...probe, symbol: e.target.value })}
+                />
+                <Input
+                  placeholder="Surrounding text (optional)"
+                  value={probe.context}
+                  onChange={(e) => setProbe({ ...probe, context: e.target.value })}
+                />
+                {resolution.data && (
+                  <div className="text-sm space-y-1">
+                    <p>
+                      <span className="font-semibold">{resolution.data.symbol}</span>{" "}
+                      <Badge variant="outline">{resolution.data.type}</Badge>{" "}
+                      {resolution.data.name && <span className="text-gray-600">{resolution.data.name}</span>}
+                    </p>
+                    <p className="text-gray-500">
+                      {resolution.data.method} • {Math.round(resolution.data.confidence * 100)}% confidence
+                      {resolution.data.assetId ? "" : " • not in the database yet"}
+                    </p>
+                    {resolution.data.alternatives.length > 0 && (
+                      <p className="text-gray-500">
+                        Also could be: {resolution.data.alternatives.map(alt => `${alt.symbol} (${alt.type})`).join(", ")}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Possible Duplicates</CardTitle>
+                <CardDescription>
+                  Assets that resolve to the same symbol. Merging moves predictions and price history to the target.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!duplicates?.length ? (
+                  <p className="text-sm text-gray-500">No duplicates found</p>
+                ) : (
+                  <div className="space-y-4">
+                    {duplicates.map((group) => (
+                      <div key={group.symbol} className="border rounded-lg p-3 space-y-2">
+                        <p className="font-semibold">{group.symbol}</p>
+                        {group.assets.map((asset) => (
+                          <div key={asset.id} className="flex items-center justify-between text-sm">
+                            <span>
+                              {asset.symbol} <Badge variant="outline">{asset.type}</Badge>
+                              <span className="text-gray-500">
+                                {" "}
+                                {asset.predictions} predictions • {asset.priceHistory} prices
+                              </span>
+                            </span>
+                            {asset.id === group.targetId ? (
+                              <Badge>Target</Badge>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={mergeAssets.isPending}
+                                onClick={() => {
+                                  if (confirm(`Merge ${asset.symbol} (${asset.type}) into ${group.symbol}? This deletes ${asset.symbol}.`)) {
+                                    mergeAssets.mutate({ sourceId: asset.id, targetId: group.targetId });
+                                  }
+                                }}
+                              >
+                                <GitMerge className="h-4 w-4 mr-2" />
+                                Merge
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Alias Catalog</CardTitle>
+                  <CardDescription>
+                    Outlined aliases come from the built-in catalog; adding one gives the asset its own editable copy
+                  </CardDescription>
+                </div>
+                <div className="relative w-64">
+                  <Search className="h-4 w-4 absolute left-3 top-3 text-gray-400" />
+                  <Input
+                    className="pl-9"
+                    placeholder="Symbol or alias"
+                    value={search}
+                    onChange={(e) => {
+                      setSearch(e.target.value);
+                      setPage(1);
+                    }}
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              ) : (
+                <div className="divide-y">
+                  {catalog?.assets.map((asset) => (
+                    <div key={asset.id} className="py-3 flex flex-col gap-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="font-semibold">{asset.symbol}</span>{" "}
+                          <Badge variant="outline">{asset.type}</Badge>{" "}
+                          {asset.name && <span className="text-sm text-gray-600">{asset.name}</span>}
+                          <span className="text-xs text-gray-500">
+                            {" "}
+                            • {asset.predictions} predictions • {asset.candles} candles
+                          </span>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={backfillCandles.isPending}
+                            onClick={() => backfillCandles.mutate({ assetId: asset.id })}
+                          >
+                            <CandlestickChart className="h-4 w-4 mr-1" />
+                            Backfill
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setNewAlias({ assetId: asset.id, alias: "", kind: "NAME" })}
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Alias
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {asset.aliases.map((alias) => (
+                          <Badge key={alias.id} className={KIND_COLORS[alias.kind as AliasKind]}>
+                            {alias.alias}
+                            {alias.priority > 0 && ` (+${alias.priority})`}
+                            <button
+                              className="ml-1"
+                              aria-label={`Remove ${alias.alias}`}
+                              disabled={removeAlias.isPending}
+                              onClick={() => removeAlias.mutate({ id: alias.id })}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                        {asset.inheritedAliases.map((alias) => (
+                          <Badge key={alias.alias} variant="outline" className="text-gray-500">
+                            {alias.alias}
+                          </Badge>
+                        ))}
+                      </div>
+                      {newAlias?.assetId === asset.id && (
+                        <div className="flex gap-2">
+                          <Input
+                            className="max-w-xs"
+                            placeholder="Alias"
+                            value={newAlias.alias}
+                            onChange={(e) => setNewAlias({ ...newAlias, alias: e.target.value })}
+                          />
+                          <Select
+                            value={newAlias.kind}
+                            onValueChange={(value) => setNewAlias({ ...newAlias, kind: value as AliasKind })}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="NAME">Name</SelectItem>
+                              <SelectItem value="TICKER">Ticker</SelectItem>
+                              <SelectItem value="PAIR">Trading pair</SelectItem>
+                              <SelectItem value="EXCHANGE">Exchange listing</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            size="sm"
+                            disabled={!newAlias.alias.trim() || addAlias.isPending}
+                            onClick={() => addAlias.mutate(newAlias)}
+                          >
+                            Add
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setNewAlias(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {catalog && catalog.pages > 1 && (
+                <div className="flex items-center justify-between mt-4">
+                  <p className="text-sm text-gray-600">
+                    Page {page} of {catalog.pages} ({catalog.total} assets)
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)}>
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={page >= catalog.pages} onClick={() => setPage(page + 1)}>
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AdminAssetsPage;
@@ -20,23 +20,34 @@ import {
   AlertTriangle,
   XCircle,
   RefreshCw,
-  TrendingUp
+  TrendingUp,
+  LineChart
 } from "lucide-react";
+import { toast } from "sonner";
 
 const SystemHealth: NextPage = () => {
   const [lastUpdate, setLastUpdate] = useState(new Date());
 
   // Fetch real system status data
   const { data: systemStatus, isLoading, refetch } = api.admin.getSystemStatus.useQuery();
+  const { data: marketData, refetch: refetchMarketData } = api.admin.getMarketDataProviders.useQuery();
+  const resetProvider = api.admin.resetMarketDataProvider.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      refetchMarketData();
+    },
+    onError: (error) => toast.error(error.message),
+  });
 
   // Auto-refresh every 30 seconds
   useEffect(() => {
     const interval = setInterval(() => {
       refetch();
+      refetchMarketData();
       setLastUpdate(new Date());
     }, 30000);
     return () => clearInterval(interval);
-  }, [refetch]);
+  }, [refetch, refetchMarketData]);
 
   // Use real data from API or fallback to mock data
   const healthChecks = systemStatus?.services || [
@@ -146,6 +157,7 @@ const SystemHealth: NextPage = () => {
                     variant="outline"
                     onClick={() => {
                       refetch();
+                      refetchMarketData();
                       setLastUpdate(new Date());
                     }}
                     disabled={isLoading}
@@ -245,6 +257,79 @@ const SystemHealth: NextPage = () => {
               </Card>
             </motion.div>
 
+            {/* Market Data Providers */}
+            {marketData && (
+              <motion.div className="mb-12" variants={itemVariants}>
+                <Card className="shadow-xl bg-white/90 backdrop-blur-xl border border-white/20">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <LineChart className="h-5 w-5" />
+                      Market Data Providers
+                    </CardTitle>
+                    <CardDescription>
+                      Circuit breakers and error rates over the last 50 calls; prices that failed the cross-check in the last 24h
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="grid md:grid-cols-3 gap-4">
+                      {marketData.providers.map((provider) => {
+                        const mappedStatus =
+                          provider.state === 'OPEN' ? 'error' : provider.state === 'HALF_OPEN' || provider.errorRate > 0.2 ? 'degraded' : 'healthy';
+
+                        return (
+                          <div key={provider.source} className="p-4 border border-gray-200 rounded-lg space-y-2">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2">
+                                {getStatusIcon(mappedStatus)}
+                                <span className="font-medium text-gray-900 capitalize">{provider.source}</span>
+                              </div>
+                              <Badge className={getStatusColor(mappedStatus)}>{provider.state}</Badge>
+                            </div>
+                            <div className="text-sm text-gray-600">
+                              {provider.calls} calls • {Math.round(provider.errorRate * 100)}% errors
+                              {provider.avgLatencyMs !== null && ` • ${provider.avgLatencyMs}ms avg`}
+                            </div>
+                            {provider.lastError && (
+                              <div className="text-xs text-red-600 truncate" title={provider.lastError}>
+                                {provider.lastError}
+                              </div>
+                            )}
+                            {provider.state !== 'CLOSED' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={resetProvider.isPending}
+                                onClick={() => resetProvider.mutate({ source: provider.source })}
+                              >
+                                Reset circuit
+                              </Button>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {marketData.outliers.length > 0 && (
+                      <div className="divide-y border rounded-lg">
+                        {marketData.outliers.map((outlier) => (
+                          <div key={outlier.id} className="flex items-center justify-between p-3 text-sm">
+                            <div>
+                              <span className="font-medium">{outlier.symbol}</span>
+                              <span className="text-gray-600"> • {outlier.reason}</span>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <Badge variant="outline">{outlier.status}</Badge>
+                              <span className="text-gray-500">{new Date(outlier.createdAt).toLocaleTimeString()}</span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </motion.div>
+            )}
+
             {/* System Metrics */}
             <motion.div variants={itemVariants}>
               <Card className="shadow-xl bg-white/90 backdrop-blur-xl border border-white/20">
@@ -35,7 +35,9 @@ import {
   Crown,
   Loader2,
   RefreshCw,
-  Brain
+  Brain,
+  ClipboardCheck,
+  Coins
 } from "lucide-react";
 
 const AdminDashboard: NextPage = () => {
@@ -117,6 +119,27 @@ const AdminDashboard: NextPage = () => {
       href: "/admin/analytics",
       color: "from-purple-500 to-purple-600"
     },
+    {
+      title: "Content Pipeline",
+      description: "Monitor and retry content processing",
+      icon: <Database className="h-6 w-6" />,
+      href: "/admin/pipeline",
+      color: "from-cyan-500 to-cyan-600"
+    },
+    {
+      title: "Review Queue",
+      description: "Approve or correct borderline extractions",
+      icon: <ClipboardCheck className="h-6 w-6" />,
+      href: "/admin/review",
+      color: "from-amber-500 to-amber-600"
+    },
+    {
+      title: "Assets",
+      description: "Edit symbol aliases and merge duplicates",
+      icon: <Coins className="h-6 w-6" />,
+      href: "/admin/assets",
+      color: "from-lime-500 to-lime-600"
+    },
     {
       title: "System Health",
       description: "Monitor system status",
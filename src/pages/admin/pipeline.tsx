@@ -0,0 +1,191 @@
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { api } from "@/utils/api";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/router";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  ArrowLeft,
+  AlertTriangle,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+} from "lucide-react";
+import { toast } from "sonner";
+
+type Stage = "download" | "transcribe" | "extract";
+
+const STAGE_LABELS: Record<Stage, string> = {
+  download: "Download",
+  transcribe: "Transcribe",
+  extract: "Extract",
+};
+
+const STATE_COLORS: Record<string, string> = {
+  COLLECTED: "border-gray-300",
+  AUDIO_DOWNLOADING: "border-blue-400",
+  AUDIO_DOWNLOADED: "border-blue-300",
+  TRANSCRIBING: "border-indigo-400",
+  TRANSCRIBED: "border-indigo-300",
+  EXTRACTING: "border-purple-400",
+  PROCESSED: "border-green-400",
+  FAILED: "border-red-400",
+};
+
+const formatAge = (date: Date | string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+};
+
+const AdminPipelinePage: NextPage = () => {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  const { data: board, refetch, isLoading } = api.admin.getContentPipeline.useQuery(undefined, {
+    refetchInterval: 30000,
+  });
+
+  const retryFromStage = api.admin.retryContentFromStage.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (status === "loading") {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session || session.user.role !== "ADMIN") {
+    router.push("/");
+    return null;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Content Pipeline - Admin</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="container mx-auto px-4 py-8">
+          <div className="flex items-center justify-between mb-8">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" asChild>
+                <Link href="/admin">
+                  <ArrowLeft className="h-4 w-4" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Content Pipeline</h1>
+                <p className="text-gray-600">Collected content moving through download, transcription and extraction</p>
+              </div>
+            </div>
+            <Button variant="outline" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <>
+              {/* Pipeline Board */}
+              <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-4 mb-8">
+                {board?.states.map((column) => (
+                  <Card key={column.state} className={`border-t-4 ${STATE_COLORS[column.state] || "border-gray-300"}`}>
+                    <CardHeader className="pb-2">
+                      <CardDescription className="text-xs">{column.state.replace(/_/g, " ")}</CardDescription>
+                      <CardTitle className="text-2xl">{column.count}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {column.oldest ? (
+                        <div className="text-xs text-gray-600 space-y-1">
+                          <p className="font-medium text-gray-800 line-clamp-2">{column.oldest.title}</p>
+                          <p>Oldest: {formatAge(column.oldest.createdAt)} ago</p>
+                          {column.oldest.stuck && (
+                            <Badge className="bg-amber-100 text-amber-800">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              Stuck
+                            </Badge>
+                          )}
+                        </div>
+                      ) : (
+                        <p className="text-xs text-gray-400">Empty</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              {/* Failed Items */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Failed Items</CardTitle>
+                  <CardDescription>Items that exhausted a stage's retry budget</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {board?.failed.length === 0 ? (
+                    <p className="text-sm text-gray-500">No failed content</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {board?.failed.map((item) => (
+                        <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{item.title}</p>
+                            <p className="text-sm text-gray-600">
+                              {item.sourceType}
+                              {item.forecasterName && ` • ${item.forecasterName}`}
+                              {item.failedStage && ` • Failed in ${STAGE_LABELS[item.failedStage as Stage] ?? item.failedStage}`}
+                            </p>
+                            {item.lastError && (
+                              <p className="text-sm text-red-600 mt-1 truncate">Error: {item.lastError}</p>
+                            )}
+                          </div>
+                          <div className="flex gap-2 shrink-0 ml-4">
+                            {(Object.keys(STAGE_LABELS) as Stage[])
+                              .filter((stage) => stage !== "transcribe" || item.hasAudio)
+                              .map((stage) => (
+                                <Button
+                                  key={stage}
+                                  size="sm"
+                                  variant={stage === item.failedStage ? "default" : "outline"}
+                                  onClick={() => retryFromStage.mutate({ contentId: item.id, stage })}
+                                  disabled={retryFromStage.isPending}
+                                >
+                                  <RotateCcw className="h-3 w-3 mr-1" />
+                                  {STAGE_LABELS[stage]}
+                                </Button>
+                              ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AdminPipelinePage;
@@ -2,7 +2,7 @@ import { type NextPage } from "next";
 import Head from "next/head";
 import Link from "next/link";
 import { useState } from "react";
-import { api } from "@/utils/api";
+import { api, type RouterOutputs } from "@/utils/api";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/router";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -66,6 +66,8 @@ import {
   Globe,
   Circle,
   CircleDot,
+  PauseCircle,
+  RotateCcw,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Textarea } from "@/components/ui/textarea";
@@ -87,6 +89,7 @@ const AdminPredictionsPage: NextPage = () => {
   const [extractionUsername, setExtractionUsername] = useState("");
   const [selectedForecaster, setSelectedForecaster] = useState("");
   const [activeTab, setActiveTab] = useState("predictions");
+  const [timeframePreview, setTimeframePreview] = useState<RouterOutputs["admin"]["backfillTimeframes"] | null>(null);
 
   // Fetch data
   const { data: predictionsData, refetch: refetchPredictions, isLoading: loadingPredictions } = api.admin.getPredictions.useQuery({
@@ -193,6 +196,59 @@ const AdminPredictionsPage: NextPage = () => {
     },
   });
 
+  const retryJob = api.admin.retryJob.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      refetchCronStatus();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const setCronJobPaused = api.admin.setCronJobPaused.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      refetchCronStatus();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const { data: promptVersions, refetch: refetchPromptVersions } = api.admin.getPromptVersions.useQuery();
+
+  const backfillTimeframes = api.admin.backfillTimeframes.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      setTimeframePreview(data.dryRun ? data : null);
+      if (!data.dryRun) refetchPredictions();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const backfillSentiment = api.admin.backfillSentimentHistory.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      if (data.tagged > 0) refetchPredictions();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const reextractContent = api.admin.reextractContent.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      refetchPromptVersions();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
   // Check authentication
   if (status === "loading") {
     return (
@@ -231,9 +287,11 @@ const AdminPredictionsPage: NextPage = () => {
 
   const getJobStatusBadge = (status: string) => {
     const colors: Record<string, string> = {
+      PENDING: "bg-yellow-100 text-yellow-800",
       RUNNING: "bg-blue-100 text-blue-800",
       COMPLETED: "bg-green-100 text-green-800",
       FAILED: "bg-red-100 text-red-800",
+      DEAD: "bg-red-200 text-red-900",
       CANCELLED: "bg-gray-100 text-gray-800",
     };
     return colors[status] || "bg-gray-100 text-gray-800";
@@ -444,6 +502,7 @@ const AdminPredictionsPage: NextPage = () => {
                               </TableCell>
                               <TableCell>
                                 {prediction.metadata && typeof prediction.metadata === 'object' && (prediction.metadata as any)?.source ? (
+                                  <div>
                                   <div className="flex items-center gap-2">
                                     <Badge variant="outline" className="text-xs flex items-center gap-1">
                                       {(prediction.metadata as any).source.type === "youtube" ? (
@@ -466,6 +525,13 @@ const AdminPredictionsPage: NextPage = () => {
                                       </a>
                                     )}
                                   </div>
+                                  {(prediction.metadata as any).extraction?.model && (
+                                    <p className="text-xs text-gray-500 mt-1">
+                                      {(prediction.metadata as any).extraction.model} • prompt{" "}
+                                      {(prediction.metadata as any).extraction.promptVersion ?? "unversioned"}
+                                    </p>
+                                  )}
+                                  </div>
                                 ) : (
                                   <Badge variant="outline" className="text-xs">Unknown</Badge>
                                 )}
@@ -522,7 +588,17 @@ const AdminPredictionsPage: NextPage = () => {
                                 )}
                               </TableCell>
                               <TableCell>{Math.round((prediction.confidence || 0) * 100)}%</TableCell>
-                              <TableCell>{prediction.targetDate ? formatDate(prediction.targetDate) : "N/A"}</TableCell>
+                              <TableCell>
+                                {prediction.targetDate ? (
+                                  formatDate(prediction.targetDate)
+                                ) : (prediction.metadata as any)?.extraction?.timeframe?.status === "UNRESOLVABLE" ? (
+                                  <Badge variant="outline" title={(prediction.metadata as any).extraction.timeframe.reason}>
+                                    Unresolvable
+                                  </Badge>
+                                ) : (
+                                  "N/A"
+                                )}
+                              </TableCell>
                               <TableCell>{formatDate(prediction.createdAt)}</TableCell>
                               <TableCell>
                                 <Badge className={getOutcomeBadge(prediction.outcome)}>
@@ -599,6 +675,129 @@ const AdminPredictionsPage: NextPage = () => {
             </TabsContent>
 
             <TabsContent value="extraction" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Target Dates</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Derive target dates from timeframe phrases (&quot;by end of Q2&quot;, &quot;in 3 weeks&quot;) for pending
+                    predictions that have none, relative to when the source was published. Predictions with no usable
+                    horizon are marked unresolvable.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => backfillTimeframes.mutate({ dryRun: true })}
+                      disabled={backfillTimeframes.isPending}
+                    >
+                      <Eye className="h-4 w-4 mr-2" />
+                      Preview
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => backfillTimeframes.mutate({ dryRun: false })}
+                      disabled={backfillTimeframes.isPending}
+                    >
+                      <Calendar className="h-4 w-4 mr-2" />
+                      Apply
+                    </Button>
+                  </div>
+                  {timeframePreview && (
+                    <div className="space-y-2">
+                      <p className="text-sm">
+                        {timeframePreview.scanned} scanned • {timeframePreview.resolved} would be dated •{" "}
+                        {timeframePreview.unresolvable} unresolvable • {timeframePreview.skipped} already unresolvable
+                      </p>
+                      {timeframePreview.samples.map((sample) => (
+                        <div key={sample.predictionId} className="flex items-center justify-between p-2 border rounded text-sm">
+                          <span className="truncate mr-4">{sample.prediction}</span>
+                          <span className="whitespace-nowrap text-gray-600">
+                            {sample.resolution.targetDate
+                              ? `${sample.resolution.targetDate} (${Math.round(sample.resolution.confidence * 100)}%)`
+                              : sample.resolution.reason}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Market Regime History</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Load the daily Fear &amp; Greed series and tag predictions with the regime on the day they were
+                    made. Runs nightly; the bundled fixture stands in when the index API is unreachable.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => backfillSentiment.mutate({})}
+                      disabled={backfillSentiment.isPending}
+                    >
+                      <Calendar className="h-4 w-4 mr-2" />
+                      Backfill Full History
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => backfillSentiment.mutate({ source: "fixture" })}
+                      disabled={backfillSentiment.isPending}
+                    >
+                      Load Fixture
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Prompt Versions</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {promptVersions?.content.length === 0 && (
+                      <p className="text-sm text-gray-500">No processed content yet</p>
+                    )}
+                    {promptVersions?.content.map((row) => {
+                      const template = promptVersions.templates.find((t) => t.version === row.promptVersion);
+                      const isCurrent = row.promptVersion === promptVersions.current;
+
+                      return (
+                        <div key={row.promptVersion} className="flex items-center justify-between p-4 border rounded-lg">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium">{row.promptVersion}</p>
+                              {isCurrent && <Badge className="bg-green-100 text-green-800">Current</Badge>}
+                            </div>
+                            <p className="text-sm text-gray-600">
+                              {row.count} processed items
+                              {template && ` • ${template.description}`}
+                            </p>
+                          </div>
+                          {!isCurrent && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => reextractContent.mutate({ promptVersion: row.promptVersion, limit: 50 })}
+                              disabled={reextractContent.isPending}
+                            >
+                              <RefreshCw className="h-4 w-4 mr-2" />
+                              Re-extract {Math.min(row.count, 50)} with {promptVersions.current}
+                            </Button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+
               <Card>
                 <CardHeader>
                   <CardTitle>Recent Extraction Jobs</CardTitle>
@@ -611,7 +810,8 @@ const AdminPredictionsPage: NextPage = () => {
                           <div className={`h-3 w-3 rounded-full ${
                             job.status === "RUNNING" ? "bg-blue-500 animate-pulse" :
                             job.status === "COMPLETED" ? "bg-green-500" :
-                            job.status === "FAILED" ? "bg-red-500" :
+                            job.status === "FAILED" || job.status === "DEAD" ? "bg-red-500" :
+                            job.status === "PENDING" ? "bg-yellow-500" :
                             "bg-gray-500"
                           }`} />
                           <div>
@@ -620,6 +820,10 @@ const AdminPredictionsPage: NextPage = () => {
                               Started: {formatDate(job.createdAt)}
                               {job.completedAt && ` • Completed: ${formatDate(job.completedAt)}`}
                             </p>
+                            <p className="text-xs text-gray-500">
+                              Attempt {job.attempts}/{job.maxAttempts}
+                              {job.status === "PENDING" && job.scheduledFor && ` • Next try: ${formatDate(job.scheduledFor)}`}
+                            </p>
                             {job.error && (
                               <p className="text-sm text-red-600 mt-1">Error: {job.error}</p>
                             )}
@@ -629,7 +833,7 @@ const AdminPredictionsPage: NextPage = () => {
                           <Badge className={getJobStatusBadge(job.status)}>
                             {job.status}
                           </Badge>
-                          {job.status === "RUNNING" && (
+                          {(job.status === "RUNNING" || job.status === "PENDING") && (
                             <Button
                               size="sm"
                               variant="outline"
@@ -638,6 +842,16 @@ const AdminPredictionsPage: NextPage = () => {
                               <StopCircle className="h-4 w-4" />
                             </Button>
                           )}
+                          {(job.status === "FAILED" || job.status === "DEAD" || job.status === "CANCELLED") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => retryJob.mutate({ id: job.id })}
+                              disabled={retryJob.isPending}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -702,27 +916,42 @@ const AdminPredictionsPage: NextPage = () => {
                 <CardContent>
                   <div className="space-y-4">
                     {cronStatus?.cronJobs.map((job) => (
-                      <div key={job.name} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div key={job.type} className="flex items-center justify-between p-4 border rounded-lg">
                         <div className="flex items-center gap-4">
                           <Clock className="h-5 w-5 text-gray-500" />
                           <div>
-                            <p className="font-medium">{job.name}</p>
+                            <p className="font-medium flex items-center gap-2">
+                              {job.name}
+                              {job.isPaused && (
+                                <Badge className="bg-yellow-100 text-yellow-800">Paused</Badge>
+                              )}
+                            </p>
                             <p className="text-sm text-gray-600">{job.description}</p>
                             <p className="text-xs text-gray-500 mt-1">Schedule: {job.schedule}</p>
                           </div>
                         </div>
-                        <div className="text-right">
-                          <p className="text-sm font-medium">Next Run</p>
-                          <p className="text-sm text-gray-600">{formatDate(job.nextRun)}</p>
-                          <p className="text-xs text-gray-500">
-                            {(() => {
-                              const diff = new Date(job.nextRun).getTime() - new Date().getTime();
-                              const minutes = Math.floor(diff / 60000);
-                              const hours = Math.floor(minutes / 60);
-                              if (hours > 0) return `in ${hours}h ${minutes % 60}m`;
-                              return `in ${minutes}m`;
-                            })()}
-                          </p>
+                        <div className="flex items-center gap-4">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setCronJobPaused.mutate({ type: job.type, paused: !job.isPaused })}
+                            disabled={setCronJobPaused.isPending}
+                          >
+                            {job.isPaused ? <PlayCircle className="h-4 w-4" /> : <PauseCircle className="h-4 w-4" />}
+                          </Button>
+                          <div className="text-right">
+                            <p className="text-sm font-medium">Next Run</p>
+                            <p className="text-sm text-gray-600">{formatDate(job.nextRun)}</p>
+                            <p className="text-xs text-gray-500">
+                              {(() => {
+                                const diff = new Date(job.nextRun).getTime() - new Date().getTime();
+                                const minutes = Math.floor(diff / 60000);
+                                const hours = Math.floor(minutes / 60);
+                                if (hours > 0) return `in ${hours}h ${minutes % 60}m`;
+                                return `in ${minutes}m`;
+                              })()}
+                            </p>
+                          </div>
                         </div>
                       </div>
                     ))}
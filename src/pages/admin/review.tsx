@@ -0,0 +1,405 @@
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useState } from "react";
+import { api } from "@/utils/api";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/router";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ArrowLeft,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Edit,
+  Loader2,
+  PlayCircle,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+
+type ReviewStatus = "PENDING" | "APPROVED" | "REJECTED";
+type Direction = "bullish" | "bearish" | "neutral";
+
+interface Draft {
+  assetSymbol: string;
+  direction: Direction;
+  targetPrice: string;
+  targetDate: string;
+  notes: string;
+}
+
+const DIRECTION_COLORS: Record<Direction, string> = {
+  bullish: "bg-green-100 text-green-800",
+  bearish: "bg-red-100 text-red-800",
+  neutral: "bg-gray-100 text-gray-800",
+};
+
+const formatTimestamp = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+const AdminReviewPage: NextPage = () => {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [reviewStatus, setReviewStatus] = useState<ReviewStatus>("PENDING");
+  const [page, setPage] = useState(1);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const { data: queue, refetch, isLoading } = api.admin.getReviewQueue.useQuery({
+    status: reviewStatus,
+    page,
+    limit: 20,
+  });
+
+  const onDecision = (data: { message: string }) => {
+    toast.success(data.message);
+    setEditingId(null);
+    setDraft(null);
+    refetch();
+  };
+
+  const approveReview = api.admin.approveReview.useMutation({
+    onSuccess: onDecision,
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const rejectReview = api.admin.rejectReview.useMutation({
+    onSuccess: onDecision,
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (status === "loading") {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session || session.user.role !== "ADMIN") {
+    router.push("/");
+    return null;
+  }
+
+  type Item = NonNullable<typeof queue>["items"][number];
+
+  const startEditing = (item: Item) => {
+    setEditingId(item.id);
+    setDraft({
+      assetSymbol: item.candidate.asset.symbol,
+      direction: item.candidate.prediction.direction,
+      targetPrice: item.candidate.prediction.targetPrice?.toString() ?? "",
+      targetDate: item.candidate.prediction.targetDate ?? "",
+      notes: "",
+    });
+  };
+
+  // Only send the fields the reviewer actually changed
+  const draftEdits = (item: Item, value: Draft) => {
+    const prediction = item.candidate.prediction;
+    const targetPrice = value.targetPrice.trim() ? Number(value.targetPrice) : null;
+    const targetDate = value.targetDate || null;
+
+    return {
+      ...(value.assetSymbol.trim().toUpperCase() !== item.candidate.asset.symbol && { assetSymbol: value.assetSymbol.trim() }),
+      ...(value.direction !== prediction.direction && { direction: value.direction }),
+      ...(targetPrice !== (prediction.targetPrice ?? null) && { targetPrice }),
+      ...(targetDate !== (prediction.targetDate ?? null) && { targetDate }),
+    };
+  };
+
+  const deciding = approveReview.isPending || rejectReview.isPending;
+
+  return (
+    <>
+      <Head>
+        <title>Review Queue - Admin</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="container mx-auto px-4 py-8">
+          <div className="flex items-center justify-between mb-8">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" asChild>
+                <Link href="/admin">
+                  <ArrowLeft className="h-4 w-4" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Review Queue</h1>
+                <p className="text-gray-600">Borderline extractions held back by the quality threshold</p>
+              </div>
+            </div>
+            <Button variant="outline" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+
+          <Tabs
+            value={reviewStatus}
+            onValueChange={(value) => {
+              setReviewStatus(value as ReviewStatus);
+              setPage(1);
+            }}
+            className="mb-6"
+          >
+            <TabsList>
+              <TabsTrigger value="PENDING">Pending ({queue?.counts.PENDING ?? 0})</TabsTrigger>
+              <TabsTrigger value="APPROVED">Approved ({queue?.counts.APPROVED ?? 0})</TabsTrigger>
+              <TabsTrigger value="REJECTED">Rejected ({queue?.counts.REJECTED ?? 0})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : queue?.items.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-gray-500">Nothing here</CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {queue?.items.map((item) => {
+                const { asset, prediction, context } = item.candidate;
+                const isEditing = editingId === item.id && draft;
+
+                return (
+                  <Card key={item.id}>
+                    <CardHeader>
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <CardTitle className="flex items-center gap-2">
+                            {asset.symbol}
+                            <Badge className={DIRECTION_COLORS[prediction.direction]}>{prediction.direction}</Badge>
+                            <Badge variant="outline">Score {item.qualityScore}</Badge>
+                          </CardTitle>
+                          <CardDescription>
+                            {item.forecaster.name}
+                            {item.contentTitle && ` • ${item.contentTitle}`}
+                            {` • ${new Date(item.createdAt).toLocaleDateString()}`}
+                          </CardDescription>
+                        </div>
+                        {item.sourceUrl && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={item.sourceUrl} target="_blank" rel="noopener noreferrer">
+                              <PlayCircle className="h-4 w-4 mr-2" />
+                              {item.timestampSeconds !== null ? `Open at ${formatTimestamp(item.timestampSeconds)}` : "Open source"}
+                            </a>
+                          </Button>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                        <div>
+                          <p className="text-gray-500">Prediction</p>
+                          <p className="font-medium">{prediction.text || "—"}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-500">Target</p>
+                          <p className="font-medium">
+                            {prediction.targetPrice ? `$${prediction.targetPrice.toLocaleString()}` : "None"}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-gray-500">Target date</p>
+                          <p className="font-medium">
+                            {prediction.targetDate ?? "None"}
+                            {prediction.timeframe && <span className="text-gray-500"> ({prediction.timeframe})</span>}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-gray-500">Why it is here</p>
+                          <p className="font-medium">{item.reason}</p>
+                        </div>
+                      </div>
+
+                      {item.excerpt ? (
+                        <div className="text-sm bg-gray-50 border rounded-lg p-4">
+                          <p className="text-xs text-gray-500 mb-2">
+                            Transcript characters {item.position?.start}–{item.position?.end}
+                          </p>
+                          <p className="text-gray-600">
+                            …{item.excerpt.before}
+                            <mark className="bg-yellow-200 text-gray-900">{item.excerpt.quote}</mark>
+                            {item.excerpt.after}…
+                          </p>
+                        </div>
+                      ) : (
+                        context.exactQuote && (
+                          <blockquote className="text-sm border-l-4 pl-4 text-gray-700">
+                            &quot;{context.exactQuote}&quot;
+                            <span className="block text-xs text-gray-500 mt-1">Quote not found in the stored transcript</span>
+                          </blockquote>
+                        )
+                      )}
+
+                      {context.reasoning && <p className="text-sm text-gray-600">{context.reasoning}</p>}
+
+                      {item.status !== "PENDING" && (
+                        <p className="text-sm text-gray-500">
+                          {item.status === "APPROVED" ? "Approved" : "Rejected"}
+                          {item.reviewedAt && ` on ${new Date(item.reviewedAt).toLocaleDateString()}`}
+                          {item.edits && " with corrections"}
+                          {item.notes && `: ${item.notes}`}
+                        </p>
+                      )}
+
+                      {isEditing && (
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 border-t pt-4">
+                          <div>
+                            <Label htmlFor={`asset-${item.id}`}>Asset</Label>
+                            <Input
+                              id={`asset-${item.id}`}
+                              value={draft.assetSymbol}
+                              onChange={(e) => setDraft({ ...draft, assetSymbol: e.target.value })}
+                            />
+                          </div>
+                          <div>
+                            <Label>Direction</Label>
+                            <Select value={draft.direction} onValueChange={(value) => setDraft({ ...draft, direction: value as Direction })}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="bullish">Bullish</SelectItem>
+                                <SelectItem value="bearish">Bearish</SelectItem>
+                                <SelectItem value="neutral">Neutral</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label htmlFor={`price-${item.id}`}>Target price</Label>
+                            <Input
+                              id={`price-${item.id}`}
+                              type="number"
+                              value={draft.targetPrice}
+                              onChange={(e) => setDraft({ ...draft, targetPrice: e.target.value })}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor={`date-${item.id}`}>Target date</Label>
+                            <Input
+                              id={`date-${item.id}`}
+                              type="date"
+                              value={draft.targetDate}
+                              onChange={(e) => setDraft({ ...draft, targetDate: e.target.value })}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor={`notes-${item.id}`}>Rejection note</Label>
+                            <Input
+                              id={`notes-${item.id}`}
+                              value={draft.notes}
+                              placeholder="Optional"
+                              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {item.status === "PENDING" && (
+                        <div className="flex gap-2">
+                          {isEditing ? (
+                            <>
+                              <Button
+                                size="sm"
+                                disabled={deciding}
+                                onClick={() => {
+                                  const edits = draftEdits(item, draft);
+                                  approveReview.mutate({
+                                    id: item.id,
+                                    edits: Object.keys(edits).length > 0 ? edits : undefined,
+                                  });
+                                }}
+                              >
+                                <CheckCircle className="h-4 w-4 mr-2" />
+                                Save & approve
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={deciding}
+                                onClick={() => rejectReview.mutate({ id: item.id, notes: draft.notes || undefined })}
+                              >
+                                <XCircle className="h-4 w-4 mr-2" />
+                                Reject
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                                Cancel
+                              </Button>
+                            </>
+                          ) : (
+                            <>
+                              <Button size="sm" disabled={deciding} onClick={() => approveReview.mutate({ id: item.id })}>
+                                <CheckCircle className="h-4 w-4 mr-2" />
+                                Approve
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => startEditing(item)}>
+                                <Edit className="h-4 w-4 mr-2" />
+                                Edit
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={deciding}
+                                onClick={() => rejectReview.mutate({ id: item.id })}
+                              >
+                                <XCircle className="h-4 w-4 mr-2" />
+                                Reject
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+
+              {queue && queue.pages > 1 && (
+                <div className="flex items-center justify-center gap-4">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span className="text-sm text-gray-600">
+                    Page {page} of {queue.pages}
+                  </span>
+                  <Button variant="outline" size="sm" disabled={page >= queue.pages} onClick={() => setPage(page + 1)}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AdminReviewPage;
@@ -49,7 +49,8 @@ import {
   Trash2,
   RefreshCw,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  LogOut
 } from "lucide-react";
 
 const UsersManagement: NextPage = () => {
@@ -60,6 +61,9 @@ const UsersManagement: NextPage = () => {
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editForm, setEditForm] = useState({ fullName: "", email: "", role: "FREE" as "FREE" | "PREMIUM" | "ADMIN" });
+  const [selectedStatus, setSelectedStatus] = useState<"ALL" | "ACTIVE" | "UNVERIFIED" | "SUSPENDED" | "PENDING_DELETION">("ALL");
+  const [statusAction, setStatusAction] = useState<{ userId: string; email: string; action: "suspend" | "reactivate" } | null>(null);
+  const [statusReason, setStatusReason] = useState("");
 
   // Fetch users data
   const { data: usersData, isLoading: usersLoading, refetch: refetchUsers } = api.admin.getUsers.useQuery({
@@ -67,7 +71,7 @@ const UsersManagement: NextPage = () => {
     limit: 10,
     search: searchTerm || undefined,
     role: selectedRole,
-    status: "ALL"
+    status: selectedStatus
   });
 
   // Fetch user stats
@@ -103,6 +107,47 @@ const UsersManagement: NextPage = () => {
     },
   });
 
+  // Force logout mutation
+  const forceLogoutMutation = api.admin.forceLogout.useMutation({
+    onSuccess: ({ revoked }) => {
+      toast.success(revoked > 0 ? `Signed out of ${revoked} session${revoked === 1 ? "" : "s"}` : "User had no active sessions");
+      utils.admin.getUser.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to sign user out");
+    },
+  });
+
+  // Suspend / reactivate mutations (both record the admin's reason)
+  const onStatusChanged = (message: string) => {
+    toast.success(message);
+    setStatusAction(null);
+    setStatusReason("");
+    utils.admin.getUsers.invalidate();
+    utils.admin.getUser.invalidate();
+  };
+
+  const suspendUserMutation = api.admin.suspendUser.useMutation({
+    onSuccess: () => onStatusChanged("User suspended and signed out"),
+    onError: (error) => {
+      toast.error(error.message || "Failed to suspend user");
+    },
+  });
+
+  const reactivateUserMutation = api.admin.reactivateUser.useMutation({
+    onSuccess: () => onStatusChanged("User reactivated"),
+    onError: (error) => {
+      toast.error(error.message || "Failed to reactivate user");
+    },
+  });
+
+  const handleStatusChange = () => {
+    if (!statusAction) return;
+
+    const mutation = statusAction.action === "suspend" ? suspendUserMutation : reactivateUserMutation;
+    mutation.mutate({ userId: statusAction.userId, reason: statusReason });
+  };
+
   // Get user details query (fixed from mutation to query)
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const { data: selectedUserData, isLoading: userLoading } = api.admin.getUser.useQuery(
@@ -117,7 +162,7 @@ const UsersManagement: NextPage = () => {
       refetchUsers();
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchTerm, selectedRole, refetchUsers]);
+  }, [searchTerm, selectedRole, selectedStatus, refetchUsers]);
 
   const handleViewUser = (userId: string) => {
     setSelectedUserId(userId);
@@ -162,17 +207,21 @@ const UsersManagement: NextPage = () => {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'active':
+      case 'ACTIVE':
         return 'bg-green-100 text-green-700';
-      case 'suspended':
+      case 'SUSPENDED':
         return 'bg-red-100 text-red-700';
-      case 'pending':
+      case 'UNVERIFIED':
         return 'bg-yellow-100 text-yellow-700';
+      case 'PENDING_DELETION':
+        return 'bg-orange-100 text-orange-700';
       default:
         return 'bg-gray-100 text-gray-700';
     }
   };
 
+  const getStatusLabel = (status: string) => status.replace('_', ' ').toLowerCase();
+
   const users = usersData?.users || [];
   const pagination = usersData?.pagination;
 
@@ -307,6 +356,17 @@ const UsersManagement: NextPage = () => {
                   <option value="PREMIUM">Premium</option>
                   <option value="FREE">Free</option>
                 </select>
+                <select
+                  value={selectedStatus}
+                  onChange={(e) => setSelectedStatus(e.target.value as typeof selectedStatus)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="ALL">All Statuses</option>
+                  <option value="ACTIVE">Active</option>
+                  <option value="UNVERIFIED">Unverified</option>
+                  <option value="SUSPENDED">Suspended</option>
+                  <option value="PENDING_DELETION">Pending Deletion</option>
+                </select>
                 <Button
                   variant="outline"
                   onClick={() => refetchUsers()}
@@ -378,14 +438,17 @@ const UsersManagement: NextPage = () => {
                                     {user.role}
                                   </Badge>
                                   <Badge className={getStatusColor(user.status)}>
-                                    {user.status === 'active' && <CheckCircle className="h-3 w-3 mr-1" />}
-                                    {user.status}
+                                    {user.status === 'ACTIVE' && <CheckCircle className="h-3 w-3 mr-1" />}
+                                    {getStatusLabel(user.status)}
                                   </Badge>
                                 </div>
                                 <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
                                   <Mail className="h-3 w-3" />
                                   <span>{user.email}</span>
                                 </div>
+                                {user.status === 'SUSPENDED' && user.statusReason && (
+                                  <div className="text-sm text-red-700 mb-3">Reason: {user.statusReason}</div>
+                                )}
                                 <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
                                   <div>
                                     <div className="text-gray-500">Joined</div>
@@ -425,6 +488,46 @@ const UsersManagement: NextPage = () => {
                               >
                                 <Edit className="h-4 w-4" />
                               </Button>
+                              {user.status === 'SUSPENDED' || user.status === 'PENDING_DELETION' ? (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Reactivate"
+                                  onClick={() => setStatusAction({ userId: user.id, email: user.email, action: "reactivate" })}
+                                >
+                                  <CheckCircle className="h-4 w-4" />
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Suspend"
+                                  onClick={() => setStatusAction({ userId: user.id, email: user.email, action: "suspend" })}
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="ghost" size="sm" title="Sign out everywhere">
+                                    <LogOut className="h-4 w-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Sign Out Everywhere</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      End every active session for {user.email}. They will need to sign in again on all devices.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => forceLogoutMutation.mutate({ userId: user.id })}>
+                                      Sign Out
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
                                   <Button variant="ghost" size="sm">
@@ -543,6 +646,9 @@ const UsersManagement: NextPage = () => {
                         {selectedUserData.role === 'ADMIN' && <Crown className="h-3 w-3 mr-1" />}
                         {selectedUserData.role}
                       </Badge>
+                      <Badge className={getStatusColor(selectedUserData.status)}>
+                        {getStatusLabel(selectedUserData.status)}
+                      </Badge>
                     </div>
                   </div>
                 </div>
@@ -563,6 +669,28 @@ const UsersManagement: NextPage = () => {
                         <span className="text-gray-500">Last Updated:</span>
                         <span>{new Date(selectedUserData.updatedAt).toLocaleDateString()}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Email Verified:</span>
+                        <span>{selectedUserData.emailVerified ? new Date(selectedUserData.emailVerified).toLocaleDateString() : "No"}</span>
+                      </div>
+                      {selectedUserData.statusChangedAt && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Status Changed:</span>
+                          <span>{new Date(selectedUserData.statusChangedAt).toLocaleDateString()}</span>
+                        </div>
+                      )}
+                      {selectedUserData.statusReason && (
+                        <div className="flex justify-between gap-4">
+                          <span className="text-gray-500">Reason:</span>
+                          <span className="text-right">{selectedUserData.statusReason}</span>
+                        </div>
+                      )}
+                      {selectedUserData.deletionScheduledAt && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Deletion Date:</span>
+                          <span>{new Date(selectedUserData.deletionScheduledAt).toLocaleDateString()}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -585,6 +713,40 @@ const UsersManagement: NextPage = () => {
                   </div>
                 </div>
 
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-medium text-gray-900">Active Sessions</h4>
+                    {selectedUserData.sessions.length > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => forceLogoutMutation.mutate({ userId: selectedUserData.id })}
+                        disabled={forceLogoutMutation.isPending}
+                      >
+                        <LogOut className="h-4 w-4 mr-2" />
+                        Sign Out Everywhere
+                      </Button>
+                    )}
+                  </div>
+                  {selectedUserData.sessions.length === 0 ? (
+                    <p className="text-sm text-gray-500">No active sessions</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {selectedUserData.sessions.map((session) => (
+                        <div key={session.id} className="p-3 bg-gray-50 rounded-lg text-sm flex justify-between">
+                          <div>
+                            <div className="font-medium">{session.device} • {session.browser}</div>
+                            <div className="text-gray-500">{session.ipAddress ?? "Unknown IP"}</div>
+                          </div>
+                          <div className="text-xs text-gray-400">
+                            {new Date(session.lastSeenAt).toLocaleString()}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 {selectedUserData.actions && selectedUserData.actions.length > 0 && (
                   <div>
                     <h4 className="font-medium text-gray-900 mb-2">Recent Actions</h4>
@@ -618,6 +780,51 @@ const UsersManagement: NextPage = () => {
           </DialogContent>
         </Dialog>
 
+        {/* Suspend / Reactivate Modal */}
+        <Dialog
+          open={!!statusAction}
+          onOpenChange={(open) => {
+            if (!open) {
+              setStatusAction(null);
+              setStatusReason("");
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{statusAction?.action === "suspend" ? "Suspend User" : "Reactivate User"}</DialogTitle>
+              <DialogDescription>
+                {statusAction?.action === "suspend"
+                  ? `${statusAction.email} will be signed out everywhere and unable to sign in until reactivated.`
+                  : `${statusAction?.email} will be able to sign in again. Any scheduled deletion is cancelled.`}
+              </DialogDescription>
+            </DialogHeader>
+            <div>
+              <Label htmlFor="statusReason">Reason</Label>
+              <Input
+                id="statusReason"
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                placeholder={statusAction?.action === "suspend" ? "e.g. Spam in comments" : "e.g. Appeal accepted"}
+                maxLength={500}
+              />
+              <p className="text-xs text-gray-500 mt-1">Kept on the account and in the security log.</p>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStatusAction(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleStatusChange}
+                disabled={!statusReason.trim() || suspendUserMutation.isPending || reactivateUserMutation.isPending}
+                className={statusAction?.action === "suspend" ? "bg-red-600 hover:bg-red-700" : undefined}
+              >
+                {statusAction?.action === "suspend" ? "Suspend" : "Reactivate"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Edit User Modal */}
         <Dialog open={isEditModalOpen} onOpenChange={setIsEditModalOpen}>
           <DialogContent>
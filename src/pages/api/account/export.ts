@@ -0,0 +1,49 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/server/auth";
+import { services } from "@/server/services";
+
+/**
+ * GET /api/account/export?token=...
+ *
+ * Serves a data export archive. The emailed link opens /settings/data-export,
+ * which signs the user in first: the token alone is not enough, the archive
+ * is only served to its owner's session.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = typeof req.query.token === "string" ? req.query.token : null;
+  if (!token) {
+    return res.status(400).json({ error: "Missing download token" });
+  }
+
+  const session = await getServerSession(req, res, authOptions);
+  if (!session?.user || session.user.twoFactorPending) {
+    return res.status(401).json({ error: "Sign in to download your data" });
+  }
+
+  try {
+    const { filename, archive } = await services.dataExport.download(token, session.user.id, {
+      ipAddress: req.headers["x-forwarded-for"] as string ||
+                 req.socket?.remoteAddress ||
+                 "unknown",
+      userAgent: req.headers["user-agent"],
+    });
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.setHeader("Content-Length", archive.length.toString());
+    res.setHeader("Cache-Control", "private, no-store");
+    return res.status(200).send(archive);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("invalid or has expired")) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error("[Data export] Download failed:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -0,0 +1,15 @@
+import { services } from "@/server/services";
+import { withApiKey } from "@/server/api/v1/handler";
+
+/**
+ * GET /api/v1/assets/{id}/consensus
+ */
+export default withApiKey("consensus:read", async (req, res) => {
+  const consensus = await services.consensus.forAsset(String(req.query.id));
+
+  if (!consensus) {
+    return res.status(404).json({ error: "Asset not found" });
+  }
+
+  res.status(200).json({ data: consensus });
+});
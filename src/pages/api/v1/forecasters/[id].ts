@@ -0,0 +1,21 @@
+import { prisma } from "@/server/db";
+import { withApiKey } from "@/server/api/v1/handler";
+import { forecasterSelect, serializeForecaster } from "@/server/api/v1/serializers";
+
+/**
+ * GET /api/v1/forecasters/{id}; the slug works in place of the id
+ */
+export default withApiKey("forecasters:read", async (req, res) => {
+  const id = String(req.query.id);
+
+  const forecaster = await prisma.forecaster.findFirst({
+    where: { OR: [{ id }, { slug: id }] },
+    select: forecasterSelect,
+  });
+
+  if (!forecaster) {
+    return res.status(404).json({ error: "Forecaster not found" });
+  }
+
+  res.status(200).json({ data: serializeForecaster(forecaster) });
+});
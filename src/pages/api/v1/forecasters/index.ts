@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { prisma } from "@/server/db";
+import { parseQuery, withApiKey } from "@/server/api/v1/handler";
+import { forecasterSelect, paginationQuery, serializeForecaster } from "@/server/api/v1/serializers";
+
+const querySchema = z.object({
+  ...paginationQuery,
+  search: z.string().trim().min(1).optional(),
+  verified: z.enum(["true", "false"]).optional(),
+});
+
+/**
+ * GET /api/v1/forecasters
+ */
+export default withApiKey("forecasters:read", async (req, res) => {
+  const query = parseQuery(querySchema, req, res);
+  if (!query) return;
+
+  const where = {
+    ...(query.search && {
+      OR: [
+        { name: { contains: query.search, mode: "insensitive" as const } },
+        { slug: { contains: query.search, mode: "insensitive" as const } },
+      ],
+    }),
+    ...(query.verified && { isVerified: query.verified === "true" }),
+  };
+
+  const [forecasters, total] = await Promise.all([
+    prisma.forecaster.findMany({
+      where,
+      orderBy: { name: "asc" },
+      take: query.limit,
+      skip: query.offset,
+      select: forecasterSelect,
+    }),
+    prisma.forecaster.count({ where }),
+  ]);
+
+  res.status(200).json({
+    data: forecasters.map(serializeForecaster),
+    pagination: { limit: query.limit, offset: query.offset, total },
+  });
+});
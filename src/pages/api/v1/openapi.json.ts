@@ -0,0 +1,15 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { openApiDocument } from "@/server/api/v1/openapi";
+
+/**
+ * GET /api/v1/openapi.json; public so clients can be generated before a key exists
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  res.setHeader("Cache-Control", "public, max-age=3600");
+  res.status(200).json(openApiDocument);
+}
@@ -0,0 +1,19 @@
+import { prisma } from "@/server/db";
+import { withApiKey } from "@/server/api/v1/handler";
+import { predictionSelect, serializePrediction } from "@/server/api/v1/serializers";
+
+/**
+ * GET /api/v1/predictions/{id}
+ */
+export default withApiKey("predictions:read", async (req, res) => {
+  const prediction = await prisma.prediction.findUnique({
+    where: { id: String(req.query.id) },
+    select: predictionSelect,
+  });
+
+  if (!prediction) {
+    return res.status(404).json({ error: "Prediction not found" });
+  }
+
+  res.status(200).json({ data: serializePrediction(prediction) });
+});
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { prisma } from "@/server/db";
+import { parseQuery, withApiKey } from "@/server/api/v1/handler";
+import { paginationQuery, predictionSelect, serializePrediction } from "@/server/api/v1/serializers";
+
+const querySchema = z.object({
+  ...paginationQuery,
+  forecasterId: z.string().optional(),
+  assetId: z.string().optional(),
+  symbol: z.string().trim().toUpperCase().optional(),
+  outcome: z.enum(["PENDING", "CORRECT", "INCORRECT", "PARTIALLY_CORRECT"]).optional(),
+  since: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/v1/predictions, newest first
+ */
+export default withApiKey("predictions:read", async (req, res) => {
+  const query = parseQuery(querySchema, req, res);
+  if (!query) return;
+
+  const where = {
+    ...(query.forecasterId && { forecasterId: query.forecasterId }),
+    ...(query.assetId && { assetId: query.assetId }),
+    ...(query.symbol && { asset: { symbol: query.symbol } }),
+    ...(query.outcome && { outcome: query.outcome }),
+    ...(query.since && { createdAt: { gte: query.since } }),
+  };
+
+  const [predictions, total] = await Promise.all([
+    prisma.prediction.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: query.limit,
+      skip: query.offset,
+      select: predictionSelect,
+    }),
+    prisma.prediction.count({ where }),
+  ]);
+
+  res.status(200).json({
+    data: predictions.map(serializePrediction),
+    pagination: { limit: query.limit, offset: query.offset, total },
+  });
+});
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { prisma } from "@/server/db";
+import { parseQuery, withApiKey } from "@/server/api/v1/handler";
+import { paginationQuery } from "@/server/api/v1/serializers";
+
+const querySchema = z.object({
+  ...paginationQuery,
+  // Latest nightly ranking on or before this day; defaults to the latest
+  date: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/v1/rankings
+ */
+export default withApiKey("rankings:read", async (req, res) => {
+  const query = parseQuery(querySchema, req, res);
+  if (!query) return;
+
+  const latest = await prisma.rankingSnapshot.findFirst({
+    where: query.date ? { snapshotDate: { lte: query.date } } : {},
+    orderBy: { snapshotDate: "desc" },
+    select: { snapshotDate: true },
+  });
+
+  if (!latest) {
+    return res.status(200).json({ date: null, data: [], pagination: { limit: query.limit, offset: query.offset, total: 0 } });
+  }
+
+  const where = { snapshotDate: latest.snapshotDate };
+  const [snapshots, total] = await Promise.all([
+    prisma.rankingSnapshot.findMany({
+      where,
+      orderBy: { rank: "asc" },
+      take: query.limit,
+      skip: query.offset,
+      select: {
+        rank: true,
+        rankingScore: true,
+        accuracy: true,
+        brierScore: true,
+        totalPredictions: true,
+        forecaster: { select: { id: true, name: true, slug: true } },
+      },
+    }),
+    prisma.rankingSnapshot.count({ where }),
+  ]);
+
+  res.status(200).json({
+    date: latest.snapshotDate.toISOString().split("T")[0],
+    data: snapshots,
+    pagination: { limit: query.limit, offset: query.offset, total },
+  });
+});
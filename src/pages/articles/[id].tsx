@@ -494,13 +494,13 @@ const ArticleDetailPage: NextPage = () => {
                       {commentsData?.comments?.map((comment) => (
                         <div key={comment.id} className="flex items-start gap-4">
                           <Avatar className="h-10 w-10">
-                            <AvatarImage src={comment.author.avatarUrl || ''} alt={comment.author.fullName || ''} />
-                            <AvatarFallback>{getAuthorInitials(comment.author.fullName || 'User')}</AvatarFallback>
+                            <AvatarImage src={comment.author?.avatarUrl || ''} alt={comment.author?.fullName || ''} />
+                            <AvatarFallback>{getAuthorInitials(comment.author?.fullName || 'User')}</AvatarFallback>
                           </Avatar>
                           <div className="flex-1">
                             <div className="bg-gray-50 rounded-lg p-4">
                               <div className="flex items-center gap-2 mb-2">
-                                <span className="font-semibold text-sm">{comment.author.fullName}</span>
+                                <span className="font-semibold text-sm">{comment.author ? comment.author.fullName : 'Deleted user'}</span>
                                 <span className="text-xs text-gray-500">
                                   {new Date(comment.createdAt).toLocaleDateString('en-US', {
                                     year: 'numeric',
@@ -523,13 +523,13 @@ const ArticleDetailPage: NextPage = () => {
                                 {comment.replies.map((reply) => (
                                   <div key={reply.id} className="flex items-start gap-3">
                                     <Avatar className="h-8 w-8">
-                                      <AvatarImage src={reply.author.avatarUrl || ''} alt={reply.author.fullName || ''} />
-                                      <AvatarFallback className="text-xs">{getAuthorInitials(reply.author.fullName || 'User')}</AvatarFallback>
+                                      <AvatarImage src={reply.author?.avatarUrl || ''} alt={reply.author?.fullName || ''} />
+                                      <AvatarFallback className="text-xs">{getAuthorInitials(reply.author?.fullName || 'User')}</AvatarFallback>
                                     </Avatar>
                                     <div className="flex-1">
                                       <div className="bg-gray-50 rounded-lg p-3">
                                         <div className="flex items-center gap-2 mb-1">
-                                          <span className="font-semibold text-sm">{reply.author.fullName}</span>
+                                          <span className="font-semibold text-sm">{reply.author ? reply.author.fullName : 'Deleted user'}</span>
                                           <span className="text-xs text-gray-500">
                                             {new Date(reply.createdAt).toLocaleDateString('en-US', {
                                               month: 'short',
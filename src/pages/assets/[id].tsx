@@ -0,0 +1,104 @@
+import { type NextPage } from "next";
+import { useRouter } from "next/router";
+import Head from "next/head";
+import { ArrowLeft, AlertCircle, Bitcoin, DollarSign, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ConsensusPanel } from "@/components/ConsensusPanel";
+import { api } from "@/utils/api";
+
+const AssetDetailPage: NextPage = () => {
+  const router = useRouter();
+  const { id } = router.query;
+
+  const { data: asset, isLoading, error } = api.assets.getById.useQuery(id as string, { enabled: !!id });
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-purple-50 to-indigo-100 flex items-center justify-center">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Asset Not Found</h2>
+            <p className="text-gray-600 mb-4">The asset you're looking for doesn't exist or has been removed.</p>
+            <Button onClick={() => router.push("/predictions")}>Back to Predictions</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !asset) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-purple-50 to-indigo-100 flex items-center justify-center">
+        <div className="animate-pulse space-y-4 w-full max-w-4xl px-4">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-48 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const metadata = asset.metadata as { name?: string | null } | null;
+  const priceData = asset.priceData as { price?: number | null; change24h?: number | null } | null;
+
+  return (
+    <>
+      <Head>
+        <title>{asset.symbol} - Forecaster Consensus</title>
+        <meta name="description" content={`What forecasters expect for ${asset.symbol}`} />
+      </Head>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-purple-50 to-indigo-100 py-8">
+        <div className="container mx-auto px-4 max-w-3xl space-y-6">
+          <Button variant="ghost" onClick={() => router.back()} className="hover:bg-white/50">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+
+          <Card className="bg-white/95 backdrop-blur-xl border-white/20 shadow-xl">
+            <CardContent className="p-6 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  {asset.type === "CRYPTO" ? <Bitcoin className="h-5 w-5" /> : <DollarSign className="h-5 w-5" />}
+                  <h1 className="text-2xl font-bold text-gray-900">{asset.symbol}</h1>
+                  <Badge variant="outline">{asset.type}</Badge>
+                </div>
+                {metadata?.name && <p className="text-gray-600">{metadata.name}</p>}
+              </div>
+              {priceData?.price != null && (
+                <div className="text-right">
+                  <div className="text-2xl font-bold text-gray-900">${Number(priceData.price).toLocaleString()}</div>
+                  {priceData.change24h != null && (
+                    <div className={`text-sm ${priceData.change24h >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {priceData.change24h >= 0 ? "+" : ""}
+                      {Number(priceData.change24h).toFixed(2)}% 24h
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <ConsensusPanel assetId={asset.id} className="bg-white/95 backdrop-blur-xl border-white/20 shadow-xl" />
+
+          <Button
+            className="w-full"
+            variant="outline"
+            onClick={() => router.push(`/predictions?asset=${asset.symbol}`)}
+          >
+            View all {asset._count.predictions} predictions for {asset.symbol}
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AssetDetailPage;
+
+// Force server-side rendering to avoid SSG issues with useRouter in Next.js 16
+export async function getServerSideProps() {
+  return { props: {} };
+}
@@ -1,8 +1,8 @@
 import { type NextPage } from "next";
 import Head from "next/head";
 import Link from "next/link";
-import { useState } from "react";
-import { signIn } from "next-auth/react";
+import { useEffect, useState } from "react";
+import { getProviders, getSession, signIn } from "next-auth/react";
 import { useRouter } from "next/router";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
@@ -28,6 +28,8 @@ import {
   Shield
 } from "lucide-react";
 
+const SUSPENDED_MESSAGE = "This account has been suspended. Contact support if you think this is a mistake.";
+
 const SignIn: NextPage = () => {
   const router = useRouter();
   const [email, setEmail] = useState("");
@@ -36,6 +38,39 @@ const SignIn: NextPage = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [code, setCode] = useState("");
+  const [providers, setProviders] = useState<string[]>([]);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+
+  // Relative paths only, so a crafted link cannot send users off-site
+  const requestedCallback = router.query.callbackUrl;
+  const callbackUrl = typeof requestedCallback === "string" && requestedCallback.startsWith("/") && !requestedCallback.startsWith("//")
+    ? requestedCallback
+    : "/dashboard";
+  const twoFactorCallback = `/auth/two-factor?callbackUrl=${encodeURIComponent(callbackUrl)}`;
+
+  useEffect(() => {
+    void getProviders().then((available) => setProviders(Object.keys(available ?? {})));
+  }, []);
+
+  // NextAuth sends OAuth and magic-link failures back here as ?error=
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (router.query["check-email"]) setMagicLinkSent(true);
+
+    const messages: Record<string, string> = {
+      EmailNotVerified: "Your email isn't verified with that provider. Verify it there, or sign in another way.",
+      OAuthAccountNotLinked: "That account is already connected to a different user.",
+      Verification: "That sign-in link has expired or was already used. Request a new one.",
+      AccessDenied: "Sign-in was cancelled.",
+      AccountSuspended: SUSPENDED_MESSAGE,
+    };
+    const errorCode = router.query.error;
+    if (typeof errorCode === "string") {
+      setError(messages[errorCode] ?? "Sign-in failed. Please try again.");
+    }
+  }, [router.isReady, router.query]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,12 +82,25 @@ const SignIn: NextPage = () => {
         redirect: false,
         email,
         password,
+        ...(twoFactorStep && { code }),
       });
 
-      if (result?.error) {
+      if (result?.error === "TwoFactorRequired") {
+        setTwoFactorStep(true);
+      } else if (result?.error === "AccountSuspended") {
+        setError(SUSPENDED_MESSAGE);
+      } else if (result?.error === "InvalidTwoFactorCode") {
+        setError("That code is not valid. Enter a current code or an unused recovery code.");
+        setCode("");
+      } else if (result?.error === "TwoFactorLocked") {
+        setError("Too many invalid codes. Wait 15 minutes and try again.");
+        setCode("");
+      } else if (result?.error) {
         setError("Invalid email or password. Please try again.");
       } else {
-        router.push("/dashboard");
+        // Accounts whose role requires 2FA are sent to enroll first
+        const session = await getSession();
+        router.push(session?.user.twoFactorSetupRequired ? "/settings/security?setup2fa=1" : callbackUrl);
       }
     } catch (err) {
       setError("An unexpected error occurred. Please try again.");
@@ -61,10 +109,31 @@ const SignIn: NextPage = () => {
     }
   };
 
+  const handleMagicLink = async () => {
+    if (!email) {
+      setError("Enter your email to get a sign-in link.");
+      return;
+    }
+
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await signIn("email", { email, redirect: false, callbackUrl: twoFactorCallback });
+      if (result?.error) {
+        setError("We couldn't send a sign-in link. Please try again.");
+      } else {
+        setMagicLinkSent(true);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSocialSignIn = async (provider: string) => {
     setIsLoading(true);
     try {
-      await signIn(provider, { callbackUrl: "/dashboard" });
+      // Lands on the two-factor step, which moves straight on when no code is needed
+      await signIn(provider, { callbackUrl: twoFactorCallback });
     } catch (err) {
       setError("Failed to sign in with " + provider);
       setIsLoading(false);
@@ -140,6 +209,15 @@ const SignIn: NextPage = () => {
                     </motion.div>
                   )}
 
+                  {magicLinkSent && (
+                    <div className="p-3 rounded-lg bg-green-50 border border-green-200 flex items-start gap-3">
+                      <Mail className="h-5 w-5 text-green-600 mt-0.5" />
+                      <span className="text-sm text-green-800">
+                        Check your inbox{email ? ` at ${email}` : ""} for a sign-in link. It expires in 15 minutes.
+                      </span>
+                    </div>
+                  )}
+
                   {/* Email Input */}
                   <div className="space-y-2">
                     <Label htmlFor="email" className="text-sm font-medium text-gray-700">
@@ -206,6 +284,36 @@ const SignIn: NextPage = () => {
                     </div>
                   </div>
 
+                  {/* Two-Factor Code */}
+                  {twoFactorStep && (
+                    <div className="space-y-2">
+                      <Label htmlFor="code" className="text-sm font-medium text-gray-700">
+                        Authentication code
+                      </Label>
+                      <div className="relative group">
+                        <input
+                          id="code"
+                          type="text"
+                          inputMode="text"
+                          placeholder="6-digit code or recovery code"
+                          value={code}
+                          onChange={(e) => setCode(e.target.value)}
+                          className="w-full h-12 pl-4 pr-12 text-gray-900 bg-gray-50 border border-gray-200 rounded-lg focus:bg-white focus:border-blue-500 focus:outline-none focus:ring-4 focus:ring-blue-500/10 transition-all duration-200 placeholder:text-gray-400 tracking-widest"
+                          required
+                          disabled={isLoading}
+                          autoComplete="one-time-code"
+                          autoFocus
+                        />
+                        <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none">
+                          <Shield className="h-5 w-5 text-gray-400 group-focus-within:text-blue-500 transition-colors" />
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Open your authenticator app, or use one of your recovery codes.
+                      </p>
+                    </div>
+                  )}
+
                   {/* Remember Me & Terms */}
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
@@ -237,7 +345,7 @@ const SignIn: NextPage = () => {
                       </>
                     ) : (
                       <>
-                        Sign In
+                        {twoFactorStep ? "Verify" : "Sign In"}
                         <ArrowRight className="w-5 h-5 ml-2" />
                       </>
                     )}
@@ -255,32 +363,49 @@ const SignIn: NextPage = () => {
 
                   {/* Social Login */}
                   <div className="space-y-3">
-                    <Button
-                      type="button"
-                      variant="outline"
-                      className="w-full h-12 border-gray-200 hover:bg-gray-50 text-gray-700 font-medium group"
-                      onClick={() => handleSocialSignIn("google")}
-                      disabled={isLoading}
-                    >
-                      <svg className="w-5 h-5 mr-3" viewBox="0 0 24 24">
-                        <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-                        <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-                        <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-                        <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-                      </svg>
-                      Continue with Google
-                    </Button>
-
-                    <Button
-                      type="button"
-                      variant="outline"
-                      className="w-full h-12 border-gray-200 hover:bg-gray-50 text-gray-700 font-medium group"
-                      onClick={() => handleSocialSignIn("github")}
-                      disabled={isLoading}
-                    >
-                      <Github className="w-5 h-5 mr-3" />
-                      Continue with GitHub
-                    </Button>
+                    {providers.includes("email") && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full h-12 border-gray-200 hover:bg-gray-50 text-gray-700 font-medium group"
+                        onClick={handleMagicLink}
+                        disabled={isLoading}
+                      >
+                        <Mail className="w-5 h-5 mr-3" />
+                        Email me a sign-in link
+                      </Button>
+                    )}
+
+                    {providers.includes("google") && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full h-12 border-gray-200 hover:bg-gray-50 text-gray-700 font-medium group"
+                        onClick={() => handleSocialSignIn("google")}
+                        disabled={isLoading}
+                      >
+                        <svg className="w-5 h-5 mr-3" viewBox="0 0 24 24">
+                          <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
+                          <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
+                          <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
+                          <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
+                        </svg>
+                        Continue with Google
+                      </Button>
+                    )}
+
+                    {providers.includes("github") && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full h-12 border-gray-200 hover:bg-gray-50 text-gray-700 font-medium group"
+                        onClick={() => handleSocialSignIn("github")}
+                        disabled={isLoading}
+                      >
+                        <Github className="w-5 h-5 mr-3" />
+                        Continue with GitHub
+                      </Button>
+                    )}
                   </div>
 
                   {/* Sign Up Link */}
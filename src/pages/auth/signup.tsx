@@ -1,11 +1,12 @@
 import { type NextPage } from "next";
 import Head from "next/head";
 import Link from "next/link";
-import { useState } from "react";
-import { signIn } from "next-auth/react";
+import { useEffect, useState } from "react";
+import { getProviders, signIn } from "next-auth/react";
 import { useRouter } from "next/router";
 import { api } from "@/utils/api";
 import { motion } from "framer-motion";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -61,6 +62,8 @@ const SignUp: NextPage = () => {
 
   const registerMutation = api.auth.register.useMutation({
     onSuccess: async () => {
+      toast.success(`We sent a verification link to ${email}`);
+
       // Auto sign in after registration
       const result = await signIn("credentials", {
         redirect: false,
@@ -102,10 +105,16 @@ const SignUp: NextPage = () => {
     setIsLoading(false);
   };
 
+  const [providers, setProviders] = useState<string[]>([]);
+
+  useEffect(() => {
+    void getProviders().then((available) => setProviders(Object.keys(available ?? {})));
+  }, []);
+
   const handleSocialSignUp = async (provider: string) => {
     setIsLoading(true);
     try {
-      await signIn(provider, { callbackUrl: "/dashboard" });
+      await signIn(provider, { callbackUrl: "/auth/two-factor" });
     } catch (err) {
       setError("Failed to sign up with " + provider);
       setIsLoading(false);
@@ -351,45 +360,53 @@ const SignUp: NextPage = () => {
                     )}
                   </Button>
 
-                  {/* Divider */}
-                  <div className="relative">
-                    <div className="absolute inset-0 flex items-center">
-                      <div className="w-full border-t border-gray-200"></div>
-                    </div>
-                    <div className="relative flex justify-center text-xs uppercase">
-                      <span className="px-4 bg-white text-gray-500 tracking-wider">Or</span>
-                    </div>
-                  </div>
+                  {(providers.includes("google") || providers.includes("github")) && (
+                    <>
+                      {/* Divider */}
+                      <div className="relative">
+                        <div className="absolute inset-0 flex items-center">
+                          <div className="w-full border-t border-gray-200"></div>
+                        </div>
+                        <div className="relative flex justify-center text-xs uppercase">
+                          <span className="px-4 bg-white text-gray-500 tracking-wider">Or</span>
+                        </div>
+                      </div>
 
-                  {/* Social Login */}
-                  <div className="space-y-3">
-                    <Button
-                      type="button"
-                      variant="outline"
-                      className="w-full h-12 border-gray-200 hover:bg-gray-50 text-gray-700 font-medium group"
-                      onClick={() => handleSocialSignUp("google")}
-                      disabled={isLoading || registerMutation.isPending}
-                    >
-                      <svg className="w-5 h-5 mr-3" viewBox="0 0 24 24">
-                        <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-                        <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-                        <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-                        <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-                      </svg>
-                      Continue with Google
-                    </Button>
-
-                    <Button
-                      type="button"
-                      variant="outline"
-                      className="w-full h-12 border-gray-200 hover:bg-gray-50 text-gray-700 font-medium group"
-                      onClick={() => handleSocialSignUp("github")}
-                      disabled={isLoading || registerMutation.isPending}
-                    >
-                      <Github className="w-5 h-5 mr-3" />
-                      Continue with GitHub
-                    </Button>
-                  </div>
+                      {/* Social Login */}
+                      <div className="space-y-3">
+                        {providers.includes("google") && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="w-full h-12 border-gray-200 hover:bg-gray-50 text-gray-700 font-medium group"
+                            onClick={() => handleSocialSignUp("google")}
+                            disabled={isLoading || registerMutation.isPending}
+                          >
+                            <svg className="w-5 h-5 mr-3" viewBox="0 0 24 24">
+                              <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
+                              <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
+                              <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
+                              <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
+                            </svg>
+                            Continue with Google
+                          </Button>
+                        )}
+
+                        {providers.includes("github") && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="w-full h-12 border-gray-200 hover:bg-gray-50 text-gray-700 font-medium group"
+                            onClick={() => handleSocialSignUp("github")}
+                            disabled={isLoading || registerMutation.isPending}
+                          >
+                            <Github className="w-5 h-5 mr-3" />
+                            Continue with GitHub
+                          </Button>
+                        )}
+                      </div>
+                    </>
+                  )}
 
                   {/* Sign In Link */}
                   <p className="text-center text-sm text-gray-600">
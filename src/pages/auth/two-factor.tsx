@@ -0,0 +1,151 @@
+"use client";
+
+import { type NextPage } from "next";
+import { useEffect, useState } from "react";
+import Head from "next/head";
+import { useRouter } from "next/router";
+import { signOut, useSession } from "next-auth/react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowRight, Loader2, Shield } from "lucide-react";
+
+/**
+ * Landing page after OAuth and magic-link sign-in. Accounts with 2FA enter
+ * their code here; everyone else is sent straight on.
+ */
+const TwoFactorPage: NextPage = () => {
+  const router = useRouter();
+  const { data: session, status, update } = useSession();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const pending = session?.user.twoFactorPending ?? false;
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      void router.replace("/auth/signin");
+    } else if (status === "authenticated" && !pending) {
+      const next = typeof router.query.callbackUrl === "string" ? router.query.callbackUrl : "/dashboard";
+      void router.replace(session?.user.twoFactorSetupRequired ? "/settings/security?setup2fa=1" : next);
+    }
+  }, [status, pending, session, router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const updated = await update({ twoFactorCode: code });
+      if (updated?.user.twoFactorPending) {
+        setError("That code is not valid. Enter a current code or an unused recovery code. After too many wrong codes, wait 15 minutes.");
+        setCode("");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: {
+        duration: 0.6,
+        staggerChildren: 0.1
+      }
+    }
+  };
+
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: { duration: 0.5 }
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Two-Factor Authentication - Prediction Prism Analytics</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <motion.div
+        className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 flex items-center justify-center px-4"
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+      >
+        <motion.div
+          className="w-full max-w-md"
+          variants={itemVariants}
+        >
+          <Card className="shadow-xl bg-white/90 backdrop-blur-xl border-white/20">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl font-bold">Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                Enter the code from your authenticator app to finish signing in.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!pending ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {error && (
+                    <p className="text-sm text-red-600">{error}</p>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="code">Authentication code</Label>
+                    <div className="relative">
+                      <Shield className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="code"
+                        placeholder="6-digit code or recovery code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        className="pl-10 tracking-widest"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        required
+                        disabled={isLoading}
+                      />
+                    </div>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white"
+                    disabled={isLoading || !code}
+                  >
+                    {isLoading ? "Verifying..." : "Verify"}
+                    {!isLoading && <ArrowRight className="ml-2 h-4 w-4" />}
+                  </Button>
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="w-full"
+                    onClick={() => void signOut({ callbackUrl: "/auth/signin" })}
+                  >
+                    Cancel and sign out
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </motion.div>
+    </>
+  );
+};
+
+export default TwoFactorPage;
@@ -0,0 +1,119 @@
+"use client";
+
+import { type NextPage } from "next";
+import { useEffect, useRef } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { motion } from "framer-motion";
+import { api } from "@/utils/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, ArrowRight, CheckCircle, Loader2 } from "lucide-react";
+
+/**
+ * Target of the link in the verification email
+ */
+const VerifyEmailPage: NextPage = () => {
+  const router = useRouter();
+  const verifyEmail = api.auth.verifyEmail.useMutation();
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!router.isReady || submitted.current) return;
+    const { token } = router.query;
+    if (typeof token === "string") {
+      submitted.current = true;
+      verifyEmail.mutate({ token });
+    }
+  }, [router.isReady, router.query, verifyEmail]);
+
+  const missingToken = router.isReady && typeof router.query.token !== "string";
+
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: {
+        duration: 0.6,
+        staggerChildren: 0.1
+      }
+    }
+  };
+
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: { duration: 0.5 }
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Verify Email - Prediction Prism Analytics</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <motion.div
+        className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 flex items-center justify-center px-4"
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+      >
+        <motion.div
+          className="w-full max-w-md"
+          variants={itemVariants}
+        >
+          <Card className="shadow-xl bg-white/90 backdrop-blur-xl border-white/20">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl font-bold">Verify Email</CardTitle>
+              <CardDescription>
+                Confirming the address on your account
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              {verifyEmail.isSuccess ? (
+                <>
+                  <CheckCircle className="h-12 w-12 mx-auto text-green-600" />
+                  <p className="text-gray-700">
+                    Your email address is verified. You can now comment and save bookmarks.
+                  </p>
+                  <Button
+                    asChild
+                    className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white"
+                  >
+                    <Link href="/dashboard">
+                      Go to Dashboard
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </Link>
+                  </Button>
+                </>
+              ) : verifyEmail.isError || missingToken ? (
+                <>
+                  <AlertCircle className="h-12 w-12 mx-auto text-red-600" />
+                  <p className="text-gray-700">
+                    {verifyEmail.error?.message ?? "This verification link is incomplete."}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Request a new link from Settings → Security.
+                  </p>
+                  <Button asChild variant="outline" className="w-full">
+                    <Link href="/settings/security">Go to Settings</Link>
+                  </Button>
+                </>
+              ) : (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </motion.div>
+    </>
+  );
+};
+
+export default VerifyEmailPage;
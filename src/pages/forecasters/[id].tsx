@@ -12,6 +12,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { RankMovement, RankSparkline } from "@/components/RankSparkline";
+import { ForecasterAnalyticsPanel } from "@/components/ForecasterAnalytics";
 import {
   ArrowLeft,
   TrendingUp,
@@ -47,6 +49,17 @@ const ForecasterDetailPage: NextPage = () => {
     { enabled: !!id }
   );
 
+  const { data: rankHistory } = api.statistics.getRankHistory.useQuery(
+    { forecasterId: id as string, days: 90 },
+    { enabled: !!id }
+  );
+
+  const rankSeries = rankHistory?.map(point => point.rank) ?? [];
+  const currentRank = rankSeries[rankSeries.length - 1];
+  const rankMovement = rankSeries.length >= 2
+    ? rankSeries[rankSeries.length - 2]! - rankSeries[rankSeries.length - 1]!
+    : null;
+
   // Predictions are included in the forecaster data
   const predictionsData: any = null; // Removed separate predictions query as it doesn't exist
 
@@ -287,9 +300,10 @@ const ForecasterDetailPage: NextPage = () => {
             {/* Tabs Section */}
             <motion.div variants={itemVariants}>
               <Tabs defaultValue="predictions" className="space-y-6">
-                <TabsList className="grid w-full grid-cols-3 lg:w-[400px]">
+                <TabsList className="grid w-full grid-cols-4 lg:w-[520px]">
                   <TabsTrigger value="predictions">Predictions</TabsTrigger>
                   <TabsTrigger value="performance">Performance</TabsTrigger>
+                  <TabsTrigger value="analytics">Analytics</TabsTrigger>
                   <TabsTrigger value="insights">Insights</TabsTrigger>
                 </TabsList>
 
@@ -432,6 +446,26 @@ const ForecasterDetailPage: NextPage = () => {
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-6">
+                        {/* Rank History */}
+                        <div className="bg-gray-50 rounded-lg p-6">
+                          <div className="flex items-center justify-between mb-4">
+                            <h4 className="font-semibold text-gray-900">Rank History (90 days)</h4>
+                            <div className="flex items-center gap-3">
+                              <span className="text-2xl font-bold text-gray-900">
+                                {currentRank !== undefined ? `#${currentRank}` : 'Unranked'}
+                              </span>
+                              {currentRank !== undefined && <RankMovement movement={rankMovement} />}
+                            </div>
+                          </div>
+                          <RankSparkline ranks={rankSeries} width={600} height={80} className="w-full" />
+                          {rankHistory && rankHistory.length >= 2 && (
+                            <div className="flex justify-between text-xs text-gray-500 mt-2">
+                              <span>{rankHistory[0]!.date}</span>
+                              <span>{rankHistory[rankHistory.length - 1]!.date}</span>
+                            </div>
+                          )}
+                        </div>
+
                         {/* Performance Chart */}
                         <div className="bg-gray-50 rounded-lg p-6">
                           <h4 className="font-semibold mb-4 text-gray-900">Accuracy Trend</h4>
@@ -485,6 +519,23 @@ const ForecasterDetailPage: NextPage = () => {
                   </Card>
                 </TabsContent>
 
+                {/* Analytics Tab */}
+                <TabsContent value="analytics">
+                  <Card className="shadow-xl bg-white/90 backdrop-blur-xl border-white/20">
+                    <CardHeader>
+                      <CardTitle>Segment Analytics</CardTitle>
+                      <CardDescription>Accuracy, calibration and returns by asset, horizon, direction, market regime and source</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {forecaster ? (
+                        <ForecasterAnalyticsPanel forecasterId={forecaster.id} />
+                      ) : (
+                        <p className="text-sm text-gray-500">Analytics appear once this forecaster has tracked predictions.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
                 {/* Insights Tab */}
                 <TabsContent value="insights">
                   <Card className="shadow-xl bg-white/90 backdrop-blur-xl border-white/20">
@@ -39,7 +39,12 @@ import {
   Zap
 } from "lucide-react";
 import { formatDate } from "@/lib/utils";
-import { useMarketSentiment } from "@/hooks/useMarketSentiment";
+import {
+  MARKET_REGIMES,
+  MARKET_REGIME_LABELS,
+  useMarketSentiment,
+  type MarketRegime,
+} from "@/hooks/useMarketSentiment";
 
 const PredictionsPage: NextPage = () => {
   const [searchQuery, setSearchQuery] = useState("");
@@ -48,12 +53,15 @@ const PredictionsPage: NextPage = () => {
   const [confidenceFilter, setConfidenceFilter] = useState("all");
   const [forecasterFilter, setForecasterFilter] = useState("all");
   const [timeframeFilter, setTimeframeFilter] = useState("all");
+  const [regimeFilter, setRegimeFilter] = useState<MarketRegime | "all">("all");
   const [sortBy, setSortBy] = useState("created_at");
   const [sortOrder, setSortOrder] = useState("desc");
 
   // Fetch predictions using tRPC with fallback
   const { data, isLoading, error, refetch } = api.predictions.getAll.useQuery({
-    limit: 100
+    limit: 100,
+    // Filtered on the server so the regime isn't limited to the latest 100 predictions
+    marketRegime: regimeFilter === "all" ? undefined : regimeFilter
   }, {
     retry: 1
   });
@@ -273,12 +281,14 @@ const PredictionsPage: NextPage = () => {
     setConfidenceFilter("all");
     setForecasterFilter("all");
     setTimeframeFilter("all");
+    setRegimeFilter("all");
     setSortBy("created_at");
     setSortOrder("desc");
   };
 
   const hasActiveFilters = searchQuery || outcomeFilter !== "all" || assetFilter !== "all" ||
-    confidenceFilter !== "all" || forecasterFilter !== "all" || timeframeFilter !== "all";
+    confidenceFilter !== "all" || forecasterFilter !== "all" || timeframeFilter !== "all" ||
+    regimeFilter !== "all";
 
   const getOutcomeColor = (outcome: string) => {
     switch (outcome) {
@@ -289,6 +299,7 @@ const PredictionsPage: NextPage = () => {
       case "PENDING":
         return "bg-yellow-100 text-yellow-700 border-yellow-200";
       case "PARTIAL":
+      case "PARTIALLY_CORRECT":
         return "bg-orange-100 text-orange-700 border-orange-200";
       default:
         return "bg-gray-100 text-gray-700 border-gray-200";
@@ -592,6 +603,18 @@ const PredictionsPage: NextPage = () => {
                 <option value="quarter">Next Quarter</option>
               </select>
 
+              {/* Market Regime Filter */}
+              <select
+                value={regimeFilter}
+                onChange={(e) => setRegimeFilter(e.target.value as MarketRegime | "all")}
+                className="px-4 py-2 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All Market Regimes</option>
+                {MARKET_REGIMES.map(regime => (
+                  <option key={regime} value={regime}>Made in {MARKET_REGIME_LABELS[regime]}</option>
+                ))}
+              </select>
+
               {/* Sort By */}
               <select
                 value={sortBy}
@@ -649,6 +672,11 @@ const PredictionsPage: NextPage = () => {
                       Timeframe: {timeframeFilter}
                     </Badge>
                   )}
+                  {regimeFilter !== "all" && (
+                    <Badge variant="outline" className="bg-slate-50">
+                      Regime: {MARKET_REGIME_LABELS[regimeFilter]}
+                    </Badge>
+                  )}
                 </div>
                 <span className="text-gray-600">• {filteredPredictions.length} results</span>
               </div>
@@ -790,6 +818,15 @@ const PredictionsPage: NextPage = () => {
                                 {getOutcomeIcon(prediction.outcome)}
                                 <span className="ml-1">{prediction.outcome}</span>
                               </Badge>
+                              {prediction.marketRegime && (
+                                <Badge
+                                  variant="outline"
+                                  className="bg-slate-50 text-slate-600 border-slate-200"
+                                  title={`Fear & Greed ${prediction.sentimentScore ?? "?"} on the day this was made`}
+                                >
+                                  {MARKET_REGIME_LABELS[prediction.marketRegime as MarketRegime] ?? prediction.marketRegime}
+                                </Badge>
+                              )}
                               {isOverdue && (
                                 <Badge className="bg-red-100 text-red-700 border-red-200 animate-pulse">
                                   <AlertCircle className="h-3 w-3 mr-1" />
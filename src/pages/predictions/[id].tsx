@@ -10,6 +10,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { api } from "@/utils/api";
+import { ConsensusPanel } from "@/components/ConsensusPanel";
+import { PricePathChart } from "@/components/PricePathChart";
 import { formatDate } from "@/lib/utils";
 import {
   ArrowLeft,
@@ -52,6 +54,7 @@ const PredictionDetailPage: NextPage = () => {
       case "PENDING":
         return "bg-yellow-100 text-yellow-700 border-yellow-200";
       case "PARTIAL":
+      case "PARTIALLY_CORRECT":
         return "bg-orange-100 text-orange-700 border-orange-200";
       default:
         return "bg-gray-100 text-gray-700 border-gray-200";
@@ -175,14 +178,16 @@ const PredictionDetailPage: NextPage = () => {
                           </Badge>
                         )}
                         {prediction.asset && (
-                          <Badge variant="outline" className="bg-finance-50 text-finance-700 border-finance-200">
-                            {prediction.asset.type === "CRYPTO" ? (
-                              <Bitcoin className="h-3 w-3 mr-1" />
-                            ) : (
-                              <DollarSign className="h-3 w-3 mr-1" />
-                            )}
-                            {prediction.asset.symbol}
-                          </Badge>
+                          <Link href={`/assets/${prediction.asset.id}`}>
+                            <Badge variant="outline" className="bg-finance-50 text-finance-700 border-finance-200 hover:bg-finance-100">
+                              {prediction.asset.type === "CRYPTO" ? (
+                                <Bitcoin className="h-3 w-3 mr-1" />
+                              ) : (
+                                <DollarSign className="h-3 w-3 mr-1" />
+                              )}
+                              {prediction.asset.symbol}
+                            </Badge>
+                          </Link>
                         )}
                       </div>
                       <h1 className="text-2xl lg:text-3xl font-bold text-gray-900 mb-2">
@@ -213,6 +218,11 @@ const PredictionDetailPage: NextPage = () => {
                 </CardHeader>
               </Card>
 
+              <PricePathChart
+                predictionId={prediction.id}
+                className="bg-white/95 backdrop-blur-xl border-white/20 shadow-xl"
+              />
+
               {/* Prediction Details Card */}
               <Card className="bg-white/95 backdrop-blur-xl border-white/20 shadow-xl">
                 <CardHeader>
@@ -345,6 +355,14 @@ const PredictionDetailPage: NextPage = () => {
                 </CardContent>
               </Card>
 
+              {prediction.asset && (
+                <ConsensusPanel
+                  assetId={prediction.asset.id}
+                  predictionId={prediction.id}
+                  className="bg-white/95 backdrop-blur-xl border-white/20 shadow-xl"
+                />
+              )}
+
               {/* Related Predictions */}
               <Card className="bg-white/95 backdrop-blur-xl border-white/20 shadow-xl">
                 <CardHeader>
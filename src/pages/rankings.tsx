@@ -10,6 +10,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { RankMovement, RankSparkline } from "@/components/RankSparkline";
+import { MARKET_REGIMES, MARKET_REGIME_LABELS, type MarketRegime } from "@/hooks/useMarketSentiment";
 import {
   TrendingUp,
   TrendingDown,
@@ -33,8 +35,9 @@ import {
 
 const Rankings: NextPage = () => {
   const [searchTerm, setSearchTerm] = useState("");
-  const [sortBy, setSortBy] = useState<"accuracy" | "predictions" | "performance">("accuracy");
+  const [sortBy, setSortBy] = useState<"accuracy" | "predictions" | "performance" | "alpha">("accuracy");
   const [timeFrame, setTimeFrame] = useState<"7d" | "30d" | "90d" | "1y">("30d");
+  const [regime, setRegime] = useState<MarketRegime | "all">("all");
 
   // Fetch real data from database
   const { data: rankingsStats } = api.statistics.getRankingsStats.useQuery(
@@ -56,6 +59,15 @@ const Rankings: NextPage = () => {
     }
   );
 
+  // Accuracy split by the Fear & Greed regime each call was made in
+  const { data: regimeAccuracy } = api.statistics.getAccuracyByRegime.useQuery(
+    { forecasterIds: forecasters?.map(f => f.id) ?? [] },
+    {
+      enabled: !isLoading,
+      refetchInterval: 30000,
+    }
+  );
+
   const mockForecasters = [
     {
       id: 1,
@@ -279,7 +291,7 @@ const Rankings: NextPage = () => {
               className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 shadow-xl border border-white/20 mb-8"
               variants={itemVariants}
             >
-              <div className="grid md:grid-cols-4 gap-4">
+              <div className="grid md:grid-cols-5 gap-4">
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                   <Input
@@ -297,6 +309,7 @@ const Rankings: NextPage = () => {
                   <option value="accuracy">Sort by Accuracy</option>
                   <option value="predictions">Sort by Predictions</option>
                   <option value="performance">Sort by Performance</option>
+                  <option value="alpha">Sort by Alpha vs. Market</option>
                 </select>
                 <select
                   value={timeFrame}
@@ -308,6 +321,16 @@ const Rankings: NextPage = () => {
                   <option value="90d">Last 90 Days</option>
                   <option value="1y">Last Year</option>
                 </select>
+                <select
+                  value={regime}
+                  onChange={(e) => setRegime(e.target.value as MarketRegime | "all")}
+                  className="px-3 py-2 border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">Any Market Regime</option>
+                  {MARKET_REGIMES.map(r => (
+                    <option key={r} value={r}>Accuracy in {MARKET_REGIME_LABELS[r]}</option>
+                  ))}
+                </select>
                 <Button variant="outline" className="flex items-center gap-2">
                   <Filter className="h-4 w-4" />
                   More Filters
@@ -315,6 +338,42 @@ const Rankings: NextPage = () => {
               </div>
             </motion.div>
 
+            {/* Accuracy by Market Regime */}
+            {regimeAccuracy && regimeAccuracy.overall.some(r => r.total > 0) && (
+              <motion.div variants={itemVariants}>
+                <Card className="shadow-xl bg-white/90 backdrop-blur-xl border border-white/20">
+                  <CardHeader>
+                    <CardTitle>Accuracy by Market Regime</CardTitle>
+                    <CardDescription>
+                      How calls fared depending on the Fear &amp; Greed Index on the day they were made
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                      {regimeAccuracy.overall.map(r => (
+                        <button
+                          key={r.regime}
+                          type="button"
+                          onClick={() => setRegime(regime === r.regime ? "all" : r.regime)}
+                          className={`rounded-lg border p-4 text-center transition-colors ${
+                            regime === r.regime ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:bg-gray-50"
+                          }`}
+                        >
+                          <div className="text-sm text-gray-600">{MARKET_REGIME_LABELS[r.regime]}</div>
+                          <div className="text-2xl font-bold text-gray-900">
+                            {r.accuracy !== null ? `${r.accuracy}%` : "—"}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {r.correct + r.partiallyCorrect + r.incorrect} resolved • {r.pending} pending
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            )}
+
             {/* Rankings List */}
             <motion.div
               className="space-y-4 mb-12"
@@ -331,7 +390,7 @@ const Rankings: NextPage = () => {
                   whileHover={{ scale: 1.02 }}
                   layout
                 >
-                  <div className="grid md:grid-cols-6 gap-6 items-center">
+                  <div className="grid md:grid-cols-7 gap-6 items-center">
                     {/* Rank and Avatar */}
                     <div className="flex items-center gap-4">
                       <div className="text-3xl font-bold text-gray-400">#{index + 1}</div>
@@ -379,6 +438,16 @@ const Rankings: NextPage = () => {
                       <div className="text-sm text-gray-600 mt-1">
                         {forecaster.correctPredictions}/{forecaster.totalPredictions}
                       </div>
+                      {regime !== "all" && (() => {
+                        const inRegime = regimeAccuracy?.byForecaster[String(forecaster.id)]?.find(r => r.regime === regime);
+                        return (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {inRegime?.accuracy != null
+                              ? `${inRegime.accuracy}% in ${MARKET_REGIME_LABELS[regime]}`
+                              : `No resolved calls in ${MARKET_REGIME_LABELS[regime]}`}
+                          </div>
+                        );
+                      })()}
                     </div>
 
                     <div className="text-center">
@@ -390,6 +459,25 @@ const Rankings: NextPage = () => {
                       </div>
                     </div>
 
+                    {'alpha' in forecaster && forecaster.alpha !== null && (
+                      <div className="text-center" title={`Beat the benchmark on ${forecaster.alphaBeatRate}% of ${forecaster.alphaPredictions} scored calls`}>
+                        <div className={`text-lg font-bold ${forecaster.alpha >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {forecaster.alpha >= 0 ? '+' : ''}{forecaster.alpha.toFixed(1)}pp
+                        </div>
+                        <div className="text-xs text-gray-500">Alpha</div>
+                        <div className="text-sm text-gray-600 mt-1">
+                          {forecaster.alphaBeatRate}% beat market
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Rank Movement */}
+                    <div className="flex flex-col items-center gap-1">
+                      <RankMovement movement={'rankMovement' in forecaster ? forecaster.rankMovement : null} />
+                      <RankSparkline ranks={'rankHistory' in forecaster ? forecaster.rankHistory : []} />
+                      <div className="text-xs text-gray-500">30d rank</div>
+                    </div>
+
                     {/* Actions */}
                     <div className="flex flex-col gap-2">
                       <Button size="sm" className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white">
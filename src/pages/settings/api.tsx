@@ -0,0 +1,215 @@
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { ArrowLeft, Check, Copy, FileCode, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { api, type RouterInputs } from "@/utils/api";
+import { formatDate } from "@/lib/utils";
+
+type Scope = RouterInputs["apiKeys"]["create"]["scopes"][number];
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  "forecasters:read": "Forecaster profiles and metrics",
+  "predictions:read": "Predictions and their outcomes",
+  "rankings:read": "Nightly leaderboard",
+  "consensus:read": "Asset consensus",
+};
+
+const ApiSettings: NextPage = () => {
+  const utils = api.useContext();
+  const { data: keys, isLoading, error } = api.apiKeys.list.useQuery();
+  const { data: options } = api.apiKeys.getOptions.useQuery();
+
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Scope[]>(["predictions:read", "forecasters:read"]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const createKey = api.apiKeys.create.useMutation({
+    onSuccess: (result) => {
+      setCreatedKey(result.key);
+      setCopied(false);
+      setName("");
+      void utils.apiKeys.list.invalidate();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const revokeKey = api.apiKeys.revoke.useMutation({
+    onSuccess: () => {
+      toast.success("API key revoked");
+      void utils.apiKeys.list.invalidate();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const toggleScope = (scope: Scope, checked: boolean) =>
+    setScopes(current => (checked ? [...current, scope] : current.filter(s => s !== scope)));
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>API Access - Settings</title>
+        <meta name="description" content="Manage API keys for programmatic access to forecasters, predictions, rankings and consensus." />
+      </Head>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100">
+        <div className="container mx-auto px-4 py-16 max-w-4xl space-y-8">
+          <div>
+            <Button variant="ghost" className="mb-4" asChild>
+              <Link href="/settings">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Settings
+              </Link>
+            </Button>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">API Access</h1>
+            <p className="text-gray-600">
+              Keys for the REST API at <code className="text-sm">/api/v1</code>. Send a key as{" "}
+              <code className="text-sm">Authorization: Bearer &lt;key&gt;</code>.{" "}
+              <Link href="/api/v1/openapi.json" className="text-blue-600 hover:underline inline-flex items-center gap-1">
+                <FileCode className="h-4 w-4" />
+                OpenAPI document
+              </Link>
+            </p>
+          </div>
+
+          {createdKey && (
+            <Card className="border-green-300 bg-green-50">
+              <CardHeader>
+                <CardTitle className="text-lg">Your new API key</CardTitle>
+                <CardDescription>Copy it now. It won&apos;t be shown again.</CardDescription>
+              </CardHeader>
+              <CardContent className="flex gap-2">
+                <Input readOnly value={createdKey} className="font-mono text-sm bg-white" />
+                <Button variant="outline" onClick={() => void copyKey()}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+                <Button variant="ghost" onClick={() => setCreatedKey(null)}>
+                  Done
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="shadow-xl bg-white/90 backdrop-blur-xl border border-white/20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plus className="h-5 w-5" />
+                Create a key
+              </CardTitle>
+              <CardDescription>
+                {options?.plans.PREMIUM
+                  ? `Premium keys allow ${options.plans.PREMIUM.perMinute} requests per minute and ${options.plans.PREMIUM.monthly.toLocaleString()} per month each.`
+                  : "API keys are available on the Premium plan."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="key-name">Name</Label>
+                <Input id="key-name" placeholder="e.g. Research notebook" value={name} maxLength={60} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                <div className="grid sm:grid-cols-2 gap-2">
+                  {(options?.scopes ?? (Object.keys(SCOPE_LABELS) as Scope[])).map(scope => (
+                    <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <Checkbox checked={scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked === true)} />
+                      <span>
+                        <code>{scope}</code>
+                        <span className="block text-xs text-gray-500">{SCOPE_LABELS[scope]}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <Button
+                disabled={!name.trim() || scopes.length === 0 || createKey.isPending}
+                onClick={() => createKey.mutate({ name, scopes })}
+              >
+                {createKey.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                Create key
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-xl bg-white/90 backdrop-blur-xl border border-white/20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Your keys
+              </CardTitle>
+              <CardDescription>
+                Usage against each key&apos;s quota is on the <Link href="/settings/billing" className="text-blue-600 hover:underline">billing page</Link>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+                </div>
+              ) : error ? (
+                <p className="text-sm text-gray-500">Sign in to manage API keys.</p>
+              ) : !keys?.length ? (
+                <p className="text-sm text-gray-500">No API keys yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {keys.map(key => (
+                    <div key={key.id} className={`p-4 border rounded-lg flex flex-wrap items-center justify-between gap-3 ${key.revokedAt ? "opacity-60" : ""}`}>
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-gray-900">{key.name}</span>
+                          <code className="text-xs text-gray-500">{key.prefix}…</code>
+                          {key.revokedAt && <Badge className="bg-gray-100 text-gray-700">Revoked</Badge>}
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {key.scopes.map(scope => (
+                            <Badge key={scope} variant="outline" className="text-xs">
+                              {scope}
+                            </Badge>
+                          ))}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          Created {formatDate(key.createdAt)} · {key.lastUsedAt ? `last used ${formatDate(key.lastUsedAt)}` : "never used"}
+                        </div>
+                      </div>
+                      {!key.revokedAt && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          disabled={revokeKey.isPending}
+                          onClick={() => {
+                            if (confirm(`Revoke "${key.name}"? Requests using it will start failing immediately.`)) {
+                              revokeKey.mutate({ id: key.id });
+                            }
+                          }}
+                        >
+                          <Trash2 className="mr-1 h-4 w-4" />
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ApiSettings;
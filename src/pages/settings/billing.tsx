@@ -8,6 +8,7 @@ import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { api } from "@/utils/api";
 import {
   CreditCard,
   ArrowLeft,
@@ -90,12 +91,17 @@ const BillingSettings: NextPage = () => {
     }
   ]);
 
+  // Metered per key; each key has its own monthly quota
+  const { data: apiUsage } = api.apiKeys.getUsage.useQuery();
+  const apiQuota = apiUsage?.plan?.monthly ?? null;
+  const activeApiKeys = apiUsage?.keys.filter(key => !key.revoked) ?? [];
+  const busiestKey = apiUsage?.keys.reduce<(typeof apiUsage.keys)[number] | null>(
+    (busiest, key) => (!busiest || key.requests > busiest.requests ? key : busiest),
+    null
+  );
+  const apiPercentage = apiQuota && busiestKey ? Math.min(100, Math.round((busiestKey.requests / apiQuota) * 100)) : 0;
+
   const [usage] = useState({
-    apiCalls: {
-      current: 8567,
-      limit: 50000,
-      percentage: 17
-    },
     forecasters: {
       current: 145,
       limit: "unlimited"
@@ -284,16 +290,39 @@ const BillingSettings: NextPage = () => {
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-sm font-medium text-gray-700">API Calls</span>
                         <span className="text-sm text-gray-600">
-                          {usage.apiCalls.current.toLocaleString()} / {usage.apiCalls.limit.toLocaleString()}
+                          {(apiUsage?.requests ?? 0).toLocaleString()}
+                          {apiQuota !== null && ` / ${apiQuota.toLocaleString()} per key`}
                         </span>
                       </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
-                        <div
-                          className="bg-blue-500 h-2 rounded-full transition-all duration-500"
-                          style={{ width: `${usage.apiCalls.percentage}%` }}
-                        />
-                      </div>
-                      <p className="text-xs text-gray-500">{usage.apiCalls.percentage}% of limit used</p>
+                      {apiQuota !== null ? (
+                        <>
+                          <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                            <div
+                              className="bg-blue-500 h-2 rounded-full transition-all duration-500"
+                              style={{ width: `${apiPercentage}%` }}
+                            />
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {busiestKey ? `${apiPercentage}% of quota used by ${busiestKey.name}` : "No API keys yet"}
+                            {apiUsage && apiUsage.rejected > 0 && ` · ${apiUsage.rejected.toLocaleString()} requests rejected`}
+                          </p>
+                          {activeApiKeys.length > 1 && (
+                            <div className="mt-2 space-y-1">
+                              {activeApiKeys.map(key => (
+                                <div key={key.id} className="flex justify-between text-xs text-gray-500">
+                                  <span>{key.name}</span>
+                                  <span>{key.requests.toLocaleString()}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          <Link href="/settings/api" className="text-xs text-blue-600 hover:underline">
+                            Manage API keys
+                          </Link>
+                        </>
+                      ) : (
+                        <p className="text-xs text-gray-500">API access is included with Premium.</p>
+                      )}
                     </div>
                     <div>
                       <div className="flex items-center justify-between mb-2">
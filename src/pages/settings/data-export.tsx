@@ -0,0 +1,113 @@
+"use client";
+
+import { type NextPage } from "next";
+import { useEffect } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useSession } from "next-auth/react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, Download, Loader2 } from "lucide-react";
+
+/**
+ * Target of the link in the "data export ready" email. The archive is only
+ * served to its owner, so the user signs in first if needed.
+ */
+const DataExportPage: NextPage = () => {
+  const router = useRouter();
+  const { status } = useSession();
+
+  useEffect(() => {
+    if (router.isReady && status === "unauthenticated") {
+      void router.replace(`/auth/signin?callbackUrl=${encodeURIComponent(router.asPath)}`);
+    }
+  }, [router, status]);
+
+  const token = typeof router.query.token === "string" ? router.query.token : null;
+
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: {
+        duration: 0.6,
+        staggerChildren: 0.1
+      }
+    }
+  };
+
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: { duration: 0.5 }
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Download Your Data - Prediction Prism Analytics</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <motion.div
+        className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 flex items-center justify-center px-4"
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+      >
+        <motion.div
+          className="w-full max-w-md"
+          variants={itemVariants}
+        >
+          <Card className="shadow-xl bg-white/90 backdrop-blur-xl border-white/20">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl font-bold">Download Your Data</CardTitle>
+              <CardDescription>
+                A ZIP archive of your profile, settings, activity and comments
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              {status !== "authenticated" || !router.isReady ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+                </div>
+              ) : token ? (
+                <>
+                  <p className="text-gray-700">
+                    Your archive is ready. The files are JSON and can be opened with any text editor.
+                  </p>
+                  <Button
+                    asChild
+                    className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white"
+                  >
+                    <a href={`/api/account/export?token=${encodeURIComponent(token)}`}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Download Archive
+                    </a>
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <AlertCircle className="h-12 w-12 mx-auto text-red-600" />
+                  <p className="text-gray-700">This download link is incomplete.</p>
+                </>
+              )}
+              <p className="text-sm text-gray-500">
+                Links expire after a week. Request a new export from Settings → Security.
+              </p>
+              <Button asChild variant="outline" className="w-full">
+                <Link href="/settings/security">Go to Settings</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </motion.div>
+    </>
+  );
+};
+
+export default DataExportPage;
@@ -25,7 +25,9 @@ import {
   Users,
   Target,
   Crown,
-  Zap
+  Zap,
+  Code,
+  Webhook
 } from "lucide-react";
 
 const Settings: NextPage = () => {
@@ -68,6 +70,36 @@ const Settings: NextPage = () => {
         "Usage limits"
       ]
     },
+    {
+      id: "api",
+      title: "API Access",
+      description: "Create and revoke API keys for the REST API and choose what each key can read",
+      icon: <Code className="h-6 w-6" />,
+      href: "/settings/api",
+      color: "from-indigo-500 to-indigo-600",
+      badge: null,
+      items: [
+        "API keys",
+        "Key scopes",
+        "Rate limits and quotas",
+        "OpenAPI document"
+      ]
+    },
+    {
+      id: "webhooks",
+      title: "Webhooks",
+      description: "Send signed prediction and ranking events to your own systems",
+      icon: <Webhook className="h-6 w-6" />,
+      href: "/settings/webhooks",
+      color: "from-cyan-500 to-cyan-600",
+      badge: null,
+      items: [
+        "Endpoints and event filters",
+        "Signing secrets",
+        "Delivery log and retries",
+        "Test events"
+      ]
+    },
     {
       id: "notifications",
       title: "Notifications",
@@ -3,11 +3,24 @@
 import { type NextPage } from "next";
 import Head from "next/head";
 import Link from "next/link";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { getProviders, signIn, signOut, useSession } from "next-auth/react";
 import { motion } from "framer-motion";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import {
   Shield,
   ArrowLeft,
@@ -26,75 +39,144 @@ import {
   Unlock,
   QrCode,
   Copy,
-  RefreshCw
+  RefreshCw,
+  Loader2,
+  Link2,
+  Mail
 } from "lucide-react";
+import { api } from "@/utils/api";
 
 const SecuritySettings: NextPage = () => {
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
-  const [showQRCode, setShowQRCode] = useState(false);
+  const { update: updateSession } = useSession();
+  const utils = api.useContext();
+  const { data: twoFactor } = api.auth.getTwoFactorStatus.useQuery();
+  const twoFactorEnabled = twoFactor?.enabled ?? false;
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCode: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [disablePassword, setDisablePassword] = useState("");
 
-  const [passwords, setPasswords] = useState({
-    current: "",
-    new: "",
-    confirm: ""
+  const beginSetup = api.auth.beginTwoFactorSetup.useMutation({
+    onSuccess: (result) => {
+      setEnrollment(result);
+      setTwoFactorCode("");
+    },
+    onError: (err) => toast.error(err.message),
   });
 
-  const [backupCodes] = useState([
-    "1a2b-3c4d-5e6f",
-    "2b3c-4d5e-6f7g",
-    "3c4d-5e6f-7g8h",
-    "4d5e-6f7g-8h9i",
-    "5e6f-7g8h-9i0j",
-    "6f7g-8h9i-0j1k",
-    "7g8h-9i0j-1k2l",
-    "8h9i-0j1k-2l3m"
-  ]);
-
-  const [loginHistory] = useState([
-    {
-      id: 1,
-      device: "MacBook Pro",
-      browser: "Chrome",
-      location: "New York, NY",
-      ip: "192.168.1.1",
-      timestamp: "2024-01-20T10:30:00Z",
-      status: "success",
-      current: true
+  const confirmSetup = api.auth.confirmTwoFactorSetup.useMutation({
+    onSuccess: async (result) => {
+      setEnrollment(null);
+      setTwoFactorCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      toast.success("Two-factor authentication enabled");
+      await updateSession();
+      void utils.auth.getTwoFactorStatus.invalidate();
     },
-    {
-      id: 2,
-      device: "iPhone 15",
-      browser: "Safari",
-      location: "New York, NY",
-      ip: "192.168.1.2",
-      timestamp: "2024-01-19T15:45:00Z",
-      status: "success",
-      current: false
+    onError: (err) => toast.error(err.message),
+  });
+
+  const regenerateCodes = api.auth.regenerateRecoveryCodes.useMutation({
+    onSuccess: (result) => {
+      setTwoFactorCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      void utils.auth.getTwoFactorStatus.invalidate();
     },
-    {
-      id: 3,
-      device: "Windows PC",
-      browser: "Edge",
-      location: "Los Angeles, CA",
-      ip: "10.0.0.1",
-      timestamp: "2024-01-18T09:15:00Z",
-      status: "failed",
-      current: false
+    onError: (err) => toast.error(err.message),
+  });
+
+  const disableTwoFactor = api.auth.disableTwoFactor.useMutation({
+    onSuccess: async () => {
+      setTwoFactorCode("");
+      setDisablePassword("");
+      setRecoveryCodes(null);
+      toast.success("Two-factor authentication disabled");
+      await updateSession();
+      void utils.auth.getTwoFactorStatus.invalidate();
     },
-    {
-      id: 4,
-      device: "iPad",
-      browser: "Safari",
-      location: "New York, NY",
-      ip: "192.168.1.3",
-      timestamp: "2024-01-17T20:20:00Z",
-      status: "success",
-      current: false
-    }
-  ]);
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { data: sessions, isLoading: sessionsLoading } = api.auth.getSessions.useQuery();
+
+  const revokeSession = api.auth.revokeSession.useMutation({
+    onSuccess: () => {
+      toast.success("Session signed out");
+      void utils.auth.getSessions.invalidate();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const revokeOtherSessions = api.auth.revokeOtherSessions.useMutation({
+    onSuccess: ({ revoked }) => {
+      toast.success(revoked > 0 ? `Signed out of ${revoked} other session${revoked === 1 ? "" : "s"}` : "No other sessions were active");
+      void utils.auth.getSessions.invalidate();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { data: linked } = api.auth.getLinkedAccounts.useQuery();
+  const [oauthProviders, setOauthProviders] = useState<string[]>([]);
+
+  useEffect(() => {
+    void getProviders().then((available) => {
+      setOauthProviders(Object.values(available ?? {}).filter((provider) => provider.type === "oauth").map((provider) => provider.id));
+    });
+  }, []);
+
+  const unlinkAccount = api.auth.unlinkAccount.useMutation({
+    onSuccess: () => {
+      toast.success("Account disconnected");
+      void utils.auth.getLinkedAccounts.invalidate();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { data: accountStatus } = api.auth.getAccountStatus.useQuery();
+  const [deletePassword, setDeletePassword] = useState("");
+
+  const resendVerification = api.auth.resendVerificationEmail.useMutation({
+    onSuccess: () => toast.success("Verification email sent"),
+    onError: (err) => toast.error(err.message),
+  });
+
+  const deleteAccount = api.auth.deleteAccount.useMutation({
+    onSuccess: async ({ deletionScheduledAt }) => {
+      toast.success(`Your account will be deleted on ${new Date(deletionScheduledAt).toLocaleDateString()}`);
+      await signOut({ callbackUrl: "/" });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { data: dataExports } = api.auth.getDataExports.useQuery();
+  const latestExport = dataExports?.[0];
+
+  const requestDataExport = api.auth.requestDataExport.useMutation({
+    onSuccess: () => {
+      toast.success("We'll email you a download link when your archive is ready");
+      void utils.auth.getDataExports.invalidate();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`${recoveryCodes.join("\n")}\n`], { type: "text/plain" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const [passwords, setPasswords] = useState({
+    current: "",
+    new: "",
+    confirm: ""
+  });
 
   const [privacySettings, setPrivacySettings] = useState({
     profileVisibility: "public",
@@ -114,20 +196,11 @@ const SecuritySettings: NextPage = () => {
   };
 
   const getDeviceIcon = (device: string) => {
-    if (device.includes('iPhone') || device.includes('iPad')) return <Smartphone className="h-4 w-4" />;
+    if (["iPhone", "iPad", "Android"].includes(device)) return <Smartphone className="h-4 w-4" />;
     return <Monitor className="h-4 w-4" />;
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "success":
-        return "text-green-600";
-      case "failed":
-        return "text-red-600";
-      default:
-        return "text-gray-600";
-    }
-  };
+  const providerNames: Record<string, string> = { google: "Google", github: "GitHub" };
 
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -186,6 +259,44 @@ const SecuritySettings: NextPage = () => {
               </p>
             </motion.div>
 
+            {accountStatus && !accountStatus.emailVerified && (
+              <motion.div className="mb-8" variants={itemVariants}>
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start justify-between gap-3">
+                  <div className="flex items-start gap-3">
+                    <Mail className="h-5 w-5 text-yellow-600 mt-0.5" />
+                    <div>
+                      <div className="font-medium text-yellow-800">Verify your email address</div>
+                      <p className="text-sm text-yellow-700">
+                        Follow the link we emailed you to start commenting and saving bookmarks.
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={resendVerification.isPending}
+                    onClick={() => resendVerification.mutate()}
+                  >
+                    Resend Link
+                  </Button>
+                </div>
+              </motion.div>
+            )}
+
+            {twoFactor?.required && !twoFactorEnabled && (
+              <motion.div className="mb-8" variants={itemVariants}>
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start gap-3">
+                  <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+                  <div>
+                    <div className="font-medium text-yellow-800">Two-factor authentication required</div>
+                    <p className="text-sm text-yellow-700">
+                      Your account role requires 2FA. Set it up below to unlock admin features.
+                    </p>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+
             {/* Security Score */}
             <motion.div
               className="mb-8"
@@ -241,8 +352,12 @@ const SecuritySettings: NextPage = () => {
                           <span className="text-gray-700">Strong password</span>
                         </div>
                         <div className="flex items-center gap-2 text-sm">
-                          <AlertTriangle className="h-4 w-4 text-yellow-500" />
-                          <span className="text-gray-700">Two-factor authentication disabled</span>
+                          {twoFactorEnabled ? (
+                            <CheckCircle className="h-4 w-4 text-green-500" />
+                          ) : (
+                            <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                          )}
+                          <span className="text-gray-700">Two-factor authentication {twoFactorEnabled ? "enabled" : "disabled"}</span>
                         </div>
                         <div className="flex items-center gap-2 text-sm">
                           <CheckCircle className="h-4 w-4 text-green-500" />
@@ -390,21 +505,41 @@ const SecuritySettings: NextPage = () => {
                       <div>
                         <div className="font-medium text-gray-900">Two-Factor Authentication</div>
                         <div className="text-sm text-gray-600">
-                          {twoFactorEnabled ? "Enabled" : "Disabled"}
+                          {twoFactorEnabled
+                            ? `Enabled${twoFactor?.enabledAt ? ` since ${new Date(twoFactor.enabledAt).toLocaleDateString()}` : ""}`
+                            : "Disabled"}
                         </div>
                       </div>
-                      <button
-                        onClick={() => setTwoFactorEnabled(!twoFactorEnabled)}
-                        className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                          twoFactorEnabled ? 'bg-green-600' : 'bg-gray-200'
-                        }`}
-                      >
-                        <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                          twoFactorEnabled ? 'translate-x-6' : 'translate-x-1'
-                        }`} />
-                      </button>
+                      {twoFactor?.required && <Badge className="bg-blue-100 text-blue-700">Required for your role</Badge>}
                     </div>
 
+                    {recoveryCodes && (
+                      <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+                        <div className="font-medium text-gray-900">Save your recovery codes</div>
+                        <p className="text-sm text-gray-600">
+                          Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.
+                        </p>
+                        <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                          {recoveryCodes.map((code) => (
+                            <div key={code} className="bg-white border rounded px-2 py-1 text-center">{code}</div>
+                          ))}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={downloadRecoveryCodes}>
+                            <Download className="mr-2 h-4 w-4" />
+                            Download
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => void navigator.clipboard.writeText(recoveryCodes.join("\n"))}>
+                            <Copy className="mr-2 h-4 w-4" />
+                            Copy
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                            Done
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
                     {twoFactorEnabled ? (
                       <div className="space-y-4">
                         <div className="bg-green-50 border border-green-200 rounded-lg p-3">
@@ -412,17 +547,44 @@ const SecuritySettings: NextPage = () => {
                             <CheckCircle className="h-4 w-4" />
                             <span className="font-medium">Two-factor authentication is enabled</span>
                           </div>
+                          <p className="text-sm text-green-700 mt-1">
+                            {twoFactor?.recoveryCodesRemaining ?? 0} unused recovery codes left.
+                          </p>
                         </div>
                         <div className="space-y-2">
-                          <Button variant="outline" className="w-full justify-start">
-                            <QrCode className="mr-2 h-4 w-4" />
-                            View QR Code
-                          </Button>
-                          <Button variant="outline" className="w-full justify-start">
-                            <Download className="mr-2 h-4 w-4" />
-                            Download Backup Codes
+                          <input
+                            type="text"
+                            value={twoFactorCode}
+                            onChange={(e) => setTwoFactorCode(e.target.value)}
+                            placeholder="Authentication or recovery code"
+                            autoComplete="one-time-code"
+                            className="w-full h-10 px-3 text-gray-900 bg-white border border-gray-200 rounded-md focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 placeholder:text-gray-400"
+                          />
+                          <Button
+                            variant="outline"
+                            className="w-full justify-start"
+                            disabled={!twoFactorCode || regenerateCodes.isPending}
+                            onClick={() => regenerateCodes.mutate({ code: twoFactorCode })}
+                          >
+                            <RefreshCw className="mr-2 h-4 w-4" />
+                            Generate New Recovery Codes
                           </Button>
-                          <Button variant="outline" className="w-full justify-start text-red-600 hover:text-red-700">
+                          {linked?.hasPassword && (
+                            <input
+                              type="password"
+                              value={disablePassword}
+                              onChange={(e) => setDisablePassword(e.target.value)}
+                              placeholder="Current password (to disable)"
+                              autoComplete="current-password"
+                              className="w-full h-10 px-3 text-gray-900 bg-white border border-gray-200 rounded-md focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 placeholder:text-gray-400"
+                            />
+                          )}
+                          <Button
+                            variant="outline"
+                            className="w-full justify-start text-red-600 hover:text-red-700"
+                            disabled={!twoFactorCode || (linked?.hasPassword && !disablePassword) || disableTwoFactor.isPending}
+                            onClick={() => disableTwoFactor.mutate({ code: twoFactorCode, password: disablePassword || undefined })}
+                          >
                             <Trash2 className="mr-2 h-4 w-4" />
                             Disable 2FA
                           </Button>
@@ -436,29 +598,51 @@ const SecuritySettings: NextPage = () => {
                             <span className="font-medium">Two-factor authentication is not enabled</span>
                           </div>
                           <p className="text-sm text-yellow-600 mt-1">
-                            Enable 2FA to significantly improve your account security.
+                            {twoFactor?.required
+                              ? "Your account role requires 2FA. Admin features stay locked until you enable it."
+                              : "Enable 2FA to significantly improve your account security."}
                           </p>
                         </div>
-                        <Button
-                          onClick={() => setShowQRCode(!showQRCode)}
-                          className="w-full bg-gradient-to-r from-green-600 to-green-700"
-                        >
-                          <Shield className="mr-2 h-4 w-4" />
-                          Enable Two-Factor Authentication
-                        </Button>
+                        {!enrollment && (
+                          <Button
+                            onClick={() => beginSetup.mutate()}
+                            disabled={beginSetup.isPending}
+                            className="w-full bg-gradient-to-r from-green-600 to-green-700"
+                          >
+                            {beginSetup.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Shield className="mr-2 h-4 w-4" />}
+                            Enable Two-Factor Authentication
+                          </Button>
+                        )}
                       </div>
                     )}
 
-                    {showQRCode && (
-                      <div className="mt-4 p-4 bg-gray-50 rounded-lg text-center">
-                        <div className="w-32 h-32 bg-white border-2 border-gray-300 mx-auto mb-4 flex items-center justify-center">
-                          <QrCode className="h-16 w-16 text-gray-400" />
-                        </div>
-                        <p className="text-sm text-gray-600 mb-4">
-                          Scan this QR code with your authenticator app
+                    {enrollment && !twoFactorEnabled && (
+                      <div className="mt-4 p-4 bg-gray-50 rounded-lg text-center space-y-4">
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={enrollment.qrCode} alt="Two-factor QR code" className="w-40 h-40 mx-auto bg-white border-2 border-gray-300" />
+                        <p className="text-sm text-gray-600">
+                          Scan this QR code with your authenticator app, or enter the key below.
                         </p>
                         <div className="text-xs font-mono bg-gray-200 p-2 rounded break-all">
-                          JBSWY3DPEHPK3PXP
+                          {enrollment.secret}
+                        </div>
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            inputMode="numeric"
+                            value={twoFactorCode}
+                            onChange={(e) => setTwoFactorCode(e.target.value)}
+                            placeholder="6-digit code"
+                            autoComplete="one-time-code"
+                            className="flex-1 h-10 px-3 text-gray-900 bg-white border border-gray-200 rounded-md focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 placeholder:text-gray-400 tracking-widest"
+                          />
+                          <Button
+                            disabled={twoFactorCode.trim().length < 6 || confirmSetup.isPending}
+                            onClick={() => confirmSetup.mutate({ code: twoFactorCode })}
+                          >
+                            <QrCode className="mr-2 h-4 w-4" />
+                            Verify
+                          </Button>
                         </div>
                       </div>
                     )}
@@ -471,56 +655,126 @@ const SecuritySettings: NextPage = () => {
                 className="space-y-6"
                 variants={itemVariants}
               >
-                {/* Login History */}
+                {/* Active Sessions */}
                 <Card className="shadow-xl bg-white/90 backdrop-blur-xl border border-white/20">
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Clock className="h-5 w-5" />
-                      Login History
+                      Active Sessions
                     </CardTitle>
                     <CardDescription>
-                      Recent login attempts and active sessions
+                      Devices currently signed in to your account
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
-                      {loginHistory.map((login) => (
-                        <div key={login.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
+                      {sessionsLoading && (
+                        <div className="flex justify-center py-4">
+                          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                        </div>
+                      )}
+                      {sessions?.map((session) => (
+                        <div key={session.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
                           <div className="flex items-start gap-3">
                             <div className="w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center">
-                              {getDeviceIcon(login.device)}
+                              {getDeviceIcon(session.device)}
                             </div>
                             <div>
                               <div className="font-medium text-gray-900">
-                                {login.device}
-                                {login.current && (
+                                {session.device}
+                                {session.current && (
                                   <Badge className="ml-2 bg-green-100 text-green-700 text-xs">Current</Badge>
                                 )}
                               </div>
-                              <div className="text-sm text-gray-600">
-                                {login.browser} • {login.location}
+                              <div className="text-sm text-gray-600 flex items-center gap-1">
+                                {session.browser} • <MapPin className="h-3 w-3" /> {session.ipAddress ?? "Unknown IP"}
                               </div>
                               <div className="text-xs text-gray-500">
-                                {new Date(login.timestamp).toLocaleString()} • {login.ip}
+                                Last seen {new Date(session.lastSeenAt).toLocaleString()} • Signed in {new Date(session.createdAt).toLocaleDateString()}
                               </div>
                             </div>
                           </div>
-                          <div className="flex items-center gap-2">
-                            <div className={`text-sm ${getStatusColor(login.status)}`}>
-                              {login.status}
+                          {!session.current && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600"
+                              title="Sign out this device"
+                              disabled={revokeSession.isPending}
+                              onClick={() => revokeSession.mutate({ sessionId: session.id })}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full mt-4"
+                      disabled={!sessions?.some((session) => !session.current) || revokeOtherSessions.isPending}
+                      onClick={() => revokeOtherSessions.mutate()}
+                    >
+                      Sign Out Other Sessions
+                    </Button>
+                  </CardContent>
+                </Card>
+
+                {/* Linked Accounts */}
+                <Card className="shadow-xl bg-white/90 backdrop-blur-xl border border-white/20">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Link2 className="h-5 w-5" />
+                      Linked Accounts
+                    </CardTitle>
+                    <CardDescription>
+                      Sign in with Google or GitHub instead of your password
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {oauthProviders.map((provider) => {
+                        const account = linked?.accounts.find((entry) => entry.provider === provider);
+                        return (
+                          <div key={provider} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                            <div>
+                              <div className="font-medium text-gray-900">{providerNames[provider] ?? provider}</div>
+                              <div className="text-sm text-gray-600">
+                                {account ? `Connected${account.email ? ` as ${account.email}` : ""}` : "Not connected"}
+                              </div>
                             </div>
-                            {!login.current && (
-                              <Button variant="ghost" size="sm" className="text-red-600">
-                                <Trash2 className="h-3 w-3" />
+                            {account ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600"
+                                disabled={unlinkAccount.isPending}
+                                onClick={() => unlinkAccount.mutate({ accountId: account.id })}
+                              >
+                                Disconnect
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => void signIn(provider, { callbackUrl: "/auth/two-factor?callbackUrl=/settings/security" })}
+                              >
+                                Connect
                               </Button>
                             )}
                           </div>
-                        </div>
-                      ))}
+                        );
+                      })}
+                      {oauthProviders.length === 0 && (
+                        <p className="text-sm text-gray-500">No sign-in providers are configured.</p>
+                      )}
                     </div>
-                    <Button variant="outline" size="sm" className="w-full mt-4">
-                      View All Login History
-                    </Button>
+                    {linked && !linked.hasPassword && (
+                      <p className="text-xs text-gray-500 mt-4">
+                        Your account has no password. Keep at least one provider connected, or use a sign-in link sent to your email.
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -592,14 +846,64 @@ const SecuritySettings: NextPage = () => {
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-3">
-                    <Button variant="outline" className="w-full justify-start">
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start"
+                      onClick={() => requestDataExport.mutate()}
+                      disabled={requestDataExport.isPending || latestExport?.status === "PENDING"}
+                    >
                       <Download className="mr-2 h-4 w-4" />
-                      Export Account Data
-                    </Button>
-                    <Button variant="outline" className="w-full justify-start text-red-600 hover:text-red-700">
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      Delete Account
+                      {latestExport?.status === "PENDING" ? "Preparing Export..." : "Export Account Data"}
                     </Button>
+                    {latestExport?.status === "COMPLETED" && latestExport.expiresAt && (
+                      <p className="text-xs text-gray-500">
+                        Last export emailed {new Date(latestExport.requestedAt).toLocaleDateString()}; the link works until{" "}
+                        {new Date(latestExport.expiresAt).toLocaleDateString()}.
+                      </p>
+                    )}
+                    {latestExport?.status === "FAILED" && (
+                      <p className="text-xs text-red-600">
+                        Your last export could not be prepared. Please try again.
+                      </p>
+                    )}
+                    <AlertDialog onOpenChange={() => setDeletePassword("")}>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" className="w-full justify-start text-red-600 hover:text-red-700">
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete Account
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Account</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            You will be signed out everywhere and your account will be permanently deleted after 30 days.
+                            Sign in again before then to keep it. Comments you posted stay in their threads as
+                            &quot;[deleted]&quot; without your name. Export your data first if you want a copy.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        {linked?.hasPassword && (
+                          <input
+                            type="password"
+                            value={deletePassword}
+                            onChange={(e) => setDeletePassword(e.target.value)}
+                            placeholder="Confirm your password"
+                            autoComplete="current-password"
+                            className="w-full h-10 px-3 text-gray-900 bg-white border border-gray-200 rounded-md focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500/20 placeholder:text-gray-400"
+                          />
+                        )}
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            className="bg-red-600 hover:bg-red-700"
+                            disabled={(linked?.hasPassword && !deletePassword) || deleteAccount.isPending}
+                            onClick={() => deleteAccount.mutate({ confirmPassword: deletePassword || undefined })}
+                          >
+                            Delete Account
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
                   </CardContent>
                 </Card>
               </motion.div>
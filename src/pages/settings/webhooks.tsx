@@ -0,0 +1,364 @@
+import { type NextPage } from "next";
+import Head from "next/head";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { ArrowLeft, Check, Copy, History, Loader2, Pause, Play, Plus, RefreshCw, Send, Trash2, Webhook } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { api, type RouterInputs } from "@/utils/api";
+import { formatDate } from "@/lib/utils";
+
+type EventType = RouterInputs["webhooks"]["create"]["eventTypes"][number];
+
+const EVENT_LABELS: Record<EventType, string> = {
+  "prediction.created": "A new prediction is extracted",
+  "prediction.validated": "A prediction resolves",
+  "ranking.changed": "A forecaster's rank moves",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  DELIVERED: "bg-green-100 text-green-800",
+  PENDING: "bg-blue-100 text-blue-800",
+  RETRYING: "bg-yellow-100 text-yellow-800",
+  FAILED: "bg-red-100 text-red-800",
+  CANCELLED: "bg-gray-100 text-gray-700",
+};
+
+const DeliveryLog = ({ endpointId }: { endpointId: string }) => {
+  const { data: deliveries, isLoading, refetch, isFetching } = api.webhooks.getDeliveries.useQuery({ id: endpointId, limit: 25 });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 border-t pt-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Recent deliveries</span>
+        <Button variant="ghost" size="sm" disabled={isFetching} onClick={() => void refetch()}>
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+      {!deliveries?.length ? (
+        <p className="text-sm text-gray-500">Nothing delivered yet.</p>
+      ) : (
+        deliveries.map(delivery => (
+          <div key={delivery.id} className="text-xs border rounded p-2 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className={STATUS_STYLES[delivery.status] ?? STATUS_STYLES.PENDING}>{delivery.status}</Badge>
+              <code>{delivery.eventType}</code>
+              {delivery.responseStatus !== null && <span className="text-gray-600">HTTP {delivery.responseStatus}</span>}
+              {delivery.durationMs !== null && <span className="text-gray-500">{delivery.durationMs} ms</span>}
+              <span className="text-gray-500">
+                {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"} · {formatDate(delivery.lastAttemptAt ?? delivery.createdAt)}
+              </span>
+            </div>
+            {delivery.error && <div className="text-red-600">{delivery.error}</div>}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+const WebhookSettings: NextPage = () => {
+  const utils = api.useContext();
+  const { data: endpoints, isLoading, error } = api.webhooks.list.useQuery();
+  const { data: options } = api.webhooks.getOptions.useQuery();
+  const { data: forecasterData } = api.forecasters.getAll.useQuery({ limit: 100, sort: "name", order: "asc" });
+  const { data: assetData } = api.assets.getAll.useQuery({ limit: 100 });
+
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [eventTypes, setEventTypes] = useState<EventType[]>(["prediction.created", "prediction.validated"]);
+  const [forecasterIds, setForecasterIds] = useState<string[]>([]);
+  const [assetIds, setAssetIds] = useState<string[]>([]);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [openLog, setOpenLog] = useState<string | null>(null);
+
+  const showSecret = (value: string) => {
+    setSecret(value);
+    setCopied(false);
+  };
+
+  const createEndpoint = api.webhooks.create.useMutation({
+    onSuccess: (result) => {
+      showSecret(result.secret);
+      setUrl("");
+      setDescription("");
+      setForecasterIds([]);
+      setAssetIds([]);
+      void utils.webhooks.list.invalidate();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const updateEndpoint = api.webhooks.update.useMutation({
+    onSuccess: () => void utils.webhooks.list.invalidate(),
+    onError: (err) => toast.error(err.message),
+  });
+
+  const rotateSecret = api.webhooks.rotateSecret.useMutation({
+    onSuccess: (result) => showSecret(result.secret),
+    onError: (err) => toast.error(err.message),
+  });
+
+  const deleteEndpoint = api.webhooks.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Webhook deleted");
+      void utils.webhooks.list.invalidate();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const sendTest = api.webhooks.sendTest.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success("Test event queued");
+      setOpenLog(variables.id);
+      void utils.webhooks.getDeliveries.invalidate({ id: variables.id });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const toggle = <T,>(setter: (update: (current: T[]) => T[]) => void, value: T, checked: boolean) =>
+    setter(current => (checked ? [...current, value] : current.filter(v => v !== value)));
+
+  const copySecret = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+  };
+
+  const forecasterNames = new Map(forecasterData?.forecasters.map(f => [f.id, f.name]));
+  const assetSymbols = new Map(assetData?.assets.map(a => [a.id, a.symbol]));
+
+  return (
+    <>
+      <Head>
+        <title>Webhooks - Settings</title>
+        <meta name="description" content="Send signed prediction and ranking events to your own systems." />
+      </Head>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100">
+        <div className="container mx-auto px-4 py-16 max-w-4xl space-y-8">
+          <div>
+            <Button variant="ghost" className="mb-4" asChild>
+              <Link href="/settings">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Settings
+              </Link>
+            </Button>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Webhooks</h1>
+            <p className="text-gray-600">
+              Events are POSTed as JSON and signed with your endpoint&apos;s secret. Verify{" "}
+              <code className="text-sm">X-Webhook-Signature: t=&lt;timestamp&gt;,v1=&lt;hmac&gt;</code>, an HMAC-SHA256 of{" "}
+              <code className="text-sm">timestamp.body</code>. Failed deliveries are retried with backoff for about 15 minutes.
+            </p>
+          </div>
+
+          {secret && (
+            <Card className="border-green-300 bg-green-50">
+              <CardHeader>
+                <CardTitle className="text-lg">Signing secret</CardTitle>
+                <CardDescription>Copy it now. It won&apos;t be shown again.</CardDescription>
+              </CardHeader>
+              <CardContent className="flex gap-2">
+                <Input readOnly value={secret} className="font-mono text-sm bg-white" />
+                <Button variant="outline" onClick={() => void copySecret()}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+                <Button variant="ghost" onClick={() => setSecret(null)}>
+                  Done
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="shadow-xl bg-white/90 backdrop-blur-xl border border-white/20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plus className="h-5 w-5" />
+                Add an endpoint
+              </CardTitle>
+              <CardDescription>Leave forecasters or assets unselected to receive events for all of them.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-url">URL</Label>
+                  <Input id="webhook-url" placeholder="https://example.com/hooks/predictions" value={url} onChange={(e) => setUrl(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-description">Description</Label>
+                  <Input id="webhook-description" placeholder="Optional" value={description} maxLength={120} onChange={(e) => setDescription(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid sm:grid-cols-3 gap-2">
+                  {(options?.eventTypes ?? (Object.keys(EVENT_LABELS) as EventType[])).map(type => (
+                    <label key={type} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <Checkbox checked={eventTypes.includes(type)} onCheckedChange={(checked) => toggle(setEventTypes, type, checked === true)} />
+                      <span>
+                        <code>{type}</code>
+                        <span className="block text-xs text-gray-500">{EVENT_LABELS[type]}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Forecasters</Label>
+                  <div className="max-h-40 overflow-y-auto border rounded p-2 space-y-1">
+                    {forecasterData?.forecasters.map(forecaster => (
+                      <label key={forecaster.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={forecasterIds.includes(forecaster.id)}
+                          onCheckedChange={(checked) => toggle(setForecasterIds, forecaster.id, checked === true)}
+                        />
+                        {forecaster.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Assets</Label>
+                  <div className="max-h-40 overflow-y-auto border rounded p-2 space-y-1">
+                    {assetData?.assets.map(asset => (
+                      <label key={asset.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox checked={assetIds.includes(asset.id)} onCheckedChange={(checked) => toggle(setAssetIds, asset.id, checked === true)} />
+                        {asset.symbol}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <Button
+                disabled={!url.trim() || eventTypes.length === 0 || createEndpoint.isPending}
+                onClick={() => createEndpoint.mutate({ url, description, eventTypes, forecasterIds, assetIds })}
+              >
+                {createEndpoint.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Webhook className="mr-2 h-4 w-4" />}
+                Add endpoint
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-xl bg-white/90 backdrop-blur-xl border border-white/20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Webhook className="h-5 w-5" />
+                Your endpoints
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+                </div>
+              ) : error ? (
+                <p className="text-sm text-gray-500">Sign in to manage webhooks.</p>
+              ) : !endpoints?.length ? (
+                <p className="text-sm text-gray-500">No webhook endpoints yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {endpoints.map(endpoint => (
+                    <div key={endpoint.id} className={`p-4 border rounded-lg ${endpoint.isActive ? "" : "opacity-70"}`}>
+                      <div className="flex flex-wrap items-start justify-between gap-3">
+                        <div className="space-y-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <code className="text-sm font-medium text-gray-900 break-all">{endpoint.url}</code>
+                            {!endpoint.isActive && <Badge className="bg-gray-100 text-gray-700">Paused</Badge>}
+                          </div>
+                          {endpoint.description && <div className="text-sm text-gray-600">{endpoint.description}</div>}
+                          <div className="flex flex-wrap gap-1">
+                            {endpoint.eventTypes.map(type => (
+                              <Badge key={type} variant="outline" className="text-xs">
+                                {type}
+                              </Badge>
+                            ))}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {endpoint.forecasterIds.length
+                              ? endpoint.forecasterIds.map(id => forecasterNames.get(id) ?? id).join(", ")
+                              : "All forecasters"}
+                            {" · "}
+                            {endpoint.assetIds.length ? endpoint.assetIds.map(id => assetSymbols.get(id) ?? id).join(", ") : "All assets"}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            Added {formatDate(endpoint.createdAt)} ·{" "}
+                            {endpoint.lastDelivery
+                              ? `last delivery ${endpoint.lastDelivery.status.toLowerCase()} ${formatDate(endpoint.lastDelivery.createdAt)}`
+                              : "no deliveries yet"}
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          <Button variant="outline" size="sm" disabled={sendTest.isPending} onClick={() => sendTest.mutate({ id: endpoint.id })}>
+                            <Send className="mr-1 h-4 w-4" />
+                            Send test event
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setOpenLog(openLog === endpoint.id ? null : endpoint.id)}>
+                            <History className="mr-1 h-4 w-4" />
+                            Log
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={updateEndpoint.isPending}
+                            onClick={() => updateEndpoint.mutate({ id: endpoint.id, isActive: !endpoint.isActive })}
+                          >
+                            {endpoint.isActive ? <Pause className="mr-1 h-4 w-4" /> : <Play className="mr-1 h-4 w-4" />}
+                            {endpoint.isActive ? "Pause" : "Resume"}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={rotateSecret.isPending}
+                            onClick={() => {
+                              if (confirm("Rotate the signing secret? Deliveries are signed with the new secret immediately.")) {
+                                rotateSecret.mutate({ id: endpoint.id });
+                              }
+                            }}
+                          >
+                            <RefreshCw className="mr-1 h-4 w-4" />
+                            Rotate secret
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            disabled={deleteEndpoint.isPending}
+                            onClick={() => {
+                              if (confirm(`Delete the webhook for ${endpoint.url}? Its delivery log is deleted too.`)) {
+                                deleteEndpoint.mutate({ id: endpoint.id });
+                              }
+                            }}
+                          >
+                            <Trash2 className="mr-1 h-4 w-4" />
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                      {openLog === endpoint.id && <DeliveryLog endpointId={endpoint.id} />}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default WebhookSettings;
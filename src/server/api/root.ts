@@ -10,6 +10,8 @@ import { statisticsRouter } from "./routers/statistics";
 import { contactRouter } from "./routers/contact";
 import { adminRouter } from "./routers/admin";
 import { marketRouter } from "./routers/market";
+import { apiKeysRouter } from "./routers/apiKeys";
+import { webhooksRouter } from "./routers/webhooks";
 
 export const appRouter = createTRPCRouter({
   auth: authRouter,
@@ -23,6 +25,8 @@ export const appRouter = createTRPCRouter({
   contact: contactRouter,
   admin: adminRouter,
   market: marketRouter,
+  apiKeys: apiKeysRouter,
+  webhooks: webhooksRouter,
 });
 
 export type AppRouter = typeof appRouter;
\ No newline at end of file
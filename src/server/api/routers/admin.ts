@@ -4,6 +4,19 @@ import {
   adminProcedure,
 } from "../trpc";
 import { TRPCError } from "@trpc/server";
+import { jobQueue, services } from "@/server/services";
+import { LLM_PROVIDERS } from "@/server/services/llm/types";
+import { CURRENT_PROMPT_VERSION, EXTRACTION_PROMPTS } from "@/server/services/extractionPrompts";
+import { REVIEW_STATUSES } from "@/server/services/reviewQueue";
+import { ALIAS_KINDS, ASSET_TYPES } from "@/server/services/assetCatalog";
+import { MARKET_DATA_SOURCES, marketDataProviders } from "@/server/services/marketDataProviders";
+import { BENCHMARK_SCORING_JOB } from "@/server/services/benchmarkScoring";
+import { ACCOUNT_STATUSES, accountLifecycleService, sessionRegistry } from "@/server/security";
+
+const benchmarkRefSchema = z.object({
+  symbol: z.string().min(1).toUpperCase(),
+  type: z.enum([...ASSET_TYPES, "CASH"]),
+});
 
 export const adminRouter = createTRPCRouter({
   // Get dashboard statistics
@@ -372,7 +385,7 @@ export const adminRouter = createTRPCRouter({
       limit: z.number().min(1).max(100).default(20),
       search: z.string().optional(),
       role: z.enum(["ALL", "FREE", "PREMIUM", "ADMIN"]).default("ALL"),
-      status: z.enum(["ALL", "ACTIVE", "SUSPENDED"]).default("ALL"),
+      status: z.enum(["ALL", ...ACCOUNT_STATUSES]).default("ALL"),
     }))
     .query(async ({ ctx, input }) => {
       const { page, limit, search, role, status } = input;
@@ -395,11 +408,9 @@ export const adminRouter = createTRPCRouter({
           whereClause.role = role;
         }
 
-        // Status filter - we'll assume suspended users have a specific field or role
-        // Since there's no status field in schema, we'll use role to determine status
-        if (status === "SUSPENDED") {
-          // For now, we'll assume suspended users don't exist in schema
-          // This can be expanded when a status field is added
+        // Status filter
+        if (status !== "ALL") {
+          whereClause.status = status;
         }
 
         // Get users with stats
@@ -411,6 +422,8 @@ export const adminRouter = createTRPCRouter({
               email: true,
               fullName: true,
               role: true,
+              status: true,
+              statusReason: true,
               createdAt: true,
               updatedAt: true,
               _count: {
@@ -437,7 +450,6 @@ export const adminRouter = createTRPCRouter({
 
             return {
               ...user,
-              status: 'active', // Default status
               lastActive: lastAction?.createdAt || user.createdAt,
               totalActions: user._count.actions,
             };
@@ -548,6 +560,7 @@ export const adminRouter = createTRPCRouter({
           totalActions: user._count.actions,
           totalEvents: user._count.events,
           totalArticles: user._count.articles,
+          sessions: await sessionRegistry.list(user.id),
         };
       } catch (error) {
         if (error instanceof TRPCError) throw error;
@@ -652,24 +665,25 @@ export const adminRouter = createTRPCRouter({
         }
 
         if (permanent) {
-          // Permanent deletion
-          await ctx.prisma.user.delete({
-            where: { id: userId }
+          // Permanent deletion, anonymizing the records that are kept
+          await accountLifecycleService.erase(userId, {
+            ipAddress: ctx.req?.headers['x-forwarded-for'] as string ||
+                       ctx.req?.socket?.remoteAddress ||
+                       'unknown',
+            userAgent: ctx.req?.headers['user-agent'],
+            path: '/api/trpc/admin.deleteUser',
+            actorId: ctx.session.user.id,
           });
           return { deleted: true, permanent: true };
         } else {
-          // Soft delete by setting role to a suspended state
-          // Since there's no status field, we'll use a comment in settings
-          const settings = typeof existingUser.settings === 'object' ? existingUser.settings : {};
-          await ctx.prisma.user.update({
-            where: { id: userId },
-            data: {
-              settings: {
-                ...settings,
-                suspended: true,
-                suspendedAt: new Date().toISOString(),
-              }
-            }
+          // Soft delete: suspended, so an admin can still reactivate the account
+          await accountLifecycleService.suspend(userId, 'Deleted by an administrator', {
+            ipAddress: ctx.req?.headers['x-forwarded-for'] as string ||
+                       ctx.req?.socket?.remoteAddress ||
+                       'unknown',
+            userAgent: ctx.req?.headers['user-agent'],
+            path: '/api/trpc/admin.deleteUser',
+            actorId: ctx.session.user.id,
           });
           return { deleted: true, permanent: false };
         }
@@ -683,6 +697,94 @@ export const adminRouter = createTRPCRouter({
       }
     }),
 
+  // Sign a user out on every device; their tokens stop working on the next request
+  forceLogout: adminProcedure
+    .input(z.object({
+      userId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await ctx.prisma.user.findUnique({
+        where: { id: input.userId },
+        select: { id: true },
+      });
+
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "User not found",
+        });
+      }
+
+      const revoked = await sessionRegistry.revokeAll(user.id, 'ADMIN', {
+        ipAddress: ctx.req?.headers['x-forwarded-for'] as string ||
+                   ctx.req?.socket?.remoteAddress ||
+                   'unknown',
+        userAgent: ctx.req?.headers['user-agent'],
+        path: '/api/trpc/admin.forceLogout',
+        actorId: ctx.session.user.id,
+      });
+
+      return { revoked };
+    }),
+
+  // Block sign-in and end all sessions; the reason is kept on the account and in the security log
+  suspendUser: adminProcedure
+    .input(z.object({
+      userId: z.string(),
+      reason: z.string().trim().min(1, "Give a reason").max(500),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.session.user.id === input.userId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Cannot suspend your own account",
+        });
+      }
+
+      try {
+        await accountLifecycleService.suspend(input.userId, input.reason, {
+          ipAddress: ctx.req?.headers['x-forwarded-for'] as string ||
+                     ctx.req?.socket?.remoteAddress ||
+                     'unknown',
+          userAgent: ctx.req?.headers['user-agent'],
+          path: '/api/trpc/admin.suspendUser',
+          actorId: ctx.session.user.id,
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to suspend user",
+        });
+      }
+
+      return { status: "SUSPENDED" as const };
+    }),
+
+  // Lift a suspension or cancel a pending deletion
+  reactivateUser: adminProcedure
+    .input(z.object({
+      userId: z.string(),
+      reason: z.string().trim().min(1, "Give a reason").max(500),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const status = await accountLifecycleService.reactivate(input.userId, input.reason, {
+          ipAddress: ctx.req?.headers['x-forwarded-for'] as string ||
+                     ctx.req?.socket?.remoteAddress ||
+                     'unknown',
+          userAgent: ctx.req?.headers['user-agent'],
+          path: '/api/trpc/admin.reactivateUser',
+          actorId: ctx.session.user.id,
+        });
+        return { status };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to reactivate user",
+        });
+      }
+    }),
+
   // Create new user
   createUser: adminProcedure
     .input(z.object({
@@ -1979,6 +2081,11 @@ export const adminRouter = createTRPCRouter({
       url: z.string().url(),
       forecasterId: z.string().optional(),
       extractAll: z.boolean().default(false),
+      // Provider chain for this run; defaults to the deployment's LLM_PROVIDER/LLM_FALLBACKS
+      llm: z.array(z.object({
+        provider: z.enum(LLM_PROVIDERS),
+        model: z.string().min(1).optional(),
+      })).optional(),
     }))
     .mutation(async ({ ctx, input }) => {
       try {
@@ -2019,7 +2126,7 @@ export const adminRouter = createTRPCRouter({
           transcript: '',
           description: '',
           publishedAt: new Date()
-        })
+        }, { llm: input.llm })
           .then(async (predictions) => {
             await ctx.prisma.job.update({
               where: { id: job.id },
@@ -2259,45 +2366,20 @@ export const adminRouter = createTRPCRouter({
   getCronStatus: adminProcedure
     .query(async ({ ctx }) => {
       try {
-        // Define cron jobs with their schedules
-        const cronJobs = [
-          {
-            name: "Asset Price Updates",
-            schedule: "*/5 * * * *",
-            description: "Updates cryptocurrency and stock prices",
-            nextRun: getNextCronRun("*/5 * * * *"),
-          },
-          {
-            name: "Prediction Validation",
-            schedule: "*/15 * * * *",
-            description: "Validates predictions based on target dates and prices",
-            nextRun: getNextCronRun("*/15 * * * *"),
-          },
-          {
-            name: "Content Collection",
-            schedule: "0 * * * *",
-            description: "Collects new content from YouTube and Twitter",
-            nextRun: getNextCronRun("0 * * * *"),
-          },
-          {
-            name: "Brier Score Calculation",
-            schedule: "0 0 * * *",
-            description: "Calculates Brier scores for forecasters",
-            nextRun: getNextCronRun("0 0 * * *"),
-          },
-          {
-            name: "Rankings Update",
-            schedule: "0 1 * * *",
-            description: "Updates forecaster rankings",
-            nextRun: getNextCronRun("0 1 * * *"),
-          },
-          {
-            name: "Cleanup Jobs",
-            schedule: "0 2 * * *",
-            description: "Cleans up old jobs and events",
-            nextRun: getNextCronRun("0 2 * * *"),
-          },
-        ];
+        // Schedules are synced from CronService on startup
+        const schedules = await ctx.prisma.jobSchedule.findMany({
+          orderBy: { nextRunAt: 'asc' },
+        });
+
+        const cronJobs = schedules.map(schedule => ({
+          type: schedule.type,
+          name: schedule.type.replace(/_/g, " "),
+          schedule: schedule.cron,
+          description: schedule.description ?? "",
+          isPaused: schedule.isPaused,
+          lastRun: schedule.lastRunAt,
+          nextRun: schedule.nextRunAt,
+        }));
 
         // Get recent job history
         const recentJobs = await ctx.prisma.job.findMany({
@@ -2307,6 +2389,10 @@ export const adminRouter = createTRPCRouter({
             id: true,
             type: true,
             status: true,
+            attempts: true,
+            maxAttempts: true,
+            scheduledFor: true,
+            lockedBy: true,
             createdAt: true,
             completedAt: true,
             error: true,
@@ -2314,11 +2400,13 @@ export const adminRouter = createTRPCRouter({
         });
 
         // Calculate job statistics
-        const [totalJobs, completedJobs, failedJobs, runningJobs] = await Promise.all([
+        const [totalJobs, completedJobs, failedJobs, runningJobs, pendingJobs, deadJobs] = await Promise.all([
           ctx.prisma.job.count(),
           ctx.prisma.job.count({ where: { status: "COMPLETED" } }),
           ctx.prisma.job.count({ where: { status: "FAILED" } }),
           ctx.prisma.job.count({ where: { status: "RUNNING" } }),
+          ctx.prisma.job.count({ where: { status: "PENDING" } }),
+          ctx.prisma.job.count({ where: { status: "DEAD" } }),
         ]);
 
         return {
@@ -2329,6 +2417,8 @@ export const adminRouter = createTRPCRouter({
             completed: completedJobs,
             failed: failedJobs,
             running: runningJobs,
+            pending: pendingJobs,
+            dead: deadJobs,
             successRate: totalJobs > 0 ? ((completedJobs / totalJobs) * 100).toFixed(1) : "0",
           },
         };
@@ -2388,19 +2478,22 @@ export const adminRouter = createTRPCRouter({
           });
         }
 
-        if (job.status !== "RUNNING") {
+        if (job.status !== "RUNNING" && job.status !== "PENDING") {
           throw new TRPCError({
             code: "BAD_REQUEST",
-            message: "Job is not running",
+            message: "Only pending or running jobs can be cancelled",
           });
         }
 
+        // Releasing the lease stops the worker from recording a result
         const updatedJob = await ctx.prisma.job.update({
           where: { id: input.id },
           data: {
             status: "CANCELLED",
             completedAt: new Date(),
             error: "Cancelled by admin",
+            lockedBy: null,
+            lockedUntil: null,
           },
         });
 
@@ -2418,6 +2511,516 @@ export const adminRouter = createTRPCRouter({
       }
     }),
 
+  // Re-queue a failed, dead-lettered or cancelled job with fresh attempts
+  retryJob: adminProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const job = await ctx.prisma.job.findUnique({
+          where: { id: input.id },
+        });
+
+        if (!job) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Job not found",
+          });
+        }
+
+        if (!["FAILED", "DEAD", "CANCELLED"].includes(job.status)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Only failed, dead or cancelled jobs can be retried",
+          });
+        }
+
+        const updatedJob = await jobQueue.retry(input.id);
+
+        return {
+          job: updatedJob,
+          message: "Job queued for retry",
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Error retrying job:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to retry job",
+        });
+      }
+    }),
+
+  // Pause or resume a recurring cron job
+  setCronJobPaused: adminProcedure
+    .input(z.object({
+      type: z.string(),
+      paused: z.boolean(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const schedule = await ctx.prisma.jobSchedule.findUnique({
+          where: { type: input.type },
+        });
+
+        if (!schedule) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Cron job not found",
+          });
+        }
+
+        const updated = await jobQueue.setSchedulePaused(input.type, input.paused);
+
+        return {
+          schedule: updated,
+          message: input.paused ? "Cron job paused" : "Cron job resumed",
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Error updating cron job:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update cron job",
+        });
+      }
+    }),
+
+  // ====================================
+  // CONTENT PIPELINE ENDPOINTS
+  // ====================================
+
+  // Count and oldest item per pipeline state, plus recent failures
+  getContentPipeline: adminProcedure
+    .query(async () => {
+      try {
+        return await services.contentPipeline.getBoard();
+      } catch (error) {
+        console.error("Error fetching content pipeline:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch content pipeline",
+        });
+      }
+    }),
+
+  // Send a failed or processed item back to the start of a stage
+  retryContentFromStage: adminProcedure
+    .input(z.object({
+      contentId: z.string(),
+      stage: z.enum(["download", "transcribe", "extract"]),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await services.contentPipeline.retryFromStage(input.contentId, input.stage, ctx.session.user.id);
+
+        return {
+          message: `Content queued to retry from ${input.stage}`,
+        };
+      } catch (error) {
+        console.error("Error retrying content:", error);
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to retry content",
+        });
+      }
+    }),
+
+  // Prompt registry and how much processed content each version produced
+  getPromptVersions: adminProcedure
+    .query(async () => {
+      try {
+        const counts = await services.contentPipeline.getPromptVersionCounts();
+
+        return {
+          current: CURRENT_PROMPT_VERSION,
+          templates: Object.values(EXTRACTION_PROMPTS).map(template => ({
+            version: template.version,
+            description: template.description,
+            introducedAt: template.introducedAt,
+          })),
+          content: counts,
+        };
+      } catch (error) {
+        console.error("Error fetching prompt versions:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch prompt versions",
+        });
+      }
+    }),
+
+  // Re-run extraction with the current prompt for content from an older version
+  reextractContent: adminProcedure
+    .input(z.object({
+      promptVersion: z.string().min(1),
+      limit: z.number().min(1).max(500).default(50),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const requeued = await services.contentPipeline.requeueForReextraction(
+          input.promptVersion,
+          input.limit,
+          ctx.session.user.id
+        );
+
+        return {
+          requeued,
+          message: `${requeued} items queued for re-extraction with prompt ${CURRENT_PROMPT_VERSION}`,
+        };
+      } catch (error) {
+        console.error("Error queueing re-extraction:", error);
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to queue re-extraction",
+        });
+      }
+    }),
+
+  // Borderline extractions waiting for an admin decision
+  getReviewQueue: adminProcedure
+    .input(z.object({
+      status: z.enum(REVIEW_STATUSES).default("PENDING"),
+      page: z.number().min(1).default(1),
+      limit: z.number().min(1).max(100).default(20),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await services.reviewQueue.list(input);
+      } catch (error) {
+        console.error("Error fetching review queue:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch review queue",
+        });
+      }
+    }),
+
+  // Approve a queued prediction, with optional corrections
+  approveReview: adminProcedure
+    .input(z.object({
+      id: z.string(),
+      edits: z.object({
+        assetSymbol: z.string().min(1).max(20).optional(),
+        assetType: z.enum(["CRYPTO", "STOCK", "ETF", "INDEX", "COMMODITY", "CURRENCY", "BOND", "OPTION", "FUTURE"]).optional(),
+        direction: z.enum(["bullish", "bearish", "neutral"]).optional(),
+        targetPrice: z.number().positive().nullable().optional(),
+        targetDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+      }).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { predictionId } = await services.reviewQueue.approve(input.id, ctx.session.user.id, input.edits);
+
+        return {
+          predictionId,
+          message: input.edits ? "Prediction corrected and approved" : "Prediction approved",
+        };
+      } catch (error) {
+        console.error("Error approving review:", error);
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to approve prediction",
+        });
+      }
+    }),
+
+  rejectReview: adminProcedure
+    .input(z.object({
+      id: z.string(),
+      notes: z.string().max(500).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await services.reviewQueue.reject(input.id, ctx.session.user.id, input.notes);
+
+        return { message: "Prediction rejected" };
+      } catch (error) {
+        console.error("Error rejecting review:", error);
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to reject prediction",
+        });
+      }
+    }),
+
+  // Derive target dates from timeframe phrases for pending predictions without one
+  backfillTimeframes: adminProcedure
+    .input(z.object({
+      dryRun: z.boolean().default(true),
+      retryUnresolvable: z.boolean().default(false),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const result = await services.timeframeBackfill.backfill({
+          dryRun: input.dryRun,
+          retryUnresolvable: input.retryUnresolvable,
+          userId: ctx.session.user.id,
+        });
+
+        return {
+          ...result,
+          message: `${input.dryRun ? "Dry run: " : ""}${result.resolved} predictions dated, ${result.unresolvable} unresolvable`,
+        };
+      } catch (error) {
+        console.error("Error backfilling timeframes:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to backfill timeframes",
+        });
+      }
+    }),
+
+  // Load the daily Fear & Greed series and tag predictions with the regime they were made in
+  backfillSentimentHistory: adminProcedure
+    .input(z.object({
+      days: z.number().int().min(1).max(3650).optional(),
+      source: z.enum(["alternative.me", "fixture"]).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const result = await services.sentimentHistory.backfill(input);
+        const tagged = await services.sentimentHistory.tagPredictions();
+
+        return {
+          ...result,
+          tagged,
+          message: `${result.stored} daily readings stored from ${result.source}, ${tagged} predictions tagged`,
+        };
+      } catch (error) {
+        console.error("Error backfilling sentiment history:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to backfill sentiment history",
+        });
+      }
+    }),
+
+  // Assets with their resolution aliases
+  getAssetCatalog: adminProcedure
+    .input(z.object({
+      search: z.string().max(50).optional(),
+      page: z.number().min(1).default(1),
+      limit: z.number().min(1).max(100).default(25),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await services.assetResolution.listCatalog(input);
+      } catch (error) {
+        console.error("Error fetching asset catalog:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch asset catalog",
+        });
+      }
+    }),
+
+  // Show how a symbol would resolve, optionally with surrounding text
+  resolveAsset: adminProcedure
+    .input(z.object({
+      symbol: z.string().min(1).max(50),
+      type: z.enum(ASSET_TYPES).optional(),
+      context: z.string().max(2000).optional(),
+    }))
+    .query(async ({ input }) => {
+      return services.assetResolution.resolve({ symbol: input.symbol, type: input.type }, input.context);
+    }),
+
+  addAssetAlias: adminProcedure
+    .input(z.object({
+      assetId: z.string(),
+      alias: z.string().min(1).max(50),
+      kind: z.enum(ALIAS_KINDS).default("NAME"),
+      priority: z.number().int().min(0).max(10).default(0),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const alias = await services.assetResolution.addAlias(input.assetId, input.alias, input.kind, input.priority);
+
+        return { alias, message: `Alias "${alias.alias}" added` };
+      } catch (error) {
+        console.error("Error adding asset alias:", error);
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to add alias",
+        });
+      }
+    }),
+
+  removeAssetAlias: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        const alias = await services.assetResolution.removeAlias(input.id);
+
+        return { message: `Alias "${alias.alias}" removed` };
+      } catch (error) {
+        console.error("Error removing asset alias:", error);
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to remove alias",
+        });
+      }
+    }),
+
+  // Copy the built-in aliases onto assets that still inherit them
+  importDefaultAssetAliases: adminProcedure
+    .mutation(async () => {
+      try {
+        const result = await services.assetResolution.importDefaultAliases();
+
+        return { ...result, message: `Imported ${result.aliases} aliases for ${result.assets} assets` };
+      } catch (error) {
+        console.error("Error importing default aliases:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to import default aliases",
+        });
+      }
+    }),
+
+  getDuplicateAssets: adminProcedure
+    .query(async () => {
+      try {
+        return await services.assetResolution.findDuplicateAssets();
+      } catch (error) {
+        console.error("Error finding duplicate assets:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to find duplicate assets",
+        });
+      }
+    }),
+
+  // Fold a duplicate asset into another, moving its predictions and price history
+  mergeAssets: adminProcedure
+    .input(z.object({
+      sourceId: z.string(),
+      targetId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const result = await services.assetResolution.mergeAssets(input.sourceId, input.targetId, ctx.session.user.id);
+
+        return {
+          ...result,
+          message: `Merged: ${result.predictions} predictions and ${result.priceHistory} price points moved`,
+        };
+      } catch (error) {
+        console.error("Error merging assets:", error);
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to merge assets",
+        });
+      }
+    }),
+
+  // Circuit state and latency/error rates per price provider, plus recent cross-check failures
+  getMarketDataProviders: adminProcedure
+    .query(async ({ ctx }) => {
+      const outliers = await ctx.prisma.event.findMany({
+        where: {
+          type: "PRICE_OUTLIER",
+          createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+        },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      });
+
+      return {
+        providers: marketDataProviders.health(),
+        outliers: outliers.map(event => ({
+          id: event.id,
+          assetId: event.entityId,
+          createdAt: event.createdAt,
+          ...(event.data as { symbol: string; status: string; reason: string }),
+        })),
+      };
+    }),
+
+  // Close a provider's circuit by hand, e.g. once an outage is known to be over
+  resetMarketDataProvider: adminProcedure
+    .input(z.object({
+      source: z.enum(MARKET_DATA_SOURCES),
+    }))
+    .mutation(async ({ input }) => {
+      marketDataProviders.reset(input.source);
+
+      return { message: `${input.source} circuit reset` };
+    }),
+
+  // Queue a candle backfill for one asset, e.g. after adding it by hand or merging duplicates
+  backfillAssetCandles: adminProcedure
+    .input(z.object({
+      assetId: z.string(),
+      days: z.number().int().min(1).max(730).default(365),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const job = await services.priceBackfill.requestBackfill(
+          input.assetId,
+          new Date(Date.now() - input.days * 24 * 60 * 60 * 1000)
+        );
+
+        return {
+          jobId: job.id,
+          message: `Backfill of the last ${input.days} days queued`,
+        };
+      } catch (error) {
+        console.error("Error queuing candle backfill:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to queue candle backfill",
+        });
+      }
+    }),
+
+  // Benchmarks that predictions are scored against, per asset type, sector and symbol
+  getBenchmarkSettings: adminProcedure
+    .query(async () => {
+      return services.benchmarkScoring.getSettings();
+    }),
+
+  // Changing benchmarks only affects new scores unless `rescore` clears the old ones
+  updateBenchmarkSettings: adminProcedure
+    .input(z.object({
+      byType: z.record(z.enum(ASSET_TYPES), z.array(benchmarkRefSchema).min(1)).optional(),
+      bySector: z.record(z.string(), benchmarkRefSchema).optional(),
+      bySymbol: z.record(z.string(), benchmarkRefSchema).optional(),
+      minPredictions: z.number().int().min(1).max(100).optional(),
+      rescore: z.boolean().default(false),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { rescore, ...changes } = input;
+
+      try {
+        const settings = await services.benchmarkScoring.updateSettings(
+          Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+          ctx.session.user.id
+        );
+
+        let cleared = 0;
+        if (rescore) {
+          cleared = await services.benchmarkScoring.resetScores();
+          await jobQueue.enqueue(BENCHMARK_SCORING_JOB, { all: true });
+        }
+
+        return {
+          settings,
+          message: rescore
+            ? `Benchmarks updated; ${cleared} scores cleared and queued for rescoring`
+            : "Benchmarks updated",
+        };
+      } catch (error) {
+        console.error("Error updating benchmark settings:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update benchmark settings",
+        });
+      }
+    }),
+
   // Update forecaster profile
   updateForecaster: adminProcedure
     .input(z.object({
@@ -2676,49 +3279,3 @@ async function calculateUserGrowth(ctx: any): Promise<number> {
     return 0;
   }
 }
-
-// Helper function to calculate next cron run time
-function getNextCronRun(cronExpression: string): Date {
-  const now = new Date();
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = cronExpression.split(' ');
-
-  // Simple calculation for common patterns
-  if (minute && minute.startsWith('*/')) {
-    const interval = parseInt(minute.substring(2));
-    const nextMinute = Math.ceil(now.getMinutes() / interval) * interval;
-    const next = new Date(now);
-    next.setMinutes(nextMinute);
-    next.setSeconds(0);
-    if (next <= now) {
-      next.setMinutes(next.getMinutes() + interval);
-    }
-    return next;
-  }
-
-  if (minute === '0' && hour && hour === '*') {
-    // Every hour
-    const next = new Date(now);
-    next.setHours(now.getHours() + 1);
-    next.setMinutes(0);
-    next.setSeconds(0);
-    return next;
-  }
-
-  if (minute === '0' && hour !== '*') {
-    // Daily at specific hour
-    const next = new Date(now);
-    next.setHours(parseInt(hour || '0'));
-    next.setMinutes(0);
-    next.setSeconds(0);
-    if (next <= now) {
-      next.setDate(next.getDate() + 1);
-    }
-    return next;
-  }
-
-  // Default: return next minute for unsupported patterns
-  const next = new Date(now);
-  next.setMinutes(now.getMinutes() + 1);
-  next.setSeconds(0);
-  return next;
-}
\ No newline at end of file
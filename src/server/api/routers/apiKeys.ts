@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { services } from "@/server/services";
+import { API_PLANS, API_SCOPES } from "@/server/services/apiKeys";
+
+export const apiKeysRouter = createTRPCRouter({
+  // The caller's keys, newest first; the key itself is never returned again
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return services.apiKeys.list(ctx.session.user.id);
+  }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(60),
+        scopes: z.array(z.enum(API_SCOPES)).min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await services.apiKeys.create(ctx.session.user.id, input);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to create API key",
+        });
+      }
+    }),
+
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await services.apiKeys.revoke(ctx.session.user.id, input.id);
+        return { success: true };
+      } catch (error) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: error instanceof Error ? error.message : "API key not found",
+        });
+      }
+    }),
+
+  // This month's metered requests for the billing page
+  getUsage: protectedProcedure.query(async ({ ctx }) => {
+    return services.apiKeys.usage(ctx.session.user.id);
+  }),
+
+  // Scopes and plan limits for the settings page
+  getOptions: protectedProcedure.query(() => ({
+    scopes: [...API_SCOPES],
+    plans: API_PLANS,
+  })),
+});
@@ -5,10 +5,14 @@ import {
   adminProcedure,
 } from "../trpc";
 import { PriceTrackingService } from "../../services/priceTracking";
+import { services } from "@/server/services";
 import { TRPCError } from "@trpc/server";
 
 const priceTracker = new PriceTrackingService();
 
+// Raw ticks stay at the old 30-day cap; hourly candles reach back 90 days, daily two years
+const MAX_HISTORY_HOURS = { raw: 720, "1h": 2160, "1d": 17520 } as const;
+
 export const assetsRouter = createTRPCRouter({
   getAll: publicProcedure
     .input(
@@ -109,11 +113,16 @@ export const assetsRouter = createTRPCRouter({
     .input(
       z.object({
         assetId: z.string(),
-        hours: z.number().min(1).max(720).default(24),
+        hours: z.number().min(1).max(17520).default(24),
+        resolution: z.enum(["raw", "1h", "1d"]).default("raw"),
+      })
+      .refine(input => input.hours <= MAX_HISTORY_HOURS[input.resolution], {
+        message: "Range too long for this resolution",
+        path: ["hours"],
       })
     )
     .query(async ({ ctx, input }) => {
-      const { assetId, hours } = input;
+      const { assetId, hours, resolution } = input;
 
       // Verify asset exists
       const asset = await ctx.prisma.asset.findUnique({
@@ -127,7 +136,7 @@ export const assetsRouter = createTRPCRouter({
         });
       }
 
-      const history = await priceTracker.getPriceHistory(assetId, hours);
+      const history = await priceTracker.getPriceHistory(assetId, hours, resolution);
 
       return {
         asset,
@@ -135,6 +144,29 @@ export const assetsRouter = createTRPCRouter({
       };
     }),
 
+  getConsensus: publicProcedure
+    .input(z.object({ assetId: z.string() }))
+    .query(async ({ input }) => {
+      let consensus;
+      try {
+        consensus = await services.consensus.forAsset(input.assetId);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to build consensus",
+        });
+      }
+
+      if (!consensus) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Asset not found",
+        });
+      }
+
+      return consensus;
+    }),
+
   create: adminProcedure
     .input(
       z.object({
@@ -161,6 +193,15 @@ export const assetsRouter = createTRPCRouter({
         });
       }
 
+      // Catch the same asset under another spelling, e.g. SOLUSDT or Solana for SOL
+      const resolution = await services.assetResolution.resolve({ symbol: input.symbol, name: input.name, type: input.type });
+      if (resolution.assetId) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `"${input.symbol}" already resolves to ${resolution.symbol} (${resolution.type})`,
+        });
+      }
+
       const asset = await ctx.prisma.asset.create({
         data: {
           symbol: input.symbol,
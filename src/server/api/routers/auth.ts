@@ -10,7 +10,12 @@ import {
   passwordSchema,
   validatePassword,
   securityLogger,
+  twoFactorService,
+  sessionRegistry,
+  linkedAccountService,
+  accountLifecycleService,
 } from "../../security";
+import { services } from "../../services";
 
 export const authRouter = createTRPCRouter({
   register: publicProcedure
@@ -87,6 +92,7 @@ export const authRouter = createTRPCRouter({
           passwordHash,
           fullName,
           role: "FREE",
+          status: "UNVERIFIED",
           settings: {
             notifications: { email: true, push: false },
             theme: "light",
@@ -110,6 +116,13 @@ export const authRouter = createTRPCRouter({
       // Log successful registration
       await securityLogger.logAuthSuccess(user.id, ipAddress, userAgent);
 
+      // The account works without it; the link can be resent from settings
+      try {
+        await accountLifecycleService.sendVerification(user.id);
+      } catch (error) {
+        console.error("Failed to send verification email:", error);
+      }
+
       return {
         success: true,
         user,
@@ -218,43 +231,334 @@ export const authRouter = createTRPCRouter({
       return user;
     }),
 
-  deleteAccount: protectedProcedure
+  getTwoFactorStatus: protectedProcedure.query(async ({ ctx }) => {
+    return twoFactorService.getStatus(ctx.session.user.id);
+  }),
+
+  // Secret and QR code for the authenticator app; not enforced until confirmed
+  beginTwoFactorSetup: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      return await twoFactorService.beginEnrollment(ctx.session.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: error instanceof Error ? error.message : "Failed to start two-factor setup",
+      });
+    }
+  }),
+
+  confirmTwoFactorSetup: protectedProcedure
+    .input(
+      z.object({
+        code: z.string().trim().min(6).max(8),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const ipAddress = ctx.req?.headers['x-forwarded-for'] as string ||
+                       ctx.req?.headers['x-real-ip'] as string ||
+                       ctx.req?.socket?.remoteAddress ||
+                       'unknown';
+      const userAgent = ctx.req?.headers['user-agent'];
+
+      try {
+        const recoveryCodes = await twoFactorService.confirmEnrollment(ctx.session.user.id, input.code, {
+          ipAddress,
+          userAgent,
+          path: '/api/trpc/auth.confirmTwoFactorSetup',
+        });
+
+        return { success: true, recoveryCodes };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to enable two-factor authentication",
+        });
+      }
+    }),
+
+  disableTwoFactor: protectedProcedure
     .input(
       z.object({
-        confirmPassword: z.string(),
+        password: z.string().optional(), // Accounts without a password rely on the code alone
+        code: z.string().trim().min(6).max(11),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      const ipAddress = ctx.req?.headers['x-forwarded-for'] as string ||
+                       ctx.req?.headers['x-real-ip'] as string ||
+                       ctx.req?.socket?.remoteAddress ||
+                       'unknown';
+      const userAgent = ctx.req?.headers['user-agent'];
+
       const user = await ctx.prisma.user.findUnique({
         where: { id: ctx.session.user.id },
       });
 
-      if (!user || !user.passwordHash) {
+      if (!user) {
         throw new TRPCError({
           code: "NOT_FOUND",
           message: "User not found",
         });
       }
 
-      const isValid = await bcrypt.compare(
-        input.confirmPassword,
-        user.passwordHash
-      );
-
-      if (!isValid) {
+      if (user.passwordHash && !(await bcrypt.compare(input.password ?? "", user.passwordHash))) {
         throw new TRPCError({
           code: "UNAUTHORIZED",
           message: "Invalid password",
         });
       }
 
-      await ctx.prisma.user.delete({
-        where: { id: ctx.session.user.id },
+      try {
+        await twoFactorService.disable(user.id, input.code, {
+          ipAddress,
+          userAgent,
+          path: '/api/trpc/auth.disableTwoFactor',
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to disable two-factor authentication",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  // Replaces every unused recovery code; the new ones are only returned here
+  regenerateRecoveryCodes: protectedProcedure
+    .input(
+      z.object({
+        code: z.string().trim().min(6).max(11),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const ipAddress = ctx.req?.headers['x-forwarded-for'] as string ||
+                       ctx.req?.headers['x-real-ip'] as string ||
+                       ctx.req?.socket?.remoteAddress ||
+                       'unknown';
+      const userAgent = ctx.req?.headers['user-agent'];
+
+      try {
+        const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(ctx.session.user.id, input.code, {
+          ipAddress,
+          userAgent,
+          path: '/api/trpc/auth.regenerateRecoveryCodes',
+        });
+
+        return { recoveryCodes };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to regenerate recovery codes",
+        });
+      }
+    }),
+
+  // Devices currently signed in to this account
+  getSessions: protectedProcedure.query(async ({ ctx }) => {
+    return sessionRegistry.list(ctx.session.user.id, ctx.session.user.sessionId);
+  }),
+
+  revokeSession: protectedProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const ipAddress = ctx.req?.headers['x-forwarded-for'] as string ||
+                       ctx.req?.headers['x-real-ip'] as string ||
+                       ctx.req?.socket?.remoteAddress ||
+                       'unknown';
+      const userAgent = ctx.req?.headers['user-agent'];
+
+      try {
+        await sessionRegistry.revoke(ctx.session.user.id, input.sessionId, {
+          ipAddress,
+          userAgent,
+          path: '/api/trpc/auth.revokeSession',
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: error instanceof Error ? error.message : "Session not found",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  revokeOtherSessions: protectedProcedure.mutation(async ({ ctx }) => {
+    const ipAddress = ctx.req?.headers['x-forwarded-for'] as string ||
+                     ctx.req?.headers['x-real-ip'] as string ||
+                     ctx.req?.socket?.remoteAddress ||
+                     'unknown';
+    const userAgent = ctx.req?.headers['user-agent'];
+
+    const revoked = await sessionRegistry.revokeOthers(ctx.session.user.id, ctx.session.user.sessionId ?? "", {
+      ipAddress,
+      userAgent,
+      path: '/api/trpc/auth.revokeOtherSessions',
+    });
+
+    return { success: true, revoked };
+  }),
+
+  // OAuth identities plus which other sign-in methods the account has
+  getLinkedAccounts: protectedProcedure.query(async ({ ctx }) => {
+    return linkedAccountService.overview(ctx.session.user.id);
+  }),
+
+  unlinkAccount: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const ipAddress = ctx.req?.headers['x-forwarded-for'] as string ||
+                       ctx.req?.headers['x-real-ip'] as string ||
+                       ctx.req?.socket?.remoteAddress ||
+                       'unknown';
+      const userAgent = ctx.req?.headers['user-agent'];
+
+      try {
+        await linkedAccountService.unlink(ctx.session.user.id, input.accountId, {
+          ipAddress,
+          userAgent,
+          path: '/api/trpc/auth.unlinkAccount',
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to disconnect account",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  // Status, verification and any scheduled deletion for the settings page
+  getAccountStatus: protectedProcedure.query(async ({ ctx }) => {
+    return accountLifecycleService.summary(ctx.session.user.id);
+  }),
+
+  resendVerificationEmail: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      await accountLifecycleService.sendVerification(ctx.session.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: error instanceof Error ? error.message : "Failed to send verification email",
       });
+    }
+
+    return { success: true };
+  }),
+
+  verifyEmail: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const ipAddress = ctx.req?.headers['x-forwarded-for'] as string ||
+                       ctx.req?.headers['x-real-ip'] as string ||
+                       ctx.req?.socket?.remoteAddress ||
+                       'unknown';
+      const userAgent = ctx.req?.headers['user-agent'];
+
+      try {
+        await accountLifecycleService.verifyEmail(input.token, {
+          ipAddress,
+          userAgent,
+          path: '/api/trpc/auth.verifyEmail',
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to verify email",
+        });
+      }
 
       return { success: true };
     }),
 
+  // Recent "download my data" requests; the archive itself is only sent by email link
+  getDataExports: protectedProcedure.query(async ({ ctx }) => {
+    return services.dataExport.list(ctx.session.user.id);
+  }),
+
+  requestDataExport: protectedProcedure.mutation(async ({ ctx }) => {
+    const ipAddress = ctx.req?.headers['x-forwarded-for'] as string ||
+                     ctx.req?.headers['x-real-ip'] as string ||
+                     ctx.req?.socket?.remoteAddress ||
+                     'unknown';
+    const userAgent = ctx.req?.headers['user-agent'];
+
+    try {
+      return await services.dataExport.request(ctx.session.user.id, {
+        ipAddress,
+        userAgent,
+        path: '/api/trpc/auth.requestDataExport',
+      });
+    } catch (error) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: error instanceof Error ? error.message : "Failed to request data export",
+      });
+    }
+  }),
+
+  // Deleted after a grace period; signing in again before then cancels it
+  deleteAccount: protectedProcedure
+    .input(
+      z.object({
+        confirmPassword: z.string().optional(), // Accounts without a password skip this
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const ipAddress = ctx.req?.headers['x-forwarded-for'] as string ||
+                       ctx.req?.headers['x-real-ip'] as string ||
+                       ctx.req?.socket?.remoteAddress ||
+                       'unknown';
+      const userAgent = ctx.req?.headers['user-agent'];
+
+      const user = await ctx.prisma.user.findUnique({
+        where: { id: ctx.session.user.id },
+      });
+
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "User not found",
+        });
+      }
+
+      if (user.passwordHash) {
+        const isValid = await bcrypt.compare(
+          input.confirmPassword ?? "",
+          user.passwordHash
+        );
+
+        if (!isValid) {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Invalid password",
+          });
+        }
+      }
+
+      const deletionScheduledAt = await accountLifecycleService.scheduleDeletion(user.id, {
+        ipAddress,
+        userAgent,
+        path: '/api/trpc/auth.deleteAccount',
+      });
+
+      return { success: true, deletionScheduledAt };
+    }),
+
   forgotPassword: publicProcedure
     .input(
       z.object({
@@ -426,6 +730,13 @@ export const authRouter = createTRPCRouter({
         },
       });
 
+      // A reset means the old password may be known to someone else
+      await sessionRegistry.revokeAll(user.id, 'PASSWORD_CHANGED', {
+        ipAddress,
+        userAgent,
+        path: '/api/trpc/auth.resetPassword',
+      });
+
       // Log successful password reset
       await securityLogger.log({
         type: 'PASSWORD_CHANGE',
@@ -569,6 +880,13 @@ export const authRouter = createTRPCRouter({
         data: { passwordHash },
       });
 
+      // Keep this device signed in; anyone holding the old password is logged out
+      await sessionRegistry.revokeOthers(user.id, ctx.session.user.sessionId ?? "", {
+        ipAddress,
+        userAgent,
+        path: '/api/trpc/auth.changePassword',
+      }, 'PASSWORD_CHANGED');
+
       // Log successful password change
       await securityLogger.log({
         type: 'PASSWORD_CHANGE',
@@ -3,6 +3,7 @@ import {
   createTRPCRouter,
   publicProcedure,
   protectedProcedure,
+  verifiedProcedure,
   adminProcedure,
 } from "../trpc";
 import { TRPCError } from "@trpc/server";
@@ -71,7 +72,7 @@ export const commentsRouter = createTRPCRouter({
     }),
 
   // Create a new comment
-  create: protectedProcedure
+  create: verifiedProcedure
     .input(
       z.object({
         content: z.string().min(1).max(1000),
@@ -139,7 +140,7 @@ export const commentsRouter = createTRPCRouter({
     }),
 
   // Update a comment (only by author)
-  update: protectedProcedure
+  update: verifiedProcedure
     .input(
       z.object({
         id: z.string(),
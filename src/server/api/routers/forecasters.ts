@@ -2,6 +2,7 @@ import { createTRPCRouter, adminProcedure, publicProcedure } from "@/server/api/
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { cronService } from "@/server/services";
+import { LLM_PROVIDERS } from "@/server/services/llm/types";
 
 export const forecastersRouter = createTRPCRouter({
   getAll: publicProcedure
@@ -578,10 +579,21 @@ export const forecastersRouter = createTRPCRouter({
         isPrimary: z.boolean().optional(),
         isActive: z.boolean().optional(),
         checkInterval: z.number().min(60).optional(),
+        // Extraction provider chain for this channel; null resets to the default
+        llm: z
+          .array(
+            z.object({
+              provider: z.enum(LLM_PROVIDERS),
+              model: z.string().min(1).optional(),
+            })
+          )
+          .min(1)
+          .nullable()
+          .optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { channelId, checkInterval, ...updates } = input;
+      const { channelId, checkInterval, llm, ...updates } = input;
 
       const existingChannel = await ctx.prisma.forecasterChannel.findUnique({
         where: { id: channelId },
@@ -615,12 +627,13 @@ export const forecastersRouter = createTRPCRouter({
 
       const updateData: any = { ...updates };
 
-      // Update collection settings if checkInterval provided
-      if (checkInterval !== undefined) {
+      // Update collection settings if checkInterval or llm provided
+      if (checkInterval !== undefined || llm !== undefined) {
         const currentSettings = existingChannel.collectionSettings as any;
         updateData.collectionSettings = {
           ...currentSettings,
-          checkInterval,
+          ...(checkInterval !== undefined && { checkInterval }),
+          ...(llm !== undefined && { llm }),
         };
       }
 
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
 import { marketSentimentService, MARKET_CONTEXT } from "@/server/services/marketSentiment";
+import { services } from "@/server/services";
 
 export const marketRouter = createTRPCRouter({
   /**
@@ -63,6 +64,26 @@ export const marketRouter = createTRPCRouter({
     }
   }),
 
+  /**
+   * Get the stored daily Fear & Greed series (oldest first)
+   */
+  getSentimentHistory: publicProcedure
+    .input(z.object({
+      days: z.number().min(1).max(3650).default(365)
+    }))
+    .query(async ({ input }) => {
+      const from = new Date(Date.now() - input.days * 24 * 60 * 60 * 1000);
+      const series = await services.sentimentHistory.getSeries(from);
+
+      return series.map(reading => ({
+        date: reading.day.toISOString().split('T')[0],
+        score: reading.score,
+        classification: reading.classification,
+        marketContext: reading.regime,
+        source: reading.source
+      }));
+    }),
+
   /**
    * Get market health status
    */
@@ -5,8 +5,11 @@ import {
   protectedProcedure,
   adminProcedure,
 } from "../trpc";
+import { TRPCError } from "@trpc/server";
 import { UnifiedExtractionService } from "../../services/extraction";
 import { YouTubeCollector, TwitterCollector } from "../../services/collectors";
+import { MARKET_CONTEXT } from "../../services/marketSentiment";
+import { services } from "@/server/services";
 
 const extractionService = new UnifiedExtractionService();
 const youtubeCollector = new YouTubeCollector();
@@ -39,6 +42,29 @@ export const predictionsRouter = createTRPCRouter({
       return prediction;
     }),
 
+  getPricePath: publicProcedure
+    .input(z.object({ predictionId: z.string() }))
+    .query(async ({ input }) => {
+      let path;
+      try {
+        path = await services.pricePath.forPrediction(input.predictionId);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to load price path",
+        });
+      }
+
+      if (!path) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Prediction not found",
+        });
+      }
+
+      return path;
+    }),
+
   getAll: publicProcedure
     .input(
       z.object({
@@ -47,15 +73,18 @@ export const predictionsRouter = createTRPCRouter({
         outcome: z.enum(["PENDING", "CORRECT", "INCORRECT", "PARTIALLY_CORRECT"]).optional(),
         forecasterId: z.string().optional(),
         assetId: z.string().optional(),
+        // Fear & Greed regime on the day the prediction was made
+        marketRegime: z.nativeEnum(MARKET_CONTEXT).optional(),
       })
     )
     .query(async ({ ctx, input }) => {
-      const { limit, offset, outcome, forecasterId, assetId } = input;
+      const { limit, offset, outcome, forecasterId, assetId, marketRegime } = input;
 
       const where = {
         ...(outcome && { outcome }),
         ...(forecasterId && { forecasterId }),
         ...(assetId && { assetId }),
+        ...(marketRegime && { marketRegime }),
       };
 
       const [predictions, total] = await Promise.all([
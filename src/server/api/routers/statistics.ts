@@ -1,8 +1,12 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import {
   createTRPCRouter,
   publicProcedure,
 } from "../trpc";
+import { services } from "@/server/services";
+import { ANALYTICS_WINDOWS, type AnalyticsWindow } from "@/server/services/forecasterAnalytics";
+import { type RegimeAccuracy } from "@/server/services/sentimentHistory";
 
 export const statisticsRouter = createTRPCRouter({
   // Get overall platform metrics
@@ -128,6 +132,107 @@ export const statisticsRouter = createTRPCRouter({
     };
   }),
 
+  // Accuracy, Brier score, returns and hit rate for one forecaster, split by
+  // asset type, asset, horizon, direction, market regime and source, with a
+  // rolling series over the window
+  getForecasterAnalytics: publicProcedure
+    .input(z.object({
+      forecasterId: z.string(),
+      window: z.enum(Object.keys(ANALYTICS_WINDOWS) as [AnalyticsWindow, ...AnalyticsWindow[]]).default("all"),
+      rollingDays: z.number().int().min(7).max(365).default(90)
+    }))
+    .query(async ({ input }) => {
+      const analytics = await services.forecasterAnalytics.getAnalytics(input.forecasterId, {
+        window: input.window,
+        rollingDays: input.rollingDays
+      });
+
+      if (!analytics) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Forecaster not found" });
+      }
+
+      return analytics;
+    }),
+
+  // Get Brier score history for a forecaster (newest first)
+  getForecasterScoreHistory: publicProcedure
+    .input(z.object({
+      forecasterId: z.string(),
+      limit: z.number().min(1).max(365).default(90)
+    }))
+    .query(async ({ ctx, input }) => {
+      const scores = await ctx.prisma.forecasterScore.findMany({
+        where: { forecasterId: input.forecasterId },
+        orderBy: { calculatedAt: "desc" },
+        take: input.limit
+      });
+
+      return scores.map(score => ({
+        brierScore: score.brierScore,
+        reliability: score.reliability,
+        resolution: score.resolution,
+        uncertainty: score.uncertainty,
+        calibration: score.calibration,
+        multiCategoryBrier: score.multiCategoryBrier,
+        sampleSize: score.sampleSize,
+        calculatedAt: score.calculatedAt.toISOString()
+      }));
+    }),
+
+  // Get daily rank history for a forecaster (oldest first)
+  getRankHistory: publicProcedure
+    .input(z.object({
+      forecasterId: z.string(),
+      days: z.number().min(1).max(365).default(30)
+    }))
+    .query(async ({ input }) => {
+      const snapshots = await services.ranking.getRankHistory(input.forecasterId, input.days);
+
+      return snapshots.map(snapshot => ({
+        date: snapshot.snapshotDate.toISOString().split('T')[0],
+        rank: snapshot.rank,
+        rankingScore: snapshot.rankingScore,
+        accuracy: snapshot.accuracy,
+        brierScore: snapshot.brierScore
+      }));
+    }),
+
+  // Compare the leaderboard between two dates
+  getLeaderboardDiff: publicProcedure
+    .input(z.object({
+      from: z.coerce.date(),
+      to: z.coerce.date()
+    }))
+    .query(async ({ ctx, input }) => {
+      const diff = await services.ranking.getLeaderboardDiff(input.from, input.to);
+
+      const forecasterIds = [
+        ...diff.movements.map(m => m.forecasterId),
+        ...diff.entered.map(e => e.forecasterId),
+        ...diff.dropped.map(d => d.forecasterId)
+      ];
+
+      const forecasters = await ctx.prisma.forecaster.findMany({
+        where: { id: { in: forecasterIds } },
+        select: { id: true, name: true, slug: true }
+      });
+      const byId = new Map(forecasters.map(f => [f.id, f]));
+
+      const withForecaster = <T extends { forecasterId: string }>(entry: T) => ({
+        ...entry,
+        name: byId.get(entry.forecasterId)?.name ?? "Unknown",
+        slug: byId.get(entry.forecasterId)?.slug ?? null
+      });
+
+      return {
+        fromDate: diff.fromDate?.toISOString().split('T')[0] ?? null,
+        toDate: diff.toDate?.toISOString().split('T')[0] ?? null,
+        movements: diff.movements.map(withForecaster),
+        entered: diff.entered.map(withForecaster),
+        dropped: diff.dropped.map(withForecaster)
+      };
+    }),
+
   // Get prediction statistics
   getPredictionStats: publicProcedure.query(async ({ ctx }) => {
     // Get outcome distribution
@@ -187,6 +292,26 @@ export const statisticsRouter = createTRPCRouter({
     };
   }),
 
+  // Accuracy broken down by the Fear & Greed regime each call was made in,
+  // overall and (optionally) per forecaster
+  getAccuracyByRegime: publicProcedure
+    .input(z.object({
+      forecasterIds: z.array(z.string()).max(100).optional()
+    }).optional())
+    .query(async ({ input }) => {
+      const [overall, byForecaster] = await Promise.all([
+        services.sentimentHistory.accuracyByRegime(),
+        input?.forecasterIds?.length
+          ? services.sentimentHistory.accuracyByRegimeForForecasters(input.forecasterIds)
+          : new Map<string, RegimeAccuracy[]>()
+      ]);
+
+      return {
+        overall,
+        byForecaster: Object.fromEntries(byForecaster)
+      };
+    }),
+
   // Get historical accuracy trends
   getAccuracyTrends: publicProcedure
     .input(z.object({
@@ -423,7 +548,7 @@ export const statisticsRouter = createTRPCRouter({
     .input(z.object({
       limit: z.number().min(1).max(50).default(10),
       offset: z.number().min(0).default(0),
-      sortBy: z.enum(["accuracy", "predictions", "performance"]).default("accuracy"),
+      sortBy: z.enum(["accuracy", "predictions", "performance", "alpha"]).default("accuracy"),
       searchTerm: z.string().optional()
     }).optional())
     .query(async ({ ctx, input }) => {
@@ -444,9 +569,14 @@ export const statisticsRouter = createTRPCRouter({
         ];
       }
 
+      // Alpha ranks across every forecaster, so the page is picked before loading profiles
+      const alphaRanking = sortBy === "alpha"
+        ? await services.benchmarkScoring.rankByAlpha(where, { limit, offset })
+        : null;
+
       // Get forecasters with their predictions
       const forecasters = await ctx.prisma.forecaster.findMany({
-        where,
+        where: alphaRanking ? { id: { in: alphaRanking.map(r => r.forecasterId) } } : where,
         select: {
           id: true,
           name: true,
@@ -472,10 +602,33 @@ export const statisticsRouter = createTRPCRouter({
             take: 20
           }
         },
-        take: limit,
-        skip: offset
+        ...(!alphaRanking && { take: limit, skip: offset })
+      });
+
+      const alphaStats = alphaRanking
+        ? new Map(alphaRanking.map(r => [r.forecasterId, r]))
+        : await services.benchmarkScoring.alphaStats(forecasters.map(f => f.id));
+
+      // Last 30 days of snapshots feed the movement column and sparkline
+      const historySince = new Date();
+      historySince.setDate(historySince.getDate() - 30);
+
+      const snapshots = await ctx.prisma.rankingSnapshot.findMany({
+        where: {
+          forecasterId: { in: forecasters.map(f => f.id) },
+          snapshotDate: { gte: historySince }
+        },
+        select: { forecasterId: true, rank: true },
+        orderBy: { snapshotDate: "asc" }
       });
 
+      const rankHistories = new Map<string, number[]>();
+      for (const snapshot of snapshots) {
+        const history = rankHistories.get(snapshot.forecasterId) ?? [];
+        history.push(snapshot.rank);
+        rankHistories.set(snapshot.forecasterId, history);
+      }
+
       // Process and rank forecasters
       const rankedForecasters = await Promise.all(forecasters.map(async (forecaster) => {
         const metrics = forecaster.metrics as any;
@@ -513,7 +666,18 @@ export const statisticsRouter = createTRPCRouter({
         const nameParts = forecaster.name.split(' ');
         const avatar = nameParts.map(part => part[0]).join('').toUpperCase();
 
+        // Positive movement means the forecaster climbed since the previous snapshot
+        const rankHistory = rankHistories.get(forecaster.id) ?? [];
+        const latestRank = rankHistory[rankHistory.length - 1];
+        const priorRank = rankHistory[rankHistory.length - 2];
+        const rankMovement = latestRank !== undefined && priorRank !== undefined
+          ? priorRank - latestRank
+          : null;
+
         // Get actual follower count from database
+        // Mean excess return over each call's benchmark, in percentage points
+        const alpha = alphaStats.get(forecaster.id);
+
         const followerCount = await ctx.prisma.userAction.count({
           where: {
             targetType: "FORECASTER",
@@ -536,7 +700,13 @@ export const statisticsRouter = createTRPCRouter({
           verified: forecaster.isVerified,
           tier,
           followers: followerCount,
-          joinDate: forecaster.createdAt.toISOString().split('T')[0]
+          joinDate: forecaster.createdAt.toISOString().split('T')[0],
+          rank: latestRank ?? null,
+          rankMovement,
+          rankHistory,
+          alpha: alpha ? Math.round(alpha.alpha * 100) / 100 : null,
+          alphaBeatRate: alpha ? Math.round(alpha.beatRate * 1000) / 10 : null,
+          alphaPredictions: alpha?.scored ?? 0
         };
       }));
 
@@ -551,6 +721,9 @@ export const statisticsRouter = createTRPCRouter({
           const bPerf = parseFloat(b.performance.replace('%', ''));
           return bPerf - aPerf;
         });
+      } else if (sortBy === "alpha" && alphaRanking) {
+        const order = alphaRanking.map(r => r.forecasterId);
+        rankedForecasters.sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
       }
 
       return rankedForecasters;
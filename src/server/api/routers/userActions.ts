@@ -2,12 +2,13 @@ import { z } from "zod";
 import {
   createTRPCRouter,
   protectedProcedure,
+  verifiedProcedure,
 } from "../trpc";
 import { TRPCError } from "@trpc/server";
 
 export const userActionsRouter = createTRPCRouter({
   // Bookmark a prediction
-  bookmarkPrediction: protectedProcedure
+  bookmarkPrediction: verifiedProcedure
     .input(z.string())
     .mutation(async ({ ctx, input: predictionId }) => {
       const prediction = await ctx.prisma.prediction.findUnique({
@@ -203,7 +204,7 @@ export const userActionsRouter = createTRPCRouter({
   }),
 
   // Bookmark an article
-  bookmarkArticle: protectedProcedure
+  bookmarkArticle: verifiedProcedure
     .input(z.string())
     .mutation(async ({ ctx, input: articleId }) => {
       const article = await ctx.prisma.article.findUnique({
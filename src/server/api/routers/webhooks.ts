@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { services } from "@/server/services";
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from "@/server/services/webhooks";
+
+const eventTypeSchema = z.enum(WEBHOOK_EVENT_TYPES as [WebhookEventType, ...WebhookEventType[]]);
+
+const endpointInput = z.object({
+  url: z.string().trim().url().max(500),
+  description: z.string().trim().max(120).optional(),
+  eventTypes: z.array(eventTypeSchema).min(1),
+  forecasterIds: z.array(z.string()).max(50).default([]),
+  assetIds: z.array(z.string()).max(50).default([]),
+});
+
+function toTRPCError(error: unknown, code: "BAD_REQUEST" | "NOT_FOUND", fallback: string) {
+  if (error instanceof Error && error.message === "Webhook endpoint not found") {
+    return new TRPCError({ code: "NOT_FOUND", message: error.message });
+  }
+  return new TRPCError({ code, message: error instanceof Error ? error.message : fallback });
+}
+
+export const webhooksRouter = createTRPCRouter({
+  // The caller's endpoints with their latest delivery; secrets are never returned again
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return services.webhooks.list(ctx.session.user.id);
+  }),
+
+  create: protectedProcedure.input(endpointInput).mutation(async ({ ctx, input }) => {
+    try {
+      return await services.webhooks.create(ctx.session.user.id, input);
+    } catch (error) {
+      throw toTRPCError(error, "BAD_REQUEST", "Failed to create webhook");
+    }
+  }),
+
+  update: protectedProcedure
+    .input(endpointInput.partial().extend({ id: z.string(), isActive: z.boolean().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      try {
+        return await services.webhooks.update(ctx.session.user.id, id, changes);
+      } catch (error) {
+        throw toTRPCError(error, "BAD_REQUEST", "Failed to update webhook");
+      }
+    }),
+
+  rotateSecret: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return { secret: await services.webhooks.rotateSecret(ctx.session.user.id, input.id) };
+      } catch (error) {
+        throw toTRPCError(error, "NOT_FOUND", "Webhook endpoint not found");
+      }
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await services.webhooks.delete(ctx.session.user.id, input.id);
+        return { success: true };
+      } catch (error) {
+        throw toTRPCError(error, "NOT_FOUND", "Webhook endpoint not found");
+      }
+    }),
+
+  // Queues a webhook.test delivery; it shows up in the delivery log like any other
+  sendTest: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await services.webhooks.sendTest(ctx.session.user.id, input.id);
+      } catch (error) {
+        throw toTRPCError(error, "NOT_FOUND", "Webhook endpoint not found");
+      }
+    }),
+
+  getDeliveries: protectedProcedure
+    .input(z.object({ id: z.string(), limit: z.number().min(1).max(100).default(50) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await services.webhooks.deliveries(ctx.session.user.id, input.id, input.limit);
+      } catch (error) {
+        throw toTRPCError(error, "NOT_FOUND", "Webhook endpoint not found");
+      }
+    }),
+
+  getOptions: protectedProcedure.query(() => ({
+    eventTypes: [...WEBHOOK_EVENT_TYPES],
+  })),
+});
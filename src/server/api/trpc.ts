@@ -5,6 +5,8 @@ import superjson from "superjson";
 import { ZodError } from "zod";
 import { authOptions } from "../auth";
 import { prisma } from "../db";
+import { isTwoFactorRequired } from "../security/twoFactor/TwoFactorService";
+import { sessionRegistry } from "../security/sessions/SessionRegistry";
 
 interface CreateContextOptions {
   session: any | null;
@@ -23,8 +25,19 @@ export const createInnerTRPCContext = (opts: CreateContextOptions) => {
 
 export const createTRPCContext = async (opts: CreateNextContextOptions) => {
   const { req, res } = opts;
+  // Revoked sessions come back as null: the jwt callback checks the registry
   const session = await getServerSession(req, res, authOptions);
 
+  if (session?.user?.sessionId) {
+    await sessionRegistry.touch(session.user.sessionId, {
+      ipAddress: (req.headers["x-forwarded-for"] as string) ||
+        (req.headers["x-real-ip"] as string) ||
+        req.socket?.remoteAddress ||
+        "unknown",
+      userAgent: req.headers["user-agent"],
+    });
+  }
+
   return createInnerTRPCContext({
     session,
     req,
@@ -49,10 +62,15 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
 export const createTRPCRouter = t.router;
 export const publicProcedure = t.procedure;
 
+const TWO_FACTOR_PENDING_MESSAGE = "Enter your two-factor code to finish signing in";
+
 const enforceUserIsAuthed = t.middleware(({ ctx, next }) => {
   if (!ctx.session || !ctx.session.user) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
+  if (ctx.session.user.twoFactorPending) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: TWO_FACTOR_PENDING_MESSAGE });
+  }
   return next({
     ctx: {
       session: { ...ctx.session, user: ctx.session.user },
@@ -62,10 +80,50 @@ const enforceUserIsAuthed = t.middleware(({ ctx, next }) => {
 
 export const protectedProcedure = t.procedure.use(enforceUserIsAuthed);
 
-const enforceUserIsAdmin = t.middleware(({ ctx, next }) => {
+// Checked against the database so the verification link works without signing in again
+const enforceEmailIsVerified = t.middleware(async ({ ctx, next }) => {
+  const user = ctx.session?.user
+    ? await ctx.prisma.user.findUnique({
+        where: { id: ctx.session.user.id },
+        select: { status: true },
+      })
+    : null;
+
+  if (user?.status === "UNVERIFIED") {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Verify your email address first. Check your inbox or resend the link from Settings → Security.",
+    });
+  }
+  return next();
+});
+
+// Posting and saving content: comments, bookmarks
+export const verifiedProcedure = protectedProcedure.use(enforceEmailIsVerified);
+
+const enforceUserIsAdmin = t.middleware(async ({ ctx, next }) => {
   if (!ctx.session?.user || ctx.session.user.role !== "ADMIN") {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
+  if (ctx.session.user.twoFactorPending) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: TWO_FACTOR_PENDING_MESSAGE });
+  }
+
+  // Checked against the database so enrolling takes effect without signing in again
+  if (isTwoFactorRequired(ctx.session.user.role)) {
+    const user = await ctx.prisma.user.findUnique({
+      where: { id: ctx.session.user.id },
+      select: { twoFactorEnabledAt: true },
+    });
+
+    if (!user?.twoFactorEnabledAt) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Admin accounts must enable two-factor authentication in Settings → Security",
+      });
+    }
+  }
+
   return next({
     ctx: {
       session: { ...ctx.session, user: ctx.session.user },
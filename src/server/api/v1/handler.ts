@@ -0,0 +1,80 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { type z } from "zod";
+import { services } from "@/server/services";
+import { type ApiScope } from "@/server/services/apiKeys";
+
+export interface ApiErrorBody {
+  error: string;
+}
+
+type V1Handler = (req: NextApiRequest, res: NextApiResponse) => Promise<void>;
+
+function presentedKey(req: NextApiRequest): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim() || null;
+  }
+
+  const header = req.headers["x-api-key"];
+  return (Array.isArray(header) ? header[0] : header) ?? null;
+}
+
+/**
+ * Wrap a read-only v1 endpoint: authenticate the API key, check its scope,
+ * enforce the key's rate limit and monthly quota, then run the handler
+ */
+export function withApiKey(scope: ApiScope, handler: V1Handler) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    if (req.method !== "GET") {
+      res.setHeader("Allow", "GET");
+      return res.status(405).json({ error: "Method not allowed" } satisfies ApiErrorBody);
+    }
+
+    const key = presentedKey(req);
+    if (!key) {
+      return res.status(401).json({ error: "Missing API key; send it as 'Authorization: Bearer <key>'" } satisfies ApiErrorBody);
+    }
+
+    let access;
+    try {
+      access = await services.apiKeys.authorize(key, scope);
+    } catch (error) {
+      console.error("[API v1] Failed to authorize request:", error);
+      return res.status(500).json({ error: "Internal server error" } satisfies ApiErrorBody);
+    }
+
+    if (!access.allowed) {
+      if (access.retryAfter) res.setHeader("Retry-After", access.retryAfter.toString());
+      return res.status(access.status).json({ error: access.error } satisfies ApiErrorBody);
+    }
+
+    res.setHeader("X-RateLimit-Limit", access.rate.limit.toString());
+    res.setHeader("X-RateLimit-Remaining", access.rate.remaining.toString());
+    res.setHeader("X-RateLimit-Reset", new Date(Date.now() + access.rate.resetIn).toISOString());
+    res.setHeader("X-Quota-Limit", access.quota.limit.toString());
+    res.setHeader("X-Quota-Remaining", access.quota.remaining.toString());
+
+    try {
+      await handler(req, res);
+    } catch (error) {
+      console.error(`[API v1] ${req.url} failed:`, error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal server error" } satisfies ApiErrorBody);
+      }
+    }
+  };
+}
+
+/**
+ * Validate query parameters; on failure the 400 response is already sent
+ */
+export function parseQuery<T extends z.ZodTypeAny>(schema: T, req: NextApiRequest, res: NextApiResponse): z.infer<T> | null {
+  const parsed = schema.safeParse(req.query);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    res.status(400).json({ error: issue ? `${issue.path.join(".") || "query"}: ${issue.message}` : "Invalid query" } satisfies ApiErrorBody);
+    return null;
+  }
+
+  return parsed.data;
+}
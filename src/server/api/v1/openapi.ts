@@ -0,0 +1,292 @@
+import { API_PLANS, API_SCOPES } from "@/server/services/apiKeys";
+
+/**
+ * OpenAPI 3.1 description of the v1 REST API, served at /api/v1/openapi.json.
+ * Update alongside the handlers in pages/api/v1 and serializers.ts.
+ */
+
+const pagination = [
+  { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100, default: 25 } },
+  { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+];
+
+const errorResponses = {
+  "400": { description: "Invalid query parameters", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } },
+  "401": { description: "Missing, invalid or revoked API key", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } },
+  "403": { description: "Plan without API access, or key without the required scope", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } },
+  "429": {
+    description: "Per-minute rate limit or monthly quota exceeded; see Retry-After",
+    headers: { "Retry-After": { schema: { type: "integer" }, description: "Seconds until the request may be retried" } },
+    content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+  },
+};
+
+const page = (item: string) => ({
+  type: "object",
+  required: ["data", "pagination"],
+  properties: {
+    data: { type: "array", items: { $ref: `#/components/schemas/${item}` } },
+    pagination: { $ref: "#/components/schemas/Pagination" },
+  },
+});
+
+const single = (item: string) => ({
+  type: "object",
+  required: ["data"],
+  properties: { data: { $ref: `#/components/schemas/${item}` } },
+});
+
+const ok = (description: string, schema: object) => ({
+  description,
+  headers: {
+    "X-RateLimit-Limit": { schema: { type: "integer" } },
+    "X-RateLimit-Remaining": { schema: { type: "integer" } },
+    "X-RateLimit-Reset": { schema: { type: "string", format: "date-time" } },
+    "X-Quota-Limit": { schema: { type: "integer" } },
+    "X-Quota-Remaining": { schema: { type: "integer" } },
+  },
+  content: { "application/json": { schema } },
+});
+
+const nullable = (type: string, extra: object = {}) => ({ type: [type, "null"], ...extra });
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "Forecaster Accuracy API",
+    version: "1.0.0",
+    description: [
+      "Read-only access to forecasters, predictions, rankings and asset consensus.",
+      "Create keys under Settings → API Access; each key carries scopes and is limited per key.",
+      ...Object.entries(API_PLANS).map(
+        ([plan, limits]) => `${plan}: ${limits.perMinute} requests per minute, ${limits.monthly.toLocaleString("en-US")} per calendar month (UTC).`
+      ),
+    ].join("\n\n"),
+  },
+  servers: [{ url: "/api/v1" }],
+  security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+  paths: {
+    "/forecasters": {
+      get: {
+        summary: "List forecasters",
+        description: `Requires the forecasters:read scope.`,
+        parameters: [
+          ...pagination,
+          { name: "search", in: "query", schema: { type: "string" }, description: "Matches name or slug" },
+          { name: "verified", in: "query", schema: { type: "string", enum: ["true", "false"] } },
+        ],
+        responses: { "200": ok("Forecasters by name", page("Forecaster")), ...errorResponses },
+      },
+    },
+    "/forecasters/{id}": {
+      get: {
+        summary: "Get a forecaster",
+        description: "Requires the forecasters:read scope. Accepts the id or the slug.",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "200": ok("The forecaster", single("Forecaster")),
+          "404": { description: "Forecaster not found" },
+          ...errorResponses,
+        },
+      },
+    },
+    "/predictions": {
+      get: {
+        summary: "List predictions",
+        description: "Requires the predictions:read scope. Newest first.",
+        parameters: [
+          ...pagination,
+          { name: "forecasterId", in: "query", schema: { type: "string" } },
+          { name: "assetId", in: "query", schema: { type: "string" } },
+          { name: "symbol", in: "query", schema: { type: "string" }, description: "Asset ticker, e.g. BTC" },
+          { name: "outcome", in: "query", schema: { $ref: "#/components/schemas/Outcome" } },
+          { name: "since", in: "query", schema: { type: "string", format: "date-time" }, description: "Made at or after" },
+        ],
+        responses: { "200": ok("Predictions", page("Prediction")), ...errorResponses },
+      },
+    },
+    "/predictions/{id}": {
+      get: {
+        summary: "Get a prediction",
+        description: "Requires the predictions:read scope.",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "200": ok("The prediction", single("Prediction")),
+          "404": { description: "Prediction not found" },
+          ...errorResponses,
+        },
+      },
+    },
+    "/rankings": {
+      get: {
+        summary: "Forecaster leaderboard",
+        description: "Requires the rankings:read scope. Rankings are computed nightly.",
+        parameters: [
+          ...pagination,
+          { name: "date", in: "query", schema: { type: "string", format: "date" }, description: "Latest ranking on or before this day" },
+        ],
+        responses: {
+          "200": ok("Ranked forecasters", {
+            type: "object",
+            required: ["date", "data", "pagination"],
+            properties: {
+              date: nullable("string", { format: "date" }),
+              data: { type: "array", items: { $ref: "#/components/schemas/Ranking" } },
+              pagination: { $ref: "#/components/schemas/Pagination" },
+            },
+          }),
+          ...errorResponses,
+        },
+      },
+    },
+    "/assets/{id}/consensus": {
+      get: {
+        summary: "Forecaster consensus for an asset",
+        description:
+          "Requires the consensus:read scope. Accuracy-weighted direction and target distribution per horizon from active predictions, with how past consensus calls fared.",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "200": ok("Consensus by horizon", single("Consensus")),
+          "404": { description: "Asset not found" },
+          ...errorResponses,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer", description: `API key. Scopes: ${API_SCOPES.join(", ")}` },
+      apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+    },
+    schemas: {
+      Error: { type: "object", required: ["error"], properties: { error: { type: "string" } } },
+      Pagination: {
+        type: "object",
+        required: ["limit", "offset", "total"],
+        properties: { limit: { type: "integer" }, offset: { type: "integer" }, total: { type: "integer" } },
+      },
+      Outcome: { type: "string", enum: ["PENDING", "CORRECT", "INCORRECT", "PARTIALLY_CORRECT"] },
+      Direction: { type: ["string", "null"], enum: ["BULLISH", "BEARISH", "NEUTRAL", null] },
+      Forecaster: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          slug: { type: "string" },
+          isVerified: { type: "boolean" },
+          bio: nullable("string"),
+          expertise: { type: "array", items: { type: "string" } },
+          metrics: {
+            type: "object",
+            properties: {
+              accuracy: { type: "number", description: "Percent of resolved predictions marked correct" },
+              totalPredictions: { type: "integer" },
+              correctPredictions: { type: "integer" },
+              brierScore: nullable("number"),
+            },
+          },
+          createdAt: { type: "string", format: "date-time" },
+        },
+      },
+      Prediction: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          forecasterId: { type: "string" },
+          asset: {
+            type: ["object", "null"],
+            properties: { id: { type: "string" }, symbol: { type: "string" }, type: { type: "string" } },
+          },
+          statement: { type: "string", description: "The prediction as extracted from the source" },
+          direction: { $ref: "#/components/schemas/Direction" },
+          confidence: nullable("number", { minimum: 0, maximum: 1 }),
+          targetPrice: nullable("number"),
+          baselinePrice: nullable("number", { description: "Asset price when the prediction was made" }),
+          targetDate: nullable("string", { format: "date-time" }),
+          outcome: { $ref: "#/components/schemas/Outcome" },
+          resolvedAt: nullable("string", { format: "date-time" }),
+          marketRegime: nullable("string", { description: "Fear & Greed regime on the day it was made" }),
+          createdAt: { type: "string", format: "date-time" },
+        },
+      },
+      Ranking: {
+        type: "object",
+        properties: {
+          rank: { type: "integer" },
+          rankingScore: { type: "number" },
+          accuracy: { type: "number" },
+          brierScore: nullable("number"),
+          totalPredictions: { type: "integer" },
+          forecaster: {
+            type: "object",
+            properties: { id: { type: "string" }, name: { type: "string" }, slug: { type: "string" } },
+          },
+        },
+      },
+      Consensus: {
+        type: "object",
+        properties: {
+          assetId: { type: "string" },
+          symbol: { type: "string" },
+          type: { type: "string" },
+          price: nullable("number"),
+          horizons: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                horizon: { type: "string", enum: ["1W", "1M", "3M", "1Y", "LONG", "NONE"] },
+                label: { type: "string" },
+                direction: { type: "string", enum: ["BULLISH", "BEARISH", "NEUTRAL", "MIXED"] },
+                agreement: { type: "number", description: "Weighted share behind the leading direction" },
+                shares: {
+                  type: "object",
+                  properties: { BULLISH: { type: "number" }, BEARISH: { type: "number" }, NEUTRAL: { type: "number" } },
+                },
+                calls: { type: "integer", description: "Forecasters counted, latest call each" },
+                predictionIds: { type: "array", items: { type: "string" } },
+                targets: {
+                  type: ["object", "null"],
+                  properties: {
+                    count: { type: "integer" },
+                    min: { type: "number" },
+                    p25: { type: "number" },
+                    median: { type: "number" },
+                    p75: { type: "number" },
+                    max: { type: "number" },
+                    weightedMean: { type: "number" },
+                  },
+                },
+                impliedMove: nullable("number", { description: "Median target against the current price, in percent" }),
+                contrarians: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      predictionId: { type: "string" },
+                      forecasterId: { type: "string" },
+                      forecasterName: { type: "string" },
+                      direction: { $ref: "#/components/schemas/Direction" },
+                      targetPrice: nullable("number"),
+                      weight: { type: "number" },
+                    },
+                  },
+                },
+                evaluateAt: nullable("string", { format: "date-time" }),
+              },
+            },
+          },
+          history: {
+            type: "object",
+            properties: {
+              evaluated: { type: "integer" },
+              correct: { type: "integer" },
+              accuracy: nullable("number"),
+              contrarianWins: { type: "integer" },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
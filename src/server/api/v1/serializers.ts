@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+/**
+ * Public v1 shapes. Kept apart from the Prisma models so schema changes
+ * don't leak into a versioned API; field names match openapi.ts.
+ */
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+export const paginationQuery = {
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+};
+
+export function serializeForecaster(forecaster: {
+  id: string;
+  name: string;
+  slug: string;
+  isVerified: boolean;
+  profile: unknown;
+  metrics: unknown;
+  createdAt: Date;
+}) {
+  const profile = (forecaster.profile ?? {}) as { bio?: string | null; expertise?: string[] };
+  const metrics = (forecaster.metrics ?? {}) as {
+    accuracy?: number;
+    totalPredictions?: number;
+    correctPredictions?: number;
+    brierScore?: number | null;
+  };
+
+  return {
+    id: forecaster.id,
+    name: forecaster.name,
+    slug: forecaster.slug,
+    isVerified: forecaster.isVerified,
+    bio: profile.bio ?? null,
+    expertise: profile.expertise ?? [],
+    metrics: {
+      accuracy: metrics.accuracy ?? 0,
+      totalPredictions: metrics.totalPredictions ?? 0,
+      correctPredictions: metrics.correctPredictions ?? 0,
+      brierScore: metrics.brierScore ?? null,
+    },
+    createdAt: forecaster.createdAt.toISOString(),
+  };
+}
+
+export function serializePrediction(prediction: {
+  id: string;
+  forecasterId: string;
+  prediction: string;
+  direction: string | null;
+  confidence: unknown;
+  targetPrice: unknown;
+  baselinePrice: unknown;
+  targetDate: Date | null;
+  outcome: string;
+  validatedAt: Date | null;
+  marketRegime: string | null;
+  createdAt: Date;
+  asset: { id: string; symbol: string; type: string } | null;
+}) {
+  return {
+    id: prediction.id,
+    forecasterId: prediction.forecasterId,
+    asset: prediction.asset ? { id: prediction.asset.id, symbol: prediction.asset.symbol, type: prediction.asset.type } : null,
+    statement: prediction.prediction,
+    direction: prediction.direction,
+    confidence: toNumber(prediction.confidence),
+    targetPrice: toNumber(prediction.targetPrice),
+    baselinePrice: toNumber(prediction.baselinePrice),
+    targetDate: prediction.targetDate?.toISOString() ?? null,
+    outcome: prediction.outcome,
+    resolvedAt: prediction.validatedAt?.toISOString() ?? null,
+    marketRegime: prediction.marketRegime,
+    createdAt: prediction.createdAt.toISOString(),
+  };
+}
+
+export const predictionSelect = {
+  id: true,
+  forecasterId: true,
+  prediction: true,
+  direction: true,
+  confidence: true,
+  targetPrice: true,
+  baselinePrice: true,
+  targetDate: true,
+  outcome: true,
+  validatedAt: true,
+  marketRegime: true,
+  createdAt: true,
+  asset: { select: { id: true, symbol: true, type: true } },
+} as const;
+
+export const forecasterSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  isVerified: true,
+  profile: true,
+  metrics: true,
+  createdAt: true,
+} as const;
@@ -1,20 +1,121 @@
 import { type NextAuthOptions } from "next-auth";
+import { type Provider } from "next-auth/providers/index";
 import CredentialsProvider from "next-auth/providers/credentials";
+import EmailProvider from "next-auth/providers/email";
+import GitHubProvider from "next-auth/providers/github";
+import GoogleProvider from "next-auth/providers/google";
 import bcrypt from "bcryptjs";
 import { prisma } from "./db";
+import { EmailService } from "./services/email";
+import { securityConfig } from "./security/config";
+import { createAuthAdapter } from "./security/accounts/adapter";
+import { hasVerifiedProviderEmail, linkedAccountService } from "./security/accounts/LinkedAccountService";
+import { accountLifecycleService } from "./security/lifecycle/AccountLifecycleService";
+import { isTwoFactorRequired, twoFactorService } from "./security/twoFactor/TwoFactorService";
+import { sessionRegistry } from "./security/sessions/SessionRegistry";
+
+// Error codes surfaced to the sign-in page through signIn()'s result.error
+export const TWO_FACTOR_REQUIRED = "TwoFactorRequired";
+export const INVALID_TWO_FACTOR_CODE = "InvalidTwoFactorCode";
+export const TWO_FACTOR_LOCKED = "TwoFactorLocked";
+export const SESSION_REVOKED = "SessionRevoked";
+export const EMAIL_NOT_VERIFIED = "EmailNotVerified";
+export const ACCOUNT_SUSPENDED = "AccountSuspended";
+
+// OAuth and magic-link providers, each enabled by its configuration
+const accountProviders: Provider[] = [];
+
+// Linking by email is safe because the signIn callback rejects OAuth
+// profiles whose email the provider has not verified
+if (securityConfig.accounts.google) {
+  accountProviders.push(
+    GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID!,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
+      allowDangerousEmailAccountLinking: true,
+    })
+  );
+}
+
+if (securityConfig.accounts.github) {
+  accountProviders.push(
+    GitHubProvider({
+      clientId: process.env.GITHUB_CLIENT_ID!,
+      clientSecret: process.env.GITHUB_CLIENT_SECRET!,
+      allowDangerousEmailAccountLinking: true,
+    })
+  );
+}
+
+if (securityConfig.accounts.magicLink) {
+  accountProviders.push(
+    EmailProvider({
+      maxAge: securityConfig.accounts.magicLinkMaxAge,
+      async sendVerificationRequest({ identifier, url }) {
+        const result = await new EmailService().sendMagicLinkEmail(
+          identifier,
+          url,
+          securityConfig.accounts.magicLinkMaxAge / 60
+        );
+        if (!result.success) {
+          throw new Error(`Failed to send sign-in link: ${result.error}`);
+        }
+      },
+    })
+  );
+}
 
 export const authOptions: NextAuthOptions = {
+  adapter: createAuthAdapter(),
   session: {
     strategy: "jwt",
   },
   callbacks: {
-    async jwt({ token, user }) {
+    async signIn({ user, account, profile, email }) {
+      if (account?.type === "oauth" && !(await hasVerifiedProviderEmail(account, profile))) {
+        return `/auth/signin?error=${EMAIL_NOT_VERIFIED}`;
+      }
+      // Credentials sign-in checks this in authorize() so the page gets result.error
+      if (account?.type !== "credentials" && user.email && (await accountLifecycleService.isSuspended(user.email))) {
+        // Requesting a magic link is a fetch that can't follow this redirect,
+        // and refusing it quietly doesn't reveal the status to whoever typed the address
+        return email?.verificationRequest ? false : `/auth/signin?error=${ACCOUNT_SUSPENDED}`;
+      }
+      return true;
+    },
+    async jwt({ token, user, account, trigger, session }) {
       if (user) {
         token.id = user.id;
         token.email = user.email;
         token.role = user.role;
         token.fullName = user.fullName;
         token.subscription = user.subscription;
+        token.twoFactorSetupRequired = user.twoFactorSetupRequired ?? false;
+        // The credentials provider checks the code itself; other providers
+        // sign in first and must pass /auth/two-factor before the API opens up
+        token.twoFactorPending = account?.type !== "credentials" && !!user.twoFactorEnabled;
+        token.sid = await sessionRegistry.create(user.id);
+      } else if (!(await sessionRegistry.isActive(token.sid))) {
+        // Revoked, expired or issued before the registry existed. NextAuth
+        // treats the throw as an invalid token and clears the cookie.
+        throw new Error(SESSION_REVOKED);
+      }
+
+      if (trigger === "update" && token.twoFactorPending && typeof session?.twoFactorCode === "string") {
+        const verification = await twoFactorService.verify(token.id, session.twoFactorCode, {
+          ipAddress: "unknown",
+          path: "/api/auth/session",
+        });
+        token.twoFactorPending = !verification.valid;
+      }
+
+      // Refreshed by useSession().update() after enrolling or disabling
+      if (trigger === "update") {
+        const current = await prisma.user.findUnique({
+          where: { id: token.id },
+          select: { role: true, twoFactorEnabledAt: true },
+        });
+        token.twoFactorSetupRequired = !!current && isTwoFactorRequired(current.role) && !current.twoFactorEnabledAt;
       }
       return token;
     },
@@ -25,6 +126,9 @@ export const authOptions: NextAuthOptions = {
         session.user.role = token.role as string;
         session.user.fullName = token.fullName as string | null;
         session.user.subscription = token.subscription as any;
+        session.user.twoFactorSetupRequired = token.twoFactorSetupRequired ?? false;
+        session.user.twoFactorPending = token.twoFactorPending ?? false;
+        session.user.sessionId = token.sid;
       }
       return session;
     },
@@ -35,8 +139,9 @@ export const authOptions: NextAuthOptions = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        code: { label: "Authentication code", type: "text" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           return null;
         }
@@ -58,18 +163,58 @@ export const authOptions: NextAuthOptions = {
           return null;
         }
 
+        if (user.status === "SUSPENDED") {
+          throw new Error(ACCOUNT_SUSPENDED);
+        }
+
+        // Second step: the page re-submits the same credentials with a code
+        if (user.twoFactorEnabledAt) {
+          if (!credentials.code) {
+            throw new Error(TWO_FACTOR_REQUIRED);
+          }
+
+          const headers = req?.headers ?? {};
+          const verification = await twoFactorService.verify(user.id, credentials.code, {
+            ipAddress: (headers["x-forwarded-for"] as string) || (headers["x-real-ip"] as string) || "unknown",
+            userAgent: headers["user-agent"] as string | undefined,
+          });
+
+          if (!verification.valid) {
+            throw new Error(verification.retryAfter ? TWO_FACTOR_LOCKED : INVALID_TWO_FACTOR_CODE);
+          }
+        }
+
         return {
           id: user.id,
           email: user.email,
           role: user.role,
           fullName: user.fullName,
           subscription: user.subscription,
+          twoFactorSetupRequired: isTwoFactorRequired(user.role) && !user.twoFactorEnabledAt,
         };
       },
     }),
+    ...accountProviders,
   ],
+  events: {
+    // Signing in during the deletion grace period keeps the account
+    async signIn({ user }) {
+      await accountLifecycleService.cancelDeletion(user.id, { ipAddress: "unknown", path: "/api/auth/signin" });
+    },
+    async linkAccount({ user, account, profile }) {
+      await linkedAccountService.recordLink(user.id, account.provider, account.providerAccountId, profile.email);
+    },
+    async signOut({ token }) {
+      if (token?.sid) {
+        await sessionRegistry
+          .revoke(token.id, token.sid, { ipAddress: "unknown" })
+          .catch(() => undefined); // Already revoked elsewhere
+      }
+    },
+  },
   pages: {
     signIn: "/auth/signin",
-    error: "/auth/error",
+    error: "/auth/signin", // Shown there from ?error=
+    verifyRequest: "/auth/signin?check-email=1",
   },
 };
\ No newline at end of file
@@ -0,0 +1,189 @@
+/**
+ * Linked Account Service
+ *
+ * OAuth identities attached to a user: the verified-email rule that makes
+ * linking by email safe, plus listing and unlinking for Settings → Security.
+ */
+
+import type { Account, Profile } from 'next-auth';
+import { prisma } from '../../db';
+import { securityConfig } from '../config';
+import { securityLogger } from '../logging/SecurityLogger';
+import type { SecurityEventData } from '../logging/types';
+import { sessionRegistry } from '../sessions/SessionRegistry';
+
+export const OAUTH_PROVIDERS = ['google', 'github'] as const;
+export type OAuthProvider = (typeof OAUTH_PROVIDERS)[number];
+
+export interface AccountRequestContext {
+  ipAddress: string;
+  userAgent?: string;
+  path?: string;
+}
+
+export interface LinkedAccount {
+  id: string;
+  provider: string;
+  email: string | null;
+  createdAt: Date;
+}
+
+export interface LinkedAccountsOverview {
+  accounts: LinkedAccount[];
+  hasPassword: boolean;
+  emailVerified: boolean;
+}
+
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * Providers are linked to existing users by email, so only accept an OAuth
+ * sign-in when the provider itself has verified that email. Otherwise anyone
+ * could add a victim's address to a provider account and take over theirs.
+ */
+export async function hasVerifiedProviderEmail(account: Account, profile: Profile | undefined): Promise<boolean> {
+  if (account.provider === 'google') {
+    return (profile as { email_verified?: boolean } | undefined)?.email_verified === true;
+  }
+
+  if (account.provider === 'github') {
+    if (!account.access_token) {
+      return false;
+    }
+
+    // The profile email may be unverified (or absent); the emails API says which are verified
+    const response = await fetch('https://api.github.com/user/emails', {
+      headers: { Authorization: `Bearer ${account.access_token}`, 'User-Agent': 'prediction-prism' },
+    });
+    if (!response.ok) {
+      return false;
+    }
+
+    const emails = (await response.json()) as GitHubEmail[];
+    return emails.some((entry) => entry.primary && entry.verified);
+  }
+
+  return false;
+}
+
+export class LinkedAccountService {
+  async overview(userId: string): Promise<LinkedAccountsOverview> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        passwordHash: true,
+        emailVerified: true,
+        accounts: {
+          select: { id: true, provider: true, email: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      accounts: user.accounts,
+      hasPassword: !!user.passwordHash,
+      emailVerified: !!user.emailVerified,
+    };
+  }
+
+  /**
+   * Record the provider email shown in settings and log the link
+   */
+  async recordLink(userId: string, provider: string, providerAccountId: string, email: string | null | undefined): Promise<void> {
+    await prisma.account.updateMany({
+      where: { userId, provider, providerAccountId },
+      data: { email: email ?? null },
+    });
+
+    await this.logEvent('ACCOUNT_LINKED', userId, provider, { ipAddress: 'unknown', path: `/api/auth/callback/${provider}` });
+  }
+
+  /**
+   * OAuth and magic-link sign-ins are attached to the user with the same
+   * email. A password sign-up that never verified that email may have been
+   * registered by someone else, so once the owner proves it the password is
+   * cleared and every session ended. Returns whether the account was claimed.
+   */
+  async claimUnverified(userId: string, provider: string, context: AccountRequestContext): Promise<boolean> {
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, emailVerified: null },
+      data: { passwordHash: null },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    const revokedSessions = await sessionRegistry.revokeAll(userId, 'ACCOUNT_CLAIMED', context);
+
+    await securityLogger.log({
+      type: 'UNVERIFIED_ACCOUNT_CLAIMED',
+      severity: 'HIGH',
+      category: 'AUTH',
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      action: 'account_claim',
+      resource: 'account',
+      method: 'POST',
+      path: context.path ?? `/api/auth/callback/${provider}`,
+      success: true,
+      metadata: { provider, revokedSessions },
+    });
+
+    return true;
+  }
+
+  /**
+   * Remove a linked identity, refusing when it is the only way left to sign in
+   */
+  async unlink(userId: string, accountId: string, context: AccountRequestContext): Promise<void> {
+    const overview = await this.overview(userId);
+    const account = overview.accounts.find((linked) => linked.id === accountId);
+    if (!account) {
+      throw new Error('Linked account not found');
+    }
+
+    const otherSignInMethods =
+      overview.accounts.length - 1 + (overview.hasPassword ? 1 : 0) + (securityConfig.accounts.magicLink ? 1 : 0);
+    if (otherSignInMethods === 0) {
+      throw new Error('Set a password before disconnecting your only sign-in method');
+    }
+
+    await prisma.account.delete({ where: { id: accountId } });
+    await this.logEvent('ACCOUNT_UNLINKED', userId, account.provider, context);
+  }
+
+  private async logEvent(
+    type: SecurityEventData['type'],
+    userId: string,
+    provider: string,
+    context: AccountRequestContext
+  ): Promise<void> {
+    await securityLogger.log({
+      type,
+      severity: 'LOW',
+      category: 'AUTH',
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      action: type === 'ACCOUNT_LINKED' ? 'account_link' : 'account_unlink',
+      resource: 'account',
+      method: 'POST',
+      path: context.path ?? '/api/trpc/auth.unlinkAccount',
+      success: true,
+      metadata: { provider },
+    });
+  }
+}
+
+// Singleton instance
+export const linkedAccountService = new LinkedAccountService();
@@ -0,0 +1,215 @@
+/**
+ * Linked Account Tests
+ *
+ * Adapter mapping, single-use verification tokens, the verified-email rule
+ * for OAuth linking, claiming unverified sign-ups and unlink safeguards.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Account } from 'next-auth';
+import { securityConfig } from '../../config';
+import { createAuthAdapter } from '../adapter';
+import { LinkedAccountService, hasVerifiedProviderEmail } from '../LinkedAccountService';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    user: { create: vi.fn(), findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), findFirst: vi.fn(), updateMany: vi.fn() },
+    account: { create: vi.fn(), delete: vi.fn(), updateMany: vi.fn() },
+    verificationToken: { delete: vi.fn() },
+  },
+}));
+
+const logger = vi.hoisted(() => ({ securityLogger: { log: vi.fn() } }));
+const sessions = vi.hoisted(() => ({ sessionRegistry: { revokeAll: vi.fn() } }));
+const lifecycle = vi.hoisted(() => ({ accountLifecycleService: { markVerified: vi.fn() } }));
+
+vi.mock('../../../db', () => db);
+vi.mock('../../logging/SecurityLogger', () => logger);
+vi.mock('../../sessions/SessionRegistry', () => sessions);
+vi.mock('../../lifecycle/AccountLifecycleService', () => lifecycle);
+
+const context = { ipAddress: '203.0.113.5', userAgent: 'vitest' };
+
+const userRow = {
+  id: 'u1',
+  email: 'trader@example.com',
+  emailVerified: null,
+  role: 'USER',
+  fullName: 'Jane Trader',
+  avatarUrl: 'https://example.com/jane.png',
+  subscription: 'FREE',
+  twoFactorEnabledAt: new Date('2025-03-01T00:00:00Z'),
+};
+
+function oauthAccount(provider: string, accessToken?: string): Account {
+  return { provider, providerAccountId: '42', type: 'oauth', access_token: accessToken };
+}
+
+describe('createAuthAdapter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.prisma.user.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  it('should map provider profiles onto our user columns and treat the email as verified', async () => {
+    db.prisma.user.create.mockResolvedValueOnce(userRow);
+    const adapter = createAuthAdapter();
+
+    const user = await adapter.createUser!({
+      email: 'Trader@Example.com',
+      emailVerified: null,
+      name: 'Jane Trader',
+      image: 'https://example.com/jane.png',
+    });
+
+    expect(db.prisma.user.create).toHaveBeenCalledWith({
+      data: {
+        email: 'trader@example.com',
+        emailVerified: expect.any(Date),
+        fullName: 'Jane Trader',
+        avatarUrl: 'https://example.com/jane.png',
+      },
+    });
+    expect(user).toMatchObject({ id: 'u1', name: 'Jane Trader', role: 'USER', twoFactorEnabled: true });
+  });
+
+  it('should only store the provider account id when linking', async () => {
+    await createAuthAdapter().linkAccount!({
+      userId: 'u1',
+      type: 'oauth',
+      provider: 'github',
+      providerAccountId: '42',
+      access_token: 'secret-token',
+      refresh_token: 'secret-refresh',
+    });
+
+    expect(db.prisma.account.create).toHaveBeenCalledWith({
+      data: { userId: 'u1', type: 'oauth', provider: 'github', providerAccountId: '42' },
+    });
+  });
+
+  it('should clear the password and sessions of an unverified sign-up when the email owner links a provider', async () => {
+    db.prisma.user.updateMany.mockResolvedValueOnce({ count: 1 });
+    sessions.sessionRegistry.revokeAll.mockResolvedValueOnce(2);
+
+    await createAuthAdapter().linkAccount!({ userId: 'u1', type: 'oauth', provider: 'google', providerAccountId: '42' });
+
+    expect(db.prisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'u1', emailVerified: null },
+      data: { passwordHash: null },
+    });
+    expect(sessions.sessionRegistry.revokeAll).toHaveBeenCalledWith('u1', 'ACCOUNT_CLAIMED', expect.anything());
+    expect(logger.securityLogger.log).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'UNVERIFIED_ACCOUNT_CLAIMED', userId: 'u1', severity: 'HIGH', metadata: { provider: 'google', revokedSessions: 2 } })
+    );
+    expect(db.prisma.account.create).toHaveBeenCalled();
+  });
+
+  it('should claim an unverified sign-up before a magic link verifies it', async () => {
+    db.prisma.user.updateMany.mockResolvedValueOnce({ count: 1 });
+    db.prisma.user.findUniqueOrThrow.mockResolvedValueOnce({ ...userRow, emailVerified: new Date() });
+
+    await createAuthAdapter().updateUser!({ id: 'u1', emailVerified: new Date() });
+
+    expect(db.prisma.user.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      lifecycle.accountLifecycleService.markVerified.mock.invocationCallOrder[0]!
+    );
+    expect(sessions.sessionRegistry.revokeAll).toHaveBeenCalledWith('u1', 'ACCOUNT_CLAIMED', expect.anything());
+  });
+
+  it('should leave verified accounts alone when linking', async () => {
+    await createAuthAdapter().linkAccount!({ userId: 'u1', type: 'oauth', provider: 'github', providerAccountId: '42' });
+
+    expect(sessions.sessionRegistry.revokeAll).not.toHaveBeenCalled();
+    expect(logger.securityLogger.log).not.toHaveBeenCalled();
+  });
+
+  it('should let a magic-link token be used only once', async () => {
+    const adapter = createAuthAdapter();
+    const token = { identifier: 'trader@example.com', token: 'hashed', expires: new Date() };
+    db.prisma.verificationToken.delete.mockResolvedValueOnce(token).mockRejectedValueOnce(new Error('Record not found'));
+
+    await expect(adapter.useVerificationToken!({ identifier: token.identifier, token: token.token })).resolves.toEqual(token);
+    await expect(adapter.useVerificationToken!({ identifier: token.identifier, token: token.token })).resolves.toBeNull();
+  });
+});
+
+describe('hasVerifiedProviderEmail', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should trust Google only when it reports the email as verified', async () => {
+    await expect(hasVerifiedProviderEmail(oauthAccount('google'), { email: 'a@b.c', email_verified: true } as never)).resolves.toBe(true);
+    await expect(hasVerifiedProviderEmail(oauthAccount('google'), { email: 'a@b.c', email_verified: false } as never)).resolves.toBe(false);
+    await expect(hasVerifiedProviderEmail(oauthAccount('google'), { email: 'a@b.c' })).resolves.toBe(false);
+  });
+
+  it('should check GitHub\'s email list for a verified primary address', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => [
+        { email: 'old@example.com', primary: false, verified: true },
+        { email: 'trader@example.com', primary: true, verified: false },
+      ],
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(hasVerifiedProviderEmail(oauthAccount('github', 'gho_token'), undefined)).resolves.toBe(false);
+    expect(fetchMock.mock.calls[0]![1].headers.Authorization).toBe('Bearer gho_token');
+
+    fetchMock.mockResolvedValueOnce({ ok: true, json: async () => [{ email: 'trader@example.com', primary: true, verified: true }] });
+    await expect(hasVerifiedProviderEmail(oauthAccount('github', 'gho_token'), undefined)).resolves.toBe(true);
+
+    await expect(hasVerifiedProviderEmail(oauthAccount('github'), undefined)).resolves.toBe(false);
+  });
+});
+
+describe('LinkedAccountService', () => {
+  let service: LinkedAccountService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new LinkedAccountService();
+  });
+
+  it('should unlink a provider when a password remains', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce({
+      passwordHash: 'hash',
+      emailVerified: null,
+      accounts: [{ id: 'a1', provider: 'github', email: 'trader@example.com', createdAt: new Date() }],
+    });
+
+    await service.unlink('u1', 'a1', context);
+
+    expect(db.prisma.account.delete).toHaveBeenCalledWith({ where: { id: 'a1' } });
+    expect(logger.securityLogger.log).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'ACCOUNT_UNLINKED', userId: 'u1', metadata: { provider: 'github' } })
+    );
+  });
+
+  it('should refuse to remove the only way left to sign in', async () => {
+    securityConfig.accounts.magicLink = false;
+    db.prisma.user.findUnique.mockResolvedValueOnce({
+      passwordHash: null,
+      emailVerified: new Date(),
+      accounts: [{ id: 'a1', provider: 'google', email: 'trader@example.com', createdAt: new Date() }],
+    });
+
+    try {
+      await expect(service.unlink('u1', 'a1', context)).rejects.toThrow(
+        'Set a password before disconnecting your only sign-in method'
+      );
+      expect(db.prisma.account.delete).not.toHaveBeenCalled();
+    } finally {
+      securityConfig.accounts.magicLink = true;
+    }
+  });
+
+  it('should not unlink another user\'s account', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce({ passwordHash: 'hash', emailVerified: null, accounts: [] });
+
+    await expect(service.unlink('u1', 'a9', context)).rejects.toThrow('Linked account not found');
+    expect(db.prisma.account.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * NextAuth Adapter
+ *
+ * Maps NextAuth's user/account/verification-token calls onto our schema.
+ * The stock Prisma adapter expects `name`/`image` columns and stores provider
+ * tokens; we keep `fullName`/`avatarUrl` and only the provider account id.
+ * Session methods are omitted because sessions are JWTs (see sessions/).
+ */
+
+import type { Adapter, AdapterAccount, AdapterUser } from 'next-auth/adapters';
+import { prisma } from '../../db';
+import { accountLifecycleService } from '../lifecycle/AccountLifecycleService';
+import { linkedAccountService } from './LinkedAccountService';
+import { isTwoFactorRequired } from '../twoFactor/TwoFactorService';
+
+type UserRow = {
+  id: string;
+  email: string;
+  emailVerified: Date | null;
+  role: string;
+  fullName: string | null;
+  avatarUrl: string | null;
+  subscription: unknown;
+  twoFactorEnabledAt: Date | null;
+};
+
+/**
+ * Shape handed to the jwt callback after OAuth or magic-link sign-in, with
+ * the same fields the credentials provider returns
+ */
+export function toAdapterUser(user: UserRow): AdapterUser {
+  return {
+    id: user.id,
+    email: user.email,
+    emailVerified: user.emailVerified,
+    name: user.fullName,
+    image: user.avatarUrl,
+    role: user.role,
+    fullName: user.fullName,
+    subscription: user.subscription,
+    twoFactorEnabled: user.twoFactorEnabledAt !== null,
+    twoFactorSetupRequired: isTwoFactorRequired(user.role) && !user.twoFactorEnabledAt,
+  };
+}
+
+export function createAuthAdapter(): Adapter {
+  return {
+    // Both callers have proven the address: the magic link itself, or the
+    // signIn callback's verified-provider-email check for OAuth
+    async createUser(data: Omit<AdapterUser, 'id'>) {
+      const { email, emailVerified, name, image } = data;
+
+      const user = await prisma.user.create({
+        data: {
+          email: email.toLowerCase(),
+          emailVerified: emailVerified ?? new Date(),
+          fullName: name ?? null,
+          avatarUrl: image ?? null,
+        },
+      });
+      return toAdapterUser(user);
+    },
+
+    async getUser(id) {
+      const user = await prisma.user.findUnique({ where: { id } });
+      return user ? toAdapterUser(user) : null;
+    },
+
+    // Case-insensitive: password sign-ups store the address as typed
+    async getUserByEmail(email) {
+      const user = await prisma.user.findFirst({ where: { email: { equals: email, mode: 'insensitive' } } });
+      return user ? toAdapterUser(user) : null;
+    },
+
+    async getUserByAccount({ provider, providerAccountId }) {
+      const account = await prisma.account.findUnique({
+        where: { provider_providerAccountId: { provider, providerAccountId } },
+        include: { user: true },
+      });
+      return account ? toAdapterUser(account.user) : null;
+    },
+
+    // NextAuth only calls this to stamp emailVerified after a magic link,
+    // which also activates an account still waiting for verification
+    async updateUser({ id, emailVerified }) {
+      if (emailVerified) {
+        await linkedAccountService.claimUnverified(id, 'email', { ipAddress: 'unknown' });
+        await accountLifecycleService.markVerified(id, emailVerified);
+      }
+      const user = await prisma.user.findUniqueOrThrow({ where: { id } });
+      return toAdapterUser(user);
+    },
+
+    // The provider verified the email (see hasVerifiedProviderEmail)
+    async linkAccount(account: AdapterAccount) {
+      await linkedAccountService.claimUnverified(account.userId, account.provider, { ipAddress: 'unknown' });
+      await prisma.account.create({
+        data: {
+          userId: account.userId,
+          type: account.type,
+          provider: account.provider,
+          providerAccountId: account.providerAccountId,
+        },
+      });
+    },
+
+    async unlinkAccount({ provider, providerAccountId }: Pick<AdapterAccount, 'provider' | 'providerAccountId'>) {
+      await prisma.account.delete({
+        where: { provider_providerAccountId: { provider, providerAccountId } },
+      });
+    },
+
+    async createVerificationToken(token) {
+      return prisma.verificationToken.create({ data: token });
+    },
+
+    // Tokens are single use: deleting returns the row only to the first caller
+    async useVerificationToken({ identifier, token }) {
+      try {
+        return await prisma.verificationToken.delete({
+          where: { identifier_token: { identifier, token } },
+        });
+      } catch {
+        return null;
+      }
+    },
+  };
+}
@@ -61,6 +61,42 @@ export const securityConfig = {
     breachApiUrl: 'https://api.pwnedpasswords.com/range',
   },
 
+  // Two-factor authentication configuration
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Prediction Prism',
+    digits: 6,
+    period: 30, // seconds per code
+    window: 1, // Accept one step either side for clock drift
+    recoveryCodeCount: 10,
+    // Wrong codes per user before verification is locked
+    maxAttempts: 5,
+    attemptWindow: 900000, // 15 minutes
+    lockoutDuration: 900000, // 15 minutes
+    // Roles that must enroll before using admin features
+    enforcedRoles: process.env.TWO_FACTOR_ENFORCED_ROLES?.split(',').map((role) => role.trim()).filter(Boolean) || ['ADMIN'],
+  },
+
+  // Sign-in providers besides email + password
+  accounts: {
+    google: !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET),
+    github: !!(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET),
+    magicLink: process.env.ENABLE_MAGIC_LINK !== 'false', // Default: ON
+    magicLinkMaxAge: 15 * 60, // seconds
+  },
+
+  // Session registry configuration
+  sessions: {
+    maxAge: 30 * 24 * 60 * 60 * 1000, // Matches the NextAuth JWT lifetime (30 days)
+    touchInterval: 60000, // Record last seen at most once a minute per session
+  },
+
+  // Account lifecycle configuration
+  lifecycle: {
+    verificationMaxAge: 24 * 60 * 60 * 1000, // Verification links last a day
+    verificationResendInterval: 60000, // At most one new link a minute
+    deletionGracePeriod: 30 * 24 * 60 * 60 * 1000, // Signing in within 30 days cancels a deletion
+  },
+
   // CSRF protection configuration
   csrf: {
     enabled: process.env.ENABLE_CSRF === 'true', // Default: OFF (for gradual rollout)
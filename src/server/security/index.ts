@@ -41,6 +41,55 @@ export type { PasswordStrength } from './password/strength';
 export { checkPasswordBreach, checkMultiplePasswords } from './password/breach-check';
 export type { BreachCheckResult } from './password/breach-check';
 
+// Two-Factor Authentication
+export { TwoFactorService, twoFactorService, isTwoFactorRequired } from './twoFactor/TwoFactorService';
+export type {
+  TwoFactorRequestContext,
+  TwoFactorStatus,
+  TwoFactorEnrollment,
+  TwoFactorVerification,
+} from './twoFactor/TwoFactorService';
+export {
+  generateTotp,
+  verifyTotp,
+  totpUri,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from './twoFactor/totp';
+
+// Session Registry
+export { SessionRegistry, sessionRegistry, describeUserAgent } from './sessions/SessionRegistry';
+export type { SessionRevokeReason, SessionRequestContext, ActiveSession } from './sessions/SessionRegistry';
+
+// Linked Accounts (OAuth / magic link)
+export { createAuthAdapter } from './accounts/adapter';
+export {
+  LinkedAccountService,
+  linkedAccountService,
+  hasVerifiedProviderEmail,
+  OAUTH_PROVIDERS,
+} from './accounts/LinkedAccountService';
+export type {
+  OAuthProvider,
+  AccountRequestContext,
+  LinkedAccount,
+  LinkedAccountsOverview,
+} from './accounts/LinkedAccountService';
+
+// Account Lifecycle (verification, suspension, deletion)
+export {
+  AccountLifecycleService,
+  accountLifecycleService,
+  ACCOUNT_STATUSES,
+  userEventsWhere,
+} from './lifecycle/AccountLifecycleService';
+export type {
+  AccountStatus,
+  AccountStatusSummary,
+  ErasureSummary,
+  LifecycleRequestContext,
+} from './lifecycle/AccountLifecycleService';
+
 // CSRF Protection
 export { createCsrfMiddleware, csrfMiddleware } from './csrf/middleware';
 export {
@@ -0,0 +1,438 @@
+/**
+ * Account Lifecycle Service
+ *
+ * Moves users between UNVERIFIED, ACTIVE, SUSPENDED and PENDING_DELETION:
+ * email verification links, admin suspension with reasons, and deletion
+ * after a grace period that signing in again cancels. Deletion erases the
+ * account: retained records are anonymized and a DataRequest row is kept
+ * as the compliance record.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../db';
+import { EmailService } from '../../services/email';
+import { securityConfig } from '../config';
+import { securityLogger } from '../logging/SecurityLogger';
+import type { SecurityEventData } from '../logging/types';
+import { sessionRegistry } from '../sessions/SessionRegistry';
+
+export const ACCOUNT_STATUSES = ['UNVERIFIED', 'ACTIVE', 'SUSPENDED', 'PENDING_DELETION'] as const;
+export type AccountStatus = (typeof ACCOUNT_STATUSES)[number];
+
+export interface LifecycleRequestContext {
+  ipAddress: string;
+  userAgent?: string;
+  path?: string;
+  actorId?: string; // Admin changing someone else's account
+}
+
+export interface ErasureSummary {
+  events: number;
+  emailLogs: number;
+  securityEvents: number;
+  comments: number;
+}
+
+export interface AccountStatusSummary {
+  status: AccountStatus;
+  emailVerified: boolean;
+  deletionScheduledAt: Date | null;
+}
+
+// Shares NextAuth's VerificationToken table; magic-link rows use the bare email
+const VERIFICATION_PREFIX = 'verify-email:';
+
+const ERASED = '[erased]';
+const ERASED_IP = '0.0.0.0'; // SecurityEvent.ipAddress is required
+const DELETED_COMMENT = '[deleted]';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function stripeCustomerId(subscription: Prisma.JsonValue): string | null {
+  const customerId = (subscription as { stripeCustomerId?: unknown } | null)?.stripeCustomerId;
+  return typeof customerId === 'string' ? customerId : null;
+}
+
+// The Stripe invoice webhooks log payments by customer, without a user id
+function invoiceEventsWhere(customerId: string): Prisma.EventWhereInput {
+  return { entityType: 'INVOICE', data: { path: ['customer'], equals: customerId } };
+}
+
+/**
+ * Event rows that belong to a user: their own, USER rows about them and
+ * invoice rows for their Stripe customer. The data export reads this set
+ * and erasure anonymizes it.
+ */
+export function userEventsWhere(userId: string, subscription: Prisma.JsonValue): Prisma.EventWhereInput {
+  const customerId = stripeCustomerId(subscription);
+  return {
+    OR: [
+      { userId },
+      { entityType: 'USER', entityId: userId },
+      ...(customerId ? [invoiceEventsWhere(customerId)] : []),
+    ],
+  };
+}
+
+/**
+ * Status to return to after a suspension or cancelled deletion
+ */
+function restoredStatus(user: { emailVerified: Date | null }): AccountStatus {
+  return user.emailVerified ? 'ACTIVE' : 'UNVERIFIED';
+}
+
+export class AccountLifecycleService {
+  async summary(userId: string): Promise<AccountStatusSummary> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { status: true, emailVerified: true, deletionScheduledAt: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      status: user.status as AccountStatus,
+      emailVerified: !!user.emailVerified,
+      deletionScheduledAt: user.deletionScheduledAt,
+    };
+  }
+
+  /**
+   * Email a fresh verification link, replacing any earlier one
+   */
+  async sendVerification(userId: string, now: Date = new Date()): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, fullName: true, emailVerified: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.emailVerified) {
+      throw new Error('Email address is already verified');
+    }
+
+    const { verificationMaxAge, verificationResendInterval } = securityConfig.lifecycle;
+    const identifier = `${VERIFICATION_PREFIX}${userId}`;
+
+    // A link issued less than a minute ago expires less than a minute short of the full lifetime
+    const recent = await prisma.verificationToken.findFirst({
+      where: {
+        identifier,
+        expires: { gt: new Date(now.getTime() + verificationMaxAge - verificationResendInterval) },
+      },
+    });
+    if (recent) {
+      throw new Error('A verification email was just sent. Please wait a minute before requesting another.');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    await prisma.verificationToken.deleteMany({ where: { identifier } });
+    await prisma.verificationToken.create({
+      data: {
+        identifier,
+        token: hashToken(token),
+        expires: new Date(now.getTime() + verificationMaxAge),
+      },
+    });
+
+    const verifyLink = `${process.env.NEXTAUTH_URL}/auth/verify-email?token=${token}`;
+    await new EmailService().sendVerificationEmail(
+      user.email,
+      user.fullName || 'there',
+      verifyLink,
+      verificationMaxAge / 3600000
+    );
+  }
+
+  /**
+   * Consume a verification link and activate the account
+   */
+  async verifyEmail(token: string, context: LifecycleRequestContext, now: Date = new Date()): Promise<string> {
+    const row = await prisma.verificationToken.findUnique({ where: { token: hashToken(token) } });
+
+    if (!row || !row.identifier.startsWith(VERIFICATION_PREFIX) || row.expires < now) {
+      throw new Error('Invalid or expired verification link');
+    }
+
+    await prisma.verificationToken.delete({ where: { token: row.token } });
+
+    const userId = row.identifier.slice(VERIFICATION_PREFIX.length);
+    await this.markVerified(userId, now);
+    await this.logEvent('EMAIL_VERIFIED', userId, context);
+
+    return userId;
+  }
+
+  /**
+   * Record a proven email address; also called after magic-link sign-in
+   */
+  async markVerified(userId: string, at: Date = new Date()): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerified: at },
+    });
+
+    // Suspended and deleting accounts keep their status
+    await prisma.user.updateMany({
+      where: { id: userId, status: 'UNVERIFIED' },
+      data: { status: 'ACTIVE', statusChangedAt: at },
+    });
+  }
+
+  async isSuspended(email: string): Promise<boolean> {
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { status: true },
+    });
+    return user?.status === 'SUSPENDED';
+  }
+
+  /**
+   * Block sign-in and end every session, keeping the reason for the audit trail
+   */
+  async suspend(userId: string, reason: string, context: LifecycleRequestContext): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { status: true } });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.status === 'SUSPENDED') {
+      throw new Error('Account is already suspended');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { status: 'SUSPENDED', statusReason: reason, statusChangedAt: new Date(), deletionScheduledAt: null },
+    });
+
+    await sessionRegistry.revokeAll(userId, 'ACCOUNT_SUSPENDED', context);
+    await this.logEvent('ACCOUNT_SUSPENDED', userId, context, { reason });
+  }
+
+  /**
+   * Lift a suspension, or cancel a pending deletion on the user's behalf
+   */
+  async reactivate(userId: string, reason: string, context: LifecycleRequestContext): Promise<AccountStatus> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { status: true, emailVerified: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.status !== 'SUSPENDED' && user.status !== 'PENDING_DELETION') {
+      throw new Error('Account is not suspended');
+    }
+
+    const status = restoredStatus(user);
+    await prisma.user.update({
+      where: { id: userId },
+      data: { status, statusReason: reason, statusChangedAt: new Date(), deletionScheduledAt: null },
+    });
+
+    if (user.status === 'PENDING_DELETION') {
+      await this.closeErasureRequest(userId);
+    }
+
+    await this.logEvent('ACCOUNT_REACTIVATED', userId, context, { reason, previousStatus: user.status });
+    return status;
+  }
+
+  /**
+   * Sign the user out everywhere and delete the account once the grace period ends
+   */
+  async scheduleDeletion(userId: string, context: LifecycleRequestContext, now: Date = new Date()): Promise<Date> {
+    const deletionScheduledAt = new Date(now.getTime() + securityConfig.lifecycle.deletionGracePeriod);
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { status: 'PENDING_DELETION', statusChangedAt: now, deletionScheduledAt },
+      select: { email: true, fullName: true },
+    });
+
+    const request = await prisma.dataRequest.create({
+      data: { userId, type: 'ERASURE', requestedAt: now },
+      select: { id: true },
+    });
+
+    await sessionRegistry.revokeAll(userId, 'ACCOUNT_DELETED', context);
+    await this.logEvent('ACCOUNT_DELETION_SCHEDULED', userId, context, {
+      deletionScheduledAt: deletionScheduledAt.toISOString(),
+      requestId: request.id,
+    });
+
+    await new EmailService().sendAccountDeletionScheduled(user.email, user.fullName || 'there', deletionScheduledAt);
+    return deletionScheduledAt;
+  }
+
+  /**
+   * Signing in during the grace period keeps the account
+   */
+  async cancelDeletion(userId: string, context: LifecycleRequestContext): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { status: true, emailVerified: true },
+    });
+
+    if (user?.status !== 'PENDING_DELETION') {
+      return false;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { status: restoredStatus(user), statusChangedAt: new Date(), deletionScheduledAt: null },
+    });
+
+    await this.closeErasureRequest(userId);
+    await this.logEvent('ACCOUNT_DELETION_CANCELLED', userId, context);
+    return true;
+  }
+
+  /**
+   * Erase accounts whose grace period has passed (CLEANUP_OLD_JOBS cron)
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const due = await prisma.user.findMany({
+      where: { status: 'PENDING_DELETION', deletionScheduledAt: { lte: now } },
+      select: { id: true },
+    });
+
+    let purged = 0;
+    for (const { id } of due) {
+      try {
+        await this.erase(id, { ipAddress: 'system', path: 'cron:CLEANUP_OLD_JOBS' }, now);
+        purged++;
+      } catch (error) {
+        // e.g. articles still reference the author; retried on the next run
+        console.error(`Failed to purge account ${id}:`, error);
+      }
+    }
+
+    return purged;
+  }
+
+  /**
+   * Delete the account and anonymize what is kept: events and security events
+   * lose their user id, IP and any logged email address (events about the
+   * user lose their payload too, payments their customer id), and comments
+   * stay in their threads as "[deleted]" without an author. Export archives
+   * are removed.
+   */
+  async erase(userId: string, context: LifecycleRequestContext, now: Date = new Date()): Promise<ErasureSummary> {
+    const { requestId, summary } = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({ where: { id: userId }, select: { email: true, subscription: true } });
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const events = await tx.event.updateMany({
+        where: { userId },
+        data: { userId: null, ipAddress: null },
+      });
+      // e.g. PASSWORD_RESET_REQUEST, written without a user id, keeps the email in data
+      await tx.event.updateMany({
+        where: { entityType: 'USER', entityId: userId },
+        data: { entityId: null, data: {} },
+      });
+      // Keep amounts for the books; only the customer id points at the user
+      const customerId = stripeCustomerId(user.subscription);
+      const invoices = customerId
+        ? await tx.event.findMany({ where: invoiceEventsWhere(customerId), select: { id: true, data: true } })
+        : [];
+      for (const invoice of invoices) {
+        await tx.event.update({
+          where: { id: invoice.id },
+          data: { data: { ...(invoice.data as Prisma.JsonObject), customer: ERASED } },
+        });
+      }
+      // EmailService logs the recipient address without a user id
+      const emailLogs = await tx.event.updateMany({
+        where: { type: { in: ['EMAIL_SENT', 'EMAIL_FAILED'] }, data: { path: ['to'], equals: user.email } },
+        data: { data: { to: ERASED } },
+      });
+      // Failed sign-ins are logged with the attempted email
+      const securityEvents = await tx.securityEvent.updateMany({
+        where: { OR: [{ userId }, { metadata: { path: ['email'], equals: user.email } }] },
+        data: { userId: null, ipAddress: ERASED_IP, userAgent: null, sessionId: null, metadata: {} },
+      });
+      const comments = await tx.comment.updateMany({
+        where: { authorId: userId },
+        data: { authorId: null, content: DELETED_COMMENT },
+      });
+
+      await tx.dataRequest.deleteMany({ where: { userId, type: 'EXPORT' } });
+      await tx.user.delete({ where: { id: userId } });
+
+      const summary: ErasureSummary = {
+        events: events.count + invoices.length,
+        emailLogs: emailLogs.count,
+        securityEvents: securityEvents.count,
+        comments: comments.count,
+      };
+
+      // Admin deletions have no request from the user yet
+      const pending = await tx.dataRequest.findFirst({
+        where: { userId, type: 'ERASURE', status: 'PENDING' },
+        select: { id: true },
+      });
+      const request = pending
+        ? await tx.dataRequest.update({
+            where: { id: pending.id },
+            data: { status: 'COMPLETED', summary: { ...summary }, completedAt: now },
+            select: { id: true },
+          })
+        : await tx.dataRequest.create({
+            data: { userId, type: 'ERASURE', status: 'COMPLETED', summary: { ...summary }, requestedAt: now, completedAt: now },
+            select: { id: true },
+          });
+
+      return { requestId: request.id, summary };
+    });
+
+    // Logged without the user id, which would undo the anonymization
+    await this.logEvent('ACCOUNT_DELETED', undefined, context, { requestId, ...summary });
+    return summary;
+  }
+
+  private async closeErasureRequest(userId: string): Promise<void> {
+    await prisma.dataRequest.updateMany({
+      where: { userId, type: 'ERASURE', status: 'PENDING' },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+  }
+
+  private async logEvent(
+    type: SecurityEventData['type'],
+    userId: string | undefined,
+    context: LifecycleRequestContext,
+    metadata: Record<string, unknown> = {}
+  ): Promise<void> {
+    const byAdmin = !!context.actorId && context.actorId !== userId;
+
+    await securityLogger.log({
+      type,
+      severity: type === 'ACCOUNT_SUSPENDED' || type === 'ACCOUNT_DELETED' ? 'MEDIUM' : 'LOW',
+      category: byAdmin ? 'ADMIN' : 'AUTH',
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      action: type.toLowerCase(),
+      resource: 'user',
+      method: 'POST',
+      path: context.path ?? '/api/trpc/auth',
+      success: true,
+      metadata: byAdmin ? { ...metadata, actorId: context.actorId } : metadata,
+    });
+  }
+}
+
+// Singleton instance
+export const accountLifecycleService = new AccountLifecycleService();
@@ -0,0 +1,323 @@
+/**
+ * Account Lifecycle Tests
+ *
+ * Verification links, suspension, reactivation and deletion with a grace period.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { AccountLifecycleService, userEventsWhere } from '../AccountLifecycleService';
+
+const db = vi.hoisted(() => {
+  const prisma = {
+    user: { findUnique: vi.fn(), findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn(), delete: vi.fn() },
+    verificationToken: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn(), delete: vi.fn(), deleteMany: vi.fn() },
+    dataRequest: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn(), updateMany: vi.fn(), deleteMany: vi.fn() },
+    event: { findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    securityEvent: { updateMany: vi.fn() },
+    comment: { updateMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  return { prisma };
+});
+
+const logger = vi.hoisted(() => ({ securityLogger: { log: vi.fn() } }));
+const sessions = vi.hoisted(() => ({ sessionRegistry: { revokeAll: vi.fn() } }));
+const email = vi.hoisted(() => ({
+  sendVerificationEmail: vi.fn(),
+  sendAccountDeletionScheduled: vi.fn(),
+}));
+
+vi.mock('../../../db', () => db);
+vi.mock('../../logging/SecurityLogger', () => logger);
+vi.mock('../../sessions/SessionRegistry', () => sessions);
+vi.mock('../../../services/email', () => ({
+  EmailService: vi.fn(() => email),
+}));
+
+const now = new Date('2025-03-15T12:00:00Z');
+const context = { ipAddress: '203.0.113.5', userAgent: 'vitest' };
+
+describe('AccountLifecycleService', () => {
+  let service: AccountLifecycleService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.prisma.$transaction.mockImplementation((fn: (tx: typeof db.prisma) => unknown) => fn(db.prisma));
+    service = new AccountLifecycleService();
+  });
+
+  describe('email verification', () => {
+    it('should store only a hash of the emailed token', async () => {
+      vi.stubEnv('NEXTAUTH_URL', 'http://localhost:3000');
+      db.prisma.user.findUnique.mockResolvedValueOnce({ email: 'trader@example.com', fullName: 'Jane', emailVerified: null });
+      db.prisma.verificationToken.findFirst.mockResolvedValueOnce(null);
+
+      await service.sendVerification('u1', now);
+
+      const link = email.sendVerificationEmail.mock.calls[0]![2] as string;
+      const token = new URL(link).searchParams.get('token')!;
+      expect(db.prisma.verificationToken.deleteMany).toHaveBeenCalledWith({ where: { identifier: 'verify-email:u1' } });
+      expect(db.prisma.verificationToken.create).toHaveBeenCalledWith({
+        data: {
+          identifier: 'verify-email:u1',
+          token: createHash('sha256').update(token).digest('hex'),
+          expires: new Date('2025-03-16T12:00:00Z'),
+        },
+      });
+      expect(email.sendVerificationEmail).toHaveBeenCalledWith('trader@example.com', 'Jane', link, 24);
+      expect(link.startsWith('http://localhost:3000/auth/verify-email?token=')).toBe(true);
+      vi.unstubAllEnvs();
+    });
+
+    it('should not resend within a minute of the last link', async () => {
+      db.prisma.user.findUnique.mockResolvedValueOnce({ email: 'trader@example.com', fullName: null, emailVerified: null });
+      db.prisma.verificationToken.findFirst.mockResolvedValueOnce({ identifier: 'verify-email:u1' });
+
+      await expect(service.sendVerification('u1', now)).rejects.toThrow('Please wait a minute');
+      expect(db.prisma.verificationToken.findFirst).toHaveBeenCalledWith({
+        where: { identifier: 'verify-email:u1', expires: { gt: new Date('2025-03-16T11:59:00Z') } },
+      });
+      expect(email.sendVerificationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should activate the account once the link is used', async () => {
+      db.prisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'verify-email:u1',
+        token: 'hashed',
+        expires: new Date('2025-03-16T00:00:00Z'),
+      });
+
+      await expect(service.verifyEmail('raw-token', context, now)).resolves.toBe('u1');
+
+      expect(db.prisma.verificationToken.delete).toHaveBeenCalledWith({ where: { token: 'hashed' } });
+      expect(db.prisma.user.update).toHaveBeenCalledWith({ where: { id: 'u1' }, data: { emailVerified: now } });
+      expect(db.prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'u1', status: 'UNVERIFIED' },
+        data: { status: 'ACTIVE', statusChangedAt: now },
+      });
+      expect(logger.securityLogger.log).toHaveBeenCalledWith(expect.objectContaining({ type: 'EMAIL_VERIFIED', userId: 'u1' }));
+    });
+
+    it('should reject expired links and magic-link tokens', async () => {
+      db.prisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'verify-email:u1',
+        token: 'hashed',
+        expires: new Date('2025-03-15T11:00:00Z'),
+      });
+      await expect(service.verifyEmail('raw-token', context, now)).rejects.toThrow('Invalid or expired verification link');
+
+      db.prisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'trader@example.com',
+        token: 'hashed',
+        expires: new Date('2025-03-16T00:00:00Z'),
+      });
+      await expect(service.verifyEmail('raw-token', context, now)).rejects.toThrow('Invalid or expired verification link');
+
+      expect(db.prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('suspension', () => {
+    it('should suspend with a reason and end every session', async () => {
+      db.prisma.user.findUnique.mockResolvedValueOnce({ status: 'ACTIVE' });
+      const adminContext = { ...context, actorId: 'admin1' };
+
+      await service.suspend('u1', 'Spam in comments', adminContext);
+
+      expect(db.prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: expect.objectContaining({ status: 'SUSPENDED', statusReason: 'Spam in comments' }),
+      });
+      expect(sessions.sessionRegistry.revokeAll).toHaveBeenCalledWith('u1', 'ACCOUNT_SUSPENDED', adminContext);
+      expect(logger.securityLogger.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'ACCOUNT_SUSPENDED',
+          category: 'ADMIN',
+          metadata: { reason: 'Spam in comments', actorId: 'admin1' },
+        })
+      );
+    });
+
+    it('should restore unverified accounts to unverified on reactivation', async () => {
+      db.prisma.user.findUnique.mockResolvedValueOnce({ status: 'SUSPENDED', emailVerified: null });
+
+      await expect(service.reactivate('u1', 'Appeal accepted', context)).resolves.toBe('UNVERIFIED');
+
+      db.prisma.user.findUnique.mockResolvedValueOnce({ status: 'ACTIVE', emailVerified: now });
+      await expect(service.reactivate('u1', 'Appeal accepted', context)).rejects.toThrow('Account is not suspended');
+    });
+
+    it('should look up suspensions case-insensitively', async () => {
+      db.prisma.user.findFirst.mockResolvedValueOnce({ status: 'SUSPENDED' });
+
+      await expect(service.isSuspended('Trader@Example.com')).resolves.toBe(true);
+      expect(db.prisma.user.findFirst.mock.calls[0]![0].where).toEqual({
+        email: { equals: 'Trader@Example.com', mode: 'insensitive' },
+      });
+    });
+  });
+
+  describe('deletion', () => {
+    it('should schedule deletion after the grace period and sign the user out', async () => {
+      db.prisma.user.update.mockResolvedValueOnce({ email: 'trader@example.com', fullName: 'Jane' });
+      db.prisma.dataRequest.create.mockResolvedValueOnce({ id: 'r1' });
+
+      const deletionDate = await service.scheduleDeletion('u1', context, now);
+
+      expect(deletionDate).toEqual(new Date('2025-04-14T12:00:00Z'));
+      expect(db.prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: { status: 'PENDING_DELETION', statusChangedAt: now, deletionScheduledAt: deletionDate },
+        select: { email: true, fullName: true },
+      });
+      expect(db.prisma.dataRequest.create).toHaveBeenCalledWith({
+        data: { userId: 'u1', type: 'ERASURE', requestedAt: now },
+        select: { id: true },
+      });
+      expect(sessions.sessionRegistry.revokeAll).toHaveBeenCalledWith('u1', 'ACCOUNT_DELETED', context);
+      expect(email.sendAccountDeletionScheduled).toHaveBeenCalledWith('trader@example.com', 'Jane', deletionDate);
+    });
+
+    it('should cancel a pending deletion when the user signs in again', async () => {
+      db.prisma.user.findUnique.mockResolvedValueOnce({ status: 'PENDING_DELETION', emailVerified: now });
+
+      await expect(service.cancelDeletion('u1', context)).resolves.toBe(true);
+      expect(db.prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: expect.objectContaining({ status: 'ACTIVE', deletionScheduledAt: null }),
+      });
+      expect(db.prisma.dataRequest.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'u1', type: 'ERASURE', status: 'PENDING' },
+        data: { status: 'CANCELLED', completedAt: expect.any(Date) },
+      });
+
+      db.prisma.user.findUnique.mockResolvedValueOnce({ status: 'ACTIVE', emailVerified: now });
+      await expect(service.cancelDeletion('u1', context)).resolves.toBe(false);
+      expect(db.prisma.user.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should purge accounts past their grace period and keep going after a failure', async () => {
+      db.prisma.user.findMany.mockResolvedValueOnce([{ id: 'u1' }, { id: 'u2' }, { id: 'u3' }]);
+      db.prisma.user.findUnique.mockResolvedValue({ email: 'trader@example.com' });
+      db.prisma.user.delete.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error('Foreign key constraint')).mockResolvedValueOnce({});
+      db.prisma.event.updateMany.mockResolvedValue({ count: 0 });
+      db.prisma.securityEvent.updateMany.mockResolvedValue({ count: 0 });
+      db.prisma.comment.updateMany.mockResolvedValue({ count: 0 });
+      db.prisma.dataRequest.findFirst.mockResolvedValue(null);
+      db.prisma.dataRequest.create.mockResolvedValue({ id: 'r1' });
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(service.purgeExpired(now)).resolves.toBe(2);
+
+      expect(db.prisma.user.findMany).toHaveBeenCalledWith({
+        where: { status: 'PENDING_DELETION', deletionScheduledAt: { lte: now } },
+        select: { id: true },
+      });
+      expect(logger.securityLogger.log).toHaveBeenCalledTimes(2);
+    });
+
+    it('should anonymize retained records and keep a compliance record', async () => {
+      db.prisma.user.findUnique.mockResolvedValueOnce({ email: 'trader@example.com' });
+      db.prisma.event.updateMany
+        .mockResolvedValueOnce({ count: 12 })
+        .mockResolvedValueOnce({ count: 3 })
+        .mockResolvedValueOnce({ count: 2 });
+      db.prisma.securityEvent.updateMany.mockResolvedValueOnce({ count: 5 });
+      db.prisma.comment.updateMany.mockResolvedValueOnce({ count: 4 });
+      db.prisma.dataRequest.findFirst.mockResolvedValueOnce({ id: 'r1' });
+      db.prisma.dataRequest.update.mockResolvedValueOnce({ id: 'r1' });
+
+      const summary = await service.erase('u1', { ipAddress: 'system', path: 'cron:CLEANUP_OLD_JOBS' }, now);
+
+      expect(summary).toEqual({ events: 12, emailLogs: 2, securityEvents: 5, comments: 4 });
+      expect(db.prisma.event.updateMany).toHaveBeenCalledWith({ where: { userId: 'u1' }, data: { userId: null, ipAddress: null } });
+      // Password reset requests log the email on the USER row, without a user id
+      expect(db.prisma.event.updateMany).toHaveBeenCalledWith({
+        where: { entityType: 'USER', entityId: 'u1' },
+        data: { entityId: null, data: {} },
+      });
+      expect(db.prisma.event.updateMany).toHaveBeenCalledWith({
+        where: { type: { in: ['EMAIL_SENT', 'EMAIL_FAILED'] }, data: { path: ['to'], equals: 'trader@example.com' } },
+        data: { data: { to: '[erased]' } },
+      });
+      expect(db.prisma.securityEvent.updateMany).toHaveBeenCalledWith({
+        where: { OR: [{ userId: 'u1' }, { metadata: { path: ['email'], equals: 'trader@example.com' } }] },
+        data: { userId: null, ipAddress: '0.0.0.0', userAgent: null, sessionId: null, metadata: {} },
+      });
+      expect(db.prisma.comment.updateMany).toHaveBeenCalledWith({
+        where: { authorId: 'u1' },
+        data: { authorId: null, content: '[deleted]' },
+      });
+      expect(db.prisma.dataRequest.deleteMany).toHaveBeenCalledWith({ where: { userId: 'u1', type: 'EXPORT' } });
+      expect(db.prisma.user.delete).toHaveBeenCalledWith({ where: { id: 'u1' } });
+      expect(db.prisma.dataRequest.update).toHaveBeenCalledWith({
+        where: { id: 'r1' },
+        data: { status: 'COMPLETED', summary, completedAt: now },
+        select: { id: true },
+      });
+
+      const logged = logger.securityLogger.log.mock.calls[0]![0];
+      expect(logged).toMatchObject({ type: 'ACCOUNT_DELETED', metadata: { requestId: 'r1', comments: 4 } });
+      expect(logged.userId).toBeUndefined();
+    });
+
+    it('should strip the Stripe customer from payments and keep the amounts', async () => {
+      db.prisma.user.findUnique.mockResolvedValueOnce({ email: 'trader@example.com', subscription: { tier: 'PREMIUM', stripeCustomerId: 'cus_1' } });
+      db.prisma.event.updateMany.mockResolvedValue({ count: 1 });
+      db.prisma.event.findMany.mockResolvedValueOnce([
+        { id: 'e1', data: { amount: 999, currency: 'usd', customer: 'cus_1' } },
+        { id: 'e2', data: { amount: 999, currency: 'usd', customer: 'cus_1', attemptCount: 2 } },
+      ]);
+      db.prisma.securityEvent.updateMany.mockResolvedValueOnce({ count: 0 });
+      db.prisma.comment.updateMany.mockResolvedValueOnce({ count: 0 });
+      db.prisma.dataRequest.findFirst.mockResolvedValueOnce({ id: 'r1' });
+      db.prisma.dataRequest.update.mockResolvedValueOnce({ id: 'r1' });
+
+      const summary = await service.erase('u1', context, now);
+
+      expect(summary.events).toBe(3);
+      expect(db.prisma.event.findMany).toHaveBeenCalledWith({
+        where: { entityType: 'INVOICE', data: { path: ['customer'], equals: 'cus_1' } },
+        select: { id: true, data: true },
+      });
+      expect(db.prisma.event.update).toHaveBeenCalledWith({
+        where: { id: 'e2' },
+        data: { data: { amount: 999, currency: 'usd', customer: '[erased]', attemptCount: 2 } },
+      });
+      expect(db.prisma.event.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cover the rows the data export reads', () => {
+      expect(userEventsWhere('u1', { tier: 'FREE', stripeCustomerId: null })).toEqual({
+        OR: [{ userId: 'u1' }, { entityType: 'USER', entityId: 'u1' }],
+      });
+      expect(userEventsWhere('u1', { tier: 'PREMIUM', stripeCustomerId: 'cus_1' })).toEqual({
+        OR: [
+          { userId: 'u1' },
+          { entityType: 'USER', entityId: 'u1' },
+          { entityType: 'INVOICE', data: { path: ['customer'], equals: 'cus_1' } },
+        ],
+      });
+    });
+
+    it('should record an admin deletion that the user never requested', async () => {
+      db.prisma.user.findUnique.mockResolvedValueOnce({ email: 'trader@example.com' });
+      db.prisma.event.updateMany.mockResolvedValue({ count: 0 });
+      db.prisma.securityEvent.updateMany.mockResolvedValueOnce({ count: 0 });
+      db.prisma.comment.updateMany.mockResolvedValueOnce({ count: 0 });
+      db.prisma.dataRequest.findFirst.mockResolvedValueOnce(null);
+      db.prisma.dataRequest.create.mockResolvedValueOnce({ id: 'r2' });
+
+      await service.erase('u1', { ...context, actorId: 'admin1' }, now);
+
+      expect(db.prisma.dataRequest.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'u1', type: 'ERASURE', status: 'COMPLETED', completedAt: now }),
+        select: { id: true },
+      });
+      expect(logger.securityLogger.log).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'ACCOUNT_DELETED', category: 'ADMIN', metadata: expect.objectContaining({ actorId: 'admin1' }) })
+      );
+    });
+  });
+});
@@ -12,6 +12,24 @@ export type SecurityEventType =
   | 'PASSWORD_RESET_REQUEST'
   | 'PASSWORD_RESET_COMPLETE'
   | 'PASSWORD_CHANGE'
+  | 'TWO_FACTOR_ENROLLED'
+  | 'TWO_FACTOR_DISABLED'
+  | 'TWO_FACTOR_SUCCESS'
+  | 'TWO_FACTOR_FAILURE'
+  | 'TWO_FACTOR_LOCKED'
+  | 'TWO_FACTOR_RECOVERY_CODES_REGENERATED'
+  | 'SESSION_REVOKED'
+  | 'ACCOUNT_LINKED'
+  | 'ACCOUNT_UNLINKED'
+  | 'UNVERIFIED_ACCOUNT_CLAIMED'
+  | 'EMAIL_VERIFIED'
+  | 'ACCOUNT_SUSPENDED'
+  | 'ACCOUNT_REACTIVATED'
+  | 'ACCOUNT_DELETION_SCHEDULED'
+  | 'ACCOUNT_DELETION_CANCELLED'
+  | 'ACCOUNT_DELETED'
+  | 'DATA_EXPORT_REQUESTED'
+  | 'DATA_EXPORT_DOWNLOADED'
 
   // Rate Limiting
   | 'RATE_LIMIT_EXCEEDED'
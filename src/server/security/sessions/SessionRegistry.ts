@@ -0,0 +1,208 @@
+/**
+ * Session Registry
+ *
+ * NextAuth issues stateless JWTs, so each sign-in also gets a UserSession
+ * row whose id travels in the token as `sid`. A token is only honoured while
+ * its row exists and is not revoked, which makes sign-out of other devices,
+ * admin force-logout and account deletion take effect immediately.
+ */
+
+import { prisma } from '../../db';
+import { securityConfig } from '../config';
+import { securityLogger } from '../logging/SecurityLogger';
+
+export type SessionRevokeReason =
+  | 'SIGNED_OUT'
+  | 'OTHER_SESSIONS'
+  | 'PASSWORD_CHANGED'
+  | 'ADMIN'
+  | 'ACCOUNT_SUSPENDED'
+  | 'ACCOUNT_DELETED'
+  | 'ACCOUNT_CLAIMED';
+
+export interface SessionRequestContext {
+  ipAddress: string;
+  userAgent?: string;
+  path?: string;
+  actorId?: string; // Admin revoking someone else's sessions
+}
+
+export interface ActiveSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  device: string;
+  browser: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+/**
+ * Rough device and browser names for the sessions list
+ */
+export function describeUserAgent(userAgent: string | null | undefined): { device: string; browser: string } {
+  const ua = userAgent ?? '';
+
+  const device =
+    /iPhone/.test(ua) ? 'iPhone'
+    : /iPad/.test(ua) ? 'iPad'
+    : /Android/.test(ua) ? 'Android'
+    : /Macintosh|Mac OS X/.test(ua) ? 'Mac'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'Unknown device';
+
+  const browser =
+    /Edg\//.test(ua) ? 'Edge'
+    : /OPR\//.test(ua) ? 'Opera'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Unknown browser';
+
+  return { device, browser };
+}
+
+export class SessionRegistry {
+  /**
+   * Register a new sign-in. Returns the id to embed in the JWT.
+   */
+  async create(userId: string): Promise<string> {
+    const session = await prisma.userSession.create({
+      data: { userId },
+      select: { id: true },
+    });
+    return session.id;
+  }
+
+  /**
+   * Whether a token carrying this session id may still be used
+   */
+  async isActive(sessionId: string | undefined, now: Date = new Date()): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+
+    const session = await prisma.userSession.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, lastSeenAt: true },
+    });
+
+    return (
+      !!session &&
+      !session.revokedAt &&
+      session.lastSeenAt.getTime() > now.getTime() - securityConfig.sessions.maxAge
+    );
+  }
+
+  /**
+   * Record where and when a session was last used. Throttled so busy pages
+   * do not write on every request; the first request after sign-in always
+   * fills in the device details.
+   */
+  async touch(sessionId: string, context: SessionRequestContext, now: Date = new Date()): Promise<void> {
+    await prisma.userSession.updateMany({
+      where: {
+        id: sessionId,
+        revokedAt: null,
+        OR: [
+          { lastSeenAt: { lt: new Date(now.getTime() - securityConfig.sessions.touchInterval) } },
+          { ipAddress: null },
+        ],
+      },
+      data: {
+        lastSeenAt: now,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent ?? null,
+      },
+    });
+  }
+
+  async list(userId: string, currentSessionId?: string, now: Date = new Date()): Promise<ActiveSession[]> {
+    const sessions = await prisma.userSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        lastSeenAt: { gt: new Date(now.getTime() - securityConfig.sessions.maxAge) },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      ...describeUserAgent(session.userAgent),
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  async revoke(userId: string, sessionId: string, context: SessionRequestContext): Promise<void> {
+    const count = await this.revokeWhere(
+      { id: sessionId, userId, revokedAt: null },
+      userId,
+      'SIGNED_OUT',
+      context
+    );
+
+    if (count === 0) {
+      throw new Error('Session not found');
+    }
+  }
+
+  /**
+   * Sign out everywhere except the device making the request
+   */
+  async revokeOthers(
+    userId: string,
+    currentSessionId: string,
+    context: SessionRequestContext,
+    reason: SessionRevokeReason = 'OTHER_SESSIONS'
+  ): Promise<number> {
+    return this.revokeWhere({ userId, revokedAt: null, id: { not: currentSessionId } }, userId, reason, context);
+  }
+
+  async revokeAll(userId: string, reason: SessionRevokeReason, context: SessionRequestContext): Promise<number> {
+    return this.revokeWhere({ userId, revokedAt: null }, userId, reason, context);
+  }
+
+  private async revokeWhere(
+    where: Record<string, unknown>,
+    userId: string,
+    reason: SessionRevokeReason,
+    context: SessionRequestContext
+  ): Promise<number> {
+    const { count } = await prisma.userSession.updateMany({
+      where,
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (count > 0) {
+      await securityLogger.log({
+        type: 'SESSION_REVOKED',
+        severity: reason === 'ADMIN' || reason === 'ACCOUNT_SUSPENDED' ? 'MEDIUM' : 'LOW',
+        category: 'AUTH',
+        userId,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        action: 'session_revoke',
+        resource: 'session',
+        method: 'POST',
+        path: context.path ?? '/api/trpc',
+        success: true,
+        metadata: { reason, count, actorId: context.actorId ?? userId },
+      });
+    }
+
+    return count;
+  }
+}
+
+// Singleton instance
+export const sessionRegistry = new SessionRegistry();
@@ -0,0 +1,143 @@
+/**
+ * Session Registry Tests
+ *
+ * Token validity, activity tracking and revocation.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionRegistry, describeUserAgent } from '../SessionRegistry';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    userSession: { create: vi.fn(), findUnique: vi.fn(), findMany: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+const logger = vi.hoisted(() => ({ securityLogger: { log: vi.fn() } }));
+
+vi.mock('../../../db', () => db);
+vi.mock('../../logging/SecurityLogger', () => logger);
+
+const now = new Date('2025-03-15T12:00:00Z');
+const context = { ipAddress: '203.0.113.5', userAgent: 'vitest' };
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+describe('describeUserAgent', () => {
+  it('should name common devices and browsers', () => {
+    expect(describeUserAgent(CHROME_MAC)).toEqual({ device: 'Mac', browser: 'Chrome' });
+    expect(describeUserAgent(SAFARI_IPHONE)).toEqual({ device: 'iPhone', browser: 'Safari' });
+    expect(describeUserAgent(null)).toEqual({ device: 'Unknown device', browser: 'Unknown browser' });
+  });
+});
+
+describe('SessionRegistry', () => {
+  let registry: SessionRegistry;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registry = new SessionRegistry();
+    db.prisma.userSession.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should create a session and return its id for the token', async () => {
+    db.prisma.userSession.create.mockResolvedValueOnce({ id: 's1' });
+
+    await expect(registry.create('u1')).resolves.toBe('s1');
+    expect(db.prisma.userSession.create).toHaveBeenCalledWith({ data: { userId: 'u1' }, select: { id: true } });
+  });
+
+  it('should only honour existing, unrevoked, recently used sessions', async () => {
+    await expect(registry.isActive(undefined, now)).resolves.toBe(false);
+
+    db.prisma.userSession.findUnique.mockResolvedValueOnce(null);
+    await expect(registry.isActive('gone', now)).resolves.toBe(false);
+
+    db.prisma.userSession.findUnique.mockResolvedValueOnce({ revokedAt: now, lastSeenAt: now });
+    await expect(registry.isActive('s1', now)).resolves.toBe(false);
+
+    db.prisma.userSession.findUnique.mockResolvedValueOnce({ revokedAt: null, lastSeenAt: new Date('2025-01-01T00:00:00Z') });
+    await expect(registry.isActive('s1', now)).resolves.toBe(false);
+
+    db.prisma.userSession.findUnique.mockResolvedValueOnce({ revokedAt: null, lastSeenAt: new Date('2025-03-14T00:00:00Z') });
+    await expect(registry.isActive('s1', now)).resolves.toBe(true);
+  });
+
+  it('should throttle last-seen updates but always fill in a new session', async () => {
+    await registry.touch('s1', context, now);
+
+    expect(db.prisma.userSession.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 's1',
+        revokedAt: null,
+        OR: [{ lastSeenAt: { lt: new Date('2025-03-15T11:59:00Z') } }, { ipAddress: null }],
+      },
+      data: { lastSeenAt: now, ipAddress: '203.0.113.5', userAgent: 'vitest' },
+    });
+  });
+
+  it('should list active sessions and mark the current one', async () => {
+    db.prisma.userSession.findMany.mockResolvedValueOnce([
+      { id: 's1', ipAddress: '203.0.113.5', userAgent: CHROME_MAC, createdAt: now, lastSeenAt: now },
+      { id: 's2', ipAddress: null, userAgent: null, createdAt: now, lastSeenAt: now },
+    ]);
+
+    const sessions = await registry.list('u1', 's2', now);
+
+    expect(sessions.map((session) => [session.id, session.device, session.current])).toEqual([
+      ['s1', 'Mac', false],
+      ['s2', 'Unknown device', true],
+    ]);
+    expect(db.prisma.userSession.findMany.mock.calls[0]![0].where).toEqual({
+      userId: 'u1',
+      revokedAt: null,
+      lastSeenAt: { gt: new Date('2025-02-13T12:00:00Z') },
+    });
+  });
+
+  it('should revoke only the caller\'s own session', async () => {
+    await registry.revoke('u1', 's1', context);
+
+    expect(db.prisma.userSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 's1', userId: 'u1', revokedAt: null },
+      data: { revokedAt: expect.any(Date), revokedReason: 'SIGNED_OUT' },
+    });
+
+    db.prisma.userSession.updateMany.mockResolvedValueOnce({ count: 0 });
+    await expect(registry.revoke('u1', 'someone-else', context)).rejects.toThrow('Session not found');
+  });
+
+  it('should keep the current session when signing out others', async () => {
+    db.prisma.userSession.updateMany.mockResolvedValueOnce({ count: 2 });
+
+    await expect(registry.revokeOthers('u1', 's1', context)).resolves.toBe(2);
+    expect(db.prisma.userSession.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'u1', revokedAt: null, id: { not: 's1' } },
+      data: { revokedAt: expect.any(Date), revokedReason: 'OTHER_SESSIONS' },
+    });
+  });
+
+  it('should log admin revocations with the acting admin', async () => {
+    db.prisma.userSession.updateMany.mockResolvedValueOnce({ count: 3 });
+
+    await registry.revokeAll('u1', 'ADMIN', { ...context, actorId: 'admin1' });
+
+    expect(logger.securityLogger.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'SESSION_REVOKED',
+        severity: 'MEDIUM',
+        userId: 'u1',
+        metadata: { reason: 'ADMIN', count: 3, actorId: 'admin1' },
+      })
+    );
+  });
+
+  it('should not log when nothing was revoked', async () => {
+    db.prisma.userSession.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(registry.revokeAll('u1', 'ADMIN', context)).resolves.toBe(0);
+    expect(logger.securityLogger.log).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Two-Factor Service
+ *
+ * TOTP enrollment, verification during sign-in and recovery codes, with
+ * every outcome written to the security log. Repeated wrong codes lock
+ * verification for the user for a while.
+ */
+
+import QRCode from 'qrcode';
+import { prisma } from '../../db';
+import { securityConfig } from '../config';
+import { securityLogger } from '../logging/SecurityLogger';
+import type { SecurityEventData } from '../logging/types';
+import { RateLimiter } from '../rateLimit/RateLimiter';
+import type { RateLimitStrategy } from '../rateLimit/types';
+import {
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  looksLikeRecoveryCode,
+  totpUri,
+  verifyTotp,
+} from './totp';
+
+export interface TwoFactorRequestContext {
+  ipAddress: string;
+  userAgent?: string;
+  path?: string; // Defaults to the credentials sign-in callback
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  uri: string;
+  qrCode: string; // data: URL
+}
+
+export type TwoFactorVerification =
+  | { valid: true; method: 'totp' | 'recovery_code'; recoveryCodesRemaining: number }
+  | { valid: false; retryAfter?: number }; // Seconds until a lockout ends
+
+const twoFactorSelect = {
+  id: true,
+  email: true,
+  role: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorLastStep: true,
+} as const;
+
+type TwoFactorUser = {
+  id: string;
+  email: string;
+  role: string;
+  twoFactorSecret: string | null;
+  twoFactorEnabledAt: Date | null;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastStep: number | null;
+};
+
+const attemptStrategy: RateLimitStrategy = {
+  limit: securityConfig.twoFactor.maxAttempts,
+  window: securityConfig.twoFactor.attemptWindow,
+  blockDuration: securityConfig.twoFactor.lockoutDuration,
+};
+
+/**
+ * Whether accounts with this role must have two-factor enabled
+ */
+export function isTwoFactorRequired(role: string): boolean {
+  return securityConfig.twoFactor.enforcedRoles.includes(role);
+}
+
+function invalidCodeMessage(result: { retryAfter?: number }): string {
+  return result.retryAfter
+    ? `Too many invalid codes. Try again in ${Math.ceil(result.retryAfter / 60)} minutes.`
+    : 'Invalid authentication code';
+}
+
+/**
+ * Code attempts per user, shared by every path that verifies a code.
+ * Always on, unlike the request limiter behind ENABLE_RATE_LIMITING.
+ */
+export function createTwoFactorLimiter(): RateLimiter {
+  return new RateLimiter({ ...securityConfig.rateLimiting, enabled: true, whitelistedIps: [] });
+}
+
+export class TwoFactorService {
+  constructor(private limiter: RateLimiter = createTwoFactorLimiter()) {}
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.findUser(userId);
+
+    return {
+      enabled: user.twoFactorEnabledAt !== null,
+      enabledAt: user.twoFactorEnabledAt,
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+      required: isTwoFactorRequired(user.role),
+    };
+  }
+
+  /**
+   * Start enrollment with a fresh secret. Nothing is enforced until the
+   * user confirms a code, so abandoning setup leaves sign-in unchanged.
+   */
+  async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+    });
+
+    const uri = totpUri(secret, user.email);
+    return { secret, uri, qrCode: await QRCode.toDataURL(uri, { margin: 1, width: 200 }) };
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator app. Returns the
+   * recovery codes, which are only shown this once.
+   */
+  async confirmEnrollment(userId: string, code: string, context: TwoFactorRequestContext): Promise<string[]> {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+    if (!user.twoFactorSecret) {
+      throw new Error('Start two-factor setup first');
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+    if (step === null) {
+      await this.logEvent(user, context, 'TWO_FACTOR_FAILURE', 'two_factor_enroll', false, { reason: 'Invalid enrollment code' });
+      throw new Error('That code is not valid. Check the time on your device and try again.');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastStep: step,
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    await this.logEvent(user, context, 'TWO_FACTOR_ENROLLED', 'two_factor_enroll', true);
+    return recoveryCodes;
+  }
+
+  /**
+   * Second sign-in step: a current TOTP code or an unused recovery code.
+   * Both are consumed with a compare-and-set so a code works only once.
+   * Every attempt counts until one succeeds; past the limit no code is
+   * checked until the lockout ends.
+   */
+  async verify(userId: string, code: string, context: TwoFactorRequestContext): Promise<TwoFactorVerification> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabledAt || !user.twoFactorSecret) {
+      return { valid: false };
+    }
+
+    const attempt = this.limiter.check(`two-factor:${user.id}`, attemptStrategy);
+    if (!attempt.allowed) {
+      if (attempt.reason === 'limit_exceeded') {
+        await this.logEvent(user, context, 'TWO_FACTOR_LOCKED', 'two_factor_verify', false, {
+          attempts: attempt.current,
+          lockedForSeconds: attempt.retryAfter,
+        });
+      } else {
+        await this.logEvent(user, context, 'TWO_FACTOR_FAILURE', 'two_factor_verify', false, { reason: 'Locked out' });
+      }
+      return { valid: false, retryAfter: attempt.retryAfter };
+    }
+
+    const result = looksLikeRecoveryCode(code)
+      ? await this.consumeRecoveryCode(user, code)
+      : await this.consumeTotp(user, decryptSecret(user.twoFactorSecret), code);
+
+    if (result.valid) {
+      this.limiter.reset(`two-factor:${user.id}`);
+      await this.logEvent(user, context, 'TWO_FACTOR_SUCCESS', 'two_factor_verify', true, {
+        method: result.method,
+        recoveryCodesRemaining: result.recoveryCodesRemaining,
+      });
+    } else {
+      await this.logEvent(user, context, 'TWO_FACTOR_FAILURE', 'two_factor_verify', false, { reason: 'Invalid code' });
+    }
+
+    return result;
+  }
+
+  async disable(userId: string, code: string, context: TwoFactorRequestContext): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    const result = await this.verify(userId, code, context);
+    if (!result.valid) {
+      throw new Error(invalidCodeMessage(result));
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastStep: null,
+      },
+    });
+
+    await this.logEvent(user, context, 'TWO_FACTOR_DISABLED', 'two_factor_disable', true);
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string, context: TwoFactorRequestContext): Promise<string[]> {
+    const result = await this.verify(userId, code, context);
+    if (!result.valid) {
+      throw new Error(invalidCodeMessage(result));
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+    });
+
+    const user = await this.findUser(userId);
+    await this.logEvent(user, context, 'TWO_FACTOR_RECOVERY_CODES_REGENERATED', 'two_factor_recovery_codes', true);
+    return recoveryCodes;
+  }
+
+  private async consumeTotp(user: TwoFactorUser, secret: string, code: string): Promise<TwoFactorVerification> {
+    const step = verifyTotp(secret, code);
+    if (step === null || (user.twoFactorLastStep !== null && step <= user.twoFactorLastStep)) {
+      return { valid: false };
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, twoFactorLastStep: user.twoFactorLastStep },
+      data: { twoFactorLastStep: step },
+    });
+
+    return count === 1
+      ? { valid: true, method: 'totp', recoveryCodesRemaining: user.twoFactorRecoveryCodes.length }
+      : { valid: false };
+  }
+
+  private async consumeRecoveryCode(user: TwoFactorUser, code: string): Promise<TwoFactorVerification> {
+    const hash = hashRecoveryCode(code);
+    if (!user.twoFactorRecoveryCodes.includes(hash)) {
+      return { valid: false };
+    }
+
+    const remaining = user.twoFactorRecoveryCodes.filter((stored) => stored !== hash);
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, twoFactorRecoveryCodes: { has: hash } },
+      data: { twoFactorRecoveryCodes: remaining },
+    });
+
+    return count === 1
+      ? { valid: true, method: 'recovery_code', recoveryCodesRemaining: remaining.length }
+      : { valid: false };
+  }
+
+  private async findUser(userId: string): Promise<TwoFactorUser> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: twoFactorSelect });
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  private async logEvent(
+    user: TwoFactorUser,
+    context: TwoFactorRequestContext,
+    type: SecurityEventData['type'],
+    action: string,
+    success: boolean,
+    metadata: Record<string, unknown> = {}
+  ): Promise<void> {
+    await securityLogger.log({
+      type,
+      severity: success ? (type === 'TWO_FACTOR_DISABLED' ? 'MEDIUM' : 'LOW') : type === 'TWO_FACTOR_LOCKED' ? 'HIGH' : 'MEDIUM',
+      category: 'AUTH',
+      userId: user.id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      action,
+      resource: 'two_factor',
+      method: 'POST',
+      path: context.path ?? '/api/auth/callback/credentials',
+      success,
+      metadata: { email: user.email, ...metadata },
+    });
+  }
+}
+
+// Singleton instance
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,252 @@
+/**
+ * Two-Factor Tests
+ *
+ * TOTP against the RFC 6238 vectors, plus enrollment, replay protection and
+ * recovery codes in the service.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  hotp,
+  totpStep,
+  totpUri,
+  verifyTotp,
+} from '../totp';
+import { TwoFactorService, createTwoFactorLimiter } from '../TwoFactorService';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    user: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+const logger = vi.hoisted(() => ({ securityLogger: { log: vi.fn() } }));
+
+vi.mock('../../../db', () => db);
+vi.mock('../../logging/SecurityLogger', () => logger);
+
+// RFC 6238 appendix B secret ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const context = { ipAddress: '203.0.113.5', userAgent: 'vitest' };
+
+beforeAll(() => {
+  process.env.NEXTAUTH_SECRET = 'test-nextauth-secret';
+});
+
+describe('TOTP helpers', () => {
+  it('should round-trip base32', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+  });
+
+  it('should match the RFC 6238 SHA1 test vectors', () => {
+    expect(hotp(RFC_SECRET, totpStep(59_000), 8)).toBe('94287082');
+    expect(hotp(RFC_SECRET, totpStep(1_111_111_109_000), 8)).toBe('07081804');
+    expect(generateTotp(RFC_SECRET, 59_000)).toBe('287082');
+  });
+
+  it('should accept one step of drift either side and return the matched step', () => {
+    const now = 1_700_000_000_000;
+    const step = totpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30_000), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30_000), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 90_000), now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+  });
+
+  it('should build an otpauth URI with the issuer', () => {
+    const uri = totpUri(RFC_SECRET, 'ana@example.com');
+
+    expect(uri.startsWith('otpauth://totp/Prediction%20Prism%3Aana%40example.com?')).toBe(true);
+    expect(new URL(uri).searchParams.get('secret')).toBe(RFC_SECRET);
+  });
+
+  it('should hash recovery codes regardless of case and dashes', () => {
+    const [code] = generateRecoveryCodes(1);
+
+    expect(code).toMatch(/^[a-z0-9]{5}-[a-z0-9]{5}$/);
+    expect(hashRecoveryCode(code!.toUpperCase().replace('-', ''))).toBe(hashRecoveryCode(code!));
+  });
+
+  it('should encrypt secrets so they only decrypt with the same key', () => {
+    const stored = encryptSecret(RFC_SECRET);
+
+    expect(stored).not.toContain(RFC_SECRET);
+    expect(decryptSecret(stored)).toBe(RFC_SECRET);
+
+    process.env.NEXTAUTH_SECRET = 'rotated';
+    expect(() => decryptSecret(stored)).toThrow();
+    process.env.NEXTAUTH_SECRET = 'test-nextauth-secret';
+  });
+});
+
+describe('TwoFactorService', () => {
+  const limiter = createTwoFactorLimiter();
+  let service: TwoFactorService;
+
+  function user(overrides: Record<string, unknown> = {}) {
+    return {
+      id: 'u1',
+      email: 'ana@example.com',
+      role: 'USER',
+      twoFactorSecret: encryptSecret(RFC_SECRET),
+      twoFactorEnabledAt: new Date('2025-01-01T00:00:00Z'),
+      twoFactorRecoveryCodes: [hashRecoveryCode('aaaaa-bbbbb'), hashRecoveryCode('ccccc-ddddd')],
+      twoFactorLastStep: null,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    limiter.clear();
+    service = new TwoFactorService(limiter);
+    db.prisma.user.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should report enforced roles as required', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce(user({ role: 'ADMIN', twoFactorEnabledAt: null, twoFactorRecoveryCodes: [] }));
+
+    await expect(service.getStatus('u1')).resolves.toEqual({
+      enabled: false,
+      enabledAt: null,
+      recoveryCodesRemaining: 0,
+      required: true,
+    });
+  });
+
+  it('should only enable 2FA once a valid code confirms enrollment', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce(user({ twoFactorEnabledAt: null, twoFactorSecret: null }));
+    const enrollment = await service.beginEnrollment('u1');
+
+    expect(enrollment.qrCode.startsWith('data:image/png;base64,')).toBe(true);
+    const storedSecret = db.prisma.user.update.mock.calls[0]![0].data.twoFactorSecret;
+    expect(decryptSecret(storedSecret)).toBe(enrollment.secret);
+
+    db.prisma.user.findUnique.mockResolvedValue(user({ twoFactorEnabledAt: null, twoFactorSecret: storedSecret }));
+    await expect(service.confirmEnrollment('u1', '000000', context)).rejects.toThrow('not valid');
+
+    const codes = await service.confirmEnrollment('u1', generateTotp(enrollment.secret), context);
+
+    expect(codes).toHaveLength(10);
+    expect(db.prisma.user.update).toHaveBeenLastCalledWith({
+      where: { id: 'u1' },
+      data: expect.objectContaining({
+        twoFactorEnabledAt: expect.any(Date),
+        twoFactorRecoveryCodes: codes.map(hashRecoveryCode),
+      }),
+    });
+    expect(logger.securityLogger.log).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'TWO_FACTOR_ENROLLED', userId: 'u1', success: true })
+    );
+  });
+
+  it('should accept a TOTP code once and refuse to replay it', async () => {
+    const code = generateTotp(RFC_SECRET);
+    const step = verifyTotp(RFC_SECRET, code)!;
+    db.prisma.user.findUnique.mockResolvedValueOnce(user());
+
+    await expect(service.verify('u1', code, context)).resolves.toMatchObject({ valid: true, method: 'totp' });
+    expect(db.prisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'u1', twoFactorLastStep: null },
+      data: { twoFactorLastStep: step },
+    });
+
+    db.prisma.user.findUnique.mockResolvedValueOnce(user({ twoFactorLastStep: step }));
+    await expect(service.verify('u1', code, context)).resolves.toEqual({ valid: false });
+    expect(logger.securityLogger.log).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'TWO_FACTOR_FAILURE', success: false })
+    );
+  });
+
+  it('should lose a concurrent race for the same step', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce(user());
+    db.prisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(service.verify('u1', generateTotp(RFC_SECRET), context)).resolves.toEqual({ valid: false });
+  });
+
+  it('should consume a recovery code', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce(user());
+
+    await expect(service.verify('u1', 'AAAAA-BBBBB', context)).resolves.toEqual({
+      valid: true,
+      method: 'recovery_code',
+      recoveryCodesRemaining: 1,
+    });
+    expect(db.prisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'u1', twoFactorRecoveryCodes: { has: hashRecoveryCode('aaaaa-bbbbb') } },
+      data: { twoFactorRecoveryCodes: [hashRecoveryCode('ccccc-ddddd')] },
+    });
+
+    db.prisma.user.findUnique.mockResolvedValueOnce(user({ twoFactorRecoveryCodes: [hashRecoveryCode('ccccc-ddddd')] }));
+    await expect(service.verify('u1', 'aaaaa-bbbbb', context)).resolves.toEqual({ valid: false });
+  });
+
+  it('should lock verification after too many wrong codes', async () => {
+    db.prisma.user.findUnique.mockResolvedValue(user());
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(service.verify('u1', '000000', context)).resolves.toEqual({ valid: false });
+    }
+
+    // Even a correct code is not checked while locked
+    await expect(service.verify('u1', generateTotp(RFC_SECRET), context)).resolves.toEqual({ valid: false, retryAfter: 900 });
+    expect(db.prisma.user.updateMany).not.toHaveBeenCalled();
+    expect(logger.securityLogger.log).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'TWO_FACTOR_LOCKED', userId: 'u1', severity: 'HIGH', success: false })
+    );
+
+    await expect(service.disable('u1', generateTotp(RFC_SECRET), context)).rejects.toThrow('Too many invalid codes');
+    expect(db.prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('should reset the attempt count after a valid code', async () => {
+    db.prisma.user.findUnique.mockResolvedValue(user());
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await service.verify('u1', '000000', context);
+    }
+    await expect(service.verify('u1', 'aaaaa-bbbbb', context)).resolves.toMatchObject({ valid: true });
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await service.verify('u1', '000000', context);
+    }
+    await expect(service.verify('u1', 'ccccc-ddddd', context)).resolves.toMatchObject({ valid: true });
+  });
+
+  it('should not verify codes for accounts without 2FA', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce(user({ twoFactorEnabledAt: null }));
+
+    await expect(service.verify('u1', generateTotp(RFC_SECRET), context)).resolves.toEqual({ valid: false });
+    expect(db.prisma.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should clear every 2FA field when disabled with a valid code', async () => {
+    db.prisma.user.findUnique.mockResolvedValue(user());
+
+    await expect(service.disable('u1', '000000', context)).rejects.toThrow('Invalid authentication code');
+    expect(db.prisma.user.update).not.toHaveBeenCalled();
+
+    await service.disable('u1', generateTotp(RFC_SECRET), context);
+
+    expect(db.prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'u1' },
+      data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorRecoveryCodes: [], twoFactorLastStep: null },
+    });
+    expect(logger.securityLogger.log).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'TWO_FACTOR_DISABLED' }));
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * TOTP (RFC 6238) and recovery codes
+ *
+ * Pure helpers for two-factor authentication. Secrets are encrypted at rest
+ * with a key derived from NEXTAUTH_SECRET; recovery codes are only stored
+ * as hashes.
+ */
+
+import * as crypto from 'crypto';
+import { securityConfig } from '../config';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'; // No 0/o, 1/l/i
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * New base32 TOTP secret (160 bits, as RFC 4226 recommends)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Time step a timestamp falls in
+ */
+export function totpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / securityConfig.twoFactor.period);
+}
+
+/**
+ * HOTP value for one counter (RFC 4226, HMAC-SHA1, dynamic truncation)
+ */
+export function hotp(secret: string, counter: number, digits: number = securityConfig.twoFactor.digits): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = hmac.readUInt8(hmac.length - 1) & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+export function generateTotp(secret: string, now: number = Date.now()): string {
+  return hotp(secret, totpStep(now));
+}
+
+/**
+ * Check a code against the current step and `window` steps either side for
+ * clock drift. Returns the matching step so callers can refuse to accept
+ * it twice, or null when the code does not match.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now: number = Date.now(),
+  window: number = securityConfig.twoFactor.window
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== securityConfig.twoFactor.digits) {
+    return null;
+  }
+
+  const current = totpStep(now);
+  for (let offset = -window; offset <= window; offset++) {
+    const step = current + offset;
+    const expected = hotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * otpauth:// URI authenticator apps read from the enrollment QR code
+ */
+export function totpUri(secret: string, accountName: string): string {
+  const { issuer, digits, period } = securityConfig.twoFactor;
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(digits),
+    period: String(period),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * One-time recovery codes in xxxxx-xxxxx form
+ */
+export function generateRecoveryCodes(count: number = securityConfig.twoFactor.recoveryCodeCount): string[] {
+  return Array.from({ length: count }, () => {
+    const bytes = crypto.randomBytes(10);
+    const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+/**
+ * Recovery codes are compared by hash; input is normalized so dashes and
+ * case do not matter
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+export function looksLikeRecoveryCode(code: string): boolean {
+  return /^[a-z0-9]{5}-?[a-z0-9]{5}$/i.test(code.trim());
+}
+
+function encryptionKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET must be set to store two-factor secrets');
+  }
+  return crypto.createHash('sha256').update(`two-factor:${secret}`).digest();
+}
+
+/**
+ * AES-256-GCM, stored as iv.tag.ciphertext (base64url)
+ */
+export function encryptSecret(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64url'));
+  if (!iv || !tag || !encrypted) {
+    throw new Error('Malformed two-factor secret');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
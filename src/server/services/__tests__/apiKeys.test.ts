@@ -0,0 +1,144 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { RateLimiter } from '../../security/rateLimit/RateLimiter';
+import { ApiKeyService, generateApiKey, hashApiKey, monthStart } from '../apiKeys';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    apiKey: { findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn(), create: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    apiKeyUsage: { aggregate: vi.fn(), upsert: vi.fn() },
+  },
+}));
+
+vi.mock('../../db', () => db);
+
+const now = new Date('2025-03-15T12:00:00Z');
+
+function limiter() {
+  return new RateLimiter({
+    enabled: true,
+    limitByUser: false,
+    whitelistedIps: [],
+    strategies: {
+      auth: { limit: 5, window: 900000 },
+      queries: { limit: 100, window: 60000 },
+      mutations: { limit: 30, window: 60000 },
+      admin: { limit: 50, window: 60000 },
+      aiExtraction: { limit: 10, window: 3600000 },
+    },
+    blockDuration: 3600000,
+    cleanupInterval: 0,
+  });
+}
+
+function storedKey(overrides: Record<string, unknown> = {}) {
+  return { id: 'k1', userId: 'u1', scopes: ['predictions:read'], revokedAt: null, user: { role: 'PREMIUM', status: 'ACTIVE' }, ...overrides };
+}
+
+describe('generateApiKey', () => {
+  test('should keep only a hash and a short visible prefix', () => {
+    const { key, prefix, keyHash } = generateApiKey();
+
+    expect(key).toMatch(/^opk_[A-Za-z0-9_-]{43}$/);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(prefix).toHaveLength(12);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).not.toContain(key.slice(4));
+  });
+});
+
+describe('monthStart', () => {
+  test('should use the UTC calendar month', () => {
+    expect(monthStart(new Date('2025-03-01T00:30:00+02:00'))).toEqual(new Date('2025-02-01T00:00:00Z'));
+  });
+});
+
+describe('ApiKeyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.prisma.apiKeyUsage.aggregate.mockResolvedValue({ _sum: { requests: 10 } });
+  });
+
+  test('should refuse keys to accounts without API access', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce({ role: 'FREE' });
+
+    await expect(new ApiKeyService(limiter()).create('u1', { name: 'Bot', scopes: ['predictions:read'] })).rejects.toThrow(
+      'Premium plan'
+    );
+    expect(db.prisma.apiKey.create).not.toHaveBeenCalled();
+  });
+
+  test('should store the hash of a new key and return the key once', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce({ role: 'PREMIUM' });
+    db.prisma.apiKey.count.mockResolvedValueOnce(0);
+    db.prisma.apiKey.create.mockImplementationOnce(({ data }) => Promise.resolve({ id: 'k1', ...data }));
+
+    const { key } = await new ApiKeyService(limiter()).create('u1', { name: ' Bot ', scopes: ['rankings:read', 'predictions:read'] });
+
+    expect(db.prisma.apiKey.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { userId: 'u1', name: 'Bot', prefix: key.slice(0, 12), keyHash: hashApiKey(key), scopes: ['predictions:read', 'rankings:read'] },
+      })
+    );
+  });
+
+  test('should reject unknown and revoked keys, inactive accounts and keys without the scope', async () => {
+    const service = new ApiKeyService(limiter());
+
+    db.prisma.apiKey.findUnique.mockResolvedValueOnce(null);
+    expect(await service.authorize('opk_nope', 'predictions:read', now)).toMatchObject({ allowed: false, status: 401 });
+
+    db.prisma.apiKey.findUnique.mockResolvedValueOnce(storedKey({ revokedAt: now }));
+    expect(await service.authorize('opk_old', 'predictions:read', now)).toMatchObject({ allowed: false, status: 401 });
+
+    db.prisma.apiKey.findUnique.mockResolvedValueOnce(storedKey({ user: { role: 'PREMIUM', status: 'SUSPENDED' } }));
+    expect(await service.authorize('opk_suspended', 'predictions:read', now)).toMatchObject({
+      allowed: false,
+      status: 403,
+      error: expect.stringContaining('not active'),
+    });
+
+    db.prisma.apiKey.findUnique.mockResolvedValueOnce(storedKey({ user: { role: 'FREE', status: 'ACTIVE' } }));
+    expect(await service.authorize('opk_lapsed', 'predictions:read', now)).toMatchObject({ allowed: false, status: 403 });
+
+    db.prisma.apiKey.findUnique.mockResolvedValueOnce(storedKey());
+    expect(await service.authorize('opk_key', 'rankings:read', now)).toMatchObject({
+      allowed: false,
+      status: 403,
+      error: expect.stringContaining('rankings:read'),
+    });
+    expect(db.prisma.apiKeyUsage.upsert).not.toHaveBeenCalled();
+  });
+
+  test('should meter served requests against the day and report what is left', async () => {
+    db.prisma.apiKey.findUnique.mockResolvedValueOnce(storedKey());
+
+    const access = await new ApiKeyService(limiter()).authorize('opk_key', 'predictions:read', now);
+
+    expect(access).toMatchObject({ allowed: true, rate: { limit: 60, remaining: 59 }, quota: { limit: 50000, remaining: 49989 } });
+    expect(db.prisma.apiKeyUsage.upsert).toHaveBeenCalledWith({
+      where: { apiKeyId_day: { apiKeyId: 'k1', day: new Date('2025-03-15') } },
+      create: { apiKeyId: 'k1', day: new Date('2025-03-15'), requests: 1 },
+      update: { requests: { increment: 1 } },
+    });
+  });
+
+  test('should turn away requests past the per-minute limit and the monthly quota', async () => {
+    const service = new ApiKeyService(limiter());
+    db.prisma.apiKey.findUnique.mockResolvedValue(storedKey());
+
+    for (let i = 0; i < 60; i++) {
+      expect((await service.authorize('opk_key', 'predictions:read', now)).allowed).toBe(true);
+    }
+    expect(await service.authorize('opk_key', 'predictions:read', now)).toMatchObject({ allowed: false, status: 429, retryAfter: 60 });
+    expect(db.prisma.apiKeyUsage.upsert).toHaveBeenLastCalledWith(expect.objectContaining({ update: { rejected: { increment: 1 } } }));
+
+    db.prisma.apiKey.findUnique.mockResolvedValue(storedKey({ id: 'k2' }));
+    db.prisma.apiKeyUsage.aggregate.mockResolvedValue({ _sum: { requests: 50000 } });
+    expect(await service.authorize('opk_other', 'predictions:read', now)).toMatchObject({
+      allowed: false,
+      status: 429,
+      error: expect.stringContaining('Monthly quota'),
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { AssetResolver, normalizeSymbol } from '../assetCatalog';
+import { AssetResolutionService } from '../assetResolution';
+
+const db = vi.hoisted(() => {
+  const prisma = {
+    asset: { findUnique: vi.fn(), findMany: vi.fn(), delete: vi.fn() },
+    prediction: { updateMany: vi.fn() },
+    priceHistory: { updateMany: vi.fn() },
+    assetAlias: { createMany: vi.fn() },
+    event: { create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock('../../db', () => db);
+
+const resolver = AssetResolver.fromDefaults();
+
+describe('normalizeSymbol', () => {
+  test('should strip cashtags, exchange prefixes and pair quotes', () => {
+    expect(normalizeSymbol('$sol')).toMatchObject({ symbol: 'SOL', quote: null });
+    expect(normalizeSymbol('BINANCE:SOLUSDT')).toEqual({ symbol: 'SOL', exchange: 'BINANCE', quote: 'USDT' });
+    expect(normalizeSymbol('eth-usd').symbol).toBe('ETH');
+    expect(normalizeSymbol('BTC-PERP')).toMatchObject({ symbol: 'BTC', quote: 'PERP' });
+  });
+
+  test('should leave FX pairs and Yahoo tickers intact', () => {
+    expect(normalizeSymbol('EUR/USD').symbol).toBe('EURUSD');
+    expect(normalizeSymbol('GC=F').symbol).toBe('GC=F');
+    expect(normalizeSymbol('^GSPC').symbol).toBe('^GSPC');
+  });
+});
+
+describe('AssetResolver', () => {
+  test('should resolve names, tickers and trading pairs to one asset', () => {
+    for (const symbol of ['SOL', 'Solana', 'SOLUSDT', 'sol/usdc']) {
+      expect(resolver.resolve({ symbol })).toMatchObject({ symbol: 'SOL', type: 'CRYPTO' });
+    }
+    expect(resolver.resolve({ symbol: 'XBT' }).symbol).toBe('BTC');
+    expect(resolver.resolve({ symbol: 'BRK-B' })).toMatchObject({ symbol: 'BRK.B', type: 'STOCK', method: 'catalog' });
+  });
+
+  test('should settle shared tickers from the surrounding text', () => {
+    expect(resolver.resolve({ symbol: 'LINK' }, 'oracle networks and altcoin season')).toMatchObject({
+      symbol: 'LINK',
+      type: 'CRYPTO',
+      method: 'context',
+    });
+    expect(resolver.resolve({ symbol: 'LINK' }, 'Interlink reported quarterly earnings and the shares jumped')).toMatchObject({
+      type: 'STOCK',
+      name: 'Interlink Electronics',
+    });
+    expect(resolver.resolve({ symbol: 'NASDAQ:SOL' }).type).toBe('STOCK');
+  });
+
+  test('should not guess ETF for unknown short tickers', () => {
+    expect(resolver.resolve({ symbol: 'ABCD' })).toMatchObject({ type: 'STOCK', method: 'heuristic', confidence: 0.5 });
+    expect(resolver.resolve({ symbol: 'WIFUSDT' })).toMatchObject({ symbol: 'WIF', type: 'CRYPTO' });
+    expect(resolver.resolve({ symbol: 'ABCD', type: 'ETF' }).type).toBe('ETF');
+  });
+
+  test('should find mentions by name, cashtag and pair but not lowercase tickers', () => {
+    const mentions = resolver.findMentions('Bitcoin looks strong, $ETH too, and SOLUSDT is breaking out. Click the link below.');
+
+    expect(mentions.map(m => m.symbol)).toEqual(['BTC', 'ETH', 'SOL']);
+  });
+});
+
+describe('AssetResolutionService.mergeAssets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('should move predictions and price history, keep the old spelling as an alias and log the merge', async () => {
+    db.prisma.asset.findUnique
+      .mockResolvedValueOnce({ id: 'dup', symbol: 'SOLUSDT', type: 'CRYPTO', metadata: { name: null }, aliases: [] })
+      .mockResolvedValueOnce({
+        id: 'sol',
+        symbol: 'SOL',
+        type: 'CRYPTO',
+        metadata: { name: 'Solana' },
+        aliases: [{ alias: 'sol', kind: 'TICKER', priority: 1 }],
+      });
+    db.prisma.prediction.updateMany.mockResolvedValueOnce({ count: 3 });
+    db.prisma.priceHistory.updateMany.mockResolvedValueOnce({ count: 40 });
+    db.prisma.assetAlias.createMany.mockResolvedValueOnce({ count: 1 });
+
+    const result = await new AssetResolutionService().mergeAssets('dup', 'sol', 'admin');
+
+    expect(result).toEqual({ targetId: 'sol', predictions: 3, priceHistory: 40, aliases: 1 });
+    expect(db.prisma.prediction.updateMany).toHaveBeenCalledWith({ where: { assetId: 'dup' }, data: { assetId: 'sol' } });
+    expect(db.prisma.assetAlias.createMany).toHaveBeenCalledWith({
+      data: [{ alias: 'solusdt', kind: 'TICKER', priority: 0, assetId: 'sol' }],
+      skipDuplicates: true,
+    });
+    expect(db.prisma.asset.delete).toHaveBeenCalledWith({ where: { id: 'dup' } });
+    expect(db.prisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'ASSET_MERGED', entityId: 'sol', userId: 'admin' }),
+    });
+  });
+
+  test('should refuse to merge an asset into itself', async () => {
+    await expect(new AssetResolutionService().mergeAssets('sol', 'sol')).rejects.toThrow('into itself');
+    expect(db.prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_BENCHMARK_SETTINGS, excessReturn, pickBenchmark } from '../benchmarks';
+import { BenchmarkScoringService } from '../benchmarkScoring';
+import type { AssetResolutionService } from '../assetResolution';
+import type { PriceBackfillService } from '../priceBackfill';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    prediction: { findUnique: vi.fn(), update: vi.fn() },
+    event: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('../../db', () => db);
+
+describe('pickBenchmark', () => {
+  test('should use the asset type default', () => {
+    expect(pickBenchmark({ symbol: 'SOL', type: 'CRYPTO' }).symbol).toBe('BTC');
+    expect(pickBenchmark({ symbol: 'AAPL', type: 'STOCK' }).symbol).toBe('SPY');
+  });
+
+  test('should never benchmark an asset against itself', () => {
+    expect(pickBenchmark({ symbol: 'BTC', type: 'CRYPTO' }).symbol).toBe('ETH');
+    expect(pickBenchmark({ symbol: 'SPY', type: 'ETF' }).symbol).toBe('QQQ');
+  });
+
+  test('should prefer symbol overrides, then the sector ETF', () => {
+    const settings = { ...DEFAULT_BENCHMARK_SETTINGS, bySymbol: { NVDA: { symbol: 'SMH', type: 'ETF' } } };
+
+    expect(pickBenchmark({ symbol: 'NVDA', type: 'STOCK', sector: 'Technology' }, settings).symbol).toBe('SMH');
+    expect(pickBenchmark({ symbol: 'JPM', type: 'STOCK', sector: 'Financial Services' }, settings).symbol).toBe('XLF');
+  });
+
+  test('should fall back to cash for types without a market benchmark', () => {
+    expect(pickBenchmark({ symbol: 'EURUSD', type: 'CURRENCY' }).symbol).toBe('CASH');
+    expect(pickBenchmark({ symbol: 'XYZ', type: 'UNKNOWN' }).symbol).toBe('CASH');
+  });
+});
+
+describe('excessReturn', () => {
+  test('should not credit a bullish call for a rising market', () => {
+    expect(excessReturn('BULLISH', 20, 25)).toBe(-5);
+    expect(excessReturn('BULLISH', 20, -5)).toBe(25);
+  });
+
+  test('should not credit a bearish call for a falling market', () => {
+    expect(excessReturn('BEARISH', -10, -15)).toBe(-5);
+    expect(excessReturn('BEARISH', -10, 5)).toBe(15);
+  });
+
+  test('should leave neutral calls unscored', () => {
+    expect(excessReturn('NEUTRAL', 1, 3)).toBeNull();
+  });
+});
+
+describe('BenchmarkScoringService.scorePrediction', () => {
+  const assets = { findOrCreateAsset: vi.fn() };
+  const priceBackfill = { ensureCandles: vi.fn(), priceAt: vi.fn() };
+  const service = new BenchmarkScoringService(
+    assets as unknown as AssetResolutionService,
+    priceBackfill as unknown as PriceBackfillService
+  );
+
+  const prediction = {
+    id: 'p1',
+    outcome: 'CORRECT',
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    asset: { symbol: 'SOL', type: 'CRYPTO', metadata: {} },
+    metadata: {
+      resolution: {
+        direction: 'BULLISH',
+        baselinePrice: 100,
+        baselineAt: '2025-01-01T00:00:00.000Z',
+        resolvingPrice: 130,
+        resolvingAt: '2025-01-20T00:00:00.000Z',
+      },
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.prisma.event.findFirst.mockResolvedValue(null);
+    assets.findOrCreateAsset.mockResolvedValue({ asset: { id: 'btc', symbol: 'BTC', type: 'CRYPTO' } });
+  });
+
+  test('should store the excess return over the benchmark across the same horizon', async () => {
+    db.prisma.prediction.findUnique.mockResolvedValueOnce(prediction);
+    priceBackfill.priceAt.mockResolvedValueOnce(90000).mockResolvedValueOnce(108000);
+
+    const score = await service.scorePrediction('p1');
+
+    expect(score).toEqual({ benchmarkSymbol: 'BTC', assetReturn: 30, benchmarkReturn: 20, excessReturn: 10 });
+    expect(priceBackfill.priceAt).toHaveBeenNthCalledWith(1, 'btc', new Date('2025-01-01T00:00:00Z'));
+    expect(priceBackfill.priceAt).toHaveBeenNthCalledWith(2, 'btc', new Date('2025-01-20T00:00:00Z'));
+    expect(db.prisma.prediction.update).toHaveBeenCalledWith({ where: { id: 'p1' }, data: score });
+  });
+
+  test('should leave the prediction for a later run when the benchmark has no price', async () => {
+    db.prisma.prediction.findUnique.mockResolvedValueOnce(prediction);
+    priceBackfill.priceAt.mockResolvedValueOnce(90000).mockResolvedValueOnce(null);
+
+    expect(await service.scorePrediction('p1')).toBeNull();
+    expect(db.prisma.prediction.update).not.toHaveBeenCalled();
+  });
+
+  test('should skip predictions that have not resolved', async () => {
+    db.prisma.prediction.findUnique.mockResolvedValueOnce({ ...prediction, outcome: 'PENDING' });
+
+    expect(await service.scorePrediction('p1')).toBeNull();
+    expect(assets.findOrCreateAsset).not.toHaveBeenCalled();
+  });
+});
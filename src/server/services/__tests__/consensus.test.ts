@@ -0,0 +1,175 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  ConsensusService,
+  buildConsensus,
+  consensusByHorizon,
+  scoreConsensus,
+  targetDistribution,
+  trackRecordWeight,
+  type ConsensusCall,
+} from '../consensus';
+import { type PriceBackfillService } from '../priceBackfill';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    asset: { findUnique: vi.fn() },
+    prediction: { findMany: vi.fn(), groupBy: vi.fn() },
+    consensusSnapshot: { findMany: vi.fn(), upsert: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock('../../db', () => db);
+
+function call(overrides: Partial<ConsensusCall> = {}): ConsensusCall {
+  return {
+    predictionId: 'p1',
+    forecasterId: 'f1',
+    forecasterName: 'Alice',
+    direction: 'BULLISH',
+    targetPrice: 110,
+    targetDate: new Date('2025-02-01T00:00:00Z'),
+    createdAt: new Date('2025-01-10T00:00:00Z'),
+    weight: 0.5,
+    ...overrides,
+  };
+}
+
+describe('trackRecordWeight', () => {
+  test('should start unproven forecasters at even odds and trust long records more', () => {
+    expect(trackRecordWeight(0, 0)).toBe(0.5);
+    expect(trackRecordWeight(2, 2)).toBe(0.75);
+    expect(trackRecordWeight(100, 100)).toBeCloseTo(0.99);
+  });
+});
+
+describe('targetDistribution', () => {
+  test('should interpolate quantiles and weight the mean by track record', () => {
+    const distribution = targetDistribution([
+      call({ targetPrice: 100, weight: 0.25 }),
+      call({ targetPrice: 120, weight: 0.25 }),
+      call({ targetPrice: 140, weight: 0.5 }),
+      call({ targetPrice: null }),
+    ]);
+
+    expect(distribution).toEqual({ count: 3, min: 100, p25: 110, median: 120, p75: 130, max: 140, weightedMean: 125 });
+    expect(targetDistribution([call({ targetPrice: null })])).toBeNull();
+  });
+});
+
+describe('buildConsensus', () => {
+  test('should weight directions by track record and name the forecasters calling the other side', () => {
+    const consensus = buildConsensus(
+      '1M',
+      [
+        call({ predictionId: 'a', forecasterId: 'f1', weight: 0.8, targetPrice: 120 }),
+        call({ predictionId: 'b', forecasterId: 'f2', weight: 0.6, targetPrice: 110 }),
+        call({ predictionId: 'c', forecasterId: 'f3', forecasterName: 'Carol', direction: 'BEARISH', weight: 0.6, targetPrice: 80 }),
+      ],
+      100
+    );
+
+    expect(consensus).toMatchObject({ direction: 'BULLISH', agreement: 0.7, calls: 3, impliedMove: 10 });
+    expect(consensus.shares).toEqual({ BULLISH: 0.7, BEARISH: 0.3, NEUTRAL: 0 });
+    expect(consensus.contrarians).toEqual([
+      expect.objectContaining({ predictionId: 'c', forecasterName: 'Carol', direction: 'BEARISH' }),
+    ]);
+  });
+
+  test('should count only the latest call per forecaster and report a split crowd as mixed', () => {
+    const consensus = buildConsensus(
+      '1M',
+      [
+        call({ predictionId: 'old', forecasterId: 'f1', direction: 'BULLISH', createdAt: new Date('2025-01-01T00:00:00Z') }),
+        call({ predictionId: 'new', forecasterId: 'f1', direction: 'BEARISH', createdAt: new Date('2025-01-05T00:00:00Z') }),
+        call({ predictionId: 'x', forecasterId: 'f2', direction: 'BULLISH' }),
+        call({ predictionId: 'y', forecasterId: 'f3', direction: null }),
+      ],
+      null
+    );
+
+    expect(consensus.predictionIds).toEqual(['new', 'x', 'y']);
+    expect(consensus.direction).toBe('MIXED');
+    expect(consensus.contrarians).toEqual([]);
+    expect(consensus.impliedMove).toBeNull();
+  });
+});
+
+describe('consensusByHorizon', () => {
+  test('should group calls by horizon in horizon order', () => {
+    const horizons = consensusByHorizon(
+      [
+        call({ predictionId: 'a', targetDate: null }),
+        call({ predictionId: 'b', targetDate: new Date('2025-01-15T00:00:00Z') }),
+        call({ predictionId: 'c', targetDate: new Date('2025-03-01T00:00:00Z') }),
+      ],
+      100
+    );
+
+    expect(horizons.map(h => h.horizon)).toEqual(['1W', '3M', 'NONE']);
+    expect(horizons[2]!.evaluateAt).toBeNull();
+  });
+});
+
+describe('scoreConsensus', () => {
+  test('should use the prediction resolution thresholds', () => {
+    expect(scoreConsensus('BULLISH', 1.5)).toBe('CORRECT');
+    expect(scoreConsensus('BULLISH', 0.5)).toBe('INCORRECT');
+    expect(scoreConsensus('BEARISH', -3)).toBe('CORRECT');
+    expect(scoreConsensus('NEUTRAL', 1.9)).toBe('CORRECT');
+    expect(scoreConsensus('NEUTRAL', -2.5)).toBe('INCORRECT');
+    expect(scoreConsensus('MIXED', 10)).toBe('NO_CONSENSUS');
+  });
+});
+
+describe('ConsensusService', () => {
+  const priceBackfill = { ensureCandles: vi.fn(), priceAt: vi.fn() };
+  const service = () => new ConsensusService(priceBackfill as unknown as PriceBackfillService);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    priceBackfill.ensureCandles.mockResolvedValue(undefined);
+  });
+
+  test('should snapshot each horizon and leave unscoreable ones out of the history', async () => {
+    const now = new Date('2025-01-10T12:00:00Z');
+    db.prisma.prediction.groupBy
+      .mockResolvedValueOnce([{ assetId: 'btc' }])
+      .mockResolvedValueOnce([{ forecasterId: 'f1', outcome: 'CORRECT', _count: { _all: 2 } }]);
+    db.prisma.asset.findUnique.mockResolvedValueOnce({ priceData: { price: 100 } });
+    db.prisma.prediction.findMany.mockResolvedValueOnce([
+      { id: 'a', forecasterId: 'f1', direction: 'BULLISH', targetPrice: '120', targetDate: new Date('2025-02-01T00:00:00Z'), createdAt: now, forecaster: { name: 'Alice' } },
+      { id: 'b', forecasterId: 'f1', direction: 'BEARISH', targetPrice: null, targetDate: null, createdAt: now, forecaster: { name: 'Alice' } },
+    ]);
+
+    expect(await service().snapshotAll(now)).toBe(2);
+
+    expect(db.prisma.consensusSnapshot.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { assetId_horizon_day: { assetId: 'btc', horizon: '1M', day: new Date('2025-01-10') } },
+        create: expect.objectContaining({ direction: 'BULLISH', agreement: 1, price: 100, medianTarget: 120, outcome: 'PENDING' }),
+      })
+    );
+    expect(db.prisma.consensusSnapshot.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ create: expect.objectContaining({ horizon: 'NONE', evaluateAt: null, outcome: 'UNSCORED' }) })
+    );
+  });
+
+  test('should score matured snapshots and keep those without a price pending', async () => {
+    const evaluateAt = new Date('2025-02-01T00:00:00Z');
+    const asset = { id: 'btc', symbol: 'BTC', type: 'CRYPTO' };
+    db.prisma.consensusSnapshot.findMany.mockResolvedValueOnce([
+      { id: 's1', assetId: 'btc', direction: 'BULLISH', price: '100', evaluateAt, asset },
+      { id: 's2', assetId: 'btc', direction: 'BEARISH', price: '100', evaluateAt, asset },
+    ]);
+    priceBackfill.priceAt.mockResolvedValueOnce(105).mockResolvedValueOnce(null);
+
+    const result = await service().evaluateDue(new Date('2025-02-02T00:00:00Z'));
+
+    expect(result).toEqual({ evaluated: 1, skipped: 1 });
+    expect(db.prisma.consensusSnapshot.update).toHaveBeenCalledTimes(1);
+    expect(db.prisma.consensusSnapshot.update).toHaveBeenCalledWith({
+      where: { id: 's1' },
+      data: { outcome: 'CORRECT', realizedChange: 5, evaluatedAt: new Date('2025-02-02T00:00:00Z') },
+    });
+  });
+});
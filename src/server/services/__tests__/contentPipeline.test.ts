@@ -0,0 +1,167 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { Content } from '@prisma/client';
+import {
+  ContentPipelineService,
+  applyTransition,
+  canTransition,
+  isStuck,
+  predecessorsOf,
+  transitionContent,
+} from '../contentPipeline';
+import { prisma } from '../../db';
+
+vi.mock('../../db', () => ({
+  prisma: {
+    content: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    event: {
+      create: vi.fn(),
+    },
+    prediction: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    predictionReview: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+const now = new Date('2025-01-01T10:00:00Z');
+
+function content(overrides: Partial<Content> = {}): Content {
+  return {
+    id: 'content-1',
+    status: 'EXTRACTING',
+    processingMetadata: {},
+    createdAt: now,
+    ...overrides,
+  } as Content;
+}
+
+describe('content transitions', () => {
+  test('should allow forward and retry edges only', () => {
+    expect(canTransition('COLLECTED', 'AUDIO_DOWNLOADING')).toBe(true);
+    expect(canTransition('EXTRACTING', 'TRANSCRIBED')).toBe(true);
+    expect(canTransition('COLLECTED', 'PROCESSED')).toBe(false);
+    expect(canTransition('UNKNOWN', 'COLLECTED')).toBe(false);
+  });
+
+  test('should list the states that may enter a target state', () => {
+    expect(predecessorsOf('PROCESSED')).toEqual(['EXTRACTING']);
+    expect(predecessorsOf('TRANSCRIBED')).toEqual(
+      expect.arrayContaining(['COLLECTED', 'AUDIO_DOWNLOADING', 'TRANSCRIBING', 'EXTRACTING', 'PROCESSED', 'FAILED'])
+    );
+  });
+
+  test('should refuse to write an invalid transition', async () => {
+    await expect(transitionContent(content({ status: 'COLLECTED' }), 'PROCESSED')).rejects.toThrow('Invalid content transition');
+    expect(prisma.content.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('applyTransition', () => {
+  test('should start the stage clock and keep legacy keys in sync', () => {
+    const metadata = applyTransition({ audioPath: '/tmp/a.mp3' }, 'AUDIO_DOWNLOADED', 'TRANSCRIBING', { reason: 'claimed' }, now);
+
+    expect(metadata).toMatchObject({ audioPath: '/tmp/a.mp3', lastStep: 'TRANSCRIBING', updatedAt: now.toISOString() });
+    expect(metadata.pipeline).toMatchObject({
+      stage: 'transcribe',
+      stageStartedAt: now.toISOString(),
+      history: [{ from: 'AUDIO_DOWNLOADED', to: 'TRANSCRIBING', at: now.toISOString(), reason: 'claimed' }],
+    });
+  });
+
+  test('should record the failed stage and error when entering FAILED', () => {
+    const metadata = applyTransition({}, 'EXTRACTING', 'FAILED', { stage: 'extract', error: 'LLM timeout' }, now);
+
+    expect(metadata.error).toBe('LLM timeout');
+    expect(metadata.pipeline).toMatchObject({ failedStage: 'extract', lastError: 'LLM timeout' });
+  });
+
+  test('should cap the transition history', () => {
+    let metadata: unknown = {};
+    for (let i = 0; i < 30; i++) {
+      metadata = applyTransition(metadata, 'TRANSCRIBED', 'EXTRACTING', {}, now);
+    }
+
+    expect((metadata as any).pipeline.history).toHaveLength(20);
+  });
+});
+
+describe('isStuck', () => {
+  test('should flag items past their stage timeout', () => {
+    const startedAt = new Date(now.getTime() - 21 * 60 * 1000).toISOString();
+
+    expect(isStuck(content({ processingMetadata: { pipeline: { stageStartedAt: startedAt } } }), now)).toBe(true);
+    expect(isStuck(content({ status: 'TRANSCRIBING', processingMetadata: { pipeline: { stageStartedAt: startedAt } } }), now)).toBe(false);
+  });
+
+  test('should never flag resting states', () => {
+    expect(isStuck(content({ status: 'COLLECTED', createdAt: new Date(0) }), now)).toBe(false);
+  });
+});
+
+describe('ContentPipelineService.failStage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.content.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  test('should return the item to the stage input while attempts remain', async () => {
+    const to = await new ContentPipelineService().failStage(
+      content({ processingMetadata: { pipeline: { attempts: { extract: 1 } } } }),
+      'extract',
+      new Error('rate limited')
+    );
+
+    expect(to).toBe('TRANSCRIBED');
+    const [args] = vi.mocked(prisma.content.updateMany).mock.calls[0]!;
+    expect(args.where).toEqual({ id: 'content-1', status: 'EXTRACTING' });
+    expect(prisma.event.create).not.toHaveBeenCalled();
+  });
+
+  test('should fail the item and log an event once the budget is exhausted', async () => {
+    const to = await new ContentPipelineService().failStage(
+      content({ processingMetadata: { pipeline: { attempts: { extract: 2 } } } }),
+      'extract',
+      new Error('rate limited')
+    );
+
+    expect(to).toBe('FAILED');
+    const [event] = vi.mocked(prisma.event.create).mock.calls[0]!;
+    expect(event.data).toMatchObject({ type: 'CONTENT_PIPELINE_FAILED', entityId: 'content-1' });
+  });
+});
+
+describe('ContentPipelineService re-extraction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('should keep reviewer decisions and only supersede unreviewed pending predictions', async () => {
+    vi.mocked(prisma.prediction.findMany).mockResolvedValueOnce([
+      { id: 'p-auto', outcome: 'PENDING', metadata: { extraction: { contentId: 'content-1' } }, asset: { symbol: 'BTC' } },
+      { id: 'p-approved', outcome: 'PENDING', metadata: { extraction: { contentId: 'content-1', reviewId: 'r1' } }, asset: { symbol: 'ETH' } },
+      { id: 'p-resolved', outcome: 'CORRECT', metadata: {}, asset: { symbol: 'SOL' } },
+    ] as never);
+    vi.mocked(prisma.predictionReview.findMany).mockResolvedValueOnce([
+      { candidate: { asset: { symbol: 'DOGE' } }, edits: null },
+      { candidate: { asset: { symbol: 'ADA' } }, edits: { assetSymbol: 'ada-usd' } },
+    ] as never);
+
+    const settled: Set<string> = await (new ContentPipelineService() as any).supersedePredictions(
+      content({ forecasterId: 'f1', sourceUrl: null })
+    );
+
+    expect(prisma.prediction.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['p-auto'] } } });
+    expect(prisma.predictionReview.deleteMany).toHaveBeenCalledWith({ where: { contentId: 'content-1', status: 'PENDING' } });
+    expect(vi.mocked(prisma.predictionReview.findMany).mock.calls[0]![0]).toMatchObject({
+      where: { contentId: 'content-1', status: { in: ['APPROVED', 'REJECTED'] } },
+    });
+    expect([...settled].sort()).toEqual(['ADA', 'ADA-USD', 'DOGE', 'ETH', 'SOL']);
+  });
+});
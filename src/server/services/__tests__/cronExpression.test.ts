@@ -0,0 +1,43 @@
+import { describe, test, expect } from 'vitest';
+import { nextCronRun, parseCronExpression } from '../cronExpression';
+
+describe('parseCronExpression', () => {
+  test('should expand steps, ranges and lists', () => {
+    const schedule = parseCronExpression('*/15 9-11 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.daysOfWeek.size).toBe(5);
+  });
+
+  test('should treat 7 as Sunday', () => {
+    expect(parseCronExpression('0 0 * * 7').daysOfWeek.has(0)).toBe(true);
+  });
+
+  test('should reject malformed expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow('expected 5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('out of range');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('bad step');
+  });
+});
+
+describe('nextCronRun', () => {
+  test('should find the next interval slot strictly after the given time', () => {
+    expect(nextCronRun('*/5 * * * *', new Date('2025-01-01T10:02:30Z')).toISOString()).toBe('2025-01-01T10:05:00.000Z');
+    expect(nextCronRun('*/5 * * * *', new Date('2025-01-01T10:05:00Z')).toISOString()).toBe('2025-01-01T10:10:00.000Z');
+  });
+
+  test('should roll daily jobs over to the next day', () => {
+    expect(nextCronRun('0 1 * * *', new Date('2025-01-01T01:00:00Z')).toISOString()).toBe('2025-01-02T01:00:00.000Z');
+  });
+
+  test('should roll over month and year boundaries', () => {
+    expect(nextCronRun('30 2 1 * *', new Date('2025-12-15T00:00:00Z')).toISOString()).toBe('2026-01-01T02:30:00.000Z');
+  });
+
+  test('should match either day field when both are restricted', () => {
+    // 2025-01-03 is a Friday; the 10th is the next day-of-month match
+    expect(nextCronRun('0 0 10 * 1', new Date('2025-01-03T12:00:00Z')).toISOString()).toBe('2025-01-06T00:00:00.000Z');
+  });
+});
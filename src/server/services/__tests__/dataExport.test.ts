@@ -0,0 +1,241 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { inflateRawSync } from 'zlib';
+import type { Job } from '@prisma/client';
+import type { JobQueue } from '../jobQueue';
+import { DATA_EXPORT_JOB, DataExportService } from '../dataExport';
+import { createZip } from '../zipArchive';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    dataRequest: { findFirst: vi.fn(), findUnique: vi.fn(), findMany: vi.fn(), create: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    userAction: { findMany: vi.fn() },
+    comment: { findMany: vi.fn() },
+    event: { findMany: vi.fn() },
+    securityEvent: { findMany: vi.fn() },
+    userSession: { findMany: vi.fn() },
+    apiKey: { findMany: vi.fn() },
+    webhookEndpoint: { findMany: vi.fn() },
+  },
+}));
+
+const security = vi.hoisted(() => ({
+  securityLogger: { log: vi.fn() },
+  userEventsWhere: vi.fn((userId: string) => ({ OR: [{ userId }] })),
+}));
+const email = vi.hoisted(() => ({ sendDataExportReady: vi.fn() }));
+
+vi.mock('../../db', () => db);
+vi.mock('../../security', () => security);
+vi.mock('../email', () => ({
+  EmailService: vi.fn(() => email),
+}));
+
+const now = new Date('2025-03-15T12:00:00Z');
+const context = { ipAddress: '203.0.113.5', userAgent: 'vitest' };
+
+function queue() {
+  return { enqueue: vi.fn().mockResolvedValue({ id: 'job' }) } as unknown as JobQueue & { enqueue: ReturnType<typeof vi.fn> };
+}
+
+function job(attempts: number, maxAttempts = 3) {
+  return { id: 'j1', type: DATA_EXPORT_JOB, payload: { requestId: 'r1' }, attempts, maxAttempts } as unknown as Job;
+}
+
+// Read a ZIP written by createZip back into name -> contents
+function unzip(archive: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const start = offset + 30 + nameLength;
+    files[name] = inflateRawSync(archive.subarray(start, start + compressedSize)).toString('utf8');
+    offset = start + compressedSize;
+  }
+  return files;
+}
+
+function mockAccountData() {
+  db.prisma.user.findUnique.mockResolvedValueOnce({
+    id: 'u1',
+    email: 'trader@example.com',
+    fullName: 'Jane',
+    settings: { theme: 'dark' },
+    subscription: { tier: 'PREMIUM', stripeCustomerId: 'cus_1' },
+    twoFactorEnabledAt: null,
+    accounts: [{ provider: 'github', email: 'trader@example.com', createdAt: now }],
+  });
+  db.prisma.userAction.findMany.mockResolvedValueOnce([{ actionType: 'BOOKMARK', targetType: 'PREDICTION', targetId: 'p1' }]);
+  db.prisma.comment.findMany.mockResolvedValueOnce([{ id: 'c1', content: 'Great call' }]);
+  db.prisma.event.findMany.mockResolvedValueOnce([
+    { type: 'SUBSCRIPTION_CREATED', data: { plan: 'PREMIUM' } },
+    { type: 'PAYMENT_SUCCEEDED', entityType: 'INVOICE', data: { amount: 999, customer: 'cus_1' } },
+    { type: 'USER_ACTION', data: {} },
+  ]);
+  db.prisma.securityEvent.findMany.mockResolvedValueOnce([]);
+  db.prisma.userSession.findMany.mockResolvedValueOnce([]);
+  db.prisma.apiKey.findMany.mockResolvedValueOnce([]);
+  db.prisma.webhookEndpoint.findMany.mockResolvedValueOnce([]);
+}
+
+describe('createZip', () => {
+  test('should round-trip UTF-8 names and contents', () => {
+    const archive = createZip([
+      { name: 'profile.json', data: '{"name":"Zoë"}' },
+      { name: 'notes/é.txt', data: Buffer.from('hello') },
+    ], now);
+
+    expect(unzip(archive)).toEqual({ 'profile.json': '{"name":"Zoë"}', 'notes/é.txt': 'hello' });
+    // End of central directory records both entries
+    expect(archive.readUInt16LE(archive.length - 12)).toBe(2);
+  });
+
+  test('should store the CRC-32 of each entry', () => {
+    const archive = createZip([{ name: 'check.txt', data: '123456789' }], now);
+
+    expect(archive.readUInt32LE(14)).toBe(0xcbf43926);
+  });
+});
+
+describe('DataExportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('NEXTAUTH_URL', 'http://localhost:3000');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test('should queue an export and log the request', async () => {
+    const jobQueue = queue();
+    db.prisma.dataRequest.findFirst.mockResolvedValueOnce(null);
+    db.prisma.dataRequest.create.mockResolvedValueOnce({ id: 'r1', status: 'PENDING' });
+
+    await new DataExportService(jobQueue).request('u1', context, now);
+
+    expect(db.prisma.dataRequest.findFirst.mock.calls[0]![0].where.requestedAt).toEqual({ gt: new Date('2025-03-14T12:00:00Z') });
+    expect(jobQueue.enqueue).toHaveBeenCalledWith(DATA_EXPORT_JOB, { requestId: 'r1' }, { maxAttempts: 3 });
+    expect(security.securityLogger.log).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'DATA_EXPORT_REQUESTED', userId: 'u1', metadata: { requestId: 'r1' } })
+    );
+  });
+
+  test('should allow one export a day', async () => {
+    const jobQueue = queue();
+    const service = new DataExportService(jobQueue);
+
+    db.prisma.dataRequest.findFirst.mockResolvedValueOnce({ status: 'PENDING' });
+    await expect(service.request('u1', context, now)).rejects.toThrow('already being prepared');
+
+    db.prisma.dataRequest.findFirst.mockResolvedValueOnce({ status: 'COMPLETED' });
+    await expect(service.request('u1', context, now)).rejects.toThrow('one export a day');
+
+    expect(db.prisma.dataRequest.create).not.toHaveBeenCalled();
+    expect(jobQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  test('should bundle the account into an archive and email a link to it', async () => {
+    db.prisma.dataRequest.findUnique.mockResolvedValueOnce({ id: 'r1', userId: 'u1', status: 'PENDING' });
+    mockAccountData();
+    email.sendDataExportReady.mockResolvedValueOnce({ success: true });
+
+    await new DataExportService(queue()).build(job(1), now);
+
+    const stored = db.prisma.dataRequest.update.mock.calls[0]![0].data;
+    expect(stored.archive).toBeInstanceOf(Uint8Array);
+    const files = unzip(Buffer.from(stored.archive));
+    expect(Object.keys(files)).toEqual([
+      'profile.json',
+      'settings.json',
+      'subscription.json',
+      'actions.json',
+      'comments.json',
+      'events.json',
+      'security-events.json',
+      'sessions.json',
+      'api-keys.json',
+      'webhooks.json',
+    ]);
+    expect(JSON.parse(files['profile.json']!)).toMatchObject({ email: 'trader@example.com', twoFactorEnabled: false });
+    expect(JSON.parse(files['subscription.json']!)).toEqual({
+      current: { tier: 'PREMIUM', stripeCustomerId: 'cus_1' },
+      history: [
+        { type: 'SUBSCRIPTION_CREATED', data: { plan: 'PREMIUM' } },
+        { type: 'PAYMENT_SUCCEEDED', entityType: 'INVOICE', data: { amount: 999, customer: 'cus_1' } },
+      ],
+    });
+    // Payments are logged without a user id; the shared filter finds them by customer
+    expect(security.userEventsWhere).toHaveBeenCalledWith('u1', { tier: 'PREMIUM', stripeCustomerId: 'cus_1' });
+    expect(db.prisma.event.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { OR: [{ userId: 'u1' }] } }));
+
+    const link = email.sendDataExportReady.mock.calls[0]![2] as string;
+    const token = new URL(link).searchParams.get('token')!;
+    expect(link.startsWith('http://localhost:3000/settings/data-export?token=')).toBe(true);
+    expect(stored.tokenHash).toBe(createHash('sha256').update(token).digest('hex'));
+    expect(stored.expiresAt).toEqual(new Date('2025-03-22T12:00:00Z'));
+    expect(db.prisma.dataRequest.update).toHaveBeenLastCalledWith({
+      where: { id: 'r1' },
+      data: { status: 'COMPLETED', completedAt: now, error: null },
+    });
+  });
+
+  test('should mark the request failed once the last attempt fails', async () => {
+    const service = new DataExportService(queue());
+
+    db.prisma.dataRequest.findUnique.mockResolvedValueOnce({ id: 'r1', userId: 'u1', status: 'PENDING' });
+    mockAccountData();
+    email.sendDataExportReady.mockResolvedValueOnce({ success: false, error: 'SMTP down' });
+    await expect(service.build(job(1), now)).rejects.toThrow('SMTP down');
+    expect(db.prisma.dataRequest.update).toHaveBeenCalledTimes(1);
+
+    db.prisma.dataRequest.findUnique.mockResolvedValueOnce({ id: 'r1', userId: 'u1', status: 'PENDING' });
+    mockAccountData();
+    email.sendDataExportReady.mockResolvedValueOnce({ success: false, error: 'SMTP down' });
+    await expect(service.build(job(3), now)).rejects.toThrow('SMTP down');
+    expect(db.prisma.dataRequest.update).toHaveBeenLastCalledWith({
+      where: { id: 'r1' },
+      data: expect.objectContaining({ status: 'FAILED', archive: null, tokenHash: null }),
+    });
+  });
+
+  test('should skip requests removed by an erasure', async () => {
+    db.prisma.dataRequest.findUnique.mockResolvedValueOnce(null);
+
+    await new DataExportService(queue()).build(job(1), now);
+
+    expect(db.prisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  test('should only serve an unexpired archive to its owner', async () => {
+    const service = new DataExportService(queue());
+    const request = {
+      id: 'r1',
+      userId: 'u1',
+      status: 'COMPLETED',
+      archive: Buffer.from('zip'),
+      expiresAt: new Date('2025-03-20T00:00:00Z'),
+      requestedAt: new Date('2025-03-13T08:00:00Z'),
+      completedAt: new Date('2025-03-13T08:01:00Z'),
+    };
+
+    db.prisma.dataRequest.findUnique.mockResolvedValueOnce(request);
+    await expect(service.download('token', 'u2', context, now)).rejects.toThrow('invalid or has expired');
+
+    db.prisma.dataRequest.findUnique.mockResolvedValueOnce(request);
+    await expect(service.download('token', 'u1', context, new Date('2025-03-21T00:00:00Z'))).rejects.toThrow('invalid or has expired');
+
+    db.prisma.dataRequest.findUnique.mockResolvedValueOnce(request);
+    const download = await service.download('token', 'u1', context, now);
+
+    expect(db.prisma.dataRequest.findUnique).toHaveBeenLastCalledWith({
+      where: { tokenHash: createHash('sha256').update('token').digest('hex') },
+    });
+    expect(download).toEqual({ filename: 'prediction-prism-export-2025-03-13.zip', archive: Buffer.from('zip') });
+    expect(db.prisma.dataRequest.update).toHaveBeenCalledWith({ where: { id: 'r1' }, data: { downloadedAt: now } });
+    expect(security.securityLogger.log).toHaveBeenCalledWith(expect.objectContaining({ type: 'DATA_EXPORT_DOWNLOADED' }));
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, test, expect, vi, beforeAll, afterAll } from 'vitest';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { EmailService } from '../email';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    event: { create: vi.fn() },
+  },
+}));
+
+vi.mock('../../db', () => db);
+
+/**
+ * Minimal SMTP stand-in (like Mailpit or MailHog) that accepts every message
+ * without auth and keeps the raw DATA section of each one
+ */
+function startSmtpServer() {
+  const messages: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let data: string | null = null;
+
+    socket.write('220 localhost ESMTP test\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+
+      let newline = buffer.indexOf('\r\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (data !== null) {
+          // Undo quoted-printable soft line breaks and escapes so tests can match plain text
+          if (line === '.') {
+            messages.push(data.replace(/=([0-9A-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+            data = null;
+            socket.write('250 OK queued\r\n');
+          } else {
+            data += line.endsWith('=') ? line.slice(0, -1) : `${line}\n`;
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 localhost\r\n');
+        } else if (/^DATA/i.test(line)) {
+          data = '';
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+
+        newline = buffer.indexOf('\r\n');
+      }
+    });
+  });
+
+  return { server, messages };
+}
+
+describe('EmailService', () => {
+  const smtp = startSmtpServer();
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => smtp.server.listen(0, '127.0.0.1', resolve));
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String((smtp.server.address() as AddressInfo).port);
+    delete process.env.SMTP_USER;
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await new Promise((resolve) => smtp.server.close(resolve));
+  });
+
+  test('delivers magic links to a local SMTP server without credentials', async () => {
+    const link = 'http://localhost:3000/api/auth/callback/email?token=abc123&email=trader%40example.com';
+
+    const result = await new EmailService().sendMagicLinkEmail('trader@example.com', link, 15);
+
+    expect(result.success).toBe(true);
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]).toContain('Subject: Your sign-in link for Prediction Prism Analytics');
+    expect(smtp.messages[0]).toContain(`href="${link}"`);
+    expect(smtp.messages[0]).toContain('expire in 15 minutes');
+    expect(db.prisma.event.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ type: 'EMAIL_SENT' }) })
+    );
+  });
+});
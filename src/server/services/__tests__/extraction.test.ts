@@ -0,0 +1,146 @@
+import { describe, test, expect, vi } from 'vitest';
+import { UnifiedExtractionService, predictionProvenance } from '../extraction';
+import { CURRENT_PROMPT_VERSION } from '../extractionPrompts';
+import { LLMClient } from '../llm/client';
+import { FakeProvider } from '../llm/fakeProvider';
+
+vi.mock('../../db', () => ({
+  prisma: {},
+}));
+
+vi.mock('@/env.mjs', () => ({
+  env: {},
+}));
+
+vi.mock('../marketData', () => ({
+  MarketDataService: vi.fn(),
+}));
+
+vi.mock('../../security', () => ({
+  securityConfig: { aiSanitization: { enabled: false } },
+  getAiSanitizer: vi.fn(),
+  securityLogger: {},
+}));
+
+const transcript = `Welcome back everyone. I think Bitcoin goes to 150k by the end of next year,
+the ETF flows are just getting started.`;
+
+const recordedResponse = JSON.stringify([
+  {
+    asset: { symbol: 'BTC', fullName: 'Bitcoin', type: 'CRYPTO', dataSource: 'binance', confidence: 95 },
+    prediction: { text: 'Bitcoin goes to 150k', direction: 'bullish', timeframe: 'end of next year', targetPrice: 150000, confidence: 80 },
+    context: { exactQuote: 'I think Bitcoin goes to 150k', reasoning: 'ETF flows' },
+  },
+]);
+
+const context = {
+  videoId: 'abc123',
+  videoUrl: 'https://youtube.com/watch?v=abc123',
+  title: 'Bitcoin outlook',
+  description: '',
+  channelName: 'Test Channel',
+  publishedAt: new Date('2025-01-01T00:00:00Z'),
+  transcript,
+};
+
+describe('UnifiedExtractionService with a fake provider', () => {
+  test('should extract from a recorded response and report the answering model', async () => {
+    const provider = new FakeProvider({
+      model: 'recorded-v1',
+      recordings: [{ match: 'Bitcoin goes to 150k', response: recordedResponse }],
+    });
+    const service = new UnifiedExtractionService(new LLMClient([provider]));
+
+    const result = await service.extractFromVideo({ ...context });
+
+    expect(result.predictions).toHaveLength(1);
+    expect(result.predictions[0]!.asset.symbol).toBe('BTC');
+    expect(result.predictions[0]!.metadata.modelUsed).toBe('recorded-v1');
+    expect(result.metadata).toMatchObject({ provider: 'fake', modelUsed: 'recorded-v1', estimatedCost: 0 });
+    expect(result.metadata.tokensUsed).toBeGreaterThan(0);
+    expect(provider.requests[0]!.temperature).toBe(0.1);
+  });
+
+  test('should attribute the run to the fallback when the primary fails', async () => {
+    const service = new UnifiedExtractionService(
+      new LLMClient([
+        new FakeProvider({ failWith: 'quota exceeded', model: 'primary' }),
+        new FakeProvider({ model: 'backup', defaultResponse: recordedResponse }),
+      ])
+    );
+
+    const result = await service.extractFromVideo({ ...context });
+
+    expect(result.metadata.modelUsed).toBe('backup');
+    expect(result.metadata.usage).toEqual([
+      expect.objectContaining({ model: 'primary', failures: 1 }),
+      expect.objectContaining({ model: 'backup', failures: 0 }),
+    ]);
+  });
+
+  test('should record prompt version and response hash provenance', async () => {
+    const service = new UnifiedExtractionService(
+      new LLMClient([new FakeProvider({ model: 'recorded-v1', defaultResponse: recordedResponse })])
+    );
+
+    const result = await service.extractFromVideo({ ...context });
+    const provenance = predictionProvenance(result.predictions[0]!, 'content-1');
+
+    expect(result.metadata.promptVersion).toBe(CURRENT_PROMPT_VERSION);
+    expect(result.metadata.responseHashes).toEqual([provenance.responseHash]);
+    expect(provenance).toMatchObject({
+      model: 'recorded-v1',
+      provider: 'fake',
+      promptVersion: CURRENT_PROMPT_VERSION,
+      chunkIndex: null,
+      contentId: 'content-1',
+    });
+    expect(provenance.responseHash).toMatch(/^[0-9a-f]{64}$/);
+    // "end of next year" relative to the video's publication, not today
+    expect(result.predictions[0]!.prediction.targetDate).toBe('2026-12-31');
+    expect(provenance.timeframe).toMatchObject({ status: 'RESOLVED', source: 'parser', reference: '2025-01-01' });
+  });
+
+  test('should reject an unknown prompt version', async () => {
+    const service = new UnifiedExtractionService(new LLMClient([new FakeProvider()]));
+
+    await expect(service.extractFromVideo({ ...context }, { promptVersion: 'v0' })).rejects.toThrow(/v0/);
+  });
+
+  test('should hold borderline predictions for review instead of storing them', async () => {
+    const borderline = JSON.stringify([
+      {
+        asset: { symbol: 'DOGE', type: 'CRYPTO', confidence: 10 },
+        prediction: { text: 'Doge might do something', direction: 'bullish', confidence: 10 },
+        context: {},
+      },
+    ]);
+    const service = new UnifiedExtractionService(
+      new LLMClient([new FakeProvider({ sequence: [JSON.stringify([...JSON.parse(recordedResponse), ...JSON.parse(borderline)])] })])
+    );
+
+    const result = await service.extractFromVideo({ ...context });
+
+    expect(result.predictions.map(p => p.asset.symbol)).toEqual(['BTC']);
+    expect(result.needsReview.map(p => p.asset.symbol)).toEqual(['DOGE']);
+    expect(result.needsReview[0]!.metadata.qualityScore).toBeLessThan(UnifiedExtractionService.MIN_QUALITY_SCORE);
+    expect(result.summary.totalPredictions).toBe(1);
+  });
+
+  test('should resolve pair and name spellings to one catalog asset before deduplicating', async () => {
+    const spellings = JSON.stringify(
+      ['SOLUSDT', 'Solana'].map(symbol => ({
+        asset: { symbol, type: 'STOCK', confidence: 90 },
+        prediction: { text: 'Solana to 500', direction: 'bullish', timeframe: 'by end of year', targetPrice: 500, confidence: 70 },
+        context: { exactQuote: 'Solana to 500 by the end of the year' },
+      }))
+    );
+    const service = new UnifiedExtractionService(new LLMClient([new FakeProvider({ defaultResponse: spellings })]));
+
+    const result = await service.extractFromVideo({ ...context });
+
+    expect(result.predictions).toHaveLength(1);
+    expect(result.predictions[0]!.asset).toMatchObject({ symbol: 'SOL', type: 'CRYPTO', alternativeSymbols: ['SOLUSDT'] });
+    expect(predictionProvenance(result.predictions[0]!).asset).toMatchObject({ input: 'SOLUSDT', method: 'context' });
+  });
+});
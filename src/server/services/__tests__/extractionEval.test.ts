@@ -0,0 +1,126 @@
+import { describe, test, expect, vi } from 'vitest';
+import * as path from 'path';
+import type { UnifiedPrediction } from '../extraction';
+import {
+  compareReports,
+  evaluateGoldenSet,
+  formatComparison,
+  loadGoldenSet,
+  loadRecordingSet,
+  replayClient,
+  scoreCase,
+  type EvalReport,
+  type GoldenCase,
+} from '../extractionEval';
+
+vi.mock('../../db', () => ({
+  prisma: {},
+}));
+
+vi.mock('@/env.mjs', () => ({
+  env: {},
+}));
+
+vi.mock('../marketData', () => ({
+  MarketDataService: vi.fn(),
+}));
+
+vi.mock('../../security', () => ({
+  securityConfig: { aiSanitization: { enabled: false } },
+  getAiSanitizer: vi.fn(),
+  securityLogger: {},
+}));
+
+const evalDir = path.join(__dirname, '../../../../eval/extraction');
+
+function extracted(symbol: string, direction: string, targetPrice?: number, targetDate?: string): UnifiedPrediction {
+  return {
+    asset: { symbol, fullName: '', type: 'CRYPTO', dataSource: 'binance', confidence: 90 },
+    prediction: { text: '', direction, timeframe: '', targetPrice, targetDate, confidence: 80 },
+    context: { exactQuote: '', reasoning: '', marketFactors: [], technicalIndicators: [], fundamentalPoints: [] },
+    metadata: { modelUsed: 'test' },
+  } as UnifiedPrediction;
+}
+
+const goldenCase: GoldenCase = {
+  id: 'case-1',
+  title: 'test',
+  publishedAt: '2025-01-01',
+  transcript: '',
+  expected: [
+    { asset: 'BTC', direction: 'bullish', targetPrice: 100000, targetDate: '2025-12-31' },
+    { asset: 'ETH', direction: 'bullish', targetPrice: 8000, targetDate: '2025-09-30' },
+  ],
+};
+
+describe('scoreCase', () => {
+  test('should score assets, directions, prices and dates', () => {
+    const score = scoreCase(goldenCase, [
+      extracted('btc', 'bullish', 110000, '2025-12-28'),
+      extracted('SOL', 'bullish', 400),
+    ]);
+
+    expect(score).toMatchObject({
+      assetTruePositives: 1,
+      assetFalsePositives: 1,
+      assetFalseNegatives: 1,
+      matched: 1,
+      directionCorrect: 1,
+      targetPricePairs: 1,
+      timeframePairs: 1,
+      timeframeCorrect: 1,
+      dateErrorDaysSum: 3,
+    });
+    expect(score.targetPriceAbsPctErrorSum).toBeCloseTo(0.1);
+  });
+
+  test('should pair repeated assets by closest target price', () => {
+    const score = scoreCase(
+      { ...goldenCase, expected: [{ asset: 'BTC', direction: 'bearish', targetPrice: 50000 }] },
+      [extracted('BTC', 'bullish', 150000), extracted('BTC', 'bearish', 52000)]
+    );
+
+    expect(score.directionCorrect).toBe(1);
+    expect(score.targetPriceAbsPctErrorSum).toBeCloseTo(0.04);
+  });
+});
+
+describe('compareReports', () => {
+  function report(config: string, assetTruePositives: number, precision: number): EvalReport {
+    const score = scoreCase(goldenCase, []);
+    return {
+      config,
+      goldenVersion: 1,
+      cases: [{ ...score, assetTruePositives }],
+      metrics: {
+        cases: 1, failedCases: 0, assetPrecision: precision, assetRecall: 0.5, assetF1: null,
+        directionAccuracy: null, targetPriceError: 0.1, targetPriceMissing: 0, timeframeAccuracy: null, meanDateErrorDays: null,
+      },
+    };
+  }
+
+  test('should mark improvements by metric direction and list regressed cases', () => {
+    const comparison = compareReports(report('old', 2, 0.5), report('new', 1, 0.75));
+
+    expect(comparison.metrics.find(m => m.metric === 'assetPrecision')).toMatchObject({ delta: 0.25, improved: true });
+    expect(comparison.metrics.find(m => m.metric === 'targetPriceError')).toMatchObject({ improved: null });
+    expect(comparison.regressions).toEqual([{ caseId: 'case-1', reason: expect.stringContaining('was 2') }]);
+    expect(formatComparison(comparison)).toContain('| Asset precision | 50.0% | 75.0% | +25.0% ✅ |');
+  });
+});
+
+describe('golden set replay', () => {
+  test('should evaluate the seed recordings offline', async () => {
+    const set = loadGoldenSet(path.join(evalDir, 'golden-v1.json'));
+    const recordings = loadRecordingSet(path.join(evalDir, 'recordings/seed.json'));
+
+    const report = await evaluateGoldenSet(set, 'seed', c => replayClient(recordings, c));
+
+    expect(report.metrics.failedCases).toBe(0);
+    expect(report.metrics.cases).toBe(set.cases.length);
+    // The seed recording extracts a spurious BTC from the question-only case
+    expect(report.cases.find(c => c.caseId === 'question-not-prediction')?.assetFalsePositives).toBe(1);
+    expect(report.metrics.assetRecall).toBe(1);
+    expect(report.metrics.timeframeAccuracy).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  ForecasterAnalyticsService,
+  horizonBucket,
+  rollingSeries,
+  segmentBy,
+  summarize,
+  type AnalyticsPrediction,
+} from '../forecasterAnalytics';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    forecaster: { findUnique: vi.fn() },
+    prediction: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../db', () => db);
+
+function call(overrides: Partial<AnalyticsPrediction> = {}): AnalyticsPrediction {
+  return {
+    outcome: 'CORRECT',
+    confidence: 0.8,
+    direction: 'BULLISH',
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    targetDate: new Date('2025-02-01T00:00:00Z'),
+    validatedAt: new Date('2025-02-01T00:00:00Z'),
+    assetSymbol: 'BTC',
+    assetType: 'CRYPTO',
+    marketRegime: 'GREED',
+    source: 'youtube',
+    changePercent: 10,
+    excessReturn: 4,
+    ...overrides,
+  };
+}
+
+describe('horizonBucket', () => {
+  test('should bucket by days between creation and target', () => {
+    const createdAt = new Date('2025-01-01T00:00:00Z');
+    expect(horizonBucket(createdAt, new Date('2025-01-08T00:00:00Z'))).toBe('1W');
+    expect(horizonBucket(createdAt, new Date('2025-01-20T00:00:00Z'))).toBe('1M');
+    expect(horizonBucket(createdAt, new Date('2025-03-15T00:00:00Z'))).toBe('3M');
+    expect(horizonBucket(createdAt, new Date('2025-10-01T00:00:00Z'))).toBe('1Y');
+    expect(horizonBucket(createdAt, new Date('2027-01-01T00:00:00Z'))).toBe('LONG');
+    expect(horizonBucket(createdAt, null)).toBe('NONE');
+  });
+});
+
+describe('summarize', () => {
+  test('should compute accuracy, direction hit rate, Brier score and direction-adjusted return', () => {
+    const metrics = summarize([
+      call(),
+      call({ outcome: 'INCORRECT', direction: 'BEARISH', confidence: 0.6, changePercent: 5, excessReturn: -8 }),
+      call({ outcome: 'PARTIALLY_CORRECT', confidence: null, changePercent: 2, excessReturn: null }),
+      call({ outcome: 'PENDING', validatedAt: null, changePercent: null, excessReturn: null }),
+    ]);
+
+    expect(metrics).toMatchObject({ total: 4, resolved: 3, pending: 1, correct: 1, partiallyCorrect: 1, incorrect: 1 });
+    expect(metrics.accuracy).toBe(66.7);
+    // Bullish +10 and +2 moved the called way; the bearish call saw +5
+    expect(metrics.hitRate).toBe(66.7);
+    expect(metrics.avgReturn).toBe(2.33);
+    expect(metrics.alpha).toBe(-2);
+    // ((0.8 - 1)^2 + (0.6 - 0)^2) / 2; the call without a confidence is left out
+    expect(metrics.brierScore).toBe(0.2);
+  });
+
+  test('should report nulls rather than zeros when nothing is resolved', () => {
+    expect(summarize([call({ outcome: 'PENDING' })])).toMatchObject({
+      resolved: 0,
+      accuracy: null,
+      hitRate: null,
+      brierScore: null,
+      avgReturn: null,
+    });
+  });
+});
+
+describe('segmentBy', () => {
+  test('should keep the natural order for ordered dimensions and busiest first otherwise', () => {
+    const predictions = [
+      call({ marketRegime: 'GREED', assetSymbol: 'ETH' }),
+      call({ marketRegime: 'EXTREME_FEAR', assetSymbol: 'BTC' }),
+      call({ marketRegime: null, assetSymbol: 'BTC' }),
+    ];
+
+    expect(segmentBy(predictions, 'marketRegime').map(s => s.key)).toEqual(['EXTREME_FEAR', 'GREED', 'UNKNOWN']);
+    expect(segmentBy(predictions, 'asset').map(s => [s.key, s.total])).toEqual([['BTC', 2], ['ETH', 1]]);
+    expect(segmentBy(predictions, 'source', key => `label:${key}`)[0]).toMatchObject({ key: 'YOUTUBE', label: 'label:YOUTUBE' });
+  });
+});
+
+describe('rollingSeries', () => {
+  test('should only count calls resolved within the trailing window of each point', () => {
+    const points = rollingSeries(
+      [
+        call({ validatedAt: new Date('2025-03-01T00:00:00Z') }),
+        call({ outcome: 'INCORRECT', validatedAt: new Date('2025-03-20T00:00:00Z') }),
+      ],
+      10,
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-03-25T00:00:00Z')
+    );
+
+    expect(points[0]).toMatchObject({ date: '2025-03-01', resolved: 1, accuracy: 100 });
+    expect(points[points.length - 1]).toMatchObject({ date: '2025-03-25', resolved: 1, accuracy: 0 });
+  });
+});
+
+describe('ForecasterAnalyticsService', () => {
+  test('should label sources with the forecaster channel and prefer the scored return', async () => {
+    db.prisma.forecaster.findUnique.mockResolvedValueOnce({
+      id: 'f1',
+      channels: [
+        { channelType: 'YOUTUBE', channelName: 'Side Channel', isPrimary: false },
+        { channelType: 'YOUTUBE', channelName: 'Main Channel', isPrimary: true },
+      ],
+    });
+    db.prisma.prediction.findMany.mockResolvedValueOnce([
+      {
+        outcome: 'CORRECT',
+        confidence: '0.7',
+        direction: 'BEARISH',
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        targetDate: null,
+        validatedAt: new Date('2025-02-01T00:00:00Z'),
+        assetReturn: '-12.5',
+        excessReturn: null,
+        marketRegime: 'FEAR',
+        metadata: { source: { type: 'youtube' }, resolution: { changePercent: -10 } },
+        asset: { symbol: 'SPY', type: 'ETF' },
+      },
+    ]);
+
+    const analytics = await new ForecasterAnalyticsService().getAnalytics('f1', { window: '1y' });
+
+    expect(db.prisma.prediction.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { forecasterId: 'f1', createdAt: { gte: expect.any(Date) } } })
+    );
+    expect(analytics?.segments.source).toEqual([expect.objectContaining({ key: 'YOUTUBE', label: 'Main Channel' })]);
+    expect(analytics?.segments.horizon[0]).toMatchObject({ key: 'NONE', label: 'No target date' });
+    expect(analytics?.summary.avgReturn).toBe(12.5);
+  });
+
+  test('should return null for an unknown forecaster', async () => {
+    db.prisma.forecaster.findUnique.mockResolvedValueOnce(null);
+
+    expect(await new ForecasterAnalyticsService().getAnalytics('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { Job } from '@prisma/client';
+import { JobQueue, retryDelayMs } from '../jobQueue';
+import { prisma } from '../../db';
+
+vi.mock('../../db', () => ({
+  prisma: {
+    job: {
+      create: vi.fn(),
+      count: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    jobSchedule: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+const now = new Date('2025-01-01T10:00:00Z');
+
+function leasedJob(queue: JobQueue, overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    type: 'UPDATE_RANKINGS',
+    status: 'RUNNING',
+    payload: {},
+    attempts: 1,
+    maxAttempts: 3,
+    scheduledFor: now,
+    startedAt: now,
+    completedAt: null,
+    error: null,
+    lockedBy: queue.workerId,
+    lockedUntil: new Date(now.getTime() + 60_000),
+    createdAt: now,
+    ...overrides,
+  };
+}
+
+describe('retryDelayMs', () => {
+  test('should back off exponentially up to the cap', () => {
+    const options = { backoffBaseMs: 1000, backoffMaxMs: 5000 };
+
+    expect(retryDelayMs(1, options)).toBe(1000);
+    expect(retryDelayMs(2, options)).toBe(2000);
+    expect(retryDelayMs(3, options)).toBe(4000);
+    expect(retryDelayMs(4, options)).toBe(5000);
+  });
+});
+
+describe('JobQueue.fail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('should reschedule with backoff while attempts remain', async () => {
+    const queue = new JobQueue({ backoffBaseMs: 1000 });
+
+    await queue.fail(leasedJob(queue, { attempts: 2 }), new Error('timeout'), now);
+
+    const [args] = vi.mocked(prisma.job.updateMany).mock.calls[0]!;
+    expect(args.where).toEqual({ id: 'job-1', lockedBy: queue.workerId, status: 'RUNNING' });
+    expect(args.data).toMatchObject({ status: 'PENDING', error: 'timeout', lockedBy: null });
+    expect(args.data.scheduledFor).toEqual(new Date(now.getTime() + 2000));
+  });
+
+  test('should dead-letter the job once attempts are exhausted', async () => {
+    const queue = new JobQueue();
+
+    await queue.fail(leasedJob(queue, { attempts: 3 }), new Error('still broken'), now);
+
+    const [args] = vi.mocked(prisma.job.updateMany).mock.calls[0]!;
+    expect(args.data).toMatchObject({ status: 'DEAD', error: 'still broken', completedAt: now });
+  });
+});
+
+describe('JobQueue.enqueueDueSchedules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.jobSchedule.findMany).mockResolvedValue([
+      { type: 'UPDATE_RANKINGS', cron: '0 1 * * *', maxAttempts: 5, nextRunAt: now } as any,
+    ]);
+    vi.mocked(prisma.job.count).mockResolvedValue(0);
+  });
+
+  test('should advance the schedule and enqueue one job', async () => {
+    vi.mocked(prisma.jobSchedule.updateMany).mockResolvedValue({ count: 1 });
+
+    await new JobQueue().enqueueDueSchedules(now);
+
+    const [claim] = vi.mocked(prisma.jobSchedule.updateMany).mock.calls[0]!;
+    expect(claim.where).toEqual({ type: 'UPDATE_RANKINGS', nextRunAt: now });
+    expect(claim.data.nextRunAt).toEqual(new Date('2025-01-02T01:00:00Z'));
+
+    const [created] = vi.mocked(prisma.job.create).mock.calls[0]!;
+    expect(created.data).toMatchObject({ type: 'UPDATE_RANKINGS', status: 'PENDING', maxAttempts: 5 });
+  });
+
+  test('should not enqueue when another worker already advanced the schedule', async () => {
+    vi.mocked(prisma.jobSchedule.updateMany).mockResolvedValue({ count: 0 });
+
+    await new JobQueue().enqueueDueSchedules(now);
+
+    expect(prisma.job.create).not.toHaveBeenCalled();
+  });
+
+  test('should skip a run while the previous one is still in flight', async () => {
+    vi.mocked(prisma.jobSchedule.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.job.count).mockResolvedValue(1);
+
+    await new JobQueue().enqueueDueSchedules(now);
+
+    expect(prisma.job.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, test, expect, vi } from 'vitest';
+import { LLMClient, LLMUnavailableError, UsageLedger } from '../llm/client';
+import { FakeProvider } from '../llm/fakeProvider';
+import { calculateCost } from '../llm/pricing';
+import { channelLLMTargets, parseLLMTargets } from '../llm';
+import { prisma } from '../../db';
+
+vi.mock('../../db', () => ({
+  prisma: {
+    forecasterChannel: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/env.mjs', () => ({
+  env: {},
+}));
+
+describe('FakeProvider', () => {
+  test('should replay the first recording that matches the prompt', async () => {
+    const provider = new FakeProvider({
+      recordings: [
+        { match: 'bitcoin', response: '[{"asset":{"symbol":"BTC"}}]' },
+        { match: /ethereum/i, response: '[{"asset":{"symbol":"ETH"}}]' },
+      ],
+    });
+
+    expect((await provider.complete({ prompt: 'Ethereum to 10k' })).text).toContain('ETH');
+    expect((await provider.complete({ prompt: 'nothing here' })).text).toBe('[]');
+    expect(provider.requests).toHaveLength(2);
+  });
+});
+
+describe('LLMClient', () => {
+  test('should fall back to the next provider and account usage per provider', async () => {
+    const ledger = new UsageLedger();
+    const client = new LLMClient([
+      new FakeProvider({ failWith: 'rate limited', model: 'primary' }),
+      new FakeProvider({ defaultResponse: '[]', model: 'backup' }),
+    ]);
+
+    const response = await client.complete({ prompt: 'x'.repeat(400) }, ledger);
+
+    expect(response.model).toBe('backup');
+    expect(ledger.breakdown()).toEqual([
+      expect.objectContaining({ model: 'primary', calls: 1, failures: 1, inputTokens: 0 }),
+      expect.objectContaining({ model: 'backup', calls: 1, failures: 0, inputTokens: 100, outputTokens: 1 }),
+    ]);
+  });
+
+  test('should throw when every provider fails', async () => {
+    const client = new LLMClient([
+      new FakeProvider({ failWith: 'down' }),
+      new FakeProvider({ failWith: 'also down' }),
+    ]);
+
+    await expect(client.complete({ prompt: 'hi' })).rejects.toBeInstanceOf(LLMUnavailableError);
+  });
+});
+
+describe('calculateCost', () => {
+  test('should price input and output tokens separately', () => {
+    expect(calculateCost('openai', 'gpt-4o-mini', { inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBeCloseTo(0.75);
+  });
+
+  test('should use the provider default rate for unknown models', () => {
+    expect(calculateCost('anthropic', 'claude-next', { inputTokens: 1_000_000, outputTokens: 0 })).toBeCloseTo(0.8);
+    expect(calculateCost('local', 'llama3.1', { inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBe(0);
+  });
+});
+
+describe('parseLLMTargets', () => {
+  test('should parse provider and optional model, dropping unknown providers', () => {
+    expect(parseLLMTargets('gemini, openai:gpt-4o, bogus, local:qwen2.5:7b')).toEqual([
+      { provider: 'gemini' },
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'local', model: 'qwen2.5:7b' },
+    ]);
+  });
+});
+
+describe('channelLLMTargets', () => {
+  test('should return the first channel chain with valid providers', async () => {
+    vi.mocked(prisma.forecasterChannel.findMany).mockResolvedValue([
+      { collectionSettings: { enabled: true } },
+      { collectionSettings: { llm: [{ provider: 'anthropic' }, { provider: 'unknown' }] } },
+    ] as any);
+
+    expect(await channelLLMTargets('forecaster-1', 'YOUTUBE')).toEqual([{ provider: 'anthropic' }]);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { ProviderRegistry, reconcileQuotes } from '../marketDataProviders';
+import { BinanceService, CoinGeckoService, MarketDataService } from '../marketData';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    asset: { findUnique: vi.fn(), update: vi.fn() },
+    priceHistory: { create: vi.fn() },
+    event: { create: vi.fn() },
+  },
+}));
+
+vi.mock('../../db', () => db);
+
+function clock(start = 0) {
+  let now = start;
+  return { now: () => now, advance: (ms: number) => (now += ms) };
+}
+
+const fail = () => Promise.reject(new Error('HTTP error! status: 503'));
+
+describe('ProviderRegistry', () => {
+  test('should open the circuit after repeated failures and skip the provider', async () => {
+    const time = clock();
+    const registry = new ProviderRegistry(time.now);
+
+    for (let i = 0; i < 3; i++) await registry.call('binance', fail);
+
+    const call = vi.fn().mockResolvedValue(1);
+    expect(await registry.call('binance', call)).toBeNull();
+    expect(call).not.toHaveBeenCalled();
+    expect(registry.rank(['binance', 'coingecko'])).toEqual(['coingecko']);
+    expect(registry.health().find(p => p.source === 'binance')).toMatchObject({ state: 'OPEN', lastError: 'HTTP error! status: 503' });
+  });
+
+  test('should let one trial through after the cooldown and close on success', async () => {
+    const time = clock();
+    const registry = new ProviderRegistry(time.now);
+    for (let i = 0; i < 3; i++) await registry.call('yahoo', fail);
+
+    time.advance(61_000);
+    expect(registry.isAvailable('yahoo')).toBe(true);
+    expect(registry.isAvailable('yahoo')).toBe(false);
+
+    registry.record('yahoo', true, 120);
+    expect(registry.health().find(p => p.source === 'yahoo')?.state).toBe('CLOSED');
+  });
+
+  test('should double the cooldown when the trial fails', async () => {
+    const time = clock();
+    const registry = new ProviderRegistry(time.now);
+    for (let i = 0; i < 3; i++) await registry.call('coingecko', fail);
+
+    time.advance(61_000);
+    await registry.call('coingecko', fail);
+
+    time.advance(61_000);
+    expect(registry.isAvailable('coingecko')).toBe(false);
+    time.advance(60_000);
+    expect(registry.isAvailable('coingecko')).toBe(true);
+  });
+
+  test('should not count unknown symbols against a provider', async () => {
+    const registry = new ProviderRegistry(clock().now);
+    for (let i = 0; i < 5; i++) await registry.call('binance', async () => null);
+
+    expect(registry.health().find(p => p.source === 'binance')).toMatchObject({ state: 'CLOSED', errorRate: 0 });
+  });
+
+  test('should rank a failing provider behind a healthy one', async () => {
+    const registry = new ProviderRegistry(clock().now);
+    await registry.call('binance', fail);
+    await registry.call('binance', async () => 1);
+    await registry.call('coingecko', async () => 1);
+
+    expect(registry.rank(['binance', 'coingecko'])).toEqual(['coingecko', 'binance']);
+  });
+});
+
+describe('reconcileQuotes', () => {
+  test('should accept the preferred source when quotes agree', () => {
+    const result = reconcileQuotes([
+      { source: 'binance', price: 100 },
+      { source: 'coingecko', price: 100.8 },
+    ]);
+
+    expect(result).toMatchObject({ status: 'AGREED', price: 100, source: 'binance', outliers: [] });
+    expect(result.spreadPercent).toBeCloseTo(0.8, 1);
+  });
+
+  test('should drop the quote furthest from the last known price when two disagree', () => {
+    const result = reconcileQuotes(
+      [
+        { source: 'binance', price: 0.0041 },
+        { source: 'coingecko', price: 4.1 },
+      ],
+      4.05
+    );
+
+    expect(result).toMatchObject({ status: 'OUTLIER_DROPPED', price: 4.1, source: 'coingecko' });
+    expect(result.outliers).toEqual([{ source: 'binance', price: 0.0041 }]);
+  });
+
+  test('should hold back disagreeing quotes with nothing to break the tie', () => {
+    expect(
+      reconcileQuotes([
+        { source: 'binance', price: 100 },
+        { source: 'coingecko', price: 120 },
+      ])
+    ).toMatchObject({ status: 'DIVERGED', price: null });
+  });
+
+  test('should hold back a lone quote that jumped from the last known price', () => {
+    expect(reconcileQuotes([{ source: 'yahoo', price: 15 }], 150)).toMatchObject({ status: 'DIVERGED', price: null });
+    expect(reconcileQuotes([{ source: 'yahoo', price: 160 }], 150)).toMatchObject({ status: 'SINGLE_SOURCE', price: 160 });
+  });
+});
+
+describe('MarketDataService.updateAssetPrice', () => {
+  const quote = (source: string, price: number) => ({ symbol: 'PEPE', price, change24h: 1, volume24h: 1000, source });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    db.prisma.asset.findUnique.mockResolvedValue({
+      id: 'pepe',
+      symbol: 'PEPE',
+      type: 'CRYPTO',
+      priceData: { price: 0.00001, updatedAt: new Date().toISOString() },
+    });
+  });
+
+  test('should record the source and quorum behind the stored price', async () => {
+    vi.spyOn(BinanceService.prototype, 'getPrice').mockResolvedValue(quote('binance', 0.0000101));
+    vi.spyOn(CoinGeckoService.prototype, 'getPrice').mockResolvedValue(quote('coingecko', 0.00001));
+
+    await new MarketDataService(new ProviderRegistry()).updateAssetPrice('pepe');
+
+    expect(db.prisma.priceHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        source: 'binance',
+        quorum: expect.objectContaining({ status: 'AGREED', quotes: [
+          { source: 'binance', price: 0.0000101 },
+          { source: 'coingecko', price: 0.00001 },
+        ] }),
+      }),
+    });
+    expect(db.prisma.event.create).not.toHaveBeenCalled();
+  });
+
+  test('should fail over when the preferred provider errors', async () => {
+    const registry = new ProviderRegistry();
+    vi.spyOn(BinanceService.prototype, 'getPrice').mockRejectedValue(new Error('fetch failed'));
+    vi.spyOn(CoinGeckoService.prototype, 'getPrice').mockResolvedValue(quote('coingecko', 0.0000102));
+
+    const price = await new MarketDataService(registry).updateAssetPrice('pepe');
+
+    expect(price.source).toBe('coingecko');
+    expect(db.prisma.asset.update).toHaveBeenCalledWith({
+      where: { id: 'pepe' },
+      data: { priceData: expect.objectContaining({ source: 'coingecko', quorum: expect.objectContaining({ status: 'SINGLE_SOURCE' }) }) },
+    });
+    expect(registry.health().find(p => p.source === 'binance')?.errorRate).toBe(1);
+  });
+
+  test('should flag diverging quotes and leave the stored price alone', async () => {
+    db.prisma.asset.findUnique.mockResolvedValue({ id: 'pepe', symbol: 'PEPE', type: 'CRYPTO', priceData: { price: null } });
+    vi.spyOn(BinanceService.prototype, 'getPrice').mockResolvedValue(quote('binance', 0.00001));
+    vi.spyOn(CoinGeckoService.prototype, 'getPrice').mockResolvedValue(quote('coingecko', 0.00002));
+
+    await expect(new MarketDataService(new ProviderRegistry()).updateAssetPrice('pepe')).rejects.toThrow('held back');
+
+    expect(db.prisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'PRICE_OUTLIER', entityId: 'pepe', data: expect.objectContaining({ status: 'DIVERGED' }) }),
+    });
+    expect(db.prisma.asset.update).not.toHaveBeenCalled();
+    expect(db.prisma.priceHistory.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { aggregateCandles, findGaps } from '../candles';
+import { PriceBackfillService } from '../priceBackfill';
+import type { MarketDataService } from '../marketData';
+import type { JobQueue } from '../jobQueue';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    priceCandle: { findMany: vi.fn(), findUnique: vi.fn(), findFirst: vi.fn(), createMany: vi.fn() },
+    prediction: { update: vi.fn() },
+  },
+}));
+
+vi.mock('../../db', () => db);
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const day = (n: number) => new Date(Date.UTC(2025, 0, n));
+
+describe('findGaps', () => {
+  const now = day(20);
+
+  test('should return the whole range when nothing is stored', () => {
+    expect(findGaps([], day(1), day(5), '1d', 0, now)).toEqual([{ from: day(1), to: day(5) }]);
+  });
+
+  test('should find holes between stored candles', () => {
+    const stored = [day(1), day(2), day(5)];
+
+    expect(findGaps(stored, day(1), day(6), '1d', 0, now)).toEqual([{ from: day(3), to: day(5) }]);
+  });
+
+  test('should tolerate weekend-sized holes for exchange-traded assets', () => {
+    // Fri 3rd, then Mon 6th
+    const stored = [day(2), day(3), day(6), day(7)];
+
+    expect(findGaps(stored, day(2), day(8), '1d', 4, now)).toEqual([]);
+  });
+
+  test('should never report the bucket that is still open', () => {
+    const midday = new Date(day(10).getTime() + 12 * HOUR);
+
+    expect(findGaps([day(8)], day(8), new Date(day(11).getTime()), '1d', 0, midday)).toEqual([
+      { from: day(9), to: day(10) },
+    ]);
+  });
+});
+
+describe('aggregateCandles', () => {
+  test('should roll ticks into OHLC buckets regardless of input order', () => {
+    const start = day(1).getTime();
+    const candles = aggregateCandles(
+      [
+        { time: start + 30 * 60 * 1000, price: 90, volume: 10 },
+        { time: start, price: 100, volume: 5 },
+        { time: start + 45 * 60 * 1000, price: 95, volume: 8 },
+        { time: start + HOUR, price: 96 },
+      ],
+      '1h'
+    );
+
+    expect(candles).toEqual([
+      { openTime: day(1), open: 100, high: 100, low: 90, close: 95, volume: 10 },
+      { openTime: new Date(start + HOUR), open: 96, high: 96, low: 96, close: 96, volume: null },
+    ]);
+  });
+});
+
+describe('PriceBackfillService', () => {
+  const asset = { id: 'btc', symbol: 'BTC', type: 'CRYPTO' };
+  const marketData = { getCandles: vi.fn() };
+  const jobQueue = { enqueue: vi.fn() };
+  const service = new PriceBackfillService(marketData as unknown as MarketDataService, jobQueue as unknown as JobQueue);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('should fetch only the missing range and skip still-open candles', async () => {
+    const from = new Date(Date.now() - 5 * DAY);
+    const to = new Date();
+    const stored = [0, 1].map(i => new Date(Math.floor(from.getTime() / DAY) * DAY + i * DAY));
+    db.prisma.priceCandle.findMany.mockResolvedValueOnce(stored.map(openTime => ({ openTime })));
+
+    const today = new Date(Math.floor(Date.now() / DAY) * DAY);
+    const yesterday = new Date(today.getTime() - DAY);
+    marketData.getCandles.mockResolvedValueOnce({
+      source: 'binance',
+      candles: [yesterday, today].map(openTime => ({ openTime, open: 1, high: 2, low: 0.5, close: 1.5, volume: 100 })),
+    });
+    db.prisma.priceCandle.createMany.mockResolvedValueOnce({ count: 1 });
+
+    const result = await service.ensureCandles(asset, '1d', from, to);
+
+    expect(result).toEqual({ gaps: 1, stored: 1 });
+    expect(marketData.getCandles).toHaveBeenCalledWith('BTC', 'CRYPTO', '1d', new Date(stored[1]!.getTime() + DAY), today);
+    expect(db.prisma.priceCandle.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ assetId: 'btc', resolution: '1d', openTime: yesterday, source: 'binance' })],
+      skipDuplicates: true,
+    });
+  });
+
+  test('should set a missing baseline from the candle the prediction was made in', async () => {
+    const createdAt = new Date(Date.UTC(2025, 0, 1, 14, 20));
+    db.prisma.priceCandle.findMany.mockResolvedValue([]);
+    marketData.getCandles.mockResolvedValue({ source: 'binance', candles: [] });
+    db.prisma.priceCandle.findUnique.mockResolvedValueOnce({ open: '94250.5' });
+
+    const baseline = await service.ensureForPrediction({
+      id: 'p1',
+      createdAt,
+      targetDate: day(31),
+      baselinePrice: null,
+      asset,
+    });
+
+    expect(baseline).toBe(94250.5);
+    expect(db.prisma.priceCandle.findUnique).toHaveBeenCalledWith({
+      where: { assetId_resolution_openTime: { assetId: 'btc', resolution: '1h', openTime: new Date(Date.UTC(2025, 0, 1, 14)) } },
+      select: { open: true },
+    });
+    expect(db.prisma.prediction.update).toHaveBeenCalledWith({ where: { id: 'p1' }, data: { baselinePrice: 94250.5 } });
+  });
+
+  test('should carry the last close forward over a market closure', async () => {
+    const saturday = new Date(Date.UTC(2025, 0, 4, 15));
+    db.prisma.priceCandle.findUnique.mockResolvedValue(null);
+    db.prisma.priceCandle.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ openTime: day(3), close: '591.2' });
+
+    expect(await service.priceAt('spy', saturday)).toBe(591.2);
+    expect(db.prisma.priceCandle.findFirst).toHaveBeenLastCalledWith({
+      where: { assetId: 'spy', resolution: '1d', openTime: { gte: new Date(saturday.getTime() - 4 * DAY), lte: new Date(saturday.getTime() - DAY) } },
+      orderBy: { openTime: 'desc' },
+      select: { openTime: true, close: true },
+    });
+  });
+
+  test('should keep a baseline captured at creation', async () => {
+    db.prisma.priceCandle.findMany.mockResolvedValue([]);
+    marketData.getCandles.mockResolvedValue({ source: 'binance', candles: [] });
+
+    const baseline = await service.ensureForPrediction({
+      id: 'p2',
+      createdAt: day(1),
+      targetDate: day(31),
+      baselinePrice: '100',
+      asset,
+    });
+
+    expect(baseline).toBe(100);
+    expect(db.prisma.prediction.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { PricePathService, pathResolution } from '../pricePath';
+import { type PriceBackfillService } from '../priceBackfill';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    prediction: { findUnique: vi.fn(), findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../db', () => db);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function candle(day: string, close: number) {
+  return { openTime: new Date(`${day}T00:00:00Z`), open: close, high: close + 1, low: close - 1, close, volume: null, source: 'binance' };
+}
+
+describe('pathResolution', () => {
+  test('should use hourly candles for short horizons and daily ones otherwise', () => {
+    const from = new Date('2025-01-01T00:00:00Z');
+    expect(pathResolution(from, new Date(from.getTime() + 14 * DAY_MS))).toBe('1h');
+    expect(pathResolution(from, new Date(from.getTime() + 15 * DAY_MS))).toBe('1d');
+  });
+});
+
+describe('PricePathService', () => {
+  const priceBackfill = { getCandles: vi.fn() };
+  const service = () => new PricePathService(priceBackfill as unknown as PriceBackfillService);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('should chart a resolved prediction up to its target date with its band and resolution point', async () => {
+    db.prisma.prediction.findUnique.mockResolvedValueOnce({
+      id: 'p1',
+      forecasterId: 'f1',
+      prediction: 'BTC will close the month above 110',
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      targetDate: new Date('2025-02-01T00:00:00Z'),
+      targetPrice: '110',
+      baselinePrice: '100',
+      outcome: 'CORRECT',
+      metadata: {
+        resolution: {
+          rule: 'TARGET_AT_EXPIRY',
+          reason: 'Closed at 112 against target 110',
+          resolvingAt: '2025-02-01T00:00:00.000Z',
+          resolvingPrice: 112,
+          baselineAt: null,
+        },
+      },
+      asset: { id: 'btc', symbol: 'BTC', type: 'CRYPTO' },
+    });
+    priceBackfill.getCandles.mockResolvedValueOnce([candle('2025-01-10', 104), candle('2025-01-31', 112), candle('2025-02-05', 90)]);
+    db.prisma.prediction.findMany.mockResolvedValueOnce([
+      {
+        id: 'p2',
+        forecasterId: 'f2',
+        createdAt: new Date('2025-01-05T00:00:00Z'),
+        targetDate: null,
+        targetPrice: '90',
+        direction: 'BEARISH',
+        outcome: 'PENDING',
+        forecaster: { name: 'Bob' },
+      },
+    ]);
+
+    const path = await service().forPrediction('p1', new Date('2025-03-01T00:00:00Z'));
+
+    expect(priceBackfill.getCandles).toHaveBeenCalledWith('btc', '1d', new Date('2025-01-01T00:00:00Z'), new Date('2025-02-01T00:00:00Z'));
+    expect(db.prisma.prediction.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ assetId: 'btc', id: { not: 'p1' }, forecasterId: { not: 'f1' } }),
+      })
+    );
+    expect(path).toMatchObject({
+      resolution: '1d',
+      baseline: { at: new Date('2025-01-01T00:00:00Z'), price: 100 },
+      target: { price: 110, semantics: 'CLOSE', band: { low: 104.5, high: 115.5 } },
+      resolved: { at: new Date('2025-02-01T00:00:00Z'), price: 112, outcome: 'CORRECT' },
+      others: [{ id: 'p2', forecasterName: 'Bob', targetPrice: 90 }],
+    });
+    // The candle closing after the target date is left off the path
+    expect(path?.points.map(p => p.price)).toEqual([104, 112]);
+  });
+
+  test('should run an open prediction through today without a resolution point', async () => {
+    db.prisma.prediction.findUnique.mockResolvedValueOnce({
+      id: 'p1',
+      forecasterId: 'f1',
+      prediction: 'BTC is going up',
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      targetDate: new Date('2025-06-01T00:00:00Z'),
+      targetPrice: null,
+      baselinePrice: null,
+      outcome: 'PENDING',
+      metadata: {},
+      asset: { id: 'btc', symbol: 'BTC', type: 'CRYPTO' },
+    });
+    priceBackfill.getCandles.mockResolvedValueOnce([]);
+    db.prisma.prediction.findMany.mockResolvedValueOnce([]);
+
+    const path = await service().forPrediction('p1', new Date('2025-01-05T00:00:00Z'));
+
+    expect(path).toMatchObject({ resolution: '1h', to: new Date('2025-01-05T00:00:00Z'), baseline: null, target: null, resolved: null });
+  });
+
+  test('should return null for an unknown prediction', async () => {
+    db.prisma.prediction.findUnique.mockResolvedValueOnce(null);
+
+    expect(await service().forPrediction('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { RankingService, diffLeaderboards, snapshotDay } from '../ranking';
+import type { BrierScoreService } from '../brierScore';
+import { prisma } from '../../db';
+
+vi.mock('../../db', () => ({
+  prisma: {
+    forecaster: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    prediction: {
+      findMany: vi.fn(),
+    },
+    rankingSnapshot: {
+      upsert: vi.fn(),
+    },
+    event: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+describe('snapshotDay', () => {
+  test('should truncate to the UTC calendar day', () => {
+    expect(snapshotDay(new Date('2025-03-04T23:59:59Z')).toISOString()).toBe('2025-03-04T00:00:00.000Z');
+  });
+});
+
+describe('diffLeaderboards', () => {
+  test('should report climbers first, then entrants and dropouts', () => {
+    const diff = diffLeaderboards(
+      [
+        { forecasterId: 'a', rank: 1 },
+        { forecasterId: 'b', rank: 2 },
+        { forecasterId: 'c', rank: 3 },
+      ],
+      [
+        { forecasterId: 'c', rank: 1 },
+        { forecasterId: 'a', rank: 2 },
+        { forecasterId: 'd', rank: 3 },
+      ]
+    );
+
+    expect(diff.movements).toEqual([
+      { forecasterId: 'c', fromRank: 3, toRank: 1, change: 2 },
+      { forecasterId: 'a', fromRank: 1, toRank: 2, change: -1 },
+    ]);
+    expect(diff.entered).toEqual([{ forecasterId: 'd', rank: 3 }]);
+    expect(diff.dropped).toEqual([{ forecasterId: 'b', rank: 2 }]);
+  });
+});
+
+describe('RankingService.updateAll', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('should write one snapshot per forecaster and keep the previous rank on metrics', async () => {
+    vi.mocked(prisma.forecaster.findMany).mockResolvedValue([
+      { id: 'low', name: 'Low' },
+      { id: 'high', name: 'High' },
+    ] as any);
+    vi.mocked(prisma.forecaster.findUnique).mockResolvedValue({ metrics: { rank: 1 } } as any);
+    vi.mocked(prisma.prediction.findMany).mockResolvedValue([]);
+
+    const brierScoreService = {
+      getComprehensiveMetrics: vi.fn(async (forecasterId: string) => ({
+        accuracy: forecasterId === 'high' ? 0.9 : 0.4,
+        brierScore: 0.2,
+        total: 10,
+      })),
+    } as unknown as BrierScoreService;
+
+    await new RankingService(brierScoreService).updateAll();
+
+    const upserts = vi.mocked(prisma.rankingSnapshot.upsert).mock.calls.map(([args]) => args);
+    expect(upserts).toHaveLength(2);
+    expect(upserts[0]!.create).toMatchObject({ forecasterId: 'high', rank: 1, totalPredictions: 10 });
+    expect(upserts[1]!.create).toMatchObject({ forecasterId: 'low', rank: 2 });
+    expect(upserts[0]!.where.forecasterId_snapshotDate?.snapshotDate).toEqual(snapshotDay(new Date()));
+
+    const updates = vi.mocked(prisma.forecaster.update).mock.calls.map(([args]) => args.data.metrics as any);
+    expect(updates[1]).toMatchObject({ rank: 2, previousRank: 1 });
+
+    // Only the forecaster whose rank moved raises a change event
+    expect(prisma.event.create).toHaveBeenCalledTimes(1);
+    expect(prisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'RANKING_CHANGED',
+        entityId: 'low',
+        data: expect.objectContaining({ rank: 2, previousRank: 1 }),
+      }),
+    });
+  });
+});
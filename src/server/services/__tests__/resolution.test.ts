@@ -0,0 +1,160 @@
+import { describe, test, expect, vi } from 'vitest';
+import { evaluatePrediction, inferTargetSemantics, targetBand, type PricePoint, type ResolutionInput } from '../resolution';
+
+vi.mock('../../db', () => ({
+  prisma: {
+    priceHistory: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const createdAt = new Date('2025-01-01T00:00:00Z');
+const targetDate = new Date('2025-01-31T00:00:00Z');
+const afterExpiry = new Date('2025-02-05T00:00:00Z');
+
+function pathOf(prices: number[], stepMs = DAY): PricePoint[] {
+  return prices.map((price, i) => ({
+    price,
+    recordedAt: new Date(createdAt.getTime() + i * stepMs),
+  }));
+}
+
+function input(overrides: Partial<ResolutionInput> = {}): ResolutionInput {
+  return {
+    createdAt,
+    targetDate,
+    targetPrice: null,
+    baselinePrice: 100,
+    direction: 'BULLISH',
+    semantics: 'CLOSE',
+    ...overrides,
+  };
+}
+
+describe('inferTargetSemantics', () => {
+  test('should prefer explicit metadata semantics', () => {
+    expect(inferTargetSemantics('BTC will hit 100k', 100000, { resolution: { semantics: 'CLOSE' } })).toBe('CLOSE');
+  });
+
+  test('should detect close-at-expiry wording', () => {
+    expect(inferTargetSemantics('ETH will close the year above 5000', 5000)).toBe('CLOSE');
+  });
+
+  test('should default to TOUCH for price targets and CLOSE otherwise', () => {
+    expect(inferTargetSemantics('SOL will reach $300', 300)).toBe('TOUCH');
+    expect(inferTargetSemantics('SOL is going up', null)).toBe('CLOSE');
+  });
+});
+
+describe('targetBand', () => {
+  test('should widen close targets by the tolerance and leave touch targets exact', () => {
+    expect(targetBand(100, 'CLOSE')).toEqual({ low: 95, high: 105 });
+    expect(targetBand(100, 'TOUCH')).toEqual({ low: 100, high: 100 });
+  });
+});
+
+describe('evaluatePrediction', () => {
+  test('should resolve a touch target as soon as the path reaches it', () => {
+    const path = pathOf([100, 105, 121, 110]);
+    const result = evaluatePrediction(
+      input({ targetPrice: 120, semantics: 'TOUCH' }),
+      path,
+      new Date('2025-01-10T00:00:00Z')
+    );
+
+    expect(result.outcome).toBe('CORRECT');
+    expect(result.rule).toBe('TARGET_TOUCHED');
+    expect(result.resolvingPrice).toBe(121);
+    expect(result.resolvingAt).toBe(path[2]!.recordedAt.toISOString());
+  });
+
+  test('should count a touch inside a candle even when it closed below the target', () => {
+    const path = pathOf([100, 105, 112]).map((point, i) => (i === 1 ? { ...point, high: 124, low: 101, source: 'binance:1h' } : point));
+    const result = evaluatePrediction(
+      input({ targetPrice: 120, semantics: 'TOUCH' }),
+      path,
+      new Date('2025-01-10T00:00:00Z')
+    );
+
+    expect(result.outcome).toBe('CORRECT');
+    expect(result.rule).toBe('TARGET_TOUCHED');
+    expect(result.resolvingAt).toBe(path[1]!.recordedAt.toISOString());
+    expect(result.resolvingSource).toBe('binance:1h');
+  });
+
+  test('should stay pending while a touch target is open and not yet reached', () => {
+    const result = evaluatePrediction(
+      input({ targetPrice: 150, semantics: 'TOUCH' }),
+      pathOf([100, 110, 115]),
+      new Date('2025-01-05T00:00:00Z')
+    );
+
+    expect(result.outcome).toBe('PENDING');
+    expect(result.rule).toBe('HORIZON_OPEN');
+  });
+
+  test('should give partial credit when a touch target is missed but direction was right', () => {
+    const result = evaluatePrediction(
+      input({ targetPrice: 150, semantics: 'TOUCH' }),
+      pathOf(Array.from({ length: 31 }, (_, i) => 100 + i)),
+      afterExpiry
+    );
+
+    expect(result.outcome).toBe('PARTIALLY_CORRECT');
+    expect(result.rule).toBe('TARGET_NOT_TOUCHED');
+    expect(result.resolvingPrice).toBe(130);
+  });
+
+  test('should ignore intra-horizon touches for close-at-expiry targets', () => {
+    const prices = Array.from({ length: 31 }, (_, i) => (i === 10 ? 130 : 95));
+    const result = evaluatePrediction(
+      input({ targetPrice: 120, semantics: 'CLOSE' }),
+      pathOf(prices),
+      afterExpiry
+    );
+
+    expect(result.outcome).toBe('INCORRECT');
+    expect(result.rule).toBe('TARGET_AT_EXPIRY');
+    expect(result.resolvingPrice).toBe(95);
+  });
+
+  test('should ignore price points after the target date', () => {
+    const path = [...pathOf(Array.from({ length: 31 }, () => 90)), { price: 200, recordedAt: new Date('2025-02-02T00:00:00Z') }];
+    const result = evaluatePrediction(input(), path, afterExpiry);
+
+    expect(result.outcome).toBe('INCORRECT');
+    expect(result.resolvingPrice).toBe(90);
+  });
+
+  test('should resolve bearish directional calls on the expiry close', () => {
+    const result = evaluatePrediction(
+      input({ direction: 'BEARISH' }),
+      pathOf(Array.from({ length: 31 }, (_, i) => 100 - i)),
+      afterExpiry
+    );
+
+    expect(result.outcome).toBe('CORRECT');
+    expect(result.rule).toBe('DIRECTION_AT_EXPIRY');
+    expect(result.changePercent).toBeCloseTo(-30);
+  });
+
+  test('should derive the baseline from the first point when none was stored', () => {
+    const result = evaluatePrediction(
+      input({ baselinePrice: null }),
+      pathOf(Array.from({ length: 31 }, (_, i) => 50 + i)),
+      afterExpiry
+    );
+
+    expect(result.baselinePrice).toBe(50);
+    expect(result.outcome).toBe('CORRECT');
+  });
+
+  test('should report insufficient data when the expiry close is stale', () => {
+    const result = evaluatePrediction(input(), pathOf([100, 101, 102]), afterExpiry);
+
+    expect(result.outcome).toBe('PENDING');
+    expect(result.rule).toBe('INSUFFICIENT_DATA');
+  });
+});
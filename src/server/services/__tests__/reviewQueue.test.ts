@@ -0,0 +1,136 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { UnifiedPrediction } from '../extraction';
+import { ReviewQueueService, locateQuote, timestampAt, videoLink } from '../reviewQueue';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    predictionReview: { findUnique: vi.fn(), updateMany: vi.fn(), update: vi.fn(), findMany: vi.fn() },
+    event: { create: vi.fn() },
+  },
+}));
+
+const storePredictions = vi.hoisted(() => vi.fn());
+
+vi.mock('../../db', () => db);
+
+vi.mock('../extraction', () => ({
+  UnifiedExtractionService: Object.assign(
+    vi.fn(() => ({ storePredictions })),
+    { MIN_QUALITY_SCORE: 60 }
+  ),
+  predictionProvenance: vi.fn(() => ({ model: 'test' })),
+}));
+
+const transcript = `Intro music. Welcome back.   Today I think
+Bitcoin goes to 150k by next summer. Thanks for watching.`;
+
+const candidate = {
+  asset: { symbol: 'BTC', fullName: 'Bitcoin', type: 'CRYPTO', dataSource: 'binance', confidence: 40 },
+  prediction: { text: 'Bitcoin to 150k', direction: 'bullish', timeframe: 'next summer', targetPrice: 150000, confidence: 30 },
+  context: { exactQuote: 'Bitcoin goes to 150k', reasoning: '', marketFactors: [], technicalIndicators: [], fundamentalPoints: [] },
+  metadata: { modelUsed: 'test', qualityScore: 55 },
+} as unknown as UnifiedPrediction;
+
+const review = {
+  id: 'r1',
+  forecasterId: 'f1',
+  contentId: 'c1',
+  candidate,
+  source: { type: 'youtube', url: 'https://youtube.com/watch?v=abc' },
+  qualityScore: 55,
+  status: 'PENDING',
+  edits: null,
+};
+
+describe('transcript location', () => {
+  test('should find the quote across collapsed whitespace and map it to a timestamp', () => {
+    const position = locateQuote(transcript, 'today i think bitcoin goes');
+
+    expect(transcript.slice(position!.start, position!.end)).toBe('Today I think\nBitcoin goes');
+
+    const segments = [
+      { start: 0, end: 4, text: 'Intro music.' },
+      { start: 4, end: 9, text: 'Welcome back.' },
+      { start: 9, end: 15, text: 'Today I think\nBitcoin goes to 150k by next summer.' },
+    ];
+    expect(timestampAt(transcript, segments, position!.start)).toBe(9);
+    expect(timestampAt(transcript, undefined, position!.start)).toBeNull();
+  });
+
+  test('should ignore a position hint that does not contain the quote', () => {
+    const position = locateQuote(transcript, 'Bitcoin goes to 150k', { start: 0, end: 10 });
+
+    expect(transcript.slice(position!.start, position!.end)).toBe('Bitcoin goes to 150k');
+  });
+
+  test('should deep-link YouTube sources only', () => {
+    expect(videoLink('https://youtube.com/watch?v=abc', 125.7)).toBe('https://youtube.com/watch?v=abc&t=125s');
+    expect(videoLink('https://x.com/user/status/1', 30)).toBe('https://x.com/user/status/1');
+  });
+});
+
+describe('ReviewQueueService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('should store an approved prediction with the reviewer edits and log the decision', async () => {
+    db.prisma.predictionReview.findUnique.mockResolvedValue(review);
+    db.prisma.predictionReview.updateMany.mockResolvedValue({ count: 1 });
+    storePredictions.mockResolvedValue(['p1']);
+
+    const result = await new ReviewQueueService().approve('r1', 'admin', { direction: 'bearish', targetPrice: 90000 });
+
+    expect(result).toEqual({ predictionId: 'p1' });
+    expect(storePredictions).toHaveBeenCalledWith(
+      [expect.objectContaining({ aiDirection: 'BEARISH', targetPrice: 90000, provenance: expect.objectContaining({ reviewId: 'r1' }) })],
+      'f1'
+    );
+    expect(db.prisma.predictionReview.update).toHaveBeenCalledWith({ where: { id: 'r1' }, data: { predictionId: 'p1' } });
+    expect(db.prisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'PREDICTION_REVIEW_APPROVED',
+        userId: 'admin',
+        data: expect.objectContaining({ edited: true, edits: { direction: 'bearish', targetPrice: 90000 } }),
+      }),
+    });
+  });
+
+  test('should refuse to decide an item twice', async () => {
+    db.prisma.predictionReview.findUnique.mockResolvedValue({ ...review, status: 'REJECTED' });
+    db.prisma.predictionReview.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(new ReviewQueueService().approve('r1', 'admin')).rejects.toThrow('already rejected');
+    expect(storePredictions).not.toHaveBeenCalled();
+  });
+
+  test('should return the item to the queue when storing fails', async () => {
+    db.prisma.predictionReview.findUnique.mockResolvedValue(review);
+    db.prisma.predictionReview.updateMany.mockResolvedValue({ count: 1 });
+    storePredictions.mockResolvedValue([]);
+
+    await expect(new ReviewQueueService().approve('r1', 'admin')).rejects.toThrow('Failed to store');
+    expect(db.prisma.predictionReview.update).toHaveBeenCalledWith({
+      where: { id: 'r1' },
+      data: expect.objectContaining({ status: 'PENDING' }),
+    });
+  });
+
+  test('should draft golden cases from decisions, applying corrections', async () => {
+    const content = { id: 'c1', sourceId: 'abc', data: { title: 'BTC outlook', transcript, publishedAt: '2025-03-01T10:00:00Z' }, createdAt: new Date() };
+    db.prisma.predictionReview.findMany.mockResolvedValue([
+      { ...review, status: 'APPROVED', edits: { targetDate: '2025-08-31' }, content },
+      { ...review, id: 'r2', status: 'REJECTED', candidate: { ...candidate, asset: { ...candidate.asset, symbol: 'ETH' } }, content },
+    ]);
+
+    const cases = await new ReviewQueueService().goldenCases();
+
+    expect(cases).toHaveLength(1);
+    expect(cases[0]).toMatchObject({
+      id: 'review-c1',
+      publishedAt: '2025-03-01',
+      expected: [{ asset: 'BTC', direction: 'bullish', targetPrice: 150000, targetDate: '2025-08-31' }],
+      rejected: [{ asset: 'ETH' }],
+    });
+  });
+});
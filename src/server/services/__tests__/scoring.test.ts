@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'vitest';
+import {
+  brierScore,
+  directionalProbabilities,
+  multiCategoryBrierScore,
+  murphyDecomposition,
+  normalizeOutcome,
+  outcomeValue,
+} from '../scoring';
+
+describe('normalizeOutcome', () => {
+  test('should map legacy PARTIAL onto PARTIALLY_CORRECT', () => {
+    expect(normalizeOutcome('PARTIAL')).toBe('PARTIALLY_CORRECT');
+    expect(normalizeOutcome('partially correct')).toBe('PARTIALLY_CORRECT');
+    expect(normalizeOutcome('PARTIALLY_CORRECT')).toBe('PARTIALLY_CORRECT');
+  });
+
+  test('should treat unknown values as PENDING', () => {
+    expect(normalizeOutcome(undefined)).toBe('PENDING');
+    expect(normalizeOutcome('SOMETHING_ELSE')).toBe('PENDING');
+  });
+});
+
+describe('outcomeValue', () => {
+  test('should credit partial outcomes with the configured amount', () => {
+    expect(outcomeValue('CORRECT')).toBe(1);
+    expect(outcomeValue('INCORRECT')).toBe(0);
+    expect(outcomeValue('PARTIAL')).toBe(0.5);
+    expect(outcomeValue('PARTIALLY_CORRECT', 0.25)).toBe(0.25);
+    expect(outcomeValue('PENDING')).toBeNull();
+  });
+});
+
+describe('brierScore', () => {
+  test('should average squared errors', () => {
+    expect(brierScore([])).toBeNull();
+    expect(brierScore([
+      { probability: 0.8, outcome: 1 },
+      { probability: 0.6, outcome: 0 },
+    ])).toBeCloseTo((0.04 + 0.36) / 2);
+  });
+});
+
+describe('multiCategoryBrierScore', () => {
+  test('should score a confident correct call near zero and a confident wrong call near two', () => {
+    expect(multiCategoryBrierScore({ BULLISH: 1, BEARISH: 0, NEUTRAL: 0 }, 'BULLISH')).toBe(0);
+    expect(multiCategoryBrierScore({ BULLISH: 1, BEARISH: 0, NEUTRAL: 0 }, 'BEARISH')).toBe(2);
+  });
+
+  test('should spread directional confidence over the other categories', () => {
+    const probabilities = directionalProbabilities('BEARISH', 0.7);
+    expect(probabilities.BEARISH).toBeCloseTo(0.7);
+    expect(probabilities.BULLISH).toBeCloseTo(0.15);
+    expect(probabilities.NEUTRAL).toBeCloseTo(0.15);
+  });
+});
+
+describe('murphyDecomposition', () => {
+  test('should satisfy BS = reliability - resolution + uncertainty for binned forecasts', () => {
+    const forecasts = [
+      { probability: 0.9, outcome: 1 },
+      { probability: 0.9, outcome: 1 },
+      { probability: 0.9, outcome: 0 },
+      { probability: 0.3, outcome: 0 },
+      { probability: 0.3, outcome: 1 },
+      { probability: 0.3, outcome: 0 },
+    ];
+
+    const result = murphyDecomposition(forecasts)!;
+
+    expect(result.sampleSize).toBe(6);
+    expect(result.baseRate).toBeCloseTo(0.5);
+    expect(result.uncertainty).toBeCloseTo(0.25);
+    expect(result.reliability - result.resolution + result.uncertainty).toBeCloseTo(result.brierScore);
+  });
+
+  test('should return null without forecasts', () => {
+    expect(murphyDecomposition([])).toBeNull();
+  });
+});
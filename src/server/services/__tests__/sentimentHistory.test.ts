@@ -0,0 +1,134 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { mapScoreToMarketContext } from '../marketSentiment';
+import { SentimentHistoryService, parseFearGreedHistory, readingOn, summarizeByRegime, utcDay } from '../sentimentHistory';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    marketSentimentDay: { findFirst: vi.fn(), findMany: vi.fn(), createMany: vi.fn(), deleteMany: vi.fn() },
+    prediction: { findMany: vi.fn(), updateMany: vi.fn() },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+vi.mock('../../db', () => db);
+vi.mock('axios', () => ({ default: { get: vi.fn() } }));
+
+const at = (iso: string) => Math.floor(new Date(iso).getTime() / 1000).toString();
+
+describe('mapScoreToMarketContext', () => {
+  test('should bucket scores at the published boundaries', () => {
+    expect(mapScoreToMarketContext(0)).toBe('EXTREME_FEAR');
+    expect(mapScoreToMarketContext(24)).toBe('EXTREME_FEAR');
+    expect(mapScoreToMarketContext(25)).toBe('FEAR');
+    expect(mapScoreToMarketContext(50)).toBe('NEUTRAL');
+    expect(mapScoreToMarketContext(74)).toBe('GREED');
+    expect(mapScoreToMarketContext(75)).toBe('EXTREME_GREED');
+  });
+});
+
+describe('parseFearGreedHistory', () => {
+  test('should parse string values into one reading per UTC day, newest first', () => {
+    const readings = parseFearGreedHistory({
+      data: [
+        { value: '20', value_classification: 'Extreme Fear', timestamp: at('2025-03-01T00:00:00Z') },
+        { value: '80', value_classification: 'Extreme Greed', timestamp: at('2025-03-03T00:00:00Z') },
+        { value: '81', value_classification: 'Extreme Greed', timestamp: at('2025-03-03T12:00:00Z') },
+        { value: 'n/a', value_classification: 'Unknown', timestamp: at('2025-03-02T00:00:00Z') },
+      ],
+    });
+
+    expect(readings).toEqual([
+      { day: new Date('2025-03-03'), score: 80, classification: 'Extreme Greed', regime: 'EXTREME_GREED' },
+      { day: new Date('2025-03-01'), score: 20, classification: 'Extreme Fear', regime: 'EXTREME_FEAR' },
+    ]);
+  });
+});
+
+describe('readingOn', () => {
+  const readings = new Map([[utcDay(new Date('2025-03-07')).getTime(), 'friday']]);
+
+  test('should carry a reading over a weekend gap but not indefinitely', () => {
+    expect(readingOn(readings, new Date('2025-03-07T23:59:00Z'))).toBe('friday');
+    expect(readingOn(readings, new Date('2025-03-10T09:00:00Z'))).toBe('friday');
+    expect(readingOn(readings, new Date('2025-03-11T09:00:00Z'))).toBeNull();
+    expect(readingOn(readings, new Date('2025-03-06T09:00:00Z'))).toBeNull();
+  });
+});
+
+describe('summarizeByRegime', () => {
+  test('should list every regime and count partial calls as accurate', () => {
+    const summary = summarizeByRegime([
+      { regime: 'FEAR', outcome: 'CORRECT', count: 2 },
+      { regime: 'FEAR', outcome: 'PARTIALLY_CORRECT', count: 1 },
+      { regime: 'FEAR', outcome: 'INCORRECT', count: 1 },
+      { regime: 'FEAR', outcome: 'PENDING', count: 5 },
+      { regime: 'GREED', outcome: 'PENDING', count: 3 },
+    ]);
+
+    expect(summary.map(s => s.regime)).toEqual(['EXTREME_FEAR', 'FEAR', 'NEUTRAL', 'GREED', 'EXTREME_GREED']);
+    expect(summary[1]).toEqual({ regime: 'FEAR', total: 9, correct: 2, partiallyCorrect: 1, incorrect: 1, pending: 5, accuracy: 75 });
+    expect(summary[3]).toMatchObject({ total: 3, accuracy: null });
+  });
+});
+
+describe('SentimentHistoryService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.prisma.marketSentimentDay.createMany.mockImplementation(({ data }) => Promise.resolve({ count: data.length }));
+    db.prisma.marketSentimentDay.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  test('should replace stored days with API readings', async () => {
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      data: { data: [{ value: '40', value_classification: 'Fear', timestamp: at('2025-03-03T00:00:00Z') }] },
+    });
+
+    const result = await new SentimentHistoryService().backfill({ days: 7 });
+
+    expect(axios.get).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ params: { limit: 7, format: 'json' } }));
+    expect(result).toMatchObject({ source: 'alternative.me', fetched: 1, stored: 1 });
+    expect(db.prisma.marketSentimentDay.deleteMany).toHaveBeenCalledWith({ where: { day: { in: [new Date('2025-03-03')] } } });
+    expect(db.prisma.marketSentimentDay.createMany).toHaveBeenCalledWith({
+      data: [{ day: new Date('2025-03-03'), score: 40, classification: 'Fear', regime: 'FEAR', source: 'alternative.me' }],
+    });
+  });
+
+  test('should fall back to the fixture without overwriting stored days when the API is down', async () => {
+    vi.mocked(axios.get).mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND api.alternative.me'));
+
+    const result = await new SentimentHistoryService().backfill({ days: 30 });
+
+    expect(result).toMatchObject({ source: 'fixture', fetched: 30 });
+    expect(db.prisma.marketSentimentDay.deleteMany).not.toHaveBeenCalled();
+    expect(db.prisma.marketSentimentDay.createMany).toHaveBeenCalledWith(
+      expect.objectContaining({ skipDuplicates: true, data: expect.arrayContaining([expect.objectContaining({ source: 'fixture' })]) })
+    );
+  });
+
+  test('should tag untagged predictions with the reading on the day they were made', async () => {
+    db.prisma.prediction.findMany.mockResolvedValueOnce([
+      { id: 'p1', createdAt: new Date('2025-03-03T15:00:00Z') },
+      { id: 'p2', createdAt: new Date('2025-03-03T20:00:00Z') },
+      { id: 'p3', createdAt: new Date('2025-03-04T08:00:00Z') },
+      { id: 'p4', createdAt: new Date('2024-01-01T08:00:00Z') },
+    ]);
+    db.prisma.marketSentimentDay.findMany.mockResolvedValueOnce([
+      { day: new Date('2025-03-03'), score: 30, regime: 'FEAR' },
+      { day: new Date('2025-03-04'), score: 60, regime: 'GREED' },
+    ]);
+    db.prisma.prediction.updateMany.mockImplementation(({ where }) => Promise.resolve({ count: where.id.in.length }));
+
+    const tagged = await new SentimentHistoryService().tagPredictions(10);
+
+    expect(tagged).toBe(3);
+    expect(db.prisma.prediction.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['p1', 'p2'] } },
+      data: { marketRegime: 'FEAR', sentimentScore: 30 },
+    });
+    expect(db.prisma.prediction.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['p3'] } },
+      data: { marketRegime: 'GREED', sentimentScore: 60 },
+    });
+  });
+});
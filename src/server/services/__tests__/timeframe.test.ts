@@ -0,0 +1,127 @@
+import { describe, test, expect, vi } from 'vitest';
+import { parseTimeframe, resolveTimeframe } from '../timeframe';
+import { TimeframeBackfillService } from '../timeframeBackfill';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    prediction: { findMany: vi.fn(), update: vi.fn() },
+    content: { findMany: vi.fn() },
+    event: { create: vi.fn() },
+  },
+}));
+
+vi.mock('../../db', () => db);
+
+// A Tuesday
+const publishedAt = new Date('2025-04-15T18:30:00Z');
+
+function targetOf(text: string) {
+  return parseTimeframe(text, publishedAt).targetDate;
+}
+
+describe('parseTimeframe', () => {
+  test('should resolve quarters and halves, rolling past periods into next year', () => {
+    expect(targetOf('by end of Q2')).toBe('2025-06-30');
+    expect(targetOf('Q1')).toBe('2026-03-31');
+    expect(targetOf("in Q3 '26")).toBe('2026-09-30');
+    expect(targetOf('second half of 2025')).toBe('2025-12-31');
+    expect(targetOf('next quarter')).toBe('2025-09-30');
+  });
+
+  test('should resolve relative durations from the publication date', () => {
+    expect(targetOf('in 3 weeks')).toBe('2025-05-06');
+    expect(targetOf('within the next six months')).toBe('2025-10-15');
+    expect(targetOf('over the next couple of years')).toBe('2027-04-15');
+    expect(parseTimeframe('in a few weeks', publishedAt).confidence).toBeLessThan(
+      parseTimeframe('in 3 weeks', publishedAt).confidence
+    );
+  });
+
+  test('should resolve calendar phrases', () => {
+    expect(targetOf('end of the year')).toBe('2025-12-31');
+    expect(targetOf('end of next year')).toBe('2026-12-31');
+    expect(targetOf('by March')).toBe('2026-03-31');
+    expect(targetOf('by mid June')).toBe('2025-06-15');
+    expect(targetOf('by 2027')).toBe('2027-12-31');
+    expect(targetOf('end of the week')).toBe('2025-04-20');
+    expect(targetOf('on July 4th, 2025')).toBe('2025-07-04');
+  });
+
+  test('should prefer the most specific phrase in longer text', () => {
+    const result = parseTimeframe('Long term I am bullish, but I see ETH at 5k by the end of Q3 2025', publishedAt);
+
+    expect(result).toMatchObject({ status: 'RESOLVED', targetDate: '2025-09-30', rule: 'quarter' });
+  });
+
+  test('should mark vague, past and missing horizons as unresolvable', () => {
+    expect(parseTimeframe('next cycle', publishedAt)).toMatchObject({ status: 'UNRESOLVABLE', rule: 'vague', targetDate: null });
+    expect(parseTimeframe('by 2020', publishedAt)).toMatchObject({ status: 'UNRESOLVABLE', rule: 'past' });
+    expect(parseTimeframe('breaking the 200 day moving average', publishedAt)).toMatchObject({ status: 'UNRESOLVABLE', rule: 'none' });
+    expect(parseTimeframe('drops by 2050 points', publishedAt).status).toBe('UNRESOLVABLE');
+  });
+});
+
+describe('resolveTimeframe', () => {
+  test('should keep a usable model date and record the phrase', () => {
+    expect(resolveTimeframe({ timeframe: 'end of year', targetDate: '2025-12-31' }, publishedAt)).toMatchObject({
+      status: 'RESOLVED',
+      source: 'model',
+      targetDate: '2025-12-31',
+      text: 'end of year',
+    });
+  });
+
+  test('should parse the phrase when the model date precedes publication', () => {
+    const result = resolveTimeframe({ timeframe: 'in 2 months', targetDate: '2024-06-15' }, publishedAt);
+
+    expect(result).toMatchObject({ source: 'parser', targetDate: '2025-06-15', reference: '2025-04-15' });
+  });
+
+  test('should fall back to the prediction text and keep the vague reason', () => {
+    expect(resolveTimeframe({ timeframe: '', text: 'SOL flips ETH by the end of the year' }, publishedAt).targetDate).toBe('2025-12-31');
+    expect(resolveTimeframe({ timeframe: 'next cycle', text: 'BTC to 250k' }, publishedAt)).toMatchObject({
+      status: 'UNRESOLVABLE',
+      rule: 'vague',
+      text: 'next cycle',
+    });
+  });
+});
+
+describe('TimeframeBackfillService', () => {
+  test('should date predictions from their content publication and skip known unresolvables', async () => {
+    db.prisma.prediction.findMany.mockResolvedValueOnce([
+      {
+        id: 'p1',
+        prediction: 'ETH to 8k in 3 months',
+        metadata: { source: { url: 'https://youtube.com/watch?v=a' }, extraction: { model: 'm' } },
+        createdAt: new Date('2025-06-01T00:00:00Z'),
+      },
+      {
+        id: 'p2',
+        prediction: 'BTC to 250k next cycle',
+        metadata: { extraction: { timeframe: { status: 'UNRESOLVABLE', text: 'next cycle' } } },
+        createdAt: new Date('2025-06-01T00:00:00Z'),
+      },
+    ]);
+    db.prisma.content.findMany.mockResolvedValueOnce([
+      { id: 'c1', sourceUrl: 'https://youtube.com/watch?v=a', data: { publishedAt: '2025-01-10T12:00:00Z' }, createdAt: new Date() },
+    ]);
+
+    const result = await new TimeframeBackfillService().backfill({ batchSize: 10 });
+
+    expect(result).toMatchObject({ scanned: 2, resolved: 1, skipped: 1 });
+    expect(db.prisma.prediction.update).toHaveBeenCalledTimes(1);
+    expect(db.prisma.prediction.update).toHaveBeenCalledWith({
+      where: { id: 'p1' },
+      data: expect.objectContaining({
+        targetDate: new Date('2025-04-10'),
+        metadata: expect.objectContaining({
+          extraction: expect.objectContaining({ model: 'm', timeframe: expect.objectContaining({ reference: '2025-01-10' }) }),
+        }),
+      }),
+    });
+    expect(db.prisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'PREDICTION_TIMEFRAMES_BACKFILLED' }),
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHmac } from 'crypto';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { Job } from '@prisma/client';
+import type { JobQueue } from '../jobQueue';
+import {
+  WEBHOOK_DELIVERY_JOB,
+  WebhookService,
+  matchesWebhookFilters,
+  signWebhookPayload,
+  validateWebhookUrl,
+} from '../webhooks';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    webhookEndpoint: { findMany: vi.fn(), findFirst: vi.fn(), count: vi.fn(), create: vi.fn(), update: vi.fn(), delete: vi.fn() },
+    webhookDelivery: { findMany: vi.fn(), findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+    event: { findMany: vi.fn() },
+    prediction: { findMany: vi.fn() },
+  },
+}));
+
+const dns = vi.hoisted(() => ({ lookup: vi.fn() }));
+
+vi.mock('../../db', () => db);
+vi.mock('dns', async importOriginal => ({ ...(await importOriginal<typeof import('dns')>()), lookup: dns.lookup }));
+
+const now = new Date('2025-03-15T12:00:00Z');
+
+function queue() {
+  return { enqueue: vi.fn().mockResolvedValue({ id: 'job' }) } as unknown as JobQueue & { enqueue: ReturnType<typeof vi.fn> };
+}
+
+function job(attempts: number, maxAttempts = 6) {
+  return { id: 'j1', type: WEBHOOK_DELIVERY_JOB, payload: { deliveryId: 'd1' }, attempts, maxAttempts } as unknown as Job;
+}
+
+const endpoint = {
+  id: 'w1',
+  eventTypes: ['prediction.created', 'ranking.changed'],
+  forecasterIds: [],
+  assetIds: [],
+  createdAt: new Date('2025-03-01T00:00:00Z'),
+};
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+let server: Server | null = null;
+
+// Local receiver; deliveries may reach private addresses outside production
+async function receiver(status: number, reply: string): Promise<{ url: string; received: Received[] }> {
+  const received: Received[] = [];
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(status).end(reply);
+    });
+  });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/in`, received };
+}
+
+function event(id: string, type: string, entityType: string, entityId: string, createdAt = now) {
+  return { id, type, entityType, entityId, data: { rank: 3 }, createdAt };
+}
+
+describe('signWebhookPayload', () => {
+  test('should sign the timestamp and body together', () => {
+    const expected = createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+
+    expect(signWebhookPayload('whsec_test', '{"a":1}', 1700000000)).toBe(`t=1700000000,v1=${expected}`);
+    expect(signWebhookPayload('whsec_test', '{"a":2}', 1700000000)).not.toBe(`t=1700000000,v1=${expected}`);
+  });
+});
+
+describe('matchesWebhookFilters', () => {
+  const filters = { eventTypes: ['prediction.created'], forecasterIds: ['f1'], assetIds: ['a1'] };
+
+  test('should require the event type and every non-empty filter', () => {
+    expect(matchesWebhookFilters(filters, { eventType: 'prediction.created', forecasterId: 'f1', assetId: 'a1' })).toBe(true);
+    expect(matchesWebhookFilters(filters, { eventType: 'prediction.validated', forecasterId: 'f1', assetId: 'a1' })).toBe(false);
+    expect(matchesWebhookFilters(filters, { eventType: 'prediction.created', forecasterId: 'f2', assetId: 'a1' })).toBe(false);
+    expect(matchesWebhookFilters(filters, { eventType: 'prediction.created', forecasterId: 'f1', assetId: 'a2' })).toBe(false);
+  });
+
+  test('should not narrow events without an asset by the asset filter', () => {
+    expect(
+      matchesWebhookFilters({ ...filters, eventTypes: ['ranking.changed'] }, { eventType: 'ranking.changed', forecasterId: 'f1', assetId: null })
+    ).toBe(true);
+  });
+});
+
+describe('validateWebhookUrl', () => {
+  test('should require https and a public host in production', () => {
+    expect(validateWebhookUrl('https://hooks.example.com/in', false).hostname).toBe('hooks.example.com');
+    expect(() => validateWebhookUrl('http://hooks.example.com/in', false)).toThrow('https');
+    expect(() => validateWebhookUrl('https://127.0.0.1/in', false)).toThrow('publicly reachable');
+    expect(() => validateWebhookUrl('https://192.168.1.10/in', false)).toThrow('publicly reachable');
+    expect(() => validateWebhookUrl('https://[::1]/in', false)).toThrow('publicly reachable');
+    expect(() => validateWebhookUrl('https://[::ffff:127.0.0.1]/in', false)).toThrow('publicly reachable');
+    expect(() => validateWebhookUrl('https://100.64.0.1/in', false)).toThrow('publicly reachable');
+    expect(() => validateWebhookUrl('https://169.254.169.254/latest', false)).toThrow('publicly reachable');
+    expect(() => validateWebhookUrl('not a url', false)).toThrow('valid URL');
+  });
+
+  test('should allow local http receivers outside production', () => {
+    expect(validateWebhookUrl('http://localhost:4000/in', true).port).toBe('4000');
+  });
+});
+
+describe('WebhookService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.prisma.webhookDelivery.findMany.mockResolvedValue([]);
+    db.prisma.webhookDelivery.create.mockImplementation(({ data }) => Promise.resolve({ id: `d-${data.eventId}`, ...data }));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => (server ? server.close(resolve) : resolve(undefined)));
+    server = null;
+  });
+
+  test('should refuse webhooks to accounts without API access', async () => {
+    db.prisma.user.findUnique.mockResolvedValueOnce({ role: 'FREE' });
+
+    await expect(
+      new WebhookService(queue()).create('u1', { url: 'https://example.com', eventTypes: ['prediction.created'] })
+    ).rejects.toThrow('Premium plan');
+    expect(db.prisma.webhookEndpoint.create).not.toHaveBeenCalled();
+  });
+
+  test('should fan out matching events once per endpoint and enqueue a delivery job each', async () => {
+    const jobs = queue();
+    db.prisma.webhookEndpoint.findMany.mockResolvedValueOnce([
+      endpoint,
+      { ...endpoint, id: 'w2', eventTypes: ['prediction.created'], forecasterIds: ['f2'] },
+    ]);
+    db.prisma.event.findMany.mockResolvedValueOnce([
+      event('e1', 'PREDICTION_CREATED', 'PREDICTION', 'p1'),
+      event('e2', 'RANKING_CHANGED', 'FORECASTER', 'f1'),
+      event('e3', 'PREDICTION_VALIDATED', 'PREDICTION', 'p1'),
+    ]);
+    db.prisma.prediction.findMany.mockResolvedValueOnce([{ id: 'p1', forecasterId: 'f1', assetId: 'a1' }]);
+    // e1 already went to w1 in an earlier run
+    db.prisma.webhookDelivery.findMany.mockResolvedValueOnce([{ endpointId: 'w1', eventId: 'e1' }]);
+
+    const result = await new WebhookService(jobs).fanOut(now);
+
+    expect(result).toEqual({ events: 3, queued: 1 });
+    expect(db.prisma.webhookEndpoint.findMany.mock.calls[0]![0].where).toEqual({ isActive: true, user: { status: 'ACTIVE' } });
+    expect(db.prisma.webhookDelivery.create).toHaveBeenCalledTimes(1);
+    expect(db.prisma.webhookDelivery.create).toHaveBeenCalledWith({
+      data: {
+        endpointId: 'w1',
+        eventId: 'e2',
+        eventType: 'ranking.changed',
+        payload: {
+          id: 'e2',
+          type: 'ranking.changed',
+          createdAt: now.toISOString(),
+          data: { rank: 3, forecasterId: 'f1' },
+        },
+      },
+    });
+    expect(jobs.enqueue).toHaveBeenCalledWith(WEBHOOK_DELIVERY_JOB, { deliveryId: 'd-e2' }, { maxAttempts: 6 });
+  });
+
+  test('should page through the whole lookback window', async () => {
+    const first = Array.from({ length: 500 }, (_, i) => event(`e${String(i).padStart(3, '0')}`, 'RANKING_CHANGED', 'FORECASTER', 'f1'));
+    db.prisma.webhookEndpoint.findMany.mockResolvedValueOnce([endpoint]);
+    db.prisma.event.findMany
+      .mockResolvedValueOnce(first)
+      .mockResolvedValueOnce([event('e500', 'RANKING_CHANGED', 'FORECASTER', 'f1')]);
+
+    const result = await new WebhookService(queue()).fanOut(now);
+
+    expect(result).toEqual({ events: 501, queued: 501 });
+    expect(db.prisma.event.findMany).toHaveBeenCalledTimes(2);
+    expect(db.prisma.event.findMany.mock.calls[0]![0].where.OR).toBeUndefined();
+    expect(db.prisma.event.findMany.mock.calls[1]![0].where.OR).toEqual([
+      { createdAt: { gt: now } },
+      { createdAt: now, id: { gt: 'e499' } },
+    ]);
+    expect(db.prisma.webhookDelivery.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ endpointId: 'w1', eventId: 'e500' }),
+    });
+  });
+
+  test('should skip events raised before an endpoint was created', async () => {
+    db.prisma.webhookEndpoint.findMany.mockResolvedValueOnce([{ ...endpoint, createdAt: now }]);
+    db.prisma.event.findMany.mockResolvedValueOnce([
+      event('e1', 'RANKING_CHANGED', 'FORECASTER', 'f1', new Date(now.getTime() - 1000)),
+    ]);
+    db.prisma.prediction.findMany.mockResolvedValueOnce([]);
+
+    const result = await new WebhookService(queue()).fanOut(now);
+
+    expect(result.queued).toBe(0);
+    expect(db.prisma.webhookDelivery.create).not.toHaveBeenCalled();
+  });
+
+  test('should send a signed POST and mark the delivery delivered', async () => {
+    const { url, received } = await receiver(200, 'ok');
+    db.prisma.webhookDelivery.findUnique.mockResolvedValueOnce({
+      id: 'd1',
+      eventType: 'prediction.created',
+      status: 'PENDING',
+      payload: { id: 'e1' },
+      endpoint: { url, secret: 'whsec_test', isActive: true },
+    });
+
+    await new WebhookService(queue()).deliver(job(1), now);
+
+    expect(received).toHaveLength(1);
+    expect(received[0]!.body).toBe('{"id":"e1"}');
+    expect(received[0]!.headers['x-webhook-signature']).toBe(signWebhookPayload('whsec_test', '{"id":"e1"}', now.getTime() / 1000));
+    expect(db.prisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: expect.objectContaining({ status: 'DELIVERED', responseStatus: 200, error: null, deliveredAt: now }),
+    });
+  });
+
+  test('should throw so the queue retries, and mark the delivery failed on the last attempt', async () => {
+    const { url } = await receiver(500, 'nope');
+    const delivery = {
+      id: 'd1',
+      eventType: 'prediction.created',
+      status: 'RETRYING',
+      payload: {},
+      endpoint: { url, secret: 'whsec_test', isActive: true },
+    };
+    db.prisma.webhookDelivery.findUnique.mockResolvedValue(delivery);
+    const service = new WebhookService(queue());
+
+    await expect(service.deliver(job(2), now)).rejects.toThrow('HTTP 500');
+    expect(db.prisma.webhookDelivery.update).toHaveBeenLastCalledWith({
+      where: { id: 'd1' },
+      data: expect.objectContaining({ status: 'RETRYING', responseStatus: 500, responseBody: 'nope' }),
+    });
+
+    await expect(service.deliver(job(6), now)).rejects.toThrow('HTTP 500');
+    expect(db.prisma.webhookDelivery.update).toHaveBeenLastCalledWith({
+      where: { id: 'd1' },
+      data: expect.objectContaining({ status: 'FAILED' }),
+    });
+  });
+
+  test('should refuse receivers that resolve to a private address in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    dns.lookup.mockImplementation((_hostname, _options, callback) => callback(null, [{ address: '10.0.0.5', family: 4 }]));
+    db.prisma.webhookDelivery.findUnique.mockResolvedValueOnce({
+      id: 'd1',
+      eventType: 'prediction.created',
+      status: 'PENDING',
+      payload: {},
+      endpoint: { url: 'https://hooks.example.com/in', secret: 'whsec_test', isActive: true },
+    });
+
+    await expect(new WebhookService(queue()).deliver(job(1), now)).rejects.toThrow('does not resolve to a public address');
+    expect(dns.lookup).toHaveBeenCalledWith('hooks.example.com', expect.objectContaining({ all: true }), expect.any(Function));
+    expect(db.prisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: expect.objectContaining({ status: 'RETRYING', responseStatus: null }),
+    });
+  });
+
+  test('should cancel deliveries for paused endpoints without sending', async () => {
+    const { url, received } = await receiver(200, 'ok');
+    db.prisma.webhookDelivery.findUnique.mockResolvedValueOnce({
+      id: 'd1',
+      eventType: 'prediction.created',
+      status: 'PENDING',
+      payload: {},
+      endpoint: { url, secret: 'whsec_test', isActive: false },
+    });
+
+    await new WebhookService(queue()).deliver(job(1), now);
+
+    expect(received).toHaveLength(0);
+    expect(db.prisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: { status: 'CANCELLED', error: 'Endpoint disabled' },
+    });
+  });
+
+  test('should queue a test event for an owned endpoint only', async () => {
+    const jobs = queue();
+    db.prisma.webhookEndpoint.findFirst.mockResolvedValueOnce({ id: 'w1' }).mockResolvedValueOnce(null);
+    db.prisma.webhookDelivery.create.mockResolvedValueOnce({ id: 'd9' });
+    const service = new WebhookService(jobs);
+
+    await expect(service.sendTest('u1', 'w1')).resolves.toEqual({ id: 'd9' });
+    expect(db.prisma.webhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ endpointId: 'w1', eventType: 'webhook.test' }),
+    });
+    expect(jobs.enqueue).toHaveBeenCalledWith(WEBHOOK_DELIVERY_JOB, { deliveryId: 'd9' }, { maxAttempts: 6 });
+
+    await expect(service.sendTest('u2', 'w1')).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,266 @@
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "../db";
+import { RateLimiter, securityConfig } from "../security";
+import { utcDay } from "./sentimentHistory";
+
+export const API_SCOPES = ["forecasters:read", "predictions:read", "rankings:read", "consensus:read"] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+// Per key. Limits follow the account's role at request time, so a lapsed subscription stops its keys
+export const API_PLANS: Record<string, { perMinute: number; monthly: number }> = {
+  PREMIUM: { perMinute: 60, monthly: 50_000 },
+  ADMIN: { perMinute: 300, monthly: 1_000_000 },
+};
+
+const KEY_PREFIX = "opk_";
+// Characters of the key kept in the clear so users can tell keys apart
+const VISIBLE_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+const MAX_ACTIVE_KEYS = 5;
+const MINUTE_MS = 60 * 1000;
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export type ApiAccess =
+  | {
+      allowed: true;
+      apiKeyId: string;
+      userId: string;
+      rate: { limit: number; remaining: number; resetIn: number };
+      quota: { limit: number; remaining: number };
+    }
+  | {
+      allowed: false;
+      status: 401 | 403 | 429;
+      error: string;
+      retryAfter?: number;
+    };
+
+export interface ApiUsage {
+  plan: { perMinute: number; monthly: number } | null;
+  monthStart: Date;
+  requests: number;
+  rejected: number;
+  keys: Array<{ id: string; name: string; prefix: string; requests: number; rejected: number; revoked: boolean }>;
+  daily: Array<{ day: Date; requests: number; rejected: number }>;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, prefix: key.slice(0, VISIBLE_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+export function monthStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+const summarySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Per-minute limits for API keys. Separate from the tRPC limiter so key
+ * quotas hold whether or not ENABLE_RATE_LIMITING is set for the web app.
+ */
+export function createApiKeyLimiter(): RateLimiter {
+  return new RateLimiter({ ...securityConfig.rateLimiting, enabled: true, whitelistedIps: [] });
+}
+
+/**
+ * User-managed keys for the public REST API, with scope checks, per-key
+ * rate limits and monthly quotas metered per day
+ */
+export class ApiKeyService {
+  constructor(private limiter: RateLimiter = createApiKeyLimiter()) {}
+
+  async list(userId: string): Promise<ApiKeySummary[]> {
+    return prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      select: summarySelect,
+    });
+  }
+
+  /**
+   * Create a key. The full key is only returned here; afterwards just its
+   * prefix is shown.
+   */
+  async create(userId: string, input: { name: string; scopes: ApiScope[] }): Promise<{ key: string; apiKey: ApiKeySummary }> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+    if (!user || !API_PLANS[user.role]) {
+      throw new Error("API keys are available on the Premium plan");
+    }
+
+    const active = await prisma.apiKey.count({ where: { userId, revokedAt: null } });
+    if (active >= MAX_ACTIVE_KEYS) {
+      throw new Error(`You can have at most ${MAX_ACTIVE_KEYS} active API keys; revoke one first`);
+    }
+
+    const scopes = API_SCOPES.filter(scope => input.scopes.includes(scope));
+    if (scopes.length === 0) {
+      throw new Error("Select at least one scope");
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+      data: { userId, name: input.name.trim(), prefix, keyHash, scopes },
+      select: summarySelect,
+    });
+
+    return { key, apiKey };
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error("API key not found");
+    }
+
+    this.limiter.reset(`apikey:${id}`);
+  }
+
+  /**
+   * Check a presented key for a scope and meter the request. Rejections
+   * from the limits are metered too, so users can see them in billing.
+   */
+  async authorize(rawKey: string, scope: ApiScope, now = new Date()): Promise<ApiAccess> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(rawKey) },
+      select: { id: true, userId: true, scopes: true, revokedAt: true, user: { select: { role: true, status: true } } },
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      return { allowed: false, status: 401, error: "Invalid or revoked API key" };
+    }
+
+    // Unverified, suspended and closing accounts keep their keys but can't use them
+    if (apiKey.user.status !== "ACTIVE") {
+      return { allowed: false, status: 403, error: "This API key's account is not active" };
+    }
+
+    const plan = API_PLANS[apiKey.user.role];
+    if (!plan) {
+      return { allowed: false, status: 403, error: "API access requires a Premium plan" };
+    }
+
+    if (!apiKey.scopes.includes(scope)) {
+      return { allowed: false, status: 403, error: `This key is missing the ${scope} scope` };
+    }
+
+    const rate = this.limiter.check(`apikey:${apiKey.id}`, { limit: plan.perMinute, window: MINUTE_MS, blockDuration: MINUTE_MS });
+    if (!rate.allowed) {
+      await this.meter(apiKey.id, now, "rejected");
+      return {
+        allowed: false,
+        status: 429,
+        error: `Rate limit of ${plan.perMinute} requests per minute exceeded`,
+        retryAfter: rate.retryAfter,
+      };
+    }
+
+    const used = await this.monthlyRequests(apiKey.id, now);
+    if (used >= plan.monthly) {
+      await this.meter(apiKey.id, now, "rejected");
+      const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+      return {
+        allowed: false,
+        status: 429,
+        error: `Monthly quota of ${plan.monthly} requests used`,
+        retryAfter: Math.ceil((nextMonth.getTime() - now.getTime()) / 1000),
+      };
+    }
+
+    await this.meter(apiKey.id, now, "requests");
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+
+    return {
+      allowed: true,
+      apiKeyId: apiKey.id,
+      userId: apiKey.userId,
+      rate: { limit: plan.perMinute, remaining: Math.max(0, plan.perMinute - rate.current), resetIn: rate.resetIn },
+      quota: { limit: plan.monthly, remaining: Math.max(0, plan.monthly - used - 1) },
+    };
+  }
+
+  /**
+   * This month's metered usage across all of a user's keys, revoked ones included
+   */
+  async usage(userId: string, now = new Date()): Promise<ApiUsage> {
+    const from = monthStart(now);
+    const [user, keys] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { role: true } }),
+      prisma.apiKey.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+        select: { id: true, name: true, prefix: true, revokedAt: true, usage: { where: { day: { gte: from } } } },
+      }),
+    ]);
+
+    const daily = new Map<number, { day: Date; requests: number; rejected: number }>();
+    for (const key of keys) {
+      for (const row of key.usage) {
+        const entry = daily.get(row.day.getTime()) ?? { day: row.day, requests: 0, rejected: 0 };
+        entry.requests += row.requests;
+        entry.rejected += row.rejected;
+        daily.set(row.day.getTime(), entry);
+      }
+    }
+
+    const perKey = keys.map(key => ({
+      id: key.id,
+      name: key.name,
+      prefix: key.prefix,
+      requests: key.usage.reduce((sum, row) => sum + row.requests, 0),
+      rejected: key.usage.reduce((sum, row) => sum + row.rejected, 0),
+      revoked: key.revokedAt !== null,
+    }));
+
+    return {
+      plan: (user && API_PLANS[user.role]) ?? null,
+      monthStart: from,
+      requests: perKey.reduce((sum, key) => sum + key.requests, 0),
+      rejected: perKey.reduce((sum, key) => sum + key.rejected, 0),
+      keys: perKey,
+      daily: [...daily.values()].sort((a, b) => a.day.getTime() - b.day.getTime()),
+    };
+  }
+
+  private async monthlyRequests(apiKeyId: string, now: Date): Promise<number> {
+    const { _sum } = await prisma.apiKeyUsage.aggregate({
+      where: { apiKeyId, day: { gte: monthStart(now) } },
+      _sum: { requests: true },
+    });
+
+    return _sum.requests ?? 0;
+  }
+
+  private async meter(apiKeyId: string, now: Date, field: "requests" | "rejected") {
+    const day = utcDay(now);
+    await prisma.apiKeyUsage.upsert({
+      where: { apiKeyId_day: { apiKeyId, day } },
+      create: { apiKeyId, day, [field]: 1 },
+      update: { [field]: { increment: 1 } },
+    });
+  }
+}
@@ -0,0 +1,480 @@
+export const ASSET_TYPES = ["CRYPTO", "STOCK", "ETF", "INDEX", "COMMODITY", "CURRENCY", "BOND", "OPTION", "FUTURE"] as const;
+export type AssetType = (typeof ASSET_TYPES)[number];
+
+// TICKER and NAME are what people say; PAIR and EXCHANGE are how venues list it
+export const ALIAS_KINDS = ["TICKER", "NAME", "PAIR", "EXCHANGE"] as const;
+export type AliasKind = (typeof ALIAS_KINDS)[number];
+
+export interface CatalogAlias {
+  alias: string;
+  kind: AliasKind;
+  priority: number;
+}
+
+export interface CatalogEntry {
+  assetId?: string;
+  symbol: string;
+  type: AssetType;
+  name: string | null;
+  aliases: CatalogAlias[];
+  // Words near a mention that point to this asset when an alias is shared
+  hints: string[];
+}
+
+export interface ResolveInput {
+  symbol: string;
+  name?: string | null;
+  // Type as claimed by the caller (e.g. the model); a hint, not a decision
+  type?: string | null;
+}
+
+export interface AssetResolution {
+  symbol: string;
+  type: AssetType;
+  name: string | null;
+  assetId: string | null;
+  confidence: number;
+  // catalog: one asset owns the alias; context: several did and the text decided;
+  // heuristic: not in the catalog, type guessed from the symbol's shape
+  method: "catalog" | "context" | "heuristic";
+  input: string;
+  alternatives: Array<{ symbol: string; type: AssetType }>;
+}
+
+export interface AssetMention extends AssetResolution {
+  matched: string;
+  index: number;
+}
+
+export interface NormalizedSymbol {
+  symbol: string;
+  // BINANCE from BINANCE:BTCUSDT
+  exchange: string | null;
+  // USDT from SOLUSDT; a stablecoin or perp quote means a crypto pair
+  quote: string | null;
+}
+
+interface DefaultAsset {
+  symbol: string;
+  type: AssetType;
+  name: string;
+  names?: string[];
+  tickers?: string[];
+  pairs?: string[];
+  listings?: string[];
+  hints?: string[];
+  // Preferred reading of a ticker another catalog asset shares
+  priority?: number;
+}
+
+/**
+ * Seed catalog. Admins extend it through AssetAlias rows; an asset with
+ * alias rows of its own stops inheriting these.
+ */
+const DEFAULT_ASSETS: DefaultAsset[] = [
+  // Crypto
+  { symbol: "BTC", type: "CRYPTO", name: "Bitcoin", names: ["bitcoin", "btc", "sats"], tickers: ["XBT"], pairs: ["XBTUSD"], hints: ["halving", "satoshi", "miners"] },
+  { symbol: "ETH", type: "CRYPTO", name: "Ethereum", names: ["ethereum", "ether"], hints: ["gas", "staking", "layer 2"] },
+  { symbol: "BNB", type: "CRYPTO", name: "BNB", names: ["binance coin"] },
+  { symbol: "SOL", type: "CRYPTO", name: "Solana", names: ["solana"], hints: ["memecoin", "phantom", "firedancer"], priority: 1 },
+  { symbol: "XRP", type: "CRYPTO", name: "XRP", names: ["ripple"], hints: ["sec lawsuit"] },
+  { symbol: "ADA", type: "CRYPTO", name: "Cardano", names: ["cardano"] },
+  { symbol: "DOGE", type: "CRYPTO", name: "Dogecoin", names: ["dogecoin", "doge coin"] },
+  { symbol: "AVAX", type: "CRYPTO", name: "Avalanche", names: ["avalanche"] },
+  { symbol: "DOT", type: "CRYPTO", name: "Polkadot", names: ["polkadot"], hints: ["parachain"] },
+  { symbol: "POL", type: "CRYPTO", name: "Polygon", names: ["polygon"], tickers: ["MATIC"] },
+  { symbol: "LINK", type: "CRYPTO", name: "Chainlink", names: ["chainlink"], hints: ["oracle", "oracles"], priority: 1 },
+  { symbol: "UNI", type: "CRYPTO", name: "Uniswap", names: ["uniswap"] },
+  { symbol: "LTC", type: "CRYPTO", name: "Litecoin", names: ["litecoin"] },
+  { symbol: "BCH", type: "CRYPTO", name: "Bitcoin Cash", names: ["bitcoin cash"] },
+  { symbol: "ATOM", type: "CRYPTO", name: "Cosmos", names: ["cosmos"] },
+  { symbol: "TRX", type: "CRYPTO", name: "TRON", names: ["tron"] },
+  { symbol: "XLM", type: "CRYPTO", name: "Stellar", names: ["stellar", "stellar lumens"] },
+  { symbol: "NEAR", type: "CRYPTO", name: "NEAR Protocol", names: ["near protocol"] },
+  { symbol: "SHIB", type: "CRYPTO", name: "Shiba Inu", names: ["shiba inu", "shiba"] },
+  { symbol: "PEPE", type: "CRYPTO", name: "Pepe", names: ["pepe coin"] },
+  { symbol: "APE", type: "CRYPTO", name: "ApeCoin", names: ["apecoin", "ape coin"], priority: 1 },
+  { symbol: "ARB", type: "CRYPTO", name: "Arbitrum", names: ["arbitrum"] },
+  { symbol: "SUI", type: "CRYPTO", name: "Sui", hints: ["move language"] },
+  { symbol: "TON", type: "CRYPTO", name: "Toncoin", names: ["toncoin"], hints: ["telegram"] },
+  { symbol: "HBAR", type: "CRYPTO", name: "Hedera", names: ["hedera"] },
+  { symbol: "KAS", type: "CRYPTO", name: "Kaspa", names: ["kaspa"] },
+  { symbol: "RNDR", type: "CRYPTO", name: "Render", tickers: ["RENDER"], hints: ["gpu"] },
+  { symbol: "INJ", type: "CRYPTO", name: "Injective", names: ["injective"] },
+  { symbol: "FIL", type: "CRYPTO", name: "Filecoin", names: ["filecoin"] },
+
+  // Stocks
+  { symbol: "AAPL", type: "STOCK", name: "Apple", names: ["apple"], hints: ["iphone"] },
+  { symbol: "MSFT", type: "STOCK", name: "Microsoft", names: ["microsoft"] },
+  { symbol: "GOOGL", type: "STOCK", name: "Alphabet", names: ["alphabet", "google"], tickers: ["GOOG"] },
+  { symbol: "AMZN", type: "STOCK", name: "Amazon", names: ["amazon"] },
+  { symbol: "TSLA", type: "STOCK", name: "Tesla", names: ["tesla"], hints: ["elon", "deliveries"] },
+  { symbol: "META", type: "STOCK", name: "Meta Platforms", names: ["meta platforms", "facebook"] },
+  { symbol: "NVDA", type: "STOCK", name: "NVIDIA", names: ["nvidia"], hints: ["gpu", "data center"] },
+  { symbol: "AMD", type: "STOCK", name: "Advanced Micro Devices", names: ["advanced micro devices"] },
+  { symbol: "NFLX", type: "STOCK", name: "Netflix", names: ["netflix"] },
+  { symbol: "BRK.B", type: "STOCK", name: "Berkshire Hathaway", names: ["berkshire hathaway", "berkshire"], tickers: ["BRK-B", "BRKB"] },
+  { symbol: "JPM", type: "STOCK", name: "JPMorgan Chase", names: ["jpmorgan", "jp morgan"] },
+  { symbol: "COIN", type: "STOCK", name: "Coinbase", names: ["coinbase"] },
+  { symbol: "MSTR", type: "STOCK", name: "MicroStrategy", names: ["microstrategy", "strategy inc"] },
+  { symbol: "PLTR", type: "STOCK", name: "Palantir", names: ["palantir"] },
+  { symbol: "SHOP", type: "STOCK", name: "Shopify", names: ["shopify"], listings: ["SHOP.TO"] },
+  { symbol: "GME", type: "STOCK", name: "GameStop", names: ["gamestop"] },
+  { symbol: "AMC", type: "STOCK", name: "AMC Entertainment", names: ["amc entertainment"] },
+  { symbol: "INTC", type: "STOCK", name: "Intel", names: ["intel"] },
+  { symbol: "V", type: "STOCK", name: "Visa", names: ["visa"] },
+  // Tickers also used by large crypto assets
+  { symbol: "SOL", type: "STOCK", name: "Emeren Group", names: ["emeren"], hints: ["solar", "emeren", "nyse"] },
+  { symbol: "LINK", type: "STOCK", name: "Interlink Electronics", names: ["interlink electronics"], hints: ["interlink", "sensor"] },
+  { symbol: "APE", type: "STOCK", name: "AMC Preferred Equity", names: ["amc preferred"], hints: ["amc", "preferred"] },
+
+  // ETFs
+  { symbol: "SPY", type: "ETF", name: "SPDR S&P 500 ETF" },
+  { symbol: "QQQ", type: "ETF", name: "Invesco QQQ", names: ["triple q"] },
+  { symbol: "IWM", type: "ETF", name: "iShares Russell 2000 ETF" },
+  { symbol: "VOO", type: "ETF", name: "Vanguard S&P 500 ETF" },
+  { symbol: "VTI", type: "ETF", name: "Vanguard Total Stock Market ETF" },
+  { symbol: "TLT", type: "ETF", name: "iShares 20+ Year Treasury Bond ETF" },
+  { symbol: "ARKK", type: "ETF", name: "ARK Innovation ETF", names: ["ark innovation"] },
+  { symbol: "IBIT", type: "ETF", name: "iShares Bitcoin Trust", names: ["blackrock bitcoin etf"] },
+  { symbol: "XLF", type: "ETF", name: "Financial Select Sector SPDR" },
+  { symbol: "XLE", type: "ETF", name: "Energy Select Sector SPDR" },
+  { symbol: "XLK", type: "ETF", name: "Technology Select Sector SPDR" },
+  { symbol: "GLD", type: "COMMODITY", name: "SPDR Gold Shares" },
+  { symbol: "SLV", type: "COMMODITY", name: "iShares Silver Trust" },
+  { symbol: "USO", type: "COMMODITY", name: "United States Oil Fund" },
+
+  // Indices
+  { symbol: "^GSPC", type: "INDEX", name: "S&P 500", names: ["s&p 500", "s&p", "s and p"], tickers: ["SPX"] },
+  { symbol: "^IXIC", type: "INDEX", name: "Nasdaq Composite", names: ["nasdaq composite", "the nasdaq"], tickers: ["NDX"] },
+  { symbol: "^DJI", type: "INDEX", name: "Dow Jones Industrial Average", names: ["dow jones", "the dow"], tickers: ["DJI", "DJIA"] },
+  { symbol: "^RUT", type: "INDEX", name: "Russell 2000", names: ["russell 2000"], tickers: ["RUT"] },
+  { symbol: "^VIX", type: "INDEX", name: "CBOE Volatility Index", names: ["volatility index"], tickers: ["VIX"] },
+  { symbol: "DXY", type: "INDEX", name: "US Dollar Index", names: ["dollar index"] },
+
+  // Commodities and FX
+  { symbol: "GC=F", type: "COMMODITY", name: "Gold", names: ["gold"], tickers: ["XAU", "XAUUSD"] },
+  { symbol: "SI=F", type: "COMMODITY", name: "Silver", names: ["silver"], tickers: ["XAG", "XAGUSD"] },
+  { symbol: "CL=F", type: "COMMODITY", name: "Crude Oil", names: ["crude oil", "oil", "wti"] },
+  { symbol: "NG=F", type: "COMMODITY", name: "Natural Gas", names: ["natural gas"] },
+  { symbol: "EURUSD", type: "CURRENCY", name: "Euro / US Dollar", names: ["euro dollar"], tickers: ["EURUSD=X"] },
+  { symbol: "USDJPY", type: "CURRENCY", name: "US Dollar / Yen", names: ["dollar yen"], tickers: ["USDJPY=X", "JPY=X"] },
+];
+
+/**
+ * Words that point at an asset class in general, used alongside each
+ * entry's own hints when a shared alias has to be settled
+ */
+const TYPE_HINTS: Partial<Record<AssetType, string[]>> = {
+  CRYPTO: ["crypto", "coin", "token", "altcoin", "altcoins", "blockchain", "defi", "on-chain", "binance", "wallet", "bull run"],
+  STOCK: ["shares", "stock", "earnings", "dividend", "revenue", "nasdaq", "nyse", "quarterly", "ceo", "guidance"],
+  ETF: ["etf", "fund", "inflows"],
+  INDEX: ["index", "futures"],
+};
+
+const EXCHANGE_TYPES: Record<string, AssetType> = {
+  BINANCE: "CRYPTO",
+  COINBASE: "CRYPTO",
+  KRAKEN: "CRYPTO",
+  BYBIT: "CRYPTO",
+  OKX: "CRYPTO",
+  BITSTAMP: "CRYPTO",
+  BITMEX: "CRYPTO",
+  NASDAQ: "STOCK",
+  NYSE: "STOCK",
+  AMEX: "STOCK",
+  TSX: "STOCK",
+  LSE: "STOCK",
+};
+
+const FIAT = new Set(["USD", "EUR", "GBP", "JPY", "AUD", "CAD", "CHF", "NZD", "CNY", "HKD", "SGD", "SEK", "NOK", "MXN", "INR"]);
+const INDEX_SYMBOLS = new Set(["SPX", "NDX", "DJI", "RUT", "VIX", "DXY"]);
+
+const CRYPTO_PAIR = /^([A-Z0-9]{2,10}?)[-/_]?(USDT|USDC|BUSD|FDUSD|TUSD|USD)$/;
+const PERP_SUFFIX = /[-_]?PERP$/;
+const FX_PAIR = /^([A-Z]{3})[/-]?([A-Z]{3})$/;
+
+/**
+ * Lookup key for an alias: lowercase, single spaces, no cashtag
+ */
+export function aliasKey(alias: string): string {
+  return alias.trim().replace(/^\$/, "").replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Strip venue decoration from a symbol: "$sol", "BINANCE:SOLUSDT",
+ * "SOL-USD" and "SOL-PERP" all normalize to SOL. FX pairs and Yahoo
+ * futures/FX tickers keep their shape.
+ */
+export function normalizeSymbol(raw: string): NormalizedSymbol {
+  let symbol = raw.trim().replace(/^\$/, "").replace(/\s+/g, "").toUpperCase();
+  let exchange: string | null = null;
+  let quote: string | null = null;
+
+  const prefixed = symbol.match(/^([A-Z]+):(.+)$/);
+  if (prefixed) {
+    exchange = prefixed[1]!;
+    symbol = prefixed[2]!;
+  }
+
+  if (symbol.startsWith("^") || /=[FX]$/.test(symbol)) {
+    return { symbol, exchange, quote };
+  }
+
+  const fx = symbol.match(FX_PAIR);
+  if (fx && FIAT.has(fx[1]!) && FIAT.has(fx[2]!)) {
+    return { symbol: `${fx[1]}${fx[2]}`, exchange, quote };
+  }
+
+  if (PERP_SUFFIX.test(symbol) && symbol.length > 4) {
+    symbol = symbol.replace(PERP_SUFFIX, "");
+    quote = "PERP";
+  }
+
+  const pair = symbol.match(CRYPTO_PAIR);
+  if (pair && !FIAT.has(pair[1]!)) {
+    symbol = pair[1]!;
+    quote = quote ?? pair[2]!;
+  }
+
+  return { symbol, exchange, quote };
+}
+
+export function parseAssetType(type: string | null | undefined): AssetType | null {
+  const upper = (type ?? "").toUpperCase();
+  return (ASSET_TYPES as readonly string[]).includes(upper) ? (upper as AssetType) : null;
+}
+
+/**
+ * Guess a type from the symbol's shape alone, for symbols outside the catalog
+ */
+export function detectAssetType(normalized: NormalizedSymbol): { type: AssetType; confidence: number } {
+  const exchangeType = normalized.exchange ? EXCHANGE_TYPES[normalized.exchange] : undefined;
+
+  if (normalized.quote) return { type: "CRYPTO", confidence: 0.8 };
+  if (exchangeType) return { type: exchangeType, confidence: 0.8 };
+  if (normalized.symbol.startsWith("^") || INDEX_SYMBOLS.has(normalized.symbol)) return { type: "INDEX", confidence: 0.9 };
+  if (normalized.symbol.endsWith("=F")) return { type: "COMMODITY", confidence: 0.85 };
+  if (normalized.symbol.endsWith("=X")) return { type: "CURRENCY", confidence: 0.9 };
+
+  const fx = normalized.symbol.match(/^([A-Z]{3})([A-Z]{3})$/);
+  if (fx && FIAT.has(fx[1]!) && FIAT.has(fx[2]!)) return { type: "CURRENCY", confidence: 0.9 };
+
+  // Plain tickers and exchange-suffixed listings like NESN.SW; nothing about
+  // a 3-4 letter ticker says ETF, so unknowns stay low-confidence stocks
+  return { type: "STOCK", confidence: /^[A-Z]{1,5}(\.[A-Z]{1,2})?$/.test(normalized.symbol) ? 0.5 : 0.3 };
+}
+
+export function defaultCatalog(): CatalogEntry[] {
+  return DEFAULT_ASSETS.map(asset => {
+    const priority = asset.priority ?? 0;
+    const alias = (value: string, kind: AliasKind) => ({ alias: aliasKey(value), kind, priority });
+
+    return {
+      symbol: asset.symbol,
+      type: asset.type,
+      name: asset.name,
+      aliases: [
+        alias(asset.symbol, "TICKER"),
+        alias(asset.name, "NAME"),
+        ...(asset.names ?? []).map(name => alias(name, "NAME")),
+        ...(asset.tickers ?? []).map(ticker => alias(ticker, "TICKER")),
+        ...(asset.pairs ?? []).map(pair => alias(pair, "PAIR")),
+        ...(asset.listings ?? []).map(listing => alias(listing, "EXCHANGE")),
+      ],
+      hints: asset.hints ?? [],
+    };
+  });
+}
+
+/**
+ * Text around the first occurrence of any needle, falling back to the start
+ */
+export function mentionContext(text: string, needles: string[], radius = 300): string {
+  const lower = text.toLowerCase();
+  for (const needle of needles) {
+    if (!needle) continue;
+    const index = lower.indexOf(needle.toLowerCase());
+    if (index >= 0) return text.slice(Math.max(0, index - radius), index + needle.length + radius);
+  }
+  return "";
+}
+
+interface IndexedAlias {
+  entry: CatalogEntry;
+  kind: AliasKind;
+  priority: number;
+}
+
+interface MentionPattern {
+  key: string;
+  regex: RegExp;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function countHints(context: string, hints: string[]): number {
+  return hints.filter(hint => new RegExp(`(^|[^a-z0-9])${escapeRegex(hint)}($|[^a-z0-9])`).test(context)).length;
+}
+
+/**
+ * Resolves whatever a transcript or model calls an asset ("Solana",
+ * "$SOL", "SOLUSDT") to one canonical symbol and type from the catalog
+ */
+export class AssetResolver {
+  private index = new Map<string, IndexedAlias[]>();
+  private patterns: MentionPattern[] = [];
+
+  constructor(readonly entries: CatalogEntry[]) {
+    for (const entry of entries) {
+      const aliases = [{ alias: aliasKey(entry.symbol), kind: "TICKER" as AliasKind, priority: 0 }, ...entry.aliases];
+
+      for (const { alias, kind, priority } of aliases) {
+        if (!alias) continue;
+        const existing = this.index.get(alias) ?? [];
+        const same = existing.find(item => item.entry === entry);
+
+        if (same) {
+          same.priority = Math.max(same.priority, priority);
+          if (kind === "NAME") same.kind = "NAME";
+        } else {
+          existing.push({ entry, kind, priority });
+        }
+        this.index.set(alias, existing);
+      }
+    }
+
+    for (const [key, items] of this.index) {
+      // Names match in any case; tickers only as written (LINK, not "link") or as cashtags
+      if (items.some(item => item.kind === "NAME")) {
+        this.patterns.push({ key, regex: new RegExp(`(?<![\\w$])${escapeRegex(key)}(?!\\w)`, "gi") });
+      } else {
+        const ticker = escapeRegex(key.toUpperCase());
+        const bare = key.length > 1 && !/^[\^]/.test(key) ? `|(?<![\\w$])${ticker}(?![\\w])` : "";
+        this.patterns.push({ key, regex: new RegExp(`\\$${ticker}(?!\\w)${bare}`, "g") });
+      }
+    }
+  }
+
+  static fromDefaults(): AssetResolver {
+    return new AssetResolver(defaultCatalog());
+  }
+
+  resolve(input: ResolveInput, context = ""): AssetResolution {
+    const normalized = normalizeSymbol(input.symbol);
+    const keys = [
+      aliasKey(normalized.symbol),
+      aliasKey(normalized.symbol.replace(/\.[A-Z]{1,2}$/, "")),
+      aliasKey(input.symbol),
+      aliasKey(input.name ?? ""),
+    ];
+
+    let candidates: IndexedAlias[] = [];
+    for (const key of keys) {
+      candidates = key ? (this.index.get(key) ?? []) : [];
+      if (candidates.length > 0) break;
+    }
+
+    const claimedType = parseAssetType(input.type);
+    // The venue says more about the type than a model's guess does
+    const venueType = normalized.quote
+      ? "CRYPTO"
+      : normalized.exchange
+        ? (EXCHANGE_TYPES[normalized.exchange] ?? null)
+        : null;
+
+    if (candidates.length === 0) {
+      const detected = detectAssetType(normalized);
+      const type = venueType ?? claimedType ?? detected.type;
+
+      return {
+        symbol: normalized.symbol,
+        type,
+        name: input.name || null,
+        assetId: null,
+        confidence: venueType || !claimedType ? detected.confidence : 0.6,
+        method: "heuristic",
+        input: input.symbol,
+        alternatives: [],
+      };
+    }
+
+    if (candidates.length === 1) {
+      return this.toResolution(candidates[0]!.entry, input, 0.95, "catalog", []);
+    }
+
+    const lowerContext = `${context} ${input.name ?? ""}`.toLowerCase();
+    const scored = candidates
+      .map(candidate => {
+        let score = candidate.priority;
+        if (venueType === candidate.entry.type) score += 5;
+        if (claimedType === candidate.entry.type) score += 1;
+        score += Math.min(3, countHints(lowerContext, [...candidate.entry.hints, ...(TYPE_HINTS[candidate.entry.type] ?? [])]));
+        return { candidate, score };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const margin = scored[0]!.score - scored[1]!.score;
+    const confidence = margin >= 3 ? 0.85 : margin >= 1 ? 0.7 : 0.55;
+
+    return this.toResolution(
+      scored[0]!.candidate.entry,
+      input,
+      confidence,
+      "context",
+      scored.slice(1).map(({ candidate }) => ({ symbol: candidate.entry.symbol, type: candidate.entry.type }))
+    );
+  }
+
+  /**
+   * Every catalog asset named in free text, each disambiguated by the text
+   * around its first mention
+   */
+  findMentions(text: string): AssetMention[] {
+    const found = new Map<string, AssetMention>();
+
+    const add = (matched: string, index: number) => {
+      const context = text.slice(Math.max(0, index - 200), index + matched.length + 200);
+      const resolution = this.resolve({ symbol: matched }, context);
+      if (resolution.method === "heuristic") return;
+
+      const key = `${resolution.symbol}:${resolution.type}`;
+      const existing = found.get(key);
+      if (!existing || index < existing.index) found.set(key, { ...resolution, matched, index });
+    };
+
+    for (const { regex } of this.patterns) {
+      for (const match of text.matchAll(regex)) {
+        add(match[0], match.index ?? 0);
+      }
+    }
+
+    // Trading pairs written out, e.g. "SOLUSDT" or "ETH/USDC"
+    for (const match of text.matchAll(/\b[A-Z0-9]{2,10}[-/]?(?:USDT|USDC|BUSD)\b/g)) {
+      add(match[0], match.index ?? 0);
+    }
+
+    return [...found.values()].sort((a, b) => a.index - b.index);
+  }
+
+  private toResolution(
+    entry: CatalogEntry,
+    input: ResolveInput,
+    confidence: number,
+    method: AssetResolution["method"],
+    alternatives: AssetResolution["alternatives"]
+  ): AssetResolution {
+    return {
+      symbol: entry.symbol,
+      type: entry.type,
+      name: entry.name,
+      assetId: entry.assetId ?? null,
+      confidence,
+      method,
+      input: input.symbol,
+      alternatives,
+    };
+  }
+}
@@ -0,0 +1,410 @@
+import { type Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import {
+  AssetResolver,
+  aliasKey,
+  defaultCatalog,
+  parseAssetType,
+  type AliasKind,
+  type AssetResolution,
+  type CatalogAlias,
+  type CatalogEntry,
+  type ResolveInput,
+} from "./assetCatalog";
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Shared across service instances so every consumer sees alias edits at once
+let cache: { resolver: AssetResolver; loadedAt: number } | null = null;
+
+export interface DuplicateAssetGroup {
+  symbol: string;
+  // Suggested merge target: the catalog's own asset, else the most used one
+  targetId: string;
+  assets: Array<{
+    id: string;
+    symbol: string;
+    type: string;
+    name: string | null;
+    predictions: number;
+    priceHistory: number;
+  }>;
+}
+
+export interface AssetMergeResult {
+  targetId: string;
+  predictions: number;
+  priceHistory: number;
+  aliases: number;
+}
+
+interface AssetMetadata {
+  name?: string | null;
+  hints?: string[];
+}
+
+/**
+ * One place that decides which Asset a mention refers to. The catalog is
+ * the Asset table plus AssetAlias rows, with the built-in defaults filling
+ * in for assets that have no alias rows yet.
+ */
+export class AssetResolutionService {
+  async resolver(): Promise<AssetResolver> {
+    if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+      return cache.resolver;
+    }
+
+    cache = { resolver: await this.load(), loadedAt: Date.now() };
+    return cache.resolver;
+  }
+
+  invalidate() {
+    cache = null;
+  }
+
+  async resolve(input: ResolveInput, context = ""): Promise<AssetResolution> {
+    return (await this.resolver()).resolve(input, context);
+  }
+
+  /**
+   * Resolve a mention and return its Asset row, creating it (with the
+   * default catalog's aliases) the first time the asset is seen
+   */
+  async findOrCreateAsset(input: ResolveInput, context = "") {
+    const resolution = await this.resolve(input, context);
+
+    if (resolution.assetId) {
+      const asset = await prisma.asset.findUnique({ where: { id: resolution.assetId } });
+      if (asset) return { asset, resolution, created: false };
+    }
+
+    const defaults = defaultCatalog().find(entry => entry.symbol === resolution.symbol && entry.type === resolution.type);
+
+    const asset = await prisma.asset.upsert({
+      where: { symbol_type: { symbol: resolution.symbol, type: resolution.type } },
+      update: {},
+      create: {
+        symbol: resolution.symbol,
+        type: resolution.type,
+        metadata: {
+          name: resolution.name,
+          exchange: null,
+          sector: null,
+          marketCap: null,
+          ...(defaults?.hints.length && { hints: defaults.hints }),
+        },
+        priceData: {
+          price: null,
+          change24h: null,
+          volume24h: null,
+          updatedAt: null,
+          source: null,
+        },
+        ...(defaults && {
+          aliases: { createMany: { data: defaults.aliases, skipDuplicates: true } },
+        }),
+      },
+    });
+
+    this.invalidate();
+    // Only a stale cache lets another writer beat us here, and a repeated backfill request is harmless
+    return { asset, resolution, created: true };
+  }
+
+  async listCatalog(options: { search?: string; page?: number; limit?: number } = {}) {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 25;
+    const search = options.search?.trim();
+
+    const where: Prisma.AssetWhereInput = search
+      ? {
+          OR: [
+            { symbol: { contains: search, mode: "insensitive" } },
+            { aliases: { some: { alias: { contains: aliasKey(search) } } } },
+          ],
+        }
+      : {};
+
+    const [assets, total] = await Promise.all([
+      prisma.asset.findMany({
+        where,
+        orderBy: { symbol: "asc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: {
+          id: true,
+          symbol: true,
+          type: true,
+          metadata: true,
+          aliases: { orderBy: { alias: "asc" }, select: { id: true, alias: true, kind: true, priority: true } },
+          _count: { select: { predictions: true, priceHistory: true, candles: true } },
+        },
+      }),
+      prisma.asset.count({ where }),
+    ]);
+
+    const defaults = defaultCatalog();
+
+    return {
+      assets: assets.map(asset => ({
+        id: asset.id,
+        symbol: asset.symbol,
+        type: asset.type,
+        name: (asset.metadata as AssetMetadata | null)?.name ?? null,
+        aliases: asset.aliases,
+        // Aliases the resolver is still using from the defaults because the asset has none of its own
+        inheritedAliases:
+          asset.aliases.length === 0
+            ? (defaults.find(entry => entry.symbol === asset.symbol && entry.type === asset.type)?.aliases ?? [])
+            : [],
+        predictions: asset._count.predictions,
+        priceHistory: asset._count.priceHistory,
+        candles: asset._count.candles,
+      })),
+      total,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  async addAlias(assetId: string, alias: string, kind: AliasKind, priority = 0) {
+    const key = aliasKey(alias);
+    if (!key) {
+      throw new Error("Alias cannot be empty");
+    }
+
+    const asset = await prisma.asset.findUnique({ where: { id: assetId }, include: { aliases: true } });
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+    if (asset.aliases.some(existing => existing.alias === key)) {
+      throw new Error(`${asset.symbol} already has the alias "${key}"`);
+    }
+
+    // The first edit takes the asset off the defaults, so keep what it was inheriting
+    const inherited =
+      asset.aliases.length === 0
+        ? (defaultCatalog().find(entry => entry.symbol === asset.symbol && entry.type === asset.type)?.aliases ?? [])
+        : [];
+
+    await prisma.assetAlias.createMany({
+      data: [...inherited.filter(a => a.alias !== key), { alias: key, kind, priority }].map(a => ({ ...a, assetId })),
+      skipDuplicates: true,
+    });
+
+    this.invalidate();
+    return prisma.assetAlias.findUniqueOrThrow({ where: { alias_assetId: { alias: key, assetId } } });
+  }
+
+  async removeAlias(aliasId: string) {
+    const alias = await prisma.assetAlias.findUnique({ where: { id: aliasId }, include: { asset: true } });
+    if (!alias) {
+      throw new Error("Alias not found");
+    }
+    if (alias.alias === aliasKey(alias.asset.symbol)) {
+      throw new Error("An asset's own symbol always resolves to it and can't be removed");
+    }
+
+    await prisma.assetAlias.delete({ where: { id: aliasId } });
+    this.invalidate();
+    return alias;
+  }
+
+  /**
+   * Give every existing asset that still relies on the defaults its own
+   * alias rows, so the whole catalog can be edited from the admin page
+   */
+  async importDefaultAliases(): Promise<{ assets: number; aliases: number }> {
+    const assets = await prisma.asset.findMany({
+      where: { aliases: { none: {} } },
+      select: { id: true, symbol: true, type: true },
+    });
+    const defaults = defaultCatalog();
+    let imported = 0;
+    let aliases = 0;
+
+    for (const asset of assets) {
+      const entry = defaults.find(e => e.symbol === asset.symbol && e.type === asset.type);
+      if (!entry) continue;
+
+      const created = await prisma.assetAlias.createMany({
+        data: entry.aliases.map(alias => ({ ...alias, assetId: asset.id })),
+        skipDuplicates: true,
+      });
+      imported++;
+      aliases += created.count;
+    }
+
+    this.invalidate();
+    return { assets: imported, aliases };
+  }
+
+  /**
+   * Assets that resolve to the same canonical symbol, e.g. SOL, SOLUSDT
+   * and "Solana" rows created before resolution existed
+   */
+  async findDuplicateAssets(): Promise<DuplicateAssetGroup[]> {
+    const defaults = AssetResolver.fromDefaults();
+    const assets = await prisma.asset.findMany({
+      select: {
+        id: true,
+        symbol: true,
+        type: true,
+        metadata: true,
+        aliases: { select: { alias: true } },
+        _count: { select: { predictions: true, priceHistory: true } },
+      },
+    });
+
+    // Map every alias an asset owns back to it, so "SOLANA" finds SOL
+    const ownerOf = new Map<string, string>();
+    for (const asset of assets) {
+      for (const { alias } of asset.aliases) ownerOf.set(alias, asset.symbol);
+    }
+
+    const groups = new Map<string, typeof assets>();
+    for (const asset of assets) {
+      const resolution = defaults.resolve({ symbol: asset.symbol, type: asset.type });
+      const owner = ownerOf.get(aliasKey(resolution.symbol)) ?? ownerOf.get(aliasKey(asset.symbol));
+      const canonical = owner && owner !== asset.symbol ? owner : resolution.symbol;
+
+      groups.set(canonical, [...(groups.get(canonical) ?? []), asset]);
+    }
+
+    return [...groups.entries()]
+      .filter(([, members]) => members.length > 1)
+      .map(([symbol, members]) => {
+        const target =
+          members.find(asset => asset.symbol === symbol && asset.type === defaults.resolve({ symbol }).type) ??
+          [...members].sort((a, b) => b._count.predictions - a._count.predictions)[0]!;
+
+        return {
+          symbol,
+          targetId: target.id,
+          assets: members.map(asset => ({
+            id: asset.id,
+            symbol: asset.symbol,
+            type: asset.type,
+            name: (asset.metadata as AssetMetadata | null)?.name ?? null,
+            predictions: asset._count.predictions,
+            priceHistory: asset._count.priceHistory,
+          })),
+        };
+      })
+      .sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  /**
+   * Fold a duplicate asset into another: predictions and price history move
+   * to the target, the source's symbol and aliases become target aliases, and
+   * the source row is deleted
+   */
+  async mergeAssets(sourceId: string, targetId: string, userId?: string): Promise<AssetMergeResult> {
+    if (sourceId === targetId) {
+      throw new Error("Cannot merge an asset into itself");
+    }
+
+    const [source, target] = await Promise.all([
+      prisma.asset.findUnique({ where: { id: sourceId }, include: { aliases: true } }),
+      prisma.asset.findUnique({ where: { id: targetId }, include: { aliases: true } }),
+    ]);
+
+    if (!source || !target) {
+      throw new Error("Asset not found");
+    }
+
+    const owned = new Set(target.aliases.map(alias => alias.alias));
+    const sourceName = (source.metadata as AssetMetadata | null)?.name;
+    const carried: CatalogAlias[] = [];
+
+    for (const alias of [
+      { alias: aliasKey(source.symbol), kind: "TICKER" as AliasKind, priority: 0 },
+      ...(sourceName ? [{ alias: aliasKey(sourceName), kind: "NAME" as AliasKind, priority: 0 }] : []),
+      ...source.aliases.map(alias => ({ alias: alias.alias, kind: alias.kind as AliasKind, priority: alias.priority })),
+    ]) {
+      if (!alias.alias || owned.has(alias.alias)) continue;
+      owned.add(alias.alias);
+      carried.push(alias);
+    }
+
+    // The target keeps resolving through its defaults only while it has no rows of its own
+    const inherited =
+      target.aliases.length === 0
+        ? (defaultCatalog().find(entry => entry.symbol === target.symbol && entry.type === target.type)?.aliases ?? [])
+        : [];
+
+    const result = await prisma.$transaction(async tx => {
+      const predictions = await tx.prediction.updateMany({ where: { assetId: source.id }, data: { assetId: target.id } });
+      const priceHistory = await tx.priceHistory.updateMany({ where: { assetId: source.id }, data: { assetId: target.id } });
+      const aliases = await tx.assetAlias.createMany({
+        data: [...inherited, ...carried].map(alias => ({ ...alias, assetId: target.id })),
+        skipDuplicates: true,
+      });
+      // The source's candles and consensus snapshots go with it; the target refills its own gaps from the providers
+      await tx.asset.delete({ where: { id: source.id } });
+
+      return { targetId: target.id, predictions: predictions.count, priceHistory: priceHistory.count, aliases: aliases.count };
+    });
+
+    await prisma.event.create({
+      data: {
+        type: "ASSET_MERGED",
+        entityType: "ASSET",
+        entityId: target.id,
+        userId,
+        data: {
+          source: { id: source.id, symbol: source.symbol, type: source.type },
+          target: { symbol: target.symbol, type: target.type },
+          predictions: result.predictions,
+          priceHistory: result.priceHistory,
+          aliases: result.aliases,
+        },
+      },
+    });
+
+    console.log(
+      `[AssetResolution] Merged ${source.symbol} (${source.type}) into ${target.symbol} (${target.type}): ${result.predictions} predictions, ${result.priceHistory} price points`
+    );
+
+    this.invalidate();
+    return result;
+  }
+
+  private async load(): Promise<AssetResolver> {
+    try {
+      const assets = await prisma.asset.findMany({
+        select: {
+          id: true,
+          symbol: true,
+          type: true,
+          metadata: true,
+          aliases: { select: { alias: true, kind: true, priority: true } },
+        },
+      });
+
+      const defaults = defaultCatalog();
+      const stored = new Set(assets.map(asset => `${asset.symbol}:${asset.type}`));
+
+      const entries: CatalogEntry[] = assets.map(asset => {
+        const metadata = (asset.metadata ?? {}) as AssetMetadata;
+        const fallback = defaults.find(entry => entry.symbol === asset.symbol && entry.type === asset.type);
+
+        return {
+          assetId: asset.id,
+          symbol: asset.symbol,
+          type: parseAssetType(asset.type) ?? "STOCK",
+          name: metadata.name ?? fallback?.name ?? null,
+          aliases: asset.aliases.length
+            ? asset.aliases.map(alias => ({ alias: alias.alias, kind: alias.kind as AliasKind, priority: alias.priority }))
+            : (fallback?.aliases ?? []),
+          hints: metadata.hints ?? fallback?.hints ?? [],
+        };
+      });
+
+      return new AssetResolver([...entries, ...defaults.filter(entry => !stored.has(`${entry.symbol}:${entry.type}`))]);
+    } catch (error) {
+      // Extraction still needs canonical symbols when the database is unreachable
+      console.warn("[AssetResolution] Could not load asset catalog, using defaults:", error instanceof Error ? error.message : error);
+      return AssetResolver.fromDefaults();
+    }
+  }
+}
@@ -1,12 +1,14 @@
 import { prisma } from "../db";
 import { PriceTrackingService } from "./priceTracking";
-import { Decimal } from "@prisma/client/runtime/library";
+import { MarketDataService } from "./marketData";
 
 export class AssetService {
   private priceTracker: PriceTrackingService;
+  private marketData: MarketDataService;
 
   constructor() {
     this.priceTracker = new PriceTrackingService();
+    this.marketData = new MarketDataService();
   }
 
   async updateAssetPrices(): Promise<void> {
@@ -59,64 +61,10 @@ export class AssetService {
 
   async updatePrice(assetId: string): Promise<void> {
     try {
-      // Get asset details
-      const asset = await prisma.asset.findUnique({
-        where: { id: assetId },
-        select: { symbol: true, type: true }
-      });
-
-      if (!asset) {
-        throw new Error(`Asset ${assetId} not found`);
-      }
-
-      // Fetch latest price based on asset type
-      let priceData;
-      if (asset.type === "CRYPTO") {
-        const prices = await this.priceTracker.fetchCryptoPrices([asset.symbol]);
-        priceData = prices[0];
-      } else if (asset.type === "STOCK") {
-        const prices = await this.priceTracker.fetchStockPrices([asset.symbol]);
-        priceData = prices[0];
-      } else {
-        // For ETF and COMMODITY, use mock data for now
-        priceData = {
-          symbol: asset.symbol,
-          price: Math.random() * 1000,
-          change24h: (Math.random() - 0.5) * 10,
-          volume24h: Math.random() * 1000000
-        };
-      }
-
-      if (!priceData) {
-        console.error(`No price data available for ${asset.symbol}`);
-        return;
-      }
-
-      // Update asset with latest price
-      await prisma.asset.update({
-        where: { id: assetId },
-        data: {
-          priceData: {
-            price: priceData.price,
-            change24h: priceData.change24h || null,
-            volume24h: priceData.volume24h || null,
-            updatedAt: new Date().toISOString(),
-            source: asset.type === "CRYPTO" ? "binance" : "mock"
-          }
-        }
-      });
-
-      // Create price history record
-      await prisma.priceHistory.create({
-        data: {
-          assetId: assetId,
-          price: new Decimal(priceData.price),
-          volume: priceData.volume24h ? new Decimal(priceData.volume24h) : null,
-          source: asset.type === "CRYPTO" ? "binance" : "mock"
-        }
-      });
+      // Cross-checked across providers; outliers are held back rather than written
+      const price = await this.marketData.updateAssetPrice(assetId);
 
-      console.log(`✅ Price updated for ${asset.symbol}: $${priceData.price}`);
+      console.log(`✅ Price updated for ${price.symbol}: $${price.price} via ${price.source}`);
     } catch (error) {
       console.error(`Failed to update price for asset ${assetId}:`, error);
       throw error;
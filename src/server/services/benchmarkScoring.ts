@@ -0,0 +1,273 @@
+import { type Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { AssetResolutionService } from "./assetResolution";
+import { PriceBackfillService } from "./priceBackfill";
+import {
+  CASH_BENCHMARK,
+  DEFAULT_BENCHMARK_SETTINGS,
+  excessReturn,
+  percentReturn,
+  pickBenchmark,
+  type BenchmarkRef,
+  type BenchmarkSettings,
+} from "./benchmarks";
+import { type ResolutionResult } from "./resolution";
+
+export const BENCHMARK_SCORING_JOB = "SCORE_BENCHMARKS";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// How long the daily job keeps retrying predictions whose benchmark had no price yet
+const RETRY_WINDOW_MS = 90 * DAY_MS;
+const BATCH_SIZE = 100;
+
+export interface BenchmarkScoringPayload {
+  // Rescore everything unscored, not just recent resolutions (after a settings change)
+  all?: boolean;
+}
+
+export interface BenchmarkScore {
+  benchmarkSymbol: string;
+  assetReturn: number;
+  benchmarkReturn: number;
+  excessReturn: number | null;
+}
+
+export interface AlphaStats {
+  forecasterId: string;
+  // Mean excess return in percentage points
+  alpha: number;
+  // Share of scored calls that beat their benchmark
+  beatRate: number;
+  scored: number;
+}
+
+interface PricedAsset {
+  id: string;
+  symbol: string;
+  type: string;
+}
+
+function mergeSettings(base: BenchmarkSettings, changes: Partial<BenchmarkSettings>): BenchmarkSettings {
+  return {
+    byType: { ...base.byType, ...changes.byType },
+    bySector: { ...base.bySector, ...changes.bySector },
+    bySymbol: { ...base.bySymbol, ...changes.bySymbol },
+    minPredictions: changes.minPredictions ?? base.minPredictions,
+  };
+}
+
+/**
+ * Scores resolved predictions against a benchmark held over the same
+ * horizon and aggregates the result per forecaster
+ */
+export class BenchmarkScoringService {
+  constructor(
+    private assets: AssetResolutionService = new AssetResolutionService(),
+    private priceBackfill: PriceBackfillService = new PriceBackfillService()
+  ) {}
+
+  async getSettings(): Promise<BenchmarkSettings> {
+    const latest = await prisma.event.findFirst({
+      where: { type: "BENCHMARK_SETTINGS" },
+      orderBy: { createdAt: "desc" },
+    });
+    const saved = (latest?.data as { settings?: Partial<BenchmarkSettings> } | null)?.settings;
+
+    return mergeSettings(DEFAULT_BENCHMARK_SETTINGS, saved ?? {});
+  }
+
+  /**
+   * Maps merge per key, so changing the crypto benchmark leaves stocks alone
+   */
+  async updateSettings(changes: Partial<BenchmarkSettings>, userId?: string): Promise<BenchmarkSettings> {
+    const settings = mergeSettings(await this.getSettings(), changes);
+
+    await prisma.event.create({
+      data: {
+        type: "BENCHMARK_SETTINGS",
+        entityType: "ADMIN",
+        entityId: "benchmark-settings",
+        userId,
+        data: { settings, changes } as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return settings;
+  }
+
+  /**
+   * Score one resolved prediction from the baseline and resolving price its
+   * resolution recorded. Returns null, leaving it for the next run, when the
+   * benchmark has no price for either end of the horizon yet.
+   */
+  async scorePrediction(predictionId: string, settings?: BenchmarkSettings): Promise<BenchmarkScore | null> {
+    const prediction = await prisma.prediction.findUnique({
+      where: { id: predictionId },
+      include: { asset: true },
+    });
+
+    if (!prediction?.asset || prediction.outcome === "PENDING") return null;
+
+    const resolution = (prediction.metadata as { resolution?: ResolutionResult } | null)?.resolution;
+    if (!resolution?.baselinePrice || !resolution.resolvingPrice || !resolution.resolvingAt) return null;
+
+    const benchmark = pickBenchmark(
+      {
+        symbol: prediction.asset.symbol,
+        type: prediction.asset.type,
+        sector: (prediction.asset.metadata as { sector?: string | null } | null)?.sector,
+      },
+      settings ?? (await this.getSettings())
+    );
+    const start = resolution.baselineAt ? new Date(resolution.baselineAt) : prediction.createdAt;
+    const benchmarkReturn = await this.benchmarkReturn(benchmark, start, new Date(resolution.resolvingAt));
+
+    if (benchmarkReturn === null) return null;
+
+    const assetReturn = percentReturn(resolution.baselinePrice, resolution.resolvingPrice);
+    const score: BenchmarkScore = {
+      benchmarkSymbol: benchmark.symbol,
+      assetReturn,
+      benchmarkReturn,
+      excessReturn: excessReturn(resolution.direction, assetReturn, benchmarkReturn),
+    };
+
+    await prisma.prediction.update({
+      where: { id: predictionId },
+      data: score,
+    });
+
+    return score;
+  }
+
+  /**
+   * Job handler: score resolved predictions that have no benchmark yet
+   */
+  async run(payload: BenchmarkScoringPayload = {}): Promise<{ scored: number; skipped: number }> {
+    const settings = await this.getSettings();
+    const where: Prisma.PredictionWhereInput = {
+      outcome: { in: ["CORRECT", "INCORRECT", "PARTIALLY_CORRECT"] },
+      benchmarkSymbol: null,
+      ...(!payload.all && { validatedAt: { gte: new Date(Date.now() - RETRY_WINDOW_MS) } }),
+    };
+    let scored = 0;
+    let skipped = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await prisma.prediction.findMany({
+        where: { ...where, ...(cursor && { id: { gt: cursor } }) },
+        orderBy: { id: "asc" },
+        select: { id: true },
+        take: BATCH_SIZE,
+      });
+
+      for (const { id } of batch) {
+        try {
+          if (await this.scorePrediction(id, settings)) {
+            scored++;
+          } else {
+            skipped++;
+          }
+        } catch (error) {
+          console.error(`[Benchmark] Failed to score prediction ${id}:`, error);
+          skipped++;
+        }
+      }
+
+      if (batch.length < BATCH_SIZE) break;
+      cursor = batch[batch.length - 1]!.id;
+    }
+
+    return { scored, skipped };
+  }
+
+  /**
+   * Forget every stored score so the next run uses the current settings
+   */
+  async resetScores(): Promise<number> {
+    const { count } = await prisma.prediction.updateMany({
+      where: { benchmarkSymbol: { not: null } },
+      data: { benchmarkSymbol: null, assetReturn: null, benchmarkReturn: null, excessReturn: null },
+    });
+
+    return count;
+  }
+
+  /**
+   * Alpha for the given forecasters, keyed by id; forecasters with no scored
+   * calls are absent
+   */
+  async alphaStats(forecasterIds: string[]): Promise<Map<string, AlphaStats>> {
+    const [totals, beats] = await Promise.all([
+      prisma.prediction.groupBy({
+        by: ["forecasterId"],
+        where: { forecasterId: { in: forecasterIds }, excessReturn: { not: null } },
+        _avg: { excessReturn: true },
+        _count: { excessReturn: true },
+      }),
+      prisma.prediction.groupBy({
+        by: ["forecasterId"],
+        where: { forecasterId: { in: forecasterIds }, excessReturn: { gt: 0 } },
+        _count: { excessReturn: true },
+      }),
+    ]);
+
+    const beatCounts = new Map(beats.map(b => [b.forecasterId, b._count.excessReturn]));
+
+    return new Map(
+      totals.map(total => [
+        total.forecasterId,
+        {
+          forecasterId: total.forecasterId,
+          alpha: Number(total._avg.excessReturn ?? 0),
+          beatRate: (beatCounts.get(total.forecasterId) ?? 0) / total._count.excessReturn,
+          scored: total._count.excessReturn,
+        },
+      ])
+    );
+  }
+
+  /**
+   * Forecasters ordered by mean excess return, among those with enough
+   * scored calls for the average to mean something
+   */
+  async rankByAlpha(
+    forecasterWhere: Prisma.ForecasterWhereInput,
+    options: { limit: number; offset: number; minPredictions?: number }
+  ): Promise<AlphaStats[]> {
+    const minPredictions = options.minPredictions ?? (await this.getSettings()).minPredictions;
+
+    const ranked = await prisma.prediction.groupBy({
+      by: ["forecasterId"],
+      where: { excessReturn: { not: null }, forecaster: forecasterWhere },
+      having: { excessReturn: { _count: { gte: minPredictions } } },
+      _avg: { excessReturn: true },
+      orderBy: { _avg: { excessReturn: "desc" } },
+      skip: options.offset,
+      take: options.limit,
+    });
+
+    const stats = await this.alphaStats(ranked.map(r => r.forecasterId));
+    return ranked.flatMap(r => stats.get(r.forecasterId) ?? []);
+  }
+
+  private async benchmarkReturn(benchmark: BenchmarkRef, start: Date, end: Date): Promise<number | null> {
+    if (benchmark.symbol === CASH_BENCHMARK) return 0;
+
+    const { asset } = await this.assets.findOrCreateAsset({ symbol: benchmark.symbol, type: benchmark.type });
+    const from = await this.priceNear(asset, start);
+    const to = await this.priceNear(asset, end);
+
+    return from !== null && to !== null ? percentReturn(from, to) : null;
+  }
+
+  // Fill just enough candles around the moment for priceAt to answer
+  private async priceNear(asset: PricedAsset, at: Date): Promise<number | null> {
+    await this.priceBackfill.ensureCandles(asset, "1d", new Date(at.getTime() - 4 * DAY_MS), new Date(at.getTime() + DAY_MS));
+    await this.priceBackfill.ensureCandles(asset, "1h", new Date(at.getTime() - HOUR_MS), new Date(at.getTime() + HOUR_MS));
+
+    return this.priceBackfill.priceAt(asset.id, at);
+  }
+}
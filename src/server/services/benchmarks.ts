@@ -0,0 +1,100 @@
+/**
+ * Benchmark-relative scoring: how much a call beat simply holding the
+ * market over the same horizon. Pure, so it can be tested without a
+ * database; BenchmarkScoringService supplies the prices.
+ */
+
+// Holding cash: a benchmark that returns 0%
+export const CASH_BENCHMARK = "CASH";
+
+export interface BenchmarkRef {
+  symbol: string;
+  type: string;
+}
+
+export interface BenchmarkSettings {
+  // Tried in order; the first that is not the predicted asset itself wins
+  byType: Record<string, BenchmarkRef[]>;
+  // Keyed by lowercase Asset.metadata.sector, checked before the type list
+  bySector: Record<string, BenchmarkRef>;
+  // Explicit per-symbol overrides, checked first
+  bySymbol: Record<string, BenchmarkRef>;
+  // Scored predictions a forecaster needs before appearing on the alpha leaderboard
+  minPredictions: number;
+}
+
+const etf = (symbol: string): BenchmarkRef => ({ symbol, type: "ETF" });
+const cash: BenchmarkRef = { symbol: CASH_BENCHMARK, type: "CASH" };
+
+export const DEFAULT_BENCHMARK_SETTINGS: BenchmarkSettings = {
+  byType: {
+    // BTC calls are measured against ETH so the market leader is not its own yardstick
+    CRYPTO: [{ symbol: "BTC", type: "CRYPTO" }, { symbol: "ETH", type: "CRYPTO" }],
+    STOCK: [etf("SPY")],
+    ETF: [etf("SPY"), etf("QQQ")],
+    INDEX: [etf("SPY"), etf("QQQ")],
+    OPTION: [etf("SPY")],
+    COMMODITY: [etf("DBC"), cash],
+    BOND: [etf("AGG"), cash],
+    CURRENCY: [cash],
+    FUTURE: [cash],
+  },
+  bySector: {
+    technology: etf("XLK"),
+    "information technology": etf("XLK"),
+    financials: etf("XLF"),
+    "financial services": etf("XLF"),
+    energy: etf("XLE"),
+    healthcare: etf("XLV"),
+    "health care": etf("XLV"),
+    industrials: etf("XLI"),
+    "consumer discretionary": etf("XLY"),
+    "consumer cyclical": etf("XLY"),
+    "consumer staples": etf("XLP"),
+    "consumer defensive": etf("XLP"),
+    materials: etf("XLB"),
+    "basic materials": etf("XLB"),
+    utilities: etf("XLU"),
+    "real estate": etf("XLRE"),
+    "communication services": etf("XLC"),
+  },
+  bySymbol: {},
+  minPredictions: 5,
+};
+
+export interface BenchmarkedAsset {
+  symbol: string;
+  type: string;
+  sector?: string | null;
+}
+
+export function pickBenchmark(
+  asset: BenchmarkedAsset,
+  settings: BenchmarkSettings = DEFAULT_BENCHMARK_SETTINGS
+): BenchmarkRef {
+  const notSelf = (ref: BenchmarkRef | undefined): ref is BenchmarkRef => !!ref && ref.symbol !== asset.symbol;
+
+  const candidates = [
+    settings.bySymbol[asset.symbol],
+    asset.sector ? settings.bySector[asset.sector.trim().toLowerCase()] : undefined,
+    ...(settings.byType[asset.type] ?? []),
+  ];
+
+  return candidates.find(notSelf) ?? cash;
+}
+
+export function percentReturn(from: number, to: number): number {
+  return ((to - from) / from) * 100;
+}
+
+/**
+ * Percentage points a call beat its benchmark by. A bullish call is long
+ * the asset against the benchmark, a bearish one short it, so a short that
+ * merely rode a falling market earns nothing. Neutral calls have no side
+ * to measure and get null.
+ */
+export function excessReturn(direction: string | null, assetReturn: number, benchmarkReturn: number): number | null {
+  if (direction === "BULLISH") return assetReturn - benchmarkReturn;
+  if (direction === "BEARISH") return benchmarkReturn - assetReturn;
+  return null;
+}
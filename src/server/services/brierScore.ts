@@ -1,52 +1,162 @@
+import { type Prisma } from "@prisma/client";
 import { prisma } from "../db";
+import {
+  DEFAULT_SCORING_OPTIONS,
+  brierScore as computeBrierScore,
+  directionalProbabilities,
+  multiCategoryBrierScore,
+  murphyDecomposition,
+  normalizeOutcome,
+  outcomeValue,
+  type BinaryForecast,
+  type ScoringOptions,
+} from "./scoring";
+
+export interface ForecasterScoreResult {
+  brierScore: number;
+  reliability: number | null;
+  resolution: number | null;
+  uncertainty: number | null;
+  calibration: number | null;
+  multiCategoryBrier: number | null;
+  sampleSize: number;
+}
 
 export class BrierScoreService {
+  private options: ScoringOptions;
+
+  constructor(options: Partial<ScoringOptions> = {}) {
+    this.options = { ...DEFAULT_SCORING_OPTIONS, ...options };
+  }
+
   /**
    * Calculate Brier Score for a forecaster
    * Brier Score = (1/N) * Σ(forecast_probability - actual_outcome)²
    * Lower scores indicate better accuracy (0 = perfect, 1 = worst)
+   * PARTIALLY_CORRECT outcomes count as `partialCredit` instead of 0.
+   * Read-only; recordScore() persists it.
    */
   async calculate(forecasterId: string) {
-    const predictions = await prisma.prediction.findMany({
-      where: {
-        forecasterId,
-        outcome: { not: "PENDING" },
-        confidence: { not: null },
-      },
-    });
+    const result = await this.score(forecasterId);
+    return result?.brierScore ?? null;
+  }
 
-    if (predictions.length === 0) {
+  /**
+   * Brier score with its decomposition, without writing anything
+   */
+  async score(forecasterId: string): Promise<ForecasterScoreResult | null> {
+    const predictions = await this.getScoredPredictions(forecasterId);
+    const forecasts = this.toForecasts(predictions);
+
+    if (forecasts.length === 0) {
       return null;
     }
 
-    let totalScore = 0;
-    let validPredictions = 0;
+    const decomposition = murphyDecomposition(forecasts, this.options.bins);
 
-    for (const prediction of predictions) {
-      const confidence = Number(prediction.confidence) || 0.5;
-      const actualOutcome = prediction.outcome === "CORRECT" ? 1 : 0;
+    return {
+      brierScore: computeBrierScore(forecasts) ?? 0,
+      reliability: decomposition?.reliability ?? null,
+      resolution: decomposition?.resolution ?? null,
+      uncertainty: decomposition?.uncertainty ?? null,
+      calibration: this.calibrationError(forecasts),
+      multiCategoryBrier: this.averageMultiCategoryBrier(predictions),
+      sampleSize: forecasts.length,
+    };
+  }
 
-      // Calculate Brier score component
-      const score = Math.pow(confidence - actualOutcome, 2);
-      totalScore += score;
-      validPredictions++;
+  /**
+   * Score a forecaster and store it: one history row per nightly run
+   * (CALCULATE_BRIER_SCORES), plus the latest value on metrics
+   */
+  async recordScore(forecasterId: string) {
+    const result = await this.score(forecasterId);
+
+    if (!result) {
+      return null;
     }
 
-    const brierScore = totalScore / validPredictions;
+    // Keep every nightly calculation so score changes can be charted over time
+    await prisma.forecasterScore.create({
+      data: {
+        forecasterId,
+        ...result,
+        partialCredit: this.options.partialCredit,
+      },
+    });
 
-    // Update forecaster metrics
+    // Latest value stays on metrics for pages that read it directly
     await prisma.forecaster.update({
       where: { id: forecasterId },
       data: {
         metrics: {
           ...(await this.getMetrics(forecasterId)),
-          brierScore,
+          brierScore: result.brierScore,
           lastCalculated: new Date().toISOString(),
         },
       },
     });
 
-    return brierScore;
+    return result.brierScore;
+  }
+
+  private async getScoredPredictions(forecasterId: string) {
+    return prisma.prediction.findMany({
+      where: {
+        forecasterId,
+        outcome: { not: "PENDING" },
+        confidence: { not: null },
+      },
+      select: {
+        outcome: true,
+        confidence: true,
+        direction: true,
+        metadata: true,
+      },
+    });
+  }
+
+  private toForecasts(predictions: Array<{ outcome: string; confidence: unknown }>): BinaryForecast[] {
+    const forecasts: BinaryForecast[] = [];
+
+    for (const prediction of predictions) {
+      const outcome = outcomeValue(prediction.outcome, this.options.partialCredit);
+      if (outcome === null) continue;
+
+      forecasts.push({
+        probability: Number(prediction.confidence) || 0.5,
+        outcome,
+      });
+    }
+
+    return forecasts;
+  }
+
+  /**
+   * Mean multi-category Brier over BULLISH/BEARISH/NEUTRAL for predictions
+   * whose resolution recorded the realised price move.
+   */
+  private averageMultiCategoryBrier(
+    predictions: Array<{ confidence: unknown; direction: string | null; metadata: unknown }>
+  ): number | null {
+    const scores: number[] = [];
+
+    for (const prediction of predictions) {
+      const changePercent = (prediction.metadata as any)?.resolution?.changePercent;
+      if (typeof changePercent !== "number") continue;
+
+      const realised = Math.abs(changePercent) < 2 ? "NEUTRAL" : changePercent > 0 ? "BULLISH" : "BEARISH";
+      const probabilities = directionalProbabilities(
+        prediction.direction,
+        Number(prediction.confidence) || 0.5
+      );
+
+      scores.push(multiCategoryBrierScore(probabilities, realised));
+    }
+
+    return scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : null;
   }
 
   private async getMetrics(forecasterId: string) {
@@ -57,14 +167,14 @@ export class BrierScoreService {
     return (forecaster?.metrics as any) || {};
   }
 
-  async calculateAll() {
-    const forecasters = await prisma.forecaster.findMany();
+  async calculateAll(where: Prisma.ForecasterWhereInput = {}) {
+    const forecasters = await prisma.forecaster.findMany({ where });
 
     const results = [];
 
     for (const forecaster of forecasters) {
       try {
-        const score = await this.calculate(forecaster.id);
+        const score = await this.recordScore(forecaster.id);
         results.push({
           forecasterId: forecaster.id,
           name: forecaster.name,
@@ -83,27 +193,22 @@ export class BrierScoreService {
    * Measures how well confidence levels match actual accuracy
    */
   async calculateCalibration(forecasterId: string) {
-    const predictions = await prisma.prediction.findMany({
-      where: {
-        forecasterId,
-        outcome: { not: "PENDING" },
-        confidence: { not: null },
-      },
-    });
+    const predictions = await this.getScoredPredictions(forecasterId);
+    return this.calibrationError(this.toForecasts(predictions));
+  }
 
+  private calibrationError(forecasts: BinaryForecast[]): number | null {
     // Group predictions by confidence buckets
     const buckets: Record<number, { predictions: number; correct: number }> = {};
 
-    for (const prediction of predictions) {
-      const confidence = Math.round((Number(prediction.confidence) || 0.5) * 10) / 10;
+    for (const forecast of forecasts) {
+      const confidence = Math.round(forecast.probability * 10) / 10;
       if (!buckets[confidence]) {
         buckets[confidence] = { predictions: 0, correct: 0 };
       }
 
       buckets[confidence].predictions++;
-      if (prediction.outcome === "CORRECT") {
-        buckets[confidence].correct++;
-      }
+      buckets[confidence].correct += forecast.outcome;
     }
 
     // Calculate calibration error
@@ -136,7 +241,8 @@ export class BrierScoreService {
 
     if (predictions.length === 0) return null;
 
-    const baseRate = predictions.filter(p => p.outcome === "CORRECT").length / predictions.length;
+    const outcomes = predictions.map(p => outcomeValue(p.outcome, this.options.partialCredit) ?? 0);
+    const baseRate = outcomes.reduce((sum, o) => sum + o, 0) / predictions.length;
 
     let resolution = 0;
     const confidenceBuckets: Record<number, number> = {};
@@ -155,14 +261,35 @@ export class BrierScoreService {
     return resolution;
   }
 
+  /**
+   * Murphy decomposition of the Brier score into reliability, resolution
+   * and uncertainty for a forecaster's resolved predictions
+   */
+  async calculateDecomposition(forecasterId: string) {
+    const predictions = await this.getScoredPredictions(forecasterId);
+    return murphyDecomposition(this.toForecasts(predictions), this.options.bins);
+  }
+
+  /**
+   * Stored score history for a forecaster, newest first
+   */
+  async getHistory(forecasterId: string, limit = 90) {
+    return prisma.forecasterScore.findMany({
+      where: { forecasterId },
+      orderBy: { calculatedAt: "desc" },
+      take: limit,
+    });
+  }
+
   /**
    * Get comprehensive scoring metrics for a forecaster
    */
   async getComprehensiveMetrics(forecasterId: string) {
-    const [brierScore, calibration, resolution] = await Promise.all([
+    const [brierScore, calibration, resolution, decomposition] = await Promise.all([
       this.calculate(forecasterId),
       this.calculateCalibration(forecasterId),
       this.calculateResolution(forecasterId),
+      this.calculateDecomposition(forecasterId),
     ]);
 
     const predictions = await prisma.prediction.findMany({
@@ -170,16 +297,19 @@ export class BrierScoreService {
       select: { outcome: true },
     });
 
-    const total = predictions.length;
-    const correct = predictions.filter(p => p.outcome === "CORRECT").length;
-    const incorrect = predictions.filter(p => p.outcome === "INCORRECT").length;
-    const partial = predictions.filter(p => p.outcome === "PARTIAL").length;
-    const pending = predictions.filter(p => p.outcome === "PENDING").length;
+    const outcomes = predictions.map(p => normalizeOutcome(p.outcome));
+
+    const total = outcomes.length;
+    const correct = outcomes.filter(o => o === "CORRECT").length;
+    const incorrect = outcomes.filter(o => o === "INCORRECT").length;
+    const partial = outcomes.filter(o => o === "PARTIALLY_CORRECT").length;
+    const pending = outcomes.filter(o => o === "PENDING").length;
 
     return {
       brierScore,
       calibration,
       resolution,
+      decomposition,
       accuracy: total > 0 ? correct / total : 0,
       total,
       correct,
@@ -188,4 +318,4 @@ export class BrierScoreService {
       pending,
     };
   }
-}
\ No newline at end of file
+}
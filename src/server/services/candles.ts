@@ -0,0 +1,130 @@
+export const CANDLE_RESOLUTIONS = ["1h", "1d"] as const;
+export type CandleResolution = (typeof CANDLE_RESOLUTIONS)[number];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const RESOLUTION_MS: Record<CandleResolution, number> = {
+  "1h": HOUR_MS,
+  "1d": 24 * HOUR_MS,
+};
+
+export interface Candle {
+  // UTC start of the bucket
+  openTime: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+export interface CandleGap {
+  from: Date;
+  // Exclusive
+  to: Date;
+}
+
+export function bucketStart(date: Date, resolution: CandleResolution): Date {
+  const size = RESOLUTION_MS[resolution];
+  return new Date(Math.floor(date.getTime() / size) * size);
+}
+
+/**
+ * Roll raw price ticks (e.g. CoinGecko market_chart points) into candles.
+ * Volume is the largest reading in the bucket, since providers report it
+ * as a rolling 24h total rather than per tick.
+ */
+export function aggregateCandles(
+  points: Array<{ time: number; price: number; volume?: number | null }>,
+  resolution: CandleResolution
+): Candle[] {
+  const buckets = new Map<number, Candle>();
+
+  for (const point of [...points].sort((a, b) => a.time - b.time)) {
+    if (!Number.isFinite(point.price)) continue;
+    const start = bucketStart(new Date(point.time), resolution).getTime();
+    const candle = buckets.get(start);
+
+    if (!candle) {
+      buckets.set(start, {
+        openTime: new Date(start),
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        volume: point.volume ?? null,
+      });
+      continue;
+    }
+
+    candle.high = Math.max(candle.high, point.price);
+    candle.low = Math.min(candle.low, point.price);
+    candle.close = point.price;
+    if (point.volume != null) candle.volume = Math.max(candle.volume ?? 0, point.volume);
+  }
+
+  return [...buckets.values()];
+}
+
+/**
+ * Missing buckets a market can legitimately have: none for 24/7 crypto,
+ * a long weekend for everything that trades on an exchange calendar
+ */
+export function gapTolerance(assetType: string, resolution: CandleResolution): number {
+  if (assetType === "CRYPTO") return 0;
+  return resolution === "1d" ? 4 : 66;
+}
+
+/**
+ * Ranges of [from, to) with no stored candle, ignoring runs of up to
+ * `tolerance` missing buckets. Buckets still open at `now` are never gaps.
+ */
+export function findGaps(
+  openTimes: Date[],
+  from: Date,
+  to: Date,
+  resolution: CandleResolution,
+  tolerance = 0,
+  now: Date = new Date()
+): CandleGap[] {
+  const size = RESOLUTION_MS[resolution];
+  const first = bucketStart(from, resolution).getTime();
+  // Start of the last bucket that has fully closed by both `to` and now
+  const last = Math.min(bucketStart(new Date(to.getTime() - 1), resolution).getTime(), bucketStart(now, resolution).getTime() - size);
+
+  if (last < first) return [];
+
+  const stored = [...new Set(openTimes.map(t => t.getTime()))]
+    .filter(t => t >= first && t <= last)
+    .sort((a, b) => a - b);
+
+  if (stored.length === 0) {
+    return [{ from: new Date(first), to: new Date(last + size) }];
+  }
+
+  const gaps: CandleGap[] = [];
+  let previous = first - size;
+
+  for (const time of [...stored, last + size]) {
+    const missing = Math.round((time - previous) / size) - 1;
+    if (missing > tolerance) {
+      gaps.push({ from: new Date(previous + size), to: new Date(time) });
+    }
+    previous = time;
+  }
+
+  return gaps;
+}
+
+/**
+ * Price points for the resolution engine: one per candle at its close,
+ * carrying the range so a target touched intrabar still counts
+ */
+export function candlePoints(candles: Candle[], resolution: CandleResolution) {
+  return candles.map(candle => ({
+    price: candle.close,
+    high: candle.high,
+    low: candle.low,
+    recordedAt: new Date(candle.openTime.getTime() + RESOLUTION_MS[resolution]),
+  }));
+}
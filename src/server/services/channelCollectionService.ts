@@ -1,5 +1,6 @@
 import { env } from "@/env.mjs";
 import { prisma } from "../db";
+import type { LLMTarget } from "./llm/types";
 
 interface CollectionResult {
   success: boolean;
@@ -20,6 +21,8 @@ interface ChannelConfig {
     checkInterval: number;
     lastChecked: string | null;
     enabled: boolean;
+    // Extraction provider chain; the deployment default when absent
+    llm?: LLMTarget[];
   };
   keywords: Array<{
     id: string;
@@ -1,5 +1,7 @@
 import { env } from "@/env.mjs";
 import { prisma } from "../db";
+import { ContentPipelineService, moveContent, type ContentState } from "./contentPipeline";
+import type { UnifiedPrediction } from './extraction';
 
 interface ContentData {
   sourceType: "YOUTUBE" | "TWITTER";
@@ -12,6 +14,52 @@ interface ContentData {
   forecasterId?: string;
 }
 
+/**
+ * Record inline collection progress on the content row so pipeline workers
+ * do not pick the same item up again
+ */
+async function recordContentState(
+  data: ContentData,
+  to: ContentState,
+  reason: string,
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  await moveContent(
+    {
+      sourceType: data.sourceType,
+      sourceId: data.sourceId,
+      forecasterId: data.forecasterId || "",
+    },
+    to,
+    { reason, metadata }
+  );
+}
+
+/**
+ * Queue borderline inline extractions for review, linked to the stored content row
+ */
+async function queueForReview(data: ContentData, predictions: UnifiedPrediction[]): Promise<number> {
+  if (!data.forecasterId || predictions.length === 0) return 0;
+
+  const row = await prisma.content.findUnique({
+    where: {
+      sourceType_sourceId_forecasterId: {
+        sourceType: data.sourceType,
+        sourceId: data.sourceId,
+        forecasterId: data.forecasterId,
+      },
+    },
+    select: { id: true },
+  });
+
+  const { ReviewQueueService } = await import('./reviewQueue');
+  return new ReviewQueueService().enqueue(predictions, {
+    forecasterId: data.forecasterId,
+    contentId: row?.id,
+    source: { type: data.sourceType.toLowerCase(), url: data.sourceUrl ?? null },
+  });
+}
+
 export class YouTubeCollector {
   private apiKey = env.GOOGLE_API_KEY;
   private baseUrl = "https://www.googleapis.com/youtube/v3";
@@ -64,11 +112,17 @@ export class YouTubeCollector {
 
       await this.storeContent(content);
 
+      if (content.transcript) {
+        await recordContentState(content, "TRANSCRIBED", "inline collection");
+      }
+
       // Run prediction extraction if we have a transcript
       if (content.transcript && content.forecasterId) {
         console.log(`[YouTubeCollector] Running prediction extraction for video: ${videoId}`);
+        await recordContentState(content, "EXTRACTING", "inline collection");
         try {
-          const { UnifiedExtractionService } = await import('./extraction');
+          const { UnifiedExtractionService, contentProvenance, predictionProvenance } = await import('./extraction');
+          const { channelLLMTargets } = await import('./llm');
           const extractionService = new UnifiedExtractionService();
 
           const videoData = {
@@ -82,7 +136,8 @@ export class YouTubeCollector {
             transcriptWithTimestamps: []
           };
 
-          const result = await extractionService.extractFromVideo(videoData);
+          const llm = await channelLLMTargets(content.forecasterId, 'YOUTUBE');
+          const result = await extractionService.extractFromVideo(videoData, { llm });
           console.log(`[YouTubeCollector] Extracted ${result.predictions.length} predictions from video ${videoId}`);
 
           // Store predictions with source information
@@ -99,14 +154,24 @@ export class YouTubeCollector {
                 tags: p.context.technicalIndicators || [],
                 aiDirection: p.prediction.direction?.toUpperCase() || 'NEUTRAL',
                 sourceType: 'YOUTUBE',
-                sourceUrl: content.sourceUrl
+                sourceUrl: content.sourceUrl,
+                provenance: predictionProvenance(p)
               })),
               content.forecasterId
             );
             console.log(`[YouTubeCollector] Stored ${result.predictions.length} predictions to database`);
           }
+
+          const queuedForReview = await queueForReview(content, result.needsReview);
+
+          await recordContentState(content, "PROCESSED", "inline collection", {
+            queuedForReview,
+            extraction: contentProvenance(result),
+          });
         } catch (error) {
           console.error(`[YouTubeCollector] Extraction failed for video ${videoId}:`, error);
+          // Leave it for the pipeline's extract stage to retry
+          await recordContentState(content, "TRANSCRIBED", "inline extraction failed");
         }
       }
 
@@ -202,8 +267,11 @@ export class TwitterCollector {
       // Run prediction extraction for Twitter content
       if (content.text && content.forecasterId) {
         console.log(`[TwitterCollector] Running prediction extraction for tweet: ${tweetId}`);
+        await recordContentState(content, "TRANSCRIBED", "text source");
+        await recordContentState(content, "EXTRACTING", "inline collection");
         try {
-          const { UnifiedExtractionService } = await import('./extraction');
+          const { UnifiedExtractionService, contentProvenance, predictionProvenance } = await import('./extraction');
+          const { channelLLMTargets } = await import('./llm');
           const extractionService = new UnifiedExtractionService();
 
           // Since extractFromContent doesn't support source info, we need to manually add predictions
@@ -219,7 +287,8 @@ export class TwitterCollector {
             transcriptWithTimestamps: []
           };
 
-          const result = await extractionService.extractFromVideo(videoData);
+          const llm = await channelLLMTargets(content.forecasterId, 'TWITTER');
+          const result = await extractionService.extractFromVideo(videoData, { llm });
 
           if (result.predictions.length > 0) {
             await extractionService.storePredictions(
@@ -234,15 +303,23 @@ export class TwitterCollector {
                 tags: p.context.technicalIndicators || [],
                 aiDirection: p.prediction.direction?.toUpperCase() || 'NEUTRAL',
                 sourceType: 'TWITTER',
-                sourceUrl: content.sourceUrl
+                sourceUrl: content.sourceUrl,
+                provenance: predictionProvenance(p)
               })),
               content.forecasterId
             );
           }
 
           console.log(`[TwitterCollector] Extracted ${result.predictions.length} predictions from tweet ${tweetId}`);
+          const queuedForReview = await queueForReview(content, result.needsReview);
+
+          await recordContentState(content, "PROCESSED", "inline collection", {
+            queuedForReview,
+            extraction: contentProvenance(result),
+          });
         } catch (error) {
           console.error(`[TwitterCollector] Extraction failed for tweet ${tweetId}:`, error);
+          await recordContentState(content, "TRANSCRIBED", "inline extraction failed");
         }
       }
 
@@ -289,10 +366,12 @@ export class TwitterCollector {
 export class ContentCollectionService {
   private youtubeCollector: YouTubeCollector;
   private twitterCollector: TwitterCollector;
+  private contentPipeline: ContentPipelineService;
 
   constructor() {
     this.youtubeCollector = new YouTubeCollector();
     this.twitterCollector = new TwitterCollector();
+    this.contentPipeline = new ContentPipelineService();
   }
 
   async collectContent(sourceUrl: string, forecasterId?: string): Promise<ContentData | null> {
@@ -687,171 +766,18 @@ export class ContentCollectionService {
   // Process collected content through extraction pipeline
   private async processContentForExtraction(forecasterId: string, sourceType: "YOUTUBE" | "TWITTER"): Promise<any[]> {
     try {
-      // PRIORITY 1: Resume content that's partially processed (failed mid-pipeline)
-      const partiallyProcessedContent = await prisma.content.findMany({
-        where: {
-          forecasterId: forecasterId,
-          sourceType: sourceType,
-          status: {
-            in: ['AUDIO_DOWNLOADED', 'TRANSCRIBING', 'TRANSCRIBED', 'EXTRACTING']
-          }
-        },
-        orderBy: { createdAt: 'asc' }, // Process oldest first
-        take: 5 // Process fewer at a time for partially processed content
-      });
+      // Stage workers resume partially processed items before new ones
+      const { recovered, results } = await this.contentPipeline.tick({ forecasterId, sourceType });
 
-      // PRIORITY 2: Get newly collected content
-      const newContent = await prisma.content.findMany({
-        where: {
-          forecasterId: forecasterId,
-          sourceType: sourceType,
-          status: 'COLLECTED'
-        },
-        orderBy: { createdAt: 'desc' },
-        take: 10 // Process latest 10 items
-      });
-
-      // Combine with partially processed first
-      const unprocessedContent = [...partiallyProcessedContent, ...newContent];
-
-      if (unprocessedContent.length === 0) {
-        console.log(`No unprocessed ${sourceType} content found for forecaster ${forecasterId}`);
-        return [];
+      if (recovered > 0) {
+        console.log(`🔄 Recovered ${recovered} stuck content items`);
       }
 
-      console.log(`📊 Processing queue for ${sourceType}:`);
-      console.log(`  - ${partiallyProcessedContent.length} partially processed (resuming)`);
-      console.log(`  - ${newContent.length} newly collected`);
-
-      console.log(`🔄 Processing ${unprocessedContent.length} ${sourceType} content items for extraction...`);
-
-      // Import extraction service
-      const { UnifiedExtractionService } = await import('./extraction');
-      const extractionService = new UnifiedExtractionService();
-
-      const allPredictions: any[] = [];
-
-      for (const content of unprocessedContent) {
-        try {
-          const contentData = content.data as any;
-          console.log(`\n📝 Processing content ${content.id} (Status: ${content.status})`);
-
-          // Handle based on current status
-          if (content.status === 'AUDIO_DOWNLOADED') {
-            // Resume from transcription step
-            console.log(`  → Resuming from transcription (audio already downloaded)`);
-            const { TranscriptionService } = await import('./transcription');
-            const transcriptionService = new TranscriptionService();
-
-            const metadata = content.processingMetadata as any;
-            if (metadata?.audioPath) {
-              const result = await transcriptionService.transcribeExistingAudio(
-                metadata.audioPath,
-                content.sourceId,
-                `${forecasterId}_${content.sourceId}`
-              );
-
-              if (result?.transcript) {
-                contentData.transcript = result.transcript;
-                await prisma.content.update({
-                  where: { id: content.id },
-                  data: {
-                    data: contentData,
-                    status: 'TRANSCRIBED'
-                  }
-                });
-              }
-            }
-          }
-
-          // For TRANSCRIBED or newly transcribed content, proceed to extraction
-          if (content.status === 'TRANSCRIBED' || contentData.transcript) {
-            let textToExtract = '';
-            if (sourceType === "YOUTUBE") {
-              textToExtract = contentData.transcript || contentData.text || '';
-            } else {
-              textToExtract = contentData.text || '';
-            }
-
-            if (!textToExtract || textToExtract.length < 50) {
-              console.log(`  → Skipping: insufficient text content (${textToExtract.length} chars)`);
-              continue;
-            }
-
-            console.log(`  → Extracting predictions from ${textToExtract.length} characters`);
-            await prisma.content.update({
-              where: { id: content.id },
-              data: { status: 'EXTRACTING' }
-            });
-
-            // Extract predictions using the legacy compatibility method
-            const predictions = await extractionService.extractFromContent(
-              textToExtract,
-              sourceType,
-              forecasterId
-            );
-
-            if (predictions.length > 0) {
-              console.log(`  ✅ Extracted ${predictions.length} predictions`);
-              allPredictions.push(...predictions);
-            } else {
-              console.log(`  ⚠️ No predictions found`);
-            }
-
-            // Update content status to processed
-            await prisma.content.update({
-              where: { id: content.id },
-              data: {
-                status: "PROCESSED",
-                processedAt: new Date()
-              }
-            });
-          }
-
-          // For COLLECTED status, need full pipeline (handled by existing collection)
-          if (content.status === 'COLLECTED' && sourceType === "YOUTUBE") {
-            // This will be handled by the regular collection flow
-            console.log(`  → Content needs full processing pipeline`);
-
-            // For YouTube, we need to get transcript first
-            const youtubeCollector = new YouTubeCollector();
-
-            // This will trigger the full pipeline with resume support
-            await youtubeCollector.collectVideo(content.sourceId, forecasterId);
-          }
-
-        } catch (extractionError) {
-          console.error(`Failed to process content ${content.id}:`, extractionError);
-
-          // Update metadata with error but don't mark as FAILED immediately
-          // This allows retry on next run
-          const metadata = content.processingMetadata as any || {};
-          await prisma.content.update({
-            where: { id: content.id },
-            data: {
-              processingMetadata: {
-                ...metadata,
-                lastError: extractionError instanceof Error ? extractionError.message : String(extractionError),
-                lastErrorAt: new Date().toISOString(),
-                retryCount: (metadata.retryCount || 0) + 1
-              }
-            }
-          });
-
-          // Only mark as FAILED after 3 retries
-          if ((metadata.retryCount || 0) >= 3) {
-            await prisma.content.update({
-              where: { id: content.id },
-              data: {
-                status: "FAILED",
-                processedAt: new Date()
-              }
-            });
-          }
-        }
+      for (const result of results) {
+        console.log(`  - ${result.stage}: ${result.succeeded} succeeded, ${result.failed} failed`);
       }
 
-      return allPredictions;
+      return results.flatMap(result => result.predictions);
 
     } catch (error) {
       console.error(`Failed to process content for extraction:`, error);
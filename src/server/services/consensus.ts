@@ -0,0 +1,454 @@
+import { type Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { HORIZON_BUCKETS, horizonBucket } from "./forecasterAnalytics";
+import { PriceBackfillService } from "./priceBackfill";
+import { DIRECTION_THRESHOLD_PERCENT, NEUTRAL_BAND_PERCENT } from "./resolution";
+import { outcomeValue } from "./scoring";
+import { utcDay } from "./sentimentHistory";
+
+export const CONSENSUS_SNAPSHOT_JOB = "SNAPSHOT_CONSENSUS";
+
+export type ConsensusDirection = "BULLISH" | "BEARISH" | "NEUTRAL" | "MIXED";
+type CalledDirection = Exclude<ConsensusDirection, "MIXED">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Weighted share the leading direction needs before the crowd has a view
+const MIN_AGREEMENT = 0.5;
+const RECENT_HISTORY = 10;
+
+export interface ConsensusCall {
+  predictionId: string;
+  forecasterId: string;
+  forecasterName: string;
+  direction: string | null;
+  targetPrice: number | null;
+  targetDate: Date | null;
+  createdAt: Date;
+  // Forecaster's track-record weight, 0-1
+  weight: number;
+}
+
+export interface TargetDistribution {
+  count: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  weightedMean: number;
+}
+
+export interface Contrarian {
+  predictionId: string;
+  forecasterId: string;
+  forecasterName: string;
+  direction: CalledDirection;
+  targetPrice: number | null;
+  weight: number;
+}
+
+export interface HorizonConsensus {
+  horizon: string;
+  label: string;
+  direction: ConsensusDirection;
+  // Weighted share behind the leading direction
+  agreement: number;
+  shares: Record<CalledDirection, number>;
+  calls: number;
+  // The calls counted, one per forecaster
+  predictionIds: string[];
+  targets: TargetDistribution | null;
+  // Median target against the current price, in percent
+  impliedMove: number | null;
+  contrarians: Contrarian[];
+  // Median target date of the calls, when the consensus gets scored
+  evaluateAt: Date | null;
+}
+
+export interface ConsensusHistory {
+  evaluated: number;
+  correct: number;
+  accuracy: number | null;
+  // Times the crowd was wrong while someone called the other side
+  contrarianWins: number;
+  byHorizon: Array<{ horizon: string; evaluated: number; correct: number; accuracy: number | null }>;
+  recent: Array<{
+    day: Date;
+    horizon: string;
+    direction: string;
+    agreement: number;
+    outcome: string;
+    realizedChange: number | null;
+  }>;
+}
+
+export interface AssetConsensus {
+  assetId: string;
+  symbol: string;
+  type: string;
+  price: number | null;
+  horizons: HorizonConsensus[];
+  history: ConsensusHistory;
+}
+
+const HORIZON_ORDER = [...HORIZON_BUCKETS.map(b => b.key), "NONE"];
+const horizonLabel = (key: string) => HORIZON_BUCKETS.find(b => b.key === key)?.label ?? "No target date";
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Track-record weight: share of resolved calls that came good, with partial
+ * calls at half credit, shrunk toward 0.5 so a forecaster with two lucky calls
+ * doesn't outweigh one with a long record
+ */
+export function trackRecordWeight(resolved: number, credit: number): number {
+  return (credit + 1) / (resolved + 2);
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
+
+export function targetDistribution(calls: ConsensusCall[]): TargetDistribution | null {
+  const targeted = calls.filter(c => c.targetPrice !== null && c.targetPrice > 0);
+  if (targeted.length === 0) return null;
+
+  const sorted = targeted.map(c => c.targetPrice!).sort((a, b) => a - b);
+  const totalWeight = targeted.reduce((sum, c) => sum + c.weight, 0);
+
+  return {
+    count: sorted.length,
+    min: sorted[0]!,
+    p25: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    p75: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1]!,
+    weightedMean: totalWeight > 0 ? targeted.reduce((sum, c) => sum + c.targetPrice! * c.weight, 0) / totalWeight : quantile(sorted, 0.5),
+  };
+}
+
+/**
+ * The crowd's view for one horizon. Only each forecaster's latest call
+ * counts, so repeating a view doesn't add weight to it.
+ */
+export function buildConsensus(horizon: string, calls: ConsensusCall[], price: number | null): HorizonConsensus {
+  const latest = new Map<string, ConsensusCall>();
+  for (const call of calls) {
+    const seen = latest.get(call.forecasterId);
+    if (!seen || call.createdAt > seen.createdAt) latest.set(call.forecasterId, call);
+  }
+  const counted = [...latest.values()];
+
+  const called = (call: ConsensusCall): CalledDirection =>
+    call.direction === "BULLISH" || call.direction === "BEARISH" ? call.direction : "NEUTRAL";
+
+  const totals: Record<CalledDirection, number> = { BULLISH: 0, BEARISH: 0, NEUTRAL: 0 };
+  for (const call of counted) totals[called(call)] += call.weight;
+  const totalWeight = totals.BULLISH + totals.BEARISH + totals.NEUTRAL;
+
+  const shares = {
+    BULLISH: totalWeight ? round(totals.BULLISH / totalWeight, 4) : 0,
+    BEARISH: totalWeight ? round(totals.BEARISH / totalWeight, 4) : 0,
+    NEUTRAL: totalWeight ? round(totals.NEUTRAL / totalWeight, 4) : 0,
+  };
+  const [leader, agreement] = (Object.entries(shares) as Array<[CalledDirection, number]>).sort((a, b) => b[1] - a[1])[0]!;
+  const direction: ConsensusDirection = agreement >= MIN_AGREEMENT ? leader : "MIXED";
+
+  const opposite = direction === "BULLISH" ? "BEARISH" : direction === "BEARISH" ? "BULLISH" : null;
+  const contrarians = counted
+    .filter(call => opposite !== null && called(call) === opposite)
+    .sort((a, b) => b.weight - a.weight)
+    .map(call => ({
+      predictionId: call.predictionId,
+      forecasterId: call.forecasterId,
+      forecasterName: call.forecasterName,
+      direction: called(call),
+      targetPrice: call.targetPrice,
+      weight: round(call.weight, 4),
+    }));
+
+  const targets = targetDistribution(counted);
+  const targetDates = counted.flatMap(c => (c.targetDate ? [c.targetDate.getTime()] : [])).sort((a, b) => a - b);
+
+  return {
+    horizon,
+    label: horizonLabel(horizon),
+    direction,
+    agreement,
+    shares,
+    calls: counted.length,
+    predictionIds: counted.map(call => call.predictionId),
+    targets,
+    impliedMove: targets && price ? round(((targets.median - price) / price) * 100, 2) : null,
+    contrarians,
+    evaluateAt: targetDates.length ? new Date(quantile(targetDates, 0.5)) : null,
+  };
+}
+
+export function consensusByHorizon(calls: ConsensusCall[], price: number | null): HorizonConsensus[] {
+  const groups = new Map<string, ConsensusCall[]>();
+  for (const call of calls) {
+    const key = horizonBucket(call.createdAt, call.targetDate);
+    groups.set(key, [...(groups.get(key) ?? []), call]);
+  }
+
+  return [...groups]
+    .sort(([a], [b]) => HORIZON_ORDER.indexOf(a) - HORIZON_ORDER.indexOf(b))
+    .map(([horizon, members]) => buildConsensus(horizon, members, price));
+}
+
+/**
+ * Score a consensus against the realised move, with the same thresholds
+ * individual predictions are resolved by
+ */
+export function scoreConsensus(direction: string, changePercent: number): "CORRECT" | "INCORRECT" | "NO_CONSENSUS" {
+  switch (direction) {
+    case "BULLISH":
+      return changePercent > DIRECTION_THRESHOLD_PERCENT ? "CORRECT" : "INCORRECT";
+    case "BEARISH":
+      return changePercent < -DIRECTION_THRESHOLD_PERCENT ? "CORRECT" : "INCORRECT";
+    case "NEUTRAL":
+      return Math.abs(changePercent) < NEUTRAL_BAND_PERCENT ? "CORRECT" : "INCORRECT";
+    default:
+      return "NO_CONSENSUS";
+  }
+}
+
+/**
+ * Accuracy-weighted crowd view per asset and horizon from active PENDING
+ * predictions, with a daily snapshot so its own track record can be kept
+ */
+export class ConsensusService {
+  constructor(private priceBackfill: PriceBackfillService = new PriceBackfillService()) {}
+
+  async forAsset(assetId: string): Promise<AssetConsensus | null> {
+    const asset = await prisma.asset.findUnique({
+      where: { id: assetId },
+      select: { id: true, symbol: true, type: true, priceData: true },
+    });
+    if (!asset) return null;
+
+    const price = Number((asset.priceData as { price?: number | null } | null)?.price) || null;
+    const calls = await this.activeCalls(assetId);
+
+    return {
+      assetId: asset.id,
+      symbol: asset.symbol,
+      type: asset.type,
+      price,
+      horizons: consensusByHorizon(calls, price),
+      history: await this.history(assetId),
+    };
+  }
+
+  /**
+   * How the asset's past snapshots fared once their horizon passed
+   */
+  async history(assetId: string): Promise<ConsensusHistory> {
+    const scored = { assetId, outcome: { in: ["CORRECT", "INCORRECT"] } };
+
+    const [byOutcome, contrarianWins, recent] = await Promise.all([
+      prisma.consensusSnapshot.groupBy({
+        by: ["horizon", "outcome"],
+        where: scored,
+        _count: { _all: true },
+      }),
+      prisma.consensusSnapshot.count({
+        where: { assetId, outcome: "INCORRECT", NOT: { contrarians: { equals: [] } } },
+      }),
+      prisma.consensusSnapshot.findMany({
+        where: scored,
+        orderBy: { evaluatedAt: "desc" },
+        take: RECENT_HISTORY,
+        select: { day: true, horizon: true, direction: true, agreement: true, outcome: true, realizedChange: true },
+      }),
+    ]);
+
+    const count = (horizon: string | null, outcome?: string) =>
+      byOutcome
+        .filter(row => (horizon === null || row.horizon === horizon) && (!outcome || row.outcome === outcome))
+        .reduce((sum, row) => sum + row._count._all, 0);
+    const accuracy = (correct: number, evaluated: number) => (evaluated ? round((correct / evaluated) * 100, 1) : null);
+
+    const horizons = HORIZON_ORDER.filter(horizon => count(horizon) > 0);
+
+    return {
+      evaluated: count(null),
+      correct: count(null, "CORRECT"),
+      accuracy: accuracy(count(null, "CORRECT"), count(null)),
+      contrarianWins,
+      byHorizon: horizons.map(horizon => ({
+        horizon,
+        evaluated: count(horizon),
+        correct: count(horizon, "CORRECT"),
+        accuracy: accuracy(count(horizon, "CORRECT"), count(horizon)),
+      })),
+      recent: recent.map(snapshot => ({
+        ...snapshot,
+        agreement: Number(snapshot.agreement),
+        realizedChange: snapshot.realizedChange !== null ? Number(snapshot.realizedChange) : null,
+      })),
+    };
+  }
+
+  /**
+   * Record today's consensus for every asset with active predictions.
+   * Safe to repeat: a second run the same day overwrites the first.
+   */
+  async snapshotAll(now = new Date()): Promise<number> {
+    const assets = await prisma.prediction.groupBy({
+      by: ["assetId"],
+      where: { outcome: "PENDING", assetId: { not: null } },
+    });
+    const day = utcDay(now);
+    let stored = 0;
+
+    for (const { assetId } of assets) {
+      try {
+        const asset = await prisma.asset.findUnique({ where: { id: assetId! }, select: { priceData: true } });
+        const price = Number((asset?.priceData as { price?: number | null } | null)?.price) || null;
+
+        for (const consensus of consensusByHorizon(await this.activeCalls(assetId!, now), price)) {
+          // Nothing to score against without a horizon end and a starting price
+          const outcome =
+            consensus.direction === "MIXED" ? "NO_CONSENSUS" : consensus.evaluateAt && price ? "PENDING" : "UNSCORED";
+          const data = {
+            direction: consensus.direction,
+            agreement: consensus.agreement,
+            bullishShare: consensus.shares.BULLISH,
+            bearishShare: consensus.shares.BEARISH,
+            neutralShare: consensus.shares.NEUTRAL,
+            calls: consensus.calls,
+            medianTarget: consensus.targets?.median ?? null,
+            price,
+            contrarians: consensus.contrarians.map(c => ({
+              forecasterId: c.forecasterId,
+              direction: c.direction,
+              weight: c.weight,
+            })) as Prisma.InputJsonValue,
+            evaluateAt: consensus.evaluateAt,
+            outcome,
+          };
+
+          await prisma.consensusSnapshot.upsert({
+            where: { assetId_horizon_day: { assetId: assetId!, horizon: consensus.horizon, day } },
+            create: { assetId: assetId!, horizon: consensus.horizon, day, ...data },
+            update: data,
+          });
+          stored++;
+        }
+      } catch (error) {
+        console.error(`[Consensus] Failed to snapshot asset ${assetId}:`, error);
+      }
+    }
+
+    return stored;
+  }
+
+  /**
+   * Score snapshots whose horizon has passed. Those still missing a price
+   * stay PENDING for the next run.
+   */
+  async evaluateDue(now = new Date()): Promise<{ evaluated: number; skipped: number }> {
+    const due = await prisma.consensusSnapshot.findMany({
+      where: { outcome: "PENDING", evaluateAt: { lte: now } },
+      include: { asset: { select: { id: true, symbol: true, type: true } } },
+      orderBy: { evaluateAt: "asc" },
+    });
+    let evaluated = 0;
+    let skipped = 0;
+
+    for (const snapshot of due) {
+      try {
+        const at = snapshot.evaluateAt!;
+        await this.priceBackfill.ensureCandles(snapshot.asset, "1d", new Date(at.getTime() - 4 * DAY_MS), new Date(at.getTime() + DAY_MS));
+        const endPrice = await this.priceBackfill.priceAt(snapshot.assetId, at);
+
+        if (endPrice === null || snapshot.price === null) {
+          skipped++;
+          continue;
+        }
+
+        const realizedChange = ((endPrice - Number(snapshot.price)) / Number(snapshot.price)) * 100;
+        await prisma.consensusSnapshot.update({
+          where: { id: snapshot.id },
+          data: {
+            outcome: scoreConsensus(snapshot.direction, realizedChange),
+            realizedChange,
+            evaluatedAt: now,
+          },
+        });
+        evaluated++;
+      } catch (error) {
+        console.error(`[Consensus] Failed to evaluate snapshot ${snapshot.id}:`, error);
+        skipped++;
+      }
+    }
+
+    return { evaluated, skipped };
+  }
+
+  /**
+   * Job handler: snapshot today's consensus, then score matured ones
+   */
+  async run(): Promise<{ stored: number; evaluated: number; skipped: number }> {
+    const stored = await this.snapshotAll();
+    const { evaluated, skipped } = await this.evaluateDue();
+
+    return { stored, evaluated, skipped };
+  }
+
+  // PENDING predictions whose target date hasn't passed, weighted by their forecaster's record
+  private async activeCalls(assetId: string, now = new Date()): Promise<ConsensusCall[]> {
+    const predictions = await prisma.prediction.findMany({
+      where: {
+        assetId,
+        outcome: "PENDING",
+        OR: [{ targetDate: null }, { targetDate: { gt: now } }],
+      },
+      select: {
+        id: true,
+        forecasterId: true,
+        direction: true,
+        targetPrice: true,
+        targetDate: true,
+        createdAt: true,
+        forecaster: { select: { name: true } },
+      },
+    });
+    if (predictions.length === 0) return [];
+
+    const weights = await this.trackRecords([...new Set(predictions.map(p => p.forecasterId))]);
+
+    return predictions.map(p => ({
+      predictionId: p.id,
+      forecasterId: p.forecasterId,
+      forecasterName: p.forecaster.name,
+      direction: p.direction,
+      targetPrice: p.targetPrice !== null ? Number(p.targetPrice) : null,
+      targetDate: p.targetDate,
+      createdAt: p.createdAt,
+      weight: weights.get(p.forecasterId) ?? trackRecordWeight(0, 0),
+    }));
+  }
+
+  private async trackRecords(forecasterIds: string[]): Promise<Map<string, number>> {
+    const rows = await prisma.prediction.groupBy({
+      by: ["forecasterId", "outcome"],
+      where: { forecasterId: { in: forecasterIds }, outcome: { in: ["CORRECT", "INCORRECT", "PARTIALLY_CORRECT"] } },
+      _count: { _all: true },
+    });
+
+    const records = new Map<string, { resolved: number; credit: number }>();
+    for (const row of rows) {
+      const record = records.get(row.forecasterId) ?? { resolved: 0, credit: 0 };
+      record.resolved += row._count._all;
+      record.credit += (outcomeValue(row.outcome) ?? 0) * row._count._all;
+      records.set(row.forecasterId, record);
+    }
+
+    return new Map([...records].map(([id, r]) => [id, trackRecordWeight(r.resolved, r.credit)]));
+  }
+}
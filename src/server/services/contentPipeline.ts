@@ -0,0 +1,733 @@
+import * as fs from "fs";
+import { type Content, type Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { CURRENT_PROMPT_VERSION, UNVERSIONED_PROMPT } from "./extractionPrompts";
+
+export const CONTENT_STATES = [
+  "COLLECTED",
+  "AUDIO_DOWNLOADING",
+  "AUDIO_DOWNLOADED",
+  "TRANSCRIBING",
+  "TRANSCRIBED",
+  "EXTRACTING",
+  "PROCESSED",
+  "FAILED",
+] as const;
+
+export type ContentState = (typeof CONTENT_STATES)[number];
+
+/**
+ * Allowed Content.status transitions. Backward edges out of the in-progress
+ * states are stage retries; edges out of FAILED and PROCESSED are admin
+ * "retry from stage" actions.
+ */
+export const CONTENT_TRANSITIONS: Record<ContentState, readonly ContentState[]> = {
+  // Text-only sources (tweets) have nothing to transcribe
+  COLLECTED: ["AUDIO_DOWNLOADING", "TRANSCRIBED", "FAILED"],
+  // Captions found while acquiring the source skip the audio path
+  AUDIO_DOWNLOADING: ["AUDIO_DOWNLOADED", "TRANSCRIBED", "COLLECTED", "FAILED"],
+  AUDIO_DOWNLOADED: ["TRANSCRIBING", "COLLECTED", "FAILED"],
+  // Back to COLLECTED when the downloaded audio file has gone missing
+  TRANSCRIBING: ["TRANSCRIBED", "AUDIO_DOWNLOADED", "COLLECTED", "FAILED"],
+  TRANSCRIBED: ["EXTRACTING", "FAILED"],
+  EXTRACTING: ["PROCESSED", "TRANSCRIBED", "FAILED"],
+  PROCESSED: ["COLLECTED", "TRANSCRIBED"],
+  FAILED: ["COLLECTED", "AUDIO_DOWNLOADED", "TRANSCRIBED"],
+};
+
+export type PipelineStage = "download" | "transcribe" | "extract";
+
+export interface StageConfig {
+  input: ContentState;
+  active: ContentState;
+  maxAttempts: number;
+  // An item left in the active state longer than this is assumed orphaned by a crash
+  timeoutMs: number;
+}
+
+export const PIPELINE_STAGES: Record<PipelineStage, StageConfig> = {
+  download: { input: "COLLECTED", active: "AUDIO_DOWNLOADING", maxAttempts: 3, timeoutMs: 30 * 60 * 1000 },
+  transcribe: { input: "AUDIO_DOWNLOADED", active: "TRANSCRIBING", maxAttempts: 3, timeoutMs: 60 * 60 * 1000 },
+  extract: { input: "TRANSCRIBED", active: "EXTRACTING", maxAttempts: 2, timeoutMs: 20 * 60 * 1000 },
+};
+
+export const STAGE_ORDER: PipelineStage[] = ["download", "transcribe", "extract"];
+
+const HISTORY_LIMIT = 20;
+const MIN_EXTRACTION_TEXT = 50;
+
+export interface PipelineMetadata {
+  stage?: PipelineStage;
+  stageStartedAt?: string;
+  attempts?: Partial<Record<PipelineStage, number>>;
+  failedStage?: PipelineStage;
+  lastError?: string;
+  history?: Array<{ from: string; to: string; at: string; reason?: string }>;
+}
+
+export interface TransitionOptions {
+  reason?: string;
+  stage?: PipelineStage;
+  error?: string;
+  // Extra processingMetadata keys (audioPath, provenance, ...)
+  metadata?: Record<string, unknown>;
+  data?: Prisma.InputJsonValue;
+}
+
+export function isContentState(value: string): value is ContentState {
+  return (CONTENT_STATES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: ContentState): boolean {
+  return isContentState(from) && CONTENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * States from which `to` may be entered
+ */
+export function predecessorsOf(to: ContentState): ContentState[] {
+  return CONTENT_STATES.filter(state => CONTENT_TRANSITIONS[state].includes(to));
+}
+
+export function stageForState(state: string): PipelineStage | undefined {
+  return STAGE_ORDER.find(stage => PIPELINE_STAGES[stage].active === state || PIPELINE_STAGES[stage].input === state);
+}
+
+/**
+ * Next processingMetadata after moving `from` → `to`. Keeps the legacy
+ * lastStep/error keys in sync so older readers still work.
+ */
+export function applyTransition(
+  metadata: unknown,
+  from: string,
+  to: ContentState,
+  options: TransitionOptions = {},
+  now = new Date()
+): Record<string, unknown> {
+  const current = (metadata && typeof metadata === "object" ? metadata : {}) as Record<string, unknown>;
+  const pipeline = (current.pipeline ?? {}) as PipelineMetadata;
+  const at = now.toISOString();
+
+  const history = [
+    ...(pipeline.history ?? []),
+    { from, to, at, ...(options.reason && { reason: options.reason }) },
+  ].slice(-HISTORY_LIMIT);
+
+  const entersStage = STAGE_ORDER.find(stage => PIPELINE_STAGES[stage].active === to);
+
+  const next: PipelineMetadata = {
+    ...pipeline,
+    history,
+    stage: entersStage ?? options.stage ?? pipeline.stage,
+    stageStartedAt: entersStage ? at : undefined,
+    ...(options.error && { lastError: options.error }),
+    ...(to === "FAILED" ? { failedStage: options.stage ?? pipeline.stage } : { failedStage: undefined }),
+  };
+
+  return {
+    ...current,
+    ...options.metadata,
+    lastStep: to,
+    ...(options.error && { error: options.error }),
+    updatedAt: at,
+    pipeline: next,
+  };
+}
+
+export function stageAttempts(metadata: unknown, stage: PipelineStage): number {
+  const pipeline = ((metadata as any)?.pipeline ?? {}) as PipelineMetadata;
+  return pipeline.attempts?.[stage] ?? 0;
+}
+
+/**
+ * True when an item has sat in a stage's active state past its timeout.
+ * Rows written before stage timestamps existed fall back to createdAt.
+ */
+export function isStuck(content: Pick<Content, "status" | "processingMetadata" | "createdAt">, now = new Date()): boolean {
+  const stage = STAGE_ORDER.find(s => PIPELINE_STAGES[s].active === content.status);
+  if (!stage) return false;
+
+  const startedAt = ((content.processingMetadata as any)?.pipeline as PipelineMetadata | undefined)?.stageStartedAt;
+  const since = startedAt ? new Date(startedAt) : content.createdAt;
+
+  return now.getTime() - since.getTime() > PIPELINE_STAGES[stage].timeoutMs;
+}
+
+/**
+ * Move a single content row, but only if it is still in the state we read
+ * it in. Returns false when another worker got there first.
+ */
+export async function transitionContent(
+  content: Pick<Content, "id" | "status" | "processingMetadata">,
+  to: ContentState,
+  options: TransitionOptions = {}
+): Promise<boolean> {
+  if (!canTransition(content.status, to)) {
+    throw new Error(`Invalid content transition ${content.status} → ${to} (${content.id})`);
+  }
+
+  const result = await prisma.content.updateMany({
+    where: { id: content.id, status: content.status },
+    data: {
+      status: to,
+      processingMetadata: applyTransition(content.processingMetadata, content.status, to, options) as Prisma.InputJsonValue,
+      ...(options.data !== undefined && { data: options.data }),
+      ...(to === "PROCESSED" && { processedAt: new Date() }),
+    },
+  });
+
+  return result.count === 1;
+}
+
+/**
+ * Move every matching row that is allowed to enter `to`; rows in other
+ * states are left alone. Used by callers that only know the source key.
+ */
+export async function moveContent(where: Prisma.ContentWhereInput, to: ContentState, options: TransitionOptions = {}) {
+  const rows = await prisma.content.findMany({
+    where: { ...where, status: { in: predecessorsOf(to) } },
+    select: { id: true, status: true, processingMetadata: true },
+  });
+
+  let moved = 0;
+  for (const row of rows) {
+    if (await transitionContent(row, to, options)) moved++;
+  }
+
+  return moved;
+}
+
+export interface StageRunResult {
+  stage: PipelineStage;
+  claimed: number;
+  succeeded: number;
+  failed: number;
+  predictions: any[];
+}
+
+export interface PipelineScope {
+  forecasterId?: string;
+  sourceType?: string;
+}
+
+/**
+ * Drives Content through COLLECTED → ... → PROCESSED with one worker per
+ * stage. Each worker claims an item by moving it into the stage's active
+ * state, so concurrent instances never process the same row twice.
+ */
+export class ContentPipelineService {
+  constructor(private batchSize = 5) {}
+
+  /**
+   * Recover orphaned items, then run every stage once in order
+   */
+  async tick(scope: PipelineScope = {}) {
+    const recovered = await this.recoverStuck();
+    const results: StageRunResult[] = [];
+
+    for (const stage of STAGE_ORDER) {
+      results.push(await this.runStage(stage, scope));
+    }
+
+    return { recovered, results };
+  }
+
+  async runStage(stage: PipelineStage, scope: PipelineScope = {}): Promise<StageRunResult> {
+    const config = PIPELINE_STAGES[stage];
+    const result: StageRunResult = { stage, claimed: 0, succeeded: 0, failed: 0, predictions: [] };
+
+    const candidates = await prisma.content.findMany({
+      where: {
+        status: config.input,
+        ...(scope.forecasterId && { forecasterId: scope.forecasterId }),
+        ...(scope.sourceType && { sourceType: scope.sourceType }),
+      },
+      orderBy: { createdAt: "asc" },
+      take: this.batchSize,
+    });
+
+    for (const content of candidates) {
+      // Text-only sources skip the active state entirely
+      if (stage === "download" && content.sourceType !== "YOUTUBE") {
+        if (await transitionContent(content, "TRANSCRIBED", { stage, reason: "text source" })) {
+          result.succeeded++;
+        }
+        continue;
+      }
+
+      const claimed = await this.claim(content, stage);
+      if (!claimed) continue;
+      result.claimed++;
+
+      try {
+        const predictions = await this.runHandler(stage, claimed);
+        result.predictions.push(...predictions);
+        result.succeeded++;
+      } catch (error) {
+        console.error(`[ContentPipeline] ${stage} failed for content ${content.id}:`, error);
+        await this.failStage(claimed, stage, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  private async claim(content: Content, stage: PipelineStage): Promise<Content | null> {
+    const config = PIPELINE_STAGES[stage];
+    const attempts = stageAttempts(content.processingMetadata, stage) + 1;
+
+    const metadata = applyTransition(content.processingMetadata, content.status, config.active, { stage });
+    (metadata.pipeline as PipelineMetadata).attempts = {
+      ...(metadata.pipeline as PipelineMetadata).attempts,
+      [stage]: attempts,
+    };
+
+    const claimed = await prisma.content.updateMany({
+      where: { id: content.id, status: content.status },
+      data: { status: config.active, processingMetadata: metadata as Prisma.InputJsonValue },
+    });
+
+    if (claimed.count === 0) return null;
+
+    return { ...content, status: config.active, processingMetadata: metadata as Prisma.JsonValue };
+  }
+
+  private async runHandler(stage: PipelineStage, content: Content): Promise<any[]> {
+    switch (stage) {
+      case "download":
+        await this.download(content);
+        return [];
+      case "transcribe":
+        await this.transcribe(content);
+        return [];
+      case "extract":
+        return this.extract(content);
+    }
+  }
+
+  /**
+   * Captions first; only fall back to downloading audio when there are none
+   */
+  private async download(content: Content) {
+    const { TranscriptionService } = await import("./transcription");
+    const transcriptionService = new TranscriptionService();
+
+    const captions = await transcriptionService.fetchCaptions(content.sourceId);
+    if (captions) {
+      await transitionContent(content, "TRANSCRIBED", {
+        stage: "download",
+        reason: "captions",
+        metadata: { provenance: captions.provenance },
+        data: { ...(content.data as Record<string, unknown>), transcript: captions.transcript },
+      });
+      return;
+    }
+
+    const videoUrl = content.sourceUrl || `https://youtube.com/watch?v=${content.sourceId}`;
+    const audioPath = await transcriptionService.downloadAudio(videoUrl, content.sourceId);
+
+    await transitionContent(content, "AUDIO_DOWNLOADED", {
+      stage: "download",
+      metadata: { audioPath },
+    });
+  }
+
+  private async transcribe(content: Content) {
+    const audioPath = (content.processingMetadata as any)?.audioPath as string | undefined;
+
+    if (!audioPath || !fs.existsSync(audioPath)) {
+      await transitionContent(content, "COLLECTED", {
+        stage: "transcribe",
+        reason: "audio file missing",
+      });
+      return;
+    }
+
+    const { TranscriptionService } = await import("./transcription");
+    const transcriptionService = new TranscriptionService();
+    const result = await transcriptionService.transcribeAudio(audioPath);
+
+    await transitionContent(content, "TRANSCRIBED", {
+      stage: "transcribe",
+      metadata: { provenance: result.provenance, transcriptLength: result.transcript.length, audioPath: undefined },
+      data: {
+        ...(content.data as Record<string, unknown>),
+        transcript: result.transcript,
+        // Timed segments let reviewers jump to the quote in the video
+        ...(result.transcriptWithTimes && { transcriptSegments: result.transcriptWithTimes }),
+      },
+    });
+
+    fs.unlinkSync(audioPath);
+  }
+
+  private async extract(content: Content): Promise<any[]> {
+    const data = (content.data ?? {}) as Record<string, any>;
+    const text: string = (content.sourceType === "YOUTUBE" ? data.transcript || data.text : data.text) || "";
+
+    if (!content.forecasterId || text.length < MIN_EXTRACTION_TEXT) {
+      await transitionContent(content, "PROCESSED", {
+        stage: "extract",
+        reason: content.forecasterId ? `insufficient text (${text.length} chars)` : "no forecaster",
+        // Marked skipped so prompt upgrades do not queue it for re-extraction
+        metadata: { predictionsExtracted: 0, extraction: { skipped: true } },
+      });
+      return [];
+    }
+
+    const { UnifiedExtractionService, contentProvenance, predictionProvenance } = await import("./extraction");
+    const { channelLLMTargets } = await import("./llm");
+    const extractionService = new UnifiedExtractionService();
+    const llm = await channelLLMTargets(content.forecasterId, content.sourceType);
+
+    const extraction = await extractionService.extractFromVideo({
+      videoId: content.sourceId,
+      videoUrl: content.sourceUrl || "",
+      title: data.title || text.substring(0, 100),
+      description: data.text || "",
+      channelName: content.sourceType === "TWITTER" ? "X Platform" : "Unknown Channel",
+      publishedAt: data.publishedAt ? new Date(data.publishedAt) : content.createdAt,
+      transcript: text,
+      transcriptWithTimestamps: [],
+    }, { llm });
+
+    const settledAssets = await this.supersedePredictions(content);
+
+    const predictions = extraction.predictions
+      .filter(p => !settledAssets.has(p.asset.symbol))
+      .map(p => ({
+        prediction: p.prediction.text,
+        confidence: p.prediction.confidence / 100,
+        targetDate: p.prediction.targetDate ? new Date(p.prediction.targetDate) : null,
+        targetPrice: p.prediction.targetPrice,
+        assetSymbol: p.asset.symbol,
+        assetType: p.asset.type,
+        reasoning: p.context.reasoning,
+        tags: p.context.technicalIndicators || [],
+        aiDirection: p.prediction.direction?.toUpperCase() || "NEUTRAL",
+        sourceType: content.sourceType,
+        sourceUrl: content.sourceUrl,
+        provenance: predictionProvenance(p, content.id),
+      }));
+
+    if (predictions.length > 0) {
+      await extractionService.storePredictions(predictions, content.forecasterId);
+    }
+
+    const { ReviewQueueService } = await import("./reviewQueue");
+    const queuedForReview = await new ReviewQueueService().enqueue(
+      extraction.needsReview.filter(p => !settledAssets.has(p.asset.symbol)),
+      {
+        forecasterId: content.forecasterId,
+        contentId: content.id,
+        source: { type: content.sourceType.toLowerCase(), url: content.sourceUrl },
+      }
+    );
+
+    await transitionContent(content, "PROCESSED", {
+      stage: "extract",
+      metadata: {
+        predictionsExtracted: predictions.length,
+        queuedForReview,
+        extraction: contentProvenance(extraction),
+      },
+    });
+
+    return predictions;
+  }
+
+  /**
+   * Remove this content's unresolved predictions before a fresh extraction
+   * is stored, so retries and re-extractions replace rather than duplicate
+   * them. Resolved predictions and those created by a reviewer's approval are
+   * kept, and review decisions stand; returns the asset symbols they cover so
+   * the new extraction neither duplicates nor re-queues them.
+   */
+  private async supersedePredictions(content: Content): Promise<Set<string>> {
+    const linked = await prisma.prediction.findMany({
+      where: {
+        forecasterId: content.forecasterId!,
+        OR: [
+          { metadata: { path: ["extraction", "contentId"], equals: content.id } },
+          // Predictions stored before contentId was recorded
+          ...(content.sourceUrl ? [{ metadata: { path: ["source", "url"], equals: content.sourceUrl } }] : []),
+        ],
+      },
+      select: { id: true, outcome: true, metadata: true, asset: { select: { symbol: true } } },
+    });
+
+    const reviewed = (p: (typeof linked)[number]) =>
+      !!(p.metadata as { extraction?: { reviewId?: string } } | null)?.extraction?.reviewId;
+    const kept = linked.filter(p => p.outcome !== "PENDING" || reviewed(p));
+
+    const pending = linked.filter(p => !kept.includes(p)).map(p => p.id);
+    if (pending.length > 0) {
+      await prisma.prediction.deleteMany({ where: { id: { in: pending } } });
+      console.log(`[ContentPipeline] Superseded ${pending.length} pending predictions from content ${content.id}`);
+    }
+
+    // Undecided review items from the previous run are replaced too
+    await prisma.predictionReview.deleteMany({ where: { contentId: content.id, status: "PENDING" } });
+
+    // Approved and rejected candidates are not offered again
+    const decided = await prisma.predictionReview.findMany({
+      where: { contentId: content.id, status: { in: ["APPROVED", "REJECTED"] } },
+      select: { candidate: true, edits: true },
+    });
+
+    return new Set([
+      ...kept.flatMap(p => (p.asset ? [p.asset.symbol] : [])),
+      ...decided.flatMap(review => {
+        const symbol = (review.candidate as { asset?: { symbol?: string } } | null)?.asset?.symbol;
+        const edited = (review.edits as { assetSymbol?: string } | null)?.assetSymbol?.toUpperCase();
+        return [symbol, edited].filter((s): s is string => !!s);
+      }),
+    ]);
+  }
+
+  /**
+   * Count a failed attempt: back to the stage input while budget remains,
+   * otherwise FAILED with the stage recorded for "retry from stage".
+   */
+  async failStage(content: Content, stage: PipelineStage, error: unknown) {
+    const config = PIPELINE_STAGES[stage];
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = stageAttempts(content.processingMetadata, stage) >= config.maxAttempts;
+    const to: ContentState = exhausted ? "FAILED" : config.input;
+
+    const moved = await transitionContent(content, to, { stage, error: message, reason: exhausted ? "retry budget exhausted" : "retry" });
+
+    if (moved && exhausted) {
+      await prisma.event.create({
+        data: {
+          type: "CONTENT_PIPELINE_FAILED",
+          entityType: "CONTENT",
+          entityId: content.id,
+          data: { stage, error: message, attempts: stageAttempts(content.processingMetadata, stage) },
+        },
+      });
+    }
+
+    return to;
+  }
+
+  /**
+   * Treat items orphaned in an active state (worker crashed or was
+   * restarted mid-stage) as a failed attempt of that stage
+   */
+  async recoverStuck(now = new Date()) {
+    const active = STAGE_ORDER.map(stage => PIPELINE_STAGES[stage].active);
+    const items = await prisma.content.findMany({
+      where: { status: { in: active } },
+    });
+
+    let recovered = 0;
+    for (const content of items) {
+      if (!isStuck(content, now)) continue;
+
+      const stage = stageForState(content.status)!;
+      console.log(`[ContentPipeline] Recovering content ${content.id} stuck in ${content.status}`);
+      await this.failStage(content, stage, new Error(`Stage ${stage} timed out in ${content.status}`));
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Admin action: send a FAILED or PROCESSED item back to the start of a
+   * stage with that stage's (and later stages') retry budget reset
+   */
+  async retryFromStage(contentId: string, stage: PipelineStage, userId?: string) {
+    const content = await prisma.content.findUnique({ where: { id: contentId } });
+    if (!content) {
+      throw new Error(`Content ${contentId} not found`);
+    }
+
+    const to = PIPELINE_STAGES[stage].input;
+    if (!canTransition(content.status, to)) {
+      throw new Error(`Cannot retry ${stage} from ${content.status}`);
+    }
+
+    if (to === "AUDIO_DOWNLOADED") {
+      const audioPath = (content.processingMetadata as any)?.audioPath;
+      if (!audioPath || !fs.existsSync(audioPath)) {
+        throw new Error("Downloaded audio is no longer available; retry from download instead");
+      }
+    }
+
+    const moved = await this.resetToStage(content, stage, "admin retry");
+
+    if (!moved) {
+      throw new Error("Content changed state while retrying; refresh and try again");
+    }
+
+    await prisma.event.create({
+      data: {
+        type: "CONTENT_PIPELINE_RETRY",
+        entityType: "CONTENT",
+        entityId: contentId,
+        userId,
+        data: { stage, from: content.status, to },
+      },
+    });
+  }
+
+  // Clears the retry budget of `stage` and every later stage
+  private async resetToStage(content: Content, stage: PipelineStage, reason: string) {
+    const pipeline = ((content.processingMetadata as any)?.pipeline ?? {}) as PipelineMetadata;
+    const attempts = { ...pipeline.attempts };
+    for (const later of STAGE_ORDER.slice(STAGE_ORDER.indexOf(stage))) {
+      delete attempts[later];
+    }
+
+    const metadata = {
+      ...(content.processingMetadata as Record<string, unknown>),
+      pipeline: { ...pipeline, attempts },
+    };
+
+    return transitionContent({ ...content, processingMetadata: metadata }, PIPELINE_STAGES[stage].input, {
+      stage,
+      reason,
+    });
+  }
+
+  /**
+   * Processed content with a forecaster, grouped by the prompt version that
+   * extracted it. Content skipped for having too little text is left out.
+   */
+  async getPromptVersionCounts(): Promise<Array<{ promptVersion: string; count: number }>> {
+    return prisma.$queryRaw<Array<{ promptVersion: string; count: number }>>`
+      SELECT COALESCE("processingMetadata"->'extraction'->>'promptVersion', ${UNVERSIONED_PROMPT}) AS "promptVersion",
+             COUNT(*)::int AS "count"
+      FROM "Content"
+      WHERE "status" = 'PROCESSED'
+        AND "forecasterId" IS NOT NULL
+        AND ("processingMetadata"->'extraction'->>'skipped') IS DISTINCT FROM 'true'
+      GROUP BY 1
+      ORDER BY 2 DESC
+    `;
+  }
+
+  /**
+   * Send up to `limit` items extracted with an older prompt version back
+   * to the extract stage. The pipeline re-runs them with the current prompt
+   * and supersedes their unresolved predictions.
+   */
+  async requeueForReextraction(promptVersion: string, limit: number, userId?: string): Promise<number> {
+    if (promptVersion === CURRENT_PROMPT_VERSION) {
+      throw new Error(`Content from ${promptVersion} already uses the current prompt`);
+    }
+
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT "id" FROM "Content"
+      WHERE "status" = 'PROCESSED'
+        AND "forecasterId" IS NOT NULL
+        AND ("processingMetadata"->'extraction'->>'skipped') IS DISTINCT FROM 'true'
+        AND COALESCE("processingMetadata"->'extraction'->>'promptVersion', ${UNVERSIONED_PROMPT}) = ${promptVersion}
+      ORDER BY "createdAt" DESC
+      LIMIT ${limit}
+    `;
+
+    const items = await prisma.content.findMany({
+      where: { id: { in: rows.map(row => row.id) } },
+    });
+
+    let requeued = 0;
+    for (const content of items) {
+      const reason = `re-extract: prompt ${promptVersion} → ${CURRENT_PROMPT_VERSION}`;
+      if (await this.resetToStage(content, "extract", reason)) requeued++;
+    }
+
+    await prisma.event.create({
+      data: {
+        type: "CONTENT_REEXTRACT_REQUESTED",
+        entityType: "CONTENT",
+        entityId: promptVersion,
+        userId,
+        data: { promptVersion, targetVersion: CURRENT_PROMPT_VERSION, requeued },
+      },
+    });
+
+    return requeued;
+  }
+
+  /**
+   * Count and oldest item per state, plus the most recent failures
+   */
+  async getBoard() {
+    const grouped = await prisma.content.groupBy({
+      by: ["status"],
+      _count: { _all: true },
+    });
+
+    const counts = new Map(grouped.map(group => [group.status, group._count._all]));
+
+    const states = await Promise.all(
+      CONTENT_STATES.map(async state => {
+        const oldest = await prisma.content.findFirst({
+          where: { status: state },
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            sourceType: true,
+            sourceId: true,
+            sourceUrl: true,
+            data: true,
+            createdAt: true,
+            processingMetadata: true,
+          },
+        });
+
+        return {
+          state,
+          count: counts.get(state) ?? 0,
+          oldest: oldest && {
+            id: oldest.id,
+            sourceType: oldest.sourceType,
+            sourceUrl: oldest.sourceUrl,
+            title: (oldest.data as any)?.title || (oldest.data as any)?.text?.substring(0, 80) || oldest.sourceId,
+            createdAt: oldest.createdAt,
+            stageStartedAt: ((oldest.processingMetadata as any)?.pipeline as PipelineMetadata | undefined)?.stageStartedAt ?? null,
+            stuck: isStuck({ status: state, processingMetadata: oldest.processingMetadata, createdAt: oldest.createdAt }),
+          },
+        };
+      })
+    );
+
+    const failed = await prisma.content.findMany({
+      where: { status: "FAILED" },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+      select: {
+        id: true,
+        sourceType: true,
+        sourceId: true,
+        sourceUrl: true,
+        data: true,
+        createdAt: true,
+        processingMetadata: true,
+        forecaster: { select: { name: true } },
+      },
+    });
+
+    return {
+      states,
+      failed: failed.map(item => {
+        const pipeline = ((item.processingMetadata as any)?.pipeline ?? {}) as PipelineMetadata;
+        return {
+          id: item.id,
+          sourceType: item.sourceType,
+          sourceUrl: item.sourceUrl,
+          title: (item.data as any)?.title || (item.data as any)?.text?.substring(0, 80) || item.sourceId,
+          forecasterName: item.forecaster?.name ?? null,
+          failedStage: pipeline.failedStage ?? null,
+          lastError: pipeline.lastError ?? (item.processingMetadata as any)?.lastError ?? null,
+          hasAudio: Boolean((item.processingMetadata as any)?.audioPath),
+          createdAt: item.createdAt,
+        };
+      }),
+    };
+  }
+}
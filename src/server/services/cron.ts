@@ -6,16 +6,27 @@ import { ChannelCollectionService } from "./channelCollectionService";
 import { BrierScoreService } from "./brierScore";
 import { RankingService } from "./ranking";
 
+import { JobQueue } from "./jobQueue";
+import { ContentPipelineService } from "./contentPipeline";
+import { PRICE_BACKFILL_JOB, PriceBackfillService, type PriceBackfillPayload } from "./priceBackfill";
+import { BENCHMARK_SCORING_JOB, BenchmarkScoringService, type BenchmarkScoringPayload } from "./benchmarkScoring";
+import { SENTIMENT_SYNC_JOB, SentimentHistoryService } from "./sentimentHistory";
+import { CONSENSUS_SNAPSHOT_JOB, ConsensusService } from "./consensus";
+import { WEBHOOK_DELIVERY_JOB, WEBHOOK_FANOUT_JOB, WebhookService } from "./webhooks";
+import { DATA_EXPORT_JOB, DataExportService } from "./dataExport";
+import { accountLifecycleService } from "../security";
+import { type Job } from "@prisma/client";
+
 interface CronJob {
-  name: string;
-  schedule: string; // cron expression
-  handler: () => Promise<void>;
+  type: string; // Job type enqueued on each run
+  schedule: string; // cron expression (UTC)
+  description: string;
+  handler: (job: Job) => Promise<void>;
   enabled: boolean;
 }
 
 export class CronService {
   private jobs: CronJob[] = [];
-  private intervals: Map<string, NodeJS.Timeout> = new Map();
 
   constructor(
     private assetService: AssetService,
@@ -23,7 +34,15 @@ export class CronService {
     private collectionService: ContentCollectionService,
     private channelCollectionService: ChannelCollectionService,
     private brierScoreService: BrierScoreService,
-    private rankingService: RankingService
+    private rankingService: RankingService,
+    private jobQueue: JobQueue = new JobQueue(),
+    private contentPipeline: ContentPipelineService = new ContentPipelineService(),
+    private priceBackfill: PriceBackfillService = new PriceBackfillService(undefined, jobQueue),
+    private benchmarkScoring: BenchmarkScoringService = new BenchmarkScoringService(undefined, priceBackfill),
+    private sentimentHistory: SentimentHistoryService = new SentimentHistoryService(),
+    private consensus: ConsensusService = new ConsensusService(priceBackfill),
+    private webhooks: WebhookService = new WebhookService(jobQueue),
+    private dataExport: DataExportService = new DataExportService(jobQueue)
   ) {
     this.initializeJobs();
   }
@@ -31,107 +50,127 @@ export class CronService {
   private initializeJobs() {
     this.jobs = [
       {
-        name: "updateAssetPrices",
+        type: "UPDATE_ASSET_PRICES",
         schedule: "*/5 * * * *", // Every 5 minutes
+        description: "Updates cryptocurrency and stock prices",
         handler: async () => await this.updateAssetPrices(),
         enabled: true,
       },
       {
-        name: "validatePredictions",
+        type: "VALIDATE_PREDICTIONS",
         schedule: "*/15 * * * *", // Every 15 minutes
+        description: "Validates predictions based on target dates and prices",
         handler: async () => await this.validatePredictions(),
         enabled: true,
       },
       {
-        name: "collectChannelContent",
+        type: "COLLECT_CHANNEL_CONTENT",
         schedule: "*/10 * * * *", // Every 10 minutes (more frequent for dynamic intervals)
+        description: "Collects new content from YouTube and X channels",
         handler: async () => await this.collectChannelContent(),
         enabled: true,
       },
       {
-        name: "calculateBrierScores",
+        type: "RUN_CONTENT_PIPELINE",
+        schedule: "*/5 * * * *", // Every 5 minutes
+        description: "Advances collected content through download, transcription and extraction",
+        handler: async () => await this.runContentPipeline(),
+        enabled: true,
+      },
+      {
+        type: PRICE_BACKFILL_JOB,
+        schedule: "30 0 * * *", // Daily at 00:30, once the day's candle has closed
+        description: "Backfills OHLCV candles for assets with pending predictions (or one asset on demand)",
+        handler: async (job) => await this.backfillPriceCandles(job),
+        enabled: true,
+      },
+      {
+        type: BENCHMARK_SCORING_JOB,
+        schedule: "45 0 * * *", // Daily at 00:45, after the candle backfill
+        description: "Scores resolved predictions against their asset type's benchmark over the same horizon",
+        handler: async (job) => await this.scoreBenchmarks(job),
+        enabled: true,
+      },
+      {
+        type: SENTIMENT_SYNC_JOB,
+        schedule: "15 0 * * *", // Daily at 00:15, after the index publishes the day's reading
+        description: "Stores the daily Fear & Greed reading and tags predictions with their market regime",
+        handler: async () => await this.syncMarketSentiment(),
+        enabled: true,
+      },
+      {
+        type: CONSENSUS_SNAPSHOT_JOB,
+        schedule: "20 1 * * *", // Daily at 01:20, once the day's candles are in
+        description: "Snapshots the per-asset consensus and scores snapshots whose horizon has passed",
+        handler: async () => await this.snapshotConsensus(),
+        enabled: true,
+      },
+      {
+        type: WEBHOOK_FANOUT_JOB,
+        schedule: "* * * * *", // Every minute
+        description: "Queues webhook deliveries for new prediction and ranking events",
+        handler: async () => await this.fanOutWebhooks(),
+        enabled: true,
+      },
+      {
+        type: "CALCULATE_BRIER_SCORES",
         schedule: "0 0 * * *", // Daily at midnight
+        description: "Calculates Brier scores for forecasters",
         handler: async () => await this.calculateBrierScores(),
         enabled: true,
       },
       {
-        name: "updateRankings",
+        type: "UPDATE_RANKINGS",
         schedule: "0 1 * * *", // Daily at 1 AM
+        description: "Updates forecaster rankings",
         handler: async () => await this.updateRankings(),
         enabled: true,
       },
       {
-        name: "cleanupOldJobs",
+        type: "CLEANUP_OLD_JOBS",
         schedule: "0 2 * * *", // Daily at 2 AM
+        description: "Cleans up old jobs and events, expired data exports, and erases accounts past their grace period",
         handler: async () => await this.cleanupOldJobs(),
         enabled: true,
       },
     ];
+
+    for (const job of this.jobs) {
+      this.jobQueue.register(job.type, job.handler);
+    }
+
+    // Enqueued per delivery by the fan-out, never on a schedule
+    this.jobQueue.register(WEBHOOK_DELIVERY_JOB, async (job) => await this.webhooks.deliver(job));
+    // Enqueued when a user asks for a copy of their data
+    this.jobQueue.register(DATA_EXPORT_JOB, async (job) => await this.dataExport.build(job));
   }
 
   async start() {
     console.log("🚀 Starting Cron Service...");
 
-    for (const job of this.jobs) {
-      if (!job.enabled) continue;
-
-      // Convert cron expression to milliseconds (simplified)
-      const interval = this.cronToMs(job.schedule);
-
-      const intervalId = setInterval(async () => {
-        try {
-          console.log(`⚡ Running job: ${job.name}`);
-          await job.handler();
-
-          // Log job execution
-          await prisma.job.create({
-            data: {
-              type: job.name.toUpperCase(),
-              status: "COMPLETED",
-              payload: {},
-              completedAt: new Date(),
-            },
-          });
-        } catch (error) {
-          console.error(`❌ Job failed: ${job.name}`, error);
-
-          // Log job failure
-          await prisma.job.create({
-            data: {
-              type: job.name.toUpperCase(),
-              status: "FAILED",
-              payload: { error: (error as Error).message },
-            },
-          });
-        }
-      }, interval);
+    // Schedules live in the database so every instance shares one timetable
+    await this.jobQueue.syncSchedules(
+      this.jobs
+        .filter(job => job.enabled)
+        .map(job => ({
+          type: job.type,
+          cron: job.schedule,
+          description: job.description,
+        }))
+    );
 
-      this.intervals.set(job.name, intervalId);
-      console.log(`✅ Scheduled job: ${job.name} (${job.schedule})`);
+    for (const job of this.jobs) {
+      if (job.enabled) {
+        console.log(`✅ Scheduled job: ${job.type} (${job.schedule})`);
+      }
     }
+
+    this.jobQueue.start();
   }
 
   stop() {
     console.log("🛑 Stopping Cron Service...");
-    for (const [name, intervalId] of this.intervals) {
-      clearInterval(intervalId);
-      console.log(`✅ Stopped job: ${name}`);
-    }
-    this.intervals.clear();
-  }
-
-  private cronToMs(cron: string): number {
-    // Simplified cron to milliseconds conversion
-    const parts = cron.split(" ");
-    const minutes = parts[0];
-
-    if (minutes && minutes.startsWith("*/")) {
-      const interval = parseInt(minutes.substring(2));
-      return interval * 60 * 1000;
-    }
-
-    // Default to hourly
-    return 60 * 60 * 1000;
+    this.jobQueue.stop();
   }
 
   private async updateAssetPrices() {
@@ -151,21 +190,7 @@ export class CronService {
   private async validatePredictions() {
     console.log("✅ Validating predictions...");
 
-    const predictions = await prisma.prediction.findMany({
-      where: {
-        outcome: "PENDING",
-        targetDate: { lte: new Date() },
-      },
-      include: { asset: true },
-    });
-
-    for (const prediction of predictions) {
-      try {
-        await this.validationService.validate(prediction.id);
-      } catch (error) {
-        console.error(`Failed to validate prediction ${prediction.id}:`, error);
-      }
-    }
+    await this.validationService.validateAllPending();
   }
 
   /**
@@ -232,20 +257,27 @@ export class CronService {
     }
   }
 
+  private async runContentPipeline() {
+    console.log("🎬 Running content pipeline...");
+
+    const { recovered, results } = await this.contentPipeline.tick();
+
+    if (recovered > 0) {
+      console.log(`🔄 Recovered ${recovered} stuck content items`);
+    }
+
+    for (const result of results) {
+      console.log(`  - ${result.stage}: ${result.succeeded} succeeded, ${result.failed} failed`);
+    }
+  }
+
   private async calculateBrierScores() {
     console.log("📈 Calculating Brier scores...");
 
-    const forecasters = await prisma.forecaster.findMany({
-      where: { isVerified: true },
-    });
+    // The only place score history rows are written
+    const results = await this.brierScoreService.calculateAll({ isVerified: true });
 
-    for (const forecaster of forecasters) {
-      try {
-        await this.brierScoreService.calculate(forecaster.id);
-      } catch (error) {
-        console.error(`Failed to calculate Brier score for ${forecaster.name}:`, error);
-      }
-    }
+    console.log(`  - ${results.length} forecasters scored`);
   }
 
   private async updateRankings() {
@@ -254,6 +286,47 @@ export class CronService {
     await this.rankingService.updateAll();
   }
 
+  private async backfillPriceCandles(job: Job) {
+    const payload = (job.payload ?? {}) as PriceBackfillPayload;
+    console.log(`🕯️ Backfilling price candles${payload.assetId ? ` for asset ${payload.assetId}` : ""}...`);
+
+    const { gaps, stored } = await this.priceBackfill.run(payload);
+
+    console.log(`  - ${gaps} gaps, ${stored} candles stored`);
+  }
+
+  private async scoreBenchmarks(job: Job) {
+    console.log("📐 Scoring predictions against benchmarks...");
+
+    const { scored, skipped } = await this.benchmarkScoring.run((job.payload ?? {}) as BenchmarkScoringPayload);
+
+    console.log(`  - ${scored} scored, ${skipped} left for a later run`);
+  }
+
+  private async syncMarketSentiment() {
+    console.log("🌡️ Syncing Fear & Greed history...");
+
+    const { stored, source, tagged } = await this.sentimentHistory.sync();
+
+    console.log(`  - ${stored} readings stored from ${source}, ${tagged} predictions tagged`);
+  }
+
+  private async snapshotConsensus() {
+    console.log("🧭 Snapshotting asset consensus...");
+
+    const { stored, evaluated, skipped } = await this.consensus.run();
+
+    console.log(`  - ${stored} snapshots stored, ${evaluated} evaluated, ${skipped} left for a later run`);
+  }
+
+  private async fanOutWebhooks() {
+    const { events, queued } = await this.webhooks.fanOut();
+
+    if (queued > 0) {
+      console.log(`🪝 Queued ${queued} webhook deliveries from ${events} events`);
+    }
+  }
+
   private async cleanupOldJobs() {
     console.log("🧹 Cleaning up old jobs...");
 
@@ -263,7 +336,8 @@ export class CronService {
     await prisma.job.deleteMany({
       where: {
         createdAt: { lt: thirtyDaysAgo },
-        status: { in: ["COMPLETED", "FAILED"] },
+        // DEAD jobs are kept until an admin retries or inspects them
+        status: { in: ["COMPLETED", "FAILED", "CANCELLED"] },
       },
     });
 
@@ -274,6 +348,35 @@ export class CronService {
       },
     });
 
+    // Delivery log is kept for 30 days
+    await prisma.webhookDelivery.deleteMany({
+      where: {
+        createdAt: { lt: thirtyDaysAgo },
+      },
+    });
+
+    // Sessions idle past the token lifetime, or revoked a month ago
+    await prisma.userSession.deleteMany({
+      where: {
+        OR: [
+          { lastSeenAt: { lt: thirtyDaysAgo } },
+          { revokedAt: { lt: thirtyDaysAgo } },
+        ],
+      },
+    });
+
+    // Accounts whose owners asked to delete them and did not come back
+    const purged = await accountLifecycleService.purgeExpired();
+    if (purged > 0) {
+      console.log(`  - ${purged} accounts erased after their grace period`);
+    }
+
+    // Export archives whose download link has expired
+    const expiredExports = await this.dataExport.purgeExpired();
+    if (expiredExports > 0) {
+      console.log(`  - ${expiredExports} expired data export archives removed`);
+    }
+
     // Cleanup old channel collection jobs
     await prisma.channelCollectionJob.deleteMany({
       where: {
@@ -283,15 +386,15 @@ export class CronService {
     });
   }
 
-  // Manual job execution
-  async executeJob(jobName: string) {
-    const job = this.jobs.find(j => j.name === jobName);
+  // Manual job execution, queued so it is leased and retried like scheduled runs
+  async executeJob(jobType: string) {
+    const job = this.jobs.find(j => j.type === jobType);
     if (!job) {
-      throw new Error(`Job ${jobName} not found`);
+      throw new Error(`Job ${jobType} not found`);
     }
 
-    console.log(`⚡ Manually executing job: ${jobName}`);
-    await job.handler();
+    console.log(`⚡ Manually enqueuing job: ${jobType}`);
+    return this.jobQueue.enqueue(job.type, { triggeredBy: "manual" });
   }
 
   /**
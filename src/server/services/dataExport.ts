@@ -0,0 +1,299 @@
+import { createHash, randomBytes } from "crypto";
+import { type Job } from "@prisma/client";
+import { prisma } from "../db";
+import { securityLogger, userEventsWhere, type LifecycleRequestContext } from "../security";
+import { EmailService } from "./email";
+import { JobQueue } from "./jobQueue";
+import { createZip, type ZipEntry } from "./zipArchive";
+
+export const DATA_EXPORT_JOB = "EXPORT_USER_DATA";
+
+// Download links (and the stored archive) last a week
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// One archive a day; each one is a full copy of the account
+const EXPORT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const EXPORT_ATTEMPTS = 3;
+// Event rows written by the Stripe webhook handlers; payments carry no user id
+const SUBSCRIPTION_EVENT_TYPES = ["SUBSCRIPTION_CREATED", "SUBSCRIPTION_CANCELLED", "PAYMENT_SUCCEEDED", "PAYMENT_FAILED"];
+
+export interface DataExportPayload {
+  requestId: string;
+}
+
+export interface DataExportDownload {
+  filename: string;
+  archive: Buffer;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function json(name: string, value: unknown): ZipEntry {
+  return { name, data: JSON.stringify(value, null, 2) };
+}
+
+const exportSelect = {
+  id: true,
+  status: true,
+  requestedAt: true,
+  completedAt: true,
+  expiresAt: true,
+  downloadedAt: true,
+} as const;
+
+/**
+ * "Download my data". A request is queued as a job that bundles everything
+ * stored about the user into a ZIP archive, keeps it on the DataRequest row
+ * and emails a link to /settings/data-export. The archive is only served to
+ * the signed-in owner and is dropped when the link expires.
+ */
+export class DataExportService {
+  constructor(private jobQueue: JobQueue = new JobQueue()) {}
+
+  async list(userId: string) {
+    return prisma.dataRequest.findMany({
+      where: { userId, type: "EXPORT" },
+      orderBy: { requestedAt: "desc" },
+      take: 5,
+      select: exportSelect,
+    });
+  }
+
+  async request(userId: string, context: LifecycleRequestContext, now: Date = new Date()) {
+    const recent = await prisma.dataRequest.findFirst({
+      where: {
+        userId,
+        type: "EXPORT",
+        status: { in: ["PENDING", "COMPLETED"] },
+        requestedAt: { gt: new Date(now.getTime() - EXPORT_INTERVAL_MS) },
+      },
+      select: { status: true },
+    });
+
+    if (recent?.status === "PENDING") {
+      throw new Error("Your export is already being prepared. We'll email you when it is ready.");
+    }
+    if (recent) {
+      throw new Error("You can request one export a day. Use the link in your last export email.");
+    }
+
+    const request = await prisma.dataRequest.create({
+      data: { userId, type: "EXPORT", requestedAt: now },
+      select: exportSelect,
+    });
+
+    await this.jobQueue.enqueue(DATA_EXPORT_JOB, { requestId: request.id } satisfies DataExportPayload, {
+      maxAttempts: EXPORT_ATTEMPTS,
+    });
+
+    await securityLogger.log({
+      type: "DATA_EXPORT_REQUESTED",
+      severity: "LOW",
+      category: "AUTH",
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      action: "data_export_requested",
+      resource: "user",
+      method: "POST",
+      path: context.path ?? "/api/trpc/auth.requestDataExport",
+      success: true,
+      metadata: { requestId: request.id },
+    });
+
+    return request;
+  }
+
+  /**
+   * Job handler: build the archive and email the link
+   */
+  async build(job: Job, now: Date = new Date()) {
+    const { requestId } = (job.payload ?? {}) as Partial<DataExportPayload>;
+    if (!requestId) {
+      throw new Error("Data export job is missing its requestId");
+    }
+
+    const request = await prisma.dataRequest.findUnique({ where: { id: requestId } });
+    // Erasure removes pending exports along with the account
+    if (!request || request.status !== "PENDING") return;
+
+    try {
+      const { email, name, entries } = await this.collect(request.userId);
+      const token = randomBytes(32).toString("base64url");
+      const expiresAt = new Date(now.getTime() + EXPORT_TTL_MS);
+
+      // Stays PENDING until the email is out, so a retry issues a fresh link
+      await prisma.dataRequest.update({
+        where: { id: requestId },
+        data: { archive: new Uint8Array(createZip(entries, now)), tokenHash: hashToken(token), expiresAt },
+      });
+
+      const downloadLink = `${process.env.NEXTAUTH_URL}/settings/data-export?token=${token}`;
+      const sent = await new EmailService().sendDataExportReady(email, name, downloadLink, expiresAt);
+      if (!sent.success) {
+        throw new Error(`Failed to email export link: ${sent.error}`);
+      }
+
+      await prisma.dataRequest.update({
+        where: { id: requestId },
+        data: { status: "COMPLETED", completedAt: now, error: null },
+      });
+    } catch (error) {
+      if (job.attempts >= job.maxAttempts) {
+        await prisma.dataRequest.update({
+          where: { id: requestId },
+          data: {
+            status: "FAILED",
+            error: error instanceof Error ? error.message : String(error),
+            archive: null,
+            tokenHash: null,
+            completedAt: now,
+          },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Everything stored about the user, one JSON file per area
+   */
+  async collect(userId: string): Promise<{ email: string; name: string; entries: ZipEntry[] }> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        emailVerified: true,
+        role: true,
+        status: true,
+        fullName: true,
+        avatarUrl: true,
+        bio: true,
+        settings: true,
+        subscription: true,
+        twoFactorEnabledAt: true,
+        createdAt: true,
+        updatedAt: true,
+        accounts: { select: { provider: true, email: true, createdAt: true } },
+      },
+    });
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const [actions, comments, events, securityEvents, sessions, apiKeys, webhooks] = await Promise.all([
+      prisma.userAction.findMany({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+        select: { actionType: true, targetType: true, targetId: true, metadata: true, createdAt: true },
+      }),
+      prisma.comment.findMany({
+        where: { authorId: userId },
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          content: true,
+          status: true,
+          parentId: true,
+          createdAt: true,
+          updatedAt: true,
+          article: { select: { title: true, slug: true } },
+        },
+      }),
+      prisma.event.findMany({
+        where: userEventsWhere(userId, user.subscription),
+        orderBy: { createdAt: "asc" },
+        select: { type: true, entityType: true, entityId: true, data: true, ipAddress: true, createdAt: true },
+      }),
+      prisma.securityEvent.findMany({
+        where: { userId },
+        orderBy: { timestamp: "asc" },
+        select: { type: true, action: true, path: true, ipAddress: true, userAgent: true, success: true, timestamp: true },
+      }),
+      prisma.userSession.findMany({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+        select: { ipAddress: true, userAgent: true, createdAt: true, lastSeenAt: true, revokedAt: true, revokedReason: true },
+      }),
+      prisma.apiKey.findMany({
+        where: { userId },
+        select: { name: true, prefix: true, scopes: true, lastUsedAt: true, revokedAt: true, createdAt: true },
+      }),
+      prisma.webhookEndpoint.findMany({
+        where: { userId },
+        select: { url: true, description: true, eventTypes: true, isActive: true, createdAt: true },
+      }),
+    ]);
+
+    const { settings, subscription, accounts, twoFactorEnabledAt, ...profile } = user;
+
+    return {
+      email: user.email,
+      name: user.fullName || "there",
+      entries: [
+        json("profile.json", { ...profile, twoFactorEnabled: !!twoFactorEnabledAt, linkedAccounts: accounts }),
+        json("settings.json", settings),
+        json("subscription.json", {
+          current: subscription,
+          history: events.filter(event => SUBSCRIPTION_EVENT_TYPES.includes(event.type)),
+        }),
+        json("actions.json", actions),
+        json("comments.json", comments),
+        json("events.json", events),
+        json("security-events.json", securityEvents),
+        json("sessions.json", sessions),
+        json("api-keys.json", apiKeys),
+        json("webhooks.json", webhooks),
+      ],
+    };
+  }
+
+  async download(token: string, userId: string, context: LifecycleRequestContext, now: Date = new Date()): Promise<DataExportDownload> {
+    const request = await prisma.dataRequest.findUnique({ where: { tokenHash: hashToken(token) } });
+
+    if (
+      !request ||
+      request.userId !== userId ||
+      request.status !== "COMPLETED" ||
+      !request.archive ||
+      !request.expiresAt ||
+      request.expiresAt < now
+    ) {
+      throw new Error("This download link is invalid or has expired");
+    }
+
+    await prisma.dataRequest.update({ where: { id: request.id }, data: { downloadedAt: now } });
+
+    await securityLogger.log({
+      type: "DATA_EXPORT_DOWNLOADED",
+      severity: "LOW",
+      category: "AUTH",
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      action: "data_export_downloaded",
+      resource: "user",
+      method: "GET",
+      path: context.path ?? "/api/account/export",
+      success: true,
+      metadata: { requestId: request.id },
+    });
+
+    const day = (request.completedAt ?? request.requestedAt).toISOString().split("T")[0];
+    return { filename: `prediction-prism-export-${day}.zip`, archive: Buffer.from(request.archive) };
+  }
+
+  /**
+   * Drop archives whose link has expired (CLEANUP_OLD_JOBS cron)
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const { count } = await prisma.dataRequest.updateMany({
+      where: { type: "EXPORT", status: "COMPLETED", expiresAt: { lte: now } },
+      data: { status: "EXPIRED", archive: null, tokenHash: null },
+    });
+    return count;
+  }
+}
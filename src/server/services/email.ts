@@ -16,10 +16,13 @@ export class EmailService {
       host: process.env.SMTP_HOST || "smtp.gmail.com",
       port: parseInt(process.env.SMTP_PORT || "587"),
       secure: false, // true for 465, false for other ports
-      auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASSWORD,
-      },
+      // Local stand-ins (Mailpit, MailHog) accept mail without credentials
+      auth: process.env.SMTP_USER
+        ? {
+            user: process.env.SMTP_USER,
+            pass: process.env.SMTP_PASSWORD,
+          }
+        : undefined,
     });
   }
 
@@ -50,6 +53,55 @@ export class EmailService {
       text: `Hi ${name}, Reset your password here: ${resetLink}`,
     }),
 
+    magicLink: (signInLink: string, minutes: number): EmailTemplate => ({
+      subject: "Your sign-in link for Prediction Prism Analytics",
+      html: `
+        <h1>Sign in to Prediction Prism Analytics</h1>
+        <p>Click the link below to sign in. No password needed.</p>
+        <a href="${signInLink}">Sign In</a>
+        <p>This link will expire in ${minutes} minutes and can only be used once.</p>
+        <p>If you didn't request this, you can ignore this email.</p>
+      `,
+      text: `Sign in to Prediction Prism Analytics: ${signInLink} (expires in ${minutes} minutes)`,
+    }),
+
+    emailVerification: (name: string, verifyLink: string, hours: number): EmailTemplate => ({
+      subject: "Verify your email address",
+      html: `
+        <h1>Confirm your email</h1>
+        <p>Hi ${name},</p>
+        <p>Please confirm this is your email address so you can comment and save bookmarks:</p>
+        <a href="${verifyLink}">Verify Email</a>
+        <p>This link will expire in ${hours} hours.</p>
+        <p>If you didn't create an account, please ignore this email.</p>
+      `,
+      text: `Hi ${name}, Verify your email address here: ${verifyLink}`,
+    }),
+
+    accountDeletionScheduled: (name: string, deletionDate: string): EmailTemplate => ({
+      subject: "Your account is scheduled for deletion",
+      html: `
+        <h1>Account Deletion Scheduled</h1>
+        <p>Hi ${name},</p>
+        <p>Your Prediction Prism Analytics account and its data will be permanently deleted on ${deletionDate}.</p>
+        <p>Changed your mind? Sign in before then and your account will be restored.</p>
+        <a href="${process.env.NEXT_PUBLIC_URL}/auth/signin">Sign In</a>
+      `,
+      text: `Hi ${name}, Your account will be permanently deleted on ${deletionDate}. Sign in before then to keep it.`,
+    }),
+
+    dataExportReady: (name: string, downloadLink: string, expiresDate: string): EmailTemplate => ({
+      subject: "Your data export is ready",
+      html: `
+        <h1>Your Data Export Is Ready</h1>
+        <p>Hi ${name},</p>
+        <p>The archive of your Prediction Prism Analytics account data is ready to download.</p>
+        <a href="${downloadLink}">Download Your Data</a>
+        <p>The link works until ${expiresDate} and only while you are signed in to your account.</p>
+      `,
+      text: `Hi ${name}, Your data export is ready. Download it before ${expiresDate}: ${downloadLink}`,
+    }),
+
     predictionAlert: (prediction: any): EmailTemplate => ({
       subject: `New Prediction: ${prediction.asset} by ${prediction.forecaster}`,
       html: `
@@ -189,6 +241,22 @@ export class EmailService {
     return this.sendEmail(email, this.templates.passwordReset(name, resetLink));
   }
 
+  async sendMagicLinkEmail(email: string, signInLink: string, expiresInMinutes: number) {
+    return this.sendEmail(email, this.templates.magicLink(signInLink, expiresInMinutes));
+  }
+
+  async sendVerificationEmail(email: string, name: string, verifyLink: string, expiresInHours: number) {
+    return this.sendEmail(email, this.templates.emailVerification(name, verifyLink, expiresInHours));
+  }
+
+  async sendAccountDeletionScheduled(email: string, name: string, deletionDate: Date) {
+    return this.sendEmail(email, this.templates.accountDeletionScheduled(name, deletionDate.toLocaleDateString()));
+  }
+
+  async sendDataExportReady(email: string, name: string, downloadLink: string, expiresAt: Date) {
+    return this.sendEmail(email, this.templates.dataExportReady(name, downloadLink, expiresAt.toLocaleDateString()));
+  }
+
   async sendPredictionAlert(email: string, prediction: any) {
     return this.sendEmail(email, this.templates.predictionAlert(prediction));
   }
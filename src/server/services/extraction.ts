@@ -1,11 +1,24 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import OpenAI from "openai";
-import { env } from "@/env.mjs";
 import { prisma } from "../db";
 import crypto from 'crypto';
 import { MarketDataService } from './marketData';
 import { getAiSanitizer, securityLogger, securityConfig } from '../security';
 import { TRPCError } from '@trpc/server';
+import {
+  channelLLMTargets,
+  createLLMClient,
+  LLMClient,
+  UsageLedger,
+  type LLMResponse,
+  type LLMTarget,
+  type LLMUsage,
+  type ProviderUsage,
+} from './llm';
+import { getExtractionPrompt, type ExtractionPromptTemplate } from './extractionPrompts';
+import { resolveTimeframe, type TimeframeResolution } from './timeframe';
+import { mentionContext, parseAssetType, type AssetResolution, type AssetType } from './assetCatalog';
+import { AssetResolutionService } from './assetResolution';
+import { PriceBackfillService } from './priceBackfill';
+import { SentimentHistoryService, type SentimentReading } from './sentimentHistory';
 
 interface DirectionCorrection {
   originalAiDirection: string;
@@ -16,9 +29,6 @@ interface DirectionCorrection {
   reasoning: string | null;
 }
 
-const genAI = new GoogleGenerativeAI(env.GOOGLE_API_KEY);
-const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-
 // Enhanced interfaces matching original app's sophisticated structure
 export interface UnifiedVideoContext {
   videoId: string;
@@ -35,19 +45,23 @@ export interface UnifiedPrediction {
   asset: {
     symbol: string;
     fullName: string;
-    type: 'CRYPTO' | 'STOCK' | 'ETF' | 'INDEX' | 'COMMODITY' | 'CURRENCY' | 'BOND' | 'OPTION' | 'FUTURE';
+    type: AssetType;
     dataSource: 'binance' | 'yfinance' | 'coingecko' | 'alphavantage' | 'unknown';
     alternativeSymbols?: string[];
     confidence: number;
     currentPrice?: number;
     priceLastUpdated?: Date;
     priceDataSource?: string;
+    // How the model's symbol was mapped onto the alias catalog
+    resolution?: AssetResolution;
   };
   prediction: {
     text: string;
     direction: 'bullish' | 'bearish' | 'neutral';
     timeframe: string;
     targetDate?: string;
+    // How targetDate was decided from the timeframe phrase
+    timeframeResolution?: TimeframeResolution;
     targetPrice?: number;
     confidence: number;
   };
@@ -65,6 +79,14 @@ export interface UnifiedPrediction {
   metadata: {
     // extractedAt is represented by createdAt in the schema
     modelUsed: string;
+    provider?: string;
+    promptVersion?: string;
+    // null when the whole transcript fit in a single call
+    chunkIndex?: number | null;
+    // sha256 of the raw model response this prediction was parsed from
+    responseHash?: string;
+    // Usage of the call that produced this prediction (shared by its siblings)
+    usage?: LLMUsage;
     qualityGrade?: 'A' | 'B' | 'C' | 'D' | 'F';
     qualityScore?: number;
     deduplicationHash?: string;
@@ -74,6 +96,8 @@ export interface UnifiedPrediction {
 
 export interface UnifiedExtractionResult {
   predictions: UnifiedPrediction[];
+  // Borderline predictions (REVIEW_QUALITY_FLOOR <= score < MIN_QUALITY_SCORE) held for admin review
+  needsReview: UnifiedPrediction[];
   summary: {
     totalPredictions: number;
     uniqueAssets: number;
@@ -92,24 +116,110 @@ export interface UnifiedExtractionResult {
     deduplicationRate?: number;
     tokensUsed?: number;
     estimatedCost?: number;
+    provider?: string;
+    usage?: ProviderUsage[];
+    promptVersion?: string;
+    responseHashes?: string[];
+  };
+}
+
+export interface ExtractionRunOptions {
+  // Provider chain for this run only; defaults to the service's client
+  llm?: LLMTarget[];
+  // Prompt template version; defaults to CURRENT_PROMPT_VERSION
+  promptVersion?: string;
+}
+
+interface ExtractionRun {
+  client: LLMClient;
+  ledger: UsageLedger;
+  prompt: ExtractionPromptTemplate;
+  responseHashes: string[];
+}
+
+/**
+ * Provenance stored on Prediction.metadata.extraction
+ */
+export interface ExtractionProvenance {
+  model: string;
+  provider?: string;
+  promptVersion?: string;
+  chunkIndex?: number | null;
+  responseHash?: string;
+  usage?: LLMUsage;
+  timeframe?: TimeframeResolution;
+  asset?: AssetResolution;
+  contentId?: string;
+}
+
+export function predictionProvenance(pred: UnifiedPrediction, contentId?: string): ExtractionProvenance {
+  return {
+    model: pred.metadata.modelUsed,
+    provider: pred.metadata.provider,
+    promptVersion: pred.metadata.promptVersion,
+    chunkIndex: pred.metadata.chunkIndex ?? null,
+    responseHash: pred.metadata.responseHash,
+    usage: pred.metadata.usage,
+    timeframe: pred.prediction.timeframeResolution,
+    asset: pred.asset.resolution,
+    ...(contentId && { contentId }),
+  };
+}
+
+/**
+ * Provenance stored on Content.processingMetadata.extraction
+ */
+export function contentProvenance(result: UnifiedExtractionResult) {
+  return {
+    promptVersion: result.metadata.promptVersion,
+    model: result.metadata.modelUsed,
+    provider: result.metadata.provider,
+    tokensUsed: result.metadata.tokensUsed,
+    cost: result.metadata.estimatedCost,
+    chunksProcessed: result.metadata.chunksProcessed,
+    responseHashes: result.metadata.responseHashes ?? [],
+    predictionsExtracted: result.predictions.length,
+    extractedAt: new Date().toISOString(),
   };
 }
 
+function hashResponse(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
 export class UnifiedExtractionService {
-  private geminiModel = genAI.getGenerativeModel({ model: "gemini-pro" });
   private marketDataService = new MarketDataService();
+  private priceBackfill = new PriceBackfillService(this.marketDataService);
+  private sentimentHistory = new SentimentHistoryService();
 
   // Configuration matching original app
   private readonly MAX_SINGLE_CALL_TOKENS = 50000;
   private readonly CHUNK_SIZE_TOKENS = 30000;
   private readonly OVERLAP_TOKENS = 2000;
-  private readonly MIN_QUALITY_SCORE = 60;
+  // Scores at or above MIN_QUALITY_SCORE are stored directly; scores from the
+  // floor up to it go to the review queue, anything lower is discarded
+  static readonly MIN_QUALITY_SCORE = 60;
+  static readonly REVIEW_QUALITY_FLOOR = 50;
+
+  constructor(
+    private llm: LLMClient = createLLMClient(),
+    private assets: AssetResolutionService = new AssetResolutionService()
+  ) {}
 
   /**
    * Main extraction method - automatically chooses optimal strategy
    */
-  async extractFromVideo(context: UnifiedVideoContext): Promise<UnifiedExtractionResult> {
+  async extractFromVideo(
+    context: UnifiedVideoContext,
+    options: ExtractionRunOptions = {}
+  ): Promise<UnifiedExtractionResult> {
     const startTime = Date.now();
+    const run: ExtractionRun = {
+      client: options.llm?.length ? createLLMClient(options.llm) : this.llm,
+      ledger: new UsageLedger(),
+      prompt: getExtractionPrompt(options.promptVersion),
+      responseHashes: [],
+    };
     console.log(`🚀 [Unified] Starting extraction for: ${context.title}`);
 
     // Step 0: AI Sanitization (Phase 5 Security)
@@ -178,45 +288,63 @@ export class UnifiedExtractionService {
     // Step 2: Choose processing strategy
     if (estimatedTokens < this.MAX_SINGLE_CALL_TOKENS) {
       console.log(`✅ Using single-call extraction`);
-      rawPredictions = await this.processSingleCall(context);
+      rawPredictions = await this.processSingleCall(context, run);
     } else {
       console.log(`🔄 Using intelligent chunking for long video`);
-      const result = await this.processWithChunking(context);
+      const result = await this.processWithChunking(context, run);
       rawPredictions = result.predictions;
       chunksProcessed = result.chunksProcessed;
     }
 
-    // Step 3: Deduplication
+    // Step 3: Map symbols onto the alias catalog so SOL, Solana and SOLUSDT dedupe together
+    const resolvedPredictions = await this.resolveAssets(rawPredictions, context.transcript);
+
+    // Step 4: Deduplication
     const beforeDedup = rawPredictions.length;
-    const dedupedPredictions = await this.deduplicatePredictions(rawPredictions);
+    const dedupedPredictions = await this.deduplicatePredictions(resolvedPredictions);
     const afterDedup = dedupedPredictions.length;
     const deduplicationRate = beforeDedup > 0 ? ((beforeDedup - afterDedup) / beforeDedup) * 100 : 0;
 
     console.log(`🧹 Deduplication: ${beforeDedup} → ${afterDedup} (${deduplicationRate.toFixed(1)}% removed)`);
 
-    // Step 4: Quality scoring
-    const scoredPredictions = this.scorePredictions(dedupedPredictions);
+    // Step 5: Turn timeframe phrases into target dates relative to publication
+    const datedPredictions = dedupedPredictions.map(pred => this.normalizeTimeframe(pred, context.publishedAt));
+
+    // Step 6: Quality scoring
+    const scoredPredictions = this.scorePredictions(datedPredictions);
+    const { accepted, needsReview, discarded } = this.applyQualityGate(scoredPredictions);
+
+    // Step 7: Generate summary
+    const summary = this.generateSummary(accepted);
 
-    // Step 5: Generate summary
-    const summary = this.generateSummary(scoredPredictions);
+    // Step 8: Create result
+    const usage = run.ledger.breakdown();
+    const totals = run.ledger.totals();
+    const answered = usage.find(entry => entry.calls > entry.failures);
 
-    // Step 6: Create result
     const result: UnifiedExtractionResult = {
-      predictions: scoredPredictions,
+      predictions: accepted,
+      needsReview,
       summary,
       metadata: {
         videoId: context.videoId,
         // extractedAt is handled by createdAt automatically
-        modelUsed: 'gemini-pro',
+        modelUsed: answered?.model ?? run.client.primary.model,
+        provider: answered?.provider ?? run.client.primary.name,
         totalProcessingTimeMs: Date.now() - startTime,
         chunksProcessed,
         deduplicationRate,
-        tokensUsed: estimatedTokens,
-        estimatedCost: this.calculateCost(estimatedTokens)
+        tokensUsed: totals.inputTokens + totals.outputTokens,
+        estimatedCost: Math.round(totals.cost * 10000) / 10000,
+        usage,
+        promptVersion: run.prompt.version,
+        responseHashes: run.responseHashes,
       }
     };
 
-    console.log(`✅ [Unified] Complete: ${scoredPredictions.length} predictions in ${result.metadata.totalProcessingTimeMs}ms`);
+    console.log(
+      `✅ [Unified] Complete: ${accepted.length} predictions, ${needsReview.length} for review, ${discarded} discarded in ${result.metadata.totalProcessingTimeMs}ms`
+    );
 
     return result;
   }
@@ -224,16 +352,16 @@ export class UnifiedExtractionService {
   /**
    * Process entire content in a single AI call
    */
-  private async processSingleCall(context: UnifiedVideoContext): Promise<UnifiedPrediction[]> {
-    const prompt = this.buildComprehensivePrompt(context);
-    const response = await this.callAI(prompt, 'single');
-    return await this.parseAIResponse(response);
+  private async processSingleCall(context: UnifiedVideoContext, run: ExtractionRun): Promise<UnifiedPrediction[]> {
+    const prompt = run.prompt.comprehensive(context, new Date());
+    const response = await this.callAI(prompt, 'single', run);
+    return await this.parseAIResponse(response, run, null);
   }
 
   /**
    * Process long content with intelligent chunking
    */
-  private async processWithChunking(context: UnifiedVideoContext): Promise<{
+  private async processWithChunking(context: UnifiedVideoContext, run: ExtractionRun): Promise<{
     predictions: UnifiedPrediction[];
     chunksProcessed: number;
   }> {
@@ -249,11 +377,11 @@ export class UnifiedExtractionService {
       console.log(`\n🔄 Processing chunk ${i + 1}/${chunks.length}`);
 
       // Build chunk-specific prompt with context
-      const prompt = this.buildChunkPrompt(chunk, context, i, chunks.length);
+      const prompt = run.prompt.chunk(chunk, context, i, chunks.length);
 
       // Extract from chunk
-      const response = await this.callAI(prompt, `chunk_${i + 1}`);
-      const chunkPredictions = await this.parseAIResponse(response);
+      const response = await this.callAI(prompt, `chunk_${i + 1}`, run);
+      const chunkPredictions = await this.parseAIResponse(response, run, i);
 
       allPredictions.push(...chunkPredictions);
       console.log(`✅ Chunk ${i + 1}: Found ${chunkPredictions.length} predictions`);
@@ -265,159 +393,6 @@ export class UnifiedExtractionService {
     };
   }
 
-  /**
-   * Build comprehensive prompt for single-call extraction
-   */
-  private buildComprehensivePrompt(context: UnifiedVideoContext): string {
-    return `You are an expert financial analyst extracting ALL predictions from video content.
-
-VIDEO INFORMATION:
-==================
-Title: ${context.title}
-Channel: ${context.channelName || 'Unknown'}
-Published: ${context.publishedAt?.toISOString() || 'Unknown'}
-Description: ${context.description || 'No description'}
-
-FULL TRANSCRIPT:
-===============
-${context.transcript}
-
-EXTRACTION TASK:
-===============
-Extract EVERY financial prediction made in this video. For each prediction:
-
-1. ASSET IDENTIFICATION (use full video context):
-   - symbol: The EXACT ticker/symbol mentioned (e.g., XRP, BTC, ETH, AAPL, TSLA)
-   - fullName: Complete official name (e.g., "Ripple" for XRP, "Bitcoin" for BTC)
-   - type: CRYPTO, STOCK, ETF, INDEX, COMMODITY, CURRENCY, BOND, OPTION, FUTURE
-   - dataSource: binance (major crypto), yfinance (stocks/ETFs), coingecko (altcoins)
-   - alternativeSymbols: Other symbols used
-   - confidence: 0-100
-
-2. PREDICTION DETAILS:
-   - text: Complete prediction statement
-   - direction: bullish/bearish/neutral (IMPORTANT: Consider current asset price when determining direction)
-   - timeframe: Exact timeframe mentioned
-   - targetDate: ALWAYS provide as YYYY-MM-DD ISO date. Convert relative dates:
-     * "Q1 2025" → "2025-03-31"
-     * "Q2 2025" → "2025-06-30"
-     * "Q3 2025" → "2025-09-30"
-     * "Q4 2025" → "2025-12-31"
-     * "end of year" → current year's 12-31
-     * "next few months" → 3 months from today
-     * "next month" → 1 month from today
-     * "within 6 months" → 6 months from today
-     * TODAY'S DATE: ${new Date().toISOString().split('T')[0]}
-   - targetPrice: Specific target if mentioned (number only)
-   - confidence: 0-100
-
-DIRECTION ANALYSIS REQUIREMENT:
-When determining direction (bullish/bearish/neutral), you MUST consider the current market price context:
-- If target price > current price = BULLISH (price going up)
-- If target price < current price = BEARISH (price going down)
-- If target price ≈ current price (within 2%) = NEUTRAL
-- TODAY'S DATE: ${new Date().toISOString().split('T')[0]}
-- Please check current asset prices when making direction decisions, don't rely solely on language sentiment
-
-3. CONTEXT:
-   - exactQuote: Exact words from transcript
-   - reasoning: Why prediction was made
-   - marketFactors: Market conditions
-   - technicalIndicators: TA mentioned
-   - fundamentalPoints: FA points
-   - positionInTranscript: {start: char_position, end: char_position}
-
-CRITICAL RULES:
-- Look for SPECIFIC ASSET SYMBOLS in the transcript and video title
-- Do NOT return "UNKNOWN" as a symbol - extract the actual ticker mentioned
-- Common crypto: XRP (Ripple), XLM (Stellar), HBAR (Hedera), BTC (Bitcoin), ETH (Ethereum)
-- If the title mentions specific assets (e.g., "XRP, XLM & HBAR"), these are key focus assets
-- Use appropriate data source based on asset type:
-  - binance: major cryptocurrencies (BTC, ETH, XRP, etc.)
-  - coingecko: alternative cryptocurrencies (smaller market cap)
-  - yfinance: stocks, ETFs, indices
-
-EDGE CASE HANDLING:
-1. ASSET IDENTIFICATION:
-   - Fix common typos: "Bitcon"→"BTC", "Etherium"→"ETH", "doge coin"→"DOGE"
-   - Handle wrapped tokens: "WBTC"→"BTC", "stETH"→"ETH", "BTCB"→"BTC"
-   - Extract from pairs: "BTC/USD"→"BTC", "ETH/BTC"→both "ETH" and "BTC"
-   - Multiple assets: "XRP and XLM" → create separate predictions for each
-
-2. DATE CONVERSION:
-   - ALWAYS convert to ISO date YYYY-MM-DD
-   - "end of year" in Sept video → current year, Oct+ video → next year
-   - "between Q1 and Q3" → use Q3 (later date): "2025-09-30"
-   - "next few months" → exactly 3 months from today
-   - Seasons: spring→06-20, summer→09-22, fall→12-20, winter→03-19
-
-3. PRICE HANDLING:
-   - Percentages: "up 500%" → calculate from current price if known
-   - Relative: "double", "10x" → multiply current price
-   - Ranges: "between $5 and $10" → use $10 (upper bound)
-   - Bearish: "crash to zero" → targetPrice: 0
-   - Scientific: "1e6" → 1000000
-   - Non-USD: Convert €→1.1x, £→1.25x, ¥→0.007x to USD
-
-4. QUALITY FILTERING:
-   - SKIP predictions that are questions: "Will BTC hit 100k?"
-   - SKIP sarcasm/jokes: excessive "!!!", "to the moon 🚀😂"
-   - REDUCE confidence for: "maybe", "could", "possibly"
-   - REDUCE confidence for: "analyst says", "according to"
-   - SKIP hypotheticals: "in a perfect world", "imagine if"
-
-Return ONLY a valid JSON array with this exact structure:
-
-Example output structure:
-[
-  {
-    "asset": {
-      "symbol": "XRP",
-      "fullName": "Ripple",
-      "type": "CRYPTO",
-      "dataSource": "binance",
-      "alternativeSymbols": [],
-      "confidence": 95
-    },
-    "prediction": {
-      "text": "XRP will hit $5 by end of year",
-      "direction": "bullish",
-      "timeframe": "end of year",
-      "targetDate": "${new Date().getFullYear()}-12-31",
-      "targetPrice": 5,
-      "confidence": 85
-    },
-    "context": {
-      "exactQuote": "I believe XRP will hit $5 by end of year",
-      "reasoning": "SEC lawsuit ending and institutional adoption",
-      "marketFactors": ["SEC lawsuit resolution", "institutional adoption"],
-      "technicalIndicators": [],
-      "fundamentalPoints": ["adoption growing"],
-      "positionInTranscript": {"start": 100, "end": 200}
-    }
-  }
-]`;
-  }
-
-  /**
-   * Build prompt for individual chunk
-   */
-  private buildChunkPrompt(chunk: string, context: UnifiedVideoContext, index: number, total: number): string {
-    return `You are extracting predictions from chunk ${index + 1}/${total} of a video.
-
-VIDEO CONTEXT:
-Title: ${context.title}
-Channel: ${context.channelName}
-
-CHUNK CONTENT:
-${chunk}
-
-Extract all financial predictions from this chunk following the same rules as the comprehensive prompt.
-Focus on finding specific asset symbols, target prices, and timeframes.
-
-Return JSON array of predictions.`;
-  }
-
   /**
    * Three-layer deduplication system
    */
@@ -528,6 +503,28 @@ Return JSON array of predictions.`;
     });
   }
 
+  /**
+   * Split scored predictions by the quality thresholds
+   */
+  private applyQualityGate(predictions: UnifiedPrediction[]) {
+    const accepted: UnifiedPrediction[] = [];
+    const needsReview: UnifiedPrediction[] = [];
+    let discarded = 0;
+
+    for (const pred of predictions) {
+      const score = pred.metadata.qualityScore ?? 0;
+      if (score >= UnifiedExtractionService.MIN_QUALITY_SCORE) {
+        accepted.push(pred);
+      } else if (score >= UnifiedExtractionService.REVIEW_QUALITY_FLOOR) {
+        needsReview.push(pred);
+      } else {
+        discarded++;
+      }
+    }
+
+    return { accepted, needsReview, discarded };
+  }
+
   /**
    * Create intelligent chunks preserving context
    */
@@ -564,46 +561,35 @@ Return JSON array of predictions.`;
   }
 
   /**
-   * Call AI service with fallback
+   * Call the run's provider chain; falls through to the next provider on error
    */
-  private async callAI(prompt: string, context: string): Promise<string> {
-    try {
-      console.log(`📤 [Unified] Calling Gemini (${context})`);
-
-      const result = await this.geminiModel.generateContent(prompt);
-      const response = result.response;
-      return response.text() || '[]';
-    } catch (error) {
-      console.error(`[Unified] Gemini call failed:`, error);
-
-      // Fallback to OpenAI
-      try {
-        console.log(`📤 [Unified] Falling back to OpenAI (${context})`);
-        const response = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a financial analyst. Extract predictions and return ONLY valid JSON array.'
-            },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.1,
-          max_tokens: 4000
-        });
-
-        return response.choices[0]?.message?.content || '[]';
-      } catch (fallbackError) {
-        console.error(`[Unified] Fallback also failed:`, fallbackError);
-        return '[]';
-      }
-    }
+  private async callAI(prompt: string, label: string, run: ExtractionRun): Promise<LLMResponse> {
+    const response = await run.client.complete(
+      {
+        prompt,
+        system: run.prompt.system,
+        temperature: 0.1,
+        maxOutputTokens: 4000,
+        label,
+      },
+      run.ledger
+    );
+
+    run.responseHashes.push(hashResponse(response.text));
+    return response;
   }
 
   /**
    * Parse AI response into structured predictions
    */
-  private async parseAIResponse(response: string): Promise<UnifiedPrediction[]> {
+  private async parseAIResponse(
+    llmResponse: LLMResponse,
+    run: ExtractionRun,
+    chunkIndex: number | null
+  ): Promise<UnifiedPrediction[]> {
+    const response = llmResponse.text;
+    const responseHash = hashResponse(response);
+
     try {
       // Log the raw response for debugging
       console.log('[Unified] Raw AI response:', response.substring(0, 500));
@@ -646,7 +632,12 @@ Return JSON array of predictions.`;
         },
         metadata: {
           // extractedAt is handled by createdAt automatically
-          modelUsed: 'gemini-pro',
+          modelUsed: llmResponse.model,
+          provider: llmResponse.provider,
+          promptVersion: run.prompt.version,
+          chunkIndex,
+          responseHash,
+          usage: llmResponse.usage,
           deduplicationHash: ''
         }
       })) as UnifiedPrediction[];
@@ -659,12 +650,67 @@ Return JSON array of predictions.`;
   }
 
   /**
-   * Normalize asset type to enum
+   * Fill in targetDate from the timeframe phrase when the model didn't give a usable one
+   */
+  private normalizeTimeframe(pred: UnifiedPrediction, publishedAt: Date): UnifiedPrediction {
+    const resolution = resolveTimeframe(
+      { timeframe: pred.prediction.timeframe, targetDate: pred.prediction.targetDate, text: pred.prediction.text },
+      publishedAt
+    );
+
+    return {
+      ...pred,
+      prediction: {
+        ...pred.prediction,
+        targetDate: resolution.targetDate ?? undefined,
+        timeframeResolution: resolution,
+      },
+    };
+  }
+
+  /**
+   * Resolve each model-reported symbol to its catalog asset, using the
+   * transcript around the quote to settle shared tickers
+   */
+  private async resolveAssets(predictions: UnifiedPrediction[], transcript: string): Promise<UnifiedPrediction[]> {
+    const resolver = await this.assets.resolver();
+
+    return predictions.map(pred => {
+      if (pred.asset.symbol === 'UNKNOWN') return pred;
+
+      const context = [
+        mentionContext(transcript, [pred.context.exactQuote, pred.asset.fullName, pred.asset.symbol]),
+        pred.context.exactQuote,
+        pred.context.reasoning,
+        pred.prediction.text,
+      ].join(' ');
+      const resolution = resolver.resolve(
+        { symbol: pred.asset.symbol, name: pred.asset.fullName, type: pred.asset.type },
+        context
+      );
+      const renamed = resolution.symbol !== pred.asset.symbol;
+
+      return {
+        ...pred,
+        asset: {
+          ...pred.asset,
+          symbol: resolution.symbol,
+          type: resolution.type,
+          fullName: pred.asset.fullName || resolution.name || '',
+          alternativeSymbols: renamed
+            ? [...new Set([...(pred.asset.alternativeSymbols ?? []), pred.asset.symbol])]
+            : pred.asset.alternativeSymbols,
+          resolution,
+        },
+      };
+    });
+  }
+
+  /**
+   * Normalize the model's asset type to the enum; a hint until resolveAssets decides
    */
-  private normalizeAssetType(type: string): 'CRYPTO' | 'STOCK' | 'ETF' | 'INDEX' | 'COMMODITY' | 'CURRENCY' | 'BOND' | 'OPTION' | 'FUTURE' {
-    const normalized = (type || 'STOCK').toUpperCase();
-    const validTypes = ['CRYPTO', 'STOCK', 'ETF', 'INDEX', 'COMMODITY', 'CURRENCY', 'BOND', 'OPTION', 'FUTURE'];
-    return validTypes.includes(normalized) ? normalized as any : 'STOCK';
+  private normalizeAssetType(type: string): AssetType {
+    return parseAssetType(type) ?? 'STOCK';
   }
 
   /**
@@ -680,15 +726,6 @@ Return JSON array of predictions.`;
     return Math.ceil(totalChars / 4); // 1 token ≈ 4 chars
   }
 
-  /**
-   * Calculate estimated cost
-   */
-  private calculateCost(tokens: number): number {
-    // Gemini pricing: ~$0.001 per 1K tokens
-    const inputCost = (tokens / 1000) * 0.001;
-    return Math.round(inputCost * 100) / 100;
-  }
-
   /**
    * Generate extraction summary
    */
@@ -748,8 +785,9 @@ Return JSON array of predictions.`;
       transcriptWithTimestamps: []
     };
 
-    // Extract using our unified method
-    const unifiedResult = await this.extractFromVideo(context);
+    // Extract using our unified method, with the channel's provider chain if it has one
+    const llm = forecasterId ? await channelLLMTargets(forecasterId, sourceType) : undefined;
+    const unifiedResult = await this.extractFromVideo(context, { llm });
 
     // Transform to legacy format
     const legacyPredictions = unifiedResult.predictions.map(pred => ({
@@ -761,22 +799,43 @@ Return JSON array of predictions.`;
       assetType: pred.asset.type,
       reasoning: pred.context.reasoning,
       tags: pred.context.technicalIndicators || [],
-      aiDirection: pred.prediction.direction?.toUpperCase() || "NEUTRAL"
+      aiDirection: pred.prediction.direction?.toUpperCase() || "NEUTRAL",
+      provenance: predictionProvenance(pred)
     }));
 
     // Store predictions in database if forecaster provided
     if (forecasterId) {
       await this.storePredictions(legacyPredictions, forecasterId);
+
+      const { ReviewQueueService } = await import('./reviewQueue');
+      await new ReviewQueueService().enqueue(unifiedResult.needsReview, {
+        forecasterId,
+        source: { type: sourceType.toLowerCase(), url: null },
+      });
     }
 
     return legacyPredictions;
   }
 
+  /**
+   * Store legacy-format predictions; returns the ids of those created
+   */
   public async storePredictions(
     predictions: any[],
     forecasterId?: string
-  ): Promise<void> {
-    if (!forecasterId) return;
+  ): Promise<string[]> {
+    const created: string[] = [];
+    if (!forecasterId) return created;
+    // Earliest date each asset needs candles from: new assets and predictions on old content
+    const backfillFrom = new Map<string, Date>();
+
+    // Regime the calls are made in; left for the nightly sentiment sync to tag when today's reading is missing
+    let sentiment: SentimentReading | null = null;
+    try {
+      sentiment = await this.sentimentHistory.readingAt(new Date());
+    } catch (error) {
+      console.warn('⚠️ Could not look up the market regime:', error);
+    }
 
     for (const pred of predictions) {
       try {
@@ -785,43 +844,26 @@ Return JSON array of predictions.`;
         let baselinePrice = null;
 
         if (pred.assetSymbol && pred.assetType) {
-          const asset = await prisma.asset.upsert({
-            where: {
-              symbol_type: {
-                symbol: pred.assetSymbol,
-                type: pred.assetType,
-              },
-            },
-            update: {},
-            create: {
-              symbol: pred.assetSymbol,
-              type: pred.assetType,
-              metadata: {
-                name: null,
-                exchange: null,
-                sector: null,
-                marketCap: null,
-              },
-              priceData: {
-                price: null,
-                change24h: null,
-                volume24h: null,
-                updatedAt: null,
-                source: null,
-              },
-            },
-          });
+          const { asset, created: newAsset } = await this.assets.findOrCreateAsset({ symbol: pred.assetSymbol, type: pred.assetType });
           assetId = asset.id;
 
+          const published = pred.provenance?.timeframe?.reference ? new Date(pred.provenance.timeframe.reference) : null;
+          const isOld = published && Date.now() - published.getTime() > 24 * 60 * 60 * 1000;
+          if (newAsset || isOld) {
+            const from = isOld ? published : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+            const earlier = backfillFrom.get(asset.id);
+            backfillFrom.set(asset.id, earlier && earlier < from ? earlier : from);
+          }
+
           // Fetch current price as baseline for this prediction
           try {
-            const currentPrice = await this.marketDataService.getPrice(pred.assetSymbol);
+            const currentPrice = await this.marketDataService.getPrice(asset.symbol);
             if (currentPrice?.price) {
               baselinePrice = currentPrice.price;
-              console.log(`📊 Baseline price for ${pred.assetSymbol}: $${baselinePrice}`);
+              console.log(`📊 Baseline price for ${asset.symbol}: $${baselinePrice}`);
             }
           } catch (error) {
-            console.warn(`⚠️ Could not fetch baseline price for ${pred.assetSymbol}:`, error);
+            console.warn(`⚠️ Could not fetch baseline price for ${asset.symbol}:`, error);
           }
         }
 
@@ -833,7 +875,7 @@ Return JSON array of predictions.`;
         );
 
         // Create prediction
-        await prisma.prediction.create({
+        const stored = await prisma.prediction.create({
           data: {
             forecasterId,
             assetId,
@@ -843,6 +885,8 @@ Return JSON array of predictions.`;
             targetPrice: pred.targetPrice,
             baselinePrice: baselinePrice,
             direction: correctedDirection,
+            marketRegime: sentiment?.regime ?? null,
+            sentimentScore: sentiment?.score ?? null,
             metadata: {
               source: {
                 type: pred.sourceType ? pred.sourceType.toLowerCase() : null,
@@ -851,7 +895,7 @@ Return JSON array of predictions.`;
               reasoning: pred.reasoning,
               tags: pred.tags || [],
               extraction: {
-                model: "gemini-pro",
+                ...(pred.provenance ?? { model: null }),
                 confidence: pred.confidence,
               },
               directionCorrection: {
@@ -866,10 +910,38 @@ Return JSON array of predictions.`;
             outcome: "PENDING",
           },
         });
+        created.push(stored.id);
+
+        // Picked up by webhook fan-out
+        await prisma.event.create({
+          data: {
+            type: "PREDICTION_CREATED",
+            entityType: "PREDICTION",
+            entityId: stored.id,
+            data: {
+              forecasterId,
+              assetId,
+              direction: correctedDirection,
+              targetPrice: pred.targetPrice ?? null,
+              targetDate: pred.targetDate ?? null,
+              confidence: pred.confidence,
+            },
+          },
+        });
       } catch (error) {
         console.error("Failed to store prediction:", error);
       }
     }
+
+    for (const [assetId, from] of backfillFrom) {
+      try {
+        await this.priceBackfill.requestBackfill(assetId, from);
+      } catch (error) {
+        console.warn(`⚠️ Could not queue price backfill for asset ${assetId}:`, error);
+      }
+    }
+
+    return created;
   }
 
   /**
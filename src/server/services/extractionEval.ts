@@ -0,0 +1,494 @@
+import * as fs from "fs";
+import { AssetResolver } from "./assetCatalog";
+import { AssetResolutionService } from "./assetResolution";
+import { UnifiedExtractionService, type UnifiedPrediction } from "./extraction";
+import { LLMClient } from "./llm/client";
+import { FakeProvider } from "./llm/fakeProvider";
+import type { LLMProvider, LLMRequest, LLMResponse, LLMTarget } from "./llm/types";
+
+// ========================================
+// GOLDEN SET
+// ========================================
+
+export interface GoldenPrediction {
+  asset: string;
+  direction: "bullish" | "bearish" | "neutral";
+  targetPrice?: number;
+  // YYYY-MM-DD the prediction resolves on
+  targetDate?: string;
+}
+
+export interface GoldenCase {
+  id: string;
+  title: string;
+  channelName?: string;
+  publishedAt: string;
+  transcript: string;
+  // Every prediction a correct extraction should return; empty means none
+  expected: GoldenPrediction[];
+  // Extracted but rejected in review; informational, since scoring already
+  // counts anything outside `expected` as a false positive
+  rejected?: GoldenPrediction[];
+  notes?: string;
+}
+
+export interface GoldenSet {
+  version: number;
+  description?: string;
+  cases: GoldenCase[];
+}
+
+/**
+ * Raw LLM responses for one configuration, replayed in call order per case
+ */
+export interface RecordingSet {
+  config: string;
+  llm?: LLMTarget[];
+  goldenVersion: number;
+  recordedAt: string;
+  responses: Record<string, string[]>;
+}
+
+export function loadGoldenSet(path: string): GoldenSet {
+  return JSON.parse(fs.readFileSync(path, "utf-8")) as GoldenSet;
+}
+
+export function loadRecordingSet(path: string): RecordingSet {
+  return JSON.parse(fs.readFileSync(path, "utf-8")) as RecordingSet;
+}
+
+// ========================================
+// SCORING
+// ========================================
+
+export interface EvalOptions {
+  // An extracted targetDate this close to the annotation counts as parsed correctly
+  dateToleranceDays: number;
+}
+
+export const DEFAULT_EVAL_OPTIONS: EvalOptions = {
+  dateToleranceDays: 7,
+};
+
+export interface CaseScore {
+  caseId: string;
+  expectedAssets: string[];
+  extractedAssets: string[];
+  assetTruePositives: number;
+  assetFalsePositives: number;
+  assetFalseNegatives: number;
+  // Expected predictions paired with an extracted one for the same asset
+  matched: number;
+  directionCorrect: number;
+  targetPricePairs: number;
+  targetPriceAbsPctErrorSum: number;
+  targetPriceMissing: number;
+  timeframePairs: number;
+  timeframeCorrect: number;
+  // Pairs where the extracted date could be compared at all
+  datedPairs: number;
+  dateErrorDaysSum: number;
+  error?: string;
+}
+
+export interface EvalMetrics {
+  cases: number;
+  failedCases: number;
+  assetPrecision: number | null;
+  assetRecall: number | null;
+  assetF1: number | null;
+  directionAccuracy: number | null;
+  // Mean absolute percentage error of target prices, as a fraction
+  targetPriceError: number | null;
+  targetPriceMissing: number;
+  timeframeAccuracy: number | null;
+  meanDateErrorDays: number | null;
+}
+
+export interface EvalReport {
+  config: string;
+  goldenVersion: number;
+  metrics: EvalMetrics;
+  cases: CaseScore[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase();
+}
+
+function daysBetween(a: string, b: string): number | null {
+  const first = new Date(a).getTime();
+  const second = new Date(b).getTime();
+  if (isNaN(first) || isNaN(second)) return null;
+  return Math.abs(first - second) / DAY_MS;
+}
+
+/**
+ * Pair each expected prediction with an unused extracted prediction for the
+ * same asset, preferring the closest target price when an asset has several
+ */
+function pairPredictions(expected: GoldenPrediction[], extracted: UnifiedPrediction[]) {
+  const unused = new Set(extracted.map((_, i) => i));
+  const pairs: Array<{ expected: GoldenPrediction; extracted: UnifiedPrediction }> = [];
+
+  for (const item of expected) {
+    const symbol = normalizeSymbol(item.asset);
+    const candidates = [...unused].filter(i => normalizeSymbol(extracted[i]!.asset.symbol) === symbol);
+    if (candidates.length === 0) continue;
+
+    const best = candidates.reduce((a, b) => {
+      if (item.targetPrice === undefined) return a;
+      const distance = (i: number) => Math.abs((extracted[i]!.prediction.targetPrice ?? Infinity) - item.targetPrice!);
+      return distance(b) < distance(a) ? b : a;
+    });
+
+    unused.delete(best);
+    pairs.push({ expected: item, extracted: extracted[best]! });
+  }
+
+  return pairs;
+}
+
+export function scoreCase(
+  goldenCase: GoldenCase,
+  extracted: UnifiedPrediction[],
+  options: EvalOptions = DEFAULT_EVAL_OPTIONS
+): CaseScore {
+  const expectedAssets = [...new Set(goldenCase.expected.map(p => normalizeSymbol(p.asset)))];
+  const extractedAssets = [...new Set(extracted.map(p => normalizeSymbol(p.asset.symbol)))];
+  const truePositives = expectedAssets.filter(symbol => extractedAssets.includes(symbol)).length;
+
+  const score: CaseScore = {
+    caseId: goldenCase.id,
+    expectedAssets,
+    extractedAssets,
+    assetTruePositives: truePositives,
+    assetFalsePositives: extractedAssets.length - truePositives,
+    assetFalseNegatives: expectedAssets.length - truePositives,
+    matched: 0,
+    directionCorrect: 0,
+    targetPricePairs: 0,
+    targetPriceAbsPctErrorSum: 0,
+    targetPriceMissing: 0,
+    timeframePairs: 0,
+    timeframeCorrect: 0,
+    datedPairs: 0,
+    dateErrorDaysSum: 0,
+  };
+
+  for (const pair of pairPredictions(goldenCase.expected, extracted)) {
+    score.matched++;
+
+    if (pair.extracted.prediction.direction === pair.expected.direction) {
+      score.directionCorrect++;
+    }
+
+    if (pair.expected.targetPrice !== undefined) {
+      const actual = pair.extracted.prediction.targetPrice;
+      if (actual === undefined || actual === null) {
+        score.targetPriceMissing++;
+      } else {
+        score.targetPricePairs++;
+        score.targetPriceAbsPctErrorSum +=
+          pair.expected.targetPrice === 0
+            ? (actual === 0 ? 0 : 1)
+            : Math.abs(actual - pair.expected.targetPrice) / Math.abs(pair.expected.targetPrice);
+      }
+    }
+
+    if (pair.expected.targetDate) {
+      score.timeframePairs++;
+      const errorDays = pair.extracted.prediction.targetDate
+        ? daysBetween(pair.extracted.prediction.targetDate, pair.expected.targetDate)
+        : null;
+
+      // Missing or unparseable dates count as wrong but add no day error
+      if (errorDays !== null) {
+        score.datedPairs++;
+        score.dateErrorDaysSum += errorDays;
+        if (errorDays <= options.dateToleranceDays) score.timeframeCorrect++;
+      }
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Micro-averaged metrics across cases. Failed cases count every expected
+ * asset as missed so a crashing configuration cannot look better.
+ */
+export function aggregateScores(scores: CaseScore[]): EvalMetrics {
+  const sum = (key: keyof CaseScore) => scores.reduce((acc, score) => acc + (score[key] as number), 0);
+
+  const tp = sum("assetTruePositives");
+  const fp = sum("assetFalsePositives");
+  const fn = sum("assetFalseNegatives");
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+
+  return {
+    cases: scores.length,
+    failedCases: scores.filter(score => score.error).length,
+    assetPrecision: precision,
+    assetRecall: recall,
+    assetF1: precision !== null && recall !== null && precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : null,
+    directionAccuracy: ratio(sum("directionCorrect"), sum("matched")),
+    targetPriceError: ratio(sum("targetPriceAbsPctErrorSum"), sum("targetPricePairs")),
+    targetPriceMissing: sum("targetPriceMissing"),
+    timeframeAccuracy: ratio(sum("timeframeCorrect"), sum("timeframePairs")),
+    meanDateErrorDays: ratio(sum("dateErrorDaysSum"), sum("datedPairs")),
+  };
+}
+
+// ========================================
+// RUNNING
+// ========================================
+
+/**
+ * Resolves mentions against the built-in catalog only, so golden runs are
+ * reproducible and never touch the database
+ */
+class CatalogAssetResolution extends AssetResolutionService {
+  private catalog = AssetResolver.fromDefaults();
+
+  async resolver(): Promise<AssetResolver> {
+    return this.catalog;
+  }
+}
+
+/**
+ * Run every golden case through the full extraction path (prompt, parsing,
+ * dedup, scoring) with the client returned for that case
+ */
+export async function evaluateGoldenSet(
+  set: GoldenSet,
+  config: string,
+  clientFor: (goldenCase: GoldenCase) => LLMClient,
+  options: EvalOptions = DEFAULT_EVAL_OPTIONS
+): Promise<EvalReport> {
+  const scores: CaseScore[] = [];
+  const assets = new CatalogAssetResolution();
+
+  for (const goldenCase of set.cases) {
+    try {
+      const service = new UnifiedExtractionService(clientFor(goldenCase), assets);
+      const result = await service.extractFromVideo({
+        videoId: `golden_${goldenCase.id}`,
+        videoUrl: "",
+        title: goldenCase.title,
+        description: "",
+        channelName: goldenCase.channelName ?? "Golden Set",
+        publishedAt: new Date(goldenCase.publishedAt),
+        transcript: goldenCase.transcript,
+      });
+      // Predictions held for review are still extraction output
+      scores.push(scoreCase(goldenCase, [...result.predictions, ...result.needsReview], options));
+    } catch (error) {
+      const score = scoreCase(goldenCase, [], options);
+      score.error = error instanceof Error ? error.message : String(error);
+      scores.push(score);
+    }
+  }
+
+  return {
+    config,
+    goldenVersion: set.version,
+    metrics: aggregateScores(scores),
+    cases: scores,
+  };
+}
+
+/**
+ * Offline client for one case that replays its recorded responses
+ */
+export function replayClient(recordings: RecordingSet, goldenCase: GoldenCase): LLMClient {
+  const responses = recordings.responses[goldenCase.id];
+  if (!responses) {
+    throw new Error(`No recorded response for case "${goldenCase.id}" in ${recordings.config}`);
+  }
+
+  return new LLMClient([
+    new FakeProvider({ model: `recorded:${recordings.config}`, sequence: responses }),
+  ]);
+}
+
+/**
+ * Captures the text of every response passing through a live provider
+ */
+class RecordingProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private onResponse: (text: string) => void
+  ) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.complete(request);
+    this.onResponse(response.text);
+    return response;
+  }
+}
+
+/**
+ * Run the golden set against live providers and keep the raw responses so
+ * later runs can replay them without network access
+ */
+export async function recordGoldenSet(
+  set: GoldenSet,
+  config: string,
+  client: LLMClient,
+  llm?: LLMTarget[],
+  options: EvalOptions = DEFAULT_EVAL_OPTIONS
+): Promise<{ recordings: RecordingSet; report: EvalReport }> {
+  const responses: Record<string, string[]> = {};
+
+  const report = await evaluateGoldenSet(
+    set,
+    config,
+    goldenCase => {
+      const caseResponses: string[] = (responses[goldenCase.id] = []);
+      return new LLMClient(
+        client.providers.map(provider => new RecordingProvider(provider, text => caseResponses.push(text)))
+      );
+    },
+    options
+  );
+
+  return {
+    recordings: {
+      config,
+      llm,
+      goldenVersion: set.version,
+      recordedAt: new Date().toISOString(),
+      responses,
+    },
+    report,
+  };
+}
+
+// ========================================
+// COMPARISON
+// ========================================
+
+type MetricKey = Exclude<keyof EvalMetrics, "cases" | "failedCases" | "targetPriceMissing">;
+
+const COMPARED_METRICS: Array<{ key: MetricKey; label: string; higherIsBetter: boolean }> = [
+  { key: "assetPrecision", label: "Asset precision", higherIsBetter: true },
+  { key: "assetRecall", label: "Asset recall", higherIsBetter: true },
+  { key: "assetF1", label: "Asset F1", higherIsBetter: true },
+  { key: "directionAccuracy", label: "Direction accuracy", higherIsBetter: true },
+  { key: "targetPriceError", label: "Target price error (MAPE)", higherIsBetter: false },
+  { key: "timeframeAccuracy", label: "Timeframe accuracy", higherIsBetter: true },
+  { key: "meanDateErrorDays", label: "Mean date error (days)", higherIsBetter: false },
+];
+
+export interface MetricComparison {
+  metric: MetricKey;
+  label: string;
+  baseline: number | null;
+  candidate: number | null;
+  delta: number | null;
+  // null when the metric is unavailable on either side or unchanged
+  improved: boolean | null;
+}
+
+export interface ReportComparison {
+  baseline: string;
+  candidate: string;
+  metrics: MetricComparison[];
+  // Cases where the candidate found fewer expected assets or directions
+  regressions: Array<{ caseId: string; reason: string }>;
+}
+
+export function compareReports(baseline: EvalReport, candidate: EvalReport): ReportComparison {
+  const metrics = COMPARED_METRICS.map(({ key, label, higherIsBetter }) => {
+    const before = baseline.metrics[key];
+    const after = candidate.metrics[key];
+    const delta = before !== null && after !== null ? after - before : null;
+
+    return {
+      metric: key,
+      label,
+      baseline: before,
+      candidate: after,
+      delta,
+      improved: delta === null || Math.abs(delta) < 1e-9 ? null : (delta > 0) === higherIsBetter,
+    };
+  });
+
+  const regressions: ReportComparison["regressions"] = [];
+  for (const after of candidate.cases) {
+    const before = baseline.cases.find(score => score.caseId === after.caseId);
+    if (!before) continue;
+
+    if (after.error && !before.error) {
+      regressions.push({ caseId: after.caseId, reason: `failed: ${after.error}` });
+    } else if (after.assetTruePositives < before.assetTruePositives) {
+      regressions.push({
+        caseId: after.caseId,
+        reason: `found ${after.assetTruePositives}/${after.expectedAssets.length} assets (was ${before.assetTruePositives})`,
+      });
+    } else if (after.directionCorrect < before.directionCorrect) {
+      regressions.push({
+        caseId: after.caseId,
+        reason: `${after.directionCorrect} correct directions (was ${before.directionCorrect})`,
+      });
+    } else if (after.assetFalsePositives > before.assetFalsePositives) {
+      regressions.push({
+        caseId: after.caseId,
+        reason: `${after.assetFalsePositives} spurious assets (was ${before.assetFalsePositives})`,
+      });
+    }
+  }
+
+  return { baseline: baseline.config, candidate: candidate.config, metrics, regressions };
+}
+
+function formatMetric(value: number | null, key: MetricKey): string {
+  if (value === null) return "—";
+  return key === "meanDateErrorDays" ? value.toFixed(1) : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Markdown report for a comparison, suitable for a PR description
+ */
+export function formatComparison(comparison: ReportComparison): string {
+  const lines = [
+    `## Extraction eval: ${comparison.baseline} → ${comparison.candidate}`,
+    "",
+    "| Metric | Baseline | Candidate | Change |",
+    "| --- | --- | --- | --- |",
+    ...comparison.metrics.map(row => {
+      const change =
+        row.delta === null
+          ? "—"
+          : `${row.delta >= 0 ? "+" : ""}${formatMetric(row.delta, row.metric)}${row.improved === null ? "" : row.improved ? " ✅" : " ❌"}`;
+      return `| ${row.label} | ${formatMetric(row.baseline, row.metric)} | ${formatMetric(row.candidate, row.metric)} | ${change} |`;
+    }),
+  ];
+
+  if (comparison.regressions.length > 0) {
+    lines.push("", "### Regressed cases", "");
+    for (const regression of comparison.regressions) {
+      lines.push(`- \`${regression.caseId}\`: ${regression.reason}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,187 @@
+import type { UnifiedVideoContext } from "./extraction";
+
+export interface ExtractionPromptTemplate {
+  version: string;
+  description: string;
+  // Date the template was introduced (YYYY-MM-DD)
+  introducedAt: string;
+  system: string;
+  comprehensive(context: UnifiedVideoContext, now: Date): string;
+  chunk(chunk: string, context: UnifiedVideoContext, index: number, total: number): string;
+}
+
+/**
+ * Content and predictions extracted before prompts were versioned
+ */
+export const UNVERSIONED_PROMPT = "unversioned";
+
+/**
+ * Extraction prompt templates by version. Templates are append-only: to
+ * change a prompt, add a new version and point CURRENT_PROMPT_VERSION at
+ * it, so stored provenance always refers to the text that produced it.
+ */
+export const EXTRACTION_PROMPTS: Record<string, ExtractionPromptTemplate> = {
+  v1: {
+    version: "v1",
+    description: "Single-call extraction with price-aware direction rules and edge case handling",
+    introducedAt: "2025-01-01",
+    system: "You are a financial analyst. Extract predictions and return ONLY valid JSON array.",
+    comprehensive(context, now) {
+      const today = now.toISOString().split("T")[0];
+
+      return `You are an expert financial analyst extracting ALL predictions from video content.
+
+VIDEO INFORMATION:
+==================
+Title: ${context.title}
+Channel: ${context.channelName || 'Unknown'}
+Published: ${context.publishedAt?.toISOString() || 'Unknown'}
+Description: ${context.description || 'No description'}
+
+FULL TRANSCRIPT:
+===============
+${context.transcript}
+
+EXTRACTION TASK:
+===============
+Extract EVERY financial prediction made in this video. For each prediction:
+
+1. ASSET IDENTIFICATION (use full video context):
+   - symbol: The EXACT ticker/symbol mentioned (e.g., XRP, BTC, ETH, AAPL, TSLA)
+   - fullName: Complete official name (e.g., "Ripple" for XRP, "Bitcoin" for BTC)
+   - type: CRYPTO, STOCK, ETF, INDEX, COMMODITY, CURRENCY, BOND, OPTION, FUTURE
+   - dataSource: binance (major crypto), yfinance (stocks/ETFs), coingecko (altcoins)
+   - alternativeSymbols: Other symbols used
+   - confidence: 0-100
+
+2. PREDICTION DETAILS:
+   - text: Complete prediction statement
+   - direction: bullish/bearish/neutral (IMPORTANT: Consider current asset price when determining direction)
+   - timeframe: Exact timeframe mentioned
+   - targetDate: ALWAYS provide as YYYY-MM-DD ISO date. Convert relative dates:
+     * "Q1 2025" → "2025-03-31"
+     * "Q2 2025" → "2025-06-30"
+     * "Q3 2025" → "2025-09-30"
+     * "Q4 2025" → "2025-12-31"
+     * "end of year" → current year's 12-31
+     * "next few months" → 3 months from today
+     * "next month" → 1 month from today
+     * "within 6 months" → 6 months from today
+     * TODAY'S DATE: ${today}
+   - targetPrice: Specific target if mentioned (number only)
+   - confidence: 0-100
+
+DIRECTION ANALYSIS REQUIREMENT:
+When determining direction (bullish/bearish/neutral), you MUST consider the current market price context:
+- If target price > current price = BULLISH (price going up)
+- If target price < current price = BEARISH (price going down)
+- If target price ≈ current price (within 2%) = NEUTRAL
+- TODAY'S DATE: ${today}
+- Please check current asset prices when making direction decisions, don't rely solely on language sentiment
+
+3. CONTEXT:
+   - exactQuote: Exact words from transcript
+   - reasoning: Why prediction was made
+   - marketFactors: Market conditions
+   - technicalIndicators: TA mentioned
+   - fundamentalPoints: FA points
+   - positionInTranscript: {start: char_position, end: char_position}
+
+CRITICAL RULES:
+- Look for SPECIFIC ASSET SYMBOLS in the transcript and video title
+- Do NOT return "UNKNOWN" as a symbol - extract the actual ticker mentioned
+- Common crypto: XRP (Ripple), XLM (Stellar), HBAR (Hedera), BTC (Bitcoin), ETH (Ethereum)
+- If the title mentions specific assets (e.g., "XRP, XLM & HBAR"), these are key focus assets
+- Use appropriate data source based on asset type:
+  - binance: major cryptocurrencies (BTC, ETH, XRP, etc.)
+  - coingecko: alternative cryptocurrencies (smaller market cap)
+  - yfinance: stocks, ETFs, indices
+
+EDGE CASE HANDLING:
+1. ASSET IDENTIFICATION:
+   - Fix common typos: "Bitcon"→"BTC", "Etherium"→"ETH", "doge coin"→"DOGE"
+   - Handle wrapped tokens: "WBTC"→"BTC", "stETH"→"ETH", "BTCB"→"BTC"
+   - Extract from pairs: "BTC/USD"→"BTC", "ETH/BTC"→both "ETH" and "BTC"
+   - Multiple assets: "XRP and XLM" → create separate predictions for each
+
+2. DATE CONVERSION:
+   - ALWAYS convert to ISO date YYYY-MM-DD
+   - "end of year" in Sept video → current year, Oct+ video → next year
+   - "between Q1 and Q3" → use Q3 (later date): "2025-09-30"
+   - "next few months" → exactly 3 months from today
+   - Seasons: spring→06-20, summer→09-22, fall→12-20, winter→03-19
+
+3. PRICE HANDLING:
+   - Percentages: "up 500%" → calculate from current price if known
+   - Relative: "double", "10x" → multiply current price
+   - Ranges: "between $5 and $10" → use $10 (upper bound)
+   - Bearish: "crash to zero" → targetPrice: 0
+   - Scientific: "1e6" → 1000000
+   - Non-USD: Convert €→1.1x, £→1.25x, ¥→0.007x to USD
+
+4. QUALITY FILTERING:
+   - SKIP predictions that are questions: "Will BTC hit 100k?"
+   - SKIP sarcasm/jokes: excessive "!!!", "to the moon 🚀😂"
+   - REDUCE confidence for: "maybe", "could", "possibly"
+   - REDUCE confidence for: "analyst says", "according to"
+   - SKIP hypotheticals: "in a perfect world", "imagine if"
+
+Return ONLY a valid JSON array with this exact structure:
+
+Example output structure:
+[
+  {
+    "asset": {
+      "symbol": "XRP",
+      "fullName": "Ripple",
+      "type": "CRYPTO",
+      "dataSource": "binance",
+      "alternativeSymbols": [],
+      "confidence": 95
+    },
+    "prediction": {
+      "text": "XRP will hit $5 by end of year",
+      "direction": "bullish",
+      "timeframe": "end of year",
+      "targetDate": "${now.getUTCFullYear()}-12-31",
+      "targetPrice": 5,
+      "confidence": 85
+    },
+    "context": {
+      "exactQuote": "I believe XRP will hit $5 by end of year",
+      "reasoning": "SEC lawsuit ending and institutional adoption",
+      "marketFactors": ["SEC lawsuit resolution", "institutional adoption"],
+      "technicalIndicators": [],
+      "fundamentalPoints": ["adoption growing"],
+      "positionInTranscript": {"start": 100, "end": 200}
+    }
+  }
+]`;
+    },
+    chunk(chunk, context, index, total) {
+      return `You are extracting predictions from chunk ${index + 1}/${total} of a video.
+
+VIDEO CONTEXT:
+Title: ${context.title}
+Channel: ${context.channelName}
+
+CHUNK CONTENT:
+${chunk}
+
+Extract all financial predictions from this chunk following the same rules as the comprehensive prompt.
+Focus on finding specific asset symbols, target prices, and timeframes.
+
+Return JSON array of predictions.`;
+    },
+  },
+};
+
+export const CURRENT_PROMPT_VERSION = "v1";
+
+export function getExtractionPrompt(version: string = CURRENT_PROMPT_VERSION): ExtractionPromptTemplate {
+  const template = EXTRACTION_PROMPTS[version];
+  if (!template) {
+    throw new Error(`Unknown extraction prompt version "${version}"`);
+  }
+  return template;
+}
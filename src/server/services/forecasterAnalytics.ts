@@ -0,0 +1,327 @@
+import { prisma } from "../db";
+import { brierScore, normalizeOutcome, outcomeValue, type BinaryForecast } from "./scoring";
+import { MARKET_CONTEXT } from "./marketSentiment";
+import { type ResolutionResult } from "./resolution";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Most assets listed individually; the long tail is left to the asset type breakdown
+const MAX_ASSET_SEGMENTS = 15;
+// Rolling series is thinned to about this many points whatever the window
+const MAX_ROLLING_POINTS = 52;
+
+export const ANALYTICS_WINDOWS = { "30d": 30, "90d": 90, "1y": 365, all: null } as const;
+export type AnalyticsWindow = keyof typeof ANALYTICS_WINDOWS;
+
+export const ANALYTICS_DIMENSIONS = ["assetType", "asset", "horizon", "direction", "marketRegime", "source"] as const;
+export type AnalyticsDimension = (typeof ANALYTICS_DIMENSIONS)[number];
+
+// Target date minus creation date, in days; upper bounds inclusive
+export const HORIZON_BUCKETS = [
+  { key: "1W", label: "Up to a week", maxDays: 7 },
+  { key: "1M", label: "1 week – 1 month", maxDays: 31 },
+  { key: "3M", label: "1 – 3 months", maxDays: 92 },
+  { key: "1Y", label: "3 – 12 months", maxDays: 366 },
+  { key: "LONG", label: "Over a year", maxDays: Infinity },
+] as const;
+
+export interface AnalyticsPrediction {
+  outcome: string;
+  confidence: number | null;
+  direction: string | null;
+  createdAt: Date;
+  targetDate: Date | null;
+  validatedAt: Date | null;
+  assetSymbol: string | null;
+  assetType: string | null;
+  marketRegime: string | null;
+  source: string | null;
+  // Realised price change over the horizon, in percent
+  changePercent: number | null;
+  excessReturn: number | null;
+}
+
+export interface SegmentMetrics {
+  total: number;
+  resolved: number;
+  pending: number;
+  correct: number;
+  partiallyCorrect: number;
+  incorrect: number;
+  // Percent of resolved calls at least partially correct
+  accuracy: number | null;
+  // Percent of resolved directional calls where price moved the called way
+  hitRate: number | null;
+  // Over resolved calls with a stated confidence; lower is better
+  brierScore: number | null;
+  // Mean direction-adjusted price change, in percent
+  avgReturn: number | null;
+  // Mean excess return over the benchmark, in percentage points
+  alpha: number | null;
+}
+
+export interface AnalyticsSegment extends SegmentMetrics {
+  key: string;
+  label: string;
+}
+
+export interface RollingPoint {
+  date: string;
+  resolved: number;
+  accuracy: number | null;
+  hitRate: number | null;
+  brierScore: number | null;
+  avgReturn: number | null;
+}
+
+export interface ForecasterAnalytics {
+  forecasterId: string;
+  window: AnalyticsWindow;
+  from: Date | null;
+  summary: SegmentMetrics;
+  segments: Record<AnalyticsDimension, AnalyticsSegment[]>;
+  rollingDays: number;
+  rolling: RollingPoint[];
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+export function horizonBucket(createdAt: Date, targetDate: Date | null): string {
+  if (!targetDate) return "NONE";
+
+  const days = (targetDate.getTime() - createdAt.getTime()) / DAY_MS;
+  return HORIZON_BUCKETS.find(bucket => days <= bucket.maxDays)!.key;
+}
+
+// Direction-adjusted move: what holding the call's side would have returned
+function directedReturn(p: AnalyticsPrediction): number | null {
+  if (p.changePercent === null) return null;
+  if (p.direction === "BULLISH") return p.changePercent;
+  if (p.direction === "BEARISH") return -p.changePercent;
+  return null;
+}
+
+export function summarize(predictions: AnalyticsPrediction[]): SegmentMetrics {
+  let correct = 0;
+  let partiallyCorrect = 0;
+  let incorrect = 0;
+  const forecasts: BinaryForecast[] = [];
+  const hits: boolean[] = [];
+  const returns: number[] = [];
+  const excess: number[] = [];
+
+  for (const p of predictions) {
+    const outcome = normalizeOutcome(p.outcome);
+    if (outcome === "PENDING") continue;
+
+    if (outcome === "CORRECT") correct++;
+    else if (outcome === "PARTIALLY_CORRECT") partiallyCorrect++;
+    else incorrect++;
+
+    const value = outcomeValue(outcome);
+    if (p.confidence !== null && value !== null) {
+      forecasts.push({ probability: p.confidence, outcome: value });
+    }
+
+    const directed = directedReturn(p);
+    if (directed !== null) {
+      hits.push(directed > 0);
+      returns.push(directed);
+    }
+    if (p.excessReturn !== null) excess.push(p.excessReturn);
+  }
+
+  const resolved = correct + partiallyCorrect + incorrect;
+  const brier = brierScore(forecasts);
+  const avgReturn = mean(returns);
+  const alpha = mean(excess);
+
+  return {
+    total: predictions.length,
+    resolved,
+    pending: predictions.length - resolved,
+    correct,
+    partiallyCorrect,
+    incorrect,
+    accuracy: resolved ? round(((correct + partiallyCorrect) / resolved) * 100, 1) : null,
+    hitRate: hits.length ? round((hits.filter(Boolean).length / hits.length) * 100, 1) : null,
+    brierScore: brier !== null ? round(brier, 4) : null,
+    avgReturn: avgReturn !== null ? round(avgReturn, 2) : null,
+    alpha: alpha !== null ? round(alpha, 2) : null,
+  };
+}
+
+function dimensionKey(p: AnalyticsPrediction, dimension: AnalyticsDimension): string {
+  switch (dimension) {
+    case "assetType":
+      return p.assetType ?? "UNKNOWN";
+    case "asset":
+      return p.assetSymbol ?? "UNKNOWN";
+    case "horizon":
+      return horizonBucket(p.createdAt, p.targetDate);
+    case "direction":
+      return p.direction ?? "NEUTRAL";
+    case "marketRegime":
+      return p.marketRegime ?? "UNKNOWN";
+    case "source":
+      return p.source?.toUpperCase() ?? "UNKNOWN";
+  }
+}
+
+// Dimensions with a natural order keep it; the rest list the busiest segments first
+const FIXED_ORDER: Partial<Record<AnalyticsDimension, string[]>> = {
+  horizon: [...HORIZON_BUCKETS.map(b => b.key), "NONE"],
+  direction: ["BULLISH", "BEARISH", "NEUTRAL"],
+  marketRegime: [...Object.values(MARKET_CONTEXT), "UNKNOWN"],
+};
+
+export function segmentBy(
+  predictions: AnalyticsPrediction[],
+  dimension: AnalyticsDimension,
+  label: (key: string) => string = key => key
+): AnalyticsSegment[] {
+  const groups = new Map<string, AnalyticsPrediction[]>();
+  for (const p of predictions) {
+    const key = dimensionKey(p, dimension);
+    groups.set(key, [...(groups.get(key) ?? []), p]);
+  }
+
+  const segments = [...groups].map(([key, members]) => ({ key, label: label(key), ...summarize(members) }));
+  const order = FIXED_ORDER[dimension];
+
+  if (order) {
+    return segments.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key));
+  }
+
+  segments.sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+  return dimension === "asset" ? segments.slice(0, MAX_ASSET_SEGMENTS) : segments;
+}
+
+/**
+ * Metrics over a trailing window of resolution dates, sampled evenly
+ * between `from` and `to`
+ */
+export function rollingSeries(predictions: AnalyticsPrediction[], rollingDays: number, from: Date, to: Date): RollingPoint[] {
+  const resolved = predictions
+    .filter(p => p.validatedAt && normalizeOutcome(p.outcome) !== "PENDING")
+    .sort((a, b) => a.validatedAt!.getTime() - b.validatedAt!.getTime());
+  if (resolved.length === 0) return [];
+
+  const spanDays = Math.max(1, Math.ceil((to.getTime() - from.getTime()) / DAY_MS));
+  const stepMs = Math.max(1, Math.ceil(spanDays / MAX_ROLLING_POINTS)) * DAY_MS;
+  const points: RollingPoint[] = [];
+
+  for (let at = to.getTime(); at >= from.getTime(); at -= stepMs) {
+    const inWindow = resolved.filter(p => {
+      const t = p.validatedAt!.getTime();
+      return t <= at && t > at - rollingDays * DAY_MS;
+    });
+    const metrics = summarize(inWindow);
+
+    points.push({
+      date: new Date(at).toISOString().split("T")[0]!,
+      resolved: metrics.resolved,
+      accuracy: metrics.accuracy,
+      hitRate: metrics.hitRate,
+      brierScore: metrics.brierScore,
+      avgReturn: metrics.avgReturn,
+    });
+  }
+
+  return points.reverse();
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  YOUTUBE: "YouTube",
+  TWITTER: "X / Twitter",
+  ARTICLE: "Articles",
+  UNKNOWN: "Unknown source",
+};
+
+/**
+ * Per-forecaster accuracy, calibration and returns, split along the
+ * dimensions the analytics tab charts
+ */
+export class ForecasterAnalyticsService {
+  async getAnalytics(
+    forecasterId: string,
+    options: { window?: AnalyticsWindow; rollingDays?: number } = {}
+  ): Promise<ForecasterAnalytics | null> {
+    const window = options.window ?? "all";
+    const rollingDays = options.rollingDays ?? 90;
+
+    const forecaster = await prisma.forecaster.findUnique({
+      where: { id: forecasterId },
+      select: { id: true, channels: { select: { channelType: true, channelName: true, isPrimary: true } } },
+    });
+    if (!forecaster) return null;
+
+    const now = new Date();
+    const windowDays = ANALYTICS_WINDOWS[window];
+    const from = windowDays !== null ? new Date(now.getTime() - windowDays * DAY_MS) : null;
+
+    const rows = await prisma.prediction.findMany({
+      where: { forecasterId, ...(from && { createdAt: { gte: from } }) },
+      select: {
+        outcome: true,
+        confidence: true,
+        direction: true,
+        createdAt: true,
+        targetDate: true,
+        validatedAt: true,
+        assetReturn: true,
+        excessReturn: true,
+        marketRegime: true,
+        metadata: true,
+        asset: { select: { symbol: true, type: true } },
+      },
+    });
+
+    const predictions: AnalyticsPrediction[] = rows.map(row => {
+      const metadata = row.metadata as { source?: { type?: string | null }; resolution?: ResolutionResult } | null;
+      return {
+        outcome: row.outcome,
+        confidence: row.confidence !== null ? Number(row.confidence) : null,
+        direction: row.direction,
+        createdAt: row.createdAt,
+        targetDate: row.targetDate,
+        validatedAt: row.validatedAt,
+        assetSymbol: row.asset?.symbol ?? null,
+        assetType: row.asset?.type ?? null,
+        marketRegime: row.marketRegime,
+        source: metadata?.source?.type ?? null,
+        // The benchmark scorer's return is measured on candles; the resolution's own is the fallback
+        changePercent: row.assetReturn !== null ? Number(row.assetReturn) : (metadata?.resolution?.changePercent ?? null),
+        excessReturn: row.excessReturn !== null ? Number(row.excessReturn) : null,
+      };
+    });
+
+    // Label sources with the forecaster's own channel of that type, primary first
+    const channels = [...forecaster.channels].sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary));
+    const sourceLabel = (key: string) =>
+      channels.find(c => c.channelType === key && c.channelName)?.channelName ?? SOURCE_LABELS[key] ?? key;
+    const horizonLabel = (key: string) => HORIZON_BUCKETS.find(b => b.key === key)?.label ?? "No target date";
+
+    const earliest = predictions.reduce<Date | null>(
+      (min, p) => (p.validatedAt && (!min || p.validatedAt < min) ? p.validatedAt : min),
+      null
+    );
+
+    return {
+      forecasterId,
+      window,
+      from,
+      summary: summarize(predictions),
+      segments: {
+        assetType: segmentBy(predictions, "assetType"),
+        asset: segmentBy(predictions, "asset"),
+        horizon: segmentBy(predictions, "horizon", horizonLabel),
+        direction: segmentBy(predictions, "direction"),
+        marketRegime: segmentBy(predictions, "marketRegime"),
+        source: segmentBy(predictions, "source", sourceLabel),
+      },
+      rollingDays,
+      rolling: rollingSeries(predictions, rollingDays, from ?? earliest ?? now, now),
+    };
+  }
+}
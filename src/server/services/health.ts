@@ -1,4 +1,11 @@
 import { prisma } from "../db";
+import { marketDataProviders, type MarketDataSource } from "./marketDataProviders";
+
+const MARKET_DATA_PING_URLS: Array<[MarketDataSource, string]> = [
+  ["binance", "https://api.binance.com/api/v3/ping"],
+  ["coingecko", "https://api.coingecko.com/api/v3/ping"],
+  ["yahoo", "https://query1.finance.yahoo.com/v8/finance/chart/SPY?range=1d&interval=1d"],
+];
 
 interface ServiceHealth {
   name: string;
@@ -102,7 +109,8 @@ export class HealthMonitoringService {
   }
 
   /**
-   * Check market data APIs
+   * Check market data APIs. Pings go through the shared provider registry,
+   * so a failing ping counts towards that provider's circuit breaker.
    */
   async checkMarketDataAPIs(): Promise<ServiceHealth> {
     const startTime = Date.now();
@@ -114,24 +122,34 @@ export class HealthMonitoringService {
     };
 
     try {
-      // Test Binance API
-      const binanceResponse = await fetch("https://api.binance.com/api/v3/ping");
+      await Promise.all(
+        MARKET_DATA_PING_URLS.map(([source, url]) =>
+          marketDataProviders.call(source, async () => {
+            // Yahoo turns away requests without a browser user agent
+            const response = await fetch(url, { headers: { "User-Agent": "Mozilla/5.0" } });
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+            return true;
+          })
+        )
+      );
 
-      if (!binanceResponse.ok) {
-        status.status = "degraded";
-      }
+      status.responseTime = Date.now() - startTime;
 
-      // Test CoinGecko API
-      const coingeckoResponse = await fetch("https://api.coingecko.com/api/v3/ping");
+      const providers = marketDataProviders.health();
+      const unavailable = providers.filter(p => p.state !== "CLOSED");
+      const flaky = providers.filter(p => p.state === "CLOSED" && p.errorRate > 0.2);
 
-      if (!coingeckoResponse.ok) {
+      if (unavailable.length === providers.length) {
+        status.status = "down";
+      } else if (unavailable.length > 0 || flaky.length > 0 || status.responseTime > 3000) {
         status.status = "degraded";
       }
 
-      status.responseTime = Date.now() - startTime;
-
-      if (status.responseTime > 3000) {
-        status.status = "degraded";
+      if (unavailable.length > 0 || flaky.length > 0) {
+        status.error = [
+          ...unavailable.map(p => `${p.source} circuit ${p.state.toLowerCase()}: ${p.lastError}`),
+          ...flaky.map(p => `${p.source} failing ${Math.round(p.errorRate * 100)}% of calls`),
+        ].join("; ");
       }
     } catch (error) {
       status.status = "down";
@@ -1,48 +1,93 @@
 // Export all services
+export { ApiKeyService } from "./apiKeys";
 export { AssetService } from "./assets";
+export { AssetResolutionService } from "./assetResolution";
+export { BenchmarkScoringService } from "./benchmarkScoring";
 export { BrierScoreService } from "./brierScore";
 export { ContentCollectionService } from "./collectors";
+export { ConsensusService } from "./consensus";
+export { ContentPipelineService } from "./contentPipeline";
+export { DataExportService } from "./dataExport";
 export { ChannelCollectionService } from "./channelCollectionService";
 export { CronService } from "./cron";
 export { EmailService } from "./email";
 export { UnifiedExtractionService } from "./extraction";
+export { ForecasterAnalyticsService } from "./forecasterAnalytics";
 export { HealthMonitoringService } from "./health";
+export { JobQueue } from "./jobQueue";
+export { LLMClient, FakeProvider, createLLMClient } from "./llm";
 export { MarketDataService, BinanceService, CoinGeckoService } from "./marketData";
+export { PriceBackfillService } from "./priceBackfill";
+export { PricePathService } from "./pricePath";
 export { RankingService } from "./ranking";
+export { ReviewQueueService } from "./reviewQueue";
 export { SearchService } from "./search";
+export { SentimentHistoryService } from "./sentimentHistory";
 export { StripeService } from "./stripe";
+export { TimeframeBackfillService } from "./timeframeBackfill";
 export { TranscriptionService } from "./transcription";
 export { PredictionValidationService } from "./validation";
+export { WebhookService } from "./webhooks";
 
 // Service initialization
+import { ApiKeyService } from "./apiKeys";
 import { AssetService } from "./assets";
+import { AssetResolutionService } from "./assetResolution";
+import { BenchmarkScoringService } from "./benchmarkScoring";
 import { BrierScoreService } from "./brierScore";
 import { ContentCollectionService } from "./collectors";
+import { ConsensusService } from "./consensus";
+import { ContentPipelineService } from "./contentPipeline";
+import { DataExportService } from "./dataExport";
 import { ChannelCollectionService } from "./channelCollectionService";
 import { CronService } from "./cron";
 import { EmailService } from "./email";
+import { ForecasterAnalyticsService } from "./forecasterAnalytics";
 import { HealthMonitoringService } from "./health";
+import { JobQueue } from "./jobQueue";
 import { MarketDataService } from "./marketData";
+import { PriceBackfillService } from "./priceBackfill";
+import { PricePathService } from "./pricePath";
 import { RankingService } from "./ranking";
+import { ReviewQueueService } from "./reviewQueue";
 import { SearchService } from "./search";
+import { SentimentHistoryService } from "./sentimentHistory";
 import { StripeService } from "./stripe";
+import { TimeframeBackfillService } from "./timeframeBackfill";
 import { TranscriptionService } from "./transcription";
 import { PredictionValidationService } from "./validation";
+import { WebhookService } from "./webhooks";
+
+// Shared durable queue; every instance runs a worker against it
+export const jobQueue = new JobQueue();
 
 // Initialize service instances
 export const services = {
+  apiKeys: new ApiKeyService(),
   asset: new AssetService(),
+  assetResolution: new AssetResolutionService(),
+  benchmarkScoring: new BenchmarkScoringService(),
   brierScore: new BrierScoreService(),
   collection: new ContentCollectionService(),
+  consensus: new ConsensusService(),
+  contentPipeline: new ContentPipelineService(),
+  dataExport: new DataExportService(jobQueue),
   channelCollection: new ChannelCollectionService(),
   email: new EmailService(),
+  forecasterAnalytics: new ForecasterAnalyticsService(),
   health: new HealthMonitoringService(),
   marketData: new MarketDataService(),
+  priceBackfill: new PriceBackfillService(),
+  pricePath: new PricePathService(),
   ranking: new RankingService(new BrierScoreService()),
+  reviewQueue: new ReviewQueueService(),
   search: new SearchService(),
+  sentimentHistory: new SentimentHistoryService(),
   stripe: new StripeService(),
+  timeframeBackfill: new TimeframeBackfillService(),
   transcription: new TranscriptionService(),
   validation: new PredictionValidationService(),
+  webhooks: new WebhookService(jobQueue),
 };
 
 // Initialize cron service with dependencies
@@ -52,7 +97,15 @@ export const cronService = new CronService(
   services.collection,
   services.channelCollection,
   services.brierScore,
-  services.ranking
+  services.ranking,
+  jobQueue,
+  services.contentPipeline,
+  services.priceBackfill,
+  services.benchmarkScoring,
+  services.sentimentHistory,
+  services.consensus,
+  services.webhooks,
+  services.dataExport
 );
 
 // Track initialization state
@@ -72,7 +125,9 @@ export function initializeServices() {
   console.log("✅ Health monitoring started");
 
   // Start cron jobs
-  cronService.start();
+  cronService.start().catch(error => {
+    console.error("❌ Failed to start cron jobs:", error);
+  });
   console.log("✅ Cron jobs started");
 
   // Mark as initialized
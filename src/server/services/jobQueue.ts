@@ -0,0 +1,361 @@
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { Prisma, type Job } from "@prisma/client";
+import { prisma } from "../db";
+import { nextCronRun } from "./cronExpression";
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface ScheduleDefinition {
+  type: string;
+  cron: string;
+  description?: string;
+  maxAttempts?: number;
+}
+
+export interface JobQueueOptions {
+  pollIntervalMs: number;
+  leaseMs: number;
+  // Retry delay is backoffBaseMs * 2^(attempt - 1), capped at backoffMaxMs
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  // Upper bound on jobs run per poll so one worker cannot starve the others
+  maxJobsPerTick: number;
+}
+
+export const DEFAULT_JOB_QUEUE_OPTIONS: JobQueueOptions = {
+  pollIntervalMs: 15 * 1000,
+  leaseMs: 10 * 60 * 1000,
+  backoffBaseMs: 30 * 1000,
+  backoffMaxMs: 60 * 60 * 1000,
+  maxJobsPerTick: 10,
+};
+
+/**
+ * Delay before the next attempt after `attempts` failed runs
+ */
+export function retryDelayMs(
+  attempts: number,
+  options: Pick<JobQueueOptions, "backoffBaseMs" | "backoffMaxMs"> = DEFAULT_JOB_QUEUE_OPTIONS
+): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(options.backoffBaseMs * Math.pow(2, exponent), options.backoffMaxMs);
+}
+
+/**
+ * Durable job queue on top of the Job table.
+ *
+ * Every app instance runs a worker, but a job row is only ever leased to one
+ * of them (FOR UPDATE SKIP LOCKED), and recurring schedules are advanced with
+ * a compare-and-set on nextRunAt so each run is enqueued exactly once.
+ * Failed jobs are retried with exponential backoff and moved to DEAD after
+ * maxAttempts so they stay visible until an admin retries them.
+ */
+export class JobQueue {
+  private handlers: Map<string, JobHandler> = new Map();
+  private options: JobQueueOptions;
+  private interval: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  readonly workerId = `${hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+
+  constructor(options: Partial<JobQueueOptions> = {}) {
+    this.options = { ...DEFAULT_JOB_QUEUE_OPTIONS, ...options };
+  }
+
+  register(type: string, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(type: string, payload: Prisma.InputJsonValue = {}, options: EnqueueOptions = {}) {
+    return prisma.job.create({
+      data: {
+        type,
+        status: "PENDING",
+        payload,
+        scheduledFor: options.runAt ?? new Date(),
+        maxAttempts: options.maxAttempts ?? 3,
+      },
+    });
+  }
+
+  /**
+   * Upsert code-defined schedules. Cron changes reset nextRunAt; the paused
+   * flag is owned by the database so admin pauses survive restarts.
+   */
+  async syncSchedules(definitions: ScheduleDefinition[], now = new Date()) {
+    for (const definition of definitions) {
+      const existing = await prisma.jobSchedule.findUnique({
+        where: { type: definition.type },
+      });
+
+      if (!existing) {
+        await prisma.jobSchedule.create({
+          data: {
+            type: definition.type,
+            cron: definition.cron,
+            description: definition.description,
+            maxAttempts: definition.maxAttempts ?? 3,
+            nextRunAt: nextCronRun(definition.cron, now),
+          },
+        });
+        continue;
+      }
+
+      await prisma.jobSchedule.update({
+        where: { type: definition.type },
+        data: {
+          cron: definition.cron,
+          description: definition.description,
+          maxAttempts: definition.maxAttempts ?? 3,
+          ...(existing.cron !== definition.cron && {
+            nextRunAt: nextCronRun(definition.cron, now),
+          }),
+        },
+      });
+    }
+  }
+
+  /**
+   * Enqueue one job per due schedule. Only the worker whose compare-and-set
+   * on nextRunAt succeeds enqueues; a run is skipped if the previous one is
+   * still queued or running.
+   */
+  async enqueueDueSchedules(now = new Date()) {
+    const due = await prisma.jobSchedule.findMany({
+      where: {
+        isPaused: false,
+        nextRunAt: { lte: now },
+      },
+    });
+
+    const enqueued: Job[] = [];
+
+    for (const schedule of due) {
+      const claimed = await prisma.jobSchedule.updateMany({
+        where: { type: schedule.type, nextRunAt: schedule.nextRunAt },
+        data: {
+          nextRunAt: nextCronRun(schedule.cron, now),
+          lastRunAt: now,
+        },
+      });
+
+      if (claimed.count === 0) continue;
+
+      const inFlight = await prisma.job.count({
+        where: {
+          type: schedule.type,
+          status: { in: ["PENDING", "RUNNING"] },
+        },
+      });
+
+      if (inFlight > 0) {
+        console.log(`⏭️ Skipping ${schedule.type}: previous run still in flight`);
+        continue;
+      }
+
+      enqueued.push(
+        await this.enqueue(schedule.type, { schedule: schedule.cron }, {
+          runAt: now,
+          maxAttempts: schedule.maxAttempts,
+        })
+      );
+    }
+
+    return enqueued;
+  }
+
+  /**
+   * Lease the next runnable job of a registered type. Jobs whose lease has
+   * expired (worker crashed mid-run) are claimable again.
+   */
+  async claim(now = new Date()): Promise<Job | null> {
+    const types = [...this.handlers.keys()];
+    if (types.length === 0) return null;
+
+    const lockedUntil = new Date(now.getTime() + this.options.leaseMs);
+
+    const rows = await prisma.$queryRaw<Job[]>`
+      UPDATE "Job"
+      SET "status" = 'RUNNING',
+          "lockedBy" = ${this.workerId},
+          "lockedUntil" = ${lockedUntil},
+          "attempts" = "attempts" + 1,
+          "startedAt" = ${now}
+      WHERE "id" = (
+        SELECT "id" FROM "Job"
+        WHERE "type" IN (${Prisma.join(types)})
+          AND (
+            ("status" = 'PENDING' AND ("scheduledFor" IS NULL OR "scheduledFor" <= ${now}))
+            OR ("status" = 'RUNNING' AND "lockedUntil" < ${now} AND "attempts" < "maxAttempts")
+          )
+        ORDER BY "scheduledFor" ASC NULLS FIRST, "createdAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Dead-letter jobs whose worker died during their final attempt
+   */
+  async reapExpiredLeases(now = new Date()) {
+    return prisma.$executeRaw`
+      UPDATE "Job"
+      SET "status" = 'DEAD',
+          "error" = 'Lease expired during final attempt',
+          "lockedBy" = NULL,
+          "lockedUntil" = NULL,
+          "completedAt" = ${now}
+      WHERE "status" = 'RUNNING'
+        AND "lockedUntil" < ${now}
+        AND "attempts" >= "maxAttempts"
+    `;
+  }
+
+  async run(job: Job) {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.fail(job, new Error(`No handler registered for ${job.type}`));
+      return;
+    }
+
+    // Extend the lease while long-running handlers are still working
+    const heartbeat = setInterval(() => {
+      prisma.job
+        .updateMany({
+          where: { id: job.id, lockedBy: this.workerId, status: "RUNNING" },
+          data: { lockedUntil: new Date(Date.now() + this.options.leaseMs) },
+        })
+        .catch(error => console.error(`Failed to extend lease for job ${job.id}:`, error));
+    }, this.options.leaseMs / 2);
+
+    try {
+      console.log(`⚡ Running job: ${job.type} (${job.id}, attempt ${job.attempts}/${job.maxAttempts})`);
+      await handler(job);
+      await this.complete(job);
+    } catch (error) {
+      console.error(`❌ Job failed: ${job.type} (${job.id})`, error);
+      await this.fail(job, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Guarded on lockedBy/status so a cancelled or re-leased job is not overwritten
+  private async complete(job: Job) {
+    await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: this.workerId, status: "RUNNING" },
+      data: {
+        status: "COMPLETED",
+        completedAt: new Date(),
+        error: null,
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    });
+  }
+
+  async fail(job: Job, error: unknown, now = new Date()) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: this.workerId, status: "RUNNING" },
+      data: exhausted
+        ? {
+            status: "DEAD",
+            error: message,
+            completedAt: now,
+            lockedBy: null,
+            lockedUntil: null,
+          }
+        : {
+            status: "PENDING",
+            error: message,
+            scheduledFor: new Date(now.getTime() + retryDelayMs(job.attempts, this.options)),
+            lockedBy: null,
+            lockedUntil: null,
+          },
+    });
+  }
+
+  /**
+   * Reset a failed, dead or cancelled job so it runs again with fresh attempts
+   */
+  async retry(jobId: string) {
+    return prisma.job.update({
+      where: { id: jobId },
+      data: {
+        status: "PENDING",
+        attempts: 0,
+        scheduledFor: new Date(),
+        startedAt: null,
+        completedAt: null,
+        error: null,
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    });
+  }
+
+  async setSchedulePaused(type: string, isPaused: boolean) {
+    return prisma.jobSchedule.update({
+      where: { type },
+      data: isPaused
+        ? { isPaused }
+        : { isPaused, nextRunAt: await this.nextRunFor(type) },
+    });
+  }
+
+  // Resuming starts from the next slot instead of replaying missed runs
+  private async nextRunFor(type: string) {
+    const schedule = await prisma.jobSchedule.findUniqueOrThrow({ where: { type } });
+    return nextCronRun(schedule.cron);
+  }
+
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      await this.reapExpiredLeases();
+      await this.enqueueDueSchedules();
+
+      for (let i = 0; i < this.options.maxJobsPerTick; i++) {
+        const job = await this.claim();
+        if (!job) break;
+        await this.run(job);
+      }
+    } catch (error) {
+      console.error("Job queue tick failed:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  start() {
+    if (this.interval) return;
+
+    this.interval = setInterval(() => void this.tick(), this.options.pollIntervalMs);
+    console.log(`✅ Job queue worker started (${this.workerId})`);
+
+    void this.tick();
+  }
+
+  stop() {
+    if (!this.interval) return;
+
+    clearInterval(this.interval);
+    this.interval = null;
+    console.log(`✅ Job queue worker stopped (${this.workerId})`);
+  }
+}
@@ -0,0 +1,104 @@
+import { calculateCost } from "./pricing";
+import type { LLMProvider, LLMRequest, LLMResponse, ProviderUsage } from "./types";
+
+/**
+ * Per-run token and cost accounting, keyed by provider and model
+ */
+export class UsageLedger {
+  private entries = new Map<string, ProviderUsage>();
+
+  private entryFor(provider: LLMProvider): ProviderUsage {
+    const key = `${provider.name}:${provider.model}`;
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        provider: provider.name,
+        model: provider.model,
+        calls: 0,
+        failures: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+      };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  recordSuccess(provider: LLMProvider, response: LLMResponse) {
+    const entry = this.entryFor(provider);
+    entry.calls++;
+    entry.inputTokens += response.usage.inputTokens;
+    entry.outputTokens += response.usage.outputTokens;
+    entry.cost += calculateCost(response.provider, response.model, response.usage);
+  }
+
+  recordFailure(provider: LLMProvider) {
+    const entry = this.entryFor(provider);
+    entry.calls++;
+    entry.failures++;
+  }
+
+  breakdown(): ProviderUsage[] {
+    return [...this.entries.values()].map(entry => ({
+      ...entry,
+      cost: Math.round(entry.cost * 1_000_000) / 1_000_000,
+    }));
+  }
+
+  totals() {
+    return this.breakdown().reduce(
+      (acc, entry) => ({
+        inputTokens: acc.inputTokens + entry.inputTokens,
+        outputTokens: acc.outputTokens + entry.outputTokens,
+        cost: acc.cost + entry.cost,
+      }),
+      { inputTokens: 0, outputTokens: 0, cost: 0 }
+    );
+  }
+}
+
+export class LLMUnavailableError extends Error {
+  constructor(public readonly failures: Array<{ provider: string; model: string; error: string }>) {
+    super(
+      `All LLM providers failed: ${failures.map(f => `${f.provider}/${f.model} (${f.error})`).join("; ")}`
+    );
+    this.name = "LLMUnavailableError";
+  }
+}
+
+/**
+ * Ordered provider chain: each request goes to the first provider and
+ * falls through to the next one on error.
+ */
+export class LLMClient {
+  constructor(readonly providers: LLMProvider[]) {
+    if (providers.length === 0) {
+      throw new Error("LLMClient needs at least one provider");
+    }
+  }
+
+  get primary(): LLMProvider {
+    return this.providers[0]!;
+  }
+
+  async complete(request: LLMRequest, ledger?: UsageLedger): Promise<LLMResponse> {
+    const failures: Array<{ provider: string; model: string; error: string }> = [];
+
+    for (const provider of this.providers) {
+      try {
+        console.log(`📤 [LLM] Calling ${provider.name}/${provider.model}${request.label ? ` (${request.label})` : ""}`);
+        const response = await provider.complete(request);
+        ledger?.recordSuccess(provider, response);
+        return response;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[LLM] ${provider.name}/${provider.model} failed:`, message);
+        ledger?.recordFailure(provider);
+        failures.push({ provider: provider.name, model: provider.model, error: message });
+      }
+    }
+
+    throw new LLMUnavailableError(failures);
+  }
+}
@@ -0,0 +1,60 @@
+import { estimateTokens } from "./pricing";
+import type { LLMProvider, LLMRequest, LLMResponse } from "./types";
+
+export interface FakeRecording {
+  // Substring or pattern the prompt must contain for this response to be used
+  match: string | RegExp;
+  response: string;
+}
+
+export interface FakeProviderOptions {
+  // Responses returned in call order, before any recording is consulted
+  sequence?: string[];
+  recordings?: FakeRecording[];
+  // Returned when no recording matches
+  defaultResponse?: string;
+  // Make every call throw, to exercise fallbacks
+  failWith?: string;
+  model?: string;
+}
+
+/**
+ * Deterministic offline provider. Replays recorded responses by matching
+ * the prompt, so extraction can run against saved transcripts without
+ * network access or API keys. Usage is estimated from text length.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = "fake" as const;
+  readonly model: string;
+  readonly requests: LLMRequest[] = [];
+  private calls = 0;
+
+  constructor(private options: FakeProviderOptions = {}) {
+    this.model = options.model ?? "fake-recorded";
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+
+    if (this.options.failWith) {
+      throw new Error(this.options.failWith);
+    }
+
+    const sequenced = this.options.sequence?.[this.calls++];
+    const recording = (this.options.recordings ?? []).find(({ match }) =>
+      typeof match === "string" ? request.prompt.includes(match) : match.test(request.prompt)
+    );
+    const text = sequenced ?? recording?.response ?? this.options.defaultResponse ?? "[]";
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: estimateTokens((request.system ?? "") + request.prompt),
+        outputTokens: estimateTokens(text),
+      },
+      estimatedUsage: true,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { env } from "@/env.mjs";
+import { prisma } from "../../db";
+import { LLMClient } from "./client";
+import { FakeProvider } from "./fakeProvider";
+import { DEFAULT_MODELS } from "./pricing";
+import { AnthropicProvider, GeminiProvider, OpenAICompatibleProvider } from "./providers";
+import { LLM_PROVIDERS, type LLMProvider, type LLMProviderName, type LLMTarget } from "./types";
+
+export { LLMClient, LLMUnavailableError, UsageLedger } from "./client";
+export { FakeProvider, type FakeProviderOptions, type FakeRecording } from "./fakeProvider";
+export { DEFAULT_MODELS, MODEL_PRICES, calculateCost, estimateTokens, priceFor } from "./pricing";
+export { AnthropicProvider, GeminiProvider, OpenAICompatibleProvider } from "./providers";
+export * from "./types";
+
+export function isLLMProviderName(value: string): value is LLMProviderName {
+  return (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse "gemini, openai:gpt-4o-mini" into an ordered target list.
+ * Unknown provider names are dropped with a warning.
+ */
+export function parseLLMTargets(spec: string | undefined): LLMTarget[] {
+  if (!spec) return [];
+
+  return spec
+    .split(",")
+    .map(part => part.trim())
+    .filter(Boolean)
+    .flatMap(part => {
+      const [provider, ...model] = part.split(":");
+      const name = provider!.trim().toLowerCase();
+      if (!isLLMProviderName(name)) {
+        console.warn(`[LLM] Ignoring unknown provider "${name}"`);
+        return [];
+      }
+      const modelName = model.join(":").trim();
+      return [{ provider: name, ...(modelName && { model: modelName }) }];
+    });
+}
+
+/**
+ * Deployment default chain: LLM_PROVIDER followed by LLM_FALLBACKS
+ */
+export function defaultLLMTargets(): LLMTarget[] {
+  const targets = [
+    ...parseLLMTargets(env.LLM_PROVIDER ?? "gemini"),
+    ...parseLLMTargets(env.LLM_FALLBACKS ?? "openai"),
+  ];
+  return targets.length > 0 ? targets : [{ provider: "gemini" }, { provider: "openai" }];
+}
+
+export function createProvider(target: LLMTarget): LLMProvider {
+  const model = target.model ?? (target.provider === "local" ? env.LOCAL_LLM_MODEL : undefined) ?? DEFAULT_MODELS[target.provider];
+
+  switch (target.provider) {
+    case "openai":
+      return new OpenAICompatibleProvider("openai", model, { apiKey: env.OPENAI_API_KEY });
+    case "local":
+      return new OpenAICompatibleProvider("local", model, {
+        apiKey: env.LOCAL_LLM_API_KEY,
+        baseURL: env.LOCAL_LLM_BASE_URL,
+      });
+    case "gemini":
+      return new GeminiProvider(model, env.GOOGLE_API_KEY);
+    case "anthropic":
+      return new AnthropicProvider(model, env.ANTHROPIC_API_KEY);
+    case "fake":
+      return new FakeProvider({ model });
+  }
+}
+
+export function createLLMClient(targets: LLMTarget[] = defaultLLMTargets()): LLMClient {
+  return new LLMClient(targets.map(createProvider));
+}
+
+/**
+ * Provider chain configured on a forecaster's channel
+ * (collectionSettings.llm), preferring the primary channel of that type.
+ * Returns undefined when the channel uses the deployment default.
+ */
+export async function channelLLMTargets(
+  forecasterId: string,
+  channelType: string
+): Promise<LLMTarget[] | undefined> {
+  const channels = await prisma.forecasterChannel.findMany({
+    where: { forecasterId, channelType, isActive: true },
+    orderBy: { isPrimary: "desc" },
+    select: { collectionSettings: true },
+  });
+
+  for (const channel of channels) {
+    const llm = (channel.collectionSettings as any)?.llm;
+    if (!Array.isArray(llm)) continue;
+
+    const targets = llm.filter(
+      (target: any): target is LLMTarget => typeof target?.provider === "string" && isLLMProviderName(target.provider)
+    );
+    if (targets.length > 0) return targets;
+  }
+
+  return undefined;
+}
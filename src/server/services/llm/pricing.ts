@@ -0,0 +1,60 @@
+import type { LLMProviderName, LLMUsage } from "./types";
+
+export interface ModelPrice {
+  // USD per 1M tokens
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: "gpt-4o-mini",
+  gemini: "gemini-pro",
+  anthropic: "claude-3-5-haiku-latest",
+  local: "llama3.1",
+  fake: "fake-recorded",
+};
+
+/**
+ * List prices per model. Unknown models fall back to the provider's default
+ * rate so a new model name never silently costs nothing.
+ */
+export const MODEL_PRICES: Record<LLMProviderName, Record<string, ModelPrice>> = {
+  openai: {
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1": { input: 2, output: 8 },
+  },
+  gemini: {
+    "gemini-pro": { input: 0.5, output: 1.5 },
+    "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+    "gemini-1.5-pro": { input: 1.25, output: 5 },
+    "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  },
+  anthropic: {
+    "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+    "claude-3-5-sonnet-latest": { input: 3, output: 15 },
+    "claude-3-7-sonnet-latest": { input: 3, output: 15 },
+  },
+  // Self-hosted and test providers are free at the point of use
+  local: {},
+  fake: {},
+};
+
+export function priceFor(provider: LLMProviderName, model: string): ModelPrice {
+  const table = MODEL_PRICES[provider];
+  return table[model] ?? table[DEFAULT_MODELS[provider]] ?? { input: 0, output: 0 };
+}
+
+export function calculateCost(provider: LLMProviderName, model: string, usage: LLMUsage): number {
+  const price = priceFor(provider, model);
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Rough token count for providers that do not report usage (1 token ≈ 4 chars)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
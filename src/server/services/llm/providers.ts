@@ -0,0 +1,154 @@
+import axios from "axios";
+import OpenAI from "openai";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { estimateTokens } from "./pricing";
+import type { LLMProvider, LLMProviderName, LLMRequest, LLMResponse } from "./types";
+
+function requireKey(provider: LLMProviderName, apiKey: string | undefined): string {
+  if (!apiKey) {
+    throw new Error(`No API key configured for LLM provider "${provider}"`);
+  }
+  return apiKey;
+}
+
+/**
+ * OpenAI chat completions. Also used for self-hosted OpenAI-compatible
+ * servers (Ollama, vLLM, LM Studio) by passing a baseURL.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly name: "openai" | "local",
+    readonly model: string,
+    private options: { apiKey?: string; baseURL?: string } = {}
+  ) {}
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        // Local servers usually ignore the key but the SDK requires one
+        apiKey: this.name === "local" ? this.options.apiKey || "local" : requireKey(this.name, this.options.apiKey),
+        baseURL: this.options.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (this.name === "local" && !this.options.baseURL) {
+      throw new Error("LOCAL_LLM_BASE_URL is not configured");
+    }
+
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [
+        ...(request.system ? [{ role: "system" as const, content: request.system }] : []),
+        { role: "user" as const, content: request.prompt },
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+    });
+
+    const text = response.choices[0]?.message?.content || "";
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: response.usage?.prompt_tokens ?? estimateTokens((request.system ?? "") + request.prompt),
+        outputTokens: response.usage?.completion_tokens ?? estimateTokens(text),
+      },
+      estimatedUsage: !response.usage,
+    };
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini" as const;
+  private client: GoogleGenerativeAI | null = null;
+
+  constructor(readonly model: string, private apiKey?: string) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.client) {
+      this.client = new GoogleGenerativeAI(requireKey(this.name, this.apiKey));
+    }
+
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      ...(request.system && { systemInstruction: request.system }),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+      },
+    });
+
+    const result = await model.generateContent(request.prompt);
+    const text = result.response.text() || "";
+    const usage = result.response.usageMetadata;
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: usage?.promptTokenCount ?? estimateTokens((request.system ?? "") + request.prompt),
+        outputTokens: usage?.candidatesTokenCount ?? estimateTokens(text),
+      },
+      estimatedUsage: !usage,
+    };
+  }
+}
+
+/**
+ * Anthropic Messages API over plain HTTP; the SDK is not a dependency
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+
+  private static readonly API_URL = "https://api.anthropic.com/v1/messages";
+  private static readonly API_VERSION = "2023-06-01";
+
+  constructor(readonly model: string, private apiKey?: string) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await axios.post(
+      AnthropicProvider.API_URL,
+      {
+        model: this.model,
+        max_tokens: request.maxOutputTokens ?? 4000,
+        ...(request.system && { system: request.system }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        messages: [{ role: "user", content: request.prompt }],
+      },
+      {
+        headers: {
+          "x-api-key": requireKey(this.name, this.apiKey),
+          "anthropic-version": AnthropicProvider.API_VERSION,
+          "content-type": "application/json",
+        },
+        timeout: 120000,
+      }
+    );
+
+    const blocks: Array<{ type: string; text?: string }> = response.data?.content ?? [];
+    const text = blocks
+      .filter(block => block.type === "text")
+      .map(block => block.text ?? "")
+      .join("");
+    const usage = response.data?.usage;
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: usage?.input_tokens ?? estimateTokens((request.system ?? "") + request.prompt),
+        outputTokens: usage?.output_tokens ?? estimateTokens(text),
+      },
+      estimatedUsage: !usage,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+export const LLM_PROVIDERS = ["openai", "gemini", "anthropic", "local", "fake"] as const;
+
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+export interface LLMRequest {
+  prompt: string;
+  system?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Free-form tag for logs ("single", "chunk_2", ...)
+  label?: string;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  // True when the provider did not report usage and tokens were estimated
+  estimatedUsage?: boolean;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * A provider and optional model override. Selections are ordered chains:
+ * the first target is tried first and the rest are fallbacks.
+ */
+export interface LLMTarget {
+  provider: LLMProviderName;
+  model?: string;
+}
+
+export interface ProviderUsage {
+  provider: LLMProviderName;
+  model: string;
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
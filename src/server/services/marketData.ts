@@ -1,4 +1,14 @@
+import { type Prisma } from "@prisma/client";
 import { prisma } from "../db";
+import { AssetResolver, type AssetType } from "./assetCatalog";
+import { aggregateCandles, bucketStart, RESOLUTION_MS, type Candle, type CandleResolution } from "./candles";
+import {
+  marketDataProviders,
+  reconcileQuotes,
+  type MarketDataSource,
+  type ProviderRegistry,
+  type QuorumResult,
+} from "./marketDataProviders";
 
 interface MarketPrice {
   symbol: string;
@@ -11,139 +21,28 @@ interface MarketPrice {
   source: string;
 }
 
-type AssetType = 'CRYPTO' | 'STOCK' | 'ETF' | 'INDEX' | 'COMMODITY' | 'CURRENCY' | 'BOND' | 'OPTION' | 'FUTURE';
-
 interface AssetDetection {
   type: AssetType;
   confidence: number;
   normalizedSymbol: string;
 }
 
-// Asset Type Detection Utility
-export class AssetTypeDetector {
-  private static cryptoSymbols = new Set([
-    'BTC', 'ETH', 'BNB', 'ADA', 'SOL', 'XRP', 'DOT', 'DOGE', 'AVAX', 'MATIC',
-    'LINK', 'UNI', 'LTC', 'BCH', 'ATOM', 'FIL', 'TRX', 'ETC', 'XLM', 'VET',
-    'ICP', 'FTT', 'ALGO', 'MANA', 'SAND', 'AXS', 'SHIB', 'CRO', 'NEAR', 'APE'
-  ]);
-
-  private static stockSymbols = new Set([
-    'AAPL', 'MSFT', 'GOOGL', 'GOOG', 'AMZN', 'TSLA', 'META', 'NVDA', 'BRK.A', 'BRK.B',
-    'UNH', 'JNJ', 'JPM', 'V', 'PG', 'HD', 'MA', 'PYPL', 'DIS', 'ADBE', 'NFLX', 'CRM',
-    'NVDA', 'INTC', 'VZ', 'KO', 'PFE', 'T', 'CISCO', 'XOM', 'ABT', 'TMO', 'ACN', 'CVX',
-    'WMT', 'MRK', 'COST', 'DHR', 'LLY', 'AVGO', 'ORCL', 'LIN', 'NKE', 'NEE', 'UPS'
-  ]);
-
-  private static stockPatterns = [
-    /^[A-Z]{1,5}$/, // Generic stock pattern
-    /^[A-Z]+\.[A-Z]{2}$/, // International stocks like NESN.SW
-  ];
-
-  private static etfSymbols = new Set([
-    'SPY', 'QQQ', 'IWM', 'EFA', 'VTI', 'VEA', 'VWO', 'TLT', 'HYG', 'LQD',
-    'XLF', 'XLE', 'XLK', 'XLI', 'XLU', 'XLV', 'XLY', 'XLP', 'XLB', 'XLRE',
-    'VOO', 'VTI', 'VXUS', 'BND', 'VTEB', 'SCHX', 'SCHF', 'SCHE'
-  ]);
-
-  private static etfPatterns = [
-    /^[A-Z]{3,4}$/, // Most ETFs are 3-4 chars
-  ];
-
-  private static indexPatterns = [
-    /^\^/, // ^GSPC, ^DJI, ^IXIC
-    /^(SPX|DJI|NDX|RUT)$/,
-  ];
-
-  private static commodityPatterns = [
-    /^(GC=F|SI=F|CL=F|NG=F|ZC=F|ZS=F|ZW=F)$/, // Futures
-    /^(GLD|SLV|USO|UNG|DBA|DJP)$/, // Commodity ETFs
-  ];
+const catalogResolver = AssetResolver.fromDefaults();
 
-  private static currencyPatterns = [
-    /^[A-Z]{3}[A-Z]{3}=X$/, // EURUSD=X
-    /^[A-Z]{6}$/, // EURUSD
-  ];
+// How old the stored price may be and still anchor the jump check
+const REFERENCE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
 
+// Asset Type Detection Utility
+export class AssetTypeDetector {
+  // Synchronous, so it works from the built-in catalog; AssetResolutionService
+  // adds the admin-edited aliases for callers that can await
   static detectAssetType(symbol: string): AssetDetection {
-    const upperSymbol = symbol.toUpperCase();
-
-    // Check crypto first (highest confidence for known symbols)
-    if (this.cryptoSymbols.has(upperSymbol)) {
-      return {
-        type: 'CRYPTO',
-        confidence: 0.95,
-        normalizedSymbol: upperSymbol
-      };
-    }
-
-    // Check known stock symbols (high confidence)
-    if (this.stockSymbols.has(upperSymbol)) {
-      return {
-        type: 'STOCK',
-        confidence: 0.9,
-        normalizedSymbol: upperSymbol
-      };
-    }
-
-    // Check known ETF symbols (high confidence)
-    if (this.etfSymbols.has(upperSymbol)) {
-      return {
-        type: 'ETF',
-        confidence: 0.9,
-        normalizedSymbol: upperSymbol
-      };
-    }
-
-    // Check index patterns
-    if (this.indexPatterns.some(pattern => pattern.test(upperSymbol))) {
-      return {
-        type: 'INDEX',
-        confidence: 0.9,
-        normalizedSymbol: upperSymbol
-      };
-    }
-
-    // Check currency patterns
-    if (this.currencyPatterns.some(pattern => pattern.test(upperSymbol))) {
-      return {
-        type: 'CURRENCY',
-        confidence: 0.9,
-        normalizedSymbol: upperSymbol
-      };
-    }
-
-    // Check commodity patterns
-    if (this.commodityPatterns.some(pattern => pattern.test(upperSymbol))) {
-      return {
-        type: 'COMMODITY',
-        confidence: 0.85,
-        normalizedSymbol: upperSymbol
-      };
-    }
-
-    // Check stock patterns first (stocks are more common than ETFs)
-    if (this.stockPatterns.some(pattern => pattern.test(upperSymbol))) {
-      return {
-        type: 'STOCK',
-        confidence: 0.7,
-        normalizedSymbol: upperSymbol
-      };
-    }
-
-    // Check ETF patterns (lower priority than stocks)
-    if (this.etfPatterns.some(pattern => pattern.test(upperSymbol))) {
-      return {
-        type: 'ETF',
-        confidence: 0.6,
-        normalizedSymbol: upperSymbol
-      };
-    }
+    const resolution = catalogResolver.resolve({ symbol });
 
-    // Default to stock for unknown symbols
     return {
-      type: 'STOCK',
-      confidence: 0.5,
-      normalizedSymbol: upperSymbol
+      type: resolution.type,
+      confidence: resolution.confidence,
+      normalizedSymbol: resolution.symbol
     };
   }
 }
@@ -162,20 +61,69 @@ export class YFinanceService {
       () => this.getPriceFromSummary(symbol)
     ];
 
+    let failures = 0;
+    let lastError: unknown = null;
+
     for (const getPrice of endpoints) {
       try {
         const price = await getPrice();
         if (price) return price;
       } catch (error) {
         console.log(`Yahoo Finance endpoint failed for ${symbol}, trying next...`);
+        failures++;
+        lastError = error;
         continue;
       }
     }
 
     console.error(`All Yahoo Finance endpoints failed for ${symbol}`);
+    // Every endpoint erroring is an outage; any of them answering empty means an unknown symbol
+    if (failures === endpoints.length) throw lastError;
     return null;
   }
 
+  async getCandles(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<Candle[]> {
+    try {
+      const period1 = Math.floor(from.getTime() / 1000);
+      const period2 = Math.ceil(to.getTime() / 1000);
+      const response = await fetch(`${this.chartUrl}/${symbol}?interval=${resolution}&period1=${period1}&period2=${period2}`, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+          'Accept': 'application/json'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const result = data.chart?.result?.[0];
+      const quote = result?.indicators?.quote?.[0];
+      const timestamps: number[] = result?.timestamp ?? [];
+
+      if (!quote) return [];
+
+      // Yahoo stamps bars at the session open (e.g. 14:30 UTC); bucket them on UTC boundaries
+      return timestamps.flatMap((time, i) => {
+        const [open, high, low, close] = [quote.open?.[i], quote.high?.[i], quote.low?.[i], quote.close?.[i]];
+        if (open == null || high == null || low == null || close == null) return [];
+
+        return [{
+          openTime: bucketStart(new Date(time * 1000), resolution),
+          open,
+          high,
+          low,
+          close,
+          volume: quote.volume?.[i] ?? null
+        }];
+      });
+    } catch (error) {
+      console.error(`Yahoo Finance candles error for ${symbol}:`, error);
+      return [];
+    }
+  }
+
   private async getPriceFromQuotes(symbol: string): Promise<MarketPrice | null> {
     const response = await fetch(`${this.quotesUrl}?symbols=${symbol}`, {
       headers: {
@@ -319,23 +267,59 @@ export class BinanceService {
       };
     } catch (error) {
       console.error(`Binance API error for ${symbol}:`, error);
-      return null;
+      throw error;
     }
   }
 
   private async get24hrTicker(symbol: string) {
+    const response = await fetch(`${this.baseUrl}/ticker/24hr?symbol=${symbol}`);
+
+    // Binance answers 400 for pairs it does not list
+    if (response.status === 400) return null;
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return await response.json();
+  }
+
+  async getCandles(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<Candle[]> {
+    const candles: Candle[] = [];
+    let startTime = from.getTime();
+
     try {
-      const response = await fetch(`${this.baseUrl}/ticker/24hr?symbol=${symbol}`);
+      // Klines come back at most 1000 per request
+      while (startTime < to.getTime()) {
+        const response = await fetch(
+          `${this.baseUrl}/klines?symbol=${symbol}USDT&interval=${resolution}&startTime=${startTime}&endTime=${to.getTime() - 1}&limit=1000`
+        );
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const klines: Array<[number, string, string, string, string, string, number, string]> = await response.json();
 
-      return await response.json();
+        for (const [openTime, open, high, low, close, , , quoteVolume] of klines) {
+          candles.push({
+            openTime: new Date(openTime),
+            open: parseFloat(open),
+            high: parseFloat(high),
+            low: parseFloat(low),
+            close: parseFloat(close),
+            volume: parseFloat(quoteVolume)
+          });
+        }
+
+        if (klines.length < 1000) break;
+        startTime = klines[klines.length - 1]![0] + RESOLUTION_MS[resolution];
+      }
     } catch (error) {
-      console.error("Binance ticker error:", error);
-      return null;
+      console.error(`Binance klines error for ${symbol}:`, error);
     }
+
+    return candles;
   }
 
   async getBatchPrices(symbols: string[]): Promise<Map<string, MarketPrice>> {
@@ -415,7 +399,7 @@ export class CoinGeckoService {
       };
     } catch (error) {
       console.error(`CoinGecko API error for ${symbol}:`, error);
-      return null;
+      throw error;
     }
   }
 
@@ -454,6 +438,37 @@ export class CoinGeckoService {
     return prices;
   }
 
+  async getCandles(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<Candle[]> {
+    const coinId = this.coinIds.get(symbol) || symbol.toLowerCase();
+    // market_chart/range only returns hourly points for windows up to 90 days
+    const windowMs = resolution === "1h" ? 90 * 24 * 60 * 60 * 1000 : to.getTime() - from.getTime();
+    const points: Array<{ time: number; price: number; volume: number | null }> = [];
+
+    try {
+      for (let start = from.getTime(); start < to.getTime(); start += windowMs) {
+        const end = Math.min(start + windowMs, to.getTime());
+        const response = await fetch(
+          `${this.baseUrl}/coins/${coinId}/market_chart/range?vs_currency=usd&from=${Math.floor(start / 1000)}&to=${Math.ceil(end / 1000)}`
+        );
+
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const volumes = new Map<number, number>((data.total_volumes ?? []) as Array<[number, number]>);
+
+        for (const [time, price] of (data.prices ?? []) as Array<[number, number]>) {
+          points.push({ time, price, volume: volumes.get(time) ?? null });
+        }
+      }
+    } catch (error) {
+      console.error(`CoinGecko candles error for ${symbol}:`, error);
+    }
+
+    return aggregateCandles(points, resolution);
+  }
+
   async getMarketData(symbol: string) {
     try {
       const coinId = this.coinIds.get(symbol) || symbol.toLowerCase();
@@ -495,24 +510,16 @@ export class MarketDataService {
   private yfinance: YFinanceService;
   private assetDetector: typeof AssetTypeDetector;
 
-  constructor() {
+  constructor(private providers: ProviderRegistry = marketDataProviders) {
     this.binance = new BinanceService();
     this.coingecko = new CoinGeckoService();
     this.yfinance = new YFinanceService();
     this.assetDetector = AssetTypeDetector;
   }
 
-  async getPrice(symbol: string, source: "binance" | "coingecko" | "yahoo" | "auto" = "auto"): Promise<MarketPrice | null> {
-    if (source === "binance") {
-      return this.binance.getPrice(symbol);
-    }
-
-    if (source === "coingecko") {
-      return this.coingecko.getPrice(symbol);
-    }
-
-    if (source === "yahoo") {
-      return this.yfinance.getPrice(symbol);
+  async getPrice(symbol: string, source: MarketDataSource | "auto" = "auto"): Promise<MarketPrice | null> {
+    if (source !== "auto") {
+      return this.fetchQuote(source, symbol);
     }
 
     // Auto mode: detect asset type and route accordingly
@@ -523,17 +530,37 @@ export class MarketDataService {
     return this.getPriceByAssetType(detection.normalizedSymbol, detection.type);
   }
 
-  private async getPriceByAssetType(symbol: string, assetType: AssetType): Promise<MarketPrice | null> {
-    let price: MarketPrice | null = null;
+  /**
+   * OHLCV candles from the provider that covers the asset type, oldest first
+   */
+  async getCandles(
+    symbol: string,
+    assetType: string,
+    resolution: CandleResolution,
+    from: Date,
+    to: Date
+  ): Promise<{ candles: Candle[]; source: string }> {
+    if (assetType === 'CRYPTO') {
+      if (this.providers.rank(['binance']).length > 0) {
+        const binance = await this.binance.getCandles(symbol, resolution, from, to);
+        if (binance.length > 0) return { candles: binance, source: 'binance' };
+      }
 
+      return { candles: await this.coingecko.getCandles(symbol, resolution, from, to), source: 'coingecko' };
+    }
+
+    // Yahoo lists FX pairs as EURUSD=X
+    const yahooSymbol = assetType === 'CURRENCY' && !symbol.includes('=') ? `${symbol}=X` : symbol;
+    return { candles: await this.yfinance.getCandles(yahooSymbol, resolution, from, to), source: 'yahoo' };
+  }
+
+  /**
+   * Providers that can price an asset type, in order of preference
+   */
+  sourcesFor(assetType: string): MarketDataSource[] {
     switch (assetType) {
       case 'CRYPTO':
-        // Try Binance first, then CoinGecko for crypto
-        price = await this.binance.getPrice(symbol);
-        if (!price) {
-          price = await this.coingecko.getPrice(symbol);
-        }
-        break;
+        return ['binance', 'coingecko'];
 
       case 'STOCK':
       case 'ETF':
@@ -543,19 +570,23 @@ export class MarketDataService {
       case 'BOND':
       case 'OPTION':
       case 'FUTURE':
-        // Try Yahoo Finance for all traditional assets
-        price = await this.yfinance.getPrice(symbol);
-        break;
+        return ['yahoo'];
 
       default:
-        // Fallback: try all sources
-        price = await this.yfinance.getPrice(symbol);
-        if (!price) {
-          price = await this.binance.getPrice(symbol);
-        }
-        if (!price) {
-          price = await this.coingecko.getPrice(symbol);
-        }
+        return ['yahoo', 'binance', 'coingecko'];
+    }
+  }
+
+  /**
+   * First answer from the healthiest provider for the type, failing over
+   * to the next when one errors or has its circuit open
+   */
+  private async getPriceByAssetType(symbol: string, assetType: AssetType): Promise<MarketPrice | null> {
+    let price: MarketPrice | null = null;
+
+    for (const source of this.providers.rank(this.sourcesFor(assetType))) {
+      price = await this.fetchQuote(source, symbol);
+      if (price) break;
     }
 
     if (price) {
@@ -567,6 +598,35 @@ export class MarketDataService {
     return price;
   }
 
+  /**
+   * Quotes from up to two providers, cross-checked before anything is
+   * written. `reference` is the last known price, used to break ties and
+   * to hold back a lone quote that jumped implausibly.
+   */
+  async getQuorumPrice(
+    symbol: string,
+    assetType: string,
+    reference: number | null = null
+  ): Promise<{ price: MarketPrice | null; quorum: QuorumResult }> {
+    const quotes: MarketPrice[] = [];
+
+    for (const source of this.providers.rank(this.sourcesFor(assetType))) {
+      if (quotes.length >= 2) break;
+      const quote = await this.fetchQuote(source, symbol);
+      if (quote) quotes.push(quote);
+    }
+
+    const quorum = reconcileQuotes(
+      quotes.map(q => ({ source: q.source, price: q.price })),
+      reference
+    );
+
+    return {
+      price: quotes.find(q => q.source === quorum.source) ?? null,
+      quorum,
+    };
+  }
+
   async updateAssetPrice(assetId: string) {
     const asset = await prisma.asset.findUnique({
       where: { id: assetId },
@@ -576,14 +636,39 @@ export class MarketDataService {
       throw new Error("Asset not found");
     }
 
-    const price = await this.getPrice(asset.symbol);
+    const previous = asset.priceData as { price?: number | null; updatedAt?: string | null } | null;
+    // Only a recent price is a fair yardstick for how far a quote may have moved
+    const reference =
+      previous?.price && previous.updatedAt && Date.now() - new Date(previous.updatedAt).getTime() < REFERENCE_MAX_AGE_MS
+        ? previous.price
+        : null;
+
+    const { price, quorum } = await this.getQuorumPrice(asset.symbol, asset.type, reference);
+
+    if (quorum.outliers.length > 0) {
+      await prisma.event.create({
+        data: {
+          type: "PRICE_OUTLIER",
+          entityType: "ASSET",
+          entityId: assetId,
+          data: { symbol: asset.symbol, reference, ...quorum } as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
 
     if (!price) {
-      throw new Error(`Failed to fetch price for ${asset.symbol}`);
+      throw new Error(
+        quorum.quotes.length > 0
+          ? `Price for ${asset.symbol} held back: ${quorum.reason}`
+          : `Failed to fetch price for ${asset.symbol}`
+      );
     }
 
-    // Store previous price for 24h comparison
-    const previousPrice = (asset.priceData as any)?.price || price.price;
+    const audit = {
+      status: quorum.status,
+      quotes: quorum.quotes,
+      spreadPercent: quorum.spreadPercent,
+    } as unknown as Prisma.InputJsonObject;
 
     // Update asset with new price data
     await prisma.asset.update({
@@ -597,8 +682,9 @@ export class MarketDataService {
           high24h: price.high24h,
           low24h: price.low24h,
           updatedAt: new Date().toISOString(),
-          source: price.source || "binance",
-          price24hAgo: previousPrice,
+          source: price.source,
+          price24hAgo: previous?.price || price.price,
+          quorum: audit,
         },
       },
     });
@@ -609,7 +695,8 @@ export class MarketDataService {
         assetId,
         price: price.price,
         volume: price.volume24h,
-        source: price.source || "binance",
+        source: price.source,
+        quorum: audit,
       },
     });
 
@@ -617,62 +704,22 @@ export class MarketDataService {
   }
 
   async updateAllAssetPrices() {
-    const assets = await prisma.asset.findMany();
-
-    const symbols = assets.map(a => a.symbol);
-    const prices = await this.binance.getBatchPrices(symbols);
-
-    // Fallback to CoinGecko for missing prices
-    const missingSymbols = symbols.filter(s => !prices.has(s));
-
-    if (missingSymbols.length > 0) {
-      const coingeckoPrices = await this.coingecko.getBatchPrices(missingSymbols);
-
-      for (const [symbol, price] of coingeckoPrices) {
-        prices.set(symbol, price);
-      }
-    }
-
-    // Update all assets with new prices
-    const updatePromises = [];
+    const assets = await prisma.asset.findMany({ select: { id: true, symbol: true } });
+    const prices = new Map<string, MarketPrice>();
 
     for (const asset of assets) {
-      const price = prices.get(asset.symbol);
-
-      if (price) {
-        updatePromises.push(
-          prisma.asset.update({
-            where: { id: asset.id },
-            data: {
-              priceData: {
-                price: price.price,
-                change24h: price.change24h,
-                volume24h: price.volume24h,
-                marketCap: price.marketCap,
-                high24h: price.high24h,
-                low24h: price.low24h,
-                updatedAt: new Date().toISOString(),
-                source: "mixed",
-              },
-            },
-          })
-        );
-
-        updatePromises.push(
-          prisma.priceHistory.create({
-            data: {
-              assetId: asset.id,
-              price: price.price,
-              volume: price.volume24h,
-              source: "mixed",
-            },
-          })
-        );
+      try {
+        prices.set(asset.symbol, await this.updateAssetPrice(asset.id));
+      } catch (error) {
+        console.error(`Failed to update ${asset.symbol}:`, error);
       }
     }
 
-    await Promise.all(updatePromises);
-
     return prices;
   }
-}
\ No newline at end of file
+
+  private async fetchQuote(source: MarketDataSource, symbol: string): Promise<MarketPrice | null> {
+    const provider = { binance: this.binance, coingecko: this.coingecko, yahoo: this.yfinance }[source];
+    return this.providers.call(source, () => provider.getPrice(symbol));
+  }
+}
@@ -0,0 +1,318 @@
+export const MARKET_DATA_SOURCES = ["binance", "coingecko", "yahoo"] as const;
+export type MarketDataSource = (typeof MARKET_DATA_SOURCES)[number];
+
+/**
+ * CLOSED: calls go through
+ * OPEN: the provider is skipped until its cooldown ends
+ * HALF_OPEN: one trial call decides whether it closes or opens again
+ */
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+export interface ProviderHealth {
+  source: MarketDataSource;
+  state: CircuitState;
+  // 0-1, used to order providers that can answer the same request
+  score: number;
+  calls: number;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  consecutiveFailures: number;
+  openUntil: Date | null;
+  lastError: string | null;
+  lastSuccessAt: Date | null;
+}
+
+export type QuorumStatus = "AGREED" | "SINGLE_SOURCE" | "OUTLIER_DROPPED" | "DIVERGED";
+
+export interface SourceQuote {
+  source: string;
+  price: number;
+}
+
+export interface QuorumResult {
+  status: QuorumStatus;
+  // Null when the quotes cannot be trusted and nothing should be written
+  price: number | null;
+  source: string | null;
+  quotes: SourceQuote[];
+  outliers: SourceQuote[];
+  spreadPercent: number | null;
+  reason: string;
+}
+
+interface CallSample {
+  ok: boolean;
+  latencyMs: number;
+}
+
+interface ProviderState {
+  samples: CallSample[];
+  state: CircuitState;
+  consecutiveFailures: number;
+  cooldownMs: number;
+  openUntil: number | null;
+  trialInFlight: boolean;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+}
+
+// Circuit breaker tuning
+const SAMPLE_WINDOW = 50;
+const FAILURE_THRESHOLD = 3; // Consecutive failures before the circuit opens
+const BASE_COOLDOWN_MS = 60 * 1000;
+const MAX_COOLDOWN_MS = 15 * 60 * 1000; // Cooldown doubles on every failed trial up to this
+const SLOW_CALL_MS = 3000; // Same threshold the health check uses for "degraded"
+
+// Quorum tuning
+const QUORUM_TOLERANCE_PERCENT = 2; // Venues quote USDT vs USD, so allow some drift
+const MAX_JUMP_PERCENT = 30; // A lone quote this far from the last known price is held back
+
+/**
+ * Per-provider latency/error tracking with a circuit breaker. Shared by
+ * every MarketDataService in the process so one caller's failures spare
+ * the others a timeout.
+ */
+export class ProviderRegistry {
+  private providers = new Map<MarketDataSource, ProviderState>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Whether a call may go to the provider now. Moves an expired OPEN
+   * circuit to HALF_OPEN and lets exactly one trial through.
+   */
+  isAvailable(source: MarketDataSource): boolean {
+    const provider = this.get(source);
+
+    if (provider.state === "OPEN") {
+      if (provider.openUntil !== null && this.now() < provider.openUntil) return false;
+      provider.state = "HALF_OPEN";
+      provider.trialInFlight = false;
+    }
+
+    if (provider.state === "HALF_OPEN") {
+      if (provider.trialInFlight) return false;
+      provider.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  record(source: MarketDataSource, ok: boolean, latencyMs: number, error?: string) {
+    const provider = this.get(source);
+
+    provider.samples.push({ ok, latencyMs });
+    if (provider.samples.length > SAMPLE_WINDOW) provider.samples.shift();
+    provider.trialInFlight = false;
+
+    if (ok) {
+      provider.state = "CLOSED";
+      provider.consecutiveFailures = 0;
+      provider.cooldownMs = BASE_COOLDOWN_MS;
+      provider.openUntil = null;
+      provider.lastSuccessAt = this.now();
+      return;
+    }
+
+    provider.consecutiveFailures++;
+    provider.lastError = error ?? "Unknown error";
+
+    const failedTrial = provider.state === "HALF_OPEN";
+    if (failedTrial || provider.consecutiveFailures >= FAILURE_THRESHOLD) {
+      if (failedTrial) provider.cooldownMs = Math.min(provider.cooldownMs * 2, MAX_COOLDOWN_MS);
+      provider.state = "OPEN";
+      provider.openUntil = this.now() + provider.cooldownMs;
+      console.warn(`⚠️ [MarketData] ${source} circuit open for ${provider.cooldownMs / 1000}s: ${provider.lastError}`);
+    }
+  }
+
+  /**
+   * Run a provider call, recording its latency and outcome. A thrown error
+   * counts against the provider; a null answer (unknown symbol) does not.
+   * Returns null without calling when the circuit is open.
+   */
+  async call<T>(source: MarketDataSource, fn: () => Promise<T | null>): Promise<T | null> {
+    if (!this.isAvailable(source)) return null;
+
+    const startedAt = this.now();
+    try {
+      const result = await fn();
+      this.record(source, true, this.now() - startedAt);
+      return result;
+    } catch (error) {
+      this.record(source, false, this.now() - startedAt, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Providers that can take a call, healthiest first; ties keep the
+   * caller's preference order
+   */
+  rank(sources: readonly MarketDataSource[]): MarketDataSource[] {
+    return sources
+      .map((source, index) => ({ source, index, score: this.score(source) }))
+      .filter(({ source }) => {
+        const { state, openUntil } = this.get(source);
+        return state !== "OPEN" || (openUntil !== null && this.now() >= openUntil);
+      })
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ source }) => source);
+  }
+
+  health(): ProviderHealth[] {
+    return MARKET_DATA_SOURCES.map(source => {
+      const provider = this.get(source);
+      const failures = provider.samples.filter(s => !s.ok).length;
+
+      return {
+        source,
+        state: provider.state,
+        score: this.score(source),
+        calls: provider.samples.length,
+        errorRate: provider.samples.length ? failures / provider.samples.length : 0,
+        avgLatencyMs: provider.samples.length
+          ? Math.round(provider.samples.reduce((sum, s) => sum + s.latencyMs, 0) / provider.samples.length)
+          : null,
+        consecutiveFailures: provider.consecutiveFailures,
+        openUntil: provider.state === "OPEN" && provider.openUntil !== null ? new Date(provider.openUntil) : null,
+        lastError: provider.lastError,
+        lastSuccessAt: provider.lastSuccessAt !== null ? new Date(provider.lastSuccessAt) : null,
+      };
+    });
+  }
+
+  reset(source?: MarketDataSource) {
+    if (source) {
+      this.providers.delete(source);
+    } else {
+      this.providers.clear();
+    }
+  }
+
+  // Rounded to one decimal so small latency wobbles don't reorder providers
+  private score(source: MarketDataSource): number {
+    const { samples } = this.get(source);
+    if (samples.length === 0) return 1;
+
+    const successRate = samples.filter(s => s.ok).length / samples.length;
+    const avgLatency = samples.reduce((sum, s) => sum + s.latencyMs, 0) / samples.length;
+
+    return Math.round(successRate * (avgLatency > SLOW_CALL_MS ? 0.5 : 1) * 10) / 10;
+  }
+
+  private get(source: MarketDataSource): ProviderState {
+    let provider = this.providers.get(source);
+    if (!provider) {
+      provider = {
+        samples: [],
+        state: "CLOSED",
+        consecutiveFailures: 0,
+        cooldownMs: BASE_COOLDOWN_MS,
+        openUntil: null,
+        trialInFlight: false,
+        lastError: null,
+        lastSuccessAt: null,
+      };
+      this.providers.set(source, provider);
+    }
+    return provider;
+  }
+}
+
+export const marketDataProviders = new ProviderRegistry();
+
+function deviationPercent(price: number, from: number): number {
+  return (Math.abs(price - from) / from) * 100;
+}
+
+/**
+ * Cross-check quotes for one asset, ordered by source preference. Quotes far
+ * from the median are outliers; a lone quote, or two that disagree, are
+ * checked against the last known price instead. The accepted price is always
+ * one source's own quote so the write can be attributed to it.
+ */
+export function reconcileQuotes(
+  quotes: SourceQuote[],
+  reference: number | null = null,
+  tolerancePercent = QUORUM_TOLERANCE_PERCENT
+): QuorumResult {
+  const valid = quotes.filter(q => Number.isFinite(q.price) && q.price > 0);
+  const base = { quotes: valid, outliers: quotes.filter(q => !valid.includes(q)) };
+  const plausible = (q: SourceQuote) => !reference || deviationPercent(q.price, reference) <= MAX_JUMP_PERCENT;
+
+  if (valid.length === 0) {
+    return { ...base, status: "DIVERGED", price: null, source: null, spreadPercent: null, reason: "No usable quotes" };
+  }
+
+  if (valid.length === 1) {
+    const [only] = valid as [SourceQuote];
+    return plausible(only)
+      ? { ...base, status: "SINGLE_SOURCE", price: only.price, source: only.source, spreadPercent: null, reason: `Only ${only.source} answered` }
+      : {
+          ...base,
+          status: "DIVERGED",
+          price: null,
+          source: null,
+          outliers: [...base.outliers, only],
+          spreadPercent: null,
+          reason: `${only.source} moved ${deviationPercent(only.price, reference!).toFixed(1)}% from the last known price with nothing to confirm it`,
+        };
+  }
+
+  const sorted = valid.map(q => q.price).sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+  const spreadPercent = ((sorted[sorted.length - 1]! - sorted[0]!) / median) * 100;
+
+  // With two quotes the median sits between them, so compare them to each other
+  const agreeing =
+    valid.length === 2
+      ? deviationPercent(valid[0]!.price, valid[1]!.price) <= tolerancePercent ? valid : []
+      : valid.filter(q => deviationPercent(q.price, median) <= tolerancePercent);
+
+  if (agreeing.length === valid.length) {
+    const chosen = valid[0]!;
+    return { ...base, status: "AGREED", price: chosen.price, source: chosen.source, spreadPercent, reason: `${valid.length} sources within ${tolerancePercent}%` };
+  }
+
+  if (agreeing.length >= 2) {
+    const chosen = agreeing[0]!;
+    return {
+      ...base,
+      status: "OUTLIER_DROPPED",
+      price: chosen.price,
+      source: chosen.source,
+      outliers: [...base.outliers, ...valid.filter(q => !agreeing.includes(q))],
+      spreadPercent,
+      reason: `${agreeing.length} of ${valid.length} sources agree`,
+    };
+  }
+
+  // No majority: side with whichever quote is closest to the last known price, if any is plausible
+  const closest = reference
+    ? [...valid].sort((a, b) => deviationPercent(a.price, reference) - deviationPercent(b.price, reference))[0]!
+    : null;
+
+  if (closest && plausible(closest)) {
+    return {
+      ...base,
+      status: "OUTLIER_DROPPED",
+      price: closest.price,
+      source: closest.source,
+      outliers: [...base.outliers, ...valid.filter(q => q !== closest)],
+      spreadPercent,
+      reason: `Sources disagree by ${spreadPercent.toFixed(1)}%; ${closest.source} is closest to the last known price`,
+    };
+  }
+
+  return {
+    ...base,
+    status: "DIVERGED",
+    price: null,
+    source: null,
+    outliers: [...base.outliers, ...valid],
+    spreadPercent,
+    reason: `Sources disagree by ${spreadPercent.toFixed(1)}%`,
+  };
+}
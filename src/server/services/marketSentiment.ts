@@ -6,12 +6,12 @@
 
 import axios from 'axios';
 
-interface FearGreedResponse {
-  data: [{
-    value: number;
+export interface FearGreedResponse {
+  data: Array<{
+    value: number | string;
     value_classification: string;
-    timestamp: number;
-  }];
+    timestamp: number | string;
+  }>;
 }
 
 export interface MarketSentimentData {
@@ -32,8 +32,26 @@ export const MARKET_CONTEXT = {
 
 export type MarketContext = typeof MARKET_CONTEXT[keyof typeof MARKET_CONTEXT];
 
+export const FEAR_GREED_API_URL = 'https://api.alternative.me/fng/';
+
+/**
+ * Map Fear & Greed Index score (0-100) to MarketContext enum
+ * 0-24: Extreme Fear
+ * 25-44: Fear
+ * 45-54: Neutral
+ * 55-74: Greed
+ * 75-100: Extreme Greed
+ */
+export function mapScoreToMarketContext(score: number): MarketContext {
+  if (score <= 24) return MARKET_CONTEXT.EXTREME_FEAR;
+  if (score <= 44) return MARKET_CONTEXT.FEAR;
+  if (score <= 54) return MARKET_CONTEXT.NEUTRAL;
+  if (score <= 74) return MARKET_CONTEXT.GREED;
+  return MARKET_CONTEXT.EXTREME_GREED;
+}
+
 class MarketSentimentService {
-  private readonly API_URL = 'https://api.alternative.me/fng/';
+  private readonly API_URL = FEAR_GREED_API_URL;
   private readonly CACHE_DURATION = 60 * 60 * 1000; // 1 hour in milliseconds
 
   private cachedData: MarketSentimentData | null = null;
@@ -64,13 +82,15 @@ class MarketSentimentService {
       }
 
       const fngData = response.data.data[0];
-      const marketContext = this.mapScoreToMarketContext(fngData.value);
+      // The API sends numbers as strings
+      const score = Number(fngData.value);
+      const marketContext = mapScoreToMarketContext(score);
 
       this.cachedData = {
         marketContext,
-        sentimentScore: fngData.value,
+        sentimentScore: score,
         classification: fngData.value_classification,
-        timestamp: new Date(fngData.timestamp * 1000),
+        timestamp: new Date(Number(fngData.timestamp) * 1000),
         lastUpdated: new Date()
       };
 
@@ -107,22 +127,6 @@ class MarketSentimentService {
     }
   }
 
-  /**
-   * Map Fear & Greed Index score (0-100) to MarketContext enum
-   * 0-24: Extreme Fear
-   * 25-44: Fear
-   * 45-54: Neutral
-   * 55-74: Greed
-   * 75-100: Extreme Greed
-   */
-  private mapScoreToMarketContext(score: number): MarketContext {
-    if (score <= 24) return MARKET_CONTEXT.EXTREME_FEAR;
-    if (score <= 44) return MARKET_CONTEXT.FEAR;
-    if (score <= 54) return MARKET_CONTEXT.NEUTRAL;
-    if (score <= 74) return MARKET_CONTEXT.GREED;
-    return MARKET_CONTEXT.EXTREME_GREED;
-  }
-
   /**
    * Get market context without caching (for testing)
    */
@@ -0,0 +1,274 @@
+import { type Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { JobQueue } from "./jobQueue";
+import { MarketDataService } from "./marketData";
+import {
+  CANDLE_RESOLUTIONS,
+  RESOLUTION_MS,
+  bucketStart,
+  findGaps,
+  gapTolerance,
+  type Candle,
+  type CandleResolution,
+} from "./candles";
+
+export const PRICE_BACKFILL_JOB = "BACKFILL_PRICE_CANDLES";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Hourly candles are only kept close to where they matter (baselines, recent charts)
+const HOURLY_LOOKBACK_MS = 30 * DAY_MS;
+// How far back a sweep reaches for pending predictions
+const MAX_SWEEP_LOOKBACK_MS = 2 * 365 * DAY_MS;
+// Longest stretch a last close stands in for a missing candle (a long weekend)
+const MAX_CARRY_FORWARD_MS = 4 * DAY_MS;
+
+export interface PriceBackfillPayload {
+  assetId?: string;
+  from?: string;
+  to?: string;
+  resolutions?: CandleResolution[];
+}
+
+export interface CandleFillResult {
+  gaps: number;
+  stored: number;
+}
+
+type StoredCandle = Candle & { source: string };
+
+interface BackfillAsset {
+  id: string;
+  symbol: string;
+  type: string;
+}
+
+/**
+ * Keeps PriceCandle filled from the market data providers. Gaps are found
+ * against what is already stored, so every entry point is safe to repeat.
+ */
+export class PriceBackfillService {
+  constructor(
+    private marketData: MarketDataService = new MarketDataService(),
+    private jobQueue: JobQueue = new JobQueue()
+  ) {}
+
+  /**
+   * Fetch whatever candles are missing for [from, to)
+   */
+  async ensureCandles(asset: BackfillAsset, resolution: CandleResolution, from: Date, to: Date): Promise<CandleFillResult> {
+    const existing = await prisma.priceCandle.findMany({
+      where: { assetId: asset.id, resolution, openTime: { gte: bucketStart(from, resolution), lt: to } },
+      select: { openTime: true },
+    });
+
+    const gaps = findGaps(existing.map(c => c.openTime), from, to, resolution, gapTolerance(asset.type, resolution));
+    let stored = 0;
+
+    for (const gap of gaps) {
+      const { candles, source } = await this.marketData.getCandles(asset.symbol, asset.type, resolution, gap.from, gap.to);
+      // Providers may hand back the still-open bucket; only closed candles are final
+      const closed = candles.filter(c => c.openTime.getTime() + RESOLUTION_MS[resolution] <= Date.now());
+
+      if (closed.length === 0) continue;
+
+      const result = await prisma.priceCandle.createMany({
+        data: closed.map(candle => ({
+          assetId: asset.id,
+          resolution,
+          openTime: candle.openTime,
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: candle.volume,
+          source,
+        })),
+        skipDuplicates: true,
+      });
+      stored += result.count;
+    }
+
+    if (gaps.length > 0) {
+      console.log(`[PriceBackfill] ${asset.symbol} ${resolution}: ${gaps.length} gaps, ${stored} candles stored`);
+    }
+
+    return { gaps: gaps.length, stored };
+  }
+
+  /**
+   * Candles for [from, to), oldest first, optionally filling gaps first
+   */
+  async getCandles(
+    assetId: string,
+    resolution: CandleResolution,
+    from: Date,
+    to: Date,
+    options: { fill?: boolean } = {}
+  ): Promise<StoredCandle[]> {
+    if (options.fill) {
+      const asset = await prisma.asset.findUnique({ where: { id: assetId }, select: { id: true, symbol: true, type: true } });
+      if (asset) {
+        await this.ensureCandles(asset, resolution, from, to);
+      }
+    }
+
+    const candles = await prisma.priceCandle.findMany({
+      where: { assetId, resolution, openTime: { gte: bucketStart(from, resolution), lt: to } },
+      orderBy: { openTime: "asc" },
+    });
+
+    return candles.map(candle => ({
+      openTime: candle.openTime,
+      open: Number(candle.open),
+      high: Number(candle.high),
+      low: Number(candle.low),
+      close: Number(candle.close),
+      volume: candle.volume != null ? Number(candle.volume) : null,
+      source: candle.source,
+    }));
+  }
+
+  /**
+   * Make sure a prediction's horizon is covered and give it a baseline from
+   * the candle it was made in when none was captured at creation
+   */
+  async ensureForPrediction(prediction: {
+    id: string;
+    createdAt: Date;
+    targetDate: Date | null;
+    baselinePrice: unknown;
+    asset: BackfillAsset | null;
+  }): Promise<number | null> {
+    if (!prediction.asset) return null;
+
+    const now = new Date();
+    const end = prediction.targetDate && prediction.targetDate < now ? prediction.targetDate : now;
+    const start = new Date(prediction.createdAt.getTime() - DAY_MS);
+
+    await this.ensureCandles(prediction.asset, "1d", start, new Date(end.getTime() + DAY_MS));
+    await this.ensureCandles(prediction.asset, "1h", start, new Date(Math.min(end.getTime(), prediction.createdAt.getTime() + DAY_MS)));
+
+    if (prediction.baselinePrice != null) {
+      return Number(prediction.baselinePrice);
+    }
+
+    const baseline = await this.priceAt(prediction.asset.id, prediction.createdAt);
+    if (baseline === null) return null;
+
+    await prisma.prediction.update({
+      where: { id: prediction.id },
+      data: { baselinePrice: baseline },
+    });
+    console.log(`[PriceBackfill] Baseline for prediction ${prediction.id} set to ${baseline} from candles`);
+
+    return baseline;
+  }
+
+  /**
+   * Price at a moment: the open of the finest stored candle containing it,
+   * else the last close before it (a weekend or holiday for exchange-traded
+   * assets, or a bucket that has not closed yet)
+   */
+  async priceAt(assetId: string, at: Date): Promise<number | null> {
+    for (const resolution of CANDLE_RESOLUTIONS) {
+      const candle = await prisma.priceCandle.findUnique({
+        where: { assetId_resolution_openTime: { assetId, resolution, openTime: bucketStart(at, resolution) } },
+        select: { open: true },
+      });
+      if (candle) return Number(candle.open);
+    }
+
+    let latest: { closedAt: number; close: number } | null = null;
+    for (const resolution of CANDLE_RESOLUTIONS) {
+      const candle = await prisma.priceCandle.findFirst({
+        where: {
+          assetId,
+          resolution,
+          openTime: { gte: new Date(at.getTime() - MAX_CARRY_FORWARD_MS), lte: new Date(at.getTime() - RESOLUTION_MS[resolution]) },
+        },
+        orderBy: { openTime: "desc" },
+        select: { openTime: true, close: true },
+      });
+      const closedAt = candle ? candle.openTime.getTime() + RESOLUTION_MS[resolution] : null;
+      if (candle && closedAt !== null && (!latest || closedAt > latest.closedAt)) {
+        latest = { closedAt, close: Number(candle.close) };
+      }
+    }
+
+    return latest?.close ?? null;
+  }
+
+  /**
+   * Queue a backfill for an asset, e.g. when a prediction first references it
+   */
+  async requestBackfill(assetId: string, from: Date, to?: Date) {
+    return this.jobQueue.enqueue(PRICE_BACKFILL_JOB, {
+      assetId,
+      from: from.toISOString(),
+      ...(to && { to: to.toISOString() }),
+    } satisfies PriceBackfillPayload as Prisma.InputJsonValue);
+  }
+
+  /**
+   * Job handler: a single asset when the payload names one, otherwise a
+   * sweep over every asset with pending predictions
+   */
+  async run(payload: PriceBackfillPayload = {}): Promise<CandleFillResult> {
+    const to = payload.to ? new Date(payload.to) : new Date();
+
+    if (payload.assetId) {
+      const asset = await prisma.asset.findUnique({
+        where: { id: payload.assetId },
+        select: { id: true, symbol: true, type: true },
+      });
+      if (!asset) return { gaps: 0, stored: 0 };
+
+      const from = payload.from ? new Date(payload.from) : new Date(to.getTime() - MAX_SWEEP_LOOKBACK_MS);
+      return this.backfillAsset(asset, from, to, payload.resolutions);
+    }
+
+    const pending = await prisma.prediction.groupBy({
+      by: ["assetId"],
+      where: { outcome: "PENDING", assetId: { not: null } },
+      _min: { createdAt: true },
+    });
+    const assets = await prisma.asset.findMany({
+      where: { id: { in: pending.map(p => p.assetId!) } },
+      select: { id: true, symbol: true, type: true },
+    });
+    const total: CandleFillResult = { gaps: 0, stored: 0 };
+
+    for (const asset of assets) {
+      const earliest = pending.find(p => p.assetId === asset.id)?._min.createdAt ?? to;
+      const from = new Date(Math.max(earliest.getTime() - DAY_MS, to.getTime() - MAX_SWEEP_LOOKBACK_MS));
+
+      try {
+        const result = await this.backfillAsset(asset, from, to, payload.resolutions);
+        total.gaps += result.gaps;
+        total.stored += result.stored;
+      } catch (error) {
+        console.error(`[PriceBackfill] Failed for ${asset.symbol}:`, error);
+      }
+    }
+
+    return total;
+  }
+
+  private async backfillAsset(
+    asset: BackfillAsset,
+    from: Date,
+    to: Date,
+    resolutions: CandleResolution[] = [...CANDLE_RESOLUTIONS]
+  ): Promise<CandleFillResult> {
+    const total: CandleFillResult = { gaps: 0, stored: 0 };
+
+    for (const resolution of resolutions) {
+      const start = resolution === "1h" ? new Date(Math.max(from.getTime(), to.getTime() - HOURLY_LOOKBACK_MS)) : from;
+      const result = await this.ensureCandles(asset, resolution, start, to);
+      total.gaps += result.gaps;
+      total.stored += result.stored;
+    }
+
+    return total;
+  }
+}
@@ -0,0 +1,149 @@
+import { prisma } from "../db";
+import { candlePoints, RESOLUTION_MS, type CandleResolution } from "./candles";
+import { PriceBackfillService } from "./priceBackfill";
+import { inferTargetSemantics, targetBand, type ResolutionResult, type TargetSemantics } from "./resolution";
+
+// Horizons up to this long are drawn from hourly candles, longer ones from daily
+const HOURLY_MAX_SPAN_MS = 14 * RESOLUTION_MS["1d"];
+const MAX_OTHER_PREDICTIONS = 20;
+
+export interface PricePathPoint {
+  at: Date;
+  price: number;
+  high: number;
+  low: number;
+}
+
+export interface PricePathPrediction {
+  id: string;
+  forecasterId: string;
+  forecasterName: string;
+  createdAt: Date;
+  targetDate: Date | null;
+  targetPrice: number | null;
+  direction: string | null;
+  outcome: string;
+}
+
+export interface PredictionPricePath {
+  predictionId: string;
+  asset: { id: string; symbol: string; type: string } | null;
+  resolution: CandleResolution;
+  // Chart window: creation through the target date, or today while it's open
+  from: Date;
+  to: Date;
+  horizonEnd: Date | null;
+  baseline: { at: Date; price: number } | null;
+  target: { price: number; semantics: TargetSemantics; band: { low: number; high: number } } | null;
+  resolved: { at: Date; price: number; outcome: string; rule: string; reason: string } | null;
+  points: PricePathPoint[];
+  // Other forecasters' calls on the same asset made within the window
+  others: PricePathPrediction[];
+}
+
+export function pathResolution(from: Date, to: Date): CandleResolution {
+  return to.getTime() - from.getTime() <= HOURLY_MAX_SPAN_MS ? "1h" : "1d";
+}
+
+/**
+ * The price path a prediction was judged on, with its baseline, target band
+ * and resolution point, for the prediction detail chart
+ */
+export class PricePathService {
+  constructor(private priceBackfill: PriceBackfillService = new PriceBackfillService()) {}
+
+  async forPrediction(predictionId: string, now = new Date()): Promise<PredictionPricePath | null> {
+    const prediction = await prisma.prediction.findUnique({
+      where: { id: predictionId },
+      select: {
+        id: true,
+        forecasterId: true,
+        prediction: true,
+        createdAt: true,
+        targetDate: true,
+        targetPrice: true,
+        baselinePrice: true,
+        outcome: true,
+        metadata: true,
+        asset: { select: { id: true, symbol: true, type: true } },
+      },
+    });
+    if (!prediction) return null;
+
+    const from = prediction.createdAt;
+    const to = prediction.targetDate && prediction.targetDate < now ? prediction.targetDate : now;
+    const resolution = pathResolution(from, to);
+    const resolutionMeta = (prediction.metadata as { resolution?: ResolutionResult } | null)?.resolution;
+
+    const targetPrice = prediction.targetPrice !== null ? Number(prediction.targetPrice) : null;
+    const semantics = inferTargetSemantics(prediction.prediction, targetPrice, prediction.metadata);
+    const baselinePrice =
+      prediction.baselinePrice !== null ? Number(prediction.baselinePrice) : (resolutionMeta?.baselinePrice ?? null);
+
+    const [candles, others] = prediction.asset
+      ? await Promise.all([
+          this.priceBackfill.getCandles(prediction.asset.id, resolution, from, to),
+          prisma.prediction.findMany({
+            where: {
+              assetId: prediction.asset.id,
+              id: { not: prediction.id },
+              forecasterId: { not: prediction.forecasterId },
+              createdAt: { lte: to },
+              OR: [{ targetDate: null }, { targetDate: { gte: from } }],
+            },
+            orderBy: { createdAt: "desc" },
+            take: MAX_OTHER_PREDICTIONS,
+            select: {
+              id: true,
+              forecasterId: true,
+              createdAt: true,
+              targetDate: true,
+              targetPrice: true,
+              direction: true,
+              outcome: true,
+              forecaster: { select: { name: true } },
+            },
+          }),
+        ])
+      : [[], []];
+
+    // A candle closing after the target date shows moves the prediction wasn't judged on
+    const points = candlePoints(candles, resolution)
+      .filter(point => point.recordedAt.getTime() <= to.getTime())
+      .map(point => ({ at: point.recordedAt, price: point.price, high: point.high, low: point.low }));
+
+    return {
+      predictionId: prediction.id,
+      asset: prediction.asset,
+      resolution,
+      from,
+      to,
+      horizonEnd: prediction.targetDate,
+      baseline: baselinePrice
+        ? { at: resolutionMeta?.baselineAt ? new Date(resolutionMeta.baselineAt) : from, price: baselinePrice }
+        : null,
+      target: targetPrice ? { price: targetPrice, semantics, band: targetBand(targetPrice, semantics) } : null,
+      resolved:
+        prediction.outcome !== "PENDING" && resolutionMeta?.resolvingAt && resolutionMeta.resolvingPrice !== null
+          ? {
+              at: new Date(resolutionMeta.resolvingAt),
+              price: resolutionMeta.resolvingPrice,
+              outcome: prediction.outcome,
+              rule: resolutionMeta.rule,
+              reason: resolutionMeta.reason,
+            }
+          : null,
+      points,
+      others: others.map(other => ({
+        id: other.id,
+        forecasterId: other.forecasterId,
+        forecasterName: other.forecaster.name,
+        createdAt: other.createdAt,
+        targetDate: other.targetDate,
+        targetPrice: other.targetPrice !== null ? Number(other.targetPrice) : null,
+        direction: other.direction,
+        outcome: other.outcome,
+      })),
+    };
+  }
+}
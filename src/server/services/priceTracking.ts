@@ -1,5 +1,8 @@
 import { prisma } from "../db";
-import { Decimal } from "@prisma/client/runtime/library";
+import { AssetResolutionService } from "./assetResolution";
+import { MarketDataService } from "./marketData";
+import { PriceBackfillService } from "./priceBackfill";
+import { type CandleResolution } from "./candles";
 
 interface PriceData {
   symbol: string;
@@ -10,6 +13,10 @@ interface PriceData {
 }
 
 export class PriceTrackingService {
+  private assetResolution = new AssetResolutionService();
+  private marketData = new MarketDataService();
+  private priceBackfill = new PriceBackfillService(this.marketData);
+
   // Fetch crypto prices from Binance API
   async fetchCryptoPrices(symbols: string[]): Promise<PriceData[]> {
     try {
@@ -55,65 +62,43 @@ export class PriceTrackingService {
     }));
   }
 
-  // Update asset prices in database
+  // Update asset prices in database, one cross-checked quote per asset
   async updateAssetPrices(type: "CRYPTO" | "STOCK"): Promise<void> {
-    try {
-      // Get all assets of the specified type
-      const assets = await prisma.asset.findMany({
-        where: { type },
-        select: { id: true, symbol: true },
-      });
-
-      if (assets.length === 0) return;
-
-      const symbols = assets.map(a => a.symbol);
-
-      // Fetch prices based on type
-      const prices = type === "CRYPTO"
-        ? await this.fetchCryptoPrices(symbols)
-        : await this.fetchStockPrices(symbols);
-
-      // Update assets and create price history
-      for (const priceData of prices) {
-        const asset = assets.find(a => a.symbol === priceData.symbol);
-        if (!asset) continue;
-
-        // Update asset with latest price data
-        await prisma.asset.update({
-          where: { id: asset.id },
-          data: {
-            priceData: {
-              price: priceData.price,
-              change24h: priceData.change24h || null,
-              volume24h: priceData.volume24h || null,
-              updatedAt: new Date().toISOString(),
-              source: type === "CRYPTO" ? "binance" : "mock",
-            },
-          },
-        });
-
-        // Create price history record
-        await prisma.priceHistory.create({
-          data: {
-            assetId: asset.id,
-            price: new Decimal(priceData.price),
-            volume: priceData.volume24h ? new Decimal(priceData.volume24h) : null,
-            source: type === "CRYPTO" ? "binance" : "mock",
-          },
-        });
+    const assets = await prisma.asset.findMany({
+      where: { type },
+      select: { id: true, symbol: true },
+    });
+
+    for (const asset of assets) {
+      try {
+        await this.marketData.updateAssetPrice(asset.id);
+      } catch (error) {
+        console.error(`Failed to update price for ${asset.symbol}:`, error);
       }
-    } catch (error) {
-      console.error(`Failed to update ${type} prices:`, error);
     }
   }
 
-  // Get price history for an asset
+  // "raw" is the ticks recorded by the price cron; candle resolutions fill their gaps from the providers
   async getPriceHistory(
     assetId: string,
-    hours: number = 24
+    hours: number = 24,
+    resolution: "raw" | CandleResolution = "raw"
   ): Promise<any[]> {
     const since = new Date(Date.now() - hours * 60 * 60 * 1000);
 
+    if (resolution !== "raw") {
+      const candles = await this.priceBackfill.getCandles(assetId, resolution, since, new Date(), { fill: true });
+
+      return candles.map(c => ({
+        price: c.close,
+        volume: c.volume,
+        recordedAt: c.openTime,
+        open: c.open,
+        high: c.high,
+        low: c.low,
+      }));
+    }
+
     const history = await prisma.priceHistory.findMany({
       where: {
         assetId,
@@ -134,97 +119,16 @@ export class PriceTrackingService {
     }));
   }
 
-  // Identify assets from text using patterns
+  // Identify assets mentioned in text via the alias catalog
   async identifyAssetsInText(text: string): Promise<string[]> {
-    const cryptoPatterns = [
-      /\b(BTC|Bitcoin)\b/gi,
-      /\b(ETH|Ethereum)\b/gi,
-      /\b(BNB|Binance Coin)\b/gi,
-      /\b(SOL|Solana)\b/gi,
-      /\b(ADA|Cardano)\b/gi,
-      /\b(DOGE|Dogecoin)\b/gi,
-      /\b(XRP|Ripple)\b/gi,
-    ];
-
-    const stockPatterns = [
-      /\b(AAPL|Apple)\b/gi,
-      /\b(GOOGL|Google|Alphabet)\b/gi,
-      /\b(MSFT|Microsoft)\b/gi,
-      /\b(AMZN|Amazon)\b/gi,
-      /\b(TSLA|Tesla)\b/gi,
-      /\b(META|Facebook|Meta)\b/gi,
-      /\b(NVDA|Nvidia)\b/gi,
-    ];
-
-    const foundAssets = new Set<string>();
-
-    // Check crypto patterns
-    for (const pattern of cryptoPatterns) {
-      const matches = text.match(pattern);
-      if (matches) {
-        const symbol = pattern.source.match(/\\b\((\w+)\|/)?.[1];
-        if (symbol) foundAssets.add(symbol);
-      }
-    }
-
-    // Check stock patterns
-    for (const pattern of stockPatterns) {
-      const matches = text.match(pattern);
-      if (matches) {
-        const symbol = pattern.source.match(/\\b\((\w+)\|/)?.[1];
-        if (symbol) foundAssets.add(symbol);
-      }
-    }
-
-    return Array.from(foundAssets);
+    const resolver = await this.assetResolution.resolver();
+    return [...new Set(resolver.findMentions(text).map(mention => mention.symbol))];
   }
 
   // Auto-register new assets found in predictions
   async autoRegisterAssets(symbols: string[]): Promise<void> {
     for (const symbol of symbols) {
-      // Determine asset type based on common patterns
-      const type = this.determineAssetType(symbol);
-
-      // Check if asset already exists
-      const existing = await prisma.asset.findFirst({
-        where: { symbol, type },
-      });
-
-      if (!existing) {
-        await prisma.asset.create({
-          data: {
-            symbol,
-            type,
-            metadata: {
-              name: null,
-              exchange: null,
-              sector: null,
-              marketCap: null,
-            },
-            priceData: {
-              price: null,
-              change24h: null,
-              volume24h: null,
-              updatedAt: null,
-              source: null,
-            },
-          },
-        });
-      }
+      await this.assetResolution.findOrCreateAsset({ symbol });
     }
   }
-
-  private determineAssetType(symbol: string): string {
-    const cryptoSymbols = ["BTC", "ETH", "BNB", "SOL", "ADA", "DOGE", "XRP"];
-    const stockSymbols = ["AAPL", "GOOGL", "MSFT", "AMZN", "TSLA", "META", "NVDA"];
-
-    if (cryptoSymbols.includes(symbol.toUpperCase())) {
-      return "CRYPTO";
-    } else if (stockSymbols.includes(symbol.toUpperCase())) {
-      return "STOCK";
-    } else {
-      // Default to crypto for unknown symbols
-      return "CRYPTO";
-    }
-  }
-}
\ No newline at end of file
+}
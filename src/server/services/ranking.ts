@@ -9,6 +9,67 @@ interface RankingCriteria {
   consistency: number;
 }
 
+export interface LeaderboardEntry {
+  forecasterId: string;
+  rank: number;
+}
+
+export interface RankMovement {
+  forecasterId: string;
+  fromRank: number;
+  toRank: number;
+  // Positive means the forecaster moved up the leaderboard
+  change: number;
+}
+
+export interface LeaderboardDiff {
+  movements: RankMovement[];
+  entered: LeaderboardEntry[];
+  dropped: LeaderboardEntry[];
+}
+
+/**
+ * Truncate a timestamp to the UTC calendar day used as the snapshot key
+ */
+export function snapshotDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Compare two leaderboards: rank changes for forecasters on both,
+ * plus entrants and dropouts. Movements are sorted by biggest climb first.
+ */
+export function diffLeaderboards(from: LeaderboardEntry[], to: LeaderboardEntry[]): LeaderboardDiff {
+  const fromRanks = new Map(from.map(entry => [entry.forecasterId, entry.rank]));
+  const toIds = new Set(to.map(entry => entry.forecasterId));
+
+  const movements: RankMovement[] = [];
+  const entered: LeaderboardEntry[] = [];
+
+  for (const entry of to) {
+    const fromRank = fromRanks.get(entry.forecasterId);
+    if (fromRank === undefined) {
+      entered.push(entry);
+      continue;
+    }
+
+    movements.push({
+      forecasterId: entry.forecasterId,
+      fromRank,
+      toRank: entry.rank,
+      change: fromRank - entry.rank,
+    });
+  }
+
+  const dropped = from.filter(entry => !toIds.has(entry.forecasterId));
+
+  movements.sort((a, b) => b.change - a.change || a.toRank - b.toRank);
+  entered.sort((a, b) => a.rank - b.rank);
+  dropped.sort((a, b) => a.rank - b.rank);
+
+  return { movements, entered, dropped };
+}
+
 export class RankingService {
   constructor(private brierScoreService: BrierScoreService) {}
 
@@ -32,23 +93,68 @@ export class RankingService {
     // Sort by composite score
     rankings.sort((a, b) => b.score.composite - a.score.composite);
 
+    const rankedAt = new Date();
+    const snapshotDate = snapshotDay(rankedAt);
+
     // Update rankings in database
     for (let i = 0; i < rankings.length; i++) {
       const rank = i + 1;
       const ranking = rankings[i];
       if (!ranking) continue;
 
+      const metrics = await this.getMetrics(ranking.forecasterId);
+
       await prisma.forecaster.update({
         where: { id: ranking.forecasterId },
         data: {
           metrics: {
-            ...(await this.getMetrics(ranking.forecasterId)),
+            ...metrics,
             rank,
+            previousRank: metrics.rank ?? null,
             rankingScore: ranking.score.composite,
-            lastRanked: new Date().toISOString(),
+            lastRanked: rankedAt.toISOString(),
           },
         },
       });
+
+      // Re-running on the same day replaces that day's snapshot
+      const snapshot = {
+        rank,
+        rankingScore: ranking.score.composite,
+        accuracy: ranking.score.accuracy,
+        brierScore: ranking.score.raw.brierScore ?? null,
+        totalPredictions: ranking.score.raw.total,
+      };
+
+      await prisma.rankingSnapshot.upsert({
+        where: {
+          forecasterId_snapshotDate: {
+            forecasterId: ranking.forecasterId,
+            snapshotDate,
+          },
+        },
+        create: {
+          forecasterId: ranking.forecasterId,
+          snapshotDate,
+          ...snapshot,
+        },
+        update: snapshot,
+      });
+
+      if (metrics.rank !== rank) {
+        await prisma.event.create({
+          data: {
+            type: "RANKING_CHANGED",
+            entityType: "FORECASTER",
+            entityId: ranking.forecasterId,
+            data: {
+              rank,
+              previousRank: metrics.rank ?? null,
+              rankingScore: ranking.score.composite,
+            },
+          },
+        });
+      }
     }
 
     return rankings;
@@ -193,6 +299,63 @@ export class RankingService {
     }));
   }
 
+  /**
+   * Daily rank snapshots for a forecaster over the last `days` days, oldest first
+   */
+  async getRankHistory(forecasterId: string, days = 30) {
+    const since = snapshotDay(new Date());
+    since.setUTCDate(since.getUTCDate() - days);
+
+    return prisma.rankingSnapshot.findMany({
+      where: {
+        forecasterId,
+        snapshotDate: { gte: since },
+      },
+      orderBy: { snapshotDate: "asc" },
+    });
+  }
+
+  /**
+   * Leaderboard changes between the latest snapshots taken on or before each date
+   */
+  async getLeaderboardDiff(from: Date, to: Date) {
+    const [fromDate, toDate] = await Promise.all([
+      this.findSnapshotDate(from),
+      this.findSnapshotDate(to),
+    ]);
+
+    if (!fromDate || !toDate) {
+      return { fromDate, toDate, movements: [], entered: [], dropped: [] };
+    }
+
+    const [fromBoard, toBoard] = await Promise.all([
+      prisma.rankingSnapshot.findMany({
+        where: { snapshotDate: fromDate },
+        select: { forecasterId: true, rank: true },
+      }),
+      prisma.rankingSnapshot.findMany({
+        where: { snapshotDate: toDate },
+        select: { forecasterId: true, rank: true },
+      }),
+    ]);
+
+    return {
+      fromDate,
+      toDate,
+      ...diffLeaderboards(fromBoard, toBoard),
+    };
+  }
+
+  private async findSnapshotDate(onOrBefore: Date) {
+    const snapshot = await prisma.rankingSnapshot.findFirst({
+      where: { snapshotDate: { lte: snapshotDay(onOrBefore) } },
+      orderBy: { snapshotDate: "desc" },
+      select: { snapshotDate: true },
+    });
+
+    return snapshot?.snapshotDate ?? null;
+  }
+
   async getForecasterRank(forecasterId: string) {
     const forecaster = await prisma.forecaster.findUnique({
       where: { id: forecasterId },
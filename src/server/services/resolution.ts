@@ -0,0 +1,355 @@
+import { prisma } from "../db";
+import { candlePoints, RESOLUTION_MS, type CandleResolution } from "./candles";
+
+export type ResolutionOutcome = "CORRECT" | "INCORRECT" | "PENDING" | "PARTIALLY_CORRECT";
+
+/**
+ * TOUCH: the target counts as hit the first time the price path reaches it
+ * CLOSE: only the price at expiry (targetDate) is compared against the target
+ */
+export type TargetSemantics = "TOUCH" | "CLOSE";
+
+export type ResolutionRule =
+  | "TARGET_TOUCHED"
+  | "TARGET_NOT_TOUCHED"
+  | "TARGET_AT_EXPIRY"
+  | "DIRECTION_AT_EXPIRY"
+  | "INSUFFICIENT_DATA"
+  | "HORIZON_OPEN";
+
+export interface PricePoint {
+  price: number;
+  recordedAt: Date;
+  // Range of the candle this point closes, when it came from one
+  high?: number;
+  low?: number;
+  // Provider behind the point, e.g. "binance" or "yahoo:1d" for a daily candle
+  source?: string;
+}
+
+export interface ResolutionInput {
+  createdAt: Date;
+  targetDate: Date | null;
+  targetPrice: number | null;
+  baselinePrice: number | null;
+  direction: string | null;
+  semantics: TargetSemantics;
+}
+
+export interface ResolutionResult {
+  outcome: ResolutionOutcome;
+  rule: ResolutionRule;
+  semantics: TargetSemantics;
+  direction: "BULLISH" | "BEARISH" | "NEUTRAL";
+  baselinePrice: number | null;
+  baselineAt: string | null;
+  baselineSource: string | null;
+  resolvingPrice: number | null;
+  resolvingAt: string | null;
+  resolvingSource: string | null;
+  targetPrice: number | null;
+  changePercent: number | null;
+  horizonStart: string;
+  horizonEnd: string | null;
+  pointsEvaluated: number;
+  reason: string;
+}
+
+// Resolution tuning
+const TARGET_TOLERANCE = 0.05; // CLOSE targets within 5% count as hit
+export const DIRECTION_THRESHOLD_PERCENT = 1; // Minimum move for a directional call
+export const NEUTRAL_BAND_PERCENT = 2; // Same band extraction uses for NEUTRAL
+const BASELINE_MAX_LAG_MS = 24 * 60 * 60 * 1000; // First point must be within 1 day of createdAt
+const EXPIRY_MAX_STALENESS_MS = 3 * 24 * 60 * 60 * 1000; // Expiry close may be up to 3 days old
+
+const CLOSE_LANGUAGE = /\b(close|closes|closing|settle|settles|finish(?:es)?|end (?:the )?(?:day|week|month|quarter|year) (?:at|above|below))\b/i;
+
+/**
+ * Pick the target semantics for a prediction. An explicit
+ * metadata.resolution.semantics wins, then the wording of the prediction,
+ * then TOUCH for price targets and CLOSE for purely directional calls.
+ */
+export function inferTargetSemantics(
+  predictionText: string,
+  targetPrice: number | null,
+  metadata?: any
+): TargetSemantics {
+  const explicit = metadata?.resolution?.semantics ?? metadata?.targetSemantics;
+  if (explicit === "TOUCH" || explicit === "CLOSE") {
+    return explicit;
+  }
+
+  if (CLOSE_LANGUAGE.test(predictionText)) {
+    return "CLOSE";
+  }
+
+  return targetPrice ? "TOUCH" : "CLOSE";
+}
+
+/**
+ * Prices that count as hitting the target: the target itself for TOUCH,
+ * the tolerance either side of it for CLOSE
+ */
+export function targetBand(targetPrice: number, semantics: TargetSemantics): { low: number; high: number } {
+  const tolerance = semantics === "CLOSE" ? TARGET_TOLERANCE : 0;
+  return { low: targetPrice * (1 - tolerance), high: targetPrice * (1 + tolerance) };
+}
+
+function normalizeDirection(
+  direction: string | null,
+  targetPrice: number | null,
+  baselinePrice: number | null
+): "BULLISH" | "BEARISH" | "NEUTRAL" {
+  const normalized = (direction || "").toUpperCase();
+  if (normalized === "BULLISH" || normalized === "BEARISH") {
+    return normalized;
+  }
+
+  // Fall back to target vs baseline when the stored direction is missing
+  if (targetPrice && baselinePrice && normalized !== "NEUTRAL") {
+    return targetPrice > baselinePrice ? "BULLISH" : "BEARISH";
+  }
+
+  return "NEUTRAL";
+}
+
+/**
+ * Evaluate a prediction against the price path over its horizon.
+ * Pure function: `path` must be sorted by recordedAt ascending and may
+ * include points past targetDate (they are ignored).
+ */
+export function evaluatePrediction(
+  input: ResolutionInput,
+  path: PricePoint[],
+  now: Date = new Date()
+): ResolutionResult {
+  const horizonEnd = input.targetDate;
+  const horizonClosed = !!horizonEnd && horizonEnd.getTime() <= now.getTime();
+  const cutoff = horizonEnd && horizonEnd.getTime() < now.getTime() ? horizonEnd : now;
+
+  const inHorizon = path.filter(
+    point =>
+      point.recordedAt.getTime() >= input.createdAt.getTime() &&
+      point.recordedAt.getTime() <= cutoff.getTime()
+  );
+
+  // Baseline: stored price at creation, else the first point after createdAt
+  let baselinePrice = input.baselinePrice;
+  let baselineAt: Date | null = baselinePrice ? input.createdAt : null;
+  let baselineSource: string | null = null;
+  const firstPoint = inHorizon[0];
+  if (!baselinePrice && firstPoint &&
+      firstPoint.recordedAt.getTime() - input.createdAt.getTime() <= BASELINE_MAX_LAG_MS) {
+    baselinePrice = firstPoint.price;
+    baselineAt = firstPoint.recordedAt;
+    baselineSource = firstPoint.source ?? null;
+  }
+
+  const direction = normalizeDirection(input.direction, input.targetPrice, baselinePrice);
+
+  const result: ResolutionResult = {
+    outcome: "PENDING",
+    rule: "HORIZON_OPEN",
+    semantics: input.semantics,
+    direction,
+    baselinePrice,
+    baselineAt: baselineAt?.toISOString() ?? null,
+    baselineSource,
+    resolvingPrice: null,
+    resolvingAt: null,
+    resolvingSource: null,
+    targetPrice: input.targetPrice,
+    changePercent: null,
+    horizonStart: input.createdAt.toISOString(),
+    horizonEnd: horizonEnd?.toISOString() ?? null,
+    pointsEvaluated: inHorizon.length,
+    reason: "Prediction horizon has not ended",
+  };
+
+  const resolveWith = (
+    outcome: ResolutionOutcome,
+    rule: ResolutionRule,
+    point: PricePoint,
+    reason: string
+  ): ResolutionResult => ({
+    ...result,
+    outcome,
+    rule,
+    resolvingPrice: point.price,
+    resolvingAt: point.recordedAt.toISOString(),
+    resolvingSource: point.source ?? null,
+    changePercent: baselinePrice ? ((point.price - baselinePrice) / baselinePrice) * 100 : null,
+    reason,
+  });
+
+  // TOUCH targets can resolve as soon as the path reaches the target
+  if (input.semantics === "TOUCH" && input.targetPrice && direction !== "NEUTRAL") {
+    const target = input.targetPrice;
+    const touch = inHorizon.find(point =>
+      direction === "BULLISH" ? (point.high ?? point.price) >= target : (point.low ?? point.price) <= target
+    );
+
+    if (touch) {
+      return resolveWith("CORRECT", "TARGET_TOUCHED", touch, `Price reached target ${target} before expiry`);
+    }
+  }
+
+  if (!horizonEnd || !horizonClosed) {
+    return result;
+  }
+
+  // Everything else is judged on the close at expiry
+  const expiry = inHorizon[inHorizon.length - 1];
+  if (!expiry || !baselinePrice ||
+      horizonEnd.getTime() - expiry.recordedAt.getTime() > EXPIRY_MAX_STALENESS_MS) {
+    return {
+      ...result,
+      rule: "INSUFFICIENT_DATA",
+      reason: !baselinePrice
+        ? "No baseline price at prediction creation"
+        : "No price history close enough to the target date",
+    };
+  }
+
+  const changePercent = ((expiry.price - baselinePrice) / baselinePrice) * 100;
+  const movedInDirection =
+    (direction === "BULLISH" && changePercent > DIRECTION_THRESHOLD_PERCENT) ||
+    (direction === "BEARISH" && changePercent < -DIRECTION_THRESHOLD_PERCENT);
+
+  if (input.targetPrice) {
+    const target = input.targetPrice;
+
+    if (input.semantics === "TOUCH") {
+      return movedInDirection
+        ? resolveWith("PARTIALLY_CORRECT", "TARGET_NOT_TOUCHED", expiry, `Target ${target} never touched, but price moved ${changePercent.toFixed(2)}% in the predicted direction`)
+        : resolveWith("INCORRECT", "TARGET_NOT_TOUCHED", expiry, `Target ${target} never touched before expiry`);
+    }
+
+    const beyondTarget =
+      (direction === "BULLISH" && expiry.price >= target) ||
+      (direction === "BEARISH" && expiry.price <= target);
+
+    if (beyondTarget || Math.abs(expiry.price - target) <= target * TARGET_TOLERANCE) {
+      return resolveWith("CORRECT", "TARGET_AT_EXPIRY", expiry, `Closed at ${expiry.price} against target ${target}`);
+    }
+
+    return movedInDirection
+      ? resolveWith("PARTIALLY_CORRECT", "TARGET_AT_EXPIRY", expiry, `Closed at ${expiry.price}, short of target ${target} but in the predicted direction`)
+      : resolveWith("INCORRECT", "TARGET_AT_EXPIRY", expiry, `Closed at ${expiry.price} against target ${target}`);
+  }
+
+  // Directional prediction without a price target
+  if (direction === "NEUTRAL") {
+    return Math.abs(changePercent) < NEUTRAL_BAND_PERCENT
+      ? resolveWith("CORRECT", "DIRECTION_AT_EXPIRY", expiry, `Price stayed within ±${NEUTRAL_BAND_PERCENT}% (${changePercent.toFixed(2)}%)`)
+      : resolveWith("INCORRECT", "DIRECTION_AT_EXPIRY", expiry, `Price moved ${changePercent.toFixed(2)}% against a neutral call`);
+  }
+
+  if (movedInDirection) {
+    return resolveWith("CORRECT", "DIRECTION_AT_EXPIRY", expiry, `Price moved ${changePercent.toFixed(2)}% in the predicted direction`);
+  }
+
+  if (Math.abs(changePercent) <= DIRECTION_THRESHOLD_PERCENT) {
+    return resolveWith("PARTIALLY_CORRECT", "DIRECTION_AT_EXPIRY", expiry, `Price was flat (${changePercent.toFixed(2)}%)`);
+  }
+
+  return resolveWith("INCORRECT", "DIRECTION_AT_EXPIRY", expiry, `Price moved ${changePercent.toFixed(2)}% against the predicted direction`);
+}
+
+export class PredictionResolutionEngine {
+  /**
+   * Resolve a prediction against its stored PriceHistory.
+   * Returns a PENDING result when the horizon is still open or data is missing.
+   */
+  async resolve(prediction: {
+    assetId: string | null;
+    prediction: string;
+    createdAt: Date;
+    targetDate: Date | null;
+    targetPrice: unknown;
+    baselinePrice: unknown;
+    direction: string | null;
+    metadata: unknown;
+  }, now: Date = new Date()): Promise<ResolutionResult> {
+    const targetPrice = prediction.targetPrice != null ? Number(prediction.targetPrice) : null;
+    const baselinePrice = prediction.baselinePrice != null ? Number(prediction.baselinePrice) : null;
+
+    const input: ResolutionInput = {
+      createdAt: prediction.createdAt,
+      targetDate: prediction.targetDate,
+      targetPrice: targetPrice || null,
+      baselinePrice: baselinePrice || null,
+      direction: prediction.direction,
+      semantics: inferTargetSemantics(prediction.prediction, targetPrice, prediction.metadata),
+    };
+
+    const path = prediction.assetId
+      ? await this.loadPricePath(prediction.assetId, prediction.createdAt, prediction.targetDate ?? now)
+      : [];
+
+    return evaluatePrediction(input, path, now);
+  }
+
+  /**
+   * Stored ticks merged with backfilled candles. Hourly candles fill in
+   * between ticks, daily candles only where there is no hourly coverage.
+   */
+  private async loadPricePath(assetId: string, from: Date, to: Date): Promise<PricePoint[]> {
+    const [history, candles] = await Promise.all([
+      prisma.priceHistory.findMany({
+        where: {
+          assetId,
+          recordedAt: { gte: from, lte: to },
+        },
+        orderBy: { recordedAt: "asc" },
+        select: { price: true, recordedAt: true, source: true },
+      }),
+      prisma.priceCandle.findMany({
+        where: {
+          assetId,
+          openTime: { gte: new Date(from.getTime() - RESOLUTION_MS["1d"]), lte: to },
+        },
+        orderBy: { openTime: "asc" },
+      }),
+    ]);
+
+    const byResolution = (resolution: CandleResolution): PricePoint[] => {
+      const matching = candles.filter(c => c.resolution === resolution);
+
+      return candlePoints(
+        matching.map(c => ({
+          openTime: c.openTime,
+          open: Number(c.open),
+          high: Number(c.high),
+          low: Number(c.low),
+          close: Number(c.close),
+          volume: null,
+        })),
+        resolution
+      ).map((point, i) => {
+        const source = `${matching[i]!.source}:${resolution}`;
+        // A candle that opened before the prediction may have printed its extremes before it too
+        const openedAt = point.recordedAt.getTime() - RESOLUTION_MS[resolution];
+        return openedAt < from.getTime() ? { price: point.price, recordedAt: point.recordedAt, source } : { ...point, source };
+      });
+    };
+
+    const hourly = byResolution("1h");
+    const hourlyDays = new Set(hourly.map(point => Math.floor((point.recordedAt.getTime() - 1) / RESOLUTION_MS["1d"])));
+    const daily = byResolution("1d").filter(
+      point => !hourlyDays.has(Math.floor((point.recordedAt.getTime() - 1) / RESOLUTION_MS["1d"]))
+    );
+
+    return [
+      ...history.map(h => ({
+        price: Number(h.price),
+        recordedAt: h.recordedAt,
+        source: h.source,
+      })),
+      ...hourly,
+      ...daily,
+    ]
+      .filter(point => point.recordedAt.getTime() <= to.getTime())
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+}
@@ -0,0 +1,402 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { predictionProvenance, UnifiedExtractionService, type UnifiedPrediction } from "./extraction";
+import type { GoldenCase, GoldenPrediction } from "./extractionEval";
+
+export const REVIEW_STATUSES = ["PENDING", "APPROVED", "REJECTED"] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export interface ReviewSource {
+  type: string | null;
+  url: string | null;
+}
+
+export interface EnqueueReviewOptions {
+  forecasterId: string;
+  contentId?: string | null;
+  source: ReviewSource;
+}
+
+/**
+ * Reviewer corrections, applied to the candidate on approval
+ */
+export interface ReviewEdits {
+  assetSymbol?: string;
+  assetType?: UnifiedPrediction["asset"]["type"];
+  direction?: UnifiedPrediction["prediction"]["direction"];
+  targetPrice?: number | null;
+  // YYYY-MM-DD
+  targetDate?: string | null;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ReviewListOptions {
+  status?: ReviewStatus;
+  page?: number;
+  limit?: number;
+}
+
+// Characters of transcript shown either side of the quote
+const EXCERPT_CONTEXT = 300;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Character range of the quote in the transcript. The model's
+ * positionInTranscript is only a hint: it is used when it points at the quote,
+ * otherwise the quote is searched for.
+ */
+export function locateQuote(
+  transcript: string,
+  quote: string,
+  hint?: { start: number; end: number }
+): { start: number; end: number } | null {
+  if (hint && hint.start >= 0 && hint.end > hint.start && hint.end <= transcript.length) {
+    const slice = normalize(transcript.slice(hint.start, hint.end));
+    if (!quote || slice.includes(normalize(quote).slice(0, 40))) return hint;
+  }
+
+  if (!quote) return null;
+
+  // Search on a whitespace-collapsed copy, then map back to the original offsets
+  const offsets: number[] = [];
+  let collapsed = "";
+  for (let i = 0; i < transcript.length; i++) {
+    const char = transcript[i]!;
+    if (/\s/.test(char) && collapsed.endsWith(" ")) continue;
+    collapsed += /\s/.test(char) ? " " : char.toLowerCase();
+    offsets.push(i);
+  }
+
+  const needle = normalize(quote).trim();
+  const index = collapsed.indexOf(needle);
+  if (index < 0) return null;
+
+  return { start: offsets[index]!, end: offsets[index + needle.length - 1]! + 1 };
+}
+
+/**
+ * Seconds into the video at a transcript offset, from timed transcript segments
+ */
+export function timestampAt(transcript: string, segments: TranscriptSegment[] | undefined, offset: number): number | null {
+  if (!segments?.length) return null;
+
+  const haystack = transcript.toLowerCase();
+  let cursor = 0;
+
+  for (const segment of segments) {
+    const index = haystack.indexOf(segment.text.toLowerCase(), cursor);
+    if (index < 0) continue;
+
+    cursor = index + segment.text.length;
+    if (offset < cursor) return segment.start;
+  }
+
+  return null;
+}
+
+/**
+ * Source URL that opens the video at the given second, where the host supports it
+ */
+export function videoLink(url: string | null, seconds: number | null): string | null {
+  if (!url || seconds === null) return url;
+
+  try {
+    const parsed = new URL(url);
+    if (!/(^|\.)(youtube\.com|youtu\.be)$/.test(parsed.hostname)) return url;
+    parsed.searchParams.set("t", `${Math.floor(seconds)}s`);
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+export function applyEdits(candidate: UnifiedPrediction, edits?: ReviewEdits | null): UnifiedPrediction {
+  if (!edits) return candidate;
+
+  return {
+    ...candidate,
+    asset: {
+      ...candidate.asset,
+      ...(edits.assetSymbol && { symbol: edits.assetSymbol.toUpperCase() }),
+      ...(edits.assetType && { type: edits.assetType }),
+    },
+    prediction: {
+      ...candidate.prediction,
+      ...(edits.direction && { direction: edits.direction }),
+      ...(edits.targetPrice !== undefined && { targetPrice: edits.targetPrice ?? undefined }),
+      ...(edits.targetDate !== undefined && {
+        targetDate: edits.targetDate ?? undefined,
+        timeframeResolution: candidate.prediction.timeframeResolution && {
+          ...candidate.prediction.timeframeResolution,
+          status: edits.targetDate ? "RESOLVED" : "UNRESOLVABLE",
+          targetDate: edits.targetDate,
+          source: "reviewer",
+        },
+      }),
+    },
+  };
+}
+
+function toGoldenPrediction(candidate: UnifiedPrediction): GoldenPrediction {
+  return {
+    asset: candidate.asset.symbol,
+    direction: candidate.prediction.direction,
+    ...(candidate.prediction.targetPrice !== undefined && { targetPrice: candidate.prediction.targetPrice }),
+    ...(candidate.prediction.targetDate && { targetDate: candidate.prediction.targetDate }),
+  };
+}
+
+/**
+ * Holds borderline extractions for an admin to approve, correct or reject.
+ * Approved items become predictions through the normal storage path;
+ * every decision is logged as an Event and can be exported as draft
+ * golden-set cases for the extraction eval.
+ */
+export class ReviewQueueService {
+  async enqueue(predictions: UnifiedPrediction[], options: EnqueueReviewOptions): Promise<number> {
+    if (predictions.length === 0) return 0;
+
+    const { count } = await prisma.predictionReview.createMany({
+      data: predictions.map(candidate => ({
+        forecasterId: options.forecasterId,
+        contentId: options.contentId ?? null,
+        candidate: candidate as unknown as Prisma.InputJsonValue,
+        source: { type: options.source.type, url: options.source.url },
+        qualityScore: candidate.metadata.qualityScore ?? 0,
+        reason: `quality score ${candidate.metadata.qualityScore ?? 0} below ${UnifiedExtractionService.MIN_QUALITY_SCORE}`,
+      })),
+    });
+
+    console.log(`[ReviewQueue] Queued ${count} predictions for review`);
+    return count;
+  }
+
+  async list(options: ReviewListOptions = {}) {
+    const { status = "PENDING", page = 1, limit = 20 } = options;
+    const where = { status };
+
+    const [reviews, total, grouped] = await Promise.all([
+      prisma.predictionReview.findMany({
+        where,
+        orderBy: { createdAt: status === "PENDING" ? "asc" : "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          forecaster: { select: { id: true, name: true, slug: true } },
+          content: { select: { id: true, sourceId: true, data: true } },
+        },
+      }),
+      prisma.predictionReview.count({ where }),
+      prisma.predictionReview.groupBy({ by: ["status"], _count: { _all: true } }),
+    ]);
+
+    const counts = Object.fromEntries(REVIEW_STATUSES.map(s => [s, 0])) as Record<ReviewStatus, number>;
+    for (const row of grouped) {
+      counts[row.status as ReviewStatus] = row._count._all;
+    }
+
+    return {
+      items: reviews.map(review => {
+        const candidate = review.candidate as unknown as UnifiedPrediction;
+        const source = review.source as unknown as ReviewSource;
+        const data = (review.content?.data ?? {}) as Record<string, any>;
+        const transcript: string = data.transcript || data.text || "";
+
+        const position = transcript
+          ? locateQuote(transcript, candidate.context.exactQuote, candidate.context.positionInTranscript)
+          : null;
+        const timestampSeconds = position
+          ? timestampAt(transcript, data.transcriptSegments as TranscriptSegment[] | undefined, position.start)
+          : null;
+
+        return {
+          id: review.id,
+          status: review.status as ReviewStatus,
+          qualityScore: review.qualityScore,
+          reason: review.reason,
+          createdAt: review.createdAt,
+          reviewedAt: review.reviewedAt,
+          notes: review.notes,
+          edits: review.edits as ReviewEdits | null,
+          predictionId: review.predictionId,
+          forecaster: review.forecaster,
+          contentId: review.contentId,
+          contentTitle: (data.title as string | null) ?? null,
+          candidate,
+          position,
+          excerpt: position
+            ? {
+                before: transcript.slice(Math.max(0, position.start - EXCERPT_CONTEXT), position.start),
+                quote: transcript.slice(position.start, position.end),
+                after: transcript.slice(position.end, position.end + EXCERPT_CONTEXT),
+              }
+            : null,
+          timestampSeconds,
+          sourceUrl: videoLink(source?.url ?? null, timestampSeconds),
+        };
+      }),
+      total,
+      pages: Math.ceil(total / limit),
+      counts,
+    };
+  }
+
+  /**
+   * Approve a queued prediction, optionally corrected, and store it
+   */
+  async approve(id: string, userId: string, edits?: ReviewEdits) {
+    const review = await prisma.predictionReview.findUnique({ where: { id } });
+    if (!review) {
+      throw new Error("Review item not found");
+    }
+
+    // Claim the item so two reviewers can't both approve it
+    const claimed = await prisma.predictionReview.updateMany({
+      where: { id, status: "PENDING" },
+      data: {
+        status: "APPROVED",
+        reviewedById: userId,
+        reviewedAt: new Date(),
+        edits: edits ? (edits as Prisma.InputJsonValue) : Prisma.DbNull,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new Error(`Review item was already ${review.status.toLowerCase()}`);
+    }
+
+    const candidate = applyEdits(review.candidate as unknown as UnifiedPrediction, edits);
+    const source = review.source as unknown as ReviewSource;
+
+    const [predictionId] = await new UnifiedExtractionService().storePredictions(
+      [
+        {
+          prediction: candidate.prediction.text,
+          confidence: candidate.prediction.confidence / 100,
+          targetDate: candidate.prediction.targetDate ? new Date(candidate.prediction.targetDate) : null,
+          targetPrice: candidate.prediction.targetPrice,
+          assetSymbol: candidate.asset.symbol,
+          assetType: candidate.asset.type,
+          reasoning: candidate.context.reasoning,
+          tags: candidate.context.technicalIndicators || [],
+          aiDirection: candidate.prediction.direction?.toUpperCase() || "NEUTRAL",
+          sourceType: source?.type,
+          sourceUrl: source?.url,
+          provenance: { ...predictionProvenance(candidate, review.contentId ?? undefined), reviewId: review.id },
+        },
+      ],
+      review.forecasterId
+    );
+
+    if (!predictionId) {
+      await prisma.predictionReview.update({
+        where: { id },
+        data: { status: "PENDING", reviewedById: null, reviewedAt: null, edits: Prisma.DbNull },
+      });
+      throw new Error("Failed to store the approved prediction");
+    }
+
+    await prisma.predictionReview.update({ where: { id }, data: { predictionId } });
+
+    await prisma.event.create({
+      data: {
+        type: "PREDICTION_REVIEW_APPROVED",
+        entityType: "PREDICTION_REVIEW",
+        entityId: id,
+        userId,
+        data: {
+          predictionId,
+          contentId: review.contentId,
+          qualityScore: review.qualityScore,
+          edited: !!edits,
+          ...(edits && { edits: edits as Prisma.InputJsonValue }),
+        },
+      },
+    });
+
+    return { predictionId };
+  }
+
+  async reject(id: string, userId: string, notes?: string) {
+    const review = await prisma.predictionReview.findUnique({ where: { id } });
+    if (!review) {
+      throw new Error("Review item not found");
+    }
+
+    const claimed = await prisma.predictionReview.updateMany({
+      where: { id, status: "PENDING" },
+      data: { status: "REJECTED", reviewedById: userId, reviewedAt: new Date(), notes: notes ?? null },
+    });
+    if (claimed.count === 0) {
+      throw new Error(`Review item was already ${review.status.toLowerCase()}`);
+    }
+
+    const candidate = review.candidate as unknown as UnifiedPrediction;
+
+    await prisma.event.create({
+      data: {
+        type: "PREDICTION_REVIEW_REJECTED",
+        entityType: "PREDICTION_REVIEW",
+        entityId: id,
+        userId,
+        data: {
+          contentId: review.contentId,
+          qualityScore: review.qualityScore,
+          asset: candidate.asset?.symbol ?? null,
+          notes: notes ?? null,
+        },
+      },
+    });
+  }
+
+  /**
+   * Draft golden-set cases from reviewed content. Only reviewed predictions
+   * are annotated, so each case needs checking against its transcript
+   * before it joins a golden set.
+   */
+  async goldenCases(): Promise<GoldenCase[]> {
+    const reviews = await prisma.predictionReview.findMany({
+      where: { status: { in: ["APPROVED", "REJECTED"] }, contentId: { not: null } },
+      orderBy: { createdAt: "asc" },
+      include: { content: { select: { id: true, sourceId: true, data: true, createdAt: true } } },
+    });
+
+    const cases = new Map<string, GoldenCase>();
+
+    for (const review of reviews) {
+      if (!review.content) continue;
+
+      const data = (review.content.data ?? {}) as Record<string, any>;
+      const transcript: string = data.transcript || data.text || "";
+      if (!transcript) continue;
+
+      const goldenCase: GoldenCase = cases.get(review.content.id) ?? {
+        id: `review-${review.content.id}`,
+        title: data.title || review.content.sourceId,
+        publishedAt: new Date(data.publishedAt ?? review.content.createdAt).toISOString().slice(0, 10),
+        transcript,
+        expected: [],
+        rejected: [],
+        notes: "Drafted from review decisions; predictions that skipped review are not annotated.",
+      };
+      cases.set(review.content.id, goldenCase);
+
+      const candidate = applyEdits(review.candidate as unknown as UnifiedPrediction, review.edits as ReviewEdits | null);
+      if (review.status === "APPROVED") {
+        goldenCase.expected.push(toGoldenPrediction(candidate));
+      } else {
+        goldenCase.rejected!.push(toGoldenPrediction(candidate));
+      }
+    }
+
+    return [...cases.values()];
+  }
+}
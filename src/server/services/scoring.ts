@@ -0,0 +1,166 @@
+/**
+ * Probabilistic scoring helpers shared by BrierScoreService and rankings.
+ * Everything here is pure so it can be unit tested without a database.
+ */
+
+export type NormalizedOutcome = "CORRECT" | "INCORRECT" | "PARTIALLY_CORRECT" | "PENDING";
+
+export type DirectionCategory = "BULLISH" | "BEARISH" | "NEUTRAL";
+
+export const DIRECTION_CATEGORIES: DirectionCategory[] = ["BULLISH", "BEARISH", "NEUTRAL"];
+
+export interface ScoringOptions {
+  partialCredit: number; // Outcome value credited for PARTIALLY_CORRECT (0-1)
+  bins: number; // Number of forecast-probability bins for the decomposition
+}
+
+export const DEFAULT_SCORING_OPTIONS: ScoringOptions = {
+  partialCredit: 0.5,
+  bins: 10,
+};
+
+export interface BinaryForecast {
+  probability: number; // Forecast probability the prediction comes true (0-1)
+  outcome: number; // Realised outcome value (0-1, fractional for partial credit)
+}
+
+export interface MurphyDecomposition {
+  brierScore: number;
+  reliability: number;
+  resolution: number;
+  uncertainty: number;
+  baseRate: number;
+  sampleSize: number;
+}
+
+const OUTCOME_ALIASES: Record<string, NormalizedOutcome> = {
+  CORRECT: "CORRECT",
+  INCORRECT: "INCORRECT",
+  WRONG: "INCORRECT",
+  PARTIAL: "PARTIALLY_CORRECT",
+  PARTIALLY_CORRECT: "PARTIALLY_CORRECT",
+  PARTIALLYCORRECT: "PARTIALLY_CORRECT",
+  PENDING: "PENDING",
+};
+
+/**
+ * Map the outcome spellings found in the database onto one vocabulary.
+ * Unknown values are treated as PENDING so they never count as scored.
+ */
+export function normalizeOutcome(outcome: string | null | undefined): NormalizedOutcome {
+  const key = (outcome || "").toUpperCase().replace(/[\s-]/g, "_");
+  return OUTCOME_ALIASES[key] ?? OUTCOME_ALIASES[key.replace(/_/g, "")] ?? "PENDING";
+}
+
+/**
+ * Numeric outcome value used in Brier terms: 1 for CORRECT, 0 for
+ * INCORRECT, `partialCredit` for PARTIALLY_CORRECT, null when unresolved.
+ */
+export function outcomeValue(
+  outcome: string | null | undefined,
+  partialCredit: number = DEFAULT_SCORING_OPTIONS.partialCredit
+): number | null {
+  switch (normalizeOutcome(outcome)) {
+    case "CORRECT":
+      return 1;
+    case "INCORRECT":
+      return 0;
+    case "PARTIALLY_CORRECT":
+      return Math.min(1, Math.max(0, partialCredit));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Brier Score = (1/N) * Σ(forecast_probability - actual_outcome)²
+ */
+export function brierScore(forecasts: BinaryForecast[]): number | null {
+  if (forecasts.length === 0) return null;
+
+  const total = forecasts.reduce(
+    (sum, f) => sum + Math.pow(f.probability - f.outcome, 2),
+    0
+  );
+
+  return total / forecasts.length;
+}
+
+/**
+ * Multi-category Brier score for a single forecast:
+ * Σ_k (p_k - o_k)² over all categories, where o_k is 1 for the realised category.
+ * Ranges from 0 (perfect) to 2 (certain and wrong).
+ */
+export function multiCategoryBrierScore(
+  probabilities: Partial<Record<string, number>>,
+  realised: string,
+  categories: string[] = DIRECTION_CATEGORIES
+): number {
+  return categories.reduce((sum, category) => {
+    const p = probabilities[category] ?? 0;
+    const o = category === realised ? 1 : 0;
+    return sum + Math.pow(p - o, 2);
+  }, 0);
+}
+
+/**
+ * Spread a directional call with confidence `c` over the three direction
+ * categories: `c` on the called direction, the remainder split evenly.
+ */
+export function directionalProbabilities(
+  direction: string | null | undefined,
+  confidence: number
+): Record<DirectionCategory, number> {
+  const called = (direction || "NEUTRAL").toUpperCase() as DirectionCategory;
+  const p = Math.min(1, Math.max(0, confidence));
+  const rest = (1 - p) / (DIRECTION_CATEGORIES.length - 1);
+
+  return DIRECTION_CATEGORIES.reduce((acc, category) => {
+    acc[category] = category === called ? p : rest;
+    return acc;
+  }, {} as Record<DirectionCategory, number>);
+}
+
+/**
+ * Murphy (1973) decomposition: BS ≈ reliability - resolution + uncertainty.
+ * Forecasts are grouped into `bins` equal-width probability bins, so the
+ * identity is exact only when every forecast in a bin shares one probability.
+ */
+export function murphyDecomposition(
+  forecasts: BinaryForecast[],
+  bins: number = DEFAULT_SCORING_OPTIONS.bins
+): MurphyDecomposition | null {
+  const n = forecasts.length;
+  if (n === 0) return null;
+
+  const baseRate = forecasts.reduce((sum, f) => sum + f.outcome, 0) / n;
+  const groups = new Map<number, { count: number; probabilitySum: number; outcomeSum: number }>();
+
+  for (const forecast of forecasts) {
+    const bin = Math.min(bins - 1, Math.floor(forecast.probability * bins));
+    const group = groups.get(bin) ?? { count: 0, probabilitySum: 0, outcomeSum: 0 };
+    group.count++;
+    group.probabilitySum += forecast.probability;
+    group.outcomeSum += forecast.outcome;
+    groups.set(bin, group);
+  }
+
+  let reliability = 0;
+  let resolution = 0;
+
+  for (const group of groups.values()) {
+    const meanProbability = group.probabilitySum / group.count;
+    const observedFrequency = group.outcomeSum / group.count;
+    reliability += group.count * Math.pow(meanProbability - observedFrequency, 2);
+    resolution += group.count * Math.pow(observedFrequency - baseRate, 2);
+  }
+
+  return {
+    brierScore: brierScore(forecasts) ?? 0,
+    reliability: reliability / n,
+    resolution: resolution / n,
+    uncertainty: baseRate * (1 - baseRate),
+    baseRate,
+    sampleSize: n,
+  };
+}
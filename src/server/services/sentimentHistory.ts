@@ -0,0 +1,330 @@
+import axios from "axios";
+import { type Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import {
+  FEAR_GREED_API_URL,
+  MARKET_CONTEXT,
+  mapScoreToMarketContext,
+  type FearGreedResponse,
+  type MarketContext,
+} from "./marketSentiment";
+import fearGreedFixture from "./fixtures/fear-greed-history.json";
+
+export const SENTIMENT_SYNC_JOB = "SYNC_MARKET_SENTIMENT";
+
+export type SentimentSource = "alternative.me" | "fixture";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A reading stands in for the days after it until the next one; past this the regime is unknown
+const MAX_STALE_DAYS = 3;
+const TAG_BATCH_SIZE = 500;
+
+export interface SentimentReading {
+  day: Date;
+  score: number;
+  classification: string;
+  regime: MarketContext;
+}
+
+export interface SentimentBackfillOptions {
+  // Most recent days to fetch; omit for the full history
+  days?: number;
+  // Skip the API and load the bundled fixture (offline development)
+  source?: SentimentSource;
+}
+
+export interface SentimentBackfillResult {
+  source: SentimentSource;
+  fetched: number;
+  stored: number;
+  from: Date | null;
+  to: Date | null;
+}
+
+export interface RegimeAccuracy {
+  regime: MarketContext;
+  total: number;
+  correct: number;
+  partiallyCorrect: number;
+  incorrect: number;
+  pending: number;
+  // Percent of resolved calls that were at least partially correct; null until one resolves
+  accuracy: number | null;
+}
+
+const REGIMES = Object.values(MARKET_CONTEXT);
+
+export function utcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Readings from an alternative.me /fng/ response, newest first, one per UTC
+ * day. Entries with an unusable score or timestamp are dropped.
+ */
+export function parseFearGreedHistory(response: FearGreedResponse): SentimentReading[] {
+  const byDay = new Map<number, SentimentReading>();
+
+  for (const entry of response.data ?? []) {
+    const score = Number(entry.value);
+    const timestamp = Number(entry.timestamp);
+    if (!Number.isFinite(score) || score < 0 || score > 100 || !Number.isFinite(timestamp)) continue;
+
+    const day = utcDay(new Date(timestamp * 1000));
+    if (byDay.has(day.getTime())) continue;
+
+    byDay.set(day.getTime(), {
+      day,
+      score: Math.round(score),
+      classification: entry.value_classification,
+      regime: mapScoreToMarketContext(score),
+    });
+  }
+
+  return [...byDay.values()].sort((a, b) => b.day.getTime() - a.day.getTime());
+}
+
+/**
+ * The latest reading on or before a day, within MAX_STALE_DAYS. Readings
+ * are keyed by UTC day start.
+ */
+export function readingOn<T>(readings: Map<number, T>, at: Date): T | null {
+  const day = utcDay(at).getTime();
+
+  for (let back = 0; back <= MAX_STALE_DAYS; back++) {
+    const reading = readings.get(day - back * DAY_MS);
+    if (reading) return reading;
+  }
+
+  return null;
+}
+
+/**
+ * Outcome counts per regime, fear to greed; partially correct calls count
+ * toward accuracy as they do elsewhere on the site
+ */
+export function summarizeByRegime(rows: Array<{ regime: string; outcome: string; count: number }>): RegimeAccuracy[] {
+  return REGIMES.map(regime => {
+    const count = (outcome: string) =>
+      rows.filter(row => row.regime === regime && row.outcome === outcome).reduce((sum, row) => sum + row.count, 0);
+
+    const correct = count("CORRECT");
+    const partiallyCorrect = count("PARTIALLY_CORRECT");
+    const incorrect = count("INCORRECT");
+    const pending = count("PENDING");
+    const resolved = correct + partiallyCorrect + incorrect;
+
+    return {
+      regime,
+      total: resolved + pending,
+      correct,
+      partiallyCorrect,
+      incorrect,
+      pending,
+      accuracy: resolved > 0 ? Math.round(((correct + partiallyCorrect) / resolved) * 1000) / 10 : null,
+    };
+  });
+}
+
+/**
+ * Daily Fear & Greed series, persisted so a prediction can be judged against
+ * the regime it was made in rather than today's
+ */
+export class SentimentHistoryService {
+  /**
+   * Store the daily series from the API's history endpoint, falling back to
+   * the bundled fixture when the API is unreachable. API readings replace
+   * whatever is stored for their day; fixture readings only fill empty days.
+   */
+  async backfill(options: SentimentBackfillOptions = {}): Promise<SentimentBackfillResult> {
+    let source: SentimentSource = options.source ?? "alternative.me";
+    let readings: SentimentReading[] | null = null;
+
+    if (source === "alternative.me") {
+      try {
+        const response = await axios.get<FearGreedResponse>(FEAR_GREED_API_URL, {
+          // limit=0 returns the full history
+          params: { limit: options.days ?? 0, format: "json" },
+          timeout: 15000,
+          headers: { "User-Agent": "Prediction-Prism-Analytics/1.0" },
+        });
+        readings = parseFearGreedHistory(response.data);
+      } catch (error) {
+        console.warn("⚠️ [SentimentHistory] Fear & Greed history unavailable, using the fixture:", error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (!readings) {
+      source = "fixture";
+      readings = parseFearGreedHistory(fearGreedFixture);
+      if (options.days) readings = readings.slice(0, options.days);
+    }
+
+    const data = readings.map(reading => ({ ...reading, source }));
+    let stored: number;
+
+    if (source === "fixture") {
+      ({ count: stored } = await prisma.marketSentimentDay.createMany({ data, skipDuplicates: true }));
+    } else {
+      const [, created] = await prisma.$transaction([
+        prisma.marketSentimentDay.deleteMany({ where: { day: { in: readings.map(r => r.day) } } }),
+        prisma.marketSentimentDay.createMany({ data }),
+      ]);
+      stored = created.count;
+    }
+
+    const result: SentimentBackfillResult = {
+      source,
+      fetched: readings.length,
+      stored,
+      from: readings[readings.length - 1]?.day ?? null,
+      to: readings[0]?.day ?? null,
+    };
+
+    console.log(`[SentimentHistory] ${result.stored} of ${result.fetched} daily readings stored from ${source}`);
+
+    return result;
+  }
+
+  /**
+   * Job handler: fetch the days since the last stored reading (everything
+   * on first run), then tag predictions that were made before it existed
+   */
+  async sync(): Promise<SentimentBackfillResult & { tagged: number }> {
+    const latest = await prisma.marketSentimentDay.findFirst({
+      where: { source: "alternative.me" },
+      orderBy: { day: "desc" },
+      select: { day: true },
+    });
+    // Re-fetch a couple of days so a late or corrected reading lands
+    const days = latest ? Math.max(2, Math.ceil((Date.now() - latest.day.getTime()) / DAY_MS) + 2) : undefined;
+
+    const result = await this.backfill({ days });
+    const tagged = await this.tagPredictions();
+
+    return { ...result, tagged };
+  }
+
+  /**
+   * The stored reading for the day of a moment, or the last one before it
+   */
+  async readingAt(at: Date): Promise<SentimentReading | null> {
+    const day = utcDay(at);
+    const reading = await prisma.marketSentimentDay.findFirst({
+      where: { day: { lte: day, gte: new Date(day.getTime() - MAX_STALE_DAYS * DAY_MS) } },
+      orderBy: { day: "desc" },
+    });
+
+    return reading
+      ? { day: reading.day, score: reading.score, classification: reading.classification, regime: reading.regime as MarketContext }
+      : null;
+  }
+
+  /**
+   * Give predictions without a regime the one on the day they were made.
+   * Those outside the stored series stay untagged for a later run.
+   */
+  async tagPredictions(batchSize = TAG_BATCH_SIZE): Promise<number> {
+    let tagged = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await prisma.prediction.findMany({
+        // Tagged rows drop out of the filter, so page by id
+        where: { marketRegime: null, ...(cursor && { id: { gt: cursor } }) },
+        orderBy: { id: "asc" },
+        select: { id: true, createdAt: true },
+        take: batchSize,
+      });
+      if (batch.length === 0) break;
+      cursor = batch[batch.length - 1]!.id;
+
+      const times = batch.map(p => p.createdAt.getTime());
+      const series = await prisma.marketSentimentDay.findMany({
+        where: {
+          day: {
+            gte: new Date(utcDay(new Date(Math.min(...times))).getTime() - MAX_STALE_DAYS * DAY_MS),
+            lte: utcDay(new Date(Math.max(...times))),
+          },
+        },
+        select: { day: true, score: true, regime: true },
+      });
+      const byDay = new Map(series.map(s => [s.day.getTime(), s]));
+
+      // One update per distinct reading rather than per prediction
+      const groups = new Map<string, { regime: string; score: number; ids: string[] }>();
+      for (const prediction of batch) {
+        const reading = readingOn(byDay, prediction.createdAt);
+        if (!reading) continue;
+
+        const key = `${reading.regime}:${reading.score}`;
+        const group = groups.get(key) ?? { regime: reading.regime, score: reading.score, ids: [] };
+        group.ids.push(prediction.id);
+        groups.set(key, group);
+      }
+
+      for (const group of groups.values()) {
+        const { count } = await prisma.prediction.updateMany({
+          where: { id: { in: group.ids } },
+          data: { marketRegime: group.regime, sentimentScore: group.score },
+        });
+        tagged += count;
+      }
+
+      if (batch.length < batchSize) break;
+    }
+
+    if (tagged > 0) {
+      console.log(`[SentimentHistory] Tagged ${tagged} predictions with their market regime`);
+    }
+
+    return tagged;
+  }
+
+  /**
+   * Daily readings for [from, to], oldest first
+   */
+  async getSeries(from: Date, to: Date = new Date()) {
+    return prisma.marketSentimentDay.findMany({
+      where: { day: { gte: utcDay(from), lte: utcDay(to) } },
+      orderBy: { day: "asc" },
+      select: { day: true, score: true, classification: true, regime: true, source: true },
+    });
+  }
+
+  /**
+   * Outcome counts and accuracy per regime, fear to greed, for the matching
+   * predictions
+   */
+  async accuracyByRegime(where: Prisma.PredictionWhereInput = {}): Promise<RegimeAccuracy[]> {
+    const rows = await prisma.prediction.groupBy({
+      by: ["marketRegime", "outcome"],
+      where: { ...where, marketRegime: { not: null } },
+      _count: { _all: true },
+    });
+
+    return summarizeByRegime(rows.map(row => ({ regime: row.marketRegime!, outcome: row.outcome, count: row._count._all })));
+  }
+
+  /**
+   * The same breakdown per forecaster, keyed by id
+   */
+  async accuracyByRegimeForForecasters(forecasterIds: string[]): Promise<Map<string, RegimeAccuracy[]>> {
+    const rows = await prisma.prediction.groupBy({
+      by: ["forecasterId", "marketRegime", "outcome"],
+      where: { forecasterId: { in: forecasterIds }, marketRegime: { not: null } },
+      _count: { _all: true },
+    });
+
+    return new Map(
+      forecasterIds.map(id => [
+        id,
+        summarizeByRegime(
+          rows
+            .filter(row => row.forecasterId === id)
+            .map(row => ({ regime: row.marketRegime!, outcome: row.outcome, count: row._count._all }))
+        ),
+      ])
+    );
+  }
+}
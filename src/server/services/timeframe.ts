@@ -0,0 +1,430 @@
+/**
+ * Turns free-text prediction horizons ("by end of Q2", "in 3 weeks",
+ * "next cycle") into concrete target dates. Phrases are interpreted
+ * relative to when the content was published, not when it was processed,
+ * and all dates are calendar days in UTC (YYYY-MM-DD).
+ */
+
+export type TimeframeStatus = "RESOLVED" | "UNRESOLVABLE";
+
+export interface TimeframeResolution {
+  status: TimeframeStatus;
+  // YYYY-MM-DD; null when unresolvable
+  targetDate: string | null;
+  // 0-1, how sure we are the date reflects what the speaker meant
+  confidence: number;
+  // Rule that produced the result, e.g. "quarter", "relative", "vague"
+  rule: string;
+  // Phrase the result was read from
+  matched: string | null;
+  // Free-text timeframe as extracted, kept for later re-parsing
+  text: string | null;
+  // Date the phrase was interpreted against (YYYY-MM-DD)
+  reference: string;
+  // "model" when the LLM supplied a usable targetDate itself,
+  // "reviewer" when an admin set it in the review queue
+  source: "model" | "parser" | "reviewer";
+  reason?: string;
+}
+
+interface Candidate {
+  date: Date;
+  confidence: number;
+  rule: string;
+  matched: string;
+  index: number;
+}
+
+interface Rule {
+  name: string;
+  pattern: RegExp;
+  resolve(match: RegExpExecArray, reference: Date): { date: Date; confidence: number } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS: Record<string, number> = {
+  january: 0, jan: 0,
+  february: 1, feb: 1,
+  march: 2, mar: 2,
+  april: 3, apr: 3,
+  may: 4,
+  june: 5, jun: 5,
+  july: 6, jul: 6,
+  august: 7, aug: 7,
+  september: 8, sept: 8, sep: 8,
+  october: 9, oct: 9,
+  november: 10, nov: 10,
+  december: 11, dec: 11,
+};
+
+const MONTH = `(${Object.keys(MONTHS).sort((a, b) => b.length - a.length).join("|")})\\.?`;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, eighteen: 18,
+};
+
+// Quantities that are only loosely specified
+const FUZZY_NUMBERS: Record<string, number> = {
+  "a few": 3,
+  few: 3,
+  "a couple of": 2,
+  "a couple": 2,
+  "couple of": 2,
+  couple: 2,
+  several: 4,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1, "1st": 1, second: 2, "2nd": 2, third: 3, "3rd": 3, fourth: 4, "4th": 4,
+};
+
+// Horizons people use that don't map to a calendar date
+const VAGUE_PATTERN =
+  /\b(next cycle|this cycle|cycle (?:top|peak|bottom)|(?:next|this) bull (?:run|market)|(?:after|before|next) (?:the )?halving|long[- ]term|medium[- ]term|mid[- ]term|eventually|someday|some day|one day|at some point|in the (?:distant |near )?future|over time|in the coming years|soon)\b/;
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function startOfDay(date: Date): Date {
+  return utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function endOfMonth(year: number, month: number): Date {
+  return utcDate(year, month + 1, 0);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(startOfDay(date).getTime() + days * DAY_MS);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const target = utcDate(date.getUTCFullYear(), date.getUTCMonth() + months, 1);
+  const lastDay = endOfMonth(target.getUTCFullYear(), target.getUTCMonth()).getUTCDate();
+  return utcDate(target.getUTCFullYear(), target.getUTCMonth(), Math.min(date.getUTCDate(), lastDay));
+}
+
+function parseYear(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const year = Number(value.replace("'", ""));
+  return year < 100 ? 2000 + year : year;
+}
+
+/**
+ * Use the given year, or the first year in which the period has not already ended
+ */
+function rollForward(explicitYear: number | undefined, reference: Date, periodEnd: (year: number) => Date) {
+  if (explicitYear !== undefined) return periodEnd(explicitYear);
+
+  const year = reference.getUTCFullYear();
+  const thisYear = periodEnd(year);
+  return thisYear.getTime() >= startOfDay(reference).getTime() ? thisYear : periodEnd(year + 1);
+}
+
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function quantity(value: string): { amount: number; fuzzy: boolean } | null {
+  const normalized = value.trim().replace(/\s+/g, " ");
+  if (/^\d+$/.test(normalized)) return { amount: Number(normalized), fuzzy: false };
+  if (normalized in NUMBER_WORDS) return { amount: NUMBER_WORDS[normalized]!, fuzzy: false };
+  if (normalized in FUZZY_NUMBERS) return { amount: FUZZY_NUMBERS[normalized]!, fuzzy: true };
+  return null;
+}
+
+function addUnits(reference: Date, amount: number, unit: string): Date {
+  switch (unit) {
+    case "day":
+      return addDays(reference, amount);
+    case "week":
+      return addDays(reference, amount * 7);
+    case "month":
+      return addMonths(reference, amount);
+    default:
+      return addMonths(reference, amount * 12);
+  }
+}
+
+const QUANTITY = `(\\d+|${[...Object.keys(FUZZY_NUMBERS), ...Object.keys(NUMBER_WORDS)].sort((a, b) => b.length - a.length).join("|")})`;
+// "Q2 2026", "Q2 of 2026", "Q2 '26"
+const YEAR_SUFFIX = `(?:,?\\s+(?:of\\s+)?('\\d{2}|20\\d{2}))?`;
+
+const RULES: Rule[] = [
+  {
+    name: "date",
+    pattern: /\b(20\d{2})-(\d{1,2})-(\d{1,2})\b/g,
+    resolve: m => ({ date: utcDate(Number(m[1]), Number(m[2]) - 1, Number(m[3])), confidence: 0.95 }),
+  },
+  {
+    name: "date",
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(20\\d{2})\\b`, "g"),
+    resolve: m => ({ date: utcDate(Number(m[3]), MONTHS[m[1]!]!, Number(m[2])), confidence: 0.95 }),
+  },
+  {
+    name: "date",
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH},?\\s+(20\\d{2})\\b`, "g"),
+    resolve: m => ({ date: utcDate(Number(m[3]), MONTHS[m[2]!]!, Number(m[1])), confidence: 0.95 }),
+  },
+  {
+    name: "quarter",
+    pattern: new RegExp(`\\b(?:q([1-4])|(first|second|third|fourth|1st|2nd|3rd|4th) quarter)${YEAR_SUFFIX}\\b`, "g"),
+    resolve: (m, reference) => {
+      const quarter = m[1] ? Number(m[1]) : ORDINALS[m[2]!]!;
+      const year = parseYear(m[3]);
+      return {
+        date: rollForward(year, reference, y => endOfMonth(y, quarter * 3 - 1)),
+        confidence: year ? 0.9 : 0.8,
+      };
+    },
+  },
+  {
+    name: "quarter",
+    pattern: /\b(this|next) quarter\b/g,
+    resolve: (m, reference) => {
+      const quarter = Math.floor(reference.getUTCMonth() / 3) + (m[1] === "next" ? 1 : 0);
+      return { date: endOfMonth(reference.getUTCFullYear(), quarter * 3 + 2), confidence: 0.75 };
+    },
+  },
+  {
+    name: "half",
+    pattern: new RegExp(`\\b(?:h([12])|(first|second) half(?: of(?: the)? year)?)${YEAR_SUFFIX}\\b`, "g"),
+    resolve: (m, reference) => {
+      const half = m[1] ? Number(m[1]) : ORDINALS[m[2]!]!;
+      const year = parseYear(m[3]);
+      return {
+        date: rollForward(year, reference, y => endOfMonth(y, half * 6 - 1)),
+        confidence: year ? 0.85 : 0.75,
+      };
+    },
+  },
+  {
+    name: "year",
+    pattern: /\b(?:(?:by |before )?(?:the )?end of (?:the |this )?year|year[- ]end|eoy|this year)\b/g,
+    resolve: (_m, reference) => ({ date: utcDate(reference.getUTCFullYear(), 11, 31), confidence: 0.85 }),
+  },
+  {
+    name: "year",
+    pattern: /\b(?:(?:the )?end of )?next year\b/g,
+    resolve: (_m, reference) => ({ date: utcDate(reference.getUTCFullYear() + 1, 11, 31), confidence: 0.8 }),
+  },
+  {
+    name: "year",
+    pattern: /\b(?:by|in|until|till|before|through|into|during|for|throughout|end of)\s+(?:the end of\s+)?(early|mid|late)?[- ]?(20\d{2})\b(?![-\d]|\s*(?:points|dollars|usd|bucks))/g,
+    resolve: m => {
+      const year = Number(m[2]);
+      const month = m[1] === "early" ? 2 : m[1] === "mid" ? 5 : 11;
+      return { date: endOfMonth(year, month), confidence: m[1] ? 0.75 : 0.8 };
+    },
+  },
+  {
+    name: "year",
+    pattern: /\b(20\d{2})\s+year[- ]end\b/g,
+    resolve: m => ({ date: utcDate(Number(m[1]), 11, 31), confidence: 0.85 }),
+  },
+  {
+    name: "month",
+    pattern: new RegExp(
+      `\\b(?:by|in|until|till|before|end of|through|into|around|during|for)\\s+(?:the end of\\s+)?(early|mid|late)?[- ]?${MONTH}(?:,?\\s+(20\\d{2}))?\\b`,
+      "g"
+    ),
+    resolve: (m, reference) => {
+      const month = MONTHS[m[2]!]!;
+      const year = m[3] ? Number(m[3]) : undefined;
+      const day = m[1] === "early" ? 10 : m[1] === "mid" ? 15 : undefined;
+      return {
+        date: rollForward(year, reference, y => (day ? utcDate(y, month, day) : endOfMonth(y, month))),
+        confidence: year ? 0.85 : 0.75,
+      };
+    },
+  },
+  {
+    name: "month",
+    pattern: /\b(?:(?:the )?end of (?:the |this )?month|eom|this month)\b/g,
+    resolve: (_m, reference) => ({
+      date: endOfMonth(reference.getUTCFullYear(), reference.getUTCMonth()),
+      confidence: 0.8,
+    }),
+  },
+  {
+    name: "month",
+    pattern: /\b(?:(?:the )?end of )?next month\b/g,
+    resolve: (_m, reference) => ({
+      date: endOfMonth(reference.getUTCFullYear(), reference.getUTCMonth() + 1),
+      confidence: 0.7,
+    }),
+  },
+  {
+    name: "week",
+    pattern: /\b(?:(?:the )?end of (?:the |this )?week|this week)\b/g,
+    resolve: (_m, reference) => ({ date: addDays(reference, (7 - reference.getUTCDay()) % 7), confidence: 0.75 }),
+  },
+  {
+    name: "week",
+    pattern: /\b(?:(?:the )?end of )?next week\b/g,
+    resolve: (_m, reference) => ({ date: addDays(reference, ((7 - reference.getUTCDay()) % 7) + 7), confidence: 0.7 }),
+  },
+  {
+    name: "day",
+    pattern: /\b(?:tomorrow)\b/g,
+    resolve: (_m, reference) => ({ date: addDays(reference, 1), confidence: 0.85 }),
+  },
+  {
+    name: "day",
+    pattern: /\b(?:end of (?:the )?day|by (?:the )?close)\b/g,
+    resolve: (_m, reference) => ({ date: startOfDay(reference), confidence: 0.8 }),
+  },
+  {
+    name: "relative",
+    pattern: new RegExp(
+      `\\b(?:in|within|over|inside|for|after)\\s+(?:the\\s+)?(?:next\\s+|coming\\s+)?${QUANTITY}\\s+(day|week|month|year)s?\\b`,
+      "g"
+    ),
+    resolve: (m, reference) => {
+      const parsed = quantity(m[1]!);
+      if (!parsed) return null;
+      return { date: addUnits(reference, parsed.amount, m[2]!), confidence: parsed.fuzzy ? 0.6 : 0.8 };
+    },
+  },
+  {
+    name: "relative",
+    pattern: new RegExp(`\\b(?:the\\s+)?next\\s+${QUANTITY}\\s+(day|week|month|year)s?\\b`, "g"),
+    resolve: (m, reference) => {
+      const parsed = quantity(m[1]!);
+      if (!parsed) return null;
+      return { date: addUnits(reference, parsed.amount, m[2]!), confidence: parsed.fuzzy ? 0.6 : 0.8 };
+    },
+  },
+  {
+    name: "relative",
+    pattern: new RegExp(`\\b${QUANTITY}[- ](day|week|month|year)s?\\s+(?:from now|out|target|horizon|outlook|time ?frame)\\b`, "g"),
+    resolve: (m, reference) => {
+      const parsed = quantity(m[1]!);
+      if (!parsed) return null;
+      return { date: addUnits(reference, parsed.amount, m[2]!), confidence: parsed.fuzzy ? 0.55 : 0.75 };
+    },
+  },
+  {
+    name: "relative",
+    pattern: /\b(?:short[- ]term|near[- ]term)\b/g,
+    resolve: (_m, reference) => ({ date: addMonths(reference, 3), confidence: 0.5 }),
+  },
+];
+
+function unresolvable(rule: string, reason: string, reference: Date, matched: string | null = null): TimeframeResolution {
+  return {
+    status: "UNRESOLVABLE",
+    targetDate: null,
+    confidence: 0,
+    rule,
+    matched,
+    text: null,
+    reference: toDateString(reference),
+    source: "parser",
+    reason,
+  };
+}
+
+/**
+ * Find the most specific timeframe phrase in `text` and turn it into a date.
+ * The highest-confidence phrase wins; ties go to the earliest one.
+ */
+export function parseTimeframe(text: string, reference: Date): TimeframeResolution {
+  const normalized = text.toLowerCase().replace(/\s+/g, " ");
+  const start = startOfDay(reference);
+  const candidates: Candidate[] = [];
+  let pastMatch: string | null = null;
+
+  for (const rule of RULES) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = rule.pattern.exec(normalized))) {
+      const resolved = rule.resolve(match, reference);
+      if (!resolved || Number.isNaN(resolved.date.getTime())) continue;
+
+      if (resolved.date.getTime() < start.getTime()) {
+        pastMatch ??= match[0];
+        continue;
+      }
+
+      candidates.push({ ...resolved, rule: rule.name, matched: match[0].trim(), index: match.index });
+    }
+  }
+
+  const best = candidates.sort((a, b) => b.confidence - a.confidence || a.index - b.index)[0];
+
+  if (best) {
+    return {
+      status: "RESOLVED",
+      targetDate: toDateString(best.date),
+      confidence: best.confidence,
+      rule: best.rule,
+      matched: best.matched,
+      text: null,
+      reference: toDateString(reference),
+      source: "parser",
+    };
+  }
+
+  const vague = VAGUE_PATTERN.exec(normalized);
+  if (vague) {
+    return unresolvable("vague", `"${vague[1]}" has no calendar horizon`, reference, vague[1]!);
+  }
+
+  if (pastMatch) {
+    return unresolvable("past", "timeframe ends before the content was published", reference, pastMatch);
+  }
+
+  return unresolvable("none", "no timeframe found", reference);
+}
+
+export interface TimeframeInput {
+  // Free-text horizon from extraction, e.g. "by end of Q2"
+  timeframe?: string | null;
+  // targetDate as supplied by the model, if any
+  targetDate?: string | Date | null;
+  // Prediction text, searched when the timeframe itself is unusable
+  text?: string | null;
+}
+
+/**
+ * Decide a prediction's target date. A model-supplied date is kept when it
+ * parses and doesn't precede publication; otherwise the timeframe phrase is
+ * parsed, then the prediction text.
+ */
+export function resolveTimeframe(input: TimeframeInput, publishedAt: Date): TimeframeResolution {
+  const text = input.timeframe?.trim() || null;
+
+  if (input.targetDate) {
+    const date = new Date(input.targetDate);
+    if (!Number.isNaN(date.getTime()) && date.getTime() >= startOfDay(publishedAt).getTime()) {
+      return {
+        status: "RESOLVED",
+        targetDate: toDateString(date),
+        confidence: 0.9,
+        rule: "model",
+        matched: text,
+        text,
+        reference: toDateString(publishedAt),
+        source: "model",
+      };
+    }
+  }
+
+  const fromTimeframe = text ? parseTimeframe(text, publishedAt) : null;
+  if (fromTimeframe?.status === "RESOLVED") {
+    return { ...fromTimeframe, text };
+  }
+
+  const fromText = input.text ? parseTimeframe(input.text, publishedAt) : null;
+  if (fromText?.status === "RESOLVED") {
+    return { ...fromText, text };
+  }
+
+  // Prefer the explanation from the extracted timeframe over the prediction text
+  const failed = [fromTimeframe, fromText].find(r => r && r.rule !== "none") ?? fromTimeframe ?? fromText;
+  return { ...(failed ?? unresolvable("none", "no timeframe found", publishedAt)), text };
+}
@@ -0,0 +1,157 @@
+import { type Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { resolveTimeframe, type TimeframeResolution } from "./timeframe";
+
+export interface TimeframeBackfillOptions {
+  // Report what would change without writing
+  dryRun?: boolean;
+  // Re-parse predictions already marked UNRESOLVABLE (e.g. after parser changes)
+  retryUnresolvable?: boolean;
+  batchSize?: number;
+  userId?: string;
+}
+
+export interface TimeframeBackfillResult {
+  scanned: number;
+  resolved: number;
+  unresolvable: number;
+  skipped: number;
+  dryRun: boolean;
+  // A few resolutions for eyeballing a dry run
+  samples: Array<{ predictionId: string; prediction: string; resolution: TimeframeResolution }>;
+}
+
+const SAMPLE_LIMIT = 20;
+
+interface PredictionMetadata {
+  source?: { url?: string | null };
+  extraction?: { contentId?: string; timeframe?: TimeframeResolution };
+}
+
+/**
+ * Gives PENDING predictions without a targetDate one, by parsing the stored
+ * timeframe phrase or prediction text relative to the source content's
+ * publication date. Predictions that can't be dated are marked UNRESOLVABLE
+ * so they stop looking like an unprocessed backlog.
+ */
+export class TimeframeBackfillService {
+  async backfill(options: TimeframeBackfillOptions = {}): Promise<TimeframeBackfillResult> {
+    const dryRun = options.dryRun ?? false;
+    const batchSize = options.batchSize ?? 200;
+    const result: TimeframeBackfillResult = { scanned: 0, resolved: 0, unresolvable: 0, skipped: 0, dryRun, samples: [] };
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await prisma.prediction.findMany({
+        // Resolved rows drop out of the filter, so page by id rather than by cursor row
+        where: { outcome: "PENDING", targetDate: null, ...(cursor && { id: { gt: cursor } }) },
+        orderBy: { id: "asc" },
+        take: batchSize,
+        select: { id: true, prediction: true, metadata: true, createdAt: true },
+      });
+      if (batch.length === 0) break;
+      cursor = batch[batch.length - 1]!.id;
+
+      const publishedAt = await this.publicationDates(batch.map(p => p.metadata as PredictionMetadata));
+
+      for (const prediction of batch) {
+        result.scanned++;
+        const metadata = (prediction.metadata ?? {}) as PredictionMetadata & Record<string, unknown>;
+        const previous = metadata.extraction?.timeframe;
+
+        if (previous?.status === "UNRESOLVABLE" && !options.retryUnresolvable) {
+          result.skipped++;
+          continue;
+        }
+
+        const reference =
+          publishedAt.byContentId.get(metadata.extraction?.contentId ?? "") ??
+          publishedAt.byUrl.get(metadata.source?.url ?? "") ??
+          prediction.createdAt;
+
+        const resolution = resolveTimeframe({ timeframe: previous?.text, text: prediction.prediction }, reference);
+
+        if (resolution.status === "RESOLVED") {
+          result.resolved++;
+        } else {
+          result.unresolvable++;
+        }
+
+        if (result.samples.length < SAMPLE_LIMIT) {
+          result.samples.push({ predictionId: prediction.id, prediction: prediction.prediction, resolution });
+        }
+
+        if (dryRun) continue;
+
+        await prisma.prediction.update({
+          where: { id: prediction.id },
+          data: {
+            ...(resolution.targetDate && { targetDate: new Date(resolution.targetDate) }),
+            metadata: {
+              ...metadata,
+              extraction: { ...(metadata.extraction ?? { model: null }), timeframe: resolution },
+            } as unknown as Prisma.InputJsonValue,
+          },
+        });
+      }
+
+      if (batch.length < batchSize) break;
+    }
+
+    console.log(
+      `[TimeframeBackfill] ${dryRun ? "Dry run: " : ""}${result.resolved} resolved, ${result.unresolvable} unresolvable, ${result.skipped} skipped of ${result.scanned}`
+    );
+
+    if (!dryRun) {
+      await prisma.event.create({
+        data: {
+          type: "PREDICTION_TIMEFRAMES_BACKFILLED",
+          entityType: "PREDICTION",
+          entityId: "batch",
+          userId: options.userId,
+          data: {
+            scanned: result.scanned,
+            resolved: result.resolved,
+            unresolvable: result.unresolvable,
+            skipped: result.skipped,
+            retryUnresolvable: options.retryUnresolvable ?? false,
+          },
+        },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Publication dates of the content the predictions were extracted from,
+   * keyed by content id and by source URL for predictions stored before
+   * contentId was recorded
+   */
+  private async publicationDates(metadata: PredictionMetadata[]) {
+    const contentIds = [...new Set(metadata.map(m => m?.extraction?.contentId).filter((id): id is string => !!id))];
+    const urls = [...new Set(metadata.map(m => m?.source?.url).filter((url): url is string => !!url))];
+
+    const contents =
+      contentIds.length || urls.length
+        ? await prisma.content.findMany({
+            where: { OR: [{ id: { in: contentIds } }, { sourceUrl: { in: urls } }] },
+            select: { id: true, sourceUrl: true, data: true, createdAt: true },
+          })
+        : [];
+
+    const byContentId = new Map<string, Date>();
+    const byUrl = new Map<string, Date>();
+
+    for (const content of contents) {
+      const published = (content.data as { publishedAt?: string | null } | null)?.publishedAt;
+      const date = published ? new Date(published) : content.createdAt;
+      if (Number.isNaN(date.getTime())) continue;
+
+      byContentId.set(content.id, date);
+      if (content.sourceUrl) byUrl.set(content.sourceUrl, date);
+    }
+
+    return { byContentId, byUrl };
+  }
+}
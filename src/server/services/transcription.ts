@@ -8,6 +8,7 @@ import { getSubtitles } from 'youtube-captions-scraper';
 import { YoutubeTranscript } from 'youtube-transcript';
 import { env } from '@/env.mjs';
 import { prisma } from '@/server/db';
+import { isContentState, moveContent } from './contentPipeline';
 
 const execAsync = promisify(require('child_process').exec);
 
@@ -129,6 +130,34 @@ export class TranscriptionService {
     };
   }
 
+  /**
+   * Captions only (methods 1 and 2), without touching content status.
+   * Used by the content pipeline's download stage.
+   */
+  async fetchCaptions(videoId: string): Promise<TranscriptResult | null> {
+    return (await this.tryYoutubeCaptionsScraper(videoId)) ?? (await this.tryYouTubeTranscriptAPI(videoId));
+  }
+
+  /**
+   * Download audio to the temp directory and return its path
+   */
+  async downloadAudio(videoUrl: string, videoId: string): Promise<string> {
+    return this.downloadAudioWithRapidAPI(videoUrl, videoId);
+  }
+
+  /**
+   * Whisper transcription of an audio file, without touching content status
+   */
+  async transcribeAudio(audioPath: string): Promise<TranscriptResult> {
+    const result = await this.transcribeWithOpenAIWhisper(audioPath);
+    return {
+      transcript: result.transcript,
+      transcriptWithTimes: result.transcriptWithTimes,
+      provenance: 'whisper_transcription',
+      source: 'whisper_transcription'
+    };
+  }
+
   /**
    * Method 1: Try youtube-captions-scraper with multiple languages
    * This is the current primary method used in the original app
@@ -461,16 +490,9 @@ export class TranscriptionService {
     if (!contentId) return null;
 
     try {
-      // Parse contentId to get forecaster and video IDs
-      const [forecasterId, vid] = contentId.includes('_') ? contentId.split('_') : [null, contentId];
-
       // Look for content in database
       const content = await prisma.content.findFirst({
-        where: {
-          sourceId: videoId,
-          sourceType: 'YOUTUBE',
-          ...(forecasterId ? { forecasterId } : {})
-        }
+        where: { ...this.contentWhere(contentId), sourceId: videoId }
       });
 
       if (content?.processingMetadata) {
@@ -525,55 +547,53 @@ export class TranscriptionService {
   }
 
   /**
-   * Update content status in database
+   * Update content status in database. Goes through the pipeline state
+   * machine so out-of-order writes (e.g. a late TRANSCRIBING after the row
+   * was already PROCESSED) are ignored.
    */
   private async updateContentStatus(contentId: string | undefined, status: string): Promise<void> {
-    if (!contentId) return;
+    if (!contentId || !isContentState(status)) return;
 
     try {
-      const [forecasterId, videoId] = contentId.includes('_') ? contentId.split('_') : [null, contentId];
-
-      await prisma.content.updateMany({
-        where: {
-          sourceId: videoId || contentId,
-          sourceType: 'YOUTUBE',
-          ...(forecasterId ? { forecasterId } : {})
-        },
-        data: { status }
-      });
+      await moveContent(this.contentWhere(contentId), status, { reason: 'transcription service' });
     } catch (error) {
       console.log(`[TranscriptionService] Error updating content status:`, error);
     }
   }
 
   /**
-   * Update content metadata in database
+   * Content IDs are `${forecasterId}_${videoId}`; forecaster IDs are cuids
+   * without underscores, but video IDs may contain them.
+   */
+  private contentWhere(contentId: string) {
+    const separator = contentId.indexOf('_');
+    const forecasterId = separator > 0 ? contentId.slice(0, separator) : null;
+    const videoId = separator > 0 ? contentId.slice(separator + 1) : contentId;
+
+    return {
+      sourceId: videoId,
+      sourceType: 'YOUTUBE',
+      ...(forecasterId ? { forecasterId } : {})
+    };
+  }
+
+  /**
+   * Merge keys into processingMetadata of every matching content row
    */
   private async updateContentMetadata(contentId: string | undefined, metadata: any): Promise<void> {
     if (!contentId) return;
 
     try {
-      const [forecasterId, videoId] = contentId.includes('_') ? contentId.split('_') : [null, contentId];
-
-      // Get existing metadata
-      const content = await prisma.content.findFirst({
-        where: {
-          sourceId: videoId || contentId,
-          sourceType: 'YOUTUBE',
-          ...(forecasterId ? { forecasterId } : {})
-        }
+      const contents = await prisma.content.findMany({
+        where: this.contentWhere(contentId)
       });
 
-      if (content) {
+      for (const content of contents) {
         const existingMetadata = content.processingMetadata as any || {};
         const updatedMetadata = { ...existingMetadata, ...metadata, updatedAt: new Date().toISOString() };
 
-        await prisma.content.updateMany({
-          where: {
-            sourceId: videoId || contentId,
-            sourceType: 'YOUTUBE',
-            ...(forecasterId ? { forecasterId } : {})
-          },
+        await prisma.content.update({
+          where: { id: content.id },
           data: { processingMetadata: updatedMetadata }
         });
       }
@@ -589,14 +609,8 @@ export class TranscriptionService {
     if (!contentId) return 0;
 
     try {
-      const [forecasterId, videoId] = contentId.includes('_') ? contentId.split('_') : [null, contentId];
-
       const content = await prisma.content.findFirst({
-        where: {
-          sourceId: videoId || contentId,
-          sourceType: 'YOUTUBE',
-          ...(forecasterId ? { forecasterId } : {})
-        }
+        where: this.contentWhere(contentId)
       });
 
       if (content?.processingMetadata) {
@@ -1,7 +1,15 @@
 import { prisma } from "../db";
-import { Prediction, Asset } from "@prisma/client";
+import { Asset, Prediction } from "@prisma/client";
+import { PredictionResolutionEngine, type ResolutionResult } from "./resolution";
+import { PriceBackfillService } from "./priceBackfill";
+import { BenchmarkScoringService } from "./benchmarkScoring";
+import { outcomeValue } from "./scoring";
 
 export class PredictionValidationService {
+  private resolutionEngine = new PredictionResolutionEngine();
+  private priceBackfill = new PriceBackfillService();
+  private benchmarkScoring = new BenchmarkScoringService(undefined, this.priceBackfill);
+
   async validate(predictionId: string) {
     const prediction = await prisma.prediction.findUnique({
       where: { id: predictionId },
@@ -20,13 +28,23 @@ export class PredictionValidationService {
       throw new Error("Cannot validate prediction without asset information");
     }
 
-    const outcome = await this.determineOutcome(prediction, prediction.asset);
+    const resolution = await this.determineOutcome(prediction);
+    const { outcome } = resolution;
+
+    if (outcome === "PENDING") {
+      return outcome; // Horizon still open or not enough price history yet
+    }
 
+    // Record how the outcome was reached so it can be audited later
     await prisma.prediction.update({
       where: { id: predictionId },
       data: {
         outcome,
         validatedAt: new Date(),
+        metadata: {
+          ...((prediction.metadata as any) || {}),
+          resolution,
+        },
       },
     });
 
@@ -39,79 +57,46 @@ export class PredictionValidationService {
         type: "PREDICTION_VALIDATED",
         entityType: "PREDICTION",
         entityId: predictionId,
-        data: { outcome, targetPrice: prediction.targetPrice },
+        data: {
+          outcome,
+          targetPrice: prediction.targetPrice,
+          rule: resolution.rule,
+          semantics: resolution.semantics,
+          resolvingPrice: resolution.resolvingPrice,
+          resolvingAt: resolution.resolvingAt,
+          resolvingSource: resolution.resolvingSource,
+        },
       },
     });
 
-    return outcome;
-  }
-
-  private async determineOutcome(
-    prediction: Prediction,
-    asset: Asset
-  ): Promise<"CORRECT" | "INCORRECT" | "PENDING" | "PARTIAL"> {
-    const currentPrice = (asset.priceData as any)?.price;
-
-    if (!currentPrice) {
-      return "PENDING";
+    // Best effort: the daily benchmark job picks up whatever cannot be priced yet
+    try {
+      await this.benchmarkScoring.scorePrediction(predictionId);
+    } catch (error) {
+      console.error(`Benchmark scoring failed for prediction ${predictionId}:`, error);
     }
 
-    const targetPrice = prediction.targetPrice;
-    const confidence = prediction.confidence || 0.5;
-
-    // Parse prediction text for direction
-    const predictionText = prediction.prediction.toLowerCase();
-    const isBullish =
-      predictionText.includes("rise") ||
-      predictionText.includes("increase") ||
-      predictionText.includes("bull") ||
-      predictionText.includes("up") ||
-      predictionText.includes("reach") ||
-      predictionText.includes("hit");
-
-    const isBearish =
-      predictionText.includes("fall") ||
-      predictionText.includes("decrease") ||
-      predictionText.includes("bear") ||
-      predictionText.includes("down") ||
-      predictionText.includes("drop");
-
-    if (targetPrice) {
-      // Price target prediction
-      const targetPriceNum = Number(targetPrice);
-      const tolerance = targetPriceNum * 0.05; // 5% tolerance
-
-      if (Math.abs(currentPrice - targetPriceNum) <= tolerance) {
-        return "CORRECT";
-      }
-
-      // Check if direction is correct at least
-      if (isBullish && currentPrice > (asset.priceData as any).price24hAgo) {
-        return "PARTIAL";
-      }
-      if (isBearish && currentPrice < (asset.priceData as any).price24hAgo) {
-        return "PARTIAL";
-      }
-
-      return "INCORRECT";
-    }
-
-    // Directional prediction
-    const price24hAgo = (asset.priceData as any).price24hAgo || currentPrice;
-    const priceChange = ((currentPrice - price24hAgo) / price24hAgo) * 100;
+    return outcome;
+  }
 
-    if (isBullish && priceChange > 1) {
-      return "CORRECT";
-    }
-    if (isBearish && priceChange < -1) {
-      return "CORRECT";
+  /**
+   * Resolve the prediction against PriceHistory and candles over its own
+   * horizon (baseline at createdAt, path until targetDate). Missing data
+   * triggers a candle backfill and a second attempt.
+   */
+  private async determineOutcome(prediction: Prediction & { asset: Asset | null }): Promise<ResolutionResult> {
+    const resolution = await this.resolutionEngine.resolve(prediction);
+    if (resolution.rule !== "INSUFFICIENT_DATA") {
+      return resolution;
     }
 
-    if (Math.abs(priceChange) < 1) {
-      return "PARTIAL"; // Neutral movement
+    try {
+      const baselinePrice = await this.priceBackfill.ensureForPrediction(prediction);
+      return await this.resolutionEngine.resolve({ ...prediction, baselinePrice });
+    } catch (error) {
+      console.error(`Price backfill failed for prediction ${prediction.id}:`, error);
+      return resolution;
     }
-
-    return "INCORRECT";
   }
 
   private async updateForecasterMetrics(forecasterId: string, outcome: string) {
@@ -130,11 +115,7 @@ export class PredictionValidationService {
 
     metrics.totalPredictions++;
 
-    if (outcome === "CORRECT") {
-      metrics.correctPredictions++;
-    } else if (outcome === "PARTIAL") {
-      metrics.correctPredictions += 0.5;
-    }
+    metrics.correctPredictions += outcomeValue(outcome) ?? 0;
 
     metrics.accuracy = metrics.correctPredictions / metrics.totalPredictions;
 
@@ -160,10 +141,15 @@ export class PredictionValidationService {
   }
 
   async validateAllPending() {
+    // Expired predictions, plus open price targets that may already have been touched
     const pendingPredictions = await prisma.prediction.findMany({
       where: {
         outcome: "PENDING",
-        targetDate: { lte: new Date() },
+        assetId: { not: null },
+        OR: [
+          { targetDate: { lte: new Date() } },
+          { targetPrice: { not: null } },
+        ],
       },
       select: { id: true },
     });
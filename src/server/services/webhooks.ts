@@ -0,0 +1,610 @@
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { isIP, type LookupFunction } from "net";
+import { type Event, type Job, type Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { JobQueue } from "./jobQueue";
+import { API_PLANS } from "./apiKeys";
+
+export const WEBHOOK_FANOUT_JOB = "WEBHOOK_FANOUT";
+export const WEBHOOK_DELIVERY_JOB = "DELIVER_WEBHOOK";
+
+// Public event names, keyed by the Event.type rows they are built from
+export const WEBHOOK_EVENTS = {
+  "prediction.created": "PREDICTION_CREATED",
+  "prediction.validated": "PREDICTION_VALIDATED",
+  "ranking.changed": "RANKING_CHANGED",
+} as const;
+export type WebhookEventType = keyof typeof WEBHOOK_EVENTS;
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as WebhookEventType[];
+
+export const TEST_EVENT_TYPE = "webhook.test";
+
+const SECRET_PREFIX = "whsec_";
+const MAX_ENDPOINTS = 5;
+// Attempts per delivery; the job queue spaces them 30s, 1m, 2m, 4m, 8m apart
+const DELIVERY_ATTEMPTS = 6;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const RESPONSE_BODY_LIMIT = 1000;
+// Events older than this are never fanned out, even to endpoints that existed then
+const FANOUT_LOOKBACK_MS = 60 * 60 * 1000;
+const FANOUT_BATCH = 500;
+
+export interface WebhookFilters {
+  eventTypes: string[];
+  forecasterIds: string[];
+  assetIds: string[];
+}
+
+export interface WebhookSubject {
+  eventType: WebhookEventType;
+  forecasterId: string | null;
+  assetId: string | null;
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  description?: string;
+  eventTypes: WebhookEventType[];
+  forecasterIds?: string[];
+  assetIds?: string[];
+}
+
+export interface WebhookDeliveryPayload {
+  deliveryId: string;
+}
+
+type FanoutEndpoint = WebhookFilters & { id: string; createdAt: Date };
+
+export interface FanoutResult {
+  events: number;
+  queued: number;
+}
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Signature header value for a payload. Receivers recompute the HMAC over
+ * `${t}.${body}` and should reject stale timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Whether an endpoint wants an event. Empty filter lists match everything;
+ * events that carry no asset (ranking changes) are not narrowed by assetIds.
+ */
+export function matchesWebhookFilters(filters: WebhookFilters, subject: WebhookSubject): boolean {
+  if (!filters.eventTypes.includes(subject.eventType)) return false;
+  if (filters.forecasterIds.length > 0 && (!subject.forecasterId || !filters.forecasterIds.includes(subject.forecasterId))) {
+    return false;
+  }
+  if (filters.assetIds.length > 0 && subject.assetId && !filters.assetIds.includes(subject.assetId)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Reject URLs a receiver could not sensibly be (or that would point the
+ * worker at our own network). Plain http is only allowed outside production.
+ * This is early feedback when an endpoint is saved; deliveries check the
+ * resolved address again (see postWebhook).
+ */
+export function validateWebhookUrl(raw: string, allowInsecure = process.env.NODE_ENV !== "production"): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error("Enter a valid URL");
+  }
+
+  if (url.protocol !== "https:" && !(allowInsecure && url.protocol === "http:")) {
+    throw new Error("Webhook URLs must use https");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (!allowInsecure && (host === "localhost" || host.endsWith(".local") || host.endsWith(".internal") || isPrivateAddress(host))) {
+    throw new Error("Webhook URLs must be publicly reachable");
+  }
+
+  return url;
+}
+
+/**
+ * Loopback, private, shared (CGNAT), link-local (incl. cloud metadata),
+ * multicast and reserved ranges, for IPv4, IPv6 and IPv4-mapped IPv6
+ */
+function isPrivateAddress(host: string): boolean {
+  const version = isIP(host);
+  if (version === 4) {
+    const [a, b] = host.split(".").map(Number) as [number, number];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  if (version === 6) {
+    const address = host.toLowerCase();
+    const mapped = /^::ffff:(?:0:)?(.+)$/.exec(address)?.[1];
+    if (mapped) {
+      // ::ffff:127.0.0.1, which URL parsing turns into ::ffff:7f00:1
+      const [high, low] = /^[0-9a-f]{1,4}:[0-9a-f]{1,4}$/.test(mapped) ? mapped.split(":").map(part => parseInt(part, 16)) : [];
+      const ipv4 = high !== undefined && low !== undefined ? [high >> 8, high & 255, low >> 8, low & 255].join(".") : mapped;
+      return isIP(ipv4) !== 4 || isPrivateAddress(ipv4);
+    }
+    return address === "::1" || address === "::" || /^(f[cd]|fe[89ab]|ff)/.test(address);
+  }
+  return false;
+}
+
+// Used for every delivery connection, so names that resolve (or rebind) to
+// our own network are refused on the address actually connected to
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+
+    const [first] = addresses;
+    if (!first || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), "");
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, first.address, first.family);
+  });
+};
+
+interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * POST a delivery without following redirects. In production the receiver
+ * must be a public address: literal IPs are checked here and names after
+ * resolution, on the connection itself.
+ */
+function postWebhook(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal,
+  allowPrivate = process.env.NODE_ENV !== "production"
+): Promise<WebhookResponse> {
+  if (!allowPrivate && isPrivateAddress(url.hostname.replace(/^\[|\]$/g, ""))) {
+    return Promise.reject(new Error(`${url.hostname} is not a public address`));
+  }
+
+  const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const request = send(
+      url,
+      {
+        method: "POST",
+        signal,
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body).toString() },
+        ...(!allowPrivate && { lookup: publicOnlyLookup }),
+      },
+      response => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on("data", (chunk: Buffer) => {
+          if (size < RESPONSE_BODY_LIMIT) chunks.push(chunk);
+          size += chunk.length;
+        });
+        response.on("end", () => resolve({ status: response.statusCode ?? 0, body: Buffer.concat(chunks).toString("utf8") }));
+        response.on("error", reject);
+      }
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+const endpointSelect = {
+  id: true,
+  url: true,
+  description: true,
+  eventTypes: true,
+  forecasterIds: true,
+  assetIds: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * Outbound webhooks. A scheduled fan-out turns new Event rows into one
+ * WebhookDelivery per matching endpoint, and each delivery is sent by its
+ * own job so failures are retried with the queue's backoff.
+ */
+export class WebhookService {
+  constructor(private jobQueue: JobQueue = new JobQueue()) {}
+
+  async list(userId: string) {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      select: {
+        ...endpointSelect,
+        deliveries: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { status: true, createdAt: true },
+        },
+      },
+    });
+
+    return endpoints.map(({ deliveries, ...endpoint }) => ({ ...endpoint, lastDelivery: deliveries[0] ?? null }));
+  }
+
+  /**
+   * Create an endpoint. The signing secret is only returned here.
+   */
+  async create(userId: string, input: WebhookEndpointInput) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+    if (!user || !API_PLANS[user.role]) {
+      throw new Error("Webhooks are available on the Premium plan");
+    }
+
+    const count = await prisma.webhookEndpoint.count({ where: { userId } });
+    if (count >= MAX_ENDPOINTS) {
+      throw new Error(`You can have at most ${MAX_ENDPOINTS} webhook endpoints; delete one first`);
+    }
+
+    const secret = generateWebhookSecret();
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        userId,
+        secret,
+        ...this.normalize(input),
+      },
+      select: endpointSelect,
+    });
+
+    return { secret, endpoint };
+  }
+
+  async update(userId: string, id: string, input: Partial<WebhookEndpointInput> & { isActive?: boolean }) {
+    await this.findOwned(userId, id);
+
+    return prisma.webhookEndpoint.update({
+      where: { id },
+      data: {
+        ...(input.url !== undefined && { url: validateWebhookUrl(input.url).toString() }),
+        ...(input.description !== undefined && { description: input.description.trim() || null }),
+        ...(input.eventTypes !== undefined && { eventTypes: this.normalizeEventTypes(input.eventTypes) }),
+        ...(input.forecasterIds !== undefined && { forecasterIds: [...new Set(input.forecasterIds)] }),
+        ...(input.assetIds !== undefined && { assetIds: [...new Set(input.assetIds)] }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+      },
+      select: endpointSelect,
+    });
+  }
+
+  async rotateSecret(userId: string, id: string): Promise<string> {
+    await this.findOwned(userId, id);
+
+    const secret = generateWebhookSecret();
+    await prisma.webhookEndpoint.update({ where: { id }, data: { secret } });
+    return secret;
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    await this.findOwned(userId, id);
+    await prisma.webhookEndpoint.delete({ where: { id } });
+  }
+
+  async deliveries(userId: string, endpointId: string, limit = 50) {
+    await this.findOwned(userId, endpointId);
+
+    return prisma.webhookDelivery.findMany({
+      where: { endpointId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      select: {
+        id: true,
+        eventType: true,
+        status: true,
+        attempts: true,
+        responseStatus: true,
+        responseBody: true,
+        error: true,
+        durationMs: true,
+        createdAt: true,
+        lastAttemptAt: true,
+        deliveredAt: true,
+      },
+    });
+  }
+
+  /**
+   * Queue a synthetic event so users can check their receiver and signature
+   * verification without waiting for a real one
+   */
+  async sendTest(userId: string, endpointId: string) {
+    await this.findOwned(userId, endpointId);
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        endpointId,
+        eventType: TEST_EVENT_TYPE,
+        payload: {
+          id: `test_${randomBytes(8).toString("hex")}`,
+          type: TEST_EVENT_TYPE,
+          createdAt: new Date().toISOString(),
+          data: { message: "This is a test event" },
+        },
+      },
+    });
+
+    await this.enqueueDelivery(delivery.id);
+
+    return { id: delivery.id };
+  }
+
+  /**
+   * Fan-out job handler: one delivery per (event, matching endpoint).
+   * Re-reading the lookback window every run is safe because
+   * (endpointId, eventId) is unique. The window is read in batches, keyed
+   * on (createdAt, id), until it is exhausted.
+   */
+  async fanOut(now = new Date()): Promise<FanoutResult> {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      // Owners that are suspended, unverified or closing get no new deliveries
+      where: { isActive: true, user: { status: "ACTIVE" } },
+      select: { id: true, eventTypes: true, forecasterIds: true, assetIds: true, createdAt: true },
+    });
+    if (endpoints.length === 0) return { events: 0, queued: 0 };
+
+    const result: FanoutResult = { events: 0, queued: 0 };
+    let cursor: Pick<Event, "id" | "createdAt"> | null = null;
+
+    for (;;) {
+      const events: Event[] = await prisma.event.findMany({
+        where: {
+          type: { in: Object.values(WEBHOOK_EVENTS) },
+          createdAt: { gte: new Date(now.getTime() - FANOUT_LOOKBACK_MS) },
+          ...(cursor && {
+            OR: [
+              { createdAt: { gt: cursor.createdAt } },
+              { createdAt: cursor.createdAt, id: { gt: cursor.id } },
+            ],
+          }),
+        },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        take: FANOUT_BATCH,
+      });
+      if (events.length === 0) break;
+
+      result.events += events.length;
+      result.queued += await this.fanOutBatch(events, endpoints);
+
+      if (events.length < FANOUT_BATCH) break;
+      cursor = events[events.length - 1] ?? null;
+    }
+
+    return result;
+  }
+
+  private async fanOutBatch(events: Event[], endpoints: FanoutEndpoint[]): Promise<number> {
+    const existing = await prisma.webhookDelivery.findMany({
+      where: { eventId: { in: events.map(event => event.id) } },
+      select: { endpointId: true, eventId: true },
+    });
+    const delivered = new Set(existing.map(row => `${row.endpointId}:${row.eventId}`));
+
+    const subjects = await this.resolveSubjects(events);
+    let queued = 0;
+
+    for (const event of events) {
+      const subject = subjects.get(event.id);
+      if (!subject) continue;
+
+      for (const endpoint of endpoints) {
+        // Endpoints only receive events raised after they were created
+        if (event.createdAt < endpoint.createdAt) continue;
+        if (delivered.has(`${endpoint.id}:${event.id}`)) continue;
+        if (!matchesWebhookFilters(endpoint, subject)) continue;
+
+        try {
+          const delivery = await prisma.webhookDelivery.create({
+            data: {
+              endpointId: endpoint.id,
+              eventId: event.id,
+              eventType: subject.eventType,
+              payload: this.buildPayload(event, subject),
+            },
+          });
+          await this.enqueueDelivery(delivery.id);
+          queued++;
+        } catch (error) {
+          // A concurrent fan-out already created it
+          if ((error as { code?: string }).code !== "P2002") throw error;
+        }
+      }
+    }
+
+    return queued;
+  }
+
+  /**
+   * Delivery job handler. Throws on failure so the queue retries it; the
+   * last failed attempt marks the delivery FAILED.
+   */
+  async deliver(job: Job, now = new Date()): Promise<void> {
+    const { deliveryId } = (job.payload ?? {}) as unknown as WebhookDeliveryPayload;
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: { select: { url: true, secret: true, isActive: true } } },
+    });
+
+    if (!delivery || delivery.status === "DELIVERED") return;
+
+    if (!delivery.endpoint.isActive && delivery.eventType !== TEST_EVENT_TYPE) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: "CANCELLED", error: "Endpoint disabled" },
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+    try {
+      const response = await postWebhook(
+        validateWebhookUrl(delivery.endpoint.url),
+        {
+          "Content-Type": "application/json",
+          "User-Agent": "OpinionPointer-Webhooks/1.0",
+          "X-Webhook-Id": delivery.id,
+          "X-Webhook-Event": delivery.eventType,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": signWebhookPayload(delivery.endpoint.secret, body, timestamp),
+        },
+        body,
+        controller.signal
+      );
+
+      responseStatus = response.status;
+      responseBody = response.body.slice(0, RESPONSE_BODY_LIMIT) || null;
+      if (response.status < 200 || response.status >= 300) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = controller.signal.aborted
+        ? `Timed out after ${DELIVERY_TIMEOUT_MS / 1000}s`
+        : err instanceof Error
+          ? err.message
+          : String(err);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const exhausted = job.attempts >= job.maxAttempts;
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: error ? (exhausted ? "FAILED" : "RETRYING") : "DELIVERED",
+        attempts: { increment: 1 },
+        responseStatus,
+        responseBody,
+        error,
+        durationMs: Date.now() - startedAt,
+        lastAttemptAt: now,
+        ...(!error && { deliveredAt: now }),
+      },
+    });
+
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  private async enqueueDelivery(deliveryId: string) {
+    return this.jobQueue.enqueue(
+      WEBHOOK_DELIVERY_JOB,
+      { deliveryId } satisfies WebhookDeliveryPayload as unknown as Prisma.InputJsonValue,
+      { maxAttempts: DELIVERY_ATTEMPTS }
+    );
+  }
+
+  /**
+   * Forecaster and asset behind each event, so filters also work for events
+   * written before they carried those ids (e.g. admin validations)
+   */
+  private async resolveSubjects(events: Event[]): Promise<Map<string, WebhookSubject>> {
+    const predictionIds = events.flatMap(e => (e.entityType === "PREDICTION" && e.entityId ? [e.entityId] : []));
+    const predictions = predictionIds.length
+      ? await prisma.prediction.findMany({
+          where: { id: { in: predictionIds } },
+          select: { id: true, forecasterId: true, assetId: true },
+        })
+      : [];
+    const byId = new Map(predictions.map(p => [p.id, p]));
+
+    const subjects = new Map<string, WebhookSubject>();
+    for (const event of events) {
+      const eventType = WEBHOOK_EVENT_TYPES.find(type => WEBHOOK_EVENTS[type] === event.type);
+      if (!eventType) continue;
+
+      if (event.entityType === "FORECASTER") {
+        subjects.set(event.id, { eventType, forecasterId: event.entityId, assetId: null });
+        continue;
+      }
+
+      const prediction = event.entityId ? byId.get(event.entityId) : undefined;
+      // Deleted since the event was written
+      if (!prediction) continue;
+
+      subjects.set(event.id, { eventType, forecasterId: prediction.forecasterId, assetId: prediction.assetId });
+    }
+
+    return subjects;
+  }
+
+  private buildPayload(event: Event, subject: WebhookSubject): Prisma.InputJsonValue {
+    const data = (event.data ?? {}) as Record<string, unknown>;
+
+    return {
+      id: event.id,
+      type: subject.eventType,
+      createdAt: event.createdAt.toISOString(),
+      data: {
+        ...data,
+        ...(event.entityType === "PREDICTION" && { predictionId: event.entityId }),
+        forecasterId: subject.forecasterId,
+        ...(subject.assetId && { assetId: subject.assetId }),
+      },
+    } as Prisma.InputJsonValue;
+  }
+
+  private normalize(input: WebhookEndpointInput) {
+    return {
+      url: validateWebhookUrl(input.url).toString(),
+      description: input.description?.trim() || null,
+      eventTypes: this.normalizeEventTypes(input.eventTypes),
+      forecasterIds: [...new Set(input.forecasterIds ?? [])],
+      assetIds: [...new Set(input.assetIds ?? [])],
+    };
+  }
+
+  private normalizeEventTypes(eventTypes: WebhookEventType[]): string[] {
+    const selected = WEBHOOK_EVENT_TYPES.filter(type => eventTypes.includes(type));
+    if (selected.length === 0) {
+      throw new Error("Select at least one event type");
+    }
+    return selected;
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const endpoint = await prisma.webhookEndpoint.findFirst({ where: { id, userId }, select: { id: true } });
+    if (!endpoint) {
+      throw new Error("Webhook endpoint not found");
+    }
+    return endpoint;
+  }
+}
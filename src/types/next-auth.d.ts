@@ -7,6 +7,9 @@ declare module "next-auth" {
       role: string;
       fullName: string | null;
       subscription: any;
+      twoFactorSetupRequired: boolean;
+      twoFactorPending: boolean; // Signed in without a code; see /auth/two-factor
+      sessionId?: string;
     } & DefaultSession["user"];
   }
 
@@ -16,6 +19,8 @@ declare module "next-auth" {
     role: string;
     fullName: string | null;
     subscription: any;
+    twoFactorSetupRequired?: boolean;
+    twoFactorEnabled?: boolean;
   }
 }
 
@@ -26,5 +31,8 @@ declare module "next-auth/jwt" {
     role: string;
     fullName: string | null;
     subscription: any;
+    twoFactorSetupRequired?: boolean;
+    twoFactorPending?: boolean;
+    sid?: string; // UserSession id, see security/sessions
   }
 }
\ No newline at end of file